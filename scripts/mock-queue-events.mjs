@@ -0,0 +1,175 @@
+// Local mock of the queue service push channel, for testing live updates.
+//
+//   node scripts/mock-queue-events.mjs [port]
+//
+// Point "Queue Service URL" at http://localhost:8787, enable Live Updates,
+// then emit events with:
+//
+//   curl -X POST localhost:8787/mock/emit -d '{"type":"job_status","data":{"job_id":"abc","status":"complete","result_article":"# Hello"}}'
+//   curl -X POST localhost:8787/mock/emit -d '{"type":"canvas_updated","data":{"canvas_name":"Guard","nodes":[],"edges":[]}}'
+//   curl -X POST localhost:8787/mock/emit -d '{"type":"concept_shared","data":{"concepts":[{"name":"Knee Shield"}]}}'
+//   curl -X POST localhost:8787/mock/emit -d '{"type":"broadcast_sent","data":{"title":"Guard retention","article":"# Frames first"}}'
+//   curl -X POST localhost:8787/mock/emit -d '{"type":"comment_added","data":{"job_id":"abc","body":"Try the shin-to-shin entry","author_name":"Coach"}}'
+//   curl -X POST localhost:8787/mock/drop    # close all streams to test the polling fallback
+//
+// Emitted jobs, canvases, concepts and broadcasts are kept in memory and served
+// from the matching REST endpoints, so the plugin's follow-up fetches succeed.
+import http from "http";
+import process from "process";
+
+const port = Number(process.argv[2]) || 8787;
+
+const clients = new Set();
+const jobs = new Map();
+const canvases = {};
+const canvasAcks = {};
+const concepts = [];
+const broadcasts = [];
+const comments = new Map();
+
+function send(res, status, body) {
+    res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*"
+    });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+    return new Promise((resolve) => {
+        let raw = "";
+        req.on("data", (chunk) => raw += chunk);
+        req.on("end", () => {
+            try {
+                resolve(raw ? JSON.parse(raw) : {});
+            } catch {
+                resolve(null);
+            }
+        });
+    });
+}
+
+function broadcast(type, data) {
+    const frame = `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const res of clients) res.write(frame);
+    console.log(`emitted ${type} to ${clients.size} client(s)`);
+}
+
+function remember(type, data) {
+    const now = new Date().toISOString();
+    if (type === "job_status" && data.job_id) {
+        const existing = jobs.get(data.job_id) || { query_text: "Mock query", submitted_at: now };
+        jobs.set(data.job_id, { ...existing, ...data });
+    } else if (type === "canvas_updated" && data.canvas_name) {
+        canvases[data.canvas_name] = {
+            data: { type: "canvas", canvasName: data.canvas_name, nodes: data.nodes || [], edges: data.edges || [], files: data.files || [] },
+            updated_at: now
+        };
+    } else if (type === "concept_shared") {
+        concepts.push(...(data.concepts || []));
+    } else if (type === "broadcast_sent") {
+        broadcasts.push({ id: `b${broadcasts.length + 1}`, title: "Mock broadcast", article: "", sources: [], sent_at: now, ...data });
+    } else if (type === "comment_added" && data.job_id) {
+        const thread = comments.get(data.job_id) || [];
+        thread.push({
+            id: `c${thread.length + 1}`,
+            job_id: data.job_id,
+            author_role: data.author_role || "coach",
+            author_name: data.author_name || "Coach",
+            body: data.body || "",
+            created_at: now
+        });
+        comments.set(data.job_id, thread);
+    }
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${port}`);
+    const path = url.pathname;
+
+    if (req.method === "OPTIONS") {
+        res.writeHead(204, {
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Headers": "Authorization, Content-Type, Idempotency-Key"
+        });
+        return res.end();
+    }
+
+    if (path === "/health") return send(res, 200, { status: "healthy" });
+
+    if (path === "/api/queue/events") {
+        res.writeHead(200, {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "Access-Control-Allow-Origin": "*"
+        });
+        res.write(": connected\n\n");
+        clients.add(res);
+        console.log(`client connected (${clients.size})`);
+        req.on("close", () => clients.delete(res));
+        return;
+    }
+
+    if (path === "/mock/emit" && req.method === "POST") {
+        const body = await readBody(req);
+        if (!body || !body.type) return send(res, 400, { error: "Expected {type, data}" });
+        remember(body.type, body.data || {});
+        broadcast(body.type, body.data || {});
+        return send(res, 200, { success: true, clients: clients.size });
+    }
+
+    if (path === "/mock/drop" && req.method === "POST") {
+        for (const client of clients) client.end();
+        clients.clear();
+        return send(res, 200, { success: true });
+    }
+
+    const statusMatch = path.match(/^\/api\/queue\/(status|result)\/(.+)$/);
+    if (statusMatch) {
+        const job = jobs.get(decodeURIComponent(statusMatch[2]));
+        if (!job) return send(res, 404, { error: "Job not found" });
+        return send(res, 200, job);
+    }
+
+    if (path === "/api/queue/comments") {
+        const since = url.searchParams.get("since") || "";
+        const all = [...comments.values()].flat().filter((c) => c.created_at > since);
+        return send(res, 200, { comments: all });
+    }
+
+    const commentsMatch = path.match(/^\/api\/queue\/comments\/(.+)$/);
+    if (commentsMatch) {
+        const jobId = decodeURIComponent(commentsMatch[1]);
+        if (req.method === "POST") {
+            const body = await readBody(req);
+            remember("comment_added", { job_id: jobId, author_role: "athlete", ...body });
+            const thread = comments.get(jobId);
+            return send(res, 200, { comment: thread[thread.length - 1] });
+        }
+        return send(res, 200, { comments: comments.get(jobId) || [] });
+    }
+
+    const ackMatch = path.match(/^\/api\/queue\/canvases\/(.+)\/ack$/);
+    if (ackMatch && req.method === "POST") {
+        const name = decodeURIComponent(ackMatch[1]);
+        const body = await readBody(req);
+        canvasAcks[name] = { ...canvasAcks[name], ...(body && body.files) };
+        console.log(`acknowledged ${Object.keys(canvasAcks[name]).length} file(s) of ${name}`);
+        return send(res, 200, { success: true });
+    }
+
+    if (path === "/api/queue/jobs") return send(res, 200, { jobs: [...jobs.values()] });
+    if (path === "/api/queue/canvases") return send(res, 200, { canvases });
+    if (path === "/api/queue/concepts") return send(res, 200, { concepts });
+    if (path === "/api/queue/broadcasts") {
+        const since = url.searchParams.get("since") || "";
+        return send(res, 200, { broadcasts: broadcasts.filter((b) => b.sent_at > since) });
+    }
+
+    send(res, 404, { error: `No mock for ${req.method} ${path}` });
+});
+
+server.listen(port, () => {
+    console.log(`Mock queue events on http://localhost:${port}`);
+});
@@ -0,0 +1,392 @@
+// Layered layout for generated canvases (RLM, Variables, concept timelines).
+//
+// Checkpoints form the spine: one column (or row, when vertical) per rank, in
+// checkpoint order. Methods, invariables and variables hang off their checkpoint
+// on either side of the spine, in tier bands that line up across the whole
+// canvas, so a checkpoint with many invariables widens its own column instead
+// of overlapping its neighbours.
+
+export type LayoutDirection = 'horizontal' | 'vertical';
+
+// Which side of the spine a branch node sits on: above/left ('before') or below/right ('after')
+export type BranchSide = 'before' | 'after';
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A canvas node plus layout hints. Spine nodes set rank; branch nodes set
+ * anchor (a spine node ID), side and tier. Hints are stripped from the output.
+ */
+export interface LayoutNode {
+    id: string;
+    width: number;
+    height: number;
+    rank?: number;
+    anchor?: string;
+    side?: BranchSide;
+    tier?: string;
+    [key: string]: any;
+}
+
+export interface LayoutOptions {
+    direction?: LayoutDirection;
+    origin?: { x: number; y: number };
+    // Space between spine columns, between stacked nodes, and between bands
+    rankGap?: number;
+    nodeGap?: number;
+    bandGap?: number;
+    // Tiers closest to the spine first; unlisted tiers follow alphabetically
+    tierOrder?: string[];
+    // Wrap each tier band in a labelled canvas group node
+    groupTiers?: boolean;
+    tierLabels?: Record<string, string>;
+}
+
+const GROUP_PADDING = 40;
+
+function mainSize(node: { width: number; height: number }, direction: LayoutDirection): number {
+    return direction === 'horizontal' ? node.width : node.height;
+}
+
+function crossSize(node: { width: number; height: number }, direction: LayoutDirection): number {
+    return direction === 'horizontal' ? node.height : node.width;
+}
+
+function place(main: number, cross: number, direction: LayoutDirection): { x: number; y: number } {
+    return direction === 'horizontal' ? { x: main, y: cross } : { x: cross, y: main };
+}
+
+function stackSize(nodes: LayoutNode[], direction: LayoutDirection, gap: number): number {
+    if (nodes.length === 0) return 0;
+    return nodes.reduce((sum, n) => sum + crossSize(n, direction), 0) + gap * (nodes.length - 1);
+}
+
+function stripHints(node: LayoutNode): any {
+    const { rank, anchor, side, tier, ...rest } = node;
+    return rest;
+}
+
+export function boxesOverlap(a: Box, b: Box, margin: number = 0): boolean {
+    return a.x < b.x + b.width + margin && b.x < a.x + a.width + margin
+        && a.y < b.y + b.height + margin && b.y < a.y + a.height + margin;
+}
+
+/**
+ * Position the nodes and route the edges. Returns canvas-ready nodes (tier
+ * group nodes first, so they render underneath) and edges with sides set.
+ */
+export function layoutCanvas(nodes: LayoutNode[], edges: any[], options: LayoutOptions = {}): { nodes: any[]; edges: any[] } {
+    const direction = options.direction || 'horizontal';
+    const origin = options.origin || { x: 100, y: 100 };
+    const rankGap = options.rankGap ?? 120;
+    const nodeGap = options.nodeGap ?? 30;
+    const bandGap = options.bandGap ?? 80;
+
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const isBranch = (n: LayoutNode) => !!n.anchor && byId.has(n.anchor) && !byId.get(n.anchor)!.anchor;
+
+    // Spine columns, in rank order; unranked spine nodes go at the end
+    const spine = nodes.filter(n => !isBranch(n));
+    const maxRank = Math.max(-1, ...spine.map(n => n.rank ?? -1));
+    const ranks = [...new Set(spine.map(n => n.rank ?? maxRank + 1))].sort((a, b) => a - b);
+    const columnOf = new Map<string, number>();
+    for (const n of spine) columnOf.set(n.id, ranks.indexOf(n.rank ?? maxRank + 1));
+    const columns = ranks.map((_, c) => spine.filter(n => columnOf.get(n.id) === c));
+
+    // Tier bands on each side, nearest the spine first
+    const branches = nodes.filter(isBranch);
+    const tierRank = (tier: string) => {
+        const i = (options.tierOrder || []).indexOf(tier);
+        return i === -1 ? Number.MAX_SAFE_INTEGER : i;
+    };
+    const bandsFor = (side: BranchSide) => [...new Set(branches.filter(n => (n.side || 'after') === side).map(n => n.tier || ''))]
+        .sort((a, b) => tierRank(a) - tierRank(b) || a.localeCompare(b));
+    const cell = (side: BranchSide, tier: string, c: number) => branches.filter(n =>
+        (n.side || 'after') === side && (n.tier || '') === tier && columnOf.get(n.anchor!) === c);
+
+    // Column widths along the main axis fit everything placed in the column
+    const columnSizes = columns.map((col, c) => Math.max(
+        ...col.map(n => mainSize(n, direction)),
+        ...branches.filter(n => columnOf.get(n.anchor!) === c).map(n => mainSize(n, direction))
+    ));
+    const columnStarts: number[] = [];
+    let cursor = direction === 'horizontal' ? origin.x : origin.y;
+    for (const size of columnSizes) {
+        columnStarts.push(cursor);
+        cursor += size + rankGap;
+    }
+
+    const positioned = new Map<string, { x: number; y: number }>();
+    const crossOrigin = direction === 'horizontal' ? origin.y : origin.x;
+    const centered = (n: LayoutNode, c: number) => columnStarts[c] + (columnSizes[c] - mainSize(n, direction)) / 2;
+
+    // Spine: nodes sharing a rank are stacked within their column
+    const spineSize = Math.max(0, ...columns.map(col => stackSize(col, direction, nodeGap)));
+    columns.forEach((col, c) => {
+        let at = crossOrigin + (spineSize - stackSize(col, direction, nodeGap)) / 2;
+        for (const n of col) {
+            positioned.set(n.id, place(centered(n, c), at, direction));
+            at += crossSize(n, direction) + nodeGap;
+        }
+    });
+
+    // Bands: 'before' grows away from the spine toward negative cross, 'after' toward positive
+    const groups: any[] = [];
+    const layoutSide = (side: BranchSide) => {
+        let edge = side === 'before' ? crossOrigin - bandGap : crossOrigin + spineSize + bandGap;
+        for (const tier of bandsFor(side)) {
+            const bandSize = Math.max(...columns.map((_, c) => stackSize(cell(side, tier, c), direction, nodeGap)));
+            const bandStart = side === 'before' ? edge - bandSize : edge;
+            columns.forEach((_, c) => {
+                // Stack outward from the spine
+                let at = side === 'before' ? bandStart + bandSize : bandStart;
+                for (const n of cell(side, tier, c)) {
+                    if (side === 'before') at -= crossSize(n, direction);
+                    positioned.set(n.id, place(centered(n, c), at, direction));
+                    at += side === 'before' ? -nodeGap : crossSize(n, direction) + nodeGap;
+                }
+            });
+
+            if (options.groupTiers && tier) {
+                const members = branches.filter(n => (n.side || 'after') === side && (n.tier || '') === tier);
+                const mainStart = Math.min(...members.map(n => columnStarts[columnOf.get(n.anchor!)!]));
+                const mainEnd = Math.max(...members.map(n => {
+                    const c = columnOf.get(n.anchor!)!;
+                    return columnStarts[c] + columnSizes[c];
+                }));
+                const pos = place(mainStart - GROUP_PADDING, bandStart - GROUP_PADDING, direction);
+                const size = place(mainEnd - mainStart + GROUP_PADDING * 2, bandSize + GROUP_PADDING * 2, direction);
+                groups.push({
+                    id: `group-${side}-${tier.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+                    type: 'group',
+                    label: options.tierLabels?.[tier] || tier,
+                    x: pos.x,
+                    y: pos.y,
+                    width: size.x,
+                    height: size.y
+                });
+            }
+
+            const spacing = bandSize + bandGap + (options.groupTiers && tier ? GROUP_PADDING * 2 : 0);
+            edge += side === 'before' ? -spacing : spacing;
+        }
+    };
+    layoutSide('before');
+    layoutSide('after');
+
+    const laidOut = nodes.map(n => ({ ...stripHints(n), ...positioned.get(n.id) }));
+    return {
+        nodes: [...groups, ...laidOut],
+        edges: routeEdges(laidOut, edges, direction)
+    };
+}
+
+/**
+ * Pick edge sides from node geometry: facing sides for neighbours, and a
+ * detour around the spine (both ends on the 'after' side) when a straight
+ * line would run through other cards.
+ */
+export function routeEdges(nodes: any[], edges: any[], direction: LayoutDirection = 'horizontal'): any[] {
+    const byId = new Map(nodes.filter(n => n.type !== 'group').map(n => [n.id, n]));
+    const center = (n: Box) => ({ x: n.x + n.width / 2, y: n.y + n.height / 2 });
+
+    return edges.map(edge => {
+        const from = byId.get(edge.fromNode);
+        const to = byId.get(edge.toNode);
+        if (!from || !to) return edge;
+
+        const a = center(from);
+        const b = center(to);
+        const blocked = [...byId.values()].some(n => n !== from && n !== to && segmentHitsBox(a, b, n));
+        if (blocked) {
+            const side = direction === 'horizontal' ? 'bottom' : 'right';
+            return { ...edge, fromSide: side, toSide: side };
+        }
+
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        if (Math.abs(dx) >= Math.abs(dy)) {
+            return { ...edge, fromSide: dx >= 0 ? 'right' : 'left', toSide: dx >= 0 ? 'left' : 'right' };
+        }
+        return { ...edge, fromSide: dy >= 0 ? 'bottom' : 'top', toSide: dy >= 0 ? 'top' : 'bottom' };
+    });
+}
+
+function segmentHitsBox(a: { x: number; y: number }, b: { x: number; y: number }, box: Box): boolean {
+    // Sample along the segment; cards are large relative to the step
+    const steps = 20;
+    for (let i = 1; i < steps; i++) {
+        const x = a.x + (b.x - a.x) * i / steps;
+        const y = a.y + (b.y - a.y) * i / steps;
+        if (x > box.x && x < box.x + box.width && y > box.y && y < box.y + box.height) return true;
+    }
+    return false;
+}
+
+/**
+ * Find spots for new cards next to an anchor without covering existing ones:
+ * beside the anchor along the main axis first, then fanning out across it.
+ */
+export function placeNear(existing: Box[], anchor: Box, sizes: { width: number; height: number }[], direction: LayoutDirection = 'horizontal', gap: number = 50): Box[] {
+    const occupied = [...existing];
+    const placed: Box[] = [];
+    for (const size of sizes) {
+        let spot: Box | null = null;
+        for (let lane = 1; !spot && lane <= 10; lane++) {
+            const main = direction === 'horizontal'
+                ? anchor.x + anchor.width + gap + (lane - 1) * (size.width + gap)
+                : anchor.y + anchor.height + gap + (lane - 1) * (size.height + gap);
+            for (let step = 0; step < 40; step++) {
+                // 0, +1, -1, +2, -2 ... card heights from the anchor's cross position
+                const offset = (step % 2 === 0 ? 1 : -1) * Math.ceil(step / 2) * (crossSize(size, direction) + gap / 2);
+                const cross = (direction === 'horizontal' ? anchor.y : anchor.x) + offset;
+                const candidate = { ...place(main, cross, direction), width: size.width, height: size.height };
+                if (!occupied.some(box => boxesOverlap(candidate, box, gap / 2))) {
+                    spot = candidate;
+                    break;
+                }
+            }
+        }
+        // Crowded canvas: fall back to just past the anchor
+        spot = spot || {
+            x: direction === 'horizontal' ? anchor.x + anchor.width + gap : anchor.x,
+            y: direction === 'horizontal' ? anchor.y : anchor.y + anchor.height + gap,
+            width: size.width,
+            height: size.height
+        };
+        occupied.push(spot);
+        placed.push(spot);
+    }
+    return placed;
+}
+
+// IDs the canvas builders assign; anything else was added by hand (or by enrichment)
+const GENERATED_ID = /^(checkpoint|method|var|cp|inv|group|edge)-/;
+
+// Marks a card flagged as removed, holding the color it had before (null for none)
+const REMOVED_COLOR = 'flipmodeRemovedColor';
+
+// Undo the removed flag on a card whose file is generated again
+function unflagRemoved(node: any): any {
+    if (!(REMOVED_COLOR in node)) return node;
+    const { [REMOVED_COLOR]: original, ...rest } = node;
+    // Recolored by hand since it was flagged
+    if (rest.color !== '1') return rest;
+    if (original) return { ...rest, color: original };
+    const { color, ...uncolored } = rest;
+    return uncolored;
+}
+
+export interface RebuildResult {
+    nodes: any[];
+    edges: any[];
+    added: number;
+    kept: number;
+    // Paths of generated cards newly dropped from the canvas by this rebuild
+    removed: string[];
+}
+
+/**
+ * Rebuild a generated canvas on top of the existing one. Cards are matched by
+ * file path: matched cards keep their position, size and color, new cards go
+ * next to their checkpoint, and hand-made cards, text and groups are left
+ * alone. Generated cards that dropped out are kept and flagged red (or turned
+ * into a text card if the file is gone) rather than silently deleted; a flagged
+ * card gets its color back if its file is generated again.
+ */
+export function rebuildCanvas(existing: { nodes: any[]; edges: any[] } | null, generated: { nodes: LayoutNode[]; edges: any[] }, options: LayoutOptions & { fileExists: (path: string) => boolean }): RebuildResult {
+    const fresh = layoutCanvas(generated.nodes, generated.edges, options);
+    if (!existing || existing.nodes.length === 0) {
+        return { ...fresh, added: generated.nodes.length, kept: 0, removed: [] };
+    }
+
+    const direction = options.direction || 'horizontal';
+    const existingByFile = new Map(existing.nodes.filter(n => n.type === 'file').map(n => [n.file, n]));
+    const existingIds = new Set([...existing.nodes, ...existing.edges].map(item => item.id));
+    const generatedFiles = new Set(generated.nodes.map(n => n.file).filter(Boolean));
+    const freshById = new Map(fresh.nodes.map(n => [n.id, n]));
+
+    // Existing cards, flagged when their file left the generated set
+    const removed: string[] = [];
+    const nodes = existing.nodes.map(node => {
+        if (node.type !== 'file' || !GENERATED_ID.test(node.id)) return node;
+        if (generatedFiles.has(node.file)) return unflagRemoved(node);
+        const flagged = REMOVED_COLOR in node;
+        if (!flagged) removed.push(node.file);
+        if (options.fileExists(node.file)) {
+            return flagged ? node : { ...node, color: '1', [REMOVED_COLOR]: node.color ?? null };
+        }
+        const { file, subpath, [REMOVED_COLOR]: original, ...rest } = node;
+        return { ...rest, type: 'text', text: `**Removed:** ${file}`, color: '1' };
+    });
+
+    // Generated ID -> ID on the rebuilt canvas
+    const idMap = new Map<string, string>();
+    const unique = (id: string) => {
+        let candidate = id;
+        for (let n = 2; existingIds.has(candidate); n++) candidate = `${id}-${n}`;
+        existingIds.add(candidate);
+        return candidate;
+    };
+
+    let kept = 0;
+    for (const node of generated.nodes) {
+        const match = node.file ? existingByFile.get(node.file) : undefined;
+        if (match) {
+            idMap.set(node.id, match.id);
+            kept++;
+        }
+    }
+
+    // New cards: spine cards next to their neighbouring checkpoint, branches next to their own
+    const spineFirst = [...generated.nodes].sort((a, b) => Number(!!a.anchor) - Number(!!b.anchor));
+    let added = 0;
+    for (const node of spineFirst) {
+        if (idMap.has(node.id) || node.type === 'group') continue;
+        const id = unique(node.id);
+        idMap.set(node.id, id);
+
+        let anchorId = node.anchor;
+        if (!anchorId && node.rank !== undefined) {
+            const neighbour = generated.nodes
+                .filter(n => !n.anchor && n.rank !== undefined && n.rank < node.rank! && idMap.has(n.id))
+                .sort((a, b) => b.rank! - a.rank!)[0];
+            anchorId = neighbour?.id;
+        }
+        const anchor = anchorId ? nodes.find(n => n.id === idMap.get(anchorId!)) : undefined;
+        // Group frames aren't obstacles; new cards may land inside them
+        const cards = nodes.filter(n => n.type !== 'group');
+        const spot = placeNear(cards, anchor || rightmost(cards), [{ width: node.width, height: node.height }], direction)[0];
+        const laidOut = freshById.get(node.id);
+        nodes.push({ ...laidOut, id, x: spot.x, y: spot.y });
+        added++;
+    }
+
+    // Edges: hand-made ones stay; generated ones are recomputed, keeping styling where the pair already existed
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const edges = existing.edges.filter(e => !GENERATED_ID.test(e.id) && nodeIds.has(e.fromNode) && nodeIds.has(e.toNode));
+    const newEdges: any[] = [];
+    for (const edge of generated.edges) {
+        const fromNode = idMap.get(edge.fromNode);
+        const toNode = idMap.get(edge.toNode);
+        if (!fromNode || !toNode) continue;
+        const previous = existing.edges.find(e => e.fromNode === fromNode && e.toNode === toNode);
+        if (previous) {
+            if (!edges.includes(previous)) edges.push(previous);
+        } else {
+            newEdges.push({ ...edge, id: unique(edge.id), fromNode, toNode });
+        }
+    }
+    edges.push(...routeEdges(nodes, newEdges, direction));
+
+    return { nodes, edges, added, kept, removed };
+}
+
+function rightmost(nodes: Box[]): Box {
+    return nodes.reduce((best, n) => (n.x + n.width > best.x + best.width ? n : best), nodes[0] || { x: 0, y: 0, width: 0, height: 0 });
+}
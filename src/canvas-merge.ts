@@ -0,0 +1,144 @@
+// Three-way merge for canvases the coach shares with athletes.
+//
+// The coach's canvas is re-sent whole on every change. To keep what the athlete
+// did in between, the last coach version written to the vault (the base) is
+// compared with both the athlete's current canvas (local) and the new coach
+// version (incoming). Nodes and edges whose IDs never came from the coach are
+// the athlete's own layer and are always kept, drawn above the coach's cards.
+
+export interface CanvasData {
+    nodes: any[];
+    edges: any[];
+}
+
+export interface CanvasMergeResult extends CanvasData {
+    // Human-readable descriptions of edits that could not both be kept
+    conflicts: string[];
+    // Athlete-owned nodes and edges carried over
+    keptNodes: number;
+    keptEdges: number;
+}
+
+const GEOMETRY_KEYS = ['x', 'y', 'width', 'height'];
+const CONTENT_KEYS = ['type', 'text', 'file', 'subpath', 'url', 'label', 'color'];
+
+function changed(a: any, b: any, keys: string[]): boolean {
+    return keys.some(key => a[key] !== b[key]);
+}
+
+function pick(node: any, keys: string[]): any {
+    const out: any = {};
+    for (const key of keys) {
+        if (node[key] !== undefined) out[key] = node[key];
+    }
+    return out;
+}
+
+function omit(node: any, keys: string[]): any {
+    const out = { ...node };
+    for (const key of keys) delete out[key];
+    return out;
+}
+
+// Short name for a node in conflict messages
+export function canvasNodeLabel(node: any): string {
+    if (node.label) return node.label;
+    if (node.file) return node.file.split('/').pop().replace(/\.md$/, '');
+    if (node.text) {
+        const line = String(node.text).split('\n').find((l: string) => l.trim()) || '';
+        const clean = line.replace(/^#+\s*/, '').trim();
+        return clean.length > 40 ? clean.substring(0, 40) + '...' : clean;
+    }
+    if (node.url) return node.url;
+    return node.id;
+}
+
+/**
+ * Merge the coach's incoming canvas into the athlete's local copy.
+ *
+ * Coach nodes take the coach's content; the athlete's position/size for a coach
+ * node is kept unless the coach moved it too (a conflict, coach wins). Athlete
+ * text edits to a coach node survive only while the coach leaves it unchanged;
+ * edits to a node the coach deleted are dropped and reported. With no base
+ * (first merge) the athlete's own nodes can't be told from ones the coach
+ * deleted, so the coach's canvas is taken as is and the dropped cards reported.
+ */
+export function mergeCanvas(base: CanvasData | null, local: CanvasData | null, incoming: CanvasData): CanvasMergeResult {
+    const conflicts: string[] = [];
+    const baseNodes = new Map((base?.nodes || []).map(n => [n.id, n]));
+    const localNodes = new Map((local?.nodes || []).map(n => [n.id, n]));
+    const incomingIds = new Set(incoming.nodes.map(n => n.id));
+
+    const nodes: any[] = [];
+    for (const coachNode of incoming.nodes) {
+        const baseNode = baseNodes.get(coachNode.id);
+        const localNode = localNodes.get(coachNode.id);
+        if (!localNode || !baseNode) {
+            nodes.push(coachNode);
+            continue;
+        }
+
+        let merged = coachNode;
+
+        const athleteMoved = changed(localNode, baseNode, GEOMETRY_KEYS);
+        const coachMoved = changed(coachNode, baseNode, GEOMETRY_KEYS);
+        if (athleteMoved && !coachMoved) {
+            merged = { ...merged, ...pick(localNode, GEOMETRY_KEYS) };
+        } else if (athleteMoved && coachMoved && changed(localNode, coachNode, GEOMETRY_KEYS)) {
+            conflicts.push(`"${canvasNodeLabel(coachNode)}" was moved by both you and your coach - kept your coach's position`);
+        }
+
+        const athleteEdited = changed(localNode, baseNode, CONTENT_KEYS);
+        const coachEdited = changed(coachNode, baseNode, CONTENT_KEYS);
+        if (athleteEdited && !coachEdited) {
+            merged = { ...omit(merged, CONTENT_KEYS), ...pick(localNode, CONTENT_KEYS) };
+        } else if (athleteEdited && coachEdited && changed(localNode, coachNode, CONTENT_KEYS)) {
+            conflicts.push(`"${canvasNodeLabel(coachNode)}" was edited by both you and your coach - kept your coach's version`);
+        }
+
+        nodes.push(merged);
+    }
+
+    // The athlete's own layer: local nodes the coach never sent
+    let keptNodes = 0;
+    for (const localNode of local?.nodes || []) {
+        if (incomingIds.has(localNode.id)) continue;
+
+        const baseNode = baseNodes.get(localNode.id);
+        if (!base) {
+            conflicts.push(`"${canvasNodeLabel(localNode)}" was removed - it isn't on your coach's canvas, and this first sync can't tell your cards from ones your coach deleted`);
+            continue;
+        }
+        if (baseNode) {
+            if (changed(localNode, baseNode, CONTENT_KEYS)) {
+                conflicts.push(`"${canvasNodeLabel(localNode)}" was deleted by your coach - your edits to it were dropped`);
+            }
+            continue;
+        }
+
+        nodes.push(localNode);
+        keptNodes++;
+    }
+
+    // Edges: the coach's as sent, plus the athlete's while both ends still exist
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const coachEdgeIds = new Set([...(base?.edges || []), ...incoming.edges].map(e => e.id));
+    const edges = [...incoming.edges];
+    let keptEdges = 0;
+    for (const localEdge of local?.edges || []) {
+        // Without a base, edges are as ambiguous as nodes: the coach's canvas wins
+        if (coachEdgeIds.has(localEdge.id) || !base) continue;
+        if (nodeIds.has(localEdge.fromNode) && nodeIds.has(localEdge.toNode)) {
+            edges.push(localEdge);
+            keptEdges++;
+        } else {
+            const gone = [localEdge.fromNode, localEdge.toNode]
+                .filter(id => !nodeIds.has(id))
+                .map(id => localNodes.get(id) || baseNodes.get(id))
+                .map(node => node ? `"${canvasNodeLabel(node)}"` : 'a card');
+            conflicts.push(`Your connection ${localEdge.label ? `"${localEdge.label}" ` : ''}was removed because your coach deleted ${gone.join(' and ')}`);
+        }
+    }
+
+    return { nodes, edges, conflicts, keptNodes, keptEdges };
+}
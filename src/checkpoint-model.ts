@@ -0,0 +1,236 @@
+// Structured data for checkpoint notes.
+//
+// A checkpoint's invariables, variables (IF/THEN branches) and its place in the
+// sequence live in frontmatter, so canvases and enrichment never depend on the
+// markdown tables in the note body, which are for reading and may be hand-edited.
+// Notes written before this format are read from those tables instead and can
+// be converted with the migration command.
+
+export type InvariableTier = 'tier1' | 'tier2' | 'tier3';
+
+export interface CheckpointInvariable {
+    // Note name (basename) of the invariable/method note
+    name: string;
+    tier: InvariableTier;
+}
+
+export interface CheckpointVariable {
+    // Note name of the variable note, if one was linked
+    name: string | null;
+    condition: string;
+    action: string;
+}
+
+export interface CheckpointNote {
+    order: number | null;
+    cluster: string;
+    goal: string;
+    successTest: string;
+    invariables: CheckpointInvariable[];
+    variables: CheckpointVariable[];
+    previous: string | null;
+    next: string | null;
+    // False when read from the legacy markdown sections
+    structured: boolean;
+}
+
+// The relationship part of a checkpoint, as stored in frontmatter
+export type CheckpointLinks = Pick<CheckpointNote, 'invariables' | 'variables' | 'previous' | 'next'>;
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?\r?\n)?---(\r?\n|$)/;
+
+// Frontmatter keys owned by this module
+const STRUCTURED_KEYS = ['invariables', 'variables', 'previous_checkpoint', 'next_checkpoint'];
+
+// Accepts tier1/2/3 as well as the CRITICAL/IMPORTANT/REFINEMENT table labels
+export function normalizeTier(label: unknown): InvariableTier {
+    const value = String(label ?? '').trim().toLowerCase();
+    if (value === 'tier1' || value === 'critical') return 'tier1';
+    if (value === 'tier2' || value === 'important') return 'tier2';
+    return 'tier3';
+}
+
+// "[[Folder/Name#Heading|Alias]]" or "Folder/Name" -> "Name"
+export function linkName(target: string): string {
+    const path = target.replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0].split('#')[0];
+    return path.split('/').pop()!.replace(/\.md$/, '').trim();
+}
+
+// Table cells, ignoring the | inside aliased [[link|alias]]s
+function tableCells(line: string): string[] {
+    return line.split(/\|(?![^[]*\]\])/).map(cell => cell.trim());
+}
+
+function wikiLinks(text: string): string[] {
+    return (text.match(/\[\[[^\]]+\]\]/g) || []).map(linkName).filter(name => name && name !== 'none');
+}
+
+// Body of a "## Heading" section, up to the next heading or --- rule
+function section(content: string, heading: string): string | null {
+    const match = content.match(new RegExp(`^## ${heading}[^\\r\\n]*\\r?\\n([\\s\\S]*?)(?=\\r?\\n---|\\r?\\n## |(?![\\s\\S]))`, 'm'));
+    return match ? match[1] : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseStructured(frontmatter: any): CheckpointLinks {
+    const invariables: CheckpointInvariable[] = [];
+    for (const item of Array.isArray(frontmatter.invariables) ? frontmatter.invariables : []) {
+        const name = typeof item === 'string' ? item : item?.name;
+        if (typeof name !== 'string' || !name.trim()) continue;
+        invariables.push({ name: linkName(name), tier: normalizeTier(item?.tier) });
+    }
+
+    const variables: CheckpointVariable[] = [];
+    for (const item of Array.isArray(frontmatter.variables) ? frontmatter.variables : []) {
+        if (!item || typeof item !== 'object') continue;
+        const name = stringOrNull(item.name);
+        variables.push({
+            name: name ? linkName(name) : null,
+            condition: String(item.condition ?? ''),
+            action: String(item.action ?? '')
+        });
+    }
+
+    const previous = stringOrNull(frontmatter.previous_checkpoint);
+    const next = stringOrNull(frontmatter.next_checkpoint);
+    return {
+        invariables,
+        variables,
+        previous: previous ? linkName(previous) : null,
+        next: next ? linkName(next) : null
+    };
+}
+
+// Read relationships from the markdown sections written by older versions
+function parseLegacy(content: string): CheckpointLinks {
+    const invariables: CheckpointInvariable[] = [];
+    const seen = new Set<string>();
+    for (const line of (section(content, 'INVARIABLES') || '').split(/\r?\n/)) {
+        const cells = tableCells(line);
+        if (cells.length < 3) continue;
+        for (const name of wikiLinks(cells[2])) {
+            if (seen.has(name.toLowerCase())) continue;
+            seen.add(name.toLowerCase());
+            invariables.push({ name, tier: normalizeTier(cells[1]) });
+        }
+    }
+
+    // "- **IF x** → action → [[VAR - x]]" (enrichment) or "- **trigger** → [[Name]]" (explode)
+    const variables: CheckpointVariable[] = [];
+    for (const line of (section(content, 'VARIABLES') || '').split(/\r?\n/)) {
+        const match = line.match(/^- \*\*(.+?)\*\*(.*)$/);
+        if (!match) continue;
+        const links = wikiLinks(match[2]);
+        const action = match[2].replace(/\[\[[^\]]+\]\]/g, '').split('→').map(p => p.trim()).filter(Boolean).join(' → ');
+        variables.push({ name: links.length > 0 ? links[links.length - 1] : null, condition: match[1].trim(), action });
+    }
+
+    // | Previous | Next | table; the first row after the separator holds the links
+    let previous: string | null = null;
+    let next: string | null = null;
+    const navRow = (section(content, 'Navigation') || '').split(/\r?\n/).find(line => /^\|/.test(line) && /\[\[/.test(line));
+    if (navRow) {
+        const cells = tableCells(navRow);
+        previous = wikiLinks(cells[1] || '')[0] || null;
+        next = wikiLinks(cells[2] || '')[0] || null;
+    }
+
+    return { invariables, variables, previous, next };
+}
+
+/**
+ * Parse a checkpoint note. Relationships come from frontmatter when the note
+ * has them, otherwise from the legacy INVARIABLES/VARIABLES/Navigation sections.
+ */
+export function parseCheckpointNote(content: string, frontmatter: any): CheckpointNote {
+    const fm = frontmatter && typeof frontmatter === 'object' ? frontmatter : {};
+    const structured = Array.isArray(fm.invariables) || Array.isArray(fm.variables);
+    const order = typeof fm.order === 'number' ? fm.order : parseInt(fm.order);
+
+    return {
+        order: Number.isFinite(order) ? order : null,
+        cluster: typeof fm.cluster === 'string' ? fm.cluster : '',
+        goal: content.match(/## Goal\r?\n\r?\n([^\r\n]+)/)?.[1].trim() || '',
+        successTest: content.match(/## Success Test\r?\n\r?\n> ([^\r\n]+)/)?.[1].trim() || '',
+        ...(structured ? parseStructured(fm) : parseLegacy(content)),
+        structured
+    };
+}
+
+// One-line form of a variable, as sent to the enrichment API
+export function describeVariable(variable: CheckpointVariable): string {
+    return [variable.condition, variable.action].filter(Boolean).join(' → ');
+}
+
+/**
+ * YAML lines (with trailing newline) for the structured fields. Strings are
+ * JSON-quoted, which YAML reads as double-quoted scalars.
+ */
+export function serializeCheckpointFrontmatter(links: CheckpointLinks): string {
+    const q = (value: string) => JSON.stringify(value);
+    let yaml = links.invariables.length > 0
+        ? 'invariables:\n' + links.invariables.map(inv => `  - name: ${q(inv.name)}\n    tier: ${inv.tier}\n`).join('')
+        : 'invariables: []\n';
+    yaml += links.variables.length > 0
+        ? 'variables:\n' + links.variables.map(v => `  - name: ${q(v.name ?? '')}\n    condition: ${q(v.condition)}\n    action: ${q(v.action)}\n`).join('')
+        : 'variables: []\n';
+    if (links.previous) yaml += `previous_checkpoint: ${q(links.previous)}\n`;
+    if (links.next) yaml += `next_checkpoint: ${q(links.next)}\n`;
+    return yaml;
+}
+
+// Raw YAML of a note's frontmatter block ('' if it has none)
+export function frontmatterText(content: string): string {
+    return content.match(FRONTMATTER)?.[1] || '';
+}
+
+// Drop the given top-level keys (and their nested lines) and append yaml, keeping the note's line endings
+function replaceFrontmatterKeys(content: string, keys: string[], yaml: string): string {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const match = content.match(FRONTMATTER);
+    if (!match) return `---\n${yaml}---\n\n`.replace(/\n/g, eol) + content;
+
+    const kept: string[] = [];
+    let skipping = false;
+    for (const line of (match[1] || '').split(/\r?\n/)) {
+        const key = line.match(/^([A-Za-z_][\w-]*):/)?.[1];
+        if (key) skipping = keys.includes(key);
+        else if (line && !/^\s/.test(line) && !line.startsWith('-')) skipping = false;
+        if (!skipping) kept.push(line);
+    }
+    const head = kept.join('\n').replace(/\n*$/, '\n').replace(/^\n$/, '');
+    return `---\n${head}${yaml}---`.replace(/\n/g, eol) + match[2] + content.substring(match[0].length);
+}
+
+/**
+ * Replace the structured fields in a checkpoint's frontmatter, leaving every
+ * other key and the body untouched. Adds a frontmatter block if there is none.
+ */
+export function setCheckpointFrontmatter(content: string, links: CheckpointLinks): string {
+    return replaceFrontmatterKeys(content, STRUCTURED_KEYS, serializeCheckpointFrontmatter(links));
+}
+
+// Checkpoints an invariable/variable/method note belongs to, including a single
+// checkpoint key from notes written before the list
+export function parentCheckpoints(frontmatter: any): string[] {
+    const fm = frontmatter && typeof frontmatter === 'object' ? frontmatter : {};
+    const names: string[] = [];
+    for (const value of [...(Array.isArray(fm.checkpoints) ? fm.checkpoints : []), fm.checkpoint]) {
+        const name = typeof value === 'string' ? linkName(value) : '';
+        if (name && !names.includes(name)) names.push(name);
+    }
+    return names;
+}
+
+// Add a checkpoint to the ones an invariable/variable/method note belongs to;
+// a note shared by several checkpoints keeps all of them
+export function addParentCheckpoint(content: string, frontmatter: any, checkpoint: string): string {
+    const checkpoints = parentCheckpoints(frontmatter);
+    if (checkpoints.includes(checkpoint) && frontmatter?.checkpoint === undefined) return content;
+    if (!checkpoints.includes(checkpoint)) checkpoints.push(checkpoint);
+    const yaml = 'checkpoints:\n' + checkpoints.map(name => `  - ${JSON.stringify(name)}\n`).join('');
+    return replaceFrontmatterKeys(content, ['checkpoint', 'checkpoints'], yaml);
+}
@@ -1,5 +1,9 @@
-import { App, Editor, MarkdownView, Menu, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, requestUrl, ItemView } from 'obsidian';
+import { App, ButtonComponent, Editor, MarkdownView, Menu, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, requestUrl, ItemView, WorkspaceLeaf, arrayBufferToBase64, base64ToArrayBuffer, parseYaml } from 'obsidian';
 import { FLIPMODE_HEADER_BASE64 } from './header-asset';
+import { CanvasData, mergeCanvas } from './canvas-merge';
+import { LayoutDirection, LayoutNode, RebuildResult, layoutCanvas, placeNear, rebuildCanvas } from './canvas-layout';
+import { CheckpointLinks, CheckpointNote, addParentCheckpoint, describeVariable, frontmatterText, normalizeTier, parseCheckpointNote, serializeCheckpointFrontmatter, setCheckpointFrontmatter } from './checkpoint-model';
+import { canonicalName, groupSimilarTexts, normalizeConceptName, resolveTaxonomy, suggestMerges, taxonomyGroup, taxonomyPath, taxonomyRoots, MergeSuggestion } from './taxonomy';
 
 // Plugin settings interface
 interface BJJFlipmodeSettings {
@@ -14,8 +18,12 @@ interface BJJFlipmodeSettings {
     queueServiceUrl: string;
     athleteToken: string;
     pollInterval: number;
+    liveUpdates: boolean;
     // Coach mode settings
     coachToken: string;
+    coachName: string;
+    claimTimeoutMinutes: number;
+    triageConcurrency: number;
     // Season/Episode tracking
     currentSeason: number;
     currentEpisode: number;
@@ -23,8 +31,30 @@ interface BJJFlipmodeSettings {
     athleteName: string;
     // Concepts folder structure
     conceptsSubfolder: string;
+    // Flow direction of generated RLM/Variables/concept canvases
+    canvasLayoutDirection: LayoutDirection;
     // Shared canvases: canvas path -> athlete IDs
     sharedCanvases: Record<string, number[]>;
+    // Shared canvases: canvas path -> group IDs (members resolved at sync time)
+    sharedCanvasGroups: Record<string, string[]>;
+    // Shared canvases: canvas path -> athlete ID -> bundled file path -> hash that athlete acknowledged
+    sharedCanvasFiles: Record<string, Record<string, Record<string, string>>>;
+    // Remote queries still awaiting results: job ID -> job (survives reloads)
+    pendingJobs: Record<string, StoredPendingJob>;
+    // Coach broadcasts already saved to the vault, and the newest sent_at seen
+    seenBroadcastIds: string[];
+    broadcastsSyncedAt: string;
+    // Unfinished therapy session, offered for resume when the voice modal reopens
+    therapySession: StoredTherapySession | null;
+    therapyResumeHours: number;
+    // Voice transcription: enabled backends in fallback order
+    transcriptionBackends: TranscriptionBackendId[];
+    whisperUrl: string;
+    whisperApiKey: string;
+    whisperModel: string;
+    // Keep raw voice recordings as vault attachments
+    saveRecordings: boolean;
+    recordingsFolder: string;
 }
 
 const DEFAULT_SETTINGS: BJJFlipmodeSettings = {
@@ -39,8 +69,12 @@ const DEFAULT_SETTINGS: BJJFlipmodeSettings = {
     queueServiceUrl: 'https://flipmode-d2c51311485b.herokuapp.com',
     athleteToken: '',
     pollInterval: 10,
+    liveUpdates: false,
     // Coach mode defaults
     coachToken: '',
+    coachName: '',
+    claimTimeoutMinutes: 30,
+    triageConcurrency: 2,
     // Season/Episode tracking
     currentSeason: 1,
     currentEpisode: 1,
@@ -48,8 +82,27 @@ const DEFAULT_SETTINGS: BJJFlipmodeSettings = {
     athleteName: 'Athlete',
     // Concepts folder structure
     conceptsSubfolder: 'concepts',
+    canvasLayoutDirection: 'horizontal',
     // Shared canvases
-    sharedCanvases: {}
+    sharedCanvases: {},
+    sharedCanvasGroups: {},
+    sharedCanvasFiles: {},
+    // Pending remote jobs
+    pendingJobs: {},
+    // Broadcasts already received
+    seenBroadcastIds: [],
+    broadcastsSyncedAt: '',
+    // Interrupted therapy session
+    therapySession: null,
+    therapyResumeHours: 24,
+    // Voice transcription
+    transcriptionBackends: ['remote', 'local', 'whisper'],
+    whisperUrl: '',
+    whisperApiKey: '',
+    whisperModel: 'whisper-1',
+    // Voice recordings
+    saveRecordings: false,
+    recordingsFolder: ''
 };
 
 // Pending job for tracking remote queries
@@ -58,6 +111,602 @@ interface PendingJob {
     query: string;
     submittedAt: Date;
     status: 'pending' | 'processing' | 'complete' | 'error';
+    notePath?: string;
+}
+
+// Pending job as saved in plugin data (dates as ISO strings)
+interface StoredPendingJob {
+    query: string;
+    submittedAt: string;
+    status: PendingJob['status'];
+    notePath?: string;
+}
+
+// Therapy session state saved as the athlete goes, so a closed modal can pick up again
+interface StoredTherapySession {
+    sessionId: string | null;
+    transcript: string;
+    turns: TherapyTurn[];
+    skipped: boolean;
+    stage: 'question' | 'ready';
+    question?: string;
+    enrichedQuery?: string;
+    updatedAt: string;
+}
+
+// Query submission waiting in the offline outbox
+interface OutboxEntry {
+    idempotencyKey: string;
+    query: string;
+    therapyContext?: any;
+    queuedAt: string;
+    attempts: number;
+    nextAttemptAt: string;
+    notePath?: string;
+}
+
+type TrainingSessionType = 'gi' | 'no-gi' | 'open-mat' | 'comp';
+
+const TRAINING_SESSION_TYPES: Record<TrainingSessionType, string> = {
+    'gi': 'Gi',
+    'no-gi': 'No-Gi',
+    'open-mat': 'Open Mat',
+    'comp': 'Competition'
+};
+
+// Structured training log, stored as training-session frontmatter
+interface TrainingLog {
+    date: string;
+    sessionType: TrainingSessionType;
+    durationMinutes: number | null;
+    rounds: number | null;
+    partners: string[];
+    positions: string[];
+    submissionsFor: string[];
+    submissionsAgainst: string[];
+    sweeps: string[];
+    notes: string;
+}
+
+type TranscriptionBackendId = 'remote' | 'local' | 'whisper';
+
+const TRANSCRIPTION_BACKEND_NAMES: Record<TranscriptionBackendId, string> = {
+    'remote': 'Flipmode cloud',
+    'local': 'Local Oracle server',
+    'whisper': 'Whisper server'
+};
+
+interface VoiceUsage {
+    count: number;
+    remaining: number;
+    limit: number;
+}
+
+interface TranscriptionContext {
+    // Local Oracle session being continued, if any
+    sessionId?: string | null;
+}
+
+interface TranscriptionResult {
+    text: string;
+    backend: TranscriptionBackendId;
+    duration?: number;
+    usage?: VoiceUsage;
+    // Raw Oracle session reply, when the local server transcribed
+    sessionResponse?: any;
+}
+
+// Answered query note in the coach's Sent folder
+interface AnsweredQuery {
+    file: TFile;
+    athleteId?: number;
+    athleteName: string;
+    query: string;
+    submittedAt: string;
+    answeredAt: string | null;
+}
+
+// One athlete's row on the coach dashboard
+interface AthleteDashboardEntry {
+    athlete: Athlete;
+    name: string;
+    summaryPath: string;
+    graph: AthleteGraphData;
+    openJobs: Job[];
+    answered: AnsweredQuery[];
+}
+
+// Outbox retry backoff: 30s doubling up to 15 minutes
+const OUTBOX_RETRY_BASE_MS = 30000;
+const OUTBOX_RETRY_MAX_MS = 15 * 60 * 1000;
+
+// Queue service API types
+type JobStatus = 'pending' | 'processing' | 'complete' | 'error';
+
+interface ArticleSource {
+    video_id?: string;
+    title?: string;
+    video_title?: string;
+    video_name?: string;
+    instructor?: string;
+    timestamp?: string;
+    timestamp_seconds?: number;
+    url?: string;
+    [key: string]: any;
+}
+
+interface Job {
+    job_id: string;
+    status: JobStatus;
+    query_text: string;
+    enriched_query?: string;
+    athlete_id?: number;
+    athlete_name?: string;
+    submitted_at: string;
+    started_at?: string | null;
+    completed_at?: string | null;
+    therapy_context?: any;
+    result_article?: string;
+    result_sources?: ArticleSource[];
+    rlm_session_id?: string;
+    error?: string;
+    claimed_by?: string | null;
+    claim_expires_at?: string | null;
+}
+
+// Coach lock on a job; expires so abandoned claims free up
+interface JobClaim {
+    job_id: string;
+    claimed_by: string | null;
+    claim_expires_at: string | null;
+}
+
+interface Coach {
+    id?: number;
+    name: string;
+    // Identity the coach's claims are recorded under (see getClaimOwner); unset until they first claim
+    claim_owner?: string | null;
+}
+
+// One clarifying question from the therapy loop and the athlete's answer
+interface TherapyTurn {
+    question: string;
+    answer: string;
+    answered_at: string;
+}
+
+// Sent as therapy_context so the coach sees how a voice note became the query
+interface TherapyContext {
+    original_transcript: string;
+    therapy_session_id?: string | null;
+    turns: TherapyTurn[];
+    suggested_query?: string;
+    skipped?: boolean;
+}
+
+// Message in a job's coach/athlete discussion thread
+interface JobComment {
+    id: string;
+    job_id: string;
+    author_role: 'athlete' | 'coach';
+    author_name: string;
+    body: string;
+    created_at: string;
+}
+
+interface JobResult {
+    article: string;
+    sources: ArticleSource[];
+    rlm_session_id?: string;
+    error?: string;
+}
+
+interface Athlete {
+    id: number;
+    discord_id?: string;
+    discord_username?: string;
+    display_name?: string;
+    belt?: string;
+}
+
+// Named cohort on the coach roster (e.g. fundamentals, comp team), stored server-side
+interface AthleteGroup {
+    id: string;
+    name: string;
+    athlete_ids: number[];
+}
+
+interface GraphSession {
+    date?: string;
+    tags?: string[];
+    // Structured training log fields (absent on voice-note sessions)
+    session_type?: TrainingSessionType;
+    duration_minutes?: number;
+    rounds?: number;
+    partners?: string[];
+    positions?: string[];
+    submissions_for?: string[];
+    submissions_against?: string[];
+    sweeps?: string[];
+    [key: string]: any;
+}
+
+interface GraphQuery {
+    topic?: string;
+    date?: string;
+    pending?: boolean;
+}
+
+interface AthleteGraphData {
+    sessions: GraphSession[];
+    queries: GraphQuery[];
+    topics: string[];
+}
+
+interface AthleteGraph {
+    athlete_id?: number;
+    graph_data: AthleteGraphData | null;
+    updated_at?: string;
+}
+
+interface Concept {
+    name: string;
+    category?: string;
+    parent?: string | null;
+    summary?: string;
+    prerequisites?: string[];
+    leads_to?: string[];
+    counters?: string[];
+    related?: string[];
+}
+
+interface CanvasPayload {
+    type?: string;
+    canvasName?: string;
+    nodes: any[];
+    edges: any[];
+    updatedAt?: number;
+    // Notes and attachments the canvas references, keyed by their coach-vault path
+    files?: CanvasBundleFile[];
+}
+
+interface CanvasBundleFile {
+    path: string;
+    hash: string;
+    encoding: 'text' | 'base64';
+    // Bytes, as hashed
+    size: number;
+    // Omitted for large files the athlete already received at this hash
+    content?: string;
+}
+
+interface SharedCanvas {
+    data: CanvasPayload;
+    updated_at: string;
+}
+
+// Article a coach sent to several athletes without a query behind it
+interface Broadcast {
+    id: string;
+    title: string;
+    article: string;
+    sources: ArticleSource[];
+    coach_name?: string;
+    sent_at: string;
+}
+
+interface Stats {
+    total_athletes?: number;
+    pending_jobs?: number;
+    processing_jobs?: number;
+    completed_jobs?: number;
+    [key: string]: any;
+}
+
+// Error from an API call. `status` is the HTTP status, absent for network failures.
+class ApiError extends Error {
+    endpoint: string;
+    status?: number;
+    body?: any;
+
+    constructor(message: string, endpoint: string, status?: number, body?: any) {
+        super(message);
+        this.name = 'ApiError';
+        this.endpoint = endpoint;
+        this.status = status;
+        this.body = body;
+    }
+}
+
+interface ApiRequestOptions {
+    method?: string;
+    token?: string;
+    body?: any;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Shared JSON request helper for the queue service and local Oracle.
+ * Adds auth headers, turns non-2xx statuses, network failures and
+ * unparseable bodies into ApiErrors, and optionally validates the payload.
+ */
+async function requestJson<T = any>(url: string, options: ApiRequestOptions = {}, validate?: (data: any) => T): Promise<T> {
+    const endpoint = url.replace(/^https?:\/\/[^/]+/, '');
+    const headers: Record<string, string> = { ...options.headers };
+    if (options.token) {
+        headers['Authorization'] = `Bearer ${options.token}`;
+    }
+    if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+    }
+
+    let response;
+    try {
+        response = await requestUrl({
+            url,
+            method: options.method || 'GET',
+            headers,
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+            throw: false
+        });
+    } catch (error: any) {
+        throw new ApiError(`Network error calling ${endpoint}: ${error?.message || error}`, endpoint);
+    }
+
+    let data: any = null;
+    if (response.text) {
+        try {
+            data = JSON.parse(response.text);
+        } catch {
+            if (response.status < 400) {
+                throw new ApiError(`Invalid JSON from ${endpoint}`, endpoint, response.status);
+            }
+        }
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+        const detail = data?.error || data?.message || response.text?.substring(0, 200) || 'no details';
+        throw new ApiError(`${endpoint} failed (${response.status}): ${detail}`, endpoint, response.status, data);
+    }
+
+    if (!validate) return data as T;
+
+    try {
+        return validate(data);
+    } catch (error: any) {
+        throw new ApiError(`Unexpected response from ${endpoint}: ${error.message}`, endpoint, response.status);
+    }
+}
+
+// Response validators - throw with the path of the first bad field
+function expectObject(value: any, path: string): Record<string, any> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${path} should be an object`);
+    }
+    return value;
+}
+
+function expectArray(value: any, path: string): any[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`${path} should be an array`);
+    }
+    return value;
+}
+
+function expectField(obj: Record<string, any>, key: string, type: 'string' | 'number' | 'boolean', path: string, optional: boolean = false) {
+    const value = obj[key];
+    if (value === undefined || value === null) {
+        if (optional) return;
+        throw new Error(`${path}.${key} is missing`);
+    }
+    if (typeof value !== type) {
+        throw new Error(`${path}.${key} should be a ${type}`);
+    }
+}
+
+function expectStringArray(value: any, path: string, optional: boolean = true) {
+    if (value === undefined || value === null) {
+        if (optional) return;
+        throw new Error(`${path} is missing`);
+    }
+    expectArray(value, path).forEach((item, i) => {
+        if (typeof item !== 'string') throw new Error(`${path}[${i}] should be a string`);
+    });
+}
+
+function listOf<T>(key: string, parse: (item: any, path: string) => T) {
+    return (data: any): T[] => {
+        const obj = expectObject(data, 'response');
+        if (obj[key] === undefined || obj[key] === null) return [];
+        return expectArray(obj[key], key).map((item, i) => parse(item, `${key}[${i}]`));
+    };
+}
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'processing', 'complete', 'error'];
+
+function parseJob(data: any, path: string = 'job'): Job {
+    const job = expectObject(data, path);
+    expectField(job, 'job_id', 'string', path);
+    expectField(job, 'status', 'string', path);
+    if (!JOB_STATUSES.includes(job.status)) {
+        throw new Error(`${path}.status "${job.status}" is not one of ${JOB_STATUSES.join(', ')}`);
+    }
+    expectField(job, 'query_text', 'string', path);
+    expectField(job, 'enriched_query', 'string', path, true);
+    expectField(job, 'athlete_id', 'number', path, true);
+    expectField(job, 'athlete_name', 'string', path, true);
+    expectField(job, 'submitted_at', 'string', path);
+    expectField(job, 'claimed_by', 'string', path, true);
+    expectField(job, 'claim_expires_at', 'string', path, true);
+    if (job.result_sources !== undefined && job.result_sources !== null) {
+        expectArray(job.result_sources, `${path}.result_sources`);
+    }
+    return job as Job;
+}
+
+// therapy_context is free-form on the server (and may arrive as a JSON string);
+// only the voice-note shape with turns is rendered
+function readTherapyContext(raw: any): TherapyContext | null {
+    let context = raw;
+    if (typeof context === 'string') {
+        try {
+            context = JSON.parse(context);
+        } catch {
+            return null;
+        }
+    }
+    if (!context || typeof context !== 'object' || typeof context.original_transcript !== 'string') {
+        return null;
+    }
+    const turns = Array.isArray(context.turns)
+        ? context.turns.filter((t: any) => t && typeof t.question === 'string' && typeof t.answer === 'string')
+        : [];
+    return { ...context, turns };
+}
+
+function parseAthlete(data: any, path: string = 'athlete'): Athlete {
+    const athlete = expectObject(data, path);
+    expectField(athlete, 'id', 'number', path);
+    expectField(athlete, 'discord_id', 'string', path, true);
+    expectField(athlete, 'discord_username', 'string', path, true);
+    expectField(athlete, 'display_name', 'string', path, true);
+    expectField(athlete, 'belt', 'string', path, true);
+    return athlete as Athlete;
+}
+
+function parseAthleteGroup(data: any, path: string = 'group'): AthleteGroup {
+    const group = expectObject(data, path);
+    expectField(group, 'id', 'string', path);
+    expectField(group, 'name', 'string', path);
+    const ids = expectArray(group.athlete_ids ?? [], `${path}.athlete_ids`);
+    return {
+        ...group,
+        athlete_ids: ids.filter((id: any) => typeof id === 'number')
+    } as AthleteGroup;
+}
+
+function parseJobClaim(data: any): JobClaim {
+    const claim = expectObject(data, 'claim');
+    expectField(claim, 'job_id', 'string', 'claim');
+    expectField(claim, 'claimed_by', 'string', 'claim', true);
+    expectField(claim, 'claim_expires_at', 'string', 'claim', true);
+    return {
+        job_id: claim.job_id,
+        claimed_by: claim.claimed_by || null,
+        claim_expires_at: claim.claim_expires_at || null
+    };
+}
+
+function parseCoach(data: any, path: string = 'coach'): Coach {
+    const coach = expectObject(data, path);
+    expectField(coach, 'name', 'string', path);
+    expectField(coach, 'id', 'number', path, true);
+    expectField(coach, 'claim_owner', 'string', path, true);
+    return coach as Coach;
+}
+
+function parseComment(data: any, path: string = 'comment'): JobComment {
+    const comment = expectObject(data, path);
+    expectField(comment, 'id', 'string', path);
+    expectField(comment, 'job_id', 'string', path);
+    expectField(comment, 'author_role', 'string', path);
+    if (comment.author_role !== 'athlete' && comment.author_role !== 'coach') {
+        throw new Error(`${path}.author_role "${comment.author_role}" should be athlete or coach`);
+    }
+    expectField(comment, 'author_name', 'string', path);
+    expectField(comment, 'body', 'string', path);
+    expectField(comment, 'created_at', 'string', path);
+    return comment as JobComment;
+}
+
+function parseAthleteGraph(data: any): AthleteGraph {
+    const graph = expectObject(data, 'graph');
+    if (graph.graph_data === undefined || graph.graph_data === null) {
+        return { ...graph, graph_data: null } as AthleteGraph;
+    }
+    const gd = expectObject(graph.graph_data, 'graph_data');
+    return {
+        ...graph,
+        graph_data: {
+            sessions: gd.sessions ? expectArray(gd.sessions, 'graph_data.sessions') : [],
+            queries: gd.queries ? expectArray(gd.queries, 'graph_data.queries') : [],
+            topics: gd.topics ? (expectStringArray(gd.topics, 'graph_data.topics'), gd.topics) : []
+        }
+    } as AthleteGraph;
+}
+
+function parseConcept(data: any, path: string = 'concept'): Concept {
+    const concept = expectObject(data, path);
+    expectField(concept, 'name', 'string', path);
+    expectField(concept, 'category', 'string', path, true);
+    expectField(concept, 'parent', 'string', path, true);
+    expectField(concept, 'summary', 'string', path, true);
+    for (const key of ['prerequisites', 'leads_to', 'counters', 'related']) {
+        expectStringArray(concept[key], `${path}.${key}`);
+    }
+    return concept as Concept;
+}
+
+function parseBroadcast(data: any, path: string = 'broadcast'): Broadcast {
+    const broadcast = expectObject(data, path);
+    expectField(broadcast, 'id', 'string', path);
+    expectField(broadcast, 'title', 'string', path);
+    expectField(broadcast, 'article', 'string', path);
+    expectField(broadcast, 'coach_name', 'string', path, true);
+    expectField(broadcast, 'sent_at', 'string', path);
+    return {
+        ...broadcast,
+        sources: broadcast.sources ? expectArray(broadcast.sources, `${path}.sources`) : []
+    } as Broadcast;
+}
+
+function parseSharedCanvases(data: any): Record<string, SharedCanvas> {
+    const obj = expectObject(data, 'response');
+    if (obj.canvases === undefined || obj.canvases === null) return {};
+    const canvases = expectObject(obj.canvases, 'canvases');
+    for (const [name, entry] of Object.entries(canvases)) {
+        const path = `canvases["${name}"]`;
+        const canvas = expectObject(entry, path);
+        expectField(canvas, 'updated_at', 'string', path);
+        const payload = expectObject(canvas.data, `${path}.data`);
+        payload.nodes = payload.nodes ? expectArray(payload.nodes, `${path}.data.nodes`) : [];
+        payload.edges = payload.edges ? expectArray(payload.edges, `${path}.data.edges`) : [];
+        payload.files = payload.files ? expectArray(payload.files, `${path}.data.files`) : [];
+        payload.files.forEach((f: any, i: number) => {
+            const filePath = `${path}.data.files[${i}]`;
+            expectObject(f, filePath);
+            expectField(f, 'path', 'string', filePath);
+            expectField(f, 'hash', 'string', filePath);
+            expectField(f, 'content', 'string', filePath, true);
+        });
+    }
+    return canvases as Record<string, SharedCanvas>;
+}
+
+// Files each athlete confirmed writing: athlete ID -> bundled file path -> hash
+function parseCanvasAcks(data: any): Record<string, Record<string, string>> {
+    const obj = expectObject(data, 'response');
+    if (obj.acks === undefined || obj.acks === null) return {};
+    const acks = expectObject(obj.acks, 'acks');
+    for (const [athleteId, files] of Object.entries(acks)) {
+        const path = `acks["${athleteId}"]`;
+        for (const key of Object.keys(expectObject(files, path))) {
+            expectField(files, key, 'string', path);
+        }
+    }
+    return acks;
+}
+
+function parseStats(data: any): Stats {
+    const stats = expectObject(data, 'stats');
+    for (const key of ['total_athletes', 'pending_jobs', 'processing_jobs', 'completed_jobs']) {
+        expectField(stats, key, 'number', 'stats', true);
+    }
+    return stats as Stats;
+}
+
+function parseHealth(data: any): boolean {
+    return expectObject(data, 'health').status === 'healthy';
 }
 
 // Remote Queue Client for athlete mode
@@ -70,124 +719,116 @@ class RemoteQueueClient {
         this.token = token;
     }
 
-    async submitQuery(query: string, therapyContext?: any): Promise<{ jobId: string }> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/submit`,
+    private request<T = any>(path: string, options: ApiRequestOptions = {}, validate?: (data: any) => T): Promise<T> {
+        return requestJson(`${this.baseUrl}${path}`, { token: this.token, ...options }, validate);
+    }
+
+    async submitQuery(query: string, therapyContext?: any, idempotencyKey?: string): Promise<{ jobId: string }> {
+        return this.request('/api/queue/submit', {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.token}`
-            },
-            body: JSON.stringify({
+            // Header is what the server dedupes on; the body field is kept for older servers
+            headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+            body: {
                 query_text: query,
-                therapy_context: therapyContext
-            })
+                therapy_context: therapyContext,
+                idempotency_key: idempotencyKey
+            }
+        }, data => {
+            const obj = expectObject(data, 'response');
+            expectField(obj, 'job_id', 'string', 'response');
+            return { jobId: obj.job_id as string };
         });
-
-        return { jobId: response.json.job_id };
     }
 
-    async checkStatus(jobId: string): Promise<{ status: string; progress?: string }> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/status/${jobId}`,
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.token}`
-            }
+    async checkStatus(jobId: string): Promise<{ status: JobStatus; progress?: string }> {
+        const job = await this.request(`/api/queue/status/${jobId}`, {}, data => {
+            const obj = expectObject(data, 'response');
+            expectField(obj, 'status', 'string', 'response');
+            return obj;
         });
 
         return {
-            status: response.json.status,
-            progress: response.json.started_at ? 'Processing...' : 'Queued'
+            status: job.status,
+            progress: job.started_at ? 'Processing...' : 'Queued'
         };
     }
 
-    async getResult(jobId: string): Promise<{
-        article: string;
-        sources: any[];
-        rlm_session_id?: string;
-        error?: string;
-    }> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/result/${jobId}`,
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.token}`
-            }
-        });
+    async getResult(jobId: string): Promise<JobResult> {
+        const data = await this.request(`/api/queue/result/${jobId}`, {}, data => expectObject(data, 'result'));
 
-        const data = response.json;
         if (data.status === 'error') {
             return { article: '', sources: [], error: data.error };
         }
 
         return {
             article: data.result_article || '',
-            sources: data.result_sources || [],
+            sources: data.result_sources ? expectArray(data.result_sources, 'result_sources') : [],
             rlm_session_id: data.rlm_session_id
         };
     }
 
-    async listJobs(): Promise<any[]> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/jobs`,
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.token}`
-            }
-        });
-
-        return response.json.jobs || [];
+    async listJobs(): Promise<Job[]> {
+        return this.request('/api/queue/jobs', {}, listOf('jobs', parseJob));
     }
 
-    async syncGraph(graphData: any): Promise<void> {
-        await requestUrl({
-            url: `${this.baseUrl}/api/queue/graph/sync`,
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.token}`
-            },
-            body: JSON.stringify(graphData)
-        });
+    async syncGraph(graphData: AthleteGraphData): Promise<void> {
+        await this.request('/api/queue/graph/sync', { method: 'POST', body: graphData });
     }
 
-    async getConcepts(): Promise<any[]> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/concepts`,
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.token}`
-            }
-        });
-        return response.json.concepts || [];
+    async getConcepts(): Promise<Concept[]> {
+        return this.request('/api/queue/concepts', {}, listOf('concepts', parseConcept));
     }
 
     async checkHealth(): Promise<boolean> {
         try {
-            const response = await requestUrl({
-                url: `${this.baseUrl}/health`,
-                method: 'GET'
-            });
-            return response.json.status === 'healthy';
+            return await requestJson(`${this.baseUrl}/health`, {}, parseHealth);
         } catch {
             return false;
         }
     }
 
-    async getCanvases(since?: string): Promise<Record<string, { data: any; updated_at: string }>> {
-        const url = since
-            ? `${this.baseUrl}/api/queue/canvases?since=${encodeURIComponent(since)}`
-            : `${this.baseUrl}/api/queue/canvases`;
+    async getComments(jobId: string): Promise<JobComment[]> {
+        return this.request(`/api/queue/comments/${jobId}`, {}, listOf('comments', parseComment));
+    }
 
-        const response = await requestUrl({
-            url: url,
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.token}`
-            }
+    // Comments on any of the caller's jobs, optionally only those posted after since
+    async getRecentComments(since?: string): Promise<JobComment[]> {
+        const path = since
+            ? `/api/queue/comments?since=${encodeURIComponent(since)}`
+            : '/api/queue/comments';
+
+        return this.request(path, {}, listOf('comments', parseComment));
+    }
+
+    async postComment(jobId: string, body: string, authorName: string): Promise<JobComment> {
+        return this.request(`/api/queue/comments/${jobId}`, {
+            method: 'POST',
+            body: { body, author_name: authorName }
+        }, data => parseComment(expectObject(data, 'response').comment || data));
+    }
+
+    async getBroadcasts(since?: string): Promise<Broadcast[]> {
+        const path = since
+            ? `/api/queue/broadcasts?since=${encodeURIComponent(since)}`
+            : '/api/queue/broadcasts';
+
+        return this.request(path, {}, listOf('broadcasts', parseBroadcast));
+    }
+
+    async getCanvases(since?: string): Promise<Record<string, SharedCanvas>> {
+        const path = since
+            ? `/api/queue/canvases?since=${encodeURIComponent(since)}`
+            : '/api/queue/canvases';
+
+        return this.request(path, {}, parseSharedCanvases);
+    }
+
+    // Tell the coach which bundled files of a canvas are now in the vault, at which hash
+    async ackCanvas(canvasName: string, files: Record<string, string>): Promise<void> {
+        await this.request(`/api/queue/canvases/${encodeURIComponent(canvasName)}/ack`, {
+            method: 'POST',
+            body: { files }
         });
-        return response.json.canvases || {};
     }
 }
 
@@ -201,146 +842,681 @@ class CoachQueueClient {
         this.token = token;
     }
 
-    async getAthletes(): Promise<any[]> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/coach/roster`,
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.token}` }
-        });
-        return response.json.athletes || [];
+    private request<T = any>(path: string, options: ApiRequestOptions = {}, validate?: (data: any) => T): Promise<T> {
+        return requestJson(`${this.baseUrl}${path}`, { token: this.token, ...options }, validate);
     }
 
-    async addAthlete(discordId: string, displayName?: string): Promise<any> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/coach/roster`,
+    async getAthletes(): Promise<Athlete[]> {
+        return this.request('/api/coach/roster', {}, listOf('athletes', parseAthlete));
+    }
+
+    async addAthlete(discordId: string, displayName?: string): Promise<Athlete> {
+        return this.request('/api/coach/roster', {
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.token}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({ discord_id: discordId, display_name: displayName })
+            body: { discord_id: discordId, display_name: displayName }
+        }, data => {
+            const obj = expectObject(data, 'response');
+            return parseAthlete(obj.athlete || obj);
         });
-        return response.json;
     }
 
-    async getPendingJobs(): Promise<any[]> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/pending`,
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.token}` }
-        });
-        return response.json.jobs || [];
+    async getGroups(): Promise<AthleteGroup[]> {
+        return this.request('/api/coach/groups', {}, listOf('groups', parseAthleteGroup));
     }
 
-    async getAthleteGraph(athleteId: number): Promise<any> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/graph/${athleteId}`,
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.token}` }
-        });
-        return response.json;
+    // Create a group, or replace an existing group's name and members
+    async saveGroup(name: string, athleteIds: number[], groupId?: string): Promise<AthleteGroup> {
+        return this.request(groupId ? `/api/coach/groups/${encodeURIComponent(groupId)}` : '/api/coach/groups', {
+            method: groupId ? 'PUT' : 'POST',
+            body: { name, athlete_ids: athleteIds }
+        }, data => parseAthleteGroup(expectObject(data, 'response').group || data));
     }
 
-    async claimJob(jobId: string): Promise<any> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/claim/${jobId}`,
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${this.token}` }
-        });
-        return response.json;
+    async deleteGroup(groupId: string): Promise<void> {
+        await this.request(`/api/coach/groups/${encodeURIComponent(groupId)}`, { method: 'DELETE' });
     }
 
-    async completeJob(jobId: string, article: string, sources: any[]): Promise<boolean> {
-        try {
-            await requestUrl({
-                url: `${this.baseUrl}/api/queue/complete/${jobId}`,
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.token}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    result_article: article,
-                    result_sources: sources,
-                    rlm_session_id: `coach_${jobId}`
-                })
-            });
-            return true;
-        } catch {
-            return false;
-        }
+    async getPendingJobs(): Promise<Job[]> {
+        return this.request('/api/queue/pending', {}, listOf('jobs', parseJob));
     }
 
-    async getStats(): Promise<any> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/coach/stats`,
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.token}` }
-        });
-        return response.json;
+    async getAthleteGraph(athleteId: number): Promise<AthleteGraph> {
+        return this.request(`/api/queue/graph/${athleteId}`, {}, parseAthleteGraph);
     }
 
-    async checkHealth(): Promise<boolean> {
-        try {
-            const response = await requestUrl({
-                url: `${this.baseUrl}/health`,
-                method: 'GET'
+    /**
+     * Claim a job for this coach. Re-claiming a job you already hold extends it.
+     * Fails with a 409 ApiError (body.claimed_by) if another coach holds it.
+     */
+    async claimJob(jobId: string, coachName: string, ttlMinutes: number): Promise<JobClaim> {
+        return this.request(`/api/queue/claim/${jobId}`, {
+            method: 'POST',
+            body: { coach_name: coachName, ttl_minutes: ttlMinutes }
+        }, parseJobClaim);
+    }
+
+    async releaseJob(jobId: string): Promise<JobClaim> {
+        return this.request(`/api/queue/release/${jobId}`, { method: 'POST' }, parseJobClaim);
+    }
+
+    // coachName is the target's claim identity, as recorded by claimJob
+    async reassignJob(jobId: string, coachName: string, ttlMinutes: number): Promise<JobClaim> {
+        return this.request(`/api/queue/reassign/${jobId}`, {
+            method: 'POST',
+            body: { coach_name: coachName, ttl_minutes: ttlMinutes }
+        }, parseJobClaim);
+    }
+
+    async getComments(jobId: string): Promise<JobComment[]> {
+        return this.request(`/api/queue/comments/${jobId}`, {}, listOf('comments', parseComment));
+    }
+
+    // Comments on any of the caller's jobs, optionally only those posted after since
+    async getRecentComments(since?: string): Promise<JobComment[]> {
+        const path = since
+            ? `/api/queue/comments?since=${encodeURIComponent(since)}`
+            : '/api/queue/comments';
+
+        return this.request(path, {}, listOf('comments', parseComment));
+    }
+
+    async postComment(jobId: string, body: string, authorName: string): Promise<JobComment> {
+        return this.request(`/api/queue/comments/${jobId}`, {
+            method: 'POST',
+            body: { body, author_name: authorName }
+        }, data => parseComment(expectObject(data, 'response').comment || data));
+    }
+
+    async getCoaches(): Promise<Coach[]> {
+        return this.request('/api/coach/coaches', {}, listOf('coaches', parseCoach));
+    }
+
+    async completeJob(jobId: string, article: string, sources: ArticleSource[]): Promise<boolean> {
+        try {
+            await this.request(`/api/queue/complete/${jobId}`, {
+                method: 'POST',
+                body: {
+                    result_article: article,
+                    result_sources: sources,
+                    rlm_session_id: `coach_${jobId}`
+                }
             });
-            return response.json.status === 'healthy';
+            return true;
         } catch {
             return false;
         }
     }
 
-    async pushConcepts(athleteId: number, concepts: any[]): Promise<{ created: number; updated: number }> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/queue/concepts/push`,
+    async getStats(): Promise<Stats> {
+        return this.request('/api/coach/stats', {}, parseStats);
+    }
+
+    async checkHealth(): Promise<boolean> {
+        try {
+            return await requestJson(`${this.baseUrl}/health`, {}, parseHealth);
+        } catch {
+            return false;
+        }
+    }
+
+    async pushConcepts(athleteId: number, concepts: Concept[]): Promise<{ created: number; updated: number }> {
+        return this.request('/api/queue/concepts/push', {
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.token}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
+            body: {
                 athlete_id: athleteId,
                 concepts: concepts
-            })
+            }
+        }, data => {
+            const obj = expectObject(data, 'response');
+            expectField(obj, 'created', 'number', 'response');
+            expectField(obj, 'updated', 'number', 'response');
+            return { created: obj.created, updated: obj.updated };
+        });
+    }
+
+    // Send one article to several athletes; it shows up in their next sync from coach
+    async broadcastArticle(athleteIds: number[], title: string, article: string, sources: ArticleSource[]): Promise<{ delivered: number }> {
+        return this.request('/api/coach/broadcast', {
+            method: 'POST',
+            body: {
+                athlete_ids: athleteIds,
+                title,
+                article,
+                sources
+            }
+        }, data => {
+            const obj = expectObject(data, 'response');
+            expectField(obj, 'delivered', 'number', 'response');
+            return { delivered: obj.delivered };
         });
-        return response.json;
     }
 
     async shareConceptGraph(athleteId: number, conceptName: string, conceptSummary: string, graphData: any): Promise<{ success: boolean; message: string }> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/coach/share-concept-graph`,
+        return this.request('/api/coach/share-concept-graph', {
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.token}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
+            body: {
                 athlete_id: athleteId,
                 concept_name: conceptName,
                 concept_summary: conceptSummary,
                 graph_data: graphData
-            })
+            }
+        }, data => {
+            const obj = expectObject(data, 'response');
+            expectField(obj, 'success', 'boolean', 'response');
+            return { success: obj.success, message: obj.message || '' };
         });
-        return response.json;
     }
 
-    async syncCanvas(athleteId: number, canvasName: string, canvasData: any): Promise<{ success: boolean }> {
-        const response = await requestUrl({
-            url: `${this.baseUrl}/api/coach/sync-canvas`,
+    async syncCanvas(athleteId: number, canvasName: string, canvasData: CanvasPayload): Promise<{ success: boolean }> {
+        return this.request('/api/coach/sync-canvas', {
             method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.token}`,
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
+            body: {
                 athlete_id: athleteId,
                 canvas_name: canvasName,
                 canvas_data: canvasData
-            })
+            }
+        }, data => {
+            const obj = expectObject(data, 'response');
+            expectField(obj, 'success', 'boolean', 'response');
+            return { success: obj.success };
         });
-        return response.json;
+    }
+
+    async getCanvasAcks(canvasName: string): Promise<Record<string, Record<string, string>>> {
+        return this.request(`/api/coach/canvas-acks?canvas_name=${encodeURIComponent(canvasName)}`, {}, parseCanvasAcks);
+    }
+}
+
+const COACH_DASHBOARD_VIEW = 'flipmode-coach-dashboard';
+const FLIPMODE_SIDEBAR_VIEW = 'flipmode-sidebar';
+const COACH_TRIAGE_VIEW = 'flipmode-coach-triage';
+
+type SidebarTab = 'queries' | 'inbox' | 'canvases' | 'concepts' | 'connection';
+
+const SIDEBAR_TABS: { id: SidebarTab; label: string }[] = [
+    { id: 'queries', label: 'Queries' },
+    { id: 'inbox', label: 'Inbox' },
+    { id: 'canvases', label: 'Shared Canvases' },
+    { id: 'concepts', label: 'Concepts' },
+    { id: 'connection', label: 'Connection' }
+];
+
+// Push events from the queue service (server-sent events)
+type QueueEventType = 'job_status' | 'canvas_updated' | 'concept_shared' | 'comment_added' | 'broadcast_sent';
+
+interface QueueEventHandlers {
+    onOpen: () => void;
+    onDrop: () => void;
+    onEvent: (type: QueueEventType, data: any) => void;
+}
+
+// Stream reconnect backoff: 2s doubling up to 2 minutes
+const EVENT_STREAM_RETRY_BASE_MS = 2000;
+const EVENT_STREAM_RETRY_MAX_MS = 2 * 60 * 1000;
+
+const QUEUE_EVENT_TYPES: QueueEventType[] = ['job_status', 'canvas_updated', 'concept_shared', 'comment_added', 'broadcast_sent'];
+
+/**
+ * Live update channel on the queue service.
+ * Reads the server-sent event stream over fetch, so the token travels in the
+ * Authorization header rather than the URL, with our own reconnect backoff so
+ * the plugin knows when to fall back to interval polling and when to stop it.
+ */
+class QueueEventStream {
+    private url: string;
+    private token: string;
+    private handlers: QueueEventHandlers;
+    private controller: AbortController | null = null;
+    private retryTimeoutId: number | null = null;
+    private attempts = 0;
+    private connected = false;
+    private closed = false;
+
+    constructor(baseUrl: string, token: string, handlers: QueueEventHandlers) {
+        this.url = `${baseUrl}/api/queue/events`;
+        this.token = token;
+        this.handlers = handlers;
+    }
+
+    connect() {
+        this.closed = false;
+        this.open();
+    }
+
+    close() {
+        this.closed = true;
+        if (this.retryTimeoutId) {
+            window.clearTimeout(this.retryTimeoutId);
+            this.retryTimeoutId = null;
+        }
+        this.controller?.abort();
+        this.controller = null;
+        this.connected = false;
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    private async open() {
+        const controller = new AbortController();
+        this.controller = controller;
+
+        try {
+            const response = await fetch(this.url, {
+                headers: { 'Authorization': `Bearer ${this.token}`, 'Accept': 'text/event-stream' },
+                cache: 'no-store',
+                signal: controller.signal
+            });
+            if (!response.ok || !response.body) {
+                throw new Error(`Event stream returned ${response.status}`);
+            }
+
+            this.attempts = 0;
+            if (!this.connected) {
+                this.connected = true;
+                this.handlers.onOpen();
+            }
+            await this.read(response.body);
+        } catch (error) {
+            if (!controller.signal.aborted) console.log('[Flipmode] Event stream error:', error);
+        }
+
+        // Closed on purpose, or replaced by a newer connection
+        if (controller.signal.aborted || this.controller !== controller) return;
+        this.controller = null;
+        if (this.connected) {
+            this.connected = false;
+            this.handlers.onDrop();
+        }
+        this.scheduleReconnect();
+    }
+
+    // Split the stream into blank-line separated frames until the server ends it
+    private async read(body: ReadableStream<Uint8Array>) {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) return;
+            buffer += decoder.decode(value, { stream: true });
+            const frames = buffer.split(/\r?\n\r?\n/);
+            buffer = frames.pop()!;
+            frames.forEach(frame => this.dispatch(frame));
+        }
+    }
+
+    // "event:" and "data:" lines of one frame; comments and unknown events are ignored
+    private dispatch(frame: string) {
+        let type = 'message';
+        const lines: string[] = [];
+        for (const line of frame.split(/\r?\n/)) {
+            const match = line.match(/^([^:]+):? ?(.*)$/);
+            if (!match) continue;
+            if (match[1] === 'event') type = match[2];
+            else if (match[1] === 'data') lines.push(match[2]);
+        }
+        if (!QUEUE_EVENT_TYPES.includes(type as QueueEventType)) return;
+
+        let data: any = {};
+        try {
+            data = lines.length > 0 ? JSON.parse(lines.join('\n')) : {};
+        } catch {
+            console.error(`[Flipmode] Bad ${type} event payload:`, lines.join('\n'));
+            return;
+        }
+        this.handlers.onEvent(type as QueueEventType, data);
+    }
+
+    private scheduleReconnect() {
+        if (this.closed) return;
+
+        const delay = Math.min(EVENT_STREAM_RETRY_BASE_MS * Math.pow(2, this.attempts), EVENT_STREAM_RETRY_MAX_MS);
+        this.attempts += 1;
+        this.retryTimeoutId = window.setTimeout(() => {
+            this.retryTimeoutId = null;
+            this.open();
+        }, delay);
+    }
+}
+
+// Speech-to-text backends for voice notes, tried in the order set in settings
+interface TranscriptionBackend {
+    readonly id: TranscriptionBackendId;
+    isConfigured(): boolean;
+    transcribe(audio: Blob, context: TranscriptionContext): Promise<TranscriptionResult>;
+}
+
+// Every configured backend failed; `failures` has one entry per attempt
+class TranscriptionError extends Error {
+    failures: { backend: TranscriptionBackendId; message: string }[];
+
+    constructor(message: string, failures: { backend: TranscriptionBackendId; message: string }[]) {
+        super(message);
+        this.name = 'TranscriptionError';
+        this.failures = failures;
+    }
+}
+
+// The athlete declined to send a long recording to the cloud in segments
+class TranscriptionCancelledError extends Error {
+    constructor() {
+        super('Transcription cancelled');
+        this.name = 'TranscriptionCancelledError';
+    }
+}
+
+// Hooks for sending a recording over the cloud cap as segments
+interface SegmentedTranscriptionHooks {
+    confirm(durationSeconds: number): Promise<boolean>;
+    onProgress(index: number, total: number, backend: TranscriptionBackend): void;
+}
+
+// Run worker over items with at most `limit` in flight; worker handles its own errors
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            await worker(items[next++]);
+        }
+    });
+    await Promise.all(lanes);
+}
+
+// Method tiers on generated canvases, nearest the checkpoint spine first
+const RLM_TIER_ORDER = ['CRITICAL', 'IMPORTANT', 'REFINEMENT', 'invariable'];
+const RLM_TIER_LABELS: Record<string, string> = {
+    CRITICAL: 'Critical',
+    IMPORTANT: 'Important',
+    REFINEMENT: 'Refinement',
+    invariable: 'Invariables',
+    variable: 'Variables (IF/THEN)',
+    tier1: 'Tier 1',
+    tier2: 'Tier 2',
+    tier3: 'Tier 3'
+};
+
+// Files at or under this size ride along with every canvas sync; larger ones only when they change
+const CANVAS_INLINE_FILE_BYTES = 256 * 1024;
+
+async function hashBytes(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-1', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Bundle paths come from the server: only relative paths with no . or .. segments are written
+function isSafeBundlePath(path: unknown): path is string {
+    return typeof path === 'string' && !/^([\\/]|[A-Za-z]:)/.test(path) &&
+        path.split(/[\\/]/).every(part => part !== '' && part !== '.' && part !== '..');
+}
+
+// Canvas names from the server become a file and a folder name: no separators or dot segments
+function isSafeCanvasName(name: unknown): name is string {
+    return isSafeBundlePath(name) && !/[\\/]/.test(name);
+}
+
+// Drop the content of large files the athlete acknowledged at the same hash
+function trimCanvasBundle(files: CanvasBundleFile[], received: Record<string, string>): CanvasBundleFile[] {
+    return files.map(file => {
+        if (file.size <= CANVAS_INLINE_FILE_BYTES || received[file.path] !== file.hash) return file;
+        const { content, ...rest } = file;
+        return rest;
+    });
+}
+
+// Point wiki links/embeds at bundled files to their copy under the athlete's bundle folder
+function rewriteBundleLinks(text: string, paths: Set<string>, folder: string): string {
+    return text.replace(/(!?\[\[)([^\]|#]+)/g, (match, open, link) =>
+        paths.has(link) ? `${open}${folder}/${link}` : match);
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+    // FileReader works better on mobile than arrayBuffer + btoa
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Long voice notes are split into overlapping segments under the remote cap
+const REMOTE_VOICE_MAX_SECONDS = 120;
+const VOICE_SEGMENT_SECONDS = 110;
+const VOICE_SEGMENT_OVERLAP_SECONDS = 5;
+const VOICE_SEGMENT_SAMPLE_RATE = 16000;
+
+// Voice API revision sent with each transcription; 2 added audio_format (see remoteTranscribe)
+const VOICE_API_VERSION = 2;
+
+// Recording feedback: warn ahead of the remote cap and after a stretch of silence
+const VOICE_CAP_WARNING_SECONDS = 15;
+const VOICE_SILENCE_WARNING_SECONDS = 5;
+const VOICE_SILENCE_LEVEL = 0.02;
+
+function countVoiceSegments(durationSeconds: number): number {
+    if (durationSeconds <= VOICE_SEGMENT_SECONDS) return 1;
+    const step = VOICE_SEGMENT_SECONDS - VOICE_SEGMENT_OVERLAP_SECONDS;
+    return Math.ceil((durationSeconds - VOICE_SEGMENT_OVERLAP_SECONDS) / step);
+}
+
+// 16-bit mono PCM WAV; webm can't be cut without re-muxing, WAV can
+function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+    const buffer = new ArrayBuffer(44 + samples.length * 2);
+    const view = new DataView(buffer);
+    const writeString = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + samples.length * 2, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 1, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, samples.length * 2, true);
+
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+    }
+    return new Blob([buffer], { type: 'audio/wav' });
+}
+
+// Older iOS WebViews only have the prefixed constructor
+function createAudioContext(): AudioContext {
+    const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+    return new AudioCtx();
+}
+
+// Decode a recording; its duration excludes paused time, unlike the wall clock
+async function decodeRecording(audio: Blob): Promise<AudioBuffer> {
+    const ctx = createAudioContext();
+    try {
+        return await ctx.decodeAudioData(await audio.arrayBuffer());
+    } finally {
+        ctx.close();
+    }
+}
+
+// Cut decoded audio into overlapping 16 kHz mono WAV segments
+async function splitAudioIntoSegments(decoded: AudioBuffer): Promise<Blob[]> {
+    // Downmix and resample; speech doesn't need more and it keeps uploads small
+    const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * VOICE_SEGMENT_SAMPLE_RATE), VOICE_SEGMENT_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const samples = (await offline.startRendering()).getChannelData(0);
+
+    const segmentLength = VOICE_SEGMENT_SECONDS * VOICE_SEGMENT_SAMPLE_RATE;
+    const step = (VOICE_SEGMENT_SECONDS - VOICE_SEGMENT_OVERLAP_SECONDS) * VOICE_SEGMENT_SAMPLE_RATE;
+    const segments: Blob[] = [];
+    for (let start = 0; start < samples.length; start += step) {
+        segments.push(encodeWav(samples.subarray(start, Math.min(start + segmentLength, samples.length)), VOICE_SEGMENT_SAMPLE_RATE));
+        if (start + segmentLength >= samples.length) break;
+    }
+    return segments;
+}
+
+/**
+ * Join segment transcripts, dropping the words repeated in each overlap.
+ * The tail of one segment is looked up near the start of the next; if the
+ * wording differs too much to find it, the texts are simply joined.
+ */
+function stitchTranscripts(parts: string[]): string {
+    const normalize = (word: string) => word.toLowerCase().replace(/[^\w']/g, '');
+    let words: string[] = [];
+
+    for (const part of parts) {
+        const next = part.trim().split(/\s+/).filter(w => w.length > 0);
+        if (words.length === 0) {
+            words = next;
+            continue;
+        }
+
+        let cut = 0;
+        const nextNorm = next.slice(0, 40).map(normalize);
+        for (let tailLength = 6; tailLength >= 3 && cut === 0; tailLength--) {
+            const tail = words.slice(-tailLength).map(normalize);
+            if (tail.length < tailLength) continue;
+            for (let j = 0; j + tailLength <= nextNorm.length; j++) {
+                if (tail.every((w, k) => w === nextNorm[j + k])) {
+                    cut = j + tailLength;
+                    break;
+                }
+            }
+        }
+        words = words.concat(next.slice(cut));
+    }
+
+    return words.join(' ');
+}
+
+// Queue service Whisper (2 min max, 5/day per athlete)
+class RemoteTranscriptionBackend implements TranscriptionBackend {
+    readonly id = 'remote' as const;
+    private plugin: BJJFlipmodePlugin;
+
+    constructor(plugin: BJJFlipmodePlugin) {
+        this.plugin = plugin;
+    }
+
+    // Athlete voice notes only; a leftover token must not send local-mode audio to the cloud
+    isConfigured(): boolean {
+        const { mode, queueServiceUrl, athleteToken } = this.plugin.settings;
+        return mode === 'remote' && !!(queueServiceUrl && athleteToken);
+    }
+
+    async transcribe(audio: Blob): Promise<TranscriptionResult> {
+        const result = await this.plugin.remoteTranscribe(audio);
+        return { text: result.text, duration: result.duration, usage: result.usage, backend: this.id };
+    }
+}
+
+// Local Oracle server; transcription is the first step of its session flow
+class LocalOracleTranscriptionBackend implements TranscriptionBackend {
+    readonly id = 'local' as const;
+    private plugin: BJJFlipmodePlugin;
+
+    constructor(plugin: BJJFlipmodePlugin) {
+        this.plugin = plugin;
+    }
+
+    // Not in remote mode: transcribing here also opens an Oracle session as a side effect
+    isConfigured(): boolean {
+        const { mode, serverUrl } = this.plugin.settings;
+        return mode !== 'remote' && !!serverUrl;
+    }
+
+    async transcribe(audio: Blob, context: TranscriptionContext): Promise<TranscriptionResult> {
+        const base64 = await blobToBase64(audio);
+        const response = context.sessionId
+            ? await this.plugin.respondToSession(context.sessionId, undefined, base64, undefined)
+            : await this.plugin.startVoiceSession(base64);
+
+        return { text: response.transcript || '', backend: this.id, sessionResponse: response };
+    }
+}
+
+/**
+ * Any Whisper-compatible HTTP endpoint taking a multipart `file` upload:
+ * OpenAI's /v1/audio/transcriptions, faster-whisper-server, or whisper.cpp's
+ * server (/inference, started with --convert so it accepts webm).
+ */
+class WhisperHttpTranscriptionBackend implements TranscriptionBackend {
+    readonly id = 'whisper' as const;
+    private plugin: BJJFlipmodePlugin;
+
+    constructor(plugin: BJJFlipmodePlugin) {
+        this.plugin = plugin;
+    }
+
+    isConfigured(): boolean {
+        return !!this.plugin.settings.whisperUrl.trim();
+    }
+
+    async transcribe(audio: Blob): Promise<TranscriptionResult> {
+        const { whisperUrl, whisperApiKey, whisperModel } = this.plugin.settings;
+        const boundary = `----FlipmodeBoundary${Date.now().toString(16)}`;
+        const encoder = new TextEncoder();
+        const field = (name: string, value: string) =>
+            encoder.encode(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`);
+
+        const parts = [
+            encoder.encode(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="voice-note.${audio.type.includes('wav') ? 'wav' : 'webm'}"\r\nContent-Type: ${audio.type || 'audio/webm'}\r\n\r\n`),
+            new Uint8Array(await audio.arrayBuffer()),
+            encoder.encode('\r\n'),
+            field('model', whisperModel || 'whisper-1'),
+            field('response_format', 'json'),
+            encoder.encode(`--${boundary}--\r\n`)
+        ];
+        const body = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            body.set(part, offset);
+            offset += part.length;
+        }
+
+        const headers: Record<string, string> = {};
+        if (whisperApiKey) {
+            headers['Authorization'] = `Bearer ${whisperApiKey}`;
+        }
+
+        let response;
+        try {
+            response = await requestUrl({
+                url: whisperUrl.trim(),
+                method: 'POST',
+                contentType: `multipart/form-data; boundary=${boundary}`,
+                headers,
+                body: body.buffer,
+                throw: false
+            });
+        } catch (error: any) {
+            throw new Error(`Could not reach Whisper server: ${error?.message || error}`);
+        }
+
+        if (response.status >= 400) {
+            throw new Error(`Whisper server returned ${response.status}`);
+        }
+
+        // JSON ({"text": ...}) from most servers, plain text from some
+        let text: string;
+        try {
+            text = response.json?.text ?? response.text;
+        } catch {
+            text = response.text;
+        }
+
+        return { text: (text || '').trim(), backend: this.id };
     }
 }
 
@@ -350,10 +1526,30 @@ export default class BJJFlipmodePlugin extends Plugin {
     syncIntervalId: number | null = null;
     // Remote mode (athlete)
     pendingJobs: Map<string, PendingJob> = new Map();
+    // Job IDs with a status check under way
+    private jobsInFlight = new Set<string>();
     pollIntervalId: number | null = null;
+    outboxIntervalId: number | null = null;
+    private outboxFlushing = false;
+    // Serializes read-modify-write cycles on outbox.json
+    private outboxLock: Promise<unknown> = Promise.resolve();
+    // outbox.json as last read or written, to skip writes that change nothing
+    private outboxSnapshot: string | null = null;
+    // Serializes canvas merges, which read-modify-write Coach/canvas-base.json
+    private canvasBaseLock: Promise<unknown> = Promise.resolve();
+    // Last job list fetched for the Queries tab, kept current by polling and live events
+    queueJobsCache: Job[] | null = null;
+    // Last pending list fetched for the Inbox tab
+    inboxJobsCache: Job[] | null = null;
     queueClient: RemoteQueueClient | null = null;
+    eventStream: QueueEventStream | null = null;
     // Coach mode
     coachClient: CoachQueueClient | null = null;
+    private claimOwnerCache: { key: string; owner: string } | null = null;
+    // Last groups fetched from the server (fallback when a refresh fails)
+    athleteGroups: AthleteGroup[] = [];
+    // Last status shown in the status bar (mirrored in the sidebar's Connection tab)
+    connectionStatus: string = 'Disconnected';
 
     async onload() {
         await this.loadSettings();
@@ -367,6 +1563,10 @@ export default class BJJFlipmodePlugin extends Plugin {
             await this.showFlipmodeMenu();
         });
 
+        this.registerView(COACH_DASHBOARD_VIEW, leaf => new CoachDashboardView(leaf, this));
+        this.registerView(FLIPMODE_SIDEBAR_VIEW, leaf => new FlipmodeSidebarView(leaf, this));
+        this.registerView(COACH_TRIAGE_VIEW, leaf => new CoachTriageView(leaf, this));
+
         // Register custom URI handler for sync-and-open from Discord links
         this.registerObsidianProtocolHandler('flipmode-sync', async (params) => {
             const conceptName = params.concept;
@@ -396,12 +1596,27 @@ export default class BJJFlipmodePlugin extends Plugin {
 
         this.addCommand({
             id: 'flipmode-quick-note',
-            name: 'Quick training note',
-            editorCallback: (editor: Editor, view: MarkdownView) => {
-                this.insertTrainingTemplate(editor);
+            name: 'Log training session',
+            callback: () => this.showTrainingLogModal()
+        });
+
+        this.addCommand({
+            id: 'flipmode-retranscribe',
+            name: 'Re-transcribe voice recording in this note',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md' || this.getEmbeddedRecordings(file).length === 0) return false;
+                if (!checking) this.retranscribeNote(file);
+                return true;
             }
         });
 
+        this.addCommand({
+            id: 'flipmode-open-sidebar',
+            name: 'Open Flipmode sidebar',
+            callback: () => this.openSidebar()
+        });
+
         this.addCommand({
             id: 'flipmode-check-connection',
             name: 'Check Flipmode connection',
@@ -414,6 +1629,12 @@ export default class BJJFlipmodePlugin extends Plugin {
             callback: () => this.showPendingJobsModal()
         });
 
+        this.addCommand({
+            id: 'flipmode-send-queued-queries',
+            name: 'Send queued offline queries now',
+            callback: () => this.flushOutbox(true)
+        });
+
         this.addCommand({
             id: 'flipmode-connect-discord',
             name: 'Connect with Discord (remote mode)',
@@ -433,6 +1654,30 @@ export default class BJJFlipmodePlugin extends Plugin {
             callback: () => this.coachShowPending()
         });
 
+        this.addCommand({
+            id: 'flipmode-coach-link-queries',
+            name: 'Coach: Answer more queries with this article',
+            editorCallback: (editor: Editor, view: MarkdownView) => this.coachLinkQueries(view)
+        });
+
+        this.addCommand({
+            id: 'flipmode-coach-broadcast',
+            name: 'Coach: Broadcast this note to athletes',
+            editorCallback: (editor: Editor, view: MarkdownView) => this.coachBroadcastNote(view)
+        });
+
+        this.addCommand({
+            id: 'flipmode-coach-triage',
+            name: 'Coach: Triage inbox',
+            callback: () => this.openCoachTriage()
+        });
+
+        this.addCommand({
+            id: 'flipmode-coach-dashboard',
+            name: 'Coach: Open athlete dashboard',
+            callback: () => this.openCoachDashboard()
+        });
+
         this.addCommand({
             id: 'flipmode-coach-generate',
             name: 'Coach: Generate article for current query',
@@ -445,12 +1690,30 @@ export default class BJJFlipmodePlugin extends Plugin {
             editorCallback: (editor: Editor, view: MarkdownView) => this.coachPushArticle(view)
         });
 
+        this.addCommand({
+            id: 'flipmode-coach-release-claim',
+            name: 'Coach: Release claim on current query',
+            editorCallback: (editor: Editor, view: MarkdownView) => this.coachReleaseClaim(view)
+        });
+
+        this.addCommand({
+            id: 'flipmode-coach-reassign',
+            name: 'Coach: Reassign current query to another coach',
+            editorCallback: (editor: Editor, view: MarkdownView) => this.coachReassignClaim(view)
+        });
+
         this.addCommand({
             id: 'flipmode-coach-push-concepts',
             name: 'Coach: Push concepts to athlete',
             callback: () => this.coachPushConcepts()
         });
 
+        this.addCommand({
+            id: 'flipmode-suggest-concept-merges',
+            name: 'Suggest merges for duplicate concepts',
+            callback: () => this.suggestConceptMerges()
+        });
+
         this.addCommand({
             id: 'flipmode-coach-add-athlete',
             name: 'Coach: Add athlete to roster',
@@ -498,12 +1761,29 @@ export default class BJJFlipmodePlugin extends Plugin {
             }
         });
 
-        // Find Video for Canvas Node - works when Canvas is active
+        // Discussion threads on research articles (athlete and coach)
         this.addCommand({
-            id: 'flipmode-find-video-canvas',
-            name: 'Find Video for Selected Concept (Canvas)',
-            checkCallback: (checking: boolean) => {
-                const canvasView = this.app.workspace.getActiveViewOfType(ItemView);
+            id: 'flipmode-reply-thread',
+            name: 'Reply in discussion thread',
+            editorCallback: (editor: Editor, view: MarkdownView) => this.replyToThread(view)
+        });
+
+        this.addCommand({
+            id: 'flipmode-refresh-thread',
+            name: 'Refresh discussion thread',
+            editorCallback: async (editor: Editor, view: MarkdownView) => {
+                if (!view.file) return;
+                const added = await this.syncCommentThread(view.file);
+                new Notice(added > 0 ? `${added} new repl${added === 1 ? 'y' : 'ies'}` : 'No new replies');
+            }
+        });
+
+        // Find Video for Canvas Node - works when Canvas is active
+        this.addCommand({
+            id: 'flipmode-find-video-canvas',
+            name: 'Find Video for Selected Concept (Canvas)',
+            checkCallback: (checking: boolean) => {
+                const canvasView = this.app.workspace.getActiveViewOfType(ItemView);
                 if (canvasView && canvasView.getViewType() === 'canvas') {
                     if (!checking) {
                         this.findVideoForCanvasNode(canvasView);
@@ -530,6 +1810,13 @@ export default class BJJFlipmodePlugin extends Plugin {
             }
         });
 
+        // Move checkpoint relationships out of markdown tables into frontmatter
+        this.addCommand({
+            id: 'flipmode-migrate-checkpoints',
+            name: 'RLM: Migrate checkpoint notes to structured frontmatter',
+            callback: () => this.migrateCheckpointNotes()
+        });
+
         // Generate Variables canvas from current canvas
         this.addCommand({
             id: 'flipmode-generate-variables-canvas',
@@ -718,11 +2005,11 @@ export default class BJJFlipmodePlugin extends Plugin {
                 const canvasFile = (canvasView as any).file as TFile;
                 if (!canvasFile) return;
 
-                const isShared = this.settings.sharedCanvases[canvasFile.path]?.length > 0;
+                const isShared = this.isCanvasShared(canvasFile.path);
 
                 menu.addItem((item) => {
                     item
-                        .setTitle(isShared ? 'Update Shared Canvas' : 'Share Canvas with Athlete')
+                        .setTitle(isShared ? 'Update Shared Canvas' : 'Share Canvas with Athletes')
                         .setIcon('send')
                         .onClick(async () => {
                             await this.shareCanvasWithAthlete(canvasFile);
@@ -734,33 +2021,28 @@ export default class BJJFlipmodePlugin extends Plugin {
                         item
                             .setTitle('Stop Sharing Canvas')
                             .setIcon('x')
-                            .onClick(async () => {
-                                delete this.settings.sharedCanvases[canvasFile.path];
-                                await this.saveSettings();
-                                new Notice('Canvas unshared');
-                            });
+                            .onClick(() => this.stopSharingCanvas(canvasFile.path));
                     });
                 }
             })
         );
 
-        // Watch for changes to shared canvases (auto-sync)
+        // Watch for changes to shared canvases and the notes they bundle (auto-sync)
         this.registerEvent(
             this.app.vault.on('modify', async (file: TAbstractFile) => {
                 if (!(file instanceof TFile)) return;
-                if (file.extension !== 'canvas') return;
                 if (this.settings.mode !== 'coach' || !this.coachClient) return;
 
-                const sharedWith = this.settings.sharedCanvases[file.path];
-                if (!sharedWith || sharedWith.length === 0) return;
+                if (file.extension === 'canvas') {
+                    if (this.isCanvasShared(file.path)) this.scheduleSharedCanvasSync(file.path);
+                    return;
+                }
 
-                // Debounce: wait 2 seconds before syncing
-                if ((this as any)._canvasSyncTimeout) {
-                    clearTimeout((this as any)._canvasSyncTimeout);
+                for (const [canvasPath, athletes] of Object.entries(this.settings.sharedCanvasFiles)) {
+                    if (Object.values(athletes).some(files => files[file.path] !== undefined) && this.isCanvasShared(canvasPath)) {
+                        this.scheduleSharedCanvasSync(canvasPath);
+                    }
                 }
-                (this as any)._canvasSyncTimeout = setTimeout(async () => {
-                    await this.syncSharedCanvas(file, sharedWith);
-                }, 2000);
             })
         );
 
@@ -772,10 +2054,10 @@ export default class BJJFlipmodePlugin extends Plugin {
                 // Canvas files - share with athlete
                 if (file.extension === 'canvas') {
                     if (this.settings.mode === 'coach' && this.coachClient) {
-                        const isShared = this.settings.sharedCanvases[file.path]?.length > 0;
+                        const isShared = this.isCanvasShared(file.path);
                         menu.addItem((item) => {
                             item
-                                .setTitle(isShared ? 'Update Shared Canvas' : 'Share Canvas with Athlete')
+                                .setTitle(isShared ? 'Update Shared Canvas' : 'Share Canvas with Athletes')
                                 .setIcon('send')
                                 .onClick(async () => {
                                     await this.shareCanvasWithAthlete(file);
@@ -786,11 +2068,7 @@ export default class BJJFlipmodePlugin extends Plugin {
                                 item
                                     .setTitle('Stop Sharing')
                                     .setIcon('x')
-                                    .onClick(async () => {
-                                        delete this.settings.sharedCanvases[file.path];
-                                        await this.saveSettings();
-                                        new Notice('Canvas unshared');
-                                    });
+                                    .onClick(() => this.stopSharingCanvas(file.path));
                             });
                         }
                     }
@@ -842,6 +2120,29 @@ export default class BJJFlipmodePlugin extends Plugin {
             })
         );
 
+        // Claim Inbox queries when a coach opens them
+        this.registerEvent(
+            this.app.workspace.on('file-open', async (file: TFile | null) => {
+                if (!file || !this.isCoachMode()) return;
+                if (!file.path.startsWith(`${this.settings.syncFolder}/Inbox/`)) return;
+
+                const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+                if (fm?.type !== 'pending-query' || !fm.job_id) return;
+
+                // Still holding it - nothing to do
+                if (fm.claimed_by === await this.getClaimOwner() && this.isClaimActive(fm.claim_expires)) return;
+
+                try {
+                    const claim = await this.claimJobForCoach(String(fm.job_id), file);
+                    if (claim) {
+                        new Notice(`Claimed query for ${this.settings.claimTimeoutMinutes} min`);
+                    }
+                } catch (error) {
+                    console.error('[Flipmode] Claim on open failed:', error);
+                }
+            })
+        );
+
         // Check connection on startup
         this.checkConnection();
 
@@ -890,9 +2191,8 @@ export default class BJJFlipmodePlugin extends Plugin {
             await this.ensureFolder(athletesFolder);
 
             for (const athlete of athletes) {
-                const name = athlete.display_name || athlete.discord_username || `Athlete_${athlete.id}`;
-                const safeName = name.replace(/[\\/:*?"<>|]/g, '_');
-                const athleteFolder = `${athletesFolder}/${safeName}`;
+                const name = this.athleteDisplayName(athlete);
+                const athleteFolder = this.athleteFolderPath(athlete);
 
                 await this.ensureFolder(athleteFolder);
 
@@ -903,31 +2203,191 @@ export default class BJJFlipmodePlugin extends Plugin {
                 // Create summary note
                 const summaryContent = this.createAthleteSummary(name, athlete, graph);
                 await this.saveNote(`${athleteFolder}/summary.md`, summaryContent);
+
+                // One note per logged session
+                const sessionNotes = this.sessionNotePaths(athlete, graph.sessions || []);
+                if (sessionNotes.length > 0) await this.ensureFolder(`${athleteFolder}/Sessions`);
+                for (const { session, path } of sessionNotes) {
+                    await this.saveNote(path, this.createSessionNote(name, athlete, session));
+                }
+            }
+
+            // Group canvases go out to anyone who joined a group since
+            try {
+                await this.refreshAthleteGroups();
+            } catch (error) {
+                console.error('[Flipmode] Failed to load athlete groups:', error);
             }
 
             // Sync pending queries
             const pending = await this.coachClient.getPendingJobs();
-            const inboxFolder = `${this.settings.syncFolder}/Inbox`;
-            await this.ensureFolder(inboxFolder);
-
-            for (const job of pending) {
-                const filename = `${inboxFolder}/${job.job_id.substring(0, 8)} - ${job.athlete_name || 'Unknown'}.md`;
+            await this.syncInboxNotes(pending);
 
-                // Don't overwrite existing
-                if (await this.app.vault.adapter.exists(filename)) continue;
-
-                const content = this.createPendingQueryNote(job);
-                await this.saveNote(filename, content);
-            }
+            // Athlete replies on answered queries
+            const replies = await this.syncThreadsInFolder(`${this.settings.syncFolder}/Sent`);
 
-            new Notice(`Synced ${athletes.length} athletes, ${pending.length} pending queries`);
+            new Notice(`Synced ${athletes.length} athletes, ${pending.length} pending queries${replies > 0 ? `, ${replies} new repl${replies === 1 ? 'y' : 'ies'}` : ''}`);
+            await this.refreshCoachDashboards();
         } catch (error) {
             console.error('Sync error:', error);
             new Notice('Sync failed - check connection');
         }
     }
 
-    createAthleteSummary(name: string, athlete: any, graph: any): string {
+    athleteDisplayName(athlete: Athlete): string {
+        return athlete.display_name || athlete.discord_username || `Athlete_${athlete.id}`;
+    }
+
+    athleteFolderPath(athlete: Athlete): string {
+        const safeName = this.athleteDisplayName(athlete).replace(/[\\/:*?"<>|]/g, '_');
+        return `${this.settings.syncFolder}/Athletes/${safeName}`;
+    }
+
+    async openCoachDashboard() {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
+        }
+
+        const existing = this.app.workspace.getLeavesOfType(COACH_DASHBOARD_VIEW)[0];
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            await (existing.view as CoachDashboardView).refresh();
+            return;
+        }
+
+        const leaf = this.app.workspace.getLeaf('tab');
+        await leaf.setViewState({ type: COACH_DASHBOARD_VIEW, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    async openCoachTriage() {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
+        }
+
+        const existing = this.app.workspace.getLeavesOfType(COACH_TRIAGE_VIEW)[0];
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            return;
+        }
+
+        const leaf = this.app.workspace.getLeaf('tab');
+        await leaf.setViewState({ type: COACH_TRIAGE_VIEW, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    refreshCoachTriage() {
+        for (const leaf of this.app.workspace.getLeavesOfType(COACH_TRIAGE_VIEW)) {
+            (leaf.view as CoachTriageView).refresh();
+        }
+    }
+
+    async refreshCoachDashboards() {
+        for (const leaf of this.app.workspace.getLeavesOfType(COACH_DASHBOARD_VIEW)) {
+            await (leaf.view as CoachDashboardView).refresh();
+        }
+    }
+
+    async openSidebar(tab?: SidebarTab) {
+        let leaf = this.app.workspace.getLeavesOfType(FLIPMODE_SIDEBAR_VIEW)[0];
+        if (!leaf) {
+            const right = this.app.workspace.getRightLeaf(false);
+            if (!right) return;
+            leaf = right;
+            await leaf.setViewState({ type: FLIPMODE_SIDEBAR_VIEW, active: true });
+        }
+        this.app.workspace.revealLeaf(leaf);
+        if (tab) (leaf.view as FlipmodeSidebarView).setTab(tab);
+    }
+
+    // Re-render open sidebars; with a tab, only if that tab is the one showing.
+    // Write hooks pass cached=true so a local change never triggers a server fetch.
+    refreshSidebar(tab?: SidebarTab, cached: boolean = false) {
+        for (const leaf of this.app.workspace.getLeavesOfType(FLIPMODE_SIDEBAR_VIEW)) {
+            (leaf.view as FlipmodeSidebarView).refresh(tab, cached);
+        }
+    }
+
+    async stopSharingCanvas(path: string) {
+        delete this.settings.sharedCanvases[path];
+        delete this.settings.sharedCanvasGroups[path];
+        delete this.settings.sharedCanvasFiles[path];
+        await this.saveSettings();
+        new Notice('Canvas unshared');
+        this.refreshSidebar('canvases');
+    }
+
+    /**
+     * Gather roster, graphs, open jobs and answered Sent notes for the dashboard.
+     * A failed graph fetch leaves that athlete with an empty graph rather than failing the view.
+     */
+    async loadCoachDashboard(): Promise<{ entries: AthleteDashboardEntry[]; stats: Stats | null }> {
+        const client = this.coachClient!;
+        const [athletes, pending, stats, answered] = await Promise.all([
+            client.getAthletes(),
+            client.getPendingJobs(),
+            client.getStats().catch(error => {
+                console.error('[Flipmode] Stats fetch failed:', error);
+                return null;
+            }),
+            this.readAnsweredQueries()
+        ]);
+
+        const entries = await Promise.all(athletes.map(async athlete => {
+            let graph: AthleteGraphData = { sessions: [], queries: [], topics: [] };
+            try {
+                graph = (await client.getAthleteGraph(athlete.id)).graph_data || graph;
+            } catch (error) {
+                console.error(`[Flipmode] Graph fetch failed for athlete ${athlete.id}:`, error);
+            }
+
+            const name = this.athleteDisplayName(athlete);
+            return {
+                athlete,
+                name,
+                summaryPath: `${this.athleteFolderPath(athlete)}/summary.md`,
+                graph,
+                openJobs: pending.filter(job => job.athlete_id === athlete.id),
+                answered: answered.filter(a => a.athleteId !== undefined ? a.athleteId === athlete.id : a.athleteName === name)
+            };
+        }));
+
+        return { entries, stats };
+    }
+
+    // Answered queries are the pushed Inbox notes in Sent
+    async readAnsweredQueries(): Promise<AnsweredQuery[]> {
+        const sentFolder = this.app.vault.getAbstractFileByPath(`${this.settings.syncFolder}/Sent`);
+        if (!(sentFolder instanceof TFolder)) return [];
+
+        const answered: AnsweredQuery[] = [];
+        for (const child of sentFolder.children) {
+            if (!(child instanceof TFile) || child.extension !== 'md') continue;
+
+            const content = await this.app.vault.read(child);
+            const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+            if (!fmMatch || !/^type: pending-query$/m.test(fmMatch[1])) continue;
+
+            const field = (key: string) => fmMatch[1].match(new RegExp(`^${key}:\\s*(.*)$`, 'm'))?.[1].trim() || '';
+            const athleteId = parseInt(field('athlete_id'));
+            const questionMatch = content.match(/## Question\r?\n\r?\n([\s\S]*?)\r?\n\r?\n---/);
+
+            answered.push({
+                file: child,
+                athleteId: isNaN(athleteId) ? undefined : athleteId,
+                athleteName: field('athlete_name') || 'Unknown',
+                query: questionMatch ? questionMatch[1].trim() : child.basename,
+                submittedAt: field('submitted'),
+                // Older Sent notes predate the answered field; fall back to the file time
+                answeredAt: field('answered') || new Date(child.stat.mtime).toISOString()
+            });
+        }
+        return answered;
+    }
+
+    createAthleteSummary(name: string, athlete: Athlete, graph: AthleteGraphData): string {
         const sessions = graph.sessions || [];
         const queries = graph.queries || [];
         const topics = graph.topics || [];
@@ -949,12 +2409,12 @@ updated: ${new Date().toISOString().split('T')[0]}
 
 ## Topics Explored
 
-${topics.length > 0 ? topics.map((t: string) => `- ${t}`).join('\n') : '*No topics yet*'}
+${topics.length > 0 ? topics.map(t => `- ${t}`).join('\n') : '*No topics yet*'}
 
 ## Recent Queries
 
 `;
-        const sortedQueries = [...queries].sort((a: any, b: any) =>
+        const sortedQueries = [...queries].sort((a, b) =>
             (b.date || '').localeCompare(a.date || '')
         ).slice(0, 10);
 
@@ -965,19 +2425,67 @@ ${topics.length > 0 ? topics.map((t: string) => `- ${t}`).join('\n') : '*No topi
 
         content += `\n## Recent Sessions\n\n`;
 
-        const sortedSessions = [...sessions].sort((a: any, b: any) =>
-            (b.date || '').localeCompare(a.date || '')
-        ).slice(0, 10);
-
-        for (const s of sortedSessions) {
-            const tags = (s.tags || []).join(', ');
-            content += `- ${s.date || 'Unknown'} - ${tags || 'No tags'}\n`;
+        for (const { session, path } of this.sessionNotePaths(athlete, sessions).slice(0, 10)) {
+            content += `- [[${path}|${session.date}]] - ${this.describeSession(session)}\n`;
         }
 
         return content;
     }
 
-    createPendingQueryNote(job: any): string {
+    /**
+     * Note paths for an athlete's dated sessions, newest first: Sessions/<day>.md,
+     * with " (2)" and up for later sessions on the same day. Numbering runs
+     * oldest first so a new session never renames an older one.
+     */
+    sessionNotePaths(athlete: Athlete, sessions: GraphSession[]): { session: GraphSession; path: string }[] {
+        const folder = `${this.athleteFolderPath(athlete)}/Sessions`;
+        const perDay = new Map<string, number>();
+        return sessions
+            .filter(s => s.date)
+            .sort((a, b) => a.date!.localeCompare(b.date!))
+            .map(session => {
+                const day = session.date!.split('T')[0];
+                const n = (perDay.get(day) || 0) + 1;
+                perDay.set(day, n);
+                return { session, path: `${folder}/${day}${n > 1 ? ` (${n})` : ''}.md` };
+            })
+            .reverse();
+    }
+
+    createSessionNote(name: string, athlete: Athlete, session: GraphSession): string {
+        const list = (label: string, items?: string[]) => items?.length ? `- **${label}:** ${items.join(', ')}\n` : '';
+        return `---
+type: athlete-session
+athlete_id: ${athlete.id}
+date: ${session.date}
+---
+
+# ${name} - ${session.date!.split('T')[0]}
+
+${this.describeSession(session)}
+
+${list('Partners', session.partners)}${list('Positions', session.positions)}${list('Submissions for', session.submissions_for)}${list('Submissions against', session.submissions_against)}${list('Sweeps', session.sweeps)}${list('Tags', session.tags)}`;
+    }
+
+    // One-line session summary; voice-note sessions only have tags
+    describeSession(session: GraphSession): string {
+        if (!session.session_type) {
+            const tags = (session.tags || []).join(', ');
+            return tags || 'No tags';
+        }
+
+        const parts = [TRAINING_SESSION_TYPES[session.session_type] || session.session_type];
+        if (session.duration_minutes) parts.push(`${session.duration_minutes} min`);
+        if (session.rounds) parts.push(`${session.rounds} rounds`);
+        if (session.submissions_for || session.submissions_against) {
+            parts.push(`subs ${session.submissions_for?.length || 0} for / ${session.submissions_against?.length || 0} against`);
+        }
+        if (session.sweeps?.length) parts.push(`${session.sweeps.length} sweeps`);
+        if (session.positions?.length) parts.push(`positions: ${session.positions.join(', ')}`);
+        return parts.join(' · ');
+    }
+
+    createPendingQueryNote(job: Job): string {
         return `---
 type: pending-query
 job_id: ${job.job_id}
@@ -985,22 +2493,26 @@ athlete_id: ${job.athlete_id}
 athlete_name: ${job.athlete_name || 'Unknown'}
 submitted: ${job.submitted_at}
 status: pending
+claimed_by: ${job.claimed_by || ''}
+claim_expires: ${job.claim_expires_at || ''}
+therapy_turns: ${readTherapyContext(job.therapy_context)?.turns.length ?? 0}
 ---
 
 # Query from ${job.athlete_name || 'Unknown'}
 
 **Submitted:** ${job.submitted_at}
+${this.formatClaimLine(job.claimed_by, job.claim_expires_at)}
 
 ## Question
 
 ${job.query_text}
-
+${this.formatTherapyTranscript(job.therapy_context)}
 ---
 
 ## Actions
 
 1. Run command: **Coach: Generate article for current query**
-2. Edit the generated article below
+2. Edit the generated article and its sources below
 3. Run command: **Coach: Push article to athlete**
 
 ---
@@ -1012,6 +2524,69 @@ ${job.query_text}
 `;
     }
 
+    // Athletes plus groups; a server without group support just yields no groups
+    async loadRoster(): Promise<{ athletes: Athlete[]; groups: AthleteGroup[] }> {
+        const athletes = await this.coachClient!.getAthletes();
+        try {
+            await this.refreshAthleteGroups();
+        } catch (error) {
+            console.error('[Flipmode] Failed to load athlete groups:', error);
+        }
+        return { athletes, groups: this.athleteGroups };
+    }
+
+    groupMembers(group: AthleteGroup, athletes: Athlete[]): Athlete[] {
+        return athletes.filter(a => group.athlete_ids.includes(a.id));
+    }
+
+    isCanvasShared(path: string): boolean {
+        return this.settings.sharedCanvases[path]?.length > 0 || this.settings.sharedCanvasGroups[path]?.length > 0;
+    }
+
+    // Everyone a shared canvas goes to: direct shares plus current members of its groups
+    async canvasAthleteIds(path: string): Promise<number[]> {
+        const ids = new Set(this.settings.sharedCanvases[path] || []);
+        const groupIds = this.settings.sharedCanvasGroups[path] || [];
+        if (groupIds.length > 0 && this.coachClient) {
+            try {
+                this.athleteGroups = await this.coachClient.getGroups();
+            } catch (error) {
+                console.error('[Flipmode] Failed to refresh athlete groups:', error);
+            }
+            for (const group of this.athleteGroups) {
+                if (groupIds.includes(group.id)) group.athlete_ids.forEach(id => ids.add(id));
+            }
+        }
+        return [...ids];
+    }
+
+    // Reload the coach's groups; members who joined since a group canvas was shared get it now
+    async refreshAthleteGroups(): Promise<AthleteGroup[]> {
+        this.athleteGroups = await this.coachClient!.getGroups();
+        this.syncGroupCanvasesToNewMembers().catch(error =>
+            console.error('[Flipmode] Failed to share group canvases with new members:', error));
+        return this.athleteGroups;
+    }
+
+    // Group members with no delivery on record get the canvases shared with their groups,
+    // however they joined (settings, another device, the server)
+    async syncGroupCanvasesToNewMembers() {
+        for (const [path, groupIds] of Object.entries(this.settings.sharedCanvasGroups)) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile) || groupIds.length === 0) continue;
+
+            const received = await this.loadCanvasAcks(file);
+            const missing = new Set<number>();
+            for (const group of this.athleteGroups) {
+                if (!groupIds.includes(group.id)) continue;
+                group.athlete_ids.filter(id => !received[id]).forEach(id => missing.add(id));
+            }
+            if (missing.size > 0) {
+                await this.syncSharedCanvas(file, [...missing], true);
+            }
+        }
+    }
+
     async shareConceptGraphWithAthlete(file: TFile) {
         if (!this.coachClient) {
             new Notice('Coach mode not configured');
@@ -1038,16 +2613,18 @@ ${job.query_text}
 
         // Get athletes list for selection
         try {
-            const athletes = await this.coachClient.getAthletes();
+            const { athletes, groups } = await this.loadRoster();
 
             if (athletes.length === 0) {
                 new Notice('No athletes found. Add athletes first.');
                 return;
             }
 
-            // Create selection modal
-            const modal = new AthleteSelectModal(this.app, athletes, async (selectedAthlete) => {
-                if (!selectedAthlete) return;
+            const share = async (targets: Athlete[], label: string) => {
+                if (targets.length === 0) {
+                    new Notice(`${label} has no athletes`);
+                    return;
+                }
 
                 // Collect concept graph data
                 let graphData: any = {};
@@ -1093,27 +2670,34 @@ ${job.query_text}
                 }
 
                 // Send to queue service
-                new Notice(`Sharing "${conceptName}" with ${selectedAthlete.display_name || selectedAthlete.discord_username}...`);
-
-                try {
-                    const result = await this.coachClient!.shareConceptGraph(
-                        selectedAthlete.id,
-                        conceptName,
-                        conceptSummary,
-                        graphData
-                    );
+                new Notice(`Sharing "${conceptName}" with ${label}...`);
 
-                    if (result.success) {
-                        new Notice(`Shared with ${selectedAthlete.display_name || selectedAthlete.discord_username}`);
-                    } else {
-                        new Notice(`Saved but Discord notification failed: ${result.message}`);
+                let shared = 0;
+                for (const athlete of targets) {
+                    try {
+                        const result = await this.coachClient!.shareConceptGraph(
+                            athlete.id,
+                            conceptName,
+                            conceptSummary,
+                            graphData
+                        );
+                        shared++;
+                        if (!result.success) {
+                            new Notice(`Saved but Discord notification failed: ${result.message}`);
+                        }
+                    } catch (error: any) {
+                        new Notice(`Failed to share with ${this.athleteDisplayName(athlete)}: ${error.message}`);
                     }
-                } catch (error: any) {
-                    new Notice(`Failed to share: ${error.message}`);
                 }
-            });
+                if (shared > 0) {
+                    new Notice(`Shared with ${label}${targets.length > 1 ? ` (${shared}/${targets.length})` : ''}`);
+                }
+            };
 
-            modal.open();
+            new AthleteSelectModal(this.app, athletes, athlete => share([athlete], this.athleteDisplayName(athlete)), {
+                groups,
+                onSelectGroup: (group, members) => share(members, group.name)
+            }).open();
 
         } catch (error: any) {
             new Notice(`Failed to get athletes: ${error.message}`);
@@ -1137,66 +2721,101 @@ ${job.query_text}
         }
 
         const canvasName = file.basename;
+        const { nodes, files } = await this.buildCanvasBundle(file, canvasData);
 
         // Get athletes list
         try {
-            const athletes = await this.coachClient.getAthletes();
+            const { athletes, groups } = await this.loadRoster();
 
             if (athletes.length === 0) {
                 new Notice('No athletes found. Add athletes first.');
                 return;
             }
 
-            // Create selection modal
-            const modal = new AthleteSelectModal(this.app, athletes, async (selectedAthlete) => {
-                if (!selectedAthlete) return;
+            // Share with the targets, then remember the athlete or group for auto-sync
+            const share = async (targets: Athlete[], label: string, group?: AthleteGroup) => {
+                new Notice(`Sharing canvas "${canvasName}" with ${label}...`);
 
-                new Notice(`Sharing canvas "${canvasName}" with ${selectedAthlete.display_name || selectedAthlete.discord_username}...`);
-
-                try {
-                    const result = await this.coachClient!.shareConceptGraph(
-                        selectedAthlete.id,
-                        canvasName + ' (Timeline)',
-                        'Visual timeline canvas for training sequence',
-                        {
-                            type: 'canvas',
-                            canvasName: canvasName,
-                            nodes: canvasData.nodes || [],
-                            edges: canvasData.edges || []
+                const shared: number[] = [];
+                for (const athlete of targets) {
+                    try {
+                        const result = await this.coachClient!.shareConceptGraph(
+                            athlete.id,
+                            canvasName + ' (Timeline)',
+                            'Visual timeline canvas for training sequence',
+                            {
+                                type: 'canvas',
+                                canvasName: canvasName,
+                                nodes,
+                                edges: canvasData.edges || [],
+                                files
+                            }
+                        );
+                        if (result.success) {
+                            shared.push(athlete.id);
+                        } else {
+                            new Notice(`Saved but Discord notification failed: ${result.message}`);
                         }
-                    );
+                    } catch (error: any) {
+                        new Notice(`Failed to share with ${this.athleteDisplayName(athlete)}: ${error.message}`);
+                    }
+                }
 
-                    if (result.success) {
-                        // Track this canvas as shared for auto-sync
-                        if (!this.settings.sharedCanvases[file.path]) {
-                            this.settings.sharedCanvases[file.path] = [];
-                        }
-                        if (!this.settings.sharedCanvases[file.path].includes(selectedAthlete.id)) {
-                            this.settings.sharedCanvases[file.path].push(selectedAthlete.id);
-                        }
-                        await this.saveSettings();
+                if (shared.length === 0 && targets.length > 0) return;
 
-                        new Notice(`Shared with ${selectedAthlete.display_name || selectedAthlete.discord_username}! Changes will auto-sync.`);
-                    } else {
-                        new Notice(`Saved but Discord notification failed: ${result.message}`);
+                // Track this canvas as shared for auto-sync. A group is tracked only once every
+                // member has it (even while empty, so members added later still get it);
+                // otherwise just the members it reached are
+                if (group && shared.length === targets.length) {
+                    const groupIds = this.settings.sharedCanvasGroups[file.path] || [];
+                    if (!groupIds.includes(group.id)) groupIds.push(group.id);
+                    this.settings.sharedCanvasGroups[file.path] = groupIds;
+                } else {
+                    const athleteIds = this.settings.sharedCanvases[file.path] || [];
+                    for (const id of shared) {
+                        if (!athleteIds.includes(id)) athleteIds.push(id);
                     }
-                } catch (error: any) {
-                    new Notice(`Failed to share: ${error.message}`);
+                    this.settings.sharedCanvases[file.path] = athleteIds;
                 }
-            });
+                await this.saveSettings();
+                this.refreshSidebar('canvases');
 
-            modal.open();
+                new Notice(shared.length === targets.length
+                    ? `Shared with ${label}! Changes will auto-sync.`
+                    : `Shared with ${shared.length} of ${targets.length} athlete(s) in ${label}. Changes will auto-sync to them.`);
+            };
+
+            new AthleteSelectModal(this.app, athletes, athlete => share([athlete], this.athleteDisplayName(athlete)), {
+                groups,
+                onSelectGroup: (group, members) => share(members, group.name, group)
+            }).open();
 
         } catch (error: any) {
             new Notice(`Failed to get athletes: ${error.message}`);
         }
     }
 
+    // Debounce: wait 2 seconds after the last edit before syncing a shared canvas
+    private canvasSyncTimers = new Map<string, number>();
+
+    scheduleSharedCanvasSync(canvasPath: string) {
+        window.clearTimeout(this.canvasSyncTimers.get(canvasPath));
+        this.canvasSyncTimers.set(canvasPath, window.setTimeout(async () => {
+            this.canvasSyncTimers.delete(canvasPath);
+            const file = this.app.vault.getAbstractFileByPath(canvasPath);
+            if (file instanceof TFile) {
+                await this.syncSharedCanvas(file, await this.canvasAthleteIds(canvasPath));
+            }
+        }, 2000));
+    }
+
     /**
      * Sync a shared canvas to all athletes it's shared with.
-     * Called automatically when a shared canvas is modified.
+     * Called automatically when a shared canvas or a file it bundles is modified.
+     * Each athlete gets the content of every file they have not yet received
+     * at its current hash; pass full to send all content regardless.
      */
-    async syncSharedCanvas(file: TFile, athleteIds: number[]) {
+    async syncSharedCanvas(file: TFile, athleteIds: number[], full: boolean = false) {
         if (!this.coachClient) return;
 
         const content = await this.app.vault.read(file);
@@ -1208,7 +2827,10 @@ ${job.query_text}
         }
 
         const canvasName = file.basename;
+        const { nodes, files } = await this.buildCanvasBundle(file, canvasData);
+        const received = await this.loadCanvasAcks(file);
 
+        let synced = 0;
         for (const athleteId of athleteIds) {
             try {
                 await this.coachClient.syncCanvas(
@@ -1217,17 +2839,104 @@ ${job.query_text}
                     {
                         type: 'canvas',
                         canvasName: canvasName,
-                        nodes: canvasData.nodes || [],
+                        nodes,
                         edges: canvasData.edges || [],
-                        updatedAt: Date.now()
+                        updatedAt: Date.now(),
+                        files: full ? files : trimCanvasBundle(files, received[athleteId] || {})
                     }
                 );
+                synced++;
             } catch (error) {
                 console.error(`Failed to sync canvas to athlete ${athleteId}:`, error);
             }
         }
 
-        new Notice(`Canvas synced to ${athleteIds.length} athlete(s)`);
+        new Notice(`Canvas synced to ${synced} athlete(s)`);
+    }
+
+    /**
+     * Collect the files a canvas references: file cards, links in text cards,
+     * and attachments embedded in those notes. Links and embeds of bundled
+     * files, in the notes and in text cards, are rewritten to full vault paths
+     * so the athlete side can relocate them. Every entry carries its content;
+     * see trimCanvasBundle for what each athlete is actually sent.
+     */
+    async buildCanvasBundle(canvasFile: TFile, canvasData: any): Promise<{ nodes: any[]; files: CanvasBundleFile[] }> {
+        const resolve = (link: string, from: string): TFile | null =>
+            this.app.metadataCache.getFirstLinkpathDest(link.split('#')[0].trim(), from);
+
+        const nodes: any[] = canvasData.nodes || [];
+        const referenced = new Map<string, TFile>();
+        for (const node of nodes) {
+            if (node.type === 'file' && typeof node.file === 'string') {
+                const target = this.app.vault.getAbstractFileByPath(node.file);
+                if (target instanceof TFile) referenced.set(target.path, target);
+            } else if (node.type === 'text' && typeof node.text === 'string') {
+                for (const match of node.text.matchAll(/\[\[([^\]|]+)/g)) {
+                    const target = resolve(match[1], canvasFile.path);
+                    if (target) referenced.set(target.path, target);
+                }
+            }
+        }
+
+        // One level of embeds: clips and images inside the referenced notes
+        const notes = [...referenced.values()].filter(f => f.extension === 'md');
+        for (const note of notes) {
+            for (const embed of this.app.metadataCache.getFileCache(note)?.embeds || []) {
+                const target = resolve(embed.link, note.path);
+                if (target && !referenced.has(target.path)) referenced.set(target.path, target);
+            }
+        }
+        referenced.delete(canvasFile.path);
+
+        // Plain links keep their old text as the alias so they still read the same
+        const toFullPaths = (text: string, from: string) =>
+            text.replace(/(!?)\[\[([^\]|#]*)([^\]|]*)(\|[^\]]*)?\]\]/g, (match, bang, link, sub, alias) => {
+                const target = link.trim() ? resolve(link, from) : null;
+                if (!target || !referenced.has(target.path)) return match;
+                return `${bang}[[${target.path}${sub}${alias || (bang ? '' : `|${link}${sub}`)}]]`;
+            });
+
+        const texts = new Map<string, string>();
+        for (const note of notes) {
+            texts.set(note.path, toFullPaths(await this.app.vault.read(note), note.path));
+        }
+
+        const files: CanvasBundleFile[] = [];
+        for (const target of referenced.values()) {
+            try {
+                const text = texts.get(target.path);
+                const data = text !== undefined ? new TextEncoder().encode(text).buffer as ArrayBuffer : await this.app.vault.readBinary(target);
+                const hash = await hashBytes(data);
+                files.push({
+                    path: target.path,
+                    hash,
+                    encoding: text !== undefined ? 'text' : 'base64',
+                    size: data.byteLength,
+                    content: text !== undefined ? text : arrayBufferToBase64(data)
+                });
+            } catch (error) {
+                console.error(`[Flipmode] Could not bundle ${target.path}:`, error);
+            }
+        }
+
+        return {
+            nodes: nodes.map(node => node.type === 'text' && typeof node.text === 'string'
+                ? { ...node, text: toFullPaths(node.text, canvasFile.path) }
+                : node),
+            files
+        };
+    }
+
+    // What each athlete confirmed having; a failed fetch falls back to the acks seen last
+    async loadCanvasAcks(file: TFile): Promise<Record<string, Record<string, string>>> {
+        try {
+            this.settings.sharedCanvasFiles[file.path] = await this.coachClient!.getCanvasAcks(file.basename);
+            await this.saveSettings();
+        } catch (error) {
+            console.error(`[Flipmode] Failed to load canvas acknowledgements for ${file.basename}:`, error);
+        }
+        return this.settings.sharedCanvasFiles[file.path] || {};
     }
 
     /**
@@ -1901,36 +3610,7 @@ ${job.query_text}
         }
 
         // Parse checkpoint data from file
-        const content = await this.app.vault.read(sourceFile);
-
-        // Extract current invariables
-        const invariablesMatch = content.match(/## INVARIABLES[\s\S]*?\|[\s\S]*?\|([\s\S]*?)(?=\n---|\n##|$)/);
-        const currentInvariables: string[] = [];
-        if (invariablesMatch) {
-            const links = invariablesMatch[1].match(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g) || [];
-            for (const link of links) {
-                const nameMatch = link.match(/\[\[(?:[^\]|]+\|)?([^\]]+)\]\]/);
-                if (nameMatch && nameMatch[1] !== 'none') {
-                    currentInvariables.push(nameMatch[1].trim());
-                }
-            }
-        }
-
-        // Extract current variables
-        const variablesMatch = content.match(/## VARIABLES[\s\S]*?((?:- \*\*IF.*\n?)+)/);
-        const currentVariables: string[] = [];
-        if (variablesMatch) {
-            const lines = variablesMatch[1].match(/- \*\*IF[^*]+\*\*[^\n]+/g) || [];
-            currentVariables.push(...lines.map(l => l.replace(/^- /, '').trim()));
-        }
-
-        // Extract goal
-        const goalMatch = content.match(/## Goal\n\n([^\n]+)/);
-        const goal = goalMatch ? goalMatch[1].trim() : '';
-
-        // Extract success test
-        const successMatch = content.match(/## Success Test\n\n> ([^\n]+)/);
-        const successTest = successMatch ? successMatch[1].trim() : '';
+        const { checkpoint } = await this.readCheckpointNote(sourceFile);
 
         new Notice(`Opening enrichment for "${sourceFile.basename}"...`, 2000);
 
@@ -1940,10 +3620,10 @@ ${job.query_text}
             {
                 name: sourceFile.basename,
                 cluster: cache.frontmatter.cluster || '',
-                currentInvariables,
-                currentVariables,
-                goal,
-                successTest
+                currentInvariables: checkpoint.invariables.map(inv => inv.name),
+                currentVariables: checkpoint.variables.map(describeVariable),
+                goal: checkpoint.goal,
+                successTest: checkpoint.successTest
             },
             sourceFile
         );
@@ -2139,29 +3819,157 @@ ${job.query_text}
         }
     }
 
+    // Lay out a generated canvas whose nodes carry rank/anchor/tier hints (see canvas-layout)
+    layoutGeneratedCanvas(canvasData: { nodes: LayoutNode[]; edges: any[] }, tierOrder: string[] = RLM_TIER_ORDER): { nodes: any[]; edges: any[] } {
+        return layoutCanvas(canvasData.nodes, canvasData.edges, {
+            direction: this.settings.canvasLayoutDirection,
+            tierOrder,
+            groupTiers: true,
+            tierLabels: RLM_TIER_LABELS
+        });
+    }
+
     /**
-     * Rebuild Canvas from checkpoint files - proper layout with all connections.
-     * This regenerates the entire canvas from the enriched markdown files.
+     * Write a generated canvas, rebuilding on top of the existing file so manual
+     * positions, colors and cards survive (see rebuildCanvas). An unreadable
+     * existing canvas is replaced with a fresh layout.
      */
-    async rebuildCanvasFromCheckpoints() {
-        // Get active file to determine folder
-        const activeFile = this.app.workspace.getActiveFile();
-        if (!activeFile) {
-            new Notice('Open a file in the checkpoint folder first');
-            return;
+    async writeGeneratedCanvas(path: string, canvasData: { nodes: LayoutNode[]; edges: any[] }, tierOrder: string[] = RLM_TIER_ORDER): Promise<RebuildResult> {
+        const existingFile = this.app.vault.getAbstractFileByPath(path);
+        let existing: { nodes: any[]; edges: any[] } | null = null;
+        if (existingFile instanceof TFile) {
+            try {
+                const parsed = JSON.parse(await this.app.vault.read(existingFile));
+                existing = { nodes: parsed.nodes || [], edges: parsed.edges || [] };
+            } catch (error) {
+                console.error(`[Flipmode] ${path} is not valid canvas JSON, regenerating:`, error);
+            }
         }
 
-        const folder = activeFile.parent;
-        if (!folder) {
-            new Notice('Could not determine folder');
-            return;
+        const result = rebuildCanvas(existing, canvasData, {
+            direction: this.settings.canvasLayoutDirection,
+            tierOrder,
+            groupTiers: true,
+            tierLabels: RLM_TIER_LABELS,
+            fileExists: filePath => this.app.vault.getAbstractFileByPath(filePath) instanceof TFile
+        });
+
+        const content = JSON.stringify({ nodes: result.nodes, edges: result.edges }, null, 2);
+        if (existingFile instanceof TFile) {
+            await this.app.vault.modify(existingFile, content);
+        } else {
+            await this.app.vault.create(path, content);
         }
+        return result;
+    }
 
-        new Notice(`Scanning ${folder.path} for checkpoints...`);
+    // One-line summary of a rebuild for notices and progress output
+    describeCanvasRebuild(result: RebuildResult): string {
+        const parts = [`${result.added} new`, `${result.kept} kept`];
+        if (result.removed.length > 0) {
+            parts.push(`${result.removed.length} flagged as removed (${result.removed.map(p => p.split('/').pop()!.replace(/\.md$/, '')).join(', ')})`);
+        }
+        return parts.join(', ');
+    }
 
+    /**
+     * Read a checkpoint note and its relationships (see checkpoint-model). The
+     * frontmatter is parsed from the file itself rather than the metadata cache,
+     * which lags behind notes that were just enriched.
+     */
+    async readCheckpointNote(file: TFile): Promise<{ content: string; checkpoint: CheckpointNote }> {
+        const content = await this.app.vault.read(file);
+        let frontmatter: any;
         try {
-            // Find all checkpoint files in the folder
-            const checkpoints: any[] = [];
+            frontmatter = parseYaml(frontmatterText(content));
+        } catch (error) {
+            console.error(`[Flipmode] Could not parse frontmatter of ${file.path}:`, error);
+            frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        }
+        return { content, checkpoint: parseCheckpointNote(content, frontmatter) };
+    }
+
+    /**
+     * Convert checkpoint notes that still keep their invariables, variables and
+     * navigation only in markdown tables to structured frontmatter, and point
+     * the linked notes back at their checkpoint.
+     */
+    // Record a checkpoint in a linked note's checkpoints list; false if it was already there
+    async addNoteToCheckpoint(file: TFile, checkpoint: string): Promise<boolean> {
+        const content = await this.app.vault.read(file);
+        let frontmatter: any;
+        try {
+            frontmatter = parseYaml(frontmatterText(content));
+        } catch (error) {
+            console.error(`[Flipmode] Could not parse frontmatter of ${file.path}:`, error);
+            frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        }
+
+        const updated = addParentCheckpoint(content, frontmatter, checkpoint);
+        if (updated === content) return false;
+        await this.app.vault.modify(file, updated);
+        return true;
+    }
+
+    async migrateCheckpointNotes() {
+        const files = this.app.vault.getMarkdownFiles()
+            .filter(file => this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'checkpoint');
+        if (files.length === 0) {
+            new Notice('No checkpoint notes found');
+            return;
+        }
+
+        let migrated = 0;
+        let linked = 0;
+        for (const file of files) {
+            try {
+                const { content, checkpoint } = await this.readCheckpointNote(file);
+                if (!checkpoint.structured) {
+                    await this.app.vault.modify(file, setCheckpointFrontmatter(content, checkpoint));
+                    migrated++;
+                }
+
+                // Linked notes of already-structured checkpoints too, so shared notes list every parent
+                const names = [...checkpoint.invariables.map(inv => inv.name), ...checkpoint.variables.map(v => v.name)];
+                for (const name of names) {
+                    if (!name) continue;
+                    const target = this.app.metadataCache.getFirstLinkpathDest(name, file.path);
+                    if (!target || target.extension !== 'md') continue;
+                    if (await this.addNoteToCheckpoint(target, file.basename)) linked++;
+                }
+            } catch (error) {
+                console.error(`[Flipmode] Could not migrate ${file.path}:`, error);
+            }
+        }
+
+        new Notice(migrated > 0 || linked > 0
+            ? `Migrated ${migrated} checkpoint note(s), linked ${linked} concept note(s)`
+            : 'All checkpoint notes already use structured frontmatter');
+    }
+
+    /**
+     * Rebuild Canvas from checkpoint files - proper layout with all connections.
+     * This regenerates the entire canvas from the enriched markdown files.
+     */
+    async rebuildCanvasFromCheckpoints() {
+        // Get active file to determine folder
+        const activeFile = this.app.workspace.getActiveFile();
+        if (!activeFile) {
+            new Notice('Open a file in the checkpoint folder first');
+            return;
+        }
+
+        const folder = activeFile.parent;
+        if (!folder) {
+            new Notice('Could not determine folder');
+            return;
+        }
+
+        new Notice(`Scanning ${folder.path} for checkpoints...`);
+
+        try {
+            // Find all checkpoint files in the folder
+            const checkpoints: any[] = [];
             const methods: any[] = [];
 
             for (const file of this.app.vault.getFiles()) {
@@ -2173,40 +3981,17 @@ ${job.query_text}
                 const type = cache.frontmatter.type;
 
                 if (type === 'checkpoint') {
-                    const content = await this.app.vault.read(file);
+                    const { checkpoint } = await this.readCheckpointNote(file);
 
                     // Parse order from frontmatter or filename
-                    const order = cache.frontmatter.order || parseInt(file.basename.match(/^\[?(\d+)/)?.[1] || '99');
-
-                    // Extract linked invariables
-                    const invariables: string[] = [];
-                    const invMatch = content.match(/## INVARIABLES[\s\S]*?\|([\s\S]*?)(?=\n##|\n---)/);
-                    if (invMatch) {
-                        const links = invMatch[1].match(/\[\[([^\]|]+)/g) || [];
-                        for (const link of links) {
-                            const name = link.replace('[[', '').trim();
-                            if (name && name !== 'none') {
-                                invariables.push(name);
-                            }
-                        }
-                    }
-
-                    // Extract navigation links
-                    const navigation: string[] = [];
-                    const navMatch = content.match(/## Navigation[\s\S]*?((?:\[\[[^\]]+\]\][^\n]*\n?)+)/);
-                    if (navMatch) {
-                        const navLinks = navMatch[1].match(/\[\[([^\]|]+)/g) || [];
-                        for (const link of navLinks) {
-                            navigation.push(link.replace('[[', '').trim());
-                        }
-                    }
+                    const order = checkpoint.order ?? parseInt(file.basename.match(/^\[?(\d+)/)?.[1] || '99');
 
                     checkpoints.push({
                         file,
                         order,
-                        cluster: cache.frontmatter.cluster || '',
-                        invariables,
-                        navigation
+                        cluster: checkpoint.cluster,
+                        invariables: checkpoint.invariables.map(inv => inv.name),
+                        navigation: [checkpoint.previous, checkpoint.next].filter(Boolean)
                     });
                 } else if (type === 'method' || type === 'concept') {
                     methods.push({
@@ -2233,19 +4018,13 @@ ${job.query_text}
                 edges: []
             };
 
-            // Layout constants
+            // Node sizes (positions come from layoutCanvas)
             const checkpointWidth = 300;
             const checkpointHeight = 150;
             const methodWidth = 200;
             const methodHeight = 80;
-            const horizontalGap = 400;
-            const verticalGap = 200;
-            const methodOffsetX = 350;
-            const methodGap = 100;
-
-            // Create checkpoint nodes in a horizontal flow
-            let currentX = 100;
-            const checkpointY = 300;
+
+            // Checkpoints form the spine in order
             const nodeIdMap: Map<string, string> = new Map();
 
             for (let i = 0; i < checkpoints.length; i++) {
@@ -2257,15 +4036,13 @@ ${job.query_text}
                     id: nodeId,
                     type: 'file',
                     file: cp.file.path,
-                    x: currentX,
-                    y: checkpointY,
+                    rank: i,
                     width: checkpointWidth,
                     height: checkpointHeight,
                     color: '4' // Blue for checkpoints
                 });
 
-                // Add method nodes for invariables (stacked above)
-                let methodY = checkpointY - methodGap - methodHeight;
+                // Add method nodes for invariables (tier bands above)
                 for (const invName of cp.invariables) {
                     // Find the method file
                     const methodFile = methods.find(m => m.file.basename === invName);
@@ -2277,8 +4054,9 @@ ${job.query_text}
                             id: methodId,
                             type: 'file',
                             file: methodFile.file.path,
-                            x: currentX + methodOffsetX,
-                            y: methodY,
+                            anchor: nodeId,
+                            side: 'before',
+                            tier: methodFile.tier,
                             width: methodWidth,
                             height: methodHeight,
                             color: methodFile.tier === 'CRITICAL' ? '1' : methodFile.tier === 'IMPORTANT' ? '6' : '0'
@@ -2292,8 +4070,6 @@ ${job.query_text}
                             toNode: methodId,
                             toSide: 'left'
                         });
-
-                        methodY -= methodHeight + 30;
                     }
                 }
 
@@ -2308,8 +4084,6 @@ ${job.query_text}
                         color: '5'
                     });
                 }
-
-                currentX += horizontalGap;
             }
 
             // Add navigation edges between checkpoints
@@ -2338,16 +4112,9 @@ ${job.query_text}
 
             // Save canvas file
             const canvasPath = `${folder.path}/${folder.name} - Generated.canvas`;
-            const canvasContent = JSON.stringify(canvasData, null, 2);
-
-            const existingCanvas = this.app.vault.getAbstractFileByPath(canvasPath);
-            if (existingCanvas) {
-                await this.app.vault.modify(existingCanvas as TFile, canvasContent);
-            } else {
-                await this.app.vault.create(canvasPath, canvasContent);
-            }
+            const rebuild = await this.writeGeneratedCanvas(canvasPath, canvasData);
 
-            new Notice(`Canvas created: ${canvasPath}`);
+            new Notice(`Canvas built: ${canvasPath} (${this.describeCanvasRebuild(rebuild)})`);
 
             // Open the canvas
             const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
@@ -2886,27 +4653,21 @@ ${job.query_text}
                 return;
             }
 
-            // Open inbox folder
-            const inboxFolder = `${this.settings.syncFolder}/Inbox`;
-            await this.ensureFolder(inboxFolder);
-
             // Sync latest
-            for (const job of pending) {
-                const filename = `${inboxFolder}/${job.job_id.substring(0, 8)} - ${job.athlete_name || 'Unknown'}.md`;
-                if (!(await this.app.vault.adapter.exists(filename))) {
-                    const content = this.createPendingQueryNote(job);
-                    await this.saveNote(filename, content);
-                }
-            }
+            await this.syncInboxNotes(pending);
 
             new Notice(`${pending.length} pending queries in Inbox`);
 
-            // Open first pending note
-            const firstFile = this.app.vault.getAbstractFileByPath(
-                `${inboxFolder}/${pending[0].job_id.substring(0, 8)} - ${pending[0].athlete_name || 'Unknown'}.md`
+            // Open the first query nobody else is working on (opening it claims it)
+            const owner = await this.getClaimOwner();
+            const next = pending.find(job =>
+                !job.claimed_by || job.claimed_by === owner || !this.isClaimActive(job.claim_expires_at)
             );
+            const firstFile = next ? this.app.vault.getAbstractFileByPath(this.inboxNotePath(next)) : null;
             if (firstFile instanceof TFile) {
                 await this.app.workspace.getLeaf().openFile(firstFile);
+            } else if (!next) {
+                new Notice('All pending queries are claimed by other coaches');
             }
         } catch (error) {
             console.error('Error fetching pending:', error);
@@ -2923,18 +4684,12 @@ ${job.query_text}
         const file = view.file;
         if (!file) return;
 
-        const cache = this.app.metadataCache.getFileCache(file);
-        const frontmatter = cache?.frontmatter;
-
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
         if (!frontmatter?.job_id) {
             new Notice('Not a pending query note (no job_id in frontmatter)');
             return;
         }
-
-        const jobId = frontmatter.job_id;
-        const query = frontmatter.query_text || await this.extractQueryFromNote(view);
-
-        if (!query) {
+        if (!frontmatter.query_text && !this.extractQueryFromContent(view.getViewData())) {
             new Notice('Could not find query text');
             return;
         }
@@ -2942,52 +4697,159 @@ ${job.query_text}
         new Notice('Claiming job and generating article...');
 
         try {
-            // Claim the job
-            await this.coachClient.claimJob(jobId);
+            if (await this.generateArticleForNote(file)) {
+                new Notice('Article generated! Edit and then push to athlete.');
+            }
+        } catch (error) {
+            console.error('Generate error:', error);
+            new Notice('Failed to generate article');
+        }
+    }
 
-            // Generate via local Oracle
-            const response = await requestUrl({
-                url: `${this.settings.serverUrl}/api/research`,
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ query, user_id: 'coach' })
-            });
+    /**
+     * Claim a query note's job, generate its article via the local Oracle and
+     * move the note to Drafts. Returns the draft path, or null if another coach
+     * holds the claim. Throws on a bad note or a failed generation.
+     */
+    async generateArticleForNote(file: TFile): Promise<string | null> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!frontmatter?.job_id) {
+            throw new Error('Not a pending query note (no job_id in frontmatter)');
+        }
 
-            const article = response.json.article || response.json.research?.article_raw || '';
-            const sources = response.json.sources || response.json.research?.sources || [];
+        const jobId = String(frontmatter.job_id);
+        const query = frontmatter.query_text || this.extractQueryFromContent(await this.app.vault.read(file));
+        if (!query) {
+            throw new Error('Could not find query text');
+        }
 
-            // Update the note with generated article
-            let content = await this.app.vault.read(file);
+        // Claim the job (stops here if another coach holds it)
+        const claim = await this.claimJobForCoach(jobId, file);
+        if (!claim) return null;
 
-            // Replace placeholder with article
-            const placeholder = '*Run "Coach: Generate article" to populate this section*';
-            if (content.includes(placeholder)) {
-                content = content.replace(placeholder, article);
-            } else {
-                // Append to end
-                content += `\n\n${article}`;
+        // Claim the other jobs this note answers too; give back what we took if one fails
+        const claimed = [jobId];
+        for (const linkedId of this.linkedJobIds(frontmatter)) {
+            let linkedClaim: JobClaim | null;
+            try {
+                linkedClaim = await this.claimJobForCoach(linkedId, this.findInboxNote(linkedId));
+            } catch (error) {
+                await this.releaseClaims(claimed);
+                throw error;
             }
+            if (!linkedClaim) {
+                await this.releaseClaims(claimed);
+                return null;
+            }
+            claimed.push(linkedId);
+        }
+
+        // Generate via local Oracle
+        const response = await requestUrl({
+            url: `${this.settings.serverUrl}/api/research`,
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ query, user_id: 'coach' })
+        });
 
-            // Update frontmatter status
-            content = content.replace('status: pending', 'status: draft');
+        const article = response.json.article || response.json.research?.article_raw || '';
+        const sources = response.json.sources || response.json.research?.sources || [];
 
-            await this.app.vault.modify(file, content);
+        // Update the note with generated article
+        let content = await this.app.vault.read(file);
 
-            // Move to Drafts folder
-            const draftsFolder = `${this.settings.syncFolder}/Drafts`;
-            await this.ensureFolder(draftsFolder);
-            const newPath = `${draftsFolder}/${file.name}`;
-            await this.app.fileManager.renameFile(file, newPath);
+        // Replace placeholder with article
+        const placeholder = '*Run "Coach: Generate article" to populate this section*';
+        if (content.includes(placeholder)) {
+            content = content.replace(placeholder, article);
+        } else {
+            // Append to end
+            content += `\n\n${article}`;
+        }
 
-            new Notice('Article generated! Edit and then push to athlete.');
-        } catch (error) {
-            console.error('Generate error:', error);
-            new Notice('Failed to generate article');
+        // Keep the sources in an editable section above the article (sent on push)
+        const sourcesSection = `## Sources\n\n${this.formatSourcesForEditing(sources)}\n\n`;
+        if (/^## Sources\n/m.test(content)) {
+            content = content.replace(/^## Sources\n[\s\S]*?(?=^## )/m, sourcesSection);
+        } else {
+            content = content.replace('## Generated Article', `${sourcesSection}## Generated Article`);
+        }
+
+        // Update frontmatter status
+        content = content.replace('status: pending', 'status: draft');
+
+        await this.app.vault.modify(file, content);
+
+        // Move to Drafts folder
+        const draftsFolder = `${this.settings.syncFolder}/Drafts`;
+        await this.ensureFolder(draftsFolder);
+        const newPath = `${draftsFolder}/${file.name}`;
+        await this.app.fileManager.renameFile(file, newPath);
+        return newPath;
+    }
+
+    /**
+     * One source per line so coaches can edit, remove or add citations:
+     * `- video_id: abc123 | instructor: Name | timestamp: 12:34 | title: Title`
+     */
+    formatSourcesForEditing(sources: ArticleSource[]): string {
+        if (sources.length === 0) {
+            return '*No sources. Add one per line: `- video_id: ... | instructor: ... | timestamp: ... | title: ...`*';
+        }
+
+        return sources.map(source => {
+            const fields = [
+                `video_id: ${source.video_id || ''}`,
+                `instructor: ${source.instructor || ''}`,
+                `timestamp: ${this.formatSourceTimestamp(source)}`,
+                `title: ${source.title || source.video_title || source.video_name || ''}`
+            ];
+            return `- ${fields.map(f => f.replace(/\s*\n\s*/g, ' ')).join(' | ')}`;
+        }).join('\n');
+    }
+
+    // Read back the "## Sources" section written by formatSourcesForEditing
+    parseSourcesFromNote(content: string): ArticleSource[] {
+        const section = content.match(/^## Sources\n([\s\S]*?)(?=^## |(?![\s\S]))/m);
+        if (!section) return [];
+
+        const sources: ArticleSource[] = [];
+        for (const line of section[1].split('\n')) {
+            if (!/^\s*- \w+:/.test(line)) continue;
+
+            const source: ArticleSource = {};
+            for (const part of line.replace(/^\s*- /, '').split(' | ')) {
+                const match = part.match(/^(\w+):\s*(.*)$/);
+                if (match && match[2].trim()) {
+                    source[match[1]] = match[2].trim();
+                }
+            }
+
+            if (source.video_id || source.title) {
+                const seconds = this.parseTimestampSeconds(source.timestamp);
+                if (seconds !== null) source.timestamp_seconds = seconds;
+                sources.push(source);
+            }
         }
+        return sources;
+    }
+
+    formatSourceTimestamp(source: ArticleSource): string {
+        if (source.timestamp) return source.timestamp;
+        if (typeof source.timestamp_seconds !== 'number') return '';
+        const total = Math.floor(source.timestamp_seconds);
+        const hours = Math.floor(total / 3600);
+        const mins = Math.floor((total % 3600) / 60);
+        const secs = (total % 60).toString().padStart(2, '0');
+        return hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}` : `${mins}:${secs}`;
     }
 
-    async extractQueryFromNote(view: MarkdownView): Promise<string | null> {
-        const content = view.getViewData();
+    parseTimestampSeconds(timestamp?: string): number | null {
+        if (!timestamp || !/^\d+(:\d+){0,2}$/.test(timestamp)) return null;
+        return timestamp.split(':').reduce((total, part) => total * 60 + parseInt(part), 0);
+    }
+
+    extractQueryFromContent(content: string): string | null {
         const match = content.match(/## Question\n\n([\s\S]*?)(?=\n---|\n##|$)/);
         return match ? match[1].trim() : null;
     }
@@ -3071,11 +4933,12 @@ ${job.query_text}
                 .replace(/> \[!warning\][\s\S]*?(?=\n## |\n# )/g, '')
                 .replace(/## Listen to Review[\s\S]*?(?=\n## |\n# )/g, '')
                 .replace(/## Deep Dive[\s\S]*?(?=\n## |$)/g, '')
+                .replace(/## Discussion[\s\S]*$/g, '')
                 .replace(/## Links[\s\S]*$/g, '')
                 .trim();
         } else {
             // For query notes, extract from "## Generated Article" section
-            const articleMatch = content.match(/## Generated Article\n\n([\s\S]*?)$/);
+            const articleMatch = content.match(/## Generated Article\n\n([\s\S]*?)(?=\n## Discussion\n|$)/);
             article = articleMatch ? articleMatch[1].trim() : '';
         }
 
@@ -3084,38 +4947,38 @@ ${job.query_text}
             return;
         }
 
+        // Sources travel separately; don't duplicate them in the article body
+        if (fileType === 'training-review') {
+            article = article.replace(/^## Sources\n[\s\S]*?(?=^## |(?![\s\S]))/m, '').trim();
+        }
+
         console.log('[Flipmode] Article length:', article.length);
 
         new Notice('Pushing to athlete...');
 
         try {
-            // First claim the job (moves from pending → processing)
-            try {
-                await this.coachClient.claimJob(jobId);
-                console.log('[Flipmode] Job claimed');
-            } catch (claimErr) {
-                // May already be claimed, continue anyway
-                console.log('[Flipmode] Claim skipped (may already be processing):', claimErr);
-            }
+            // First make sure we hold the claim (moves from pending → processing)
+            const claim = await this.claimJobForCoach(jobId);
+            if (!claim) return;
+            console.log('[Flipmode] Job claimed until', claim.claim_expires_at);
 
-            // Then complete it
-            const success = await this.coachClient.completeJob(jobId, article, []);
+            // Then complete it, with any sources kept in the note
+            const sources = this.parseSourcesFromNote(content);
+            const linkedJobs = this.linkedJobIds(this.app.metadataCache.getFileCache(file)?.frontmatter);
+            const success = await this.coachClient.completeJob(jobId, article, sources);
 
             if (success) {
-                // Update status in frontmatter
-                let updatedContent = content.replace('status: draft', 'status: synced');
-                updatedContent = updatedContent.replace('status: pending', 'status: synced');
-                await this.app.vault.modify(file, updatedContent);
-
-                // Move to Sent folder with "synced" in filename
-                const sentFolder = `${this.settings.syncFolder}/Sent`;
-                await this.ensureFolder(sentFolder);
+                await this.archiveAnsweredNote(file, content);
 
-                // Rename to show synced status, preserving original name structure
-                const baseName = file.basename.replace(/ \[synced\]$/, ''); // Remove if already there
-                const newFileName = `${baseName} [synced].md`;
-                const newPath = `${sentFolder}/${newFileName}`;
-                await this.app.fileManager.renameFile(file, newPath);
+                // A combined note also answers the primary job's own note and every linked job
+                if (fileType === 'combined-query') {
+                    const primaryNote = this.findInboxNote(jobId);
+                    if (primaryNote) await this.archiveAnsweredNote(primaryNote);
+                }
+                const failedLinked = await this.completeLinkedJobs(linkedJobs, article, sources);
+                if (failedLinked.length > 0) {
+                    new Notice(`Could not push to ${failedLinked.length} of ${linkedJobs.length} linked queries - check their Inbox notes`);
+                }
 
                 // Also update the source query note status
                 if (sourceFile) {
@@ -3128,6 +4991,8 @@ ${job.query_text}
                 }
 
                 new Notice(`Pushed to ${athleteName || 'athlete'}!`);
+                this.refreshSidebar('inbox');
+                this.refreshCoachTriage();
             } else {
                 new Notice('Failed to push - check connection');
             }
@@ -3137,3654 +5002,5969 @@ ${job.query_text}
         }
     }
 
-    async coachPushConcepts() {
-        if (!this.coachClient) {
-            new Notice('Coach mode not configured');
-            return;
-        }
-
-        // Read all concept files from concepts folder
-        const conceptsFolder = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
-        const conceptFiles = this.app.vault.getMarkdownFiles().filter(f =>
-            f.path.startsWith(conceptsFolder) && !f.basename.startsWith('_')
-        );
-
-        if (conceptFiles.length === 0) {
-            new Notice('No concepts found. Use "Explode to Concept Graph" first.');
-            return;
-        }
-
-        // Parse concepts from files
-        const concepts: any[] = [];
-        for (const file of conceptFiles) {
-            const content = await this.app.vault.read(file);
-            const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
-            if (!fmMatch) continue;
-
-            const fm = fmMatch[1];
-            const name = file.basename;
-            const category = fm.match(/tags:.*?(\w+)\]$/m)?.[1] || 'technique';
-            const parent = fm.match(/parent:\s*"([^"]+)"/)?.[1] || null;
-
-            // Extract summary
-            const summaryMatch = content.match(/## Summary\n\n([\s\S]*?)(?=\n## |$)/);
-            const summary = summaryMatch ? summaryMatch[1].trim() : '';
-
-            // Extract linked concepts
-            const prereqMatch = content.match(/## Prerequisites\n\n([\s\S]*?)(?=\n## |$)/);
-            const leadsToMatch = content.match(/## Leads To\n\n([\s\S]*?)(?=\n## |$)/);
-            const countersMatch = content.match(/## Counters\n\n([\s\S]*?)(?=\n## |$)/);
-            const relatedMatch = content.match(/## Related Concepts\n\n([\s\S]*?)(?=\n## |$)/);
-
-            const extractLinks = (text: string | undefined): string[] => {
-                if (!text) return [];
-                const links = text.match(/\[\[([^\]]+)\]\]/g) || [];
-                return links.map(l => l.replace(/\[\[|\]\]/g, ''));
-            };
+    getCoachName(): string {
+        return this.settings.coachName.trim() || 'Coach';
+    }
 
-            concepts.push({
-                name,
-                category,
-                parent,
-                summary,
-                prerequisites: extractLinks(prereqMatch?.[1]),
-                leads_to: extractLinks(leadsToMatch?.[1]),
-                counters: extractLinks(countersMatch?.[1]),
-                related: extractLinks(relatedMatch?.[1])
-            });
+    /**
+     * Who claims are recorded for: the coach's name plus a short hash of their
+     * token. Coaches who share a name (or never set one) stay distinct, and the
+     * same coach on another device is still recognized as the owner.
+     */
+    async getClaimOwner(): Promise<string> {
+        const name = this.getCoachName();
+        const token = this.settings.coachToken;
+        if (!token) return name;
+
+        const key = `${name}\n${token}`;
+        if (this.claimOwnerCache?.key !== key) {
+            const hash = await hashBytes(new TextEncoder().encode(token).buffer as ArrayBuffer);
+            this.claimOwnerCache = { key, owner: `${name} (${hash.substring(0, 6)})` };
         }
+        return this.claimOwnerCache.owner;
+    }
 
-        if (concepts.length === 0) {
-            new Notice('No valid concepts found');
-            return;
-        }
+    // The identity a listed coach holds claims under, so it compares with getClaimOwner
+    coachClaimKey(coach: Coach): string {
+        return coach.claim_owner || coach.name;
+    }
 
-        // Ask which athlete to push to
-        new CoachPushConceptsModal(this.app, this, concepts).open();
+    isClaimActive(expiresAt: string | null | undefined): boolean {
+        if (!expiresAt) return false;
+        const expires = new Date(expiresAt).getTime();
+        return !isNaN(expires) && expires > Date.now();
     }
 
-    async coachAddAthlete() {
-        if (!this.coachClient) {
-            new Notice('Coach mode not configured');
-            return;
+    formatClaimLine(claimedBy: string | null | undefined, expiresAt: string | null | undefined): string {
+        if (!claimedBy || !this.isClaimActive(expiresAt)) {
+            return '**Claimed by:** Unclaimed';
         }
-
-        new CoachAddAthleteModal(this.app, this).open();
+        return `**Claimed by:** ${claimedBy} (until ${new Date(expiresAt!).toLocaleTimeString()})`;
     }
 
-    async ensureFolder(path: string) {
-        if (!(await this.app.vault.adapter.exists(path))) {
-            await this.app.vault.createFolder(path);
-        }
+    inboxNotePath(job: Job): string {
+        return `${this.settings.syncFolder}/Inbox/${job.job_id.substring(0, 8)} - ${job.athlete_name || 'Unknown'}.md`;
     }
 
-    async saveNote(path: string, content: string) {
-        const existing = this.app.vault.getAbstractFileByPath(path);
-        if (existing instanceof TFile) {
-            await this.app.vault.modify(existing, content);
-        } else {
-            await this.app.vault.create(path, content);
+    // A job's own query note (not a combined note answering it), wherever it has moved
+    findInboxNote(jobId: string): TFile | null {
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            if (fm?.type === 'pending-query' && String(fm.job_id) === jobId) return file;
         }
+        return null;
     }
 
-    // Remote mode methods
-    initRemoteMode() {
-        this.queueClient = new RemoteQueueClient(
-            this.settings.queueServiceUrl,
-            this.settings.athleteToken
-        );
-
-        // Start polling for results and canvas updates
-        this.startResultPolling();
-        this.startCanvasPolling();
-
-        // Update status bar
-        this.updateStatusBar('Remote Mode');
+    // Extra jobs a combined note answers besides its primary job_id
+    linkedJobIds(frontmatter: any): string[] {
+        const linked = frontmatter?.linked_jobs;
+        return Array.isArray(linked) ? linked.map(String) : [];
     }
 
-    // Track last canvas sync time
-    private lastCanvasSync: string | null = null;
-    private canvasPollIntervalId: number | null = null;
-
-    startCanvasPolling() {
-        if (this.canvasPollIntervalId) {
-            window.clearInterval(this.canvasPollIntervalId);
-        }
+    /**
+     * One note answering several athletes' queries. The first job is primary
+     * (job_id); the rest ride along in linked_jobs and are completed on push.
+     */
+    async createCombinedQueryNote(jobs: Job[]): Promise<TFile> {
+        const [primary, ...linked] = jobs;
+        const athletes = [...new Set(jobs.map(j => j.athlete_name || 'Unknown'))];
+        const combinedQuery = [
+            `Answer these related questions from ${jobs.length} athletes in one article:`,
+            ...jobs.map(j => `- ${j.query_text.replace(/\s+/g, ' ').trim()}`)
+        ].join('\n');
+        const submitted = jobs.map(j => j.submitted_at).sort()[0];
+
+        const questions = jobs.map(j => `### ${j.athlete_name || 'Unknown'} (${j.submitted_at})\n\n${j.query_text}`).join('\n\n');
+        const content = `---
+type: combined-query
+job_id: ${primary.job_id}
+linked_jobs: ${JSON.stringify(linked.map(j => j.job_id))}
+athlete_name: ${athletes.join(', ')}
+submitted: ${submitted}
+status: pending
+claimed_by:
+claim_expires:
+query_text: ${JSON.stringify(combinedQuery)}
+---
 
-        // Poll every 30 seconds for canvas updates
-        this.canvasPollIntervalId = window.setInterval(
-            () => this.pollCanvasUpdates(),
-            30000
-        );
+# Combined query (${jobs.length} athletes)
 
-        // Do an initial check
-        this.pollCanvasUpdates();
-    }
+**Submitted:** ${submitted}
+${this.formatClaimLine(null, null)}
 
-    async pollCanvasUpdates() {
-        if (!this.queueClient) return;
+## Athlete Questions
 
-        try {
-            const canvases = await this.queueClient.getCanvases(this.lastCanvasSync || undefined);
+${questions}
 
-            if (Object.keys(canvases).length === 0) return;
+---
 
-            // Sync each updated canvas to the vault
-            for (const [canvasName, canvasInfo] of Object.entries(canvases)) {
-                await this.syncCanvasToVault(canvasName, canvasInfo.data);
-            }
+## Actions
 
-            // Update last sync time
-            this.lastCanvasSync = new Date().toISOString();
+1. Run command: **Coach: Generate article for current query**
+2. Edit the generated article and its sources below
+3. Run command: **Coach: Push article to athlete** (sends it to every athlete above)
 
-            new Notice(`Synced ${Object.keys(canvases).length} canvas update(s) from coach`);
-        } catch (error) {
-            console.error('Canvas poll error:', error);
-        }
-    }
+---
 
-    async syncCanvasToVault(canvasName: string, canvasData: any) {
-        // Save to Flipmode/Coach folder
-        const coachFolder = `${this.settings.syncFolder}/Coach`;
-        await this.ensureFolder(coachFolder);
+## Generated Article
 
-        const canvasPath = `${coachFolder}/${canvasName}.canvas`;
+*Run "Coach: Generate article" to populate this section*
 
-        // Convert canvas data back to Obsidian canvas format
-        const canvasContent = JSON.stringify({
-            nodes: canvasData.nodes || [],
-            edges: canvasData.edges || []
-        }, null, 2);
+`;
 
-        // Check if file exists
-        const existingFile = this.app.vault.getAbstractFileByPath(canvasPath);
+        const inboxFolder = `${this.settings.syncFolder}/Inbox`;
+        await this.ensureFolder(inboxFolder);
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
+        return await this.app.vault.create(`${inboxFolder}/Combined ${stamp} - ${athletes.length} athletes.md`, content);
+    }
 
-        if (existingFile && existingFile instanceof TFile) {
-            // Update existing canvas
-            await this.app.vault.modify(existingFile, canvasContent);
-        } else {
-            // Create new canvas
-            await this.app.vault.create(canvasPath, canvasContent);
+    // Mark a query note answered and move it to Sent
+    async archiveAnsweredNote(file: TFile, content?: string) {
+        let updatedContent = (content ?? await this.app.vault.read(file))
+            .replace('status: draft', 'status: synced')
+            .replace('status: pending', 'status: synced');
+        if (!/^answered:/m.test(updatedContent)) {
+            updatedContent = updatedContent.replace(/^status: synced$/m, `status: synced\nanswered: ${new Date().toISOString()}`);
         }
+        await this.app.vault.modify(file, updatedContent);
 
-        console.log(`[Canvas Sync] Saved ${canvasName} to ${canvasPath}`);
+        // Move to Sent folder with "synced" in filename
+        const sentFolder = `${this.settings.syncFolder}/Sent`;
+        await this.ensureFolder(sentFolder);
+
+        // Rename to show synced status, preserving original name structure
+        const baseName = file.basename.replace(/ \[synced\]$/, ''); // Remove if already there
+        await this.app.fileManager.renameFile(file, `${sentFolder}/${baseName} [synced].md`);
     }
 
-    startResultPolling() {
-        if (this.pollIntervalId) {
-            window.clearInterval(this.pollIntervalId);
-        }
-
-        this.pollIntervalId = window.setInterval(
-            () => this.pollPendingJobs(),
-            this.settings.pollInterval * 1000
-        );
-    }
-
-    async pollPendingJobs() {
-        if (!this.queueClient || this.pendingJobs.size === 0) return;
-
-        for (const [jobId, job] of this.pendingJobs.entries()) {
-            if (job.status === 'complete' || job.status === 'error') continue;
-
+    // Complete the extra jobs of a combined note with the same article; returns IDs that failed
+    async completeLinkedJobs(jobIds: string[], article: string, sources: ArticleSource[]): Promise<string[]> {
+        const failed: string[] = [];
+        for (const jobId of jobIds) {
             try {
-                const status = await this.queueClient.checkStatus(jobId);
-
-                if (status.status === 'complete') {
-                    // Fetch full result
-                    const result = await this.queueClient.getResult(jobId);
-
-                    if (result.error) {
-                        job.status = 'error';
-                        new Notice(`Query failed: ${result.error}`);
-                    } else {
-                        job.status = 'complete';
-
-                        // Save to vault
-                        const filename = await this.saveArticleToVault(job.query, result.article);
-                        new Notice(`Research ready! Saved to ${filename}`);
-
-                        // Remove from pending
-                        this.pendingJobs.delete(jobId);
-                    }
-                } else if (status.status === 'processing') {
-                    job.status = 'processing';
-                } else if (status.status === 'error') {
-                    job.status = 'error';
-                    this.pendingJobs.delete(jobId);
+                const note = this.findInboxNote(jobId);
+                const claim = await this.claimJobForCoach(jobId, note);
+                if (!claim || !(await this.coachClient!.completeJob(jobId, article, sources))) {
+                    failed.push(jobId);
+                    continue;
                 }
+                if (note) await this.archiveAnsweredNote(note);
             } catch (error) {
-                console.error(`Error polling job ${jobId}:`, error);
+                console.error(`[Flipmode] Could not complete linked job ${jobId}:`, error);
+                failed.push(jobId);
             }
         }
+        return failed;
     }
 
-    async submitToCoach(query: string, therapyContext?: any): Promise<string | null> {
-        if (!this.queueClient) {
-            new Notice('Remote mode not configured. Check settings.');
-            return null;
-        }
-
-        try {
-            const { jobId } = await this.queueClient.submitQuery(query, therapyContext);
-
-            // Track the job
-            this.pendingJobs.set(jobId, {
-                jobId,
-                query,
-                submittedAt: new Date(),
-                status: 'pending'
-            });
-
-            // Create pending note in vault
-            await this.createPendingJobNote(jobId, query);
+    /**
+     * Write Inbox notes for pending jobs. Existing notes keep their edits but
+     * get fresh claim info; the _Inbox index lists every query and its holder.
+     */
+    async syncInboxNotes(pending: Job[]) {
+        const inboxFolder = `${this.settings.syncFolder}/Inbox`;
+        await this.ensureFolder(inboxFolder);
+
+        for (const job of pending) {
+            const filename = this.inboxNotePath(job);
+            const existing = this.app.vault.getAbstractFileByPath(filename);
+
+            if (existing instanceof TFile) {
+                await this.updateInboxClaim(existing, {
+                    job_id: job.job_id,
+                    claimed_by: job.claimed_by || null,
+                    claim_expires_at: job.claim_expires_at || null
+                });
+                continue;
+            }
 
-            new Notice('Query sent to Oracle! You\'ll be notified when ready.');
-            return jobId;
-        } catch (error) {
-            console.error('Failed to submit query:', error);
-            new Notice('Failed to send query to Oracle. Check your connection.');
-            return null;
+            const content = this.createPendingQueryNote(job);
+            await this.saveNote(filename, content);
         }
-    }
 
-    async createPendingJobNote(jobId: string, query: string) {
-        const date = new Date().toISOString().split('T')[0];
-        const time = new Date().toLocaleTimeString();
-        const cleanQuery = query.substring(0, 40).replace(/[\\/:*?"<>|]/g, '-');
-        const folder = `${this.settings.syncFolder}/Pending`;
+        await this.writeInboxIndex(pending);
+        this.inboxJobsCache = pending;
+        this.refreshSidebar('inbox', true);
+    }
 
-        // Ensure folder exists
-        const folderObj = this.app.vault.getAbstractFileByPath(folder);
-        if (!folderObj) {
-            await this.app.vault.createFolder(folder);
-        }
+    async writeInboxIndex(pending: Job[]) {
+        const rows = pending.map(job => {
+            const noteName = this.inboxNotePath(job).split('/').pop()!.replace(/\.md$/, '');
+            const query = (job.query_text || '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').substring(0, 60);
+            const claimed = job.claimed_by && this.isClaimActive(job.claim_expires_at)
+                ? `${job.claimed_by} (until ${new Date(job.claim_expires_at!).toLocaleTimeString()})`
+                : '—';
+            return `| [[${noteName}\\|${query || 'Query'}]] | ${job.athlete_name || 'Unknown'} | ${(job.submitted_at || '').split('T')[0]} | ${claimed} |`;
+        });
 
-        const filename = `${folder}/${date} - ${cleanQuery}.md`;
         const content = `---
-type: pending-query
-job_id: ${jobId}
-submitted: ${date} ${time}
-status: pending
+type: inbox-index
+updated: ${new Date().toISOString()}
 ---
 
-# Pending Query
-
-**Submitted:** ${date} ${time}
-
-**Query:** ${query}
-
----
+# Inbox
 
-*Waiting for Oracle to process...*
+${pending.length} pending quer${pending.length === 1 ? 'y' : 'ies'}. Opening a query claims it for ${this.settings.claimTimeoutMinutes} minutes.
 
-This note will be updated when results are ready.
+| Query | Athlete | Submitted | Claimed by |
+|-------|---------|-----------|------------|
+${rows.join('\n')}
 `;
 
-        await this.app.vault.create(filename, content);
+        await this.saveNote(`${this.settings.syncFolder}/Inbox/_Inbox.md`, content);
     }
 
-    showPendingJobsModal() {
-        new PendingJobsModal(this.app, this).open();
-    }
+    // Rewrite claim frontmatter and the "Claimed by" line of a query note
+    async updateInboxClaim(file: TFile, claim: JobClaim) {
+        let content = await this.app.vault.read(file);
+        const claimedBy = claim.claimed_by || '';
+        const expires = claim.claim_expires_at || '';
 
-    async connectWithDiscord() {
-        if (!this.settings.queueServiceUrl) {
-            new Notice('Configure Queue Service URL in settings first');
-            return;
+        const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+        if (fmMatch) {
+            let fm = fmMatch[1];
+            fm = /^claimed_by:.*$/m.test(fm)
+                ? fm.replace(/^claimed_by:.*$/m, `claimed_by: ${claimedBy}`)
+                : `${fm}\nclaimed_by: ${claimedBy}`;
+            fm = /^claim_expires:.*$/m.test(fm)
+                ? fm.replace(/^claim_expires:.*$/m, `claim_expires: ${expires}`)
+                : `${fm}\nclaim_expires: ${expires}`;
+            content = content.replace(fmMatch[1], fm);
         }
 
-        // Open Discord OAuth URL in browser
-        const authUrl = `${this.settings.queueServiceUrl}/auth/discord`;
-        window.open(authUrl, '_blank');
+        const claimLine = this.formatClaimLine(claim.claimed_by, claim.claim_expires_at);
+        if (/^\*\*Claimed by:\*\*.*$/m.test(content)) {
+            content = content.replace(/^\*\*Claimed by:\*\*.*$/m, claimLine);
+        } else {
+            content = content.replace(/^(\*\*Submitted:\*\*.*)$/m, `$1\n${claimLine}`);
+        }
 
-        new Notice('Complete Discord login in browser, then paste your token in settings');
+        await this.app.vault.modify(file, content);
     }
 
-    async syncGraphToCoach() {
-        if (!this.queueClient) return;
+    /**
+     * Claim a job for this coach before working on it.
+     * Returns null (after telling the coach who holds it) if another coach has it.
+     */
+    async claimJobForCoach(jobId: string, file?: TFile | null): Promise<JobClaim | null> {
+        if (!this.coachClient) return null;
 
         try {
-            const files = this.app.vault.getMarkdownFiles();
-            const flipmodeFiles = files.filter(f => f.path.startsWith(this.settings.syncFolder));
-
-            const graphData = {
-                sessions: [] as any[],
-                queries: [] as any[],
-                topics: [] as string[]
-            };
-
-            for (const file of flipmodeFiles) {
-                const cache = this.app.metadataCache.getFileCache(file);
-                const fm = cache?.frontmatter || {};
-                const type = fm.type;
-
-                if (type === 'training-session') {
-                    graphData.sessions.push({
-                        date: fm.date,
-                        tags: fm.tags || []
-                    });
-                }
-
-                if (type === 'research' && fm.topic) {
-                    graphData.queries.push({
-                        topic: fm.topic,
-                        date: fm.date
-                    });
-                    graphData.topics.push(fm.topic);
-                }
-
-                if (type === 'pending-query') {
-                    graphData.queries.push({
-                        topic: fm.query || file.basename,
-                        date: fm.submitted,
-                        pending: true
-                    });
-                }
+            const claim = await this.coachClient.claimJob(jobId, await this.getClaimOwner(), this.settings.claimTimeoutMinutes);
+            if (file) await this.updateInboxClaim(file, claim);
+            return claim;
+        } catch (error: any) {
+            if (error instanceof ApiError && error.status === 409) {
+                const claim: JobClaim = {
+                    job_id: jobId,
+                    claimed_by: error.body?.claimed_by || 'another coach',
+                    claim_expires_at: error.body?.claim_expires_at || null
+                };
+                if (file) await this.updateInboxClaim(file, claim);
+                const until = claim.claim_expires_at ? ` until ${new Date(claim.claim_expires_at).toLocaleTimeString()}` : '';
+                new Notice(`Already claimed by ${claim.claimed_by}${until}`);
+                return null;
             }
+            throw error;
+        }
+    }
 
-            // Dedupe topics
-            graphData.topics = [...new Set(graphData.topics)];
-
-            await this.queueClient.syncGraph(graphData);
-            new Notice(`Synced: ${graphData.sessions.length} sessions, ${graphData.queries.length} queries`);
-        } catch (error) {
-            console.error('Graph sync error:', error);
-            new Notice('Failed to sync graph');
+    // Best effort: a claim we can't release still expires on its own
+    async releaseClaims(jobIds: string[]) {
+        if (!this.coachClient) return;
+        for (const jobId of jobIds) {
+            try {
+                const claim = await this.coachClient.releaseJob(jobId);
+                const note = this.findInboxNote(jobId);
+                if (note) await this.updateInboxClaim(note, claim);
+            } catch (error) {
+                console.error(`[Flipmode] Could not release claim on ${jobId}:`, error);
+            }
         }
     }
 
-    onunload() {
-        if (this.syncIntervalId) {
-            window.clearInterval(this.syncIntervalId);
+    getQueryJobId(view: MarkdownView): string | null {
+        if (!view.file) return null;
+        const jobId = this.app.metadataCache.getFileCache(view.file)?.frontmatter?.job_id;
+        return jobId ? String(jobId) : null;
+    }
+
+    async coachReleaseClaim(view: MarkdownView) {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
         }
-        if (this.pollIntervalId) {
-            window.clearInterval(this.pollIntervalId);
+
+        const jobId = this.getQueryJobId(view);
+        if (!jobId || !view.file) {
+            new Notice('Not a pending query note (no job_id in frontmatter)');
+            return;
         }
-        if (this.canvasPollIntervalId) {
-            window.clearInterval(this.canvasPollIntervalId);
+
+        try {
+            const claim = await this.coachClient.releaseJob(jobId);
+            await this.updateInboxClaim(view.file, claim);
+            new Notice('Claim released');
+        } catch (error: any) {
+            console.error('Release error:', error);
+            new Notice(`Failed to release claim: ${error.message}`);
         }
     }
 
-    async syncFromCoach() {
-        if (!this.queueClient) {
-            new Notice('Remote mode not configured - check settings');
+    async coachReassignClaim(view: MarkdownView) {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
             return;
         }
 
-        new Notice('Checking for completed research...');
+        const file = view.file;
+        const jobId = this.getQueryJobId(view);
+        if (!jobId || !file) {
+            new Notice('Not a pending query note (no job_id in frontmatter)');
+            return;
+        }
 
         try {
-            const jobs = await this.queueClient.listJobs();
-            const completedJobs = jobs.filter((j: any) => j.status === 'complete');
+            const owner = await this.getClaimOwner();
+            const coaches = (await this.coachClient.getCoaches())
+                .filter(c => this.coachClaimKey(c) !== owner);
 
-            if (completedJobs.length === 0) {
-                new Notice('No completed research to sync');
+            if (coaches.length === 0) {
+                new Notice('No other coaches found');
                 return;
             }
 
-            let synced = 0;
-            for (const job of completedJobs) {
-                // Check if already saved (look for file with job_id in frontmatter)
-                const existingFile = this.findFileByJobId(job.job_id);
-                if (existingFile) {
-                    console.log('[Flipmode] Already synced:', job.job_id);
-                    continue;
+            new CoachSelectModal(this.app, coaches, async (coach) => {
+                try {
+                    const claim = await this.coachClient!.reassignJob(jobId, this.coachClaimKey(coach), this.settings.claimTimeoutMinutes);
+                    await this.updateInboxClaim(file, claim);
+                    new Notice(`Reassigned to ${coach.name}`);
+                } catch (error: any) {
+                    new Notice(`Failed to reassign: ${error.message}`);
                 }
+            }).open();
+        } catch (error: any) {
+            new Notice(`Failed to get coaches: ${error.message}`);
+        }
+    }
 
-                // Fetch full result
-                const result = await this.queueClient.getResult(job.job_id);
-                if (result.article) {
-                    const filename = await this.saveCoachArticleToVault(job, result);
-                    console.log('[Flipmode] Synced:', filename);
-                    synced++;
-                }
-            }
+    async coachPushConcepts() {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
+        }
 
-            // Also sync concepts
-            let conceptsSynced = 0;
-            try {
-                const concepts = await this.queueClient.getConcepts();
-                if (concepts.length > 0) {
-                    conceptsSynced = await this.syncConceptsToVault(concepts);
-                }
-            } catch (err) {
-                console.log('[Flipmode] No concepts to sync or error:', err);
-            }
+        // Read all concept files from concepts folder
+        const conceptsFolder = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
+        const conceptFiles = this.app.vault.getMarkdownFiles().filter(f =>
+            f.path.startsWith(conceptsFolder) && !f.basename.startsWith('_')
+        );
 
-            if (synced > 0 || conceptsSynced > 0) {
-                const msg = [];
-                if (synced > 0) msg.push(`${synced} research article(s)`);
-                if (conceptsSynced > 0) msg.push(`${conceptsSynced} concept(s)`);
-                new Notice(`Synced ${msg.join(' and ')} from Oracle!`);
-            } else {
-                new Notice('All research already synced');
-            }
-        } catch (error) {
-            console.error('[Flipmode] Sync error:', error);
-            new Notice('Failed to sync from Oracle');
+        if (conceptFiles.length === 0) {
+            new Notice('No concepts found. Use "Explode to Concept Graph" first.');
+            return;
         }
-    }
 
-    async syncConceptsToVault(concepts: any[]): Promise<number> {
-        const folder = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
-        await this.ensureFolder(folder);
+        // Parse concepts from files
+        const concepts: Concept[] = [];
+        for (const file of conceptFiles) {
+            const concept = this.parseConceptNote(file, await this.app.vault.read(file));
+            if (concept) concepts.push(concept);
+        }
 
-        let created = 0;
-        for (const concept of concepts) {
-            const conceptName = concept.name.replace(/[^\w\s-]/g, '').trim();
-            const conceptPath = `${folder}/${conceptName}.md`;
+        if (concepts.length === 0) {
+            new Notice('No valid concepts found');
+            return;
+        }
 
-            // Check if exists
-            const existing = this.app.vault.getAbstractFileByPath(conceptPath);
-            if (existing) continue;
+        // Variant spellings of one concept go out as a single concept
+        const byName = new Map<string, Concept>();
+        for (const concept of concepts.map(c => this.canonicalizeConcept(c))) {
+            const existing = byName.get(concept.name);
+            if (!existing) {
+                byName.set(concept.name, concept);
+                continue;
+            }
+            const merge = (a?: string[], b?: string[]) => [...new Set([...(a || []), ...(b || [])])];
+            byName.set(concept.name, {
+                ...existing,
+                parent: existing.parent || concept.parent,
+                summary: existing.summary || concept.summary,
+                prerequisites: merge(existing.prerequisites, concept.prerequisites),
+                leads_to: merge(existing.leads_to, concept.leads_to),
+                counters: merge(existing.counters, concept.counters),
+                related: merge(existing.related, concept.related)
+            });
+        }
 
-            // Build linked markdown
-            const parentLink = concept.parent ? `[[${concept.parent}]]` : 'Root concept';
-            const prereqLinks = (concept.prerequisites || []).map((p: string) => `- [[${p}]]`).join('\n') || '- None';
-            const leadsToLinks = (concept.leads_to || []).map((l: string) => `- [[${l}]]`).join('\n') || '- None';
-            const counterLinks = (concept.counters || []).map((c: string) => `- [[${c}]]`).join('\n') || '- None';
-            const relatedLinks = (concept.related || []).map((r: string) => `- [[${r}]]`).join('\n') || '- None';
+        // Ask which athlete to push to
+        new CoachPushConceptsModal(this.app, this, [...byName.values()]).open();
+    }
 
-            const content = `---
-type: concept
-parent: "${concept.parent || ''}"
-tags: [concept, grappling, ${concept.category?.toLowerCase() || 'technique'}]
----
+    // Concept from a concept note's frontmatter and link sections (null without frontmatter)
+    parseConceptNote(file: TFile, content: string): Concept | null {
+        const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+        if (!fmMatch) return null;
+
+        const fm = fmMatch[1];
+        const name = file.basename;
+        const category = fm.match(/tags:.*?(\w+)\]$/m)?.[1] || 'technique';
+        const parent = fm.match(/parent:\s*"([^"]+)"/)?.[1] || null;
+
+        // Extract summary
+        const summaryMatch = content.match(/## Summary\n\n([\s\S]*?)(?=\n## |$)/);
+        const summary = summaryMatch ? summaryMatch[1].trim() : '';
+
+        // Extract linked concepts
+        const prereqMatch = content.match(/## Prerequisites\n\n([\s\S]*?)(?=\n## |$)/);
+        const leadsToMatch = content.match(/## Leads To\n\n([\s\S]*?)(?=\n## |$)/);
+        const countersMatch = content.match(/## Counters\n\n([\s\S]*?)(?=\n## |$)/);
+        const relatedMatch = content.match(/## Related Concepts\n\n([\s\S]*?)(?=\n## |$)/);
+
+        const extractLinks = (text: string | undefined): string[] => {
+            if (!text) return [];
+            const links = text.match(/\[\[([^\]]+)\]\]/g) || [];
+            return links.map(l => l.replace(/\[\[|\]\]/g, ''));
+        };
 
-# ${concept.name}
+        return {
+            name,
+            category,
+            parent,
+            summary,
+            prerequisites: extractLinks(prereqMatch?.[1]),
+            leads_to: extractLinks(leadsToMatch?.[1]),
+            counters: extractLinks(countersMatch?.[1]),
+            related: extractLinks(relatedMatch?.[1])
+        };
+    }
 
-**Category:** ${concept.category || 'Technique'}
-**Parent:** ${parentLink}
+    /**
+     * Link more pending queries to the query note or draft in view. On push the
+     * same article completes every linked job (see completeLinkedJobs).
+     */
+    async coachLinkQueries(view: MarkdownView) {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
+        }
 
-## Summary
+        const file = view.file;
+        const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : null;
+        if (!file || !frontmatter?.job_id) {
+            new Notice('Not a pending query note (no job_id in frontmatter)');
+            return;
+        }
 
-${concept.summary || 'No summary available.'}
+        const primaryId = String(frontmatter.job_id);
+        const alreadyLinked = this.linkedJobIds(frontmatter);
 
-## Prerequisites
+        try {
+            const pending = await this.coachClient.getPendingJobs();
+            const candidates = pending.filter(j => j.job_id !== primaryId && !alreadyLinked.includes(j.job_id));
+            if (candidates.length === 0) {
+                new Notice('No other pending queries to link');
+                return;
+            }
 
-${prereqLinks}
+            const query = frontmatter.query_text || this.extractQueryFromContent(await this.app.vault.read(file)) || '';
+            new LinkQueriesModal(this.app, query, candidates, async (jobs) => {
+                try {
+                    const claimed: string[] = [];
+                    for (const job of jobs) {
+                        if (await this.claimJobForCoach(job.job_id, this.findInboxNote(job.job_id))) {
+                            claimed.push(job.job_id);
+                        }
+                    }
+                    if (claimed.length === 0) return;
+
+                    const linked = [...alreadyLinked, ...claimed];
+                    let content = await this.app.vault.read(file);
+                    const fmMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+                    if (fmMatch) {
+                        const line = `linked_jobs: ${JSON.stringify(linked)}`;
+                        const fm = /^linked_jobs:.*$/m.test(fmMatch[1])
+                            ? fmMatch[1].replace(/^linked_jobs:.*$/m, line)
+                            : `${fmMatch[1]}\n${line}`;
+                        content = content.replace(fmMatch[1], fm);
+                        await this.app.vault.modify(file, content);
+                    }
+                    new Notice(`Linked ${claimed.length} more quer${claimed.length === 1 ? 'y' : 'ies'} - pushing will answer all ${linked.length + 1}`);
+                    this.refreshCoachTriage();
+                } catch (error: any) {
+                    console.error('[Flipmode] Link queries error:', error);
+                    new Notice(`Failed to link queries: ${error.message}`);
+                }
+            }).open();
+        } catch (error: any) {
+            console.error('[Flipmode] Link queries error:', error);
+            new Notice(`Failed to load pending queries: ${error.message}`);
+        }
+    }
 
-## Leads To
+    // Send the note in view to a chosen set of athletes: concept notes as concepts, anything else as an article
+    async coachBroadcastNote(view: MarkdownView) {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
+        }
 
-${leadsToLinks}
+        const file = view.file;
+        if (!file) return;
 
-## Counters
+        const content = await this.app.vault.read(file);
+        const isConcept = this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'concept';
+        const concept = isConcept ? this.parseConceptNote(file, content) : null;
 
-${counterLinks}
+        // Articles: the generated section of a query note, otherwise the whole note body
+        const generated = content.match(/## Generated Article\n\n([\s\S]*?)(?=\n## Discussion\n|$)/);
+        const article = (generated ? generated[1] : content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, ''))
+            .replace(/^## Sources\n[\s\S]*?(?=^## |(?![\s\S]))/m, '')
+            .trim();
+        if (!concept && (!article || article.includes('Run "Coach: Generate article"'))) {
+            new Notice('No article content to broadcast');
+            return;
+        }
 
-## Related Concepts
+        // Query notes are named after the athlete, so the title comes from the article or the query
+        const queryText = String(this.app.metadataCache.getFileCache(file)?.frontmatter?.query_text || '');
+        const title = concept?.name
+            || article.match(/^# (.+)$/m)?.[1].trim()
+            || queryText.replace(/\s+/g, ' ').trim().substring(0, 80)
+            || 'Research from your coach';
 
-${relatedLinks}
-`;
+        try {
+            const { athletes, groups } = await this.loadRoster();
+            if (athletes.length === 0) {
+                new Notice('No athletes found. Add athletes first.');
+                return;
+            }
 
-            await this.app.vault.create(conceptPath, content);
-            created++;
-        }
+            const send = async (selected: Athlete[]) => {
+                if (selected.length === 0) return;
+                new Notice(`Broadcasting "${title}" to ${selected.length} athlete(s)...`);
+                try {
+                    if (concept) {
+                        let delivered = 0;
+                        for (const athlete of selected) {
+                            try {
+                                await this.coachClient!.pushConcepts(athlete.id, [concept]);
+                                delivered++;
+                            } catch (error) {
+                                console.error(`[Flipmode] Concept broadcast to ${athlete.id} failed:`, error);
+                            }
+                        }
+                        new Notice(`Sent concept "${concept.name}" to ${delivered} of ${selected.length} athlete(s)`);
+                    } else {
+                        const sources = this.parseSourcesFromNote(content);
+                        const result = await this.coachClient!.broadcastArticle(selected.map(a => a.id), title, article, sources);
+                        new Notice(`Broadcast sent to ${result.delivered} of ${selected.length} athlete(s)`);
+                    }
+                } catch (error: any) {
+                    new Notice(`Broadcast failed: ${error.message}`);
+                }
+            };
 
-        return created;
+            new AthleteSelectModal(this.app, athletes, athlete => send([athlete]), { onSelectMany: send, groups }).open();
+        } catch (error: any) {
+            new Notice(`Failed to get athletes: ${error.message}`);
+        }
     }
 
-    findFileByJobId(jobId: string): TFile | null {
-        const files = this.app.vault.getMarkdownFiles();
-        for (const file of files) {
-            const cache = this.app.metadataCache.getFileCache(file);
-            if (cache?.frontmatter?.job_id === jobId) {
-                return file;
-            }
+    async coachAddAthlete() {
+        if (!this.coachClient) {
+            new Notice('Coach mode not configured');
+            return;
         }
-        return null;
-    }
 
-    async saveCoachArticleToVault(job: any, result: any): Promise<string> {
-        const folder = `${this.settings.syncFolder}/Research`;
-        await this.ensureFolder(folder);
+        new CoachAddAthleteModal(this.app, this).open();
+    }
 
-        const date = new Date().toISOString().split('T')[0];
-        const shortQuery = (job.enriched_query || job.query_text || 'Research')
-            .substring(0, 50)
-            .replace(/[^\w\s-]/g, '')
-            .trim();
+    async ensureFolder(path: string) {
+        if (await this.app.vault.adapter.exists(path)) return;
+        try {
+            await this.app.vault.createFolder(path);
+        } catch (error) {
+            // Another caller created it between the check and here
+            if (!(await this.app.vault.adapter.exists(path))) throw error;
+        }
+    }
 
-        const filename = `${folder}/${date} - ${shortQuery}.md`;
+    async saveNote(path: string, content: string) {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await this.app.vault.modify(existing, content);
+        } else {
+            await this.app.vault.create(path, content);
+        }
+    }
 
-        const content = `---
-type: oracle-research
-job_id: ${job.job_id}
-query: "${job.enriched_query || job.query_text}"
-received: ${new Date().toISOString()}
-rlm_session_id: ${result.rlm_session_id || ''}
-tags: [bjj, research, from-oracle]
----
+    // Remote mode methods
+    initRemoteMode() {
+        this.queueClient = new RemoteQueueClient(
+            this.settings.queueServiceUrl,
+            this.settings.athleteToken
+        );
 
-# Research: ${shortQuery}
+        // Rebuild pending jobs from plugin data and Pending notes, then resume polling
+        this.app.workspace.onLayoutReady(async () => {
+            await this.restorePendingJobs();
+            this.pollPendingJobs();
+        });
 
-${result.article}
+        // Start polling for results and canvas updates
+        this.startResultPolling();
+        this.startCanvasPolling();
+        this.startOutboxRetry();
 
----
-*Research provided by Oracle*
-`;
+        // Update status bar
+        this.updateStatusBar('Remote Mode');
 
-        await this.app.vault.create(filename, content);
-        return filename;
+        // Live updates replace polling while the stream is up
+        if (this.settings.liveUpdates) {
+            this.startEventStream();
+        } else {
+            this.stopEventStream();
+        }
     }
 
-    isRemoteMode(): boolean {
-        return this.settings.mode === 'remote' && !!this.queueClient;
-    }
+    startEventStream() {
+        this.stopEventStream();
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        this.eventStream = new QueueEventStream(
+            this.settings.queueServiceUrl,
+            this.settings.athleteToken,
+            {
+                onOpen: () => {
+                    console.log('[Flipmode] Live updates connected');
+                    this.stopRemotePolling();
+                    this.updateStatusBar('Remote Mode (live)');
+                    // Catch up on anything missed while disconnected
+                    this.pollPendingJobs();
+                    this.pollCanvasUpdates();
+                },
+                onDrop: () => {
+                    console.log('[Flipmode] Live updates dropped, falling back to polling');
+                    this.startResultPolling();
+                    this.startCanvasPolling();
+                    this.updateStatusBar('Remote Mode');
+                },
+                onEvent: (type, data) => this.handleQueueEvent(type, data)
+            }
+        );
+        this.eventStream.connect();
     }
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+    stopEventStream() {
+        if (this.eventStream) {
+            this.eventStream.close();
+            this.eventStream = null;
+        }
     }
 
-    updateStatusBar(status: string) {
-        this.statusBarItem.setText(`Flipmode: ${status}`);
+    stopRemotePolling() {
+        if (this.pollIntervalId) {
+            window.clearInterval(this.pollIntervalId);
+            this.pollIntervalId = null;
+        }
+        if (this.canvasPollIntervalId) {
+            window.clearInterval(this.canvasPollIntervalId);
+            this.canvasPollIntervalId = null;
+        }
     }
 
-    // API Methods
-    async apiRequest(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
-        const url = `${this.settings.serverUrl}/api/obsidian${endpoint}`;
+    async handleQueueEvent(type: QueueEventType, data: any) {
+        if (!this.queueClient) return;
 
         try {
-            const response = await requestUrl({
-                url,
-                method,
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.apiToken}`
-                },
-                body: body ? JSON.stringify(body) : undefined
-            });
-
-            return response.json;
+            if (type === 'job_status') {
+                const job = data.job_id ? this.pendingJobs.get(String(data.job_id)) : undefined;
+                if (job && await this.refreshPendingJob(job)) {
+                    await this.savePendingJobs();
+                }
+            } else if (type === 'canvas_updated') {
+                await this.pollCanvasUpdates();
+            } else if (type === 'comment_added') {
+                const file = data.job_id ? this.findFileByJobId(String(data.job_id)) : null;
+                if (file && await this.syncCommentThread(file) > 0) {
+                    new Notice(`New reply from your coach on "${file.basename}"`);
+                }
+            } else if (type === 'concept_shared') {
+                const concepts = await this.queueClient.getConcepts();
+                const created = concepts.length > 0 ? await this.syncConceptsToVault(concepts) : 0;
+                if (created > 0) {
+                    new Notice(`${created} new concept(s) from coach`);
+                }
+            } else if (type === 'broadcast_sent') {
+                const created = await this.syncBroadcasts();
+                if (created > 0) {
+                    new Notice(`${created} new broadcast(s) from coach`);
+                }
+            }
         } catch (error) {
-            console.error('Flipmode API error:', error);
-            throw error;
+            console.error(`[Flipmode] Error handling ${type} event:`, error);
         }
     }
 
-    // Remote transcription for athletes (uses Heroku OpenAI Whisper)
-    async remoteTranscribe(audioBlob: Blob): Promise<{text: string, duration: number, usage: any}> {
-        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
-            throw new Error('Remote transcription requires queue service URL and athlete token');
+    // Track last canvas sync time
+    private lastCanvasSync: string | null = null;
+    private canvasPollIntervalId: number | null = null;
+
+    startCanvasPolling() {
+        if (this.canvasPollIntervalId) {
+            window.clearInterval(this.canvasPollIntervalId);
         }
 
-        // Convert blob to base64 using FileReader (works better on mobile)
-        const base64 = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const dataUrl = reader.result as string;
-                // Remove the data:audio/webm;base64, prefix
-                const base64Data = dataUrl.split(',')[1];
-                resolve(base64Data);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(audioBlob);
-        });
+        // Poll every 30 seconds for canvas updates
+        this.canvasPollIntervalId = window.setInterval(
+            () => this.pollCanvasUpdates(),
+            30000
+        );
 
-        console.log('[Flipmode] Sending voice note to:', this.settings.queueServiceUrl);
-        console.log('[Flipmode] Audio size:', audioBlob.size, 'bytes, base64 length:', base64.length);
+        // Do an initial check
+        this.pollCanvasUpdates();
+    }
 
-        const response = await requestUrl({
-            url: `${this.settings.queueServiceUrl}/api/voice/transcribe`,
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.settings.athleteToken}`
-            },
-            body: JSON.stringify({ audio_base64: base64 })
-        });
+    async pollCanvasUpdates() {
+        if (!this.queueClient) return;
 
-        if (response.status >= 400) {
-            throw new Error(response.json?.error || 'Transcription failed');
-        }
+        try {
+            const canvases = await this.queueClient.getCanvases(this.lastCanvasSync || undefined);
 
-        return response.json;
-    }
+            if (Object.keys(canvases).length === 0) return;
 
-    // Check voice note usage for today
-    async getVoiceUsage(): Promise<{count: number, remaining: number, limit: number}> {
-        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
-            throw new Error('Requires queue service URL and athlete token');
-        }
+            // Sync each updated canvas to the vault
+            let filesUpdated = 0;
+            let filesMissing = 0;
+            let conflicts = 0;
+            for (const [canvasName, canvasInfo] of Object.entries(canvases)) {
+                const result = await this.syncCanvasToVault(canvasName, canvasInfo.data);
+                filesUpdated += result.updated;
+                filesMissing += result.missing;
+                conflicts += result.conflicts;
 
-        const response = await requestUrl({
-            url: `${this.settings.queueServiceUrl}/api/voice/usage`,
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${this.settings.athleteToken}`
+                // The coach only stops sending a file's content once it is acknowledged
+                if (Object.keys(result.received).length > 0) {
+                    try {
+                        await this.queueClient.ackCanvas(canvasName, result.received);
+                    } catch (error) {
+                        console.error(`[Canvas Sync] Failed to acknowledge ${canvasName}:`, error);
+                    }
+                }
             }
-        });
 
-        return response.json;
+            // Update last sync time
+            this.lastCanvasSync = new Date().toISOString();
+            this.refreshSidebar('canvases');
+
+            const details = [];
+            if (filesUpdated > 0) details.push(`${filesUpdated} file(s) updated`);
+            if (filesMissing > 0) details.push(`${filesMissing} file(s) missing - ask your coach to re-share`);
+            new Notice(`Synced ${Object.keys(canvases).length} canvas update(s) from coach${details.length ? ` (${details.join(', ')})` : ''}`);
+            if (conflicts > 0) {
+                new Notice(`${conflicts} of your canvas edit(s) clashed with your coach's - see Canvas Sync Log`, 8000);
+            }
+        } catch (error) {
+            console.error('Canvas poll error:', error);
+        }
     }
 
-    // Start remote therapy session (after transcription)
-    async startRemoteTherapy(transcript: string): Promise<{session_id: string, state: string, question?: string, enriched_query?: string}> {
-        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
-            throw new Error('Requires queue service URL and athlete token');
+    /**
+     * Write a coach canvas and its bundled files to Flipmode/Coach. Bundled
+     * files go under Flipmode/Coach/<canvas>/ with their coach-vault paths,
+     * and file cards and links are rewritten to match. Unchanged files are
+     * left alone; files sent without content must already be in the vault.
+     * The canvas itself is merged with the athlete's edits (see mergeCanvas).
+     */
+    async syncCanvasToVault(canvasName: string, canvasData: any): Promise<{ updated: number; missing: number; conflicts: number; received: Record<string, string> }> {
+        if (!isSafeCanvasName(canvasName)) {
+            console.error(`[Canvas Sync] Skipping canvas with unsafe name: ${canvasName}`);
+            return { updated: 0, missing: 0, conflicts: 0, received: {} };
         }
 
-        const response = await requestUrl({
-            url: `${this.settings.queueServiceUrl}/api/therapy/start`,
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.settings.athleteToken}`
-            },
-            body: JSON.stringify({ transcript })
-        });
+        // Save to Flipmode/Coach folder
+        const coachFolder = `${this.settings.syncFolder}/Coach`;
+        await this.ensureFolder(coachFolder);
 
-        if (response.status >= 400) {
-            throw new Error(response.json?.error || 'Failed to start therapy session');
+        const canvasPath = `${coachFolder}/${canvasName}.canvas`;
+        const bundleFolder = `${coachFolder}/${canvasName}`;
+        const bundle = (canvasData.files || []).filter((file: CanvasBundleFile) => {
+            if (isSafeBundlePath(file.path)) return true;
+            console.error(`[Canvas Sync] Skipping bundled file with unsafe path: ${file.path}`);
+            return false;
+        }) as CanvasBundleFile[];
+        const bundled = new Set(bundle.map(f => f.path));
+
+        let updated = 0;
+        let missing = 0;
+        const received: Record<string, string> = {};
+        for (const file of bundle) {
+            const target = `${bundleFolder}/${file.path}`;
+            const existing = this.app.vault.getAbstractFileByPath(target);
+            if (file.content === undefined) {
+                if (!(existing instanceof TFile)) missing++;
+                continue;
+            }
+
+            try {
+                await this.ensureFolder(target.substring(0, target.lastIndexOf('/')));
+                if (file.encoding === 'base64') {
+                    if (!(existing instanceof TFile) || await hashBytes(await this.app.vault.readBinary(existing)) !== file.hash) {
+                        const data = base64ToArrayBuffer(file.content);
+                        if (existing instanceof TFile) {
+                            await this.app.vault.modifyBinary(existing, data);
+                        } else {
+                            await this.app.vault.createBinary(target, data);
+                        }
+                        updated++;
+                    }
+                } else {
+                    const text = rewriteBundleLinks(file.content, bundled, bundleFolder);
+                    if (!(existing instanceof TFile) || await this.app.vault.read(existing) !== text) {
+                        await this.saveNote(target, text);
+                        updated++;
+                    }
+                }
+                received[file.path] = file.hash;
+            } catch (error) {
+                console.error(`[Canvas Sync] Failed to write ${target}:`, error);
+            }
         }
 
-        return response.json;
-    }
+        // Point file cards and text-card links at the bundled copies
+        const nodes = (canvasData.nodes || []).map((node: any) => {
+            if (node.type === 'file' && bundled.has(node.file)) {
+                return { ...node, file: `${bundleFolder}/${node.file}` };
+            }
+            if (node.type === 'text' && typeof node.text === 'string') {
+                return { ...node, text: rewriteBundleLinks(node.text, bundled, bundleFolder) };
+            }
+            return node;
+        });
 
-    // Continue remote therapy session with answer
-    async respondToRemoteTherapy(sessionId: string, answer: string): Promise<{session_id: string, state: string, question?: string, enriched_query?: string}> {
-        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
-            throw new Error('Requires queue service URL and athlete token');
-        }
+        const incoming: CanvasData = { nodes, edges: canvasData.edges || [] };
 
-        const response = await requestUrl({
-            url: `${this.settings.queueServiceUrl}/api/therapy/respond`,
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.settings.athleteToken}`
-            },
-            body: JSON.stringify({ session_id: sessionId, answer })
+        // Live events and polling can deliver the same canvas at once; merge one at a time
+        // so neither overwrites the other's base
+        const conflicts = await this.withCanvasBaseLock(async () => {
+            const bases = await this.readCanvasBases();
+            const conflicts = await this.mergeCanvasIntoVault(canvasName, canvasPath, bases[canvasName] || null, incoming);
+            bases[canvasName] = incoming;
+            await this.writeCanvasBases(bases);
+            return conflicts;
         });
 
-        if (response.status >= 400) {
-            throw new Error(response.json?.error || 'Failed to continue therapy session');
+        if (conflicts.length > 0) {
+            await this.appendCanvasSyncLog(canvasName, conflicts);
         }
 
-        return response.json;
+        console.log(`[Canvas Sync] Saved ${canvasName} to ${canvasPath}`);
+        return { updated, missing, conflicts: conflicts.length, received };
     }
 
-    async checkConnection(): Promise<boolean> {
-        try {
-            const response = await this.apiRequest('/health');
-            if (response.status === 'healthy') {
-                this.updateStatusBar('Connected');
-                return true;
+    // Write the coach's canvas over the athlete's copy, keeping the athlete's edits since base
+    async mergeCanvasIntoVault(canvasName: string, canvasPath: string, base: CanvasData | null, incoming: CanvasData): Promise<string[]> {
+        const existingFile = this.app.vault.getAbstractFileByPath(canvasPath);
+        let conflicts: string[] = [];
+        if (existingFile && existingFile instanceof TFile) {
+            // Merge with the athlete's edits since the last coach version
+            let local: CanvasData | null = null;
+            try {
+                const parsed = JSON.parse(await this.app.vault.read(existingFile));
+                local = { nodes: parsed.nodes || [], edges: parsed.edges || [] };
+            } catch (error) {
+                console.error(`[Canvas Sync] ${canvasPath} is not valid JSON, replacing it:`, error);
             }
-        } catch (error) {
-            this.updateStatusBar('Disconnected');
+            const merged = mergeCanvas(base, local, incoming);
+            conflicts = merged.conflicts;
+
+            // Convert canvas data back to Obsidian canvas format
+            await this.app.vault.modify(existingFile, JSON.stringify({ nodes: merged.nodes, edges: merged.edges }, null, 2));
+            if (merged.keptNodes > 0 || merged.keptEdges > 0) {
+                console.log(`[Canvas Sync] Kept ${merged.keptNodes} of your card(s) and ${merged.keptEdges} connection(s) in ${canvasName}`);
+            }
+        } else {
+            // Create new canvas
+            await this.app.vault.create(canvasPath, JSON.stringify(incoming, null, 2));
         }
-        return false;
+        return conflicts;
     }
 
-    // Save article to vault with frontmatter for graph view
-    async saveArticleToVault(topic: string, articleContent: string): Promise<string> {
-        // Clean topic for filename and wikilink
-        const cleanTopic = topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
-        const timestamp = new Date().toISOString().split('T')[0];
-        const filename = `${this.settings.syncFolder}/${timestamp} - ${cleanTopic}.md`;
-
-        // Extract keywords for tags (simple word extraction)
-        const keywords = topic.toLowerCase()
-            .split(/\s+/)
-            .filter(w => w.length > 3 && !['when', 'from', 'with', 'that', 'this', 'what', 'how'].includes(w))
-            .slice(0, 5);
+    // Last coach version of each shared canvas, the base for merging athlete edits
+    getCanvasBasePath(): string {
+        return `${this.settings.syncFolder}/Coach/canvas-base.json`;
+    }
 
-        // Add frontmatter and wikilinks for graph view
-        const frontmatter = `---
-type: research
-topic: "[[${cleanTopic}]]"
-date: ${timestamp}
-tags: [bjj, flipmode${keywords.map(k => `, ${k}`).join('')}]
----
+    async readCanvasBases(): Promise<Record<string, CanvasData>> {
+        const path = this.getCanvasBasePath();
+        if (!(await this.app.vault.adapter.exists(path))) return {};
 
-`;
-        // Add related links section at the end
-        const relatedLinks = `
+        try {
+            const data = JSON.parse(await this.app.vault.adapter.read(path));
+            return data && typeof data.canvases === 'object' ? data.canvases : {};
+        } catch (error) {
+            console.error('[Flipmode] Could not read canvas bases:', error);
+            return {};
+        }
+    }
 
----
-## Related
-- Topic: [[${cleanTopic}]]
-- Training Plan: [[${timestamp} - ${cleanTopic} Plan]]
+    async writeCanvasBases(canvases: Record<string, CanvasData>) {
+        await this.app.vault.adapter.write(this.getCanvasBasePath(), JSON.stringify({ canvases }));
+    }
 
-*Generated by Flipmode*
-`;
+    // Run a canvas merge after any in-flight merge finishes
+    withCanvasBaseLock<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.canvasBaseLock.then(task);
+        this.canvasBaseLock = run.catch(() => undefined);
+        return run;
+    }
 
-        const fullContent = frontmatter + articleContent + relatedLinks;
+    // Newest entries first, so the latest conflicts are at the top of the note
+    async appendCanvasSyncLog(canvasName: string, conflicts: string[]) {
+        const path = `${this.settings.syncFolder}/Coach/Canvas Sync Log.md`;
+        const header = '# Canvas Sync Log\n\nEdits from your coach that overlapped with yours.\n';
+        const entry = `\n## ${new Date().toLocaleString()} - [[${canvasName}.canvas|${canvasName}]]\n\n${conflicts.map(c => `- ${c}`).join('\n')}\n`;
 
-        // Ensure folder exists
-        const folder = this.app.vault.getAbstractFileByPath(this.settings.syncFolder);
-        if (!folder) {
-            await this.app.vault.createFolder(this.settings.syncFolder);
-        }
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        const content = existing instanceof TFile ? await this.app.vault.read(existing) : header;
+        const body = content.startsWith(header) ? content.substring(header.length) : content;
+        await this.saveNote(path, header + entry + body);
+    }
 
-        // Create or overwrite file
-        const existingFile = this.app.vault.getAbstractFileByPath(filename);
-        if (existingFile instanceof TFile) {
-            await this.app.vault.modify(existingFile, fullContent);
-        } else {
-            await this.app.vault.create(filename, fullContent);
+    startResultPolling() {
+        if (this.pollIntervalId) {
+            window.clearInterval(this.pollIntervalId);
         }
 
-        return filename;
+        this.pollIntervalId = window.setInterval(
+            () => this.pollPendingJobs(),
+            this.settings.pollInterval * 1000
+        );
     }
 
-    // Dive Deeper on a training session - uses notes as context
-    async diveDeepOnSession(view: MarkdownView) {
-        const file = view.file;
-        if (!file) {
-            new Notice('No file open');
-            return;
+    /**
+     * Rebuild the in-memory pending job map after a reload.
+     * Merges jobs saved in plugin data with any unresolved notes in the
+     * Pending folder (matched by their job_id frontmatter).
+     */
+    async restorePendingJobs() {
+        for (const [jobId, stored] of Object.entries(this.settings.pendingJobs)) {
+            if (this.pendingJobs.has(jobId)) continue;
+            this.pendingJobs.set(jobId, {
+                jobId,
+                query: stored.query,
+                submittedAt: new Date(stored.submittedAt),
+                status: stored.status,
+                notePath: stored.notePath
+            });
         }
 
-        const content = await this.app.vault.read(file);
-
-        // Parse frontmatter
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        let topic = '';
-        let fileType = '';
-        let rlmSessionId = '';
+        const pendingFolder = `${this.settings.syncFolder}/Pending/`;
+        const pendingNotes = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(pendingFolder));
 
-        if (frontmatterMatch) {
-            const frontmatter = frontmatterMatch[1];
-            const topicMatch = frontmatter.match(/topic:\s*"?\[\[([^\]]+)\]\]"?/) || frontmatter.match(/topic:\s*"([^"]+)"/);
-            const typeMatch = frontmatter.match(/type:\s*(\S+)/);
-            const rlmMatch = frontmatter.match(/rlm_session_id:\s*"([^"]+)"/);
-            if (topicMatch) topic = topicMatch[1];
-            if (typeMatch) fileType = typeMatch[1];
-            if (rlmMatch) rlmSessionId = rlmMatch[1];
-        }
+        for (const file of pendingNotes) {
+            const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+            if (fm?.type !== 'pending-query' || !fm.job_id) continue;
+            if (fm.status !== 'pending' && fm.status !== 'processing') continue;
 
-        // Extract session notes and reflections
-        const reflectionSections: string[] = [];
+            const jobId = String(fm.job_id);
+            const existing = this.pendingJobs.get(jobId);
+            if (existing) {
+                existing.notePath = file.path;
+                continue;
+            }
 
-        // Find "What worked", "What to adjust", "Key insight" sections
-        const whatWorkedMatch = content.match(/\*\*What worked:\*\*\s*\n([^\n*]+)/g);
-        const whatToAdjustMatch = content.match(/\*\*What to adjust:\*\*\s*\n([^\n*]+)/g);
-        const keyInsightMatch = content.match(/\*\*Key insight:\*\*\s*\n([^\n*]+)/g);
+            let query = fm.query;
+            if (!query) {
+                const content = await this.app.vault.cachedRead(file);
+                query = content.match(/\*\*Query:\*\* (.+)/)?.[1] || file.basename;
+            }
 
-        if (whatWorkedMatch) {
-            whatWorkedMatch.forEach(m => {
-                const text = m.replace('**What worked:**', '').trim();
-                if (text && text.length > 2) reflectionSections.push(`What worked: ${text}`);
-            });
-        }
-        if (whatToAdjustMatch) {
-            whatToAdjustMatch.forEach(m => {
-                const text = m.replace('**What to adjust:**', '').trim();
-                if (text && text.length > 2) reflectionSections.push(`Need to adjust: ${text}`);
-            });
-        }
-        if (keyInsightMatch) {
-            keyInsightMatch.forEach(m => {
-                const text = m.replace('**Key insight:**', '').trim();
-                if (text && text.length > 2) reflectionSections.push(`Key insight: ${text}`);
+            this.pendingJobs.set(jobId, {
+                jobId,
+                query,
+                submittedAt: new Date(file.stat.ctime),
+                status: fm.status,
+                notePath: file.path
             });
         }
 
-        // Also grab any notes section content
-        const notesMatch = content.match(/## Notes\n([\s\S]*?)(?=\n##|$)/);
-        if (notesMatch && notesMatch[1].trim().length > 10) {
-            reflectionSections.push(`Notes: ${notesMatch[1].trim().substring(0, 500)}`);
+        await this.savePendingJobs();
+
+        if (this.pendingJobs.size > 0) {
+            console.log(`[Flipmode] Restored ${this.pendingJobs.size} pending job(s)`);
         }
+    }
 
-        if (!topic) {
-            // Try to get topic from title
-            const titleMatch = content.match(/# (?:Training Plan:|Research:)?\s*(.+)/);
-            if (titleMatch) topic = titleMatch[1].trim();
+    // Persist the pending job map with plugin data
+    async savePendingJobs() {
+        const stored: Record<string, StoredPendingJob> = {};
+        for (const [jobId, job] of this.pendingJobs.entries()) {
+            stored[jobId] = {
+                query: job.query,
+                submittedAt: job.submittedAt.toISOString(),
+                status: job.status,
+                notePath: job.notePath
+            };
         }
+        this.settings.pendingJobs = stored;
+        await this.saveSettings();
+        this.refreshSidebar('queries', true);
+    }
 
-        if (!topic) {
-            new Notice('Could not find topic in this file');
-            return;
+    // Find the Pending note for a job, preferring the stored path
+    findPendingNote(job: PendingJob): TFile | null {
+        if (job.notePath) {
+            const file = this.app.vault.getAbstractFileByPath(job.notePath);
+            if (file instanceof TFile) return file;
+        }
+        const file = this.findFileByJobId(job.jobId);
+        if (file && this.app.metadataCache.getFileCache(file)?.frontmatter?.type === 'pending-query') {
+            return file;
         }
+        return null;
+    }
 
-        const sessionContext = reflectionSections.length > 0
-            ? reflectionSections.join('\n')
-            : 'Training session completed';
+    async pollPendingJobs() {
+        if (!this.queueClient || this.pendingJobs.size === 0) return;
 
-        // Open Dive Deeper modal with context and RLM session
-        const modal = new DiveDeepModal(this.app, this, topic, sessionContext, rlmSessionId);
-        modal.open();
+        let changed = false;
 
-        if (rlmSessionId) {
-            new Notice('Deep Dive session loaded!', 2000);
+        for (const [jobId, job] of this.pendingJobs.entries()) {
+            if (job.status === 'complete' || job.status === 'error') continue;
+
+            try {
+                if (await this.refreshPendingJob(job)) {
+                    changed = true;
+                }
+            } catch (error) {
+                console.error(`Error polling job ${jobId}:`, error);
+            }
+        }
+
+        if (changed) {
+            await this.savePendingJobs();
         }
     }
 
-    // Generate Training Review from Training Notes (coach side)
-    async generateTrainingReview(view: MarkdownView) {
-        const file = view.file;
-        if (!file) {
-            new Notice('No file open');
-            return;
+    /**
+     * Check one pending job against the queue and resolve it if finished.
+     * Returns true if the job changed (caller persists the map).
+     */
+    async refreshPendingJob(job: PendingJob): Promise<boolean> {
+        if (!this.queueClient) return false;
+
+        // Live events and polling can both reach a job; only one check runs at a time,
+        // and a job resolved by the other path is left alone
+        const jobId = job.jobId;
+        if (this.jobsInFlight.has(jobId) || this.pendingJobs.get(jobId) !== job) return false;
+        this.jobsInFlight.add(jobId);
+        try {
+            return await this.checkPendingJob(job);
+        } finally {
+            this.jobsInFlight.delete(jobId);
         }
+    }
 
-        const content = await this.app.vault.read(file);
+    private async checkPendingJob(job: PendingJob): Promise<boolean> {
+        const jobId = job.jobId;
+        const status = await this.queueClient!.checkStatus(jobId);
 
-        // Parse frontmatter
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        if (!frontmatterMatch) {
-            new Notice('No frontmatter found. Is this a Training Notes file?');
-            return;
-        }
+        if (status.status === 'complete') {
+            // Fetch full result
+            const result = await this.queueClient!.getResult(jobId);
 
-        const frontmatter = frontmatterMatch[1];
+            if (result.error) {
+                job.status = 'error';
+                await this.markPendingNoteError(job, result.error);
+                new Notice(`Query failed: ${result.error}`);
+            } else {
+                job.status = 'complete';
 
-        // Check if this is a training-notes file
-        const typeMatch = frontmatter.match(/type:\s*(\S+)/);
-        if (!typeMatch || typeMatch[1] !== 'training-notes') {
-            new Notice('This command only works on Training Notes files');
-            return;
+                // Replace the pending note with the finished article
+                const filename = await this.saveCoachArticleToVault(
+                    { job_id: jobId, query_text: job.query },
+                    result,
+                    this.findPendingNote(job)
+                );
+                new Notice(`Research ready! Saved to ${filename}`);
+            }
+
+            // Remove from pending
+            this.pendingJobs.delete(jobId);
+            this.setCachedJobStatus(jobId, job.status);
+            return true;
+        } else if (status.status === 'processing') {
+            if (job.status !== 'processing') {
+                job.status = 'processing';
+                this.setCachedJobStatus(jobId, job.status);
+                return true;
+            }
+        } else if (status.status === 'error') {
+            job.status = 'error';
+            await this.markPendingNoteError(job);
+            this.pendingJobs.delete(jobId);
+            this.setCachedJobStatus(jobId, job.status);
+            return true;
         }
 
-        // Extract session_id for Oracle
-        const sessionIdMatch = frontmatter.match(/session_id:\s*"([^"]+)"/);
-        const sessionId = sessionIdMatch ? sessionIdMatch[1] : null;
+        return false;
+    }
 
-        // Extract focus
-        const focusMatch = frontmatter.match(/focus:\s*"([^"]+)"/);
-        const focus = focusMatch ? focusMatch[1] : 'general';
+    setCachedJobStatus(jobId: string, status: JobStatus) {
+        const cached = this.queueJobsCache?.find(j => j.job_id === jobId);
+        if (cached) cached.status = status;
+    }
 
-        // Extract date
-        const dateMatch = frontmatter.match(/date:\s*(\S+)/);
-        const dateStr = dateMatch ? dateMatch[1] : new Date().toISOString().split('T')[0];
+    // The cached job list plus jobs submitted since it was fetched
+    cachedQueueJobs(): Job[] | null {
+        if (!this.queueJobsCache) return null;
+        const known = new Set(this.queueJobsCache.map(j => j.job_id));
+        const submitted = [...this.pendingJobs.values()]
+            .filter(job => !known.has(job.jobId))
+            .map(job => ({ job_id: job.jobId, status: job.status, query_text: job.query, submitted_at: job.submittedAt.toISOString() }));
+        return [...submitted, ...this.queueJobsCache];
+    }
 
-        // Extract season/episode
-        const seasonMatch = frontmatter.match(/season:\s*(\d+)/);
-        const episodeMatch = frontmatter.match(/episode:\s*(\d+)/);
-        const season = seasonMatch ? parseInt(seasonMatch[1]) : this.settings.currentSeason;
-        const episode = episodeMatch ? parseInt(episodeMatch[1]) : this.settings.currentEpisode;
+    async markPendingNoteError(job: PendingJob, error?: string) {
+        const file = this.findPendingNote(job);
+        if (!file) return;
 
-        // Get the folder path from the current file
-        const folderPath = file.parent?.path || `${this.settings.syncFolder}/Athletes/Unknown/Season ${season}/Session ${episode}`;
+        let content = await this.app.vault.read(file);
+        content = content.replace(/^status: (pending|processing)$/m, 'status: error');
+        content = content.replace('*Waiting for Oracle to process...*', `*Query failed${error ? `: ${error}` : ''}*`);
+        await this.app.vault.modify(file, content);
+    }
 
-        // Build filenames
-        const notesFilename = file.basename;
-        const reviewFilename = notesFilename.replace('TrainingNotes', 'TrainingReview');
+    /**
+     * Submit a query to the coach queue.
+     * If the service can't be reached the query goes to the offline outbox
+     * and is retried later with the same idempotency key.
+     * Returns null only if the query was neither sent nor queued.
+     */
+    async submitToCoach(query: string, therapyContext?: any): Promise<{ jobId: string | null; queued: boolean } | null> {
+        if (!this.queueClient) {
+            new Notice('Remote mode not configured. Check settings.');
+            return null;
+        }
 
-        // Extract struggles from content for the query
-        const strugglesMatch = content.match(/## Struggles[\s\S]*?(?=##|$)/);
-        const struggles = strugglesMatch ? strugglesMatch[0].replace('## Struggles', '').trim() : focus;
+        const idempotencyKey = `q-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-        new Notice('Generating Training Review...', 3000);
+        let jobId: string;
+        try {
+            ({ jobId } = await this.queueClient.submitQuery(query, therapyContext, idempotencyKey));
+        } catch (error: any) {
+            console.error('Failed to submit query:', error);
+
+            if (!this.isRetryableSubmitError(error)) {
+                new Notice('Failed to send query to Oracle. Check your connection.');
+                return null;
+            }
+
+            try {
+                await this.queueOfflineSubmission(query, therapyContext, idempotencyKey);
+                new Notice('No connection - query queued offline. It will be sent when you\'re back online.', 5000);
+                return { jobId: null, queued: true };
+            } catch (queueError) {
+                console.error('Failed to queue query offline:', queueError);
+                new Notice('Failed to send query to Oracle. Check your connection.');
+                return null;
+            }
+        }
 
+        // The query is on the server now; a vault failure must not send it again
+        let notePath: string | undefined;
         try {
-            // Call the coach-review endpoint with struggles as query
-            const researchResponse = await requestUrl({
-                url: `${this.settings.serverUrl}/api/obsidian/coach-review`,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.apiToken}`
-                },
-                body: JSON.stringify({
-                    query: struggles || focus,
-                    session_context: `Training session: ${focus}`
-                })
-            });
+            notePath = await this.createPendingJobNote(jobId, query, idempotencyKey, therapyContext);
+        } catch (error) {
+            console.error('[Flipmode] Could not create pending note:', error);
+        }
+        await this.trackPendingJob(jobId, query, notePath);
 
-            const research = researchResponse.json;
+        new Notice(notePath
+            ? 'Query sent to Oracle! You\'ll be notified when ready.'
+            : 'Query sent to Oracle, but its pending note could not be created.');
+        return { jobId, queued: false };
+    }
 
-            // Extract research data
-            const articleContent = research.article || research.article_raw || 'Research generation failed.';
-            const topic = research.topic || focus;
-            const rlmSessionId = research.rlm_session_id || '';
-            const conversationUuid = research.conversation_uuid || '';
-            const sourceCount = research.source_count || 0;
+    async trackPendingJob(jobId: string, query: string, notePath?: string) {
+        this.pendingJobs.set(jobId, {
+            jobId,
+            query,
+            submittedAt: new Date(),
+            status: 'pending',
+            notePath
+        });
+        await this.savePendingJobs();
+    }
 
-            // Create Training Review content
-            const reviewContent = `---
-type: training-review
-season: ${season}
-episode: ${episode}
-date: ${dateStr}
-focus: "${focus}"
-topic: "${topic}"
-training_notes: "[[${notesFilename}]]"
-rlm_session_id: "${rlmSessionId}"
-conversation_uuid: "${conversationUuid}"
-source_count: ${sourceCount}
-tags: [bjj, training-review, season-${season}, ${focus.replace(/_/g, '-')}]
+    // Network failures and server errors are worth retrying; 4xx responses are not
+    isRetryableSubmitError(error: any): boolean {
+        const status = error?.status;
+        return typeof status !== 'number' || status >= 500;
+    }
+
+    // Markdown section showing the voice note and each clarifying Q&A ('' if there is none)
+    formatTherapyTranscript(raw: any): string {
+        const context = readTherapyContext(raw);
+        if (!context) return '';
+
+        const lines = ['', '## How this question was refined', '', '**Voice note:**', ''];
+        lines.push(...context.original_transcript.split('\n').map(line => `> ${line}`));
+
+        context.turns.forEach((turn, i) => {
+            lines.push('', `**Q${i + 1}:** ${turn.question}`, '', `**A${i + 1}:** ${turn.answer}`);
+        });
+
+        if (context.turns.length === 0) {
+            lines.push('', context.skipped
+                ? '*Clarifying questions were skipped.*'
+                : '*No clarifying questions were needed.*');
+        } else if (context.skipped) {
+            lines.push('', '*Remaining questions were skipped.*');
+        }
+        if (context.suggested_query) {
+            lines.push('', `**Suggested query:** ${context.suggested_query}`);
+        }
+        lines.push('');
+        return lines.join('\n');
+    }
+
+    async createPendingJobNote(jobId: string | null, query: string, idempotencyKey?: string, therapyContext?: any): Promise<string> {
+        const date = new Date().toISOString().split('T')[0];
+        const time = new Date().toLocaleTimeString();
+        const cleanQuery = query.substring(0, 40).replace(/[\\/:*?"<>|]/g, '-');
+        const folder = `${this.settings.syncFolder}/Pending`;
+
+        // Ensure folder exists
+        const folderObj = this.app.vault.getAbstractFileByPath(folder);
+        if (!folderObj) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        // Same day and same opening words would otherwise collide
+        let filename = `${folder}/${date} - ${cleanQuery}.md`;
+        for (let n = 2; this.app.vault.getAbstractFileByPath(filename); n++) {
+            filename = `${folder}/${date} - ${cleanQuery} (${n}).md`;
+        }
+        const content = `---
+type: pending-query
+${jobId ? `job_id: ${jobId}\n` : ''}${idempotencyKey ? `idempotency_key: ${idempotencyKey}\n` : ''}query: ${JSON.stringify(query)}
+submitted: ${date} ${time}
+status: ${jobId ? 'pending' : 'queued-offline'}
 ---
 
-# Training Review: ${topic}
+# Pending Query
 
-${articleContent}
+**Submitted:** ${date} ${time}
 
+**Query:** ${query}
+${this.formatTherapyTranscript(therapyContext)}
 ---
-## Deep Dive
-${rlmSessionId ? `> [!tip] Deep Dive Available
-> Select text and right-click → "Dive Deeper" to explore specific topics.
-> Or [View in Oracle](http://localhost:5002/c/${conversationUuid}) for the full interactive experience.` : '> No RLM session available for Deep Dive.'}
 
-## Links
-- Training Notes: [[${notesFilename}]]
-${conversationUuid ? `- [View in Oracle](http://localhost:5002/c/${conversationUuid})` : ''}
-`;
+${jobId ? '*Waiting for Oracle to process...*' : '*Queued offline - will be sent when you\'re back online.*'}
 
-            // Save Training Review
-            const reviewPath = `${folderPath}/${reviewFilename}.md`;
-            const existingReview = this.app.vault.getAbstractFileByPath(reviewPath);
-            if (existingReview instanceof TFile) {
-                await this.app.vault.modify(existingReview, reviewContent);
-            } else {
-                await this.app.vault.create(reviewPath, reviewContent);
-            }
+This note will be updated when results are ready.
+`;
 
-            // Add backlink to source file for graph view
-            await this.addTrainingReviewLink(file, reviewFilename);
+        await this.app.vault.create(filename, content);
+        return filename;
+    }
 
-            new Notice(`Training Review saved: ${reviewFilename}`, 5000);
+    // Offline outbox (durable queue of unsent submissions, stored in the vault)
+    getOutboxPath(): string {
+        return `${this.settings.syncFolder}/outbox.json`;
+    }
 
-            // Open the new Training Review file
-            const reviewFile = this.app.vault.getAbstractFileByPath(reviewPath);
-            if (reviewFile instanceof TFile) {
-                await this.app.workspace.getLeaf().openFile(reviewFile);
-            }
+    async readOutbox(): Promise<OutboxEntry[]> {
+        const path = this.getOutboxPath();
+        if (!(await this.app.vault.adapter.exists(path))) {
+            this.outboxSnapshot = null;
+            return [];
+        }
 
+        try {
+            const raw = await this.app.vault.adapter.read(path);
+            const data = JSON.parse(raw);
+            this.outboxSnapshot = raw;
+            return Array.isArray(data.entries) ? data.entries : [];
         } catch (error) {
-            console.error('Training review generation error:', error);
-            new Notice('Failed to generate Training Review. Check console for details.', 5000);
+            // Move the file aside so the next write can't wipe the queued queries
+            console.error('[Flipmode] Could not read outbox:', error);
+            this.outboxSnapshot = null;
+            const corruptPath = path.replace(/\.json$/, `.corrupt-${Date.now()}.json`);
+            try {
+                await this.app.vault.adapter.rename(path, corruptPath);
+                new Notice(`Offline outbox was unreadable and has been moved to ${corruptPath}`, 8000);
+            } catch (renameError) {
+                console.error('[Flipmode] Could not move corrupt outbox aside:', renameError);
+                throw error;
+            }
+            return [];
         }
     }
 
-    // Generate Training Review from selected text (right-click context menu)
-    async generateTrainingReviewFromSelection(editor: Editor, view: MarkdownView, selection: string) {
-        const file = view.file;
-        if (!file) {
-            new Notice('No file open');
-            return;
-        }
+    // Run outbox file access after any in-flight access finishes
+    withOutboxLock<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.outboxLock.then(task);
+        this.outboxLock = run.catch(() => undefined);
+        return run;
+    }
 
-        const query = selection.trim();
-        if (!query) {
-            new Notice('No text selected');
-            return;
-        }
+    // Read-modify-write the outbox under the lock
+    updateOutbox<T>(update: (entries: OutboxEntry[]) => Promise<T> | T): Promise<T> {
+        return this.withOutboxLock(async () => {
+            const entries = await this.readOutbox();
+            const result = await update(entries);
+            await this.writeOutbox(entries);
+            return result;
+        });
+    }
 
-        new Notice(`Generating Training Review...`, 3000);
+    async writeOutbox(entries: OutboxEntry[]) {
+        const content = JSON.stringify({ entries }, null, 2);
+        if (content === this.outboxSnapshot) return;
 
-        try {
-            // Get context from current file
-            const content = await this.app.vault.read(file);
-            const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+        await this.ensureFolder(this.settings.syncFolder);
+        await this.app.vault.adapter.write(this.getOutboxPath(), content);
+        this.outboxSnapshot = content;
+        this.refreshSidebar('queries', true);
+    }
 
-            let sessionContext = '';
-            let focus = 'research';
-            let dateStr = new Date().toISOString().split('T')[0];
-            let season = this.settings.currentSeason;
-            let episode = this.settings.currentEpisode;
-            let athleteName = this.settings.athleteName || 'Athlete';
+    async queueOfflineSubmission(query: string, therapyContext: any, idempotencyKey: string) {
+        await this.updateOutbox(async entries => {
+            if (entries.some(e => e.idempotencyKey === idempotencyKey)) return;
 
-            if (frontmatterMatch) {
-                const frontmatter = frontmatterMatch[1];
-                const focusMatch = frontmatter.match(/focus:\s*"([^"]+)"/);
-                if (focusMatch) focus = focusMatch[1];
+            const notePath = await this.createPendingJobNote(null, query, idempotencyKey, therapyContext);
+            const now = Date.now();
 
-                const dateMatch = frontmatter.match(/date:\s*(\S+)/);
-                if (dateMatch) dateStr = dateMatch[1];
+            entries.push({
+                idempotencyKey,
+                query,
+                therapyContext,
+                queuedAt: new Date(now).toISOString(),
+                attempts: 0,
+                nextAttemptAt: new Date(now + OUTBOX_RETRY_BASE_MS).toISOString(),
+                notePath
+            });
+        });
+    }
 
-                const seasonMatch = frontmatter.match(/season:\s*(\d+)/);
-                if (seasonMatch) season = parseInt(seasonMatch[1]);
+    startOutboxRetry() {
+        if (this.outboxIntervalId) {
+            window.clearInterval(this.outboxIntervalId);
+        }
 
-                const episodeMatch = frontmatter.match(/episode:\s*(\d+)/);
-                if (episodeMatch) episode = parseInt(episodeMatch[1]);
+        this.outboxIntervalId = window.setInterval(
+            () => this.flushOutbox(),
+            OUTBOX_RETRY_BASE_MS
+        );
 
-                // Extract struggles for context
-                const strugglesMatch = content.match(/## Struggles[\s\S]*?(?=##|$)/);
-                if (strugglesMatch) {
-                    sessionContext = strugglesMatch[0].replace('## Struggles', '').trim();
+        // Try right away in case we came back online while closed
+        this.app.workspace.onLayoutReady(() => this.flushOutbox());
+    }
+
+    /**
+     * Resend outbox entries that are due, once the queue service is healthy.
+     * Each entry keeps its idempotency key so a resend never creates a second job.
+     * Submits run outside the outbox lock; the results are merged by key into
+     * the current file, so queries queued meanwhile are kept.
+     */
+    async flushOutbox(force: boolean = false) {
+        if (!this.queueClient || this.outboxFlushing) return;
+        this.outboxFlushing = true;
+
+        try {
+            const entries = await this.withOutboxLock(() => this.readOutbox());
+            if (entries.length === 0) return;
+
+            const now = Date.now();
+            const due = entries.filter(e => force || new Date(e.nextAttemptAt).getTime() <= now);
+            if (due.length === 0) return;
+
+            if (!(await this.queueClient.checkHealth())) {
+                for (const entry of due) {
+                    this.scheduleOutboxRetry(entry, now);
                 }
+                await this.mergeOutboxResults(due, new Set());
+                return;
             }
 
-            // Call the coach-review endpoint with the selected query
-            const researchResponse = await requestUrl({
-                url: `${this.settings.serverUrl}/api/obsidian/coach-review`,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.apiToken}`
-                },
-                body: JSON.stringify({
-                    query: query,
-                    athlete_name: athleteName,
-                    session_context: sessionContext
-                })
-            });
+            const retried: OutboxEntry[] = [];
+            const done = new Set<string>();
+            let sent = 0;
 
-            const research = researchResponse.json;
+            for (const entry of due) {
+                let jobId: string;
+                try {
+                    ({ jobId } = await this.queueClient.submitQuery(entry.query, entry.therapyContext, entry.idempotencyKey));
+                } catch (error: any) {
+                    console.error('[Flipmode] Outbox retry failed:', error);
+                    if (this.isRetryableSubmitError(error)) {
+                        this.scheduleOutboxRetry(entry, now);
+                        retried.push(entry);
+                    } else {
+                        done.add(entry.idempotencyKey);
+                        await this.markOutboxNoteFailed(entry, error.message);
+                    }
+                    continue;
+                }
 
-            // Extract research data
-            // Use article_raw (no links) for markdown, Oracle URL for viewing with videos
-            const articleContent = research.article_raw || research.article || 'Research generation failed.';
-            const topic = research.topic || query;
-            const rlmSessionId = research.rlm_session_id || '';
-            const sourceCount = research.source_count || 0;
-            const articleSections = research.article_sections || [];
-            const conversationUuid = research.conversation_uuid || '';
+                // Sent: leaves the outbox even if its note can't be updated
+                done.add(entry.idempotencyKey);
+                let notePath: string | undefined;
+                try {
+                    notePath = await this.markOutboxNoteSent(entry, jobId);
+                } catch (error) {
+                    console.error('[Flipmode] Could not update outbox note:', error);
+                }
+                await this.trackPendingJob(jobId, entry.query, notePath);
+                sent++;
+            }
 
-            // Build Oracle URL - use /c/<uuid> if available (views existing article)
-            // Falls back to ?q= search (regenerates article) if no conversation saved
-            const oracleUrl = conversationUuid
-                ? `http://localhost:5002/c/${conversationUuid}`
-                : `http://localhost:5002/?q=${encodeURIComponent(topic)}`;
+            await this.mergeOutboxResults(retried, done);
 
-            // Build TTS audio section - now uses audio player modal
-            let audioSection = '';
-            if (articleSections.length > 0) {
-                audioSection = `## Listen to Review\n`;
-                audioSection += `> [!tip] Audio Player Available\n`;
-                audioSection += `> **${articleSections.length} audio sections** ready to play.\n`;
-                audioSection += `> Press \`Ctrl/Cmd + P\` and search "Open Audio Player" to listen.\n\n`;
+            if (sent > 0) {
+                new Notice(`Back online - sent ${sent} queued quer${sent === 1 ? 'y' : 'ies'} to Oracle`);
             }
+        } catch (error) {
+            console.error('[Flipmode] Outbox flush error:', error);
+        } finally {
+            this.outboxFlushing = false;
+        }
+    }
 
-            // Create safe filename from query
-            const safeQuery = query.substring(0, 40).replace(/[^a-zA-Z0-9]/g, '_').replace(/_+/g, '_');
-            const reviewFilename = `TrainingReview-${dateStr}-${safeQuery}`;
-
-            // Get folder path
-            const folderPath = file.parent?.path || `${this.settings.syncFolder}/Athletes/${athleteName}/Season ${season}/Session ${episode}`;
+    // Drop finished entries and store new retry times, keeping anything queued during the flush
+    async mergeOutboxResults(retried: OutboxEntry[], done: Set<string>) {
+        const retries = new Map(retried.map(entry => [entry.idempotencyKey, entry]));
+        await this.updateOutbox(entries => {
+            const kept = entries
+                .filter(entry => !done.has(entry.idempotencyKey))
+                .map(entry => retries.get(entry.idempotencyKey) || entry);
+            entries.splice(0, entries.length, ...kept);
+        });
+    }
 
-            // Create Training Review content (draft status until published)
-            // Store audio sections as YAML array for the player modal
-            const audioSectionsYaml = articleSections.length > 0
-                ? `audio_sections_data:\n${articleSections.map(s => `  - title: "${s.title.replace(/"/g, "'")}"\n    audio_url: "${s.audio_url}"`).join('\n')}`
-                : 'audio_sections_data: []';
+    scheduleOutboxRetry(entry: OutboxEntry, now: number) {
+        entry.attempts += 1;
+        const delay = Math.min(OUTBOX_RETRY_BASE_MS * Math.pow(2, entry.attempts), OUTBOX_RETRY_MAX_MS);
+        entry.nextAttemptAt = new Date(now + delay).toISOString();
+    }
 
-            const reviewContent = `---
-type: training-review
-status: draft
-season: ${season}
-episode: ${episode}
-date: ${dateStr}
-query: "${query.replace(/"/g, "'")}"
-topic: "${topic.replace(/"/g, "'")}"
-source_file: "[[${file.basename}]]"
-rlm_session_id: "${rlmSessionId}"
-conversation_uuid: "${conversationUuid}"
-source_count: ${sourceCount}
-audio_sections: ${articleSections.length}
-${audioSectionsYaml}
-pipeline: "${research.pipeline || 'multi_thinker'}"
-thinkers_used: ${research.thinkers_used || 0}
-tags: [bjj, training-review, season-${season}, research, draft]
----
-
-# Training Review: ${topic}
-> [!warning] DRAFT - Review and edit before publishing
-> Use command "Flipmode: Publish Training Review" when ready to send to athlete.
-> [View with Videos](${oracleUrl}) - Open in Oracle to verify sources
-
-${audioSection}> **Query:** ${query}
-
-${articleContent}
-
----
-## Deep Dive
-${rlmSessionId ? `> [!tip] Deep Dive Available
-> Select text and right-click → "Dive Deeper" to explore specific topics.
-> Or [View in Oracle](http://localhost:5002/c/${conversationUuid}) for the full interactive experience.` : '> No RLM session available for Deep Dive.'}
-
-## Links
-- Source: [[${file.basename}]]
-${conversationUuid ? `- [View in Oracle](http://localhost:5002/c/${conversationUuid})` : ''}
-`;
-
-            // Save Training Review
-            const reviewPath = `${folderPath}/${reviewFilename}.md`;
-            const existingReview = this.app.vault.getAbstractFileByPath(reviewPath);
-            if (existingReview instanceof TFile) {
-                await this.app.vault.modify(existingReview, reviewContent);
-            } else {
-                await this.app.vault.create(reviewPath, reviewContent);
-            }
-
-            // Add backlink to source file for graph view
-            await this.addTrainingReviewLink(file, reviewFilename);
-
-            new Notice(`Training Review saved: ${reviewFilename}`, 5000);
-
-            // Open the new Training Review file
-            const reviewFile = this.app.vault.getAbstractFileByPath(reviewPath);
-            if (reviewFile instanceof TFile) {
-                await this.app.workspace.getLeaf('split').openFile(reviewFile);
-            }
-
-        } catch (error) {
-            console.error('Training review from selection error:', error);
-            new Notice('Failed to generate Training Review. Check console for details.', 5000);
+    findOutboxNote(entry: OutboxEntry): TFile | null {
+        if (entry.notePath) {
+            const file = this.app.vault.getAbstractFileByPath(entry.notePath);
+            if (file instanceof TFile) return file;
         }
-    }
-
-    // Add backlink to source file for two-way graph connection
-    async addTrainingReviewLink(sourceFile: TFile, reviewFilename: string) {
-        try {
-            const content = await this.app.vault.read(sourceFile);
-            const reviewLink = `[[${reviewFilename}]]`;
-
-            // Check if Training Reviews section exists
-            if (content.includes('## Training Reviews')) {
-                // Add to existing section if not already there
-                if (!content.includes(reviewLink)) {
-                    const updatedContent = content.replace(
-                        /## Training Reviews\n/,
-                        `## Training Reviews\n- ${reviewLink}\n`
-                    );
-                    await this.app.vault.modify(sourceFile, updatedContent);
-                }
-            } else {
-                // Add new section at the end
-                const updatedContent = content + `\n## Training Reviews\n- ${reviewLink}\n`;
-                await this.app.vault.modify(sourceFile, updatedContent);
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (this.app.metadataCache.getFileCache(file)?.frontmatter?.idempotency_key === entry.idempotencyKey) {
+                return file;
             }
-        } catch (error) {
-            console.error('Failed to add backlink:', error);
         }
+        return null;
     }
 
-    // Dive Deeper - explore selected text using Oracle's RLM context
-    async diveDeeper(editor: Editor, view: MarkdownView, selection: string) {
-        const file = view.file;
+    // Turn a "queued offline" note into a regular pending note for the new job
+    async markOutboxNoteSent(entry: OutboxEntry, jobId: string): Promise<string | undefined> {
+        const file = this.findOutboxNote(entry);
         if (!file) {
-            new Notice('No file open');
-            return;
+            return await this.createPendingJobNote(jobId, entry.query, entry.idempotencyKey, entry.therapyContext);
         }
 
-        const focusText = selection.trim();
-        if (!focusText) {
-            new Notice('No text selected');
-            return;
-        }
+        let content = await this.app.vault.read(file);
+        content = content
+            .replace(/^type: pending-query$/m, `type: pending-query\njob_id: ${jobId}`)
+            .replace(/^status: queued-offline$/m, 'status: pending')
+            .replace('*Queued offline - will be sent when you\'re back online.*', '*Waiting for Oracle to process...*');
+        await this.app.vault.modify(file, content);
+        return file.path;
+    }
 
-        // Read frontmatter to get session context
-        const content = await this.app.vault.read(file);
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    async markOutboxNoteFailed(entry: OutboxEntry, error?: string) {
+        const file = this.findOutboxNote(entry);
+        if (!file) return;
 
-        if (!frontmatterMatch) {
-            new Notice('No frontmatter found. Dive Deeper requires a Training Review file.');
-            return;
-        }
+        let content = await this.app.vault.read(file);
+        content = content
+            .replace(/^status: queued-offline$/m, 'status: error')
+            .replace('*Queued offline - will be sent when you\'re back online.*', `*Query could not be sent${error ? `: ${error}` : ''}*`);
+        await this.app.vault.modify(file, content);
+    }
 
-        const frontmatter = frontmatterMatch[1];
+    showPendingJobsModal() {
+        new PendingJobsModal(this.app, this).open();
+    }
 
-        // Check for rlm_session_id
-        const sessionIdMatch = frontmatter.match(/rlm_session_id:\s*"([^"]+)"/);
-        if (!sessionIdMatch || !sessionIdMatch[1]) {
-            new Notice('No RLM session found. Generate a Training Review first.');
+    async connectWithDiscord() {
+        if (!this.settings.queueServiceUrl) {
+            new Notice('Configure Queue Service URL in settings first');
             return;
         }
 
-        const sessionId = sessionIdMatch[1];
+        // Open Discord OAuth URL in browser
+        const authUrl = `${this.settings.queueServiceUrl}/auth/discord`;
+        window.open(authUrl, '_blank');
 
-        // Get conversation_uuid for syncing
-        const convUuidMatch = frontmatter.match(/conversation_uuid:\s*"([^"]+)"/);
-        const conversationUuid = convUuidMatch ? convUuidMatch[1] : null;
+        new Notice('Complete Discord login in browser, then paste your token in settings');
+    }
 
-        new Notice(`Diving deeper on: ${focusText.substring(0, 40)}...`, 3000);
+    async syncGraphToCoach() {
+        if (!this.queueClient) return;
 
         try {
-            // Call Oracle's internal Deep Dive endpoint
-            const oracleUrl = 'http://localhost:5002';
-
-            const response = await requestUrl({
-                url: `${oracleUrl}/api/internal/deep-dive`,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    session_id: sessionId,
-                    focus_text: focusText,
-                    conversation_uuid: conversationUuid
-                })
-            });
-
-            const result = response.json;
-
-            if (result.error) {
-                new Notice(`Deep Dive failed: ${result.error}`, 5000);
-                return;
-            }
-
-            const deepDiveContent = result.deep_dive_raw || result.deep_dive_html || 'Deep Dive generation failed.';
-            const focusArea = result.focus_area || focusText.substring(0, 50);
-            const newSourcesCount = result.new_sources_count || 0;
+            const files = this.app.vault.getMarkdownFiles();
+            const flipmodeFiles = files.filter(f => f.path.startsWith(this.settings.syncFolder));
 
-            // Append Deep Dive section to current file
-            const timestamp = new Date().toLocaleTimeString();
-            const deepDiveSection = `
+            const graphData = {
+                sessions: [] as GraphSession[],
+                queries: [] as any[],
+                topics: [] as string[]
+            };
 
----
-## Deep Dive: ${focusArea}
-*Generated at ${timestamp} | ${newSourcesCount} new sources*
+            for (const file of flipmodeFiles) {
+                const cache = this.app.metadataCache.getFileCache(file);
+                const fm = cache?.frontmatter || {};
+                const type = fm.type;
 
-${deepDiveContent}
-`;
+                if (type === 'training-session') {
+                    graphData.sessions.push(this.parseTrainingSession(fm));
+                }
 
-            // Append to file
-            const updatedContent = content + deepDiveSection;
-            await this.app.vault.modify(file, updatedContent);
+                if (type === 'research' && fm.topic) {
+                    graphData.queries.push({
+                        topic: fm.topic,
+                        date: fm.date
+                    });
+                    graphData.topics.push(fm.topic);
+                }
 
-            new Notice(`Deep Dive complete: ${focusArea} (${newSourcesCount} new sources)`, 5000);
+                if (type === 'pending-query') {
+                    graphData.queries.push({
+                        topic: fm.query || file.basename,
+                        date: fm.submitted,
+                        pending: true
+                    });
+                }
+            }
 
-            // Scroll to the new section
-            const newCursor = { line: editor.lineCount() - 1, ch: 0 };
-            editor.setCursor(newCursor);
-            editor.scrollIntoView({ from: newCursor, to: newCursor }, true);
+            // Dedupe topics
+            graphData.topics = [...new Set(graphData.topics)];
 
+            await this.queueClient.syncGraph(graphData);
+            new Notice(`Synced: ${graphData.sessions.length} sessions, ${graphData.queries.length} queries`);
         } catch (error) {
-            console.error('Deep Dive error:', error);
-            new Notice('Deep Dive failed. Check console for details.', 5000);
+            console.error('Graph sync error:', error);
+            new Notice('Failed to sync graph');
         }
     }
 
-    // Explode article content into linked concept graph nodes
-    async explodeToConceptGraph(editor: Editor, view: MarkdownView, selection: string) {
-        const file = view.file;
-        if (!file) {
-            new Notice('No file open');
-            return;
+    onunload() {
+        if (this.syncIntervalId) {
+            window.clearInterval(this.syncIntervalId);
         }
-
-        const contentToExplode = selection.trim();
-        if (!contentToExplode || contentToExplode.length < 100) {
-            new Notice('Select more text to explode (at least a paragraph)');
-            return;
+        if (this.pollIntervalId) {
+            window.clearInterval(this.pollIntervalId);
+        }
+        if (this.canvasPollIntervalId) {
+            window.clearInterval(this.canvasPollIntervalId);
         }
+        if (this.outboxIntervalId) {
+            window.clearInterval(this.outboxIntervalId);
+        }
+        this.canvasSyncTimers.forEach(timer => window.clearTimeout(timer));
+        this.stopEventStream();
+    }
 
-        // Get source file's RLM session for concept enrichment later
-        const sourceContent = await this.app.vault.read(file);
-        const frontmatterMatch = sourceContent.match(/^---\n([\s\S]*?)\n---/);
-        let sourceRlmSessionId = '';
-        if (frontmatterMatch) {
-            const sessionMatch = frontmatterMatch[1].match(/rlm_session_id:\s*"([^"]+)"/);
-            if (sessionMatch) sourceRlmSessionId = sessionMatch[1];
+    async syncFromCoach() {
+        if (!this.queueClient) {
+            new Notice('Remote mode not configured - check settings');
+            return;
         }
 
-        new Notice('Exploding to concept graph...', 3000);
+        new Notice('Checking for completed research...');
 
         try {
-            const response = await requestUrl({
-                url: `${this.settings.serverUrl}/api/obsidian/explode-concepts`,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.apiToken}`
-                },
-                body: JSON.stringify({
-                    content: contentToExplode,
-                    source_file: file.basename
-                })
-            });
+            const jobs = await this.queueClient.listJobs();
+            const completedJobs = jobs.filter(j => j.status === 'complete');
 
-            const result = response.json;
+            let synced = 0;
+            for (const job of completedJobs) {
+                // Check if already saved (look for file with job_id in frontmatter)
+                // A still-pending note for the job gets replaced by the article instead
+                const existingFile = this.findFileByJobId(job.job_id);
+                const isPendingNote = existingFile
+                    && this.app.metadataCache.getFileCache(existingFile)?.frontmatter?.type === 'pending-query';
+                if (existingFile && !isPendingNote) {
+                    console.log('[Flipmode] Already synced:', job.job_id);
+                    continue;
+                }
 
-            if (result.error) {
-                new Notice(`Explode failed: ${result.error}`, 5000);
-                return;
+                // Fetch full result
+                const result = await this.queueClient.getResult(job.job_id);
+                if (result.article) {
+                    const filename = await this.saveCoachArticleToVault(job, result, isPendingNote ? existingFile : null);
+                    console.log('[Flipmode] Synced:', filename);
+                    this.pendingJobs.delete(job.job_id);
+                    synced++;
+                }
             }
 
-            // Structure: checkpoints with invariables (tiered) and variables (IF/THEN)
-            const checkpoints = result.checkpoints || [];
-            if (checkpoints.length === 0) {
-                new Notice('No checkpoints extracted');
-                return;
+            if (synced > 0) {
+                await this.savePendingJobs();
             }
 
-            const topicName = result.topic_name || file.basename;
-            const topicTags: string[] = result.topic_tags || [];
-            const clusterName = topicName.replace(/[^\w\s-]/g, '').trim();
-            const conceptsBase = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
-            const conceptsFolder = `${conceptsBase}/${clusterName}`;
-            await this.ensureFolder(conceptsFolder);
+            // Also sync concepts
+            let conceptsSynced = 0;
+            try {
+                const concepts = await this.queueClient.getConcepts();
+                if (concepts.length > 0) {
+                    conceptsSynced = await this.syncConceptsToVault(concepts);
+                }
+            } catch (err) {
+                console.log('[Flipmode] No concepts to sync or error:', err);
+            }
 
-            const normalizeName = (name: string) => {
-                if (!name) return '';
-                let clean = name.replace(/[^\w\s-]/g, '').trim();
-                clean = clean.replace(/^(The|A|An)\s+/i, '');
-                return clean;
-            };
+            // Articles the coach broadcast to a group of athletes
+            let broadcastsSynced = 0;
+            try {
+                broadcastsSynced = await this.syncBroadcasts();
+            } catch (err) {
+                console.log('[Flipmode] No broadcasts to sync or error:', err);
+            }
 
-            const topicTagsStr = topicTags.length > 0
-                ? topicTags.map((t: string) => t.toLowerCase().replace(/\s+/g, '-')).join(', ')
-                : '';
+            // And coach replies on research threads
+            const replies = await this.syncThreadsInFolder(`${this.settings.syncFolder}/Research`);
 
-            let createdCount = 0;
-            const createdNames = new Set<string>();
-            checkpoints.sort((a: any, b: any) => (a.order || 1) - (b.order || 1));
+            if (synced > 0 || conceptsSynced > 0 || broadcastsSynced > 0 || replies > 0) {
+                const msg = [];
+                if (synced > 0) msg.push(`${synced} research article(s)`);
+                if (broadcastsSynced > 0) msg.push(`${broadcastsSynced} broadcast(s)`);
+                if (conceptsSynced > 0) msg.push(`${conceptsSynced} concept(s)`);
+                if (replies > 0) msg.push(`${replies} repl${replies === 1 ? 'y' : 'ies'}`);
+                new Notice(`Synced ${msg.join(' and ')} from Oracle!`);
+            } else {
+                new Notice('All research already synced');
+            }
+        } catch (error) {
+            console.error('[Flipmode] Sync error:', error);
+            new Notice('Failed to sync from Oracle');
+        }
+    }
 
-            // Create CHECKPOINT notes (link sequentially)
-            for (let i = 0; i < checkpoints.length; i++) {
-                const cp = checkpoints[i];
-                const cpName = normalizeName(cp.name);
-                if (!cpName || createdNames.has(cpName.toLowerCase())) continue;
+    // Save broadcasts not yet in the vault (matched by broadcast_id) to the Research folder
+    // Fetch broadcasts sent since the last sync and save the unseen ones
+    async syncBroadcasts(): Promise<number> {
+        if (!this.queueClient) return 0;
 
-                const cpPath = `${conceptsFolder}/${cpName}.md`;
-                if (this.app.vault.getAbstractFileByPath(cpPath)) {
-                    createdNames.add(cpName.toLowerCase());
-                    continue;
-                }
+        const broadcasts = await this.queueClient.getBroadcasts(this.settings.broadcastsSyncedAt || undefined);
+        const created = await this.syncBroadcastsToVault(broadcasts);
 
-                const order = cp.order || (i + 1);
-                const prevCp = i > 0 ? normalizeName(checkpoints[i - 1].name) : null;
-                const nextCp = i < checkpoints.length - 1 ? normalizeName(checkpoints[i + 1].name) : null;
+        const latest = broadcasts.reduce((max, b) => b.sent_at > max ? b.sent_at : max, this.settings.broadcastsSyncedAt);
+        if (latest !== this.settings.broadcastsSyncedAt) {
+            this.settings.broadcastsSyncedAt = latest;
+            await this.saveSettings();
+        }
+        return created;
+    }
 
-                // Build invariables by tier
-                const invariables = cp.invariables || [];
-                const tier1 = invariables.filter((inv: any) => inv.tier === 'tier1');
-                const tier2 = invariables.filter((inv: any) => inv.tier === 'tier2');
-                const tier3 = invariables.filter((inv: any) => inv.tier === 'tier3' || !inv.tier);
+    async syncBroadcastsToVault(broadcasts: Broadcast[]): Promise<number> {
+        if (broadcasts.length === 0) return 0;
 
-                const formatTierLinks = (items: any[]) => items.length > 0
-                    ? items.map((inv: any) => `[[${clusterName}/${normalizeName(inv.name)}|${normalizeName(inv.name)}]]`).join(' · ')
-                    : '*none*';
+        // Dedupe on the ids recorded in settings so a deleted or moved note isn't re-created;
+        // notes saved before ids were recorded are picked up from their frontmatter
+        const saved = new Set<string>(this.settings.seenBroadcastIds);
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const id = this.app.metadataCache.getFileCache(file)?.frontmatter?.broadcast_id;
+            if (id) saved.add(String(id));
+        }
 
-                // Build variables
-                const variables = cp.variables || [];
-                const varLinks = variables.length > 0
-                    ? variables.map((v: any) => `- **${v.trigger}** → [[${clusterName}/${normalizeName(v.name)}|${normalizeName(v.name)}]]`).join('\n')
-                    : '*No situational responses*';
+        const folder = `${this.settings.syncFolder}/Research`;
+        await this.ensureFolder(folder);
 
-                const content = `---
-type: checkpoint
-order: ${order}
-cluster: "${clusterName}"
-tags: [grappling, checkpoint${topicTagsStr ? ', ' + topicTagsStr : ''}]
-source_file: "${file.basename}"
-source_rlm_session: "${sourceRlmSessionId}"
----
+        let created = 0;
+        for (const broadcast of broadcasts) {
+            if (saved.has(broadcast.id)) continue;
+
+            const date = (broadcast.sent_at || new Date().toISOString()).split('T')[0];
+            const title = broadcast.title.substring(0, 50).replace(/[^\w\s-]/g, '').trim() || 'Broadcast';
+            let filename = `${folder}/${date} - ${title}.md`;
+            for (let n = 2; this.app.vault.getAbstractFileByPath(filename); n++) {
+                filename = `${folder}/${date} - ${title} (${n}).md`;
+            }
 
-# [${order}] ${cpName}
+            const sourcesSection = broadcast.sources.length > 0
+                ? `\n## Sources\n\n${broadcast.sources.map(s => this.renderSourceLine(s)).join('\n')}\n`
+                : '';
 
-> [!success] CHECKPOINT ${order} of ${checkpoints.length}
+            await this.app.vault.create(filename, `---
+type: coach-broadcast
+broadcast_id: ${broadcast.id}
+title: ${JSON.stringify(broadcast.title)}
+from: ${broadcast.coach_name || 'Coach'}
+received: ${new Date().toISOString()}
+source_count: ${broadcast.sources.length}
+tags: [bjj, research, from-coach]
+---
 
-## Goal
+# ${broadcast.title}
 
-${cp.goal || 'No goal defined.'}
+*Sent by ${broadcast.coach_name || 'your coach'} to your group*
 
-## Success Test
+${broadcast.article}
+${sourcesSection}
+---
+*Research provided by Oracle*
+`);
+            this.settings.seenBroadcastIds = [...this.settings.seenBroadcastIds, broadcast.id];
+            await this.saveSettings();
+            created++;
+        }
+        return created;
+    }
 
-> ${cp.success_test || 'No test defined.'}
+    async syncConceptsToVault(concepts: Concept[]): Promise<number> {
+        const folder = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
+        await this.ensureFolder(folder);
 
----
+        let created = 0;
+        for (const raw of concepts) {
+            const concept = this.canonicalizeConcept(raw);
+            const conceptName = concept.name;
+            const conceptPath = `${folder}/${conceptName}.md`;
 
-## INVARIABLES (Always Do Together)
+            // Check if exists
+            const existing = this.app.vault.getAbstractFileByPath(conceptPath);
+            if (existing) continue;
 
-| Tier | Concepts |
-|------|----------|
-| CRITICAL | ${formatTierLinks(tier1)} |
-| IMPORTANT | ${formatTierLinks(tier2)} |
-| REFINEMENT | ${formatTierLinks(tier3)} |
+            // Build linked markdown
+            const parentLink = concept.parent ? `[[${concept.parent}]]` : 'Root concept';
+            const prereqLinks = (concept.prerequisites || []).map((p: string) => `- [[${p}]]`).join('\n') || '- None';
+            const leadsToLinks = (concept.leads_to || []).map((l: string) => `- [[${l}]]`).join('\n') || '- None';
+            const counterLinks = (concept.counters || []).map((c: string) => `- [[${c}]]`).join('\n') || '- None';
+            const relatedLinks = (concept.related || []).map((r: string) => `- [[${r}]]`).join('\n') || '- None';
 
+            const content = `---
+type: concept
+parent: "${concept.parent || ''}"
+${this.taxonomyFrontmatter(conceptName)}tags: [concept, grappling, ${concept.category?.toLowerCase() || 'technique'}]
 ---
 
-## VARIABLES (IF/THEN)
-
-${varLinks}
+# ${concept.name}
 
----
+**Category:** ${concept.category || 'Technique'}
+**Parent:** ${parentLink}
 
-## Navigation
+## Summary
 
-| Previous | Next |
-|----------|------|
-| ${prevCp ? `[[${clusterName}/${prevCp}|< ${prevCp}]]` : '*Start*'} | ${nextCp ? `[[${clusterName}/${nextCp}|${nextCp} >]]` : '*End*'} |
-`;
+${concept.summary || 'No summary available.'}
 
-                await this.app.vault.create(cpPath, content);
-                createdNames.add(cpName.toLowerCase());
-                createdCount++;
-            }
+## Prerequisites
 
-            // Create INVARIABLE notes
-            for (const cp of checkpoints) {
-                const cpName = normalizeName(cp.name);
-                const order = cp.order || 1;
+${prereqLinks}
 
-                for (const inv of (cp.invariables || [])) {
-                    const invName = normalizeName(inv.name);
-                    if (!invName || createdNames.has(invName.toLowerCase())) continue;
+## Leads To
 
-                    const invPath = `${conceptsFolder}/${invName}.md`;
-                    if (this.app.vault.getAbstractFileByPath(invPath)) {
-                        createdNames.add(invName.toLowerCase());
-                        continue;
-                    }
+${leadsToLinks}
 
-                    const tier = inv.tier || 'tier3';
-                    const tierLabel = tier === 'tier1' ? 'CRITICAL' : tier === 'tier2' ? 'IMPORTANT' : 'REFINEMENT';
+## Counters
 
-                    // Siblings at same checkpoint
-                    const siblings = (cp.invariables || [])
-                        .filter((i: any) => normalizeName(i.name).toLowerCase() !== invName.toLowerCase())
-                        .map((i: any) => `[[${clusterName}/${normalizeName(i.name)}|${normalizeName(i.name)}]]`)
-                        .join(' · ');
+${counterLinks}
 
-                    const content = `---
-type: invariable
-tier: "${tier}"
-checkpoint: "${cpName}"
-checkpoint_order: ${order}
-cluster: "${clusterName}"
-tags: [grappling, invariable, ${tier}${topicTagsStr ? ', ' + topicTagsStr : ''}]
-source_file: "${file.basename}"
-source_rlm_session: "${sourceRlmSessionId}"
----
+## Related Concepts
 
-# ${invName}
+${relatedLinks}
+`;
 
-> [!${tier === 'tier1' ? 'danger' : tier === 'tier2' ? 'warning' : 'info'}] ${tierLabel} INVARIABLE
-> Part of [[${clusterName}/${cpName}|Checkpoint ${order}: ${cpName}]]
+            await this.app.vault.create(conceptPath, content);
+            created++;
+        }
 
-## WHY
+        if (created > 0) this.refreshSidebar('concepts');
+        return created;
+    }
 
-> ${inv.why || 'See parent article.'}
+    async suggestConceptMerges() {
+        const conceptsBase = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
+        const conceptFiles = this.app.vault.getMarkdownFiles().filter(f =>
+            f.path.startsWith(conceptsBase + '/') && !f.basename.startsWith('_')
+        );
 
-## HOW
+        const suggestions = suggestMerges(conceptFiles.map(f => f.basename));
+        if (suggestions.length === 0) {
+            new Notice('No near-duplicate concepts found');
+            return;
+        }
 
-${inv.how || 'No explanation.'}
+        new ConceptMergeModal(this.app, this, suggestions, conceptFiles).open();
+    }
 
-## FEEL
+    /**
+     * Fold duplicate concept notes into one. Their bodies are appended to the
+     * target, links and canvas nodes pointing at them are redirected, and the
+     * duplicates go to the trash.
+     */
+    async mergeConceptFiles(target: TFile, duplicates: TFile[], canonical: string): Promise<TFile> {
+        // Give the surviving note its canonical name first (Obsidian updates links)
+        if (target.basename !== canonical && !this.app.vault.getAbstractFileByPath(`${target.parent?.path}/${canonical}.md`)) {
+            await this.app.fileManager.renameFile(target, `${target.parent?.path}/${canonical}.md`);
+        }
 
-> ${inv.feel || 'No feel description.'}
+        for (const dup of duplicates) {
+            if (dup.path === target.path) continue;
 
----
+            const dupContent = await this.app.vault.read(dup);
+            const dupBody = dupContent.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n)?/, '').trim().replace(/^# .*\r?\n?/, '').trim();
+            if (dupBody) {
+                const targetContent = await this.app.vault.read(target);
+                await this.app.vault.modify(target, `${targetContent.trimEnd()}\n\n## Merged from ${dup.basename}\n\n${dupBody}\n`);
+            }
 
-## Do Together With
+            await this.redirectLinks(dup, target);
+            await this.app.vault.trash(dup, true);
+        }
 
-${siblings || '*Only invariable at this checkpoint*'}
+        return target;
+    }
 
-## Parent
+    // Point wikilinks and canvas file nodes at `to` instead of `from`
+    async redirectLinks(from: TFile, to: TFile) {
+        const escaped = from.basename.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const linkPattern = new RegExp(`\\[\\[(?:[^\\]|]*/)?${escaped}(\\|[^\\]]*)?\\]\\]`, 'g');
+        const resolved = this.app.metadataCache.resolvedLinks;
+
+        for (const sourcePath of Object.keys(resolved)) {
+            if (!resolved[sourcePath][from.path] || sourcePath === from.path) continue;
+            const source = this.app.vault.getAbstractFileByPath(sourcePath);
+            if (!(source instanceof TFile)) continue;
+
+            const linktext = this.app.metadataCache.fileToLinktext(to, sourcePath, true);
+            const content = await this.app.vault.read(source);
+            const updated = content.replace(linkPattern, (_match, alias) => `[[${linktext}${alias || ''}]]`);
+            if (updated !== content) {
+                await this.app.vault.modify(source, updated);
+            }
+        }
 
-[[${clusterName}/${cpName}|< ${cpName}]]
-`;
+        for (const canvas of this.app.vault.getFiles().filter(f => f.extension === 'canvas')) {
+            let data: any;
+            try {
+                data = JSON.parse(await this.app.vault.read(canvas));
+            } catch (error) {
+                console.error(`[Flipmode] Skipping unreadable canvas ${canvas.path}:`, error);
+                continue;
+            }
 
-                    await this.app.vault.create(invPath, content);
-                    createdNames.add(invName.toLowerCase());
-                    createdCount++;
+            let changed = false;
+            for (const node of data?.nodes || []) {
+                if (node.type === 'file' && node.file === from.path) {
+                    node.file = to.path;
+                    changed = true;
                 }
             }
+            if (changed) {
+                await this.app.vault.modify(canvas, JSON.stringify(data, null, 2));
+            }
+        }
+    }
 
-            // Create VARIABLE notes
-            for (const cp of checkpoints) {
-                const cpName = normalizeName(cp.name);
-                const order = cp.order || 1;
+    // Taxonomy position and orientation lines for concept frontmatter (empty if unknown)
+    taxonomyFrontmatter(name: string): string {
+        const entry = resolveTaxonomy(name);
+        if (!entry) return '';
+        const path = taxonomyPath(entry).reverse().join(' / ');
+        return `taxonomy: "${path}"\norientation: ${entry.orientation}\n`;
+    }
 
-                for (const v of (cp.variables || [])) {
-                    const vName = normalizeName(v.name);
-                    if (!vName || createdNames.has(vName.toLowerCase())) continue;
+    /**
+     * Canonical names for a concept and everything it links to. Without a parent,
+     * a known concept takes its taxonomy parent.
+     */
+    canonicalizeConcept(concept: Concept): Concept {
+        const linkName = (link: string) => normalizeConceptName(link.split('|')[0].split('/').pop() || link);
+        const links = (items?: string[]) => [...new Set((items || []).map(linkName).filter(n => n.length > 0))];
 
-                    const vPath = `${conceptsFolder}/${vName}.md`;
-                    if (this.app.vault.getAbstractFileByPath(vPath)) {
-                        createdNames.add(vName.toLowerCase());
-                        continue;
-                    }
+        const name = normalizeConceptName(concept.name);
+        const parent = concept.parent
+            ? linkName(concept.parent)
+            : resolveTaxonomy(name)?.parent || null;
 
-                    const content = `---
-type: variable
-trigger: "${v.trigger || ''}"
-checkpoint: "${cpName}"
-checkpoint_order: ${order}
-cluster: "${clusterName}"
-tags: [grappling, variable${topicTagsStr ? ', ' + topicTagsStr : ''}]
-source_file: "${file.basename}"
-source_rlm_session: "${sourceRlmSessionId}"
----
-
-# ${vName}
-
-> [!warning] VARIABLE - Situational Response
-> Part of [[${clusterName}/${cpName}|Checkpoint ${order}: ${cpName}]]
-
-## TRIGGER
+        return {
+            ...concept,
+            name,
+            parent,
+            prerequisites: links(concept.prerequisites),
+            leads_to: links(concept.leads_to),
+            counters: links(concept.counters),
+            related: links(concept.related)
+        };
+    }
 
-> **${v.trigger || 'When opponent reacts'}**
+    findFileByJobId(jobId: string): TFile | null {
+        const files = this.app.vault.getMarkdownFiles();
+        for (const file of files) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            if (cache?.frontmatter?.job_id === jobId) {
+                return file;
+            }
+        }
+        return null;
+    }
 
-## ACTION
+    /**
+     * Save a completed coach article to the Research folder.
+     * If the job's Pending note is given, it is rewritten and moved there
+     * so no orphaned pending note is left behind.
+     */
+    async saveCoachArticleToVault(job: Pick<Job, 'job_id'> & Partial<Job>, result: JobResult, pendingFile: TFile | null = null): Promise<string> {
+        const folder = `${this.settings.syncFolder}/Research`;
+        await this.ensureFolder(folder);
 
-${v.action || 'No action described.'}
+        const date = new Date().toISOString().split('T')[0];
+        const shortQuery = (job.enriched_query || job.query_text || 'Research')
+            .substring(0, 50)
+            .replace(/[^\w\s-]/g, '')
+            .trim();
 
-## WHY This Works
+        const filename = `${folder}/${date} - ${shortQuery}.md`;
 
-> ${v.why || 'See parent article.'}
+        const sourcesSection = result.sources.length > 0
+            ? `\n## Sources\n\n${result.sources.map(s => this.renderSourceLine(s)).join('\n')}\n`
+            : '';
 
+        const content = `---
+type: oracle-research
+job_id: ${job.job_id}
+query: "${job.enriched_query || job.query_text}"
+received: ${new Date().toISOString()}
+rlm_session_id: ${result.rlm_session_id || ''}
+source_count: ${result.sources.length}
+tags: [bjj, research, from-oracle]
 ---
 
-## Parent
+# Research: ${shortQuery}
 
-[[${clusterName}/${cpName}|< ${cpName}]]
+${result.article}
+${sourcesSection}
+---
+*Research provided by Oracle*
 `;
 
-                    await this.app.vault.create(vPath, content);
-                    createdNames.add(vName.toLowerCase());
-                    createdCount++;
-                }
+        if (pendingFile) {
+            await this.app.vault.modify(pendingFile, content);
+            if (!this.app.vault.getAbstractFileByPath(filename)) {
+                await this.app.fileManager.renameFile(pendingFile, filename);
+                return filename;
             }
+            return pendingFile.path;
+        }
 
-            // Create index
-            const clusterTag = `cluster/${clusterName.toLowerCase().replace(/\s+/g, '-')}`;
-            const indexPath = `${conceptsBase}/${clusterName}.md`;
-
-            const cpList = checkpoints.map((cp: any) => {
-                const cpName = normalizeName(cp.name);
-                const invCount = (cp.invariables || []).length;
-                const varCount = (cp.variables || []).length;
-                return `${cp.order || 1}. [[${clusterName}/${cpName}|${cpName}]] (${invCount} inv, ${varCount} var)`;
-            }).join('\n');
+        await this.app.vault.create(filename, content);
+        return filename;
+    }
 
-            const totalInv = checkpoints.reduce((sum: number, cp: any) => sum + (cp.invariables || []).length, 0);
-            const totalVar = checkpoints.reduce((sum: number, cp: any) => sum + (cp.variables || []).length, 0);
+    // Newest comment seen per synced folder, the cursor for the next thread sync
+    private commentCursors = new Map<string, string>();
 
-            // Build Mermaid flowchart
-            let mermaidFlow = 'flowchart LR\n';
-            for (let i = 0; i < checkpoints.length; i++) {
-                const cp = checkpoints[i];
-                const cpId = `CP${i + 1}`;
-                const cpName = normalizeName(cp.name).replace(/"/g, '');
-                mermaidFlow += `    ${cpId}["[${i + 1}] ${cpName}"]\n`;
-            }
-            for (let i = 0; i < checkpoints.length - 1; i++) {
-                mermaidFlow += `    CP${i + 1} --> CP${i + 2}\n`;
-            }
+    // Thread client for the current mode (both share the same comment endpoints)
+    getThreadClient(): RemoteQueueClient | CoachQueueClient | null {
+        if (this.isCoachMode()) return this.coachClient;
+        if (this.isRemoteMode()) return this.queueClient;
+        return null;
+    }
 
-            const indexContent = `---
-type: sequence
-cluster: "${clusterName}"
-tags: [cluster, grappling, sequence, ${clusterTag}]
-source_file: "${file.basename}"
-checkpoints_count: ${checkpoints.length}
-invariables_count: ${totalInv}
-variables_count: ${totalVar}
----
+    // Notes a thread can live on: athlete research notes and coach query notes
+    getThreadJobId(file: TFile): string | null {
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!fm?.job_id) return null;
+        if (fm.type !== 'oracle-research' && fm.type !== 'pending-query' && fm.type !== 'training-review') return null;
+        return String(fm.job_id);
+    }
 
-# ${clusterName}
+    async replyToThread(view: MarkdownView) {
+        const file = view.file;
+        const client = this.getThreadClient();
+        if (!file || !client) {
+            new Notice('Discussion threads need remote or coach mode');
+            return;
+        }
 
-> [!tip] Sequential Checkpoints with Invariables and Variables
+        const jobId = this.getThreadJobId(file);
+        if (!jobId) {
+            new Notice('This note is not linked to a query (no job_id)');
+            return;
+        }
 
-**Source:** [[${file.basename}]]
-**Checkpoints:** ${checkpoints.length} | **Invariables:** ${totalInv} | **Variables:** ${totalVar}
+        const authorName = this.isCoachMode() ? this.getCoachName() : this.settings.athleteName;
+        const to = this.isCoachMode() ? 'athlete' : 'coach';
 
----
+        new ThreadReplyModal(this.app, `Reply to your ${to}`, async (text) => {
+            await client.postComment(jobId, text, authorName);
+            await this.syncCommentThread(file);
+            new Notice('Reply sent');
+        }).open();
+    }
 
-## Flow Diagram
+    /**
+     * Fetch a job's comments and re-render the note's Discussion section.
+     * Returns how many comments are new since the last render.
+     */
+    async syncCommentThread(file: TFile): Promise<number> {
+        const client = this.getThreadClient();
+        const jobId = this.getThreadJobId(file);
+        if (!client || !jobId) return 0;
 
-\`\`\`mermaid
-${mermaidFlow}\`\`\`
+        const comments = await client.getComments(jobId);
+        if (comments.length === 0) return 0;
 
----
+        // The section runs to the next heading, so anything written below it stays
+        const content = await this.app.vault.read(file);
+        const existing = content.match(/\n## Discussion\n[\s\S]*?(?=\n#{1,2} |(?![\s\S]))/);
+        const previousCount = existing ? (existing[0].match(/^> \[!\w+\]/gm) || []).length : 0;
 
-## The Sequence
+        const thread = `\n## Discussion\n\n${this.renderCommentThread(comments)}\n`;
+        const updated = existing ? content.replace(existing[0], thread) : `${content.trimEnd()}\n${thread}`;
 
-${cpList}
+        if (updated !== content) {
+            await this.app.vault.modify(file, updated);
+        }
+        return Math.max(0, comments.length - previousCount);
+    }
 
----
+    // Each comment as a callout: coach replies as info, athlete replies as quotes
+    renderCommentThread(comments: JobComment[]): string {
+        return [...comments]
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(comment => {
+                const callout = comment.author_role === 'coach' ? 'info' : 'quote';
+                const when = new Date(comment.created_at).toLocaleString();
+                const body = comment.body.split('\n').map(line => `> ${line}`).join('\n');
+                return `> [!${callout}] ${comment.author_name} · ${when}\n${body}`;
+            })
+            .join('\n\n');
+    }
 
-## How It Works
+    /**
+     * Refresh threads on the notes in a folder that have new comments. One call
+     * lists comments since the folder's last sync; only threads it names are
+     * fetched again.
+     */
+    async syncThreadsInFolder(folder: string): Promise<number> {
+        const client = this.getThreadClient();
+        if (!client) return 0;
 
-1. **Checkpoints** = Sequential milestones (complete 1 before 2)
-2. **Invariables** = Always do (tiered by priority, do together)
-3. **Variables** = IF/THEN responses at each checkpoint
-`;
+        let recent: JobComment[];
+        try {
+            recent = await client.getRecentComments(this.commentCursors.get(folder));
+        } catch (error) {
+            console.error('[Flipmode] Could not check for new comments:', error);
+            return 0;
+        }
+        if (recent.length === 0) return 0;
+        const latest = recent.map(c => c.created_at).sort().pop()!;
+        const changed = new Set(recent.map(c => c.job_id));
 
-            if (!this.app.vault.getAbstractFileByPath(indexPath)) {
-                await this.app.vault.create(indexPath, indexContent);
+        let added = 0;
+        let failed = false;
+        const files = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(`${folder}/`));
+        for (const file of files) {
+            const jobId = this.getThreadJobId(file);
+            if (!jobId || !changed.has(jobId)) continue;
+            try {
+                added += await this.syncCommentThread(file);
+            } catch (error) {
+                failed = true;
+                console.error(`[Flipmode] Thread sync failed for ${file.path}:`, error);
             }
+        }
+        // Keep the old cursor after a failure so those threads are tried again
+        if (!failed) this.commentCursors.set(folder, latest);
+        return added;
+    }
 
-            // Create Canvas file for visual timeline
-            const canvasPath = `${conceptsBase}/${clusterName}.canvas`;
-            if (!this.app.vault.getAbstractFileByPath(canvasPath)) {
-                const nodes: any[] = [];
-                const edges: any[] = [];
-                let nodeId = 1;
+    // "- **Instructor** - Title @ 12:34 (`video_id`)"
+    renderSourceLine(source: ArticleSource): string {
+        const title = source.title || source.video_title || source.video_name || 'Untitled video';
+        const timestamp = this.formatSourceTimestamp(source);
+        return `- **${source.instructor || 'Unknown'}** - ${title}${timestamp ? ` @ ${timestamp}` : ''}${source.video_id ? ` (\`${source.video_id}\`)` : ''}`;
+    }
 
-                // Layout constants
-                const cpWidth = 280;
-                const cpHeight = 80;
-                const conceptWidth = 220;
-                const conceptHeight = 60;
-                const cpSpacing = 350;
-                const verticalGap = 100;
+    isRemoteMode(): boolean {
+        return this.settings.mode === 'remote' && !!this.queueClient;
+    }
 
-                // Create checkpoint nodes (horizontal line)
-                const cpNodeIds: string[] = [];
-                for (let i = 0; i < checkpoints.length; i++) {
-                    const cp = checkpoints[i];
-                    const cpName = normalizeName(cp.name);
-                    const cpId = `cp-${nodeId++}`;
-                    cpNodeIds.push(cpId);
+    async loadSettings() {
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    }
 
-                    nodes.push({
-                        id: cpId,
-                        type: 'file',
-                        file: `${conceptsFolder}/${cpName}.md`,
-                        x: i * cpSpacing,
-                        y: 0,
-                        width: cpWidth,
-                        height: cpHeight,
-                        color: '6'
-                    });
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
 
-                    // Create invariable nodes below checkpoint
-                    const invariables = cp.invariables || [];
-                    for (let j = 0; j < invariables.length; j++) {
-                        const inv = invariables[j];
-                        const invName = normalizeName(inv.name);
-                        const invId = `inv-${nodeId++}`;
-                        const tier = inv.tier || 'tier3';
-                        const color = tier === 'tier1' ? '1' : tier === 'tier2' ? '3' : '4';
+    updateStatusBar(status: string) {
+        this.statusBarItem.setText(`Flipmode: ${status}`);
+        this.connectionStatus = status;
+        for (const leaf of this.app.workspace.getLeavesOfType(FLIPMODE_SIDEBAR_VIEW)) {
+            (leaf.view as FlipmodeSidebarView).setConnectionStatus(status);
+        }
+    }
 
-                        nodes.push({
-                            id: invId,
-                            type: 'file',
-                            file: `${conceptsFolder}/${invName}.md`,
-                            x: i * cpSpacing + (j * 120) - ((invariables.length - 1) * 60),
-                            y: cpHeight + verticalGap,
-                            width: conceptWidth,
-                            height: conceptHeight,
-                            color: color
-                        });
+    // API Methods
+    async apiRequest(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
+        const url = `${this.settings.serverUrl}/api/obsidian${endpoint}`;
 
-                        // Edge from checkpoint to invariable
-                        edges.push({
-                            id: `edge-${nodeId++}`,
-                            fromNode: cpId,
-                            toNode: invId,
-                            fromSide: 'bottom',
-                            toSide: 'top'
-                        });
-                    }
+        try {
+            return await requestJson(url, { method, token: this.settings.apiToken, body });
+        } catch (error) {
+            console.error('Flipmode API error:', error);
+            throw error;
+        }
+    }
 
-                    // Create variable nodes below invariables
-                    const variables = cp.variables || [];
-                    for (let k = 0; k < variables.length; k++) {
-                        const v = variables[k];
-                        const vName = normalizeName(v.name);
-                        const vId = `var-${nodeId++}`;
+    // Day the service last reported the daily voice limit; the cloud isn't tried again until the next day
+    private voiceLimitDay: string | null = null;
 
-                        nodes.push({
-                            id: vId,
-                            type: 'file',
-                            file: `${conceptsFolder}/${vName}.md`,
-                            x: i * cpSpacing + (k * 120) - ((variables.length - 1) * 60),
-                            y: cpHeight + verticalGap * 2 + conceptHeight,
-                            width: conceptWidth,
-                            height: conceptHeight,
-                            color: '2'
-                        });
+    /**
+     * Remote transcription for athletes (uses Heroku OpenAI Whisper).
+     * POST /api/voice/transcribe with X-Voice-Api-Version and a JSON body of
+     * audio_base64 plus audio_format: "webm" for recordings as captured, or
+     * (since version 2) "wav" for the 16 kHz mono 16-bit PCM segments of long
+     * notes. Version 1 servers ignore audio_format and expect webm.
+     */
+    async remoteTranscribe(audioBlob: Blob): Promise<{text: string, duration: number, usage: VoiceUsage}> {
+        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
+            throw new Error('Remote transcription requires queue service URL and athlete token');
+        }
 
-                        // Edge from checkpoint to variable
-                        edges.push({
-                            id: `edge-${nodeId++}`,
-                            fromNode: cpId,
-                            toNode: vId,
-                            fromSide: 'bottom',
-                            toSide: 'top'
-                        });
-                    }
-                }
+        const today = new Date().toDateString();
+        if (this.voiceLimitDay === today) {
+            throw new Error('Daily limit reached - cloud transcription is off until tomorrow');
+        }
 
-                // Create edges between checkpoints (the timeline)
-                for (let i = 0; i < cpNodeIds.length - 1; i++) {
-                    edges.push({
-                        id: `edge-${nodeId++}`,
-                        fromNode: cpNodeIds[i],
-                        toNode: cpNodeIds[i + 1],
-                        fromSide: 'right',
-                        toSide: 'left'
-                    });
-                }
+        const base64 = await blobToBase64(audioBlob);
 
-                const canvasContent = JSON.stringify({ nodes, edges }, null, 2);
-                await this.app.vault.create(canvasPath, canvasContent);
-            }
+        console.log('[Flipmode] Sending voice note to:', this.settings.queueServiceUrl);
+        console.log('[Flipmode] Audio size:', audioBlob.size, 'bytes, base64 length:', base64.length);
 
-            new Notice(`Created "${clusterName}": ${checkpoints.length} checkpoints + Canvas timeline!`, 5000);
+        const response = await requestUrl({
+            url: `${this.settings.queueServiceUrl}/api/voice/transcribe`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.settings.athleteToken}`,
+                'X-Voice-Api-Version': String(VOICE_API_VERSION)
+            },
+            body: JSON.stringify({
+                audio_base64: base64,
+                audio_format: audioBlob.type.includes('wav') ? 'wav' : 'webm'
+            }),
+            throw: false
+        });
 
-        } catch (error) {
-            console.error('Explode to Concept Graph error:', error);
-            new Notice('Failed to explode concepts. Check console.', 5000);
+        if (response.status >= 400) {
+            // Keep the server's message ("Daily limit...", "too long...") for fallback handling
+            let message = 'Transcription failed';
+            try {
+                message = response.json?.error || message;
+            } catch {
+                // Non-JSON error body
+            }
+            if (message.includes('Daily limit')) this.voiceLimitDay = today;
+            throw new Error(message);
         }
+
+        return response.json;
     }
 
-    // Get training drills and games for a concept node
-    // Uses RLM deep dive to search video library, falls back to AI-generated suggestions
-    async getTrainingDrillsForConcept(file: TFile) {
-        // Read concept file
-        const content = await this.app.vault.read(file);
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    getTranscriptionBackends(): TranscriptionBackend[] {
+        const backends: Record<TranscriptionBackendId, TranscriptionBackend> = {
+            'remote': new RemoteTranscriptionBackend(this),
+            'local': new LocalOracleTranscriptionBackend(this),
+            'whisper': new WhisperHttpTranscriptionBackend(this)
+        };
+        return this.settings.transcriptionBackends
+            .map(id => backends[id])
+            .filter(backend => backend && backend.isConfigured());
+    }
 
-        if (!frontmatterMatch) {
-            new Notice('No frontmatter found. Is this a concept file?');
-            return;
+    /**
+     * Transcribe with the first backend that succeeds, in settings order.
+     * With `segmenting`, a recording longer than the cloud cap is sent to the
+     * cloud backend as segments (once `confirm` agrees); backends that take
+     * any length still get it whole. The length is the decoded audio's.
+     * `onAttempt` is called before each backend is tried (for status text).
+     */
+    async transcribeAudio(audio: Blob, context: TranscriptionContext = {}, onAttempt?: (backend: TranscriptionBackend) => void, segmenting?: SegmentedTranscriptionHooks): Promise<TranscriptionResult> {
+        const backends = this.getTranscriptionBackends();
+        if (backends.length === 0) {
+            throw new TranscriptionError('No transcription backend configured - check settings', []);
         }
 
-        const frontmatter = frontmatterMatch[1];
-
-        // Check if this is a concept file
-        if (!frontmatter.includes('type: concept')) {
-            new Notice('This command only works on concept files');
-            return;
+        const failures: { backend: TranscriptionBackendId; message: string }[] = [];
+        let decoded: AudioBuffer | null = null;
+        for (let i = 0; i < backends.length; i++) {
+            const backend = backends[i];
+            try {
+                if (backend.id === 'remote' && segmenting) {
+                    decoded = decoded || await decodeRecording(audio);
+                    if (decoded.duration > REMOTE_VOICE_MAX_SECONDS) {
+                        if (!(await segmenting.confirm(decoded.duration))) {
+                            throw new TranscriptionCancelledError();
+                        }
+                        // Later backends stay available as per-segment fallbacks
+                        return await this.transcribeInSegments(decoded, backends.slice(i), segmenting.onProgress);
+                    }
+                }
+                onAttempt?.(backend);
+                return await backend.transcribe(audio, context);
+            } catch (error: any) {
+                if (error instanceof TranscriptionCancelledError) throw error;
+                console.error(`[Flipmode] ${TRANSCRIPTION_BACKEND_NAMES[backend.id]} transcription failed:`, error);
+                failures.push(...(error instanceof TranscriptionError && error.failures.length > 0
+                    ? error.failures
+                    : [{ backend: backend.id, message: error?.message || String(error) }]));
+            }
         }
 
-        // Check if already has drills
-        if (frontmatter.includes('has-drills')) {
-            new Notice('This concept already has training drills');
-            return;
-        }
+        throw new TranscriptionError(
+            failures.map(f => `${TRANSCRIPTION_BACKEND_NAMES[f.backend]}: ${f.message}`).join('; '),
+            failures
+        );
+    }
 
-        // Extract concept info
-        const conceptName = file.basename;
-        const summaryMatch = content.match(/## Summary\n\n([^\n#]+)/);
-        const conceptSummary = summaryMatch ? summaryMatch[1].trim() : conceptName;
+    // First of `backends` that transcribes a short clip
+    private async transcribeClip(audio: Blob, backends: TranscriptionBackend[], onAttempt: (backend: TranscriptionBackend) => void): Promise<TranscriptionResult> {
+        const failures: { backend: TranscriptionBackendId; message: string }[] = [];
+        for (const backend of backends) {
+            onAttempt(backend);
+            try {
+                return await backend.transcribe(audio, {});
+            } catch (error: any) {
+                console.error(`[Flipmode] ${TRANSCRIPTION_BACKEND_NAMES[backend.id]} transcription failed:`, error);
+                failures.push({ backend: backend.id, message: error?.message || String(error) });
+            }
+        }
+        throw new TranscriptionError(
+            failures.map(f => `${TRANSCRIPTION_BACKEND_NAMES[f.backend]}: ${f.message}`).join('; '),
+            failures
+        );
+    }
 
-        // Get source RLM session if available
-        const sessionMatch = frontmatter.match(/source_rlm_session:\s*"([^"]+)"/);
-        const rlmSessionId = sessionMatch ? sessionMatch[1] : '';
+    /**
+     * Transcribe a long recording as overlapping segments, one after another,
+     * and stitch the results. Each segment is a separate transcription (and a
+     * separate voice note against the cloud daily limit).
+     */
+    async transcribeInSegments(decoded: AudioBuffer, backends: TranscriptionBackend[], onProgress: (index: number, total: number, backend: TranscriptionBackend) => void): Promise<TranscriptionResult> {
+        const segments = await splitAudioIntoSegments(decoded);
+        const texts: string[] = [];
+        let last: TranscriptionResult | null = null;
 
-        new Notice(`Finding training drills for: ${conceptName}...`, 3000);
+        for (let i = 0; i < segments.length; i++) {
+            try {
+                last = await this.transcribeClip(segments[i], backends, backend => onProgress(i + 1, segments.length, backend));
+            } catch (error: any) {
+                if (error instanceof TranscriptionError) {
+                    throw new TranscriptionError(`Segment ${i + 1} of ${segments.length}: ${error.message}`, error.failures);
+                }
+                throw error;
+            }
+            texts.push(last.text);
+        }
 
-        try {
-            // Call server endpoint to get training drills
-            const response = await requestUrl({
-                url: `${this.settings.serverUrl}/api/obsidian/concept-drills`,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${this.settings.apiToken}`
-                },
-                body: JSON.stringify({
-                    concept_name: conceptName,
-                    concept_summary: conceptSummary,
-                    rlm_session_id: rlmSessionId
-                })
-            });
+        return {
+            text: stitchTranscripts(texts),
+            backend: last!.backend,
+            duration: decoded.duration,
+            usage: last?.usage
+        };
+    }
 
-            const result = response.json;
+    // Check voice note usage for today
+    async getVoiceUsage(): Promise<VoiceUsage> {
+        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
+            throw new Error('Requires queue service URL and athlete token');
+        }
 
-            if (result.error) {
-                new Notice(`Failed to get drills: ${result.error}`, 5000);
-                return;
+        const response = await requestUrl({
+            url: `${this.settings.queueServiceUrl}/api/voice/usage`,
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${this.settings.athleteToken}`
             }
+        });
 
-            const drills = result.drills || result.content || 'No drills found.';
-            const sourcesCount = result.sources_count || 0;
-            const isGenerated = result.ai_generated || false;
+        return response.json;
+    }
 
-            // Add has-drills tag to frontmatter
-            const updatedFrontmatter = frontmatter.replace(
-                /tags: \[([^\]]+)\]/,
-                'tags: [$1, has-drills]'
-            );
+    // Start remote therapy session (after transcription)
+    async startRemoteTherapy(transcript: string): Promise<{session_id: string, state: string, question?: string, enriched_query?: string}> {
+        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
+            throw new Error('Requires queue service URL and athlete token');
+        }
 
-            // Build drills section
-            const timestamp = new Date().toLocaleTimeString();
-            const sourceNote = isGenerated
-                ? '*(AI-generated suggestions)*'
-                : `*(${sourcesCount} sources from video library)*`;
+        const response = await requestUrl({
+            url: `${this.settings.queueServiceUrl}/api/therapy/start`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.settings.athleteToken}`
+            },
+            body: JSON.stringify({ transcript })
+        });
 
-            const drillsSection = `
+        if (response.status >= 400) {
+            throw new Error(response.json?.error || 'Failed to start therapy session');
+        }
 
----
-## Training Drills & Games
-*Generated at ${timestamp}* ${sourceNote}
+        return response.json;
+    }
 
-${drills}
-`;
+    // Continue remote therapy session with answer
+    async respondToRemoteTherapy(sessionId: string, answer: string): Promise<{session_id: string, state: string, question?: string, enriched_query?: string}> {
+        if (!this.settings.queueServiceUrl || !this.settings.athleteToken) {
+            throw new Error('Requires queue service URL and athlete token');
+        }
 
-            // Update file with new frontmatter and drills section
-            const updatedContent = content
-                .replace(frontmatterMatch[0], `---\n${updatedFrontmatter}\n---`)
-                + drillsSection;
+        const response = await requestUrl({
+            url: `${this.settings.queueServiceUrl}/api/therapy/respond`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.settings.athleteToken}`
+            },
+            body: JSON.stringify({ session_id: sessionId, answer })
+        });
 
-            await this.app.vault.modify(file, updatedContent);
+        if (response.status >= 400) {
+            throw new Error(response.json?.error || 'Failed to continue therapy session');
+        }
 
-            const noticeText = isGenerated
-                ? `Generated training suggestions for: ${conceptName}`
-                : `Found ${sourcesCount} training drills for: ${conceptName}`;
-            new Notice(noticeText, 5000);
+        return response.json;
+    }
 
-        } catch (error) {
-            console.error('Get Training Drills error:', error);
-            new Notice('Failed to get training drills. Check console.', 5000);
-        }
+    async saveTherapyState(state: StoredTherapySession | null) {
+        this.settings.therapySession = state;
+        await this.saveSettings();
     }
 
-    // Research a concept - dive deeper via Oracle RLM
-    async researchConcept(file: TFile) {
-        const content = await this.app.vault.read(file);
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+    // Saved therapy session if it is still inside the resume window; stale state is dropped
+    async getResumableTherapySession(): Promise<StoredTherapySession | null> {
+        const state = this.settings.therapySession;
+        if (!state) return null;
 
-        if (!frontmatterMatch) {
-            new Notice('No frontmatter found');
-            return;
+        const age = Date.now() - new Date(state.updatedAt).getTime();
+        if (!(age >= 0 && age < this.settings.therapyResumeHours * 60 * 60 * 1000)) {
+            await this.saveTherapyState(null);
+            return null;
         }
+        return state;
+    }
 
-        const frontmatter = frontmatterMatch[1];
-        const conceptName = file.basename;
-
-        // Get RLM session if available
-        const sessionMatch = frontmatter.match(/source_rlm_session:\s*"([^"]+)"/);
-        const rlmSessionId = sessionMatch ? sessionMatch[1] : '';
-
-        new Notice(`Researching: ${conceptName}...`, 3000);
-
+    async checkConnection(): Promise<boolean> {
         try {
-            // Query Oracle for more info about this concept
-            const oracleUrl = 'http://localhost:5002';
-            const response = await requestUrl({
-                url: `${oracleUrl}/api/internal/deep-dive`,
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    session_id: rlmSessionId || `concept_${conceptName}`,
-                    focus_text: `${conceptName}: key details, variations, common mistakes, and important nuances`
-                })
-            });
-
-            const result = response.json;
-
-            if (result.error) {
-                new Notice(`Research failed: ${result.error}`, 5000);
-                return;
+            const response = await this.apiRequest('/health');
+            if (response.status === 'healthy') {
+                this.updateStatusBar('Connected');
+                return true;
             }
+        } catch (error) {
+            this.updateStatusBar('Disconnected');
+        }
+        return false;
+    }
 
-            const research = result.deep_dive_raw || result.deep_dive_html;
-            const sourcesCount = result.new_sources_count || 0;
-
-            if (!research || sourcesCount === 0) {
-                new Notice(`No content found for "${conceptName}" in your library`, 5000);
-                return;
-            }
+    // Save article to vault with frontmatter for graph view
+    async saveArticleToVault(topic: string, articleContent: string): Promise<string> {
+        // Clean topic for filename and wikilink
+        const cleanTopic = topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
+        const timestamp = new Date().toISOString().split('T')[0];
+        const filename = `${this.settings.syncFolder}/${timestamp} - ${cleanTopic}.md`;
 
-            // Append research to the concept file
-            const timestamp = new Date().toLocaleTimeString();
-            const researchSection = `
+        // Extract keywords for tags (simple word extraction)
+        const keywords = topic.toLowerCase()
+            .split(/\s+/)
+            .filter(w => w.length > 3 && !['when', 'from', 'with', 'that', 'this', 'what', 'how'].includes(w))
+            .slice(0, 5);
 
+        // Add frontmatter and wikilinks for graph view
+        const frontmatter = `---
+type: research
+topic: "[[${cleanTopic}]]"
+date: ${timestamp}
+tags: [bjj, flipmode${keywords.map(k => `, ${k}`).join('')}]
 ---
-## Research Findings
-*Found ${sourcesCount} sources at ${timestamp}*
 
-${research}
 `;
+        // Add related links section at the end
+        const relatedLinks = `
 
-            const updatedContent = content + researchSection;
-            await this.app.vault.modify(file, updatedContent);
+---
+## Related
+- Topic: [[${cleanTopic}]]
+- Training Plan: [[${timestamp} - ${cleanTopic} Plan]]
 
-            new Notice(`Added research for: ${conceptName} (${sourcesCount} sources)`, 5000);
+*Generated by Flipmode*
+`;
 
-        } catch (error) {
-            console.error('Research concept error:', error);
-            new Notice('Research failed. Is Oracle running?', 5000);
+        const fullContent = frontmatter + articleContent + relatedLinks;
+
+        // Ensure folder exists
+        const folder = this.app.vault.getAbstractFileByPath(this.settings.syncFolder);
+        if (!folder) {
+            await this.app.vault.createFolder(this.settings.syncFolder);
+        }
+
+        // Create or overwrite file
+        const existingFile = this.app.vault.getAbstractFileByPath(filename);
+        if (existingFile instanceof TFile) {
+            await this.app.vault.modify(existingFile, fullContent);
+        } else {
+            await this.app.vault.create(filename, fullContent);
         }
+
+        return filename;
     }
 
-    // Generate Skill Development sessions from selected text (right-click context menu)
-    // Creates 3 separate nodes: SkillDev1, SkillDev2, SkillDev3
-    // Uses CLA (Constraints-Led Approach) science via Oracle's skill-dev endpoint
-    async generateTrainingPlanFromSelection(editor: Editor, view: MarkdownView, selection: string) {
+    // Dive Deeper on a training session - uses notes as context
+    async diveDeepOnSession(view: MarkdownView) {
         const file = view.file;
         if (!file) {
             new Notice('No file open');
             return;
         }
 
-        const fullSelection = selection.trim();
-        if (!fullSelection) {
-            new Notice('No text selected');
+        const content = await this.app.vault.read(file);
+
+        // Parse frontmatter
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+        let topic = '';
+        let fileType = '';
+        let rlmSessionId = '';
+
+        if (frontmatterMatch) {
+            const frontmatter = frontmatterMatch[1];
+            const topicMatch = frontmatter.match(/topic:\s*"?\[\[([^\]]+)\]\]"?/) || frontmatter.match(/topic:\s*"([^"]+)"/);
+            const typeMatch = frontmatter.match(/type:\s*(\S+)/);
+            const rlmMatch = frontmatter.match(/rlm_session_id:\s*"([^"]+)"/);
+            if (topicMatch) topic = topicMatch[1];
+            if (typeMatch) fileType = typeMatch[1];
+            if (rlmMatch) rlmSessionId = rlmMatch[1];
+        }
+
+        // Extract session notes and reflections
+        const reflectionSections: string[] = [];
+
+        // Find "What worked", "What to adjust", "Key insight" sections
+        const whatWorkedMatch = content.match(/\*\*What worked:\*\*\s*\n([^\n*]+)/g);
+        const whatToAdjustMatch = content.match(/\*\*What to adjust:\*\*\s*\n([^\n*]+)/g);
+        const keyInsightMatch = content.match(/\*\*Key insight:\*\*\s*\n([^\n*]+)/g);
+
+        if (whatWorkedMatch) {
+            whatWorkedMatch.forEach(m => {
+                const text = m.replace('**What worked:**', '').trim();
+                if (text && text.length > 2) reflectionSections.push(`What worked: ${text}`);
+            });
+        }
+        if (whatToAdjustMatch) {
+            whatToAdjustMatch.forEach(m => {
+                const text = m.replace('**What to adjust:**', '').trim();
+                if (text && text.length > 2) reflectionSections.push(`Need to adjust: ${text}`);
+            });
+        }
+        if (keyInsightMatch) {
+            keyInsightMatch.forEach(m => {
+                const text = m.replace('**Key insight:**', '').trim();
+                if (text && text.length > 2) reflectionSections.push(`Key insight: ${text}`);
+            });
+        }
+
+        // Also grab any notes section content
+        const notesMatch = content.match(/## Notes\n([\s\S]*?)(?=\n##|$)/);
+        if (notesMatch && notesMatch[1].trim().length > 10) {
+            reflectionSections.push(`Notes: ${notesMatch[1].trim().substring(0, 500)}`);
+        }
+
+        if (!topic) {
+            // Try to get topic from title
+            const titleMatch = content.match(/# (?:Training Plan:|Research:)?\s*(.+)/);
+            if (titleMatch) topic = titleMatch[1].trim();
+        }
+
+        if (!topic) {
+            new Notice('Could not find topic in this file');
             return;
         }
 
-        // Extract short topic for filename/display (first line, max 60 chars)
-        const firstLine = fullSelection.split('\n')[0].replace(/^#+\s*/, '').trim();
-        const shortTopic = firstLine.substring(0, 60);
+        const sessionContext = reflectionSections.length > 0
+            ? reflectionSections.join('\n')
+            : 'Training session completed';
+
+        // Open Dive Deeper modal with context and RLM session
+        const modal = new DiveDeepModal(this.app, this, topic, sessionContext, rlmSessionId);
+        modal.open();
+
+        if (rlmSessionId) {
+            new Notice('Deep Dive session loaded!', 2000);
+        }
+    }
+
+    // Generate Training Review from Training Notes (coach side)
+    async generateTrainingReview(view: MarkdownView) {
+        const file = view.file;
+        if (!file) {
+            new Notice('No file open');
+            return;
+        }
 
-        // Read frontmatter to get RLM session context
         const content = await this.app.vault.read(file);
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
+        // Parse frontmatter
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
         if (!frontmatterMatch) {
-            new Notice('No frontmatter found. Skill Development requires a Training Review file.');
+            new Notice('No frontmatter found. Is this a Training Notes file?');
             return;
         }
 
         const frontmatter = frontmatterMatch[1];
 
-        // Check for rlm_session_id (required for CLA-based generation)
-        const sessionIdMatch = frontmatter.match(/rlm_session_id:\s*"([^"]+)"/);
-        if (!sessionIdMatch || !sessionIdMatch[1]) {
-            new Notice('No RLM session found. Generate a Training Review first.');
+        // Check if this is a training-notes file
+        const typeMatch = frontmatter.match(/type:\s*(\S+)/);
+        if (!typeMatch || typeMatch[1] !== 'training-notes') {
+            new Notice('This command only works on Training Notes files');
             return;
         }
 
-        const sessionId = sessionIdMatch[1];
+        // Extract session_id for Oracle
+        const sessionIdMatch = frontmatter.match(/session_id:\s*"([^"]+)"/);
+        const sessionId = sessionIdMatch ? sessionIdMatch[1] : null;
 
-        new Notice(`Generating CLA Skill Development for: ${shortTopic}...`, 5000);
+        // Extract focus
+        const focusMatch = frontmatter.match(/focus:\s*"([^"]+)"/);
+        const focus = focusMatch ? focusMatch[1] : 'general';
 
-        try {
-            // Call Oracle's CLA-based skill development endpoint
-            const oracleUrl = 'http://localhost:5002';
+        // Extract date
+        const dateMatch = frontmatter.match(/date:\s*(\S+)/);
+        const dateStr = dateMatch ? dateMatch[1] : new Date().toISOString().split('T')[0];
 
-            const response = await requestUrl({
-                url: `${oracleUrl}/api/internal/skill-dev`,
+        // Extract season/episode
+        const seasonMatch = frontmatter.match(/season:\s*(\d+)/);
+        const episodeMatch = frontmatter.match(/episode:\s*(\d+)/);
+        const season = seasonMatch ? parseInt(seasonMatch[1]) : this.settings.currentSeason;
+        const episode = episodeMatch ? parseInt(episodeMatch[1]) : this.settings.currentEpisode;
+
+        // Get the folder path from the current file
+        const folderPath = file.parent?.path || `${this.settings.syncFolder}/Athletes/Unknown/Season ${season}/Session ${episode}`;
+
+        // Build filenames
+        const notesFilename = file.basename;
+        const reviewFilename = notesFilename.replace('TrainingNotes', 'TrainingReview');
+
+        // Extract struggles from content for the query
+        const strugglesMatch = content.match(/## Struggles[\s\S]*?(?=##|$)/);
+        const struggles = strugglesMatch ? strugglesMatch[0].replace('## Struggles', '').trim() : focus;
+
+        new Notice('Generating Training Review...', 3000);
+
+        try {
+            // Call the coach-review endpoint with struggles as query
+            const researchResponse = await requestUrl({
+                url: `${this.settings.serverUrl}/api/obsidian/coach-review`,
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json'
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.settings.apiToken}`
                 },
                 body: JSON.stringify({
-                    session_id: sessionId,
-                    topic: fullSelection  // Send full selection for Oracle context
+                    query: struggles || focus,
+                    session_context: `Training session: ${focus}`
                 })
             });
 
-            const plan = response.json;
+            const research = researchResponse.json;
 
-            if (plan.error) {
-                new Notice(`Skill Development failed: ${plan.error}`, 5000);
-                return;
-            }
+            // Extract research data
+            const articleContent = research.article || research.article_raw || 'Research generation failed.';
+            const topic = research.topic || focus;
+            const rlmSessionId = research.rlm_session_id || '';
+            const conversationUuid = research.conversation_uuid || '';
+            const sourceCount = research.source_count || 0;
 
-            if (!plan.sessions || plan.sessions.length === 0) {
-                new Notice('Failed to generate skill development sessions');
-                return;
-            }
+            // Create Training Review content
+            const reviewContent = `---
+type: training-review
+season: ${season}
+episode: ${episode}
+date: ${dateStr}
+focus: "${focus}"
+topic: "${topic}"
+training_notes: "[[${notesFilename}]]"
+rlm_session_id: "${rlmSessionId}"
+conversation_uuid: "${conversationUuid}"
+source_count: ${sourceCount}
+tags: [bjj, training-review, season-${season}, ${focus.replace(/_/g, '-')}]
+---
 
-            // Create filenames for each session
-            const dateStr = new Date().toISOString().split('T')[0];
-            const safeTopic = shortTopic.substring(0, 25).replace(/[^a-zA-Z0-9]/g, '_').replace(/_+/g, '_');
+# Training Review: ${topic}
 
-            // Get folder path (same location as source file or default)
-            const folderPath = file.parent?.path || this.settings.syncFolder;
+${articleContent}
 
-            // Ensure folder exists
-            const folderExists = this.app.vault.getAbstractFileByPath(folderPath);
-            if (!folderExists) {
-                await this.app.vault.createFolder(folderPath);
-            }
+---
+## Deep Dive
+${rlmSessionId ? `> [!tip] Deep Dive Available
+> Select text and right-click → "Dive Deeper" to explore specific topics.
+> Or [View in Oracle](http://localhost:5002/c/${conversationUuid}) for the full interactive experience.` : '> No RLM session available for Deep Dive.'}
 
-            const createdFiles: string[] = [];
+## Links
+- Training Notes: [[${notesFilename}]]
+${conversationUuid ? `- [View in Oracle](http://localhost:5002/c/${conversationUuid})` : ''}
+`;
 
-            // Create SkillDev files from CLA-generated sessions
-            for (let i = 0; i < plan.sessions.length; i++) {
-                const session = plan.sessions[i];
-                const sessionNum = session.session_number || (i + 1);
-                const filename = `SkillDev${sessionNum}-${dateStr}-${safeTopic}`;
+            // Save Training Review
+            const reviewPath = `${folderPath}/${reviewFilename}.md`;
+            const existingReview = this.app.vault.getAbstractFileByPath(reviewPath);
+            if (existingReview instanceof TFile) {
+                await this.app.vault.modify(existingReview, reviewContent);
+            } else {
+                await this.app.vault.create(reviewPath, reviewContent);
+            }
 
-                // Build CLA session markdown - use shortTopic for display
-                const sessionMarkdown = this.buildCLASkillDevMarkdown(
-                    shortTopic,
-                    session,
-                    file.basename,
-                    createdFiles
-                );
+            // Add backlink to source file for graph view
+            await this.addTrainingReviewLink(file, reviewFilename);
 
-                // Save file
-                const filePath = `${folderPath}/${filename}.md`;
-                const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-                if (existingFile instanceof TFile) {
-                    await this.app.vault.modify(existingFile, sessionMarkdown);
-                } else {
-                    await this.app.vault.create(filePath, sessionMarkdown);
-                }
+            new Notice(`Training Review saved: ${reviewFilename}`, 5000);
 
-                createdFiles.push(filename);
-            }
-
-            // Add backlinks to source file
-            await this.addSkillDevLinks(file, createdFiles);
-
-            new Notice(`Created ${plan.sessions.length} CLA Skill Dev sessions for ${shortTopic}`, 5000);
-
-            // Open the first SkillDev file
-            const firstFile = this.app.vault.getAbstractFileByPath(`${folderPath}/${createdFiles[0]}.md`);
-            if (firstFile instanceof TFile) {
-                await this.app.workspace.getLeaf('split').openFile(firstFile);
+            // Open the new Training Review file
+            const reviewFile = this.app.vault.getAbstractFileByPath(reviewPath);
+            if (reviewFile instanceof TFile) {
+                await this.app.workspace.getLeaf().openFile(reviewFile);
             }
 
         } catch (error) {
-            console.error('Skill development generation error:', error);
-            new Notice('Failed to generate Skill Development. Check console for details.', 5000);
+            console.error('Training review generation error:', error);
+            new Notice('Failed to generate Training Review. Check console for details.', 5000);
         }
     }
 
-    // Build CLA-based skill development markdown from Oracle response
-    buildCLASkillDevMarkdown(
-        topic: string,
-        session: any,  // CLA session from Oracle
-        sourceFile: string,
-        siblingFiles: string[]
-    ): string {
-        const dateStr = new Date().toISOString().split('T')[0];
-        const cleanTopic = topic.replace(/"/g, "'");
-        const sessionNum = session.session_number || 1;
+    // Generate Training Review from selected text (right-click context menu)
+    async generateTrainingReviewFromSelection(editor: Editor, view: MarkdownView, selection: string) {
+        const file = view.file;
+        if (!file) {
+            new Notice('No file open');
+            return;
+        }
 
-        // Build linear navigation
-        const prevFile = sessionNum > 1 ? siblingFiles[sessionNum - 2] : null;
-        const nextFile = sessionNum < 3 ? siblingFiles[sessionNum] : null;
+        const query = selection.trim();
+        if (!query) {
+            new Notice('No text selected');
+            return;
+        }
 
-        // Only SkillDev1 links to source
-        const sourceLink = sessionNum === 1 ? `\nsource: "[[${sourceFile}]]"` : '';
-        const sourceLinkBody = sessionNum === 1 ? `- Source: [[${sourceFile}]]\n` : '';
+        new Notice(`Generating Training Review...`, 3000);
 
-        // Build rounds as simple bullets - use raw text from LLM
-        let roundsList = '';
-        if (session.rounds_text) {
-            // Use raw rounds text from LLM (preferred - has reasoning)
-            roundsList = session.rounds_text;
-        } else if (session.rounds && session.rounds.length > 0) {
-            for (const round of session.rounds) {
-                const desc = round.description || round.start || 'Positional sparring';
-                const reason = round.reasoning || round.because || '';
-                roundsList += `- **Round ${round.round}:** ${desc}`;
-                if (reason) roundsList += ` — ${reason}`;
-                roundsList += '\n';
-            }
-        } else {
-            roundsList = 'See source research for round details.\n';
-        }
+        try {
+            // Get context from current file
+            const content = await this.app.vault.read(file);
+            const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
-        // Build goals
-        const goals = session.goals && session.goals.length > 0
-            ? session.goals.map((g: string) => `- [ ] ${g}`).join('\n')
-            : '- [ ] Complete all 5 rounds\n- [ ] Note what worked';
+            let sessionContext = '';
+            let focus = 'research';
+            let dateStr = new Date().toISOString().split('T')[0];
+            let season = this.settings.currentSeason;
+            let episode = this.settings.currentEpisode;
+            let athleteName = this.settings.athleteName || 'Athlete';
 
-        return `---
-type: skill-development
-methodology: CLA
-session: ${sessionNum}
-topic: "${cleanTopic}"
-date: ${dateStr}
-resistance: "${session.resistance_level || '50%'}"
-status: pending${sourceLink}
-tags: [bjj, skill-dev, cla, session-${sessionNum}]
----
+            if (frontmatterMatch) {
+                const frontmatter = frontmatterMatch[1];
+                const focusMatch = frontmatter.match(/focus:\s*"([^"]+)"/);
+                if (focusMatch) focus = focusMatch[1];
 
-# SkillDev ${sessionNum}: ${session.title || 'Session ' + sessionNum}
+                const dateMatch = frontmatter.match(/date:\s*(\S+)/);
+                if (dateMatch) dateStr = dateMatch[1];
 
-**Resistance:** ${session.resistance_level || '50%'}
-**Focus:** ${session.focus || 'Skill development'}
+                const seasonMatch = frontmatter.match(/season:\s*(\d+)/);
+                if (seasonMatch) season = parseInt(seasonMatch[1]);
 
-${prevFile ? `Previous: [[${prevFile}]]` : ''}${prevFile && nextFile ? ' | ' : ''}${nextFile ? `Next: [[${nextFile}]]` : ''}
+                const episodeMatch = frontmatter.match(/episode:\s*(\d+)/);
+                if (episodeMatch) episode = parseInt(episodeMatch[1]);
 
-## Positional Sparring Rounds
+                // Extract struggles for context
+                const strugglesMatch = content.match(/## Struggles[\s\S]*?(?=##|$)/);
+                if (strugglesMatch) {
+                    sessionContext = strugglesMatch[0].replace('## Struggles', '').trim();
+                }
+            }
 
-${roundsList}
+            // Call the coach-review endpoint with the selected query
+            const researchResponse = await requestUrl({
+                url: `${this.settings.serverUrl}/api/obsidian/coach-review`,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.settings.apiToken}`
+                },
+                body: JSON.stringify({
+                    query: query,
+                    athlete_name: athleteName,
+                    session_context: sessionContext
+                })
+            });
 
-## Goals
+            const research = researchResponse.json;
 
-${goals}
+            // Extract research data
+            // Use article_raw (no links) for markdown, Oracle URL for viewing with videos
+            const articleContent = research.article_raw || research.article || 'Research generation failed.';
+            const topic = research.topic || query;
+            const rlmSessionId = research.rlm_session_id || '';
+            const sourceCount = research.source_count || 0;
+            const articleSections = research.article_sections || [];
+            const conversationUuid = research.conversation_uuid || '';
 
-## Post-Session Notes
+            // Build Oracle URL - use /c/<uuid> if available (views existing article)
+            // Falls back to ?q= search (regenerates article) if no conversation saved
+            const oracleUrl = conversationUuid
+                ? `http://localhost:5002/c/${conversationUuid}`
+                : `http://localhost:5002/?q=${encodeURIComponent(topic)}`;
 
-**What worked:**
+            // Build TTS audio section - now uses audio player modal
+            let audioSection = '';
+            if (articleSections.length > 0) {
+                audioSection = `## Listen to Review\n`;
+                audioSection += `> [!tip] Audio Player Available\n`;
+                audioSection += `> **${articleSections.length} audio sections** ready to play.\n`;
+                audioSection += `> Press \`Ctrl/Cmd + P\` and search "Open Audio Player" to listen.\n\n`;
+            }
+
+            // Create safe filename from query
+            const safeQuery = query.substring(0, 40).replace(/[^a-zA-Z0-9]/g, '_').replace(/_+/g, '_');
+            const reviewFilename = `TrainingReview-${dateStr}-${safeQuery}`;
 
+            // Get folder path
+            const folderPath = file.parent?.path || `${this.settings.syncFolder}/Athletes/${athleteName}/Season ${season}/Session ${episode}`;
 
-**What to adjust:**
+            // Create Training Review content (draft status until published)
+            // Store audio sections as YAML array for the player modal
+            const audioSectionsYaml = articleSections.length > 0
+                ? `audio_sections_data:\n${articleSections.map(s => `  - title: "${s.title.replace(/"/g, "'")}"\n    audio_url: "${s.audio_url}"`).join('\n')}`
+                : 'audio_sections_data: []';
+
+            const reviewContent = `---
+type: training-review
+status: draft
+season: ${season}
+episode: ${episode}
+date: ${dateStr}
+query: "${query.replace(/"/g, "'")}"
+topic: "${topic.replace(/"/g, "'")}"
+source_file: "[[${file.basename}]]"
+rlm_session_id: "${rlmSessionId}"
+conversation_uuid: "${conversationUuid}"
+source_count: ${sourceCount}
+audio_sections: ${articleSections.length}
+${audioSectionsYaml}
+pipeline: "${research.pipeline || 'multi_thinker'}"
+thinkers_used: ${research.thinkers_used || 0}
+tags: [bjj, training-review, season-${season}, research, draft]
+---
+
+# Training Review: ${topic}
+> [!warning] DRAFT - Review and edit before publishing
+> Use command "Flipmode: Publish Training Review" when ready to send to athlete.
+> [View with Videos](${oracleUrl}) - Open in Oracle to verify sources
 
+${audioSection}> **Query:** ${query}
 
-**Key insight:**
+${articleContent}
 
 ---
+## Deep Dive
+${rlmSessionId ? `> [!tip] Deep Dive Available
+> Select text and right-click → "Dive Deeper" to explore specific topics.
+> Or [View in Oracle](http://localhost:5002/c/${conversationUuid}) for the full interactive experience.` : '> No RLM session available for Deep Dive.'}
 
-${sourceLinkBody}
+## Links
+- Source: [[${file.basename}]]
+${conversationUuid ? `- [View in Oracle](http://localhost:5002/c/${conversationUuid})` : ''}
 `;
+
+            // Save Training Review
+            const reviewPath = `${folderPath}/${reviewFilename}.md`;
+            const existingReview = this.app.vault.getAbstractFileByPath(reviewPath);
+            if (existingReview instanceof TFile) {
+                await this.app.vault.modify(existingReview, reviewContent);
+            } else {
+                await this.app.vault.create(reviewPath, reviewContent);
+            }
+
+            // Add backlink to source file for graph view
+            await this.addTrainingReviewLink(file, reviewFilename);
+
+            new Notice(`Training Review saved: ${reviewFilename}`, 5000);
+
+            // Open the new Training Review file
+            const reviewFile = this.app.vault.getAbstractFileByPath(reviewPath);
+            if (reviewFile instanceof TFile) {
+                await this.app.workspace.getLeaf('split').openFile(reviewFile);
+            }
+
+        } catch (error) {
+            console.error('Training review from selection error:', error);
+            new Notice('Failed to generate Training Review. Check console for details.', 5000);
+        }
     }
 
-    // Add backlink to source file - ONLY links to SkillDev1 for linear chain
-    // Graph structure: TrainingReview → SkillDev1 → SkillDev2 → SkillDev3
-    async addSkillDevLinks(sourceFile: TFile, filenames: string[]) {
+    // Add backlink to source file for two-way graph connection
+    async addTrainingReviewLink(sourceFile: TFile, reviewFilename: string) {
         try {
             const content = await this.app.vault.read(sourceFile);
-            // Only link to first SkillDev - creates linear chain in graph
-            const firstLink = `[[${filenames[0]}]]`;
+            const reviewLink = `[[${reviewFilename}]]`;
 
-            // Check if Skill Development section exists
-            if (content.includes('## Skill Development')) {
-                // Check if this link already exists
-                if (!content.includes(filenames[0])) {
+            // Check if Training Reviews section exists
+            if (content.includes('## Training Reviews')) {
+                // Add to existing section if not already there
+                if (!content.includes(reviewLink)) {
                     const updatedContent = content.replace(
-                        /## Skill Development\n/,
-                        `## Skill Development\n- ${firstLink}\n`
+                        /## Training Reviews\n/,
+                        `## Training Reviews\n- ${reviewLink}\n`
                     );
                     await this.app.vault.modify(sourceFile, updatedContent);
                 }
             } else {
                 // Add new section at the end
-                const updatedContent = content + `\n## Skill Development\n- ${firstLink}\n`;
+                const updatedContent = content + `\n## Training Reviews\n- ${reviewLink}\n`;
                 await this.app.vault.modify(sourceFile, updatedContent);
             }
         } catch (error) {
-            console.error('Failed to add skill dev backlinks:', error);
+            console.error('Failed to add backlink:', error);
         }
     }
 
-    // Publish Training Review to athlete
-    async publishTrainingReview(view: MarkdownView) {
+    // Dive Deeper - explore selected text using Oracle's RLM context
+    async diveDeeper(editor: Editor, view: MarkdownView, selection: string) {
         const file = view.file;
         if (!file) {
             new Notice('No file open');
             return;
         }
 
-        const content = await this.app.vault.read(file);
-
-        // Check frontmatter
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        if (!frontmatterMatch) {
-            new Notice('No frontmatter found');
+        const focusText = selection.trim();
+        if (!focusText) {
+            new Notice('No text selected');
             return;
         }
 
-        const frontmatter = frontmatterMatch[1];
+        // Read frontmatter to get session context
+        const content = await this.app.vault.read(file);
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
-        // Check if this is a training-review file
-        const typeMatch = frontmatter.match(/type:\s*(\S+)/);
-        if (!typeMatch || typeMatch[1] !== 'training-review') {
-            new Notice('This command only works on Training Review files');
+        if (!frontmatterMatch) {
+            new Notice('No frontmatter found. Dive Deeper requires a Training Review file.');
             return;
         }
 
-        // Check if already published
-        const statusMatch = frontmatter.match(/status:\s*(\S+)/);
-        if (statusMatch && statusMatch[1] === 'published') {
-            new Notice('This review is already published');
+        const frontmatter = frontmatterMatch[1];
+
+        // Check for rlm_session_id
+        const sessionIdMatch = frontmatter.match(/rlm_session_id:\s*"([^"]+)"/);
+        if (!sessionIdMatch || !sessionIdMatch[1]) {
+            new Notice('No RLM session found. Generate a Training Review first.');
             return;
         }
 
-        // Update status to published
-        let updatedContent = content.replace(/status:\s*draft/, 'status: published');
+        const sessionId = sessionIdMatch[1];
 
-        // Remove draft tag and add published tag
-        updatedContent = updatedContent.replace(/tags:\s*\[(.*?)\]/, (match, tags) => {
-            const tagList = tags.split(',').map((t: string) => t.trim()).filter((t: string) => t !== 'draft');
-            tagList.push('published');
-            return `tags: [${tagList.join(', ')}]`;
-        });
+        // Get conversation_uuid for syncing
+        const convUuidMatch = frontmatter.match(/conversation_uuid:\s*"([^"]+)"/);
+        const conversationUuid = convUuidMatch ? convUuidMatch[1] : null;
 
-        // Remove the draft warning callout
-        updatedContent = updatedContent.replace(/> \[!warning\] DRAFT.*\n> Use command.*\n\n?/g, '');
+        new Notice(`Diving deeper on: ${focusText.substring(0, 40)}...`, 3000);
 
-        // Remove video links (Harvard citations with URLs) - keep citation text, remove links
-        // Pattern: [Citation Text](http://...) -> Citation Text
-        updatedContent = updatedContent.replace(/\[([^\]]+)\]\(http[^)]+\)/g, '$1');
+        try {
+            // Call Oracle's internal Deep Dive endpoint
+            const oracleUrl = 'http://localhost:5002';
 
-        // Add published notice
-        const publishDate = new Date().toISOString().split('T')[0];
-        updatedContent = updatedContent.replace(
-            /# Training Review:/,
-            `> [!success] Published ${publishDate}\n\n# Training Review:`
-        );
+            const response = await requestUrl({
+                url: `${oracleUrl}/api/internal/deep-dive`,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    session_id: sessionId,
+                    focus_text: focusText,
+                    conversation_uuid: conversationUuid
+                })
+            });
 
-        // Save the updated file
-        await this.app.vault.modify(file, updatedContent);
+            const result = response.json;
 
-        new Notice('Training Review published to athlete!', 5000);
+            if (result.error) {
+                new Notice(`Deep Dive failed: ${result.error}`, 5000);
+                return;
+            }
+
+            const deepDiveContent = result.deep_dive_raw || result.deep_dive_html || 'Deep Dive generation failed.';
+            const focusArea = result.focus_area || focusText.substring(0, 50);
+            const newSourcesCount = result.new_sources_count || 0;
+
+            // Append Deep Dive section to current file
+            const timestamp = new Date().toLocaleTimeString();
+            const deepDiveSection = `
+
+---
+## Deep Dive: ${focusArea}
+*Generated at ${timestamp} | ${newSourcesCount} new sources*
+
+${deepDiveContent}
+`;
+
+            // Append to file
+            const updatedContent = content + deepDiveSection;
+            await this.app.vault.modify(file, updatedContent);
+
+            new Notice(`Deep Dive complete: ${focusArea} (${newSourcesCount} new sources)`, 5000);
+
+            // Scroll to the new section
+            const newCursor = { line: editor.lineCount() - 1, ch: 0 };
+            editor.setCursor(newCursor);
+            editor.scrollIntoView({ from: newCursor, to: newCursor }, true);
+
+        } catch (error) {
+            console.error('Deep Dive error:', error);
+            new Notice('Deep Dive failed. Check console for details.', 5000);
+        }
     }
 
-    // Open Audio Player for Training Review files
-    async openAudioPlayer(view: MarkdownView) {
+    // Explode article content into linked concept graph nodes
+    async explodeToConceptGraph(editor: Editor, view: MarkdownView, selection: string) {
         const file = view.file;
         if (!file) {
             new Notice('No file open');
             return;
         }
 
-        const cache = this.app.metadataCache.getFileCache(file);
-        const frontmatter = cache?.frontmatter;
-
-        if (!frontmatter) {
-            new Notice('No frontmatter found');
-            return;
-        }
-
-        // Check if this file has audio sections
-        const audioSectionsData = frontmatter.audio_sections_data;
-        if (!audioSectionsData || audioSectionsData.length === 0) {
-            new Notice('No audio sections found in this file');
+        const contentToExplode = selection.trim();
+        if (!contentToExplode || contentToExplode.length < 100) {
+            new Notice('Select more text to explode (at least a paragraph)');
             return;
         }
 
-        // Get topic for the modal title
-        const topic = frontmatter.topic || frontmatter.query || file.basename;
-        const rlmSessionId = frontmatter.rlm_session_id || null;
-
-        // Open the audio player modal
-        const audioModal = new AudioPlayerModal(
-            this.app,
-            this,
-            topic,
-            audioSectionsData,
-            rlmSessionId,
-            '', // No article content needed - just playing audio
-            []  // No sources needed
-        );
-        audioModal.open();
-    }
-
-    // Sync Methods
-    async syncWithFlipmode() {
-        const connected = await this.checkConnection();
-        if (!connected) {
-            new Notice('Cannot connect to Flipmode server');
-            return;
+        // Get source file's RLM session for concept enrichment later
+        const sourceContent = await this.app.vault.read(file);
+        const frontmatterMatch = sourceContent.match(/^---\n([\s\S]*?)\n---/);
+        let sourceRlmSessionId = '';
+        if (frontmatterMatch) {
+            const sessionMatch = frontmatterMatch[1].match(/rlm_session_id:\s*"([^"]+)"/);
+            if (sessionMatch) sourceRlmSessionId = sessionMatch[1];
         }
 
-        new Notice('Syncing with Flipmode...');
+        new Notice('Exploding to concept graph...', 3000);
 
         try {
-            // Get sync manifest
-            const userId = this.settings.apiToken.substring(0, 8) || 'default';
-            const manifest = await this.apiRequest(`/sync/manifest/${userId}`);
+            const response = await requestUrl({
+                url: `${this.settings.serverUrl}/api/obsidian/explode-concepts`,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.settings.apiToken}`
+                },
+                body: JSON.stringify({
+                    content: contentToExplode,
+                    source_file: file.basename
+                })
+            });
 
-            // Ensure directories exist
-            await this.ensureFoldersExist(manifest.directories);
+            const result = response.json;
 
-            // Sync each file
-            let syncedCount = 0;
-            for (const file of manifest.files) {
-                const synced = await this.syncFile(file);
-                if (synced) syncedCount++;
+            if (result.error) {
+                new Notice(`Explode failed: ${result.error}`, 5000);
+                return;
             }
 
-            new Notice(`Synced ${syncedCount} files from Flipmode`);
-        } catch (error) {
-            console.error('Sync error:', error);
-            new Notice('Sync failed - check console for details');
-        }
-    }
+            // Structure: checkpoints with invariables (tiered) and variables (IF/THEN)
+            const checkpoints = result.checkpoints || [];
+            if (checkpoints.length === 0) {
+                new Notice('No checkpoints extracted');
+                return;
+            }
 
-    // Sync shared concept from coach and open it (called from Discord link)
-    async syncAndOpenConcept(conceptName: string) {
-        new Notice(`Syncing "${conceptName}" from coach...`);
+            const topicName = result.topic_name || file.basename;
+            const topicTags: string[] = result.topic_tags || [];
+            const clusterName = topicName.replace(/[^\w\s-]/g, '').trim();
+            const conceptsBase = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
+            const conceptsFolder = `${conceptsBase}/${clusterName}`;
+            await this.ensureFolder(conceptsFolder);
 
-        try {
-            // In remote mode, fetch from queue service
-            if (this.settings.mode === 'remote' && this.settings.athleteToken) {
-                const response = await requestUrl({
-                    url: `${this.settings.queueServiceUrl}/api/queue/shared-concepts`,
-                    method: 'GET',
-                    headers: { 'Authorization': `Bearer ${this.settings.athleteToken}` }
-                });
+            const normalizeName = normalizeConceptName;
 
-                const sharedConcepts = response.json.shared_concepts || [];
+            const topicTagsStr = topicTags.length > 0
+                ? topicTags.map((t: string) => t.toLowerCase().replace(/\s+/g, '-')).join(', ')
+                : '';
 
-                // Find the specific concept
-                const concept = sharedConcepts.find((c: any) =>
-                    c.name === conceptName || c.name.includes(conceptName)
-                );
+            let createdCount = 0;
+            const createdNames = new Set<string>();
+            checkpoints.sort((a: any, b: any) => (a.order || 1) - (b.order || 1));
 
-                if (concept) {
-                    // Save concept files to vault
-                    const conceptsBase = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
-                    // Ensure base folder exists
-                    await this.ensureFolder(conceptsBase);
+            // Create CHECKPOINT notes (link sequentially)
+            for (let i = 0; i < checkpoints.length; i++) {
+                const cp = checkpoints[i];
+                const cpName = normalizeName(cp.name);
+                if (!cpName || createdNames.has(cpName.toLowerCase())) continue;
 
-                    const data = concept.data || {};
+                const cpPath = `${conceptsFolder}/${cpName}.md`;
+                if (this.app.vault.getAbstractFileByPath(cpPath)) {
+                    createdNames.add(cpName.toLowerCase());
+                    continue;
+                }
 
-                    if (data.type === 'cluster' && data.clusterName) {
-                        // Create cluster folder and files
-                        const clusterFolder = `${conceptsBase}/${data.clusterName}`;
-                        await this.ensureFolder(clusterFolder);
+                const order = cp.order || (i + 1);
+                const prevCp = i > 0 ? normalizeName(checkpoints[i - 1].name) : null;
+                const nextCp = i < checkpoints.length - 1 ? normalizeName(checkpoints[i + 1].name) : null;
 
-                        // Save index file
-                        const indexPath = `${conceptsBase}/${data.clusterName}.md`;
-                        if (data.indexContent) {
-                            await this.saveNote(indexPath, data.indexContent);
-                        }
+                // Build invariables by tier
+                const invariables = cp.invariables || [];
+                const tier1 = invariables.filter((inv: any) => inv.tier === 'tier1');
+                const tier2 = invariables.filter((inv: any) => inv.tier === 'tier2');
+                const tier3 = invariables.filter((inv: any) => inv.tier === 'tier3' || !inv.tier);
 
-                        // Save concept files
-                        for (const c of data.concepts || []) {
-                            const filePath = `${clusterFolder}/${c.name}.md`;
-                            await this.saveNote(filePath, c.content);
-                        }
+                const formatTierLinks = (items: any[]) => items.length > 0
+                    ? items.map((inv: any) => `[[${clusterName}/${normalizeName(inv.name)}|${normalizeName(inv.name)}]]`).join(' · ')
+                    : '*none*';
 
-                        new Notice(`Synced "${conceptName}" - opening...`);
-                        await this.app.workspace.openLinkText(indexPath, '', true);
-                    } else if (data.type === 'concept' && data.content) {
-                        // Single concept with content
-                        const filePath = `${conceptsBase}/${conceptName}.md`;
-                        await this.saveNote(filePath, data.content);
-                        new Notice(`Synced "${conceptName}" - opening...`);
-                        await this.app.workspace.openLinkText(filePath, '', true);
-                    } else {
-                        // No full data - create stub note with summary
-                        const filePath = `${conceptsBase}/${conceptName}.md`;
-                        const stubContent = `---
-type: shared-concept
-from_oracle: true
-shared_at: "${concept.shared_at || new Date().toISOString()}"
----
+                // Build variables
+                const variables = cp.variables || [];
+                const varLinks = variables.length > 0
+                    ? variables.map((v: any) => `- **${v.trigger}** → [[${clusterName}/${normalizeName(v.name)}|${normalizeName(v.name)}]]`).join('\n')
+                    : '*No situational responses*';
 
-# ${conceptName}
+                // Relationships for canvases and enrichment (the tables below are for reading)
+                const links: CheckpointLinks = {
+                    invariables: invariables.map((inv: any) => ({ name: normalizeName(inv.name), tier: normalizeTier(inv.tier) })),
+                    variables: variables.map((v: any) => ({ name: normalizeName(v.name), condition: v.trigger || '', action: v.action || '' })),
+                    previous: prevCp,
+                    next: nextCp
+                };
 
-${concept.summary || 'Concept shared from Oracle.'}
+                const content = `---
+type: checkpoint
+order: ${order}
+cluster: "${clusterName}"
+${this.taxonomyFrontmatter(cpName)}tags: [grappling, checkpoint${topicTagsStr ? ', ' + topicTagsStr : ''}]
+source_file: "${file.basename}"
+source_rlm_session: "${sourceRlmSessionId}"
+${serializeCheckpointFrontmatter(links)}---
 
----
-*Full content pending - sync with Oracle for details.*
-`;
-                        await this.saveNote(filePath, stubContent);
-                        new Notice(`Synced "${conceptName}" - opening...`);
-                        await this.app.workspace.openLinkText(filePath, '', true);
-                    }
-                    return;
-                }
-            }
+# [${order}] ${cpName}
 
-            // Fallback: try to open existing file
-            const filePath = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}/${conceptName}.md`;
-            const file = this.app.vault.getAbstractFileByPath(filePath);
+> [!success] CHECKPOINT ${order} of ${checkpoints.length}
 
-            if (file instanceof TFile) {
-                await this.app.workspace.openLinkText(filePath, '', true);
-                new Notice(`Opened "${conceptName}"`);
-            } else {
-                new Notice(`Concept "${conceptName}" not found. Sync with Oracle first.`);
-            }
-        } catch (error: any) {
-            console.error('Sync and open error:', error);
-            new Notice(`Failed to sync: ${error.message}`);
-        }
-    }
+## Goal
 
-    async ensureFoldersExist(paths: string[]) {
-        for (const path of paths) {
-            const folder = this.app.vault.getAbstractFileByPath(path);
-            if (!folder) {
-                await this.app.vault.createFolder(path);
-            }
-        }
-    }
+${cp.goal || 'No goal defined.'}
 
-    async syncFile(file: { path: string; content: string; checksum: string }): Promise<boolean> {
-        try {
-            const existingFile = this.app.vault.getAbstractFileByPath(file.path);
+## Success Test
 
-            if (existingFile instanceof TFile) {
-                // Check if content changed
-                const currentContent = await this.app.vault.read(existingFile);
-                if (this.computeChecksum(currentContent) !== file.checksum) {
-                    await this.app.vault.modify(existingFile, file.content);
-                    return true;
-                }
-                return false;
-            } else {
-                // Create new file
-                await this.app.vault.create(file.path, file.content);
-                return true;
-            }
-        } catch (error) {
-            console.error(`Error syncing file ${file.path}:`, error);
-            return false;
-        }
-    }
+> ${cp.success_test || 'No test defined.'}
 
-    computeChecksum(content: string): string {
-        // Simple checksum - in production use proper hash
-        let hash = 0;
-        for (let i = 0; i < content.length; i++) {
-            const char = content.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash;
-        }
-        return hash.toString(16).substring(0, 16);
-    }
+---
 
-    startAutoSync() {
-        if (this.syncIntervalId) {
-            window.clearInterval(this.syncIntervalId);
-        }
+## INVARIABLES (Always Do Together)
 
-        this.syncIntervalId = window.setInterval(
-            () => this.syncWithFlipmode(),
-            this.settings.syncInterval * 60 * 1000
-        );
-    }
+| Tier | Concepts |
+|------|----------|
+| CRITICAL | ${formatTierLinks(tier1)} |
+| IMPORTANT | ${formatTierLinks(tier2)} |
+| REFINEMENT | ${formatTierLinks(tier3)} |
 
-    // UI Methods
-    async showFlipmodeMenu() {
-        new FlipmodeMenuModal(this.app, this).open();
-    }
+---
 
-    async showResearchModal() {
-        new ResearchModal(this.app, this).open();
-    }
+## VARIABLES (IF/THEN)
 
-    async showVoiceNoteModal() {
-        new VoiceNoteModal(this.app, this).open();
-    }
+${varLinks}
 
-    // Voice session method - Step 1: transcribe audio
-    async startVoiceSession(audioBase64: string): Promise<any> {
-        try {
-            const response = await this.apiRequest('/session', 'POST', {
-                user_id: this.settings.userId,
-                audio_base64: audioBase64,
-                audio_format: 'webm'
-            });
-            return response;
-        } catch (error) {
-            console.error('Voice session error:', error);
-            throw error;
-        }
-    }
+---
 
-    // Voice session method - Step 2: confirm/edit transcript and process
-    async confirmVoiceSession(confirmedText: string): Promise<any> {
-        try {
-            const response = await this.apiRequest('/session', 'POST', {
-                user_id: this.settings.userId,
-                confirmed_text: confirmedText
-            });
-            return response;
-        } catch (error) {
-            console.error('Confirm voice session error:', error);
-            throw error;
-        }
-    }
+## Navigation
 
-    // Continue conversation - Step 1: send audio for transcription
-    async respondToSession(sessionId: string, text?: string, audioBase64?: string, selectedOption?: string): Promise<any> {
-        try {
-            const body: any = {
-                session_id: sessionId,
-                user_id: this.settings.userId
-            };
+| Previous | Next |
+|----------|------|
+| ${prevCp ? `[[${clusterName}/${prevCp}|< ${prevCp}]]` : '*Start*'} | ${nextCp ? `[[${clusterName}/${nextCp}|${nextCp} >]]` : '*End*'} |
+`;
 
-            if (audioBase64) {
-                body.audio_base64 = audioBase64;
-                body.audio_format = 'webm';
-            } else if (text) {
-                body.text = text;
-            } else if (selectedOption) {
-                body.selected_option = selectedOption;
+                await this.app.vault.create(cpPath, content);
+                createdNames.add(cpName.toLowerCase());
+                createdCount++;
             }
 
-            const response = await this.apiRequest('/respond', 'POST', body);
-            return response;
-        } catch (error) {
-            console.error('Respond error:', error);
-            throw error;
-        }
-    }
+            // Create INVARIABLE notes
+            for (const cp of checkpoints) {
+                const cpName = normalizeName(cp.name);
+                const order = cp.order || 1;
 
-    // Continue conversation - Step 2: confirm transcript and process
-    async confirmRespondToSession(sessionId: string, confirmedText: string): Promise<any> {
-        try {
-            const response = await this.apiRequest('/respond', 'POST', {
-                session_id: sessionId,
-                user_id: this.settings.userId,
-                confirmed_text: confirmedText
-            });
-            return response;
-        } catch (error) {
-            console.error('Confirm respond error:', error);
-            throw error;
-        }
-    }
+                for (const inv of (cp.invariables || [])) {
+                    const invName = normalizeName(inv.name);
+                    if (!invName || createdNames.has(invName.toLowerCase())) continue;
 
-    async saveSessionToVault(session: any) {
-        try {
-            const date = new Date().toISOString().split('T')[0];
-            const folder = this.settings.syncFolder + '/Sessions';
-            await this.ensureFoldersExist([folder]);
+                    const invPath = `${conceptsFolder}/${invName}.md`;
+                    if (this.app.vault.getAbstractFileByPath(invPath)) {
+                        createdNames.add(invName.toLowerCase());
+                        continue;
+                    }
 
-            // Build markdown content
-            let content = `---
-type: training-session
-date: ${date}
-session_id: ${session.session_id}
-tags: [bjj, training, voice-note]
+                    const tier = inv.tier || 'tier3';
+                    const tierLabel = tier === 'tier1' ? 'CRITICAL' : tier === 'tier2' ? 'IMPORTANT' : 'REFINEMENT';
+
+                    // Siblings at same checkpoint
+                    const siblings = (cp.invariables || [])
+                        .filter((i: any) => normalizeName(i.name).toLowerCase() !== invName.toLowerCase())
+                        .map((i: any) => `[[${clusterName}/${normalizeName(i.name)}|${normalizeName(i.name)}]]`)
+                        .join(' · ');
+
+                    const content = `---
+type: invariable
+tier: "${tier}"
+checkpoint: "${cpName}"
+checkpoint_order: ${order}
+cluster: "${clusterName}"
+tags: [grappling, invariable, ${tier}${topicTagsStr ? ', ' + topicTagsStr : ''}]
+source_file: "${file.basename}"
+source_rlm_session: "${sourceRlmSessionId}"
 ---
 
-# Training Session - ${date}
+# ${invName}
 
-## Your Notes (Transcribed)
+> [!${tier === 'tier1' ? 'danger' : tier === 'tier2' ? 'warning' : 'info'}] ${tierLabel} INVARIABLE
+> Part of [[${clusterName}/${cpName}|Checkpoint ${order}: ${cpName}]]
 
-${session.transcript}
+## WHY
 
-## Topics Identified
+> ${inv.why || 'See parent article.'}
 
-`;
-            // Add topics
-            if (session.extracted_topics) {
-                const topics = session.extracted_topics;
-                if (topics.work_on?.length) {
-                    content += `### Work On\n`;
-                    for (const t of topics.work_on) {
-                        content += `- **${t.topic}**: ${t.context || ''}\n`;
-                    }
-                    content += '\n';
-                }
-                if (topics.wins?.length) {
-                    content += `### Wins\n`;
-                    for (const t of topics.wins) {
-                        content += `- **${t.topic}**: ${t.context || ''}\n`;
-                    }
-                    content += '\n';
-                }
-            }
+## HOW
 
-            content += `## Coach Response
+${inv.how || 'No explanation.'}
 
-${session.response_text}
+## FEEL
+
+> ${inv.feel || 'No feel description.'}
+
+---
+
+## Do Together With
+
+${siblings || '*Only invariable at this checkpoint*'}
+
+## Parent
 
+[[${clusterName}/${cpName}|< ${cpName}]]
 `;
-            // Add options if present
-            if (session.options?.length) {
-                content += `## Next Steps\n\n`;
-                for (const opt of session.options) {
-                    content += `- [ ] ${opt.label}\n`;
+
+                    await this.app.vault.create(invPath, content);
+                    createdNames.add(invName.toLowerCase());
+                    createdCount++;
                 }
             }
 
-            const filename = `${folder}/${date}-${session.session_id.substring(0, 8)}.md`;
-
-            const existingFile = this.app.vault.getAbstractFileByPath(filename);
-            if (existingFile instanceof TFile) {
-                await this.app.vault.modify(existingFile, content);
-            } else {
-                await this.app.vault.create(filename, content);
-            }
+            // Create VARIABLE notes
+            for (const cp of checkpoints) {
+                const cpName = normalizeName(cp.name);
+                const order = cp.order || 1;
 
-            // Open the file
-            const file = this.app.vault.getAbstractFileByPath(filename);
-            if (file instanceof TFile) {
-                await this.app.workspace.getLeaf().openFile(file);
-            }
+                for (const v of (cp.variables || [])) {
+                    const vName = normalizeName(v.name);
+                    if (!vName || createdNames.has(vName.toLowerCase())) continue;
 
-            return filename;
-        } catch (error) {
-            console.error('Error saving session:', error);
-            throw error;
-        }
-    }
+                    const vPath = `${conceptsFolder}/${vName}.md`;
+                    if (this.app.vault.getAbstractFileByPath(vPath)) {
+                        createdNames.add(vName.toLowerCase());
+                        continue;
+                    }
 
-    insertTrainingTemplate(editor: Editor) {
-        const date = new Date().toISOString().split('T')[0];
-        const template = `---
-type: training-note
-date: ${date}
-tags: [bjj, training]
+                    const content = `---
+type: variable
+trigger: "${v.trigger || ''}"
+checkpoint: "${cpName}"
+checkpoint_order: ${order}
+cluster: "${clusterName}"
+tags: [grappling, variable${topicTagsStr ? ', ' + topicTagsStr : ''}]
+source_file: "${file.basename}"
+source_rlm_session: "${sourceRlmSessionId}"
 ---
 
-# Training Notes - ${date}
+# ${vName}
 
-## What Worked Well
+> [!warning] VARIABLE - Situational Response
+> Part of [[${clusterName}/${cpName}|Checkpoint ${order}: ${cpName}]]
 
+## TRIGGER
 
-## What Needs Work
+> **${v.trigger || 'When opponent reacts'}**
 
+## ACTION
 
-## Techniques Practiced
+${v.action || 'No action described.'}
 
+## WHY This Works
 
-## Questions for Flipmode
+> ${v.why || 'See parent article.'}
 
-`;
-        editor.replaceSelection(template);
-    }
+---
 
-    // Research method
-    async research(topic: string, context: string = ''): Promise<any> {
-        try {
-            const response = await this.apiRequest('/research', 'POST', {
-                topic,
-                context,
-                max_sources: 10
-            });
+## Parent
 
-            return response;
-        } catch (error) {
-            console.error('Research error:', error);
-            throw error;
-        }
-    }
+[[${clusterName}/${cpName}|< ${cpName}]]
+`;
 
-    async saveResearchToVault(topic: string, research: any) {
-        try {
-            // Get markdown from sync endpoint
-            const mdResponse = await this.apiRequest('/sync/research', 'POST', {
-                topic,
-                article: research.article,
-                sources: research.sources,
-                context: research.context
-            });
+                    await this.app.vault.create(vPath, content);
+                    createdNames.add(vName.toLowerCase());
+                    createdCount++;
+                }
+            }
 
-            // Ensure folder exists
-            const folder = this.settings.syncFolder + '/Research';
-            await this.ensureFoldersExist([folder]);
+            // Create index
+            const clusterTag = `cluster/${clusterName.toLowerCase().replace(/\s+/g, '-')}`;
+            const indexPath = `${conceptsBase}/${clusterName}.md`;
 
-            // Save file
-            await this.syncFile({
-                path: mdResponse.path,
-                content: mdResponse.content,
-                checksum: mdResponse.checksum
-            });
+            const cpList = checkpoints.map((cp: any) => {
+                const cpName = normalizeName(cp.name);
+                const invCount = (cp.invariables || []).length;
+                const varCount = (cp.variables || []).length;
+                return `${cp.order || 1}. [[${clusterName}/${cpName}|${cpName}]] (${invCount} inv, ${varCount} var)`;
+            }).join('\n');
 
-            // Open the file
-            const file = this.app.vault.getAbstractFileByPath(mdResponse.path);
-            if (file instanceof TFile) {
-                await this.app.workspace.getLeaf().openFile(file);
+            const totalInv = checkpoints.reduce((sum: number, cp: any) => sum + (cp.invariables || []).length, 0);
+            const totalVar = checkpoints.reduce((sum: number, cp: any) => sum + (cp.variables || []).length, 0);
+
+            // Build Mermaid flowchart
+            let mermaidFlow = 'flowchart LR\n';
+            for (let i = 0; i < checkpoints.length; i++) {
+                const cp = checkpoints[i];
+                const cpId = `CP${i + 1}`;
+                const cpName = normalizeName(cp.name).replace(/"/g, '');
+                mermaidFlow += `    ${cpId}["[${i + 1}] ${cpName}"]\n`;
+            }
+            for (let i = 0; i < checkpoints.length - 1; i++) {
+                mermaidFlow += `    CP${i + 1} --> CP${i + 2}\n`;
             }
 
-            return mdResponse.path;
-        } catch (error) {
-            console.error('Error saving research:', error);
-            throw error;
-        }
-    }
-}
+            const indexContent = `---
+type: sequence
+cluster: "${clusterName}"
+tags: [cluster, grappling, sequence, ${clusterTag}]
+source_file: "${file.basename}"
+checkpoints_count: ${checkpoints.length}
+invariables_count: ${totalInv}
+variables_count: ${totalVar}
+---
 
-// Flipmode Menu Modal
-class FlipmodeMenuModal extends Modal {
-    plugin: BJJFlipmodePlugin;
+# ${clusterName}
 
-    constructor(app: App, plugin: BJJFlipmodePlugin) {
-        super(app);
-        this.plugin = plugin;
-    }
+> [!tip] Sequential Checkpoints with Invariables and Variables
 
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('flipmode-modal');
+**Source:** [[${file.basename}]]
+**Checkpoints:** ${checkpoints.length} | **Invariables:** ${totalInv} | **Variables:** ${totalVar}
 
-        contentEl.createEl('h2', { text: 'Flipmode' });
+---
 
-        // Connection status
-        const statusEl = contentEl.createEl('p', {
-            text: 'Checking connection...',
-            cls: 'flipmode-status'
-        });
+## Flow Diagram
 
-        this.plugin.checkConnection().then(connected => {
-            statusEl.setText(connected ? 'Connected to Flipmode' : 'Not connected');
-            statusEl.addClass(connected ? 'connected' : 'disconnected');
-        });
+\`\`\`mermaid
+${mermaidFlow}\`\`\`
 
-        // Menu buttons
-        const buttonContainer = contentEl.createDiv({ cls: 'flipmode-buttons' });
+---
 
-        new Setting(buttonContainer)
-            .setName('Research Technique')
-            .setDesc('Search the Flipmode for technique information')
-            .addButton(btn => btn
-                .setButtonText('Research')
-                .setCta()
-                .onClick(() => {
-                    this.close();
-                    this.plugin.showResearchModal();
-                }));
+## The Sequence
 
-        new Setting(buttonContainer)
-            .setName('Sync with Flipmode')
-            .setDesc('Download latest sessions and notes')
-            .addButton(btn => btn
-                .setButtonText('Sync')
-                .onClick(() => {
-                    this.close();
-                    this.plugin.syncWithFlipmode();
-                }));
+${cpList}
 
-        new Setting(buttonContainer)
-            .setName('Settings')
-            .setDesc('Configure Flipmode connection')
-            .addButton(btn => btn
-                .setButtonText('Open Settings')
-                .onClick(() => {
-                    this.close();
-                    // @ts-ignore
-                    this.app.setting.open();
-                    // @ts-ignore
-                    this.app.setting.openTabById('flipmode');
-                }));
-    }
+---
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
-    }
-}
+## How It Works
 
-// Research Modal
-class ResearchModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    topicInput: HTMLInputElement;
-    contextInput: HTMLTextAreaElement;
-    resultEl: HTMLElement;
+1. **Checkpoints** = Sequential milestones (complete 1 before 2)
+2. **Invariables** = Always do (tiered by priority, do together)
+3. **Variables** = IF/THEN responses at each checkpoint
+`;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin) {
-        super(app);
-        this.plugin = plugin;
-    }
+            if (!this.app.vault.getAbstractFileByPath(indexPath)) {
+                await this.app.vault.create(indexPath, indexContent);
+            }
 
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('flipmode-research-modal');
+            // Create Canvas file for visual timeline
+            const canvasPath = `${conceptsBase}/${clusterName}.canvas`;
+            if (!this.app.vault.getAbstractFileByPath(canvasPath)) {
+                const nodes: LayoutNode[] = [];
+                const edges: any[] = [];
+                let nodeId = 1;
 
-        contentEl.createEl('h2', { text: 'Research a Technique' });
+                // Node sizes (positions come from layoutCanvas)
+                const cpWidth = 280;
+                const cpHeight = 80;
+                const conceptWidth = 220;
+                const conceptHeight = 60;
 
-        // Topic input
-        new Setting(contentEl)
-            .setName('Technique')
-            .setDesc('What technique do you want to research?')
-            .addText(text => {
-                this.topicInput = text.inputEl;
-                text.setPlaceholder('e.g., knee slice pass, arm drag, berimbolo');
-            });
-
-        // Context input
-        new Setting(contentEl)
-            .setName('Context (optional)')
-            .setDesc('Any specific situation or problem?')
-            .addTextArea(text => {
-                this.contextInput = text.inputEl;
-                text.setPlaceholder('e.g., defending against it, from closed guard, against bigger opponents');
-            });
-
-        // Search button
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Search Flipmode')
-                .setCta()
-                .onClick(() => this.doResearch()));
+                // Create checkpoint nodes (the timeline spine)
+                const cpNodeIds: string[] = [];
+                for (let i = 0; i < checkpoints.length; i++) {
+                    const cp = checkpoints[i];
+                    const cpName = normalizeName(cp.name);
+                    const cpId = `cp-${nodeId++}`;
+                    cpNodeIds.push(cpId);
 
-        // Results area
-        this.resultEl = contentEl.createDiv({ cls: 'flipmode-results' });
-    }
+                    nodes.push({
+                        id: cpId,
+                        type: 'file',
+                        file: `${conceptsFolder}/${cpName}.md`,
+                        rank: i,
+                        width: cpWidth,
+                        height: cpHeight,
+                        color: '6'
+                    });
 
-    async doResearch() {
-        const topic = this.topicInput.value.trim();
-        if (!topic) {
-            new Notice('Please enter a technique to research');
-            return;
-        }
+                    // Create invariable nodes below checkpoint
+                    const invariables = cp.invariables || [];
+                    for (let j = 0; j < invariables.length; j++) {
+                        const inv = invariables[j];
+                        const invName = normalizeName(inv.name);
+                        const invId = `inv-${nodeId++}`;
+                        const tier = inv.tier || 'tier3';
+                        const color = tier === 'tier1' ? '1' : tier === 'tier2' ? '3' : '4';
 
-        this.resultEl.empty();
-        this.resultEl.createEl('p', { text: 'Searching Flipmode...' });
+                        nodes.push({
+                            id: invId,
+                            type: 'file',
+                            file: `${conceptsFolder}/${invName}.md`,
+                            anchor: cpId,
+                            side: 'after',
+                            tier,
+                            width: conceptWidth,
+                            height: conceptHeight,
+                            color: color
+                        });
 
-        try {
-            const research = await this.plugin.research(topic, this.contextInput.value);
+                        // Edge from checkpoint to invariable
+                        edges.push({
+                            id: `edge-${nodeId++}`,
+                            fromNode: cpId,
+                            toNode: invId,
+                            fromSide: 'bottom',
+                            toSide: 'top'
+                        });
+                    }
 
-            this.resultEl.empty();
+                    // Create variable nodes below invariables
+                    const variables = cp.variables || [];
+                    for (let k = 0; k < variables.length; k++) {
+                        const v = variables[k];
+                        const vName = normalizeName(v.name);
+                        const vId = `var-${nodeId++}`;
 
-            if (research.source_count > 0) {
-                this.resultEl.createEl('h3', {
-                    text: `Found ${research.source_count} sources`
-                });
+                        nodes.push({
+                            id: vId,
+                            type: 'file',
+                            file: `${conceptsFolder}/${vName}.md`,
+                            anchor: cpId,
+                            side: 'after',
+                            tier: 'variable',
+                            width: conceptWidth,
+                            height: conceptHeight,
+                            color: '2'
+                        });
 
-                // Preview
-                const previewEl = this.resultEl.createEl('div', { cls: 'research-preview' });
-                previewEl.createEl('p', {
-                    text: research.article.substring(0, 300) + '...'
-                });
+                        // Edge from checkpoint to variable
+                        edges.push({
+                            id: `edge-${nodeId++}`,
+                            fromNode: cpId,
+                            toNode: vId,
+                            fromSide: 'bottom',
+                            toSide: 'top'
+                        });
+                    }
+                }
 
-                // Sources list
-                const sourcesList = this.resultEl.createEl('ul', { cls: 'sources-list' });
-                for (const source of research.sources.slice(0, 5)) {
-                    sourcesList.createEl('li', {
-                        text: `${source.instructor} - ${source.title}`
+                // Create edges between checkpoints (the timeline)
+                for (let i = 0; i < cpNodeIds.length - 1; i++) {
+                    edges.push({
+                        id: `edge-${nodeId++}`,
+                        fromNode: cpNodeIds[i],
+                        toNode: cpNodeIds[i + 1],
+                        fromSide: 'right',
+                        toSide: 'left'
                     });
                 }
 
-                // Save button
-                new Setting(this.resultEl)
-                    .addButton(btn => btn
-                        .setButtonText('Save to Vault')
-                        .setCta()
-                        .onClick(async () => {
-                            try {
-                                const path = await this.plugin.saveResearchToVault(topic, research);
-                                new Notice(`Saved to ${path}`);
-                                this.close();
-                            } catch (error) {
-                                new Notice('Failed to save research');
-                            }
-                        }));
-            } else {
-                this.resultEl.createEl('p', {
-                    text: 'No sources found. Try a different search term.'
-                });
+                const canvasContent = JSON.stringify(this.layoutGeneratedCanvas({ nodes, edges }, ['tier1', 'tier2', 'tier3', 'variable']), null, 2);
+                await this.app.vault.create(canvasPath, canvasContent);
             }
+
+            new Notice(`Created "${clusterName}": ${checkpoints.length} checkpoints + Canvas timeline!`, 5000);
+
         } catch (error) {
-            this.resultEl.empty();
-            this.resultEl.createEl('p', {
-                text: 'Research failed. Check your connection settings.',
-                cls: 'error'
-            });
+            console.error('Explode to Concept Graph error:', error);
+            new Notice('Failed to explode concepts. Check console.', 5000);
         }
     }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
-    }
-}
+    // Get training drills and games for a concept node
+    // Uses RLM deep dive to search video library, falls back to AI-generated suggestions
+    async getTrainingDrillsForConcept(file: TFile) {
+        // Read concept file
+        const content = await this.app.vault.read(file);
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
-// Voice Note Modal - Record training notes
-class VoiceNoteModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    mediaRecorder: MediaRecorder | null = null;
-    audioChunks: Blob[] = [];
-    isRecording: boolean = false;
-    recordBtn: HTMLButtonElement;
-    statusEl: HTMLElement;
-    resultEl: HTMLElement;
-    timerEl: HTMLElement;
-    timerInterval: number | null = null;
-    recordingStartTime: number = 0;
-    currentSessionId: string | null = null;  // Track current session for continuations
+        if (!frontmatterMatch) {
+            new Notice('No frontmatter found. Is this a concept file?');
+            return;
+        }
 
-    constructor(app: App, plugin: BJJFlipmodePlugin) {
-        super(app);
-        this.plugin = plugin;
-    }
+        const frontmatter = frontmatterMatch[1];
 
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('flipmode-voice-modal');
+        // Check if this is a concept file
+        if (!frontmatter.includes('type: concept')) {
+            new Notice('This command only works on concept files');
+            return;
+        }
 
-        // Header - embedded base64 image (bulletproof)
-        const headerContainer = contentEl.createDiv({ cls: 'flipmode-header' });
-        headerContainer.style.textAlign = 'center';
-        headerContainer.style.margin = '0 0 15px 0';
+        // Check if already has drills
+        if (frontmatter.includes('has-drills')) {
+            new Notice('This concept already has training drills');
+            return;
+        }
 
-        const headerImg = headerContainer.createEl('img');
-        headerImg.src = FLIPMODE_HEADER_BASE64;
-        headerImg.alt = 'FLIPMODE';
-        headerImg.style.maxWidth = '100%';
-        headerImg.style.height = 'auto';
+        // Extract concept info
+        const conceptName = file.basename;
+        const summaryMatch = content.match(/## Summary\n\n([^\n#]+)/);
+        const conceptSummary = summaryMatch ? summaryMatch[1].trim() : conceptName;
 
-        // Timer display
-        this.timerEl = contentEl.createEl('div', {
-            text: '00:00',
-            cls: 'voice-timer'
-        });
-        this.timerEl.style.fontSize = '2em';
-        this.timerEl.style.textAlign = 'center';
-        this.timerEl.style.margin = '20px 0';
-        this.timerEl.style.fontFamily = 'monospace';
+        // Get source RLM session if available
+        const sessionMatch = frontmatter.match(/source_rlm_session:\s*"([^"]+)"/);
+        const rlmSessionId = sessionMatch ? sessionMatch[1] : '';
 
-        // Status
-        this.statusEl = contentEl.createEl('p', {
-            text: 'Click to start recording',
-            cls: 'voice-status'
-        });
-        this.statusEl.style.textAlign = 'center';
-        this.statusEl.style.color = 'var(--text-muted)';
+        new Notice(`Finding training drills for: ${conceptName}...`, 3000);
 
-        // Results area (responses appear here, above the button)
-        this.resultEl = contentEl.createDiv({ cls: 'voice-results' });
+        try {
+            // Call server endpoint to get training drills
+            const response = await requestUrl({
+                url: `${this.settings.serverUrl}/api/obsidian/concept-drills`,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.settings.apiToken}`
+                },
+                body: JSON.stringify({
+                    concept_name: conceptName,
+                    concept_summary: conceptSummary,
+                    rlm_session_id: rlmSessionId
+                })
+            });
 
-        // Record button (at the bottom)
-        const btnContainer = contentEl.createDiv({ cls: 'voice-btn-container' });
-        btnContainer.style.textAlign = 'center';
-        btnContainer.style.marginTop = '20px';
+            const result = response.json;
 
-        this.recordBtn = btnContainer.createEl('button', {
-            text: 'START RECORDING'
-        });
-        this.recordBtn.style.cssText = `
-            font-size: 16px;
-            font-weight: 600;
-            padding: 16px 32px;
-            min-width: 200px;
-            border: none;
-            border-radius: 8px;
-            background: var(--interactive-accent);
-            color: var(--text-on-accent);
-            cursor: pointer;
-            transition: background 0.2s;
-            text-align: center;
-            display: inline-flex;
-            align-items: center;
-            justify-content: center;
-        `;
-        this.recordBtn.onclick = () => this.toggleRecording();
-    }
+            if (result.error) {
+                new Notice(`Failed to get drills: ${result.error}`, 5000);
+                return;
+            }
 
-    async toggleRecording() {
-        if (this.isRecording) {
-            await this.stopRecording();
-        } else {
-            await this.startRecording();
-        }
-    }
+            const drills = result.drills || result.content || 'No drills found.';
+            const sourcesCount = result.sources_count || 0;
+            const isGenerated = result.ai_generated || false;
 
-    async startRecording() {
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            // Add has-drills tag to frontmatter
+            const updatedFrontmatter = frontmatter.replace(
+                /tags: \[([^\]]+)\]/,
+                'tags: [$1, has-drills]'
+            );
 
-            this.audioChunks = [];
-            this.mediaRecorder = new MediaRecorder(stream, {
-                mimeType: 'audio/webm;codecs=opus'
-            });
+            // Build drills section
+            const timestamp = new Date().toLocaleTimeString();
+            const sourceNote = isGenerated
+                ? '*(AI-generated suggestions)*'
+                : `*(${sourcesCount} sources from video library)*`;
 
-            this.mediaRecorder.ondataavailable = (event) => {
-                if (event.data.size > 0) {
-                    this.audioChunks.push(event.data);
-                }
-            };
+            const drillsSection = `
 
-            this.mediaRecorder.onstop = () => {
-                stream.getTracks().forEach(track => track.stop());
-                this.processRecording();
-            };
+---
+## Training Drills & Games
+*Generated at ${timestamp}* ${sourceNote}
 
-            this.mediaRecorder.start(1000); // Collect data every second
-            this.isRecording = true;
-            this.recordingStartTime = Date.now();
+${drills}
+`;
 
-            this.recordBtn.setText('STOP');
-            this.recordBtn.style.background = 'var(--text-error)';
-            this.statusEl.setText('Recording... speak now');
-            this.statusEl.style.color = 'var(--text-error)';
+            // Update file with new frontmatter and drills section
+            const updatedContent = content
+                .replace(frontmatterMatch[0], `---\n${updatedFrontmatter}\n---`)
+                + drillsSection;
 
-            // Start timer
-            this.timerInterval = window.setInterval(() => {
-                const elapsed = Math.floor((Date.now() - this.recordingStartTime) / 1000);
-                const mins = Math.floor(elapsed / 60).toString().padStart(2, '0');
-                const secs = (elapsed % 60).toString().padStart(2, '0');
-                this.timerEl.setText(`${mins}:${secs}`);
-            }, 1000);
+            await this.app.vault.modify(file, updatedContent);
+
+            const noticeText = isGenerated
+                ? `Generated training suggestions for: ${conceptName}`
+                : `Found ${sourcesCount} training drills for: ${conceptName}`;
+            new Notice(noticeText, 5000);
 
         } catch (error) {
-            console.error('Recording error:', error);
-            new Notice('Could not access microphone. Please allow microphone access.');
-            this.statusEl.setText('Microphone access denied');
+            console.error('Get Training Drills error:', error);
+            new Notice('Failed to get training drills. Check console.', 5000);
         }
     }
 
-    async stopRecording() {
-        if (this.mediaRecorder && this.isRecording) {
-            this.mediaRecorder.stop();
-            this.isRecording = false;
-
-            if (this.timerInterval) {
-                window.clearInterval(this.timerInterval);
-                this.timerInterval = null;
-            }
+    // Research a concept - dive deeper via Oracle RLM
+    async researchConcept(file: TFile) {
+        const content = await this.app.vault.read(file);
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
-            this.recordBtn.setText('PROCESSING...');
-            this.recordBtn.disabled = true;
-            this.recordBtn.style.background = 'var(--text-muted)';
-            this.statusEl.setText('Processing your voice note...');
-            this.statusEl.style.color = 'var(--text-accent)';
+        if (!frontmatterMatch) {
+            new Notice('No frontmatter found');
+            return;
         }
-    }
 
-    async processRecording() {
+        const frontmatter = frontmatterMatch[1];
+        const conceptName = file.basename;
+
+        // Get RLM session if available
+        const sessionMatch = frontmatter.match(/source_rlm_session:\s*"([^"]+)"/);
+        const rlmSessionId = sessionMatch ? sessionMatch[1] : '';
+
+        new Notice(`Researching: ${conceptName}...`, 3000);
+
         try {
-            const audioBlob = new Blob(this.audioChunks, { type: 'audio/webm' });
+            // Query Oracle for more info about this concept
+            const oracleUrl = 'http://localhost:5002';
+            const response = await requestUrl({
+                url: `${oracleUrl}/api/internal/deep-dive`,
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    session_id: rlmSessionId || `concept_${conceptName}`,
+                    focus_text: `${conceptName}: key details, variations, common mistakes, and important nuances`
+                })
+            });
 
-            // Check if we're in remote (athlete) mode
-            if (this.plugin.settings.mode === 'remote' && this.plugin.settings.athleteToken) {
-                // REMOTE MODE: Use Heroku transcription
-                this.statusEl.setText('Transcribing via cloud (2min max, 5/day)...');
+            const result = response.json;
 
-                try {
-                    const result = await this.plugin.remoteTranscribe(audioBlob);
+            if (result.error) {
+                new Notice(`Research failed: ${result.error}`, 5000);
+                return;
+            }
 
-                    // Show usage info
-                    const usageInfo = `(${result.usage.remaining} voice notes remaining today)`;
-                    this.statusEl.setText(`Transcribed ${Math.round(result.duration)}s ${usageInfo}`);
+            const research = result.deep_dive_raw || result.deep_dive_html;
+            const sourcesCount = result.new_sources_count || 0;
 
-                    // Show transcript for confirmation before submitting to queue
-                    this.showRemoteTranscriptConfirmation(result.text, result.usage);
+            if (!research || sourcesCount === 0) {
+                new Notice(`No content found for "${conceptName}" in your library`, 5000);
+                return;
+            }
 
-                } catch (error: any) {
-                    if (error.message.includes('Daily limit')) {
-                        this.statusEl.setText('Daily voice note limit reached (5/day)');
-                        new Notice('You have used all 5 voice notes for today. Try again tomorrow!');
-                    } else if (error.message.includes('too long')) {
-                        this.statusEl.setText('Recording too long (max 2 minutes)');
-                        new Notice('Voice notes are limited to 2 minutes. Please record a shorter message.');
-                    } else {
-                        throw error;
-                    }
-                    this.recordBtn.setText('TRY AGAIN');
-                    this.recordBtn.disabled = false;
-                    this.recordBtn.style.background = 'var(--interactive-accent)';
-                    return;
-                }
+            // Append research to the concept file
+            const timestamp = new Date().toLocaleTimeString();
+            const researchSection = `
 
-            } else {
-                // LOCAL MODE: Use local server transcription
-                const base64 = await this.blobToBase64(audioBlob);
-                this.statusEl.setText('Transcribing...');
-
-                let response;
-                if (this.currentSessionId) {
-                    // CONTINUE existing session
-                    response = await this.plugin.respondToSession(
-                        this.currentSessionId,
-                        undefined,
-                        base64,
-                        undefined
-                    );
+---
+## Research Findings
+*Found ${sourcesCount} sources at ${timestamp}*
 
-                    if (response.awaiting_confirmation) {
-                        this.showTranscriptConfirmation(response.transcript, response.message, this.currentSessionId);
-                    } else {
-                        this.displayResults(response);
-                    }
-                } else {
-                    // START new session
-                    response = await this.plugin.startVoiceSession(base64);
+${research}
+`;
 
-                    if (response.awaiting_confirmation) {
-                        this.showTranscriptConfirmation(response.transcript, response.message, null);
-                    } else {
-                        this.displayResults(response);
-                    }
-                }
-            }
+            const updatedContent = content + researchSection;
+            await this.app.vault.modify(file, updatedContent);
 
-        } catch (error: any) {
-            console.error('Processing error:', error);
-            this.statusEl.setText('Error processing recording');
-            this.statusEl.style.color = 'var(--text-error)';
-            this.recordBtn.setText('TRY AGAIN');
-            this.recordBtn.disabled = false;
-            this.recordBtn.style.background = 'var(--interactive-accent)';
+            new Notice(`Added research for: ${conceptName} (${sourcesCount} sources)`, 5000);
 
-            this.resultEl.empty();
-            this.resultEl.createEl('p', {
-                text: `Error: ${error.message || 'Could not process recording'}`,
-                cls: 'error'
-            });
+        } catch (error) {
+            console.error('Research concept error:', error);
+            new Notice('Research failed. Is Oracle running?', 5000);
         }
     }
 
-    // Track remote therapy session
-    remoteTherapySessionId: string | null = null;
+    // Generate Skill Development sessions from selected text (right-click context menu)
+    // Creates 3 separate nodes: SkillDev1, SkillDev2, SkillDev3
+    // Uses CLA (Constraints-Led Approach) science via Oracle's skill-dev endpoint
+    async generateTrainingPlanFromSelection(editor: Editor, view: MarkdownView, selection: string) {
+        const file = view.file;
+        if (!file) {
+            new Notice('No file open');
+            return;
+        }
 
-    // Show transcript confirmation for remote (athlete) mode - starts therapy session
-    async showRemoteTranscriptConfirmation(transcript: string, usage: any) {
-        this.resultEl.empty();
+        const fullSelection = selection.trim();
+        if (!fullSelection) {
+            new Notice('No text selected');
+            return;
+        }
 
-        this.statusEl.setText('Starting therapy session...');
-        this.statusEl.style.color = 'var(--text-accent)';
+        // Extract short topic for filename/display (first line, max 60 chars)
+        const firstLine = fullSelection.split('\n')[0].replace(/^#+\s*/, '').trim();
+        const shortTopic = firstLine.substring(0, 60);
 
-        // Usage info
-        const usageEl = this.resultEl.createEl('p', {
-            text: `Voice notes today: ${usage.count}/${usage.limit} (${usage.remaining} remaining)`
-        });
-        usageEl.style.textAlign = 'center';
-        usageEl.style.color = 'var(--text-muted)';
-        usageEl.style.fontSize = '0.85em';
-        usageEl.style.marginBottom = '10px';
+        // Read frontmatter to get RLM session context
+        const content = await this.app.vault.read(file);
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
 
-        try {
-            // Start therapy session with transcript
-            const therapyResult = await this.plugin.startRemoteTherapy(transcript);
+        if (!frontmatterMatch) {
+            new Notice('No frontmatter found. Skill Development requires a Training Review file.');
+            return;
+        }
 
-            if (therapyResult.state === 'ready') {
-                // Already have enough info - show enriched query
-                this.showEnrichedQueryConfirmation(therapyResult.enriched_query, transcript);
-            } else {
-                // Need more info - show question
-                this.remoteTherapySessionId = therapyResult.session_id;
-                this.showTherapyQuestion(therapyResult.question, transcript);
-            }
-        } catch (error: any) {
-            console.error('Therapy start error:', error);
-            // Fall back to direct submit
-            this.showDirectSubmitForm(transcript, usage);
+        const frontmatter = frontmatterMatch[1];
+
+        // Check for rlm_session_id (required for CLA-based generation)
+        const sessionIdMatch = frontmatter.match(/rlm_session_id:\s*"([^"]+)"/);
+        if (!sessionIdMatch || !sessionIdMatch[1]) {
+            new Notice('No RLM session found. Generate a Training Review first.');
+            return;
         }
-    }
 
-    // Show therapy question and let athlete respond
-    showTherapyQuestion(question: string, originalTranscript: string) {
-        this.resultEl.empty();
+        const sessionId = sessionIdMatch[1];
 
-        this.statusEl.setText('Clarifying your training...');
-        this.statusEl.style.color = 'var(--text-accent)';
+        new Notice(`Generating CLA Skill Development for: ${shortTopic}...`, 5000);
 
-        // Show original transcript (smaller)
-        const origEl = this.resultEl.createEl('p', {
-            text: `"${originalTranscript.substring(0, 100)}${originalTranscript.length > 100 ? '...' : ''}"`
-        });
-        origEl.style.cssText = 'font-style: italic; color: var(--text-muted); font-size: 0.9em; margin-bottom: 15px;';
+        try {
+            // Call Oracle's CLA-based skill development endpoint
+            const oracleUrl = 'http://localhost:5002';
 
-        // Show question from therapy
-        const questionEl = this.resultEl.createEl('p', { text: question });
-        questionEl.style.cssText = 'font-weight: 500; margin-bottom: 15px; line-height: 1.5;';
+            const response = await requestUrl({
+                url: `${oracleUrl}/api/internal/skill-dev`,
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    session_id: sessionId,
+                    topic: fullSelection  // Send full selection for Oracle context
+                })
+            });
 
-        // Text input for answer
-        const textarea = this.resultEl.createEl('textarea');
-        textarea.placeholder = 'Type your answer...';
-        textarea.style.cssText = `
-            width: 100%;
-            min-height: 80px;
-            padding: 10px;
-            border-radius: 8px;
-            border: 1px solid var(--background-modifier-border);
-            background: var(--background-primary);
-            color: var(--text-normal);
-            font-size: 14px;
-            resize: vertical;
-            margin-bottom: 15px;
-        `;
+            const plan = response.json;
 
-        // Buttons
-        const btnContainer = this.resultEl.createDiv();
-        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+            if (plan.error) {
+                new Notice(`Skill Development failed: ${plan.error}`, 5000);
+                return;
+            }
 
-        const answerBtn = btnContainer.createEl('button', { text: 'Answer' });
-        answerBtn.style.cssText = `
-            padding: 10px 20px;
-            background: var(--interactive-accent);
-            color: var(--text-on-accent);
-            border: none;
-            border-radius: 6px;
-            cursor: pointer;
-            font-weight: 500;
-        `;
-        answerBtn.onclick = async () => {
-            const answer = textarea.value.trim();
-            if (!answer) {
-                new Notice('Please type an answer');
+            if (!plan.sessions || plan.sessions.length === 0) {
+                new Notice('Failed to generate skill development sessions');
                 return;
             }
 
-            answerBtn.disabled = true;
-            answerBtn.setText('Processing...');
+            // Create filenames for each session
+            const dateStr = new Date().toISOString().split('T')[0];
+            const safeTopic = shortTopic.substring(0, 25).replace(/[^a-zA-Z0-9]/g, '_').replace(/_+/g, '_');
 
-            try {
-                const result = await this.plugin.respondToRemoteTherapy(
-                    this.remoteTherapySessionId!,
-                    answer
+            // Get folder path (same location as source file or default)
+            const folderPath = file.parent?.path || this.settings.syncFolder;
+
+            // Ensure folder exists
+            const folderExists = this.app.vault.getAbstractFileByPath(folderPath);
+            if (!folderExists) {
+                await this.app.vault.createFolder(folderPath);
+            }
+
+            const createdFiles: string[] = [];
+
+            // Create SkillDev files from CLA-generated sessions
+            for (let i = 0; i < plan.sessions.length; i++) {
+                const session = plan.sessions[i];
+                const sessionNum = session.session_number || (i + 1);
+                const filename = `SkillDev${sessionNum}-${dateStr}-${safeTopic}`;
+
+                // Build CLA session markdown - use shortTopic for display
+                const sessionMarkdown = this.buildCLASkillDevMarkdown(
+                    shortTopic,
+                    session,
+                    file.basename,
+                    createdFiles
                 );
 
-                if (result.state === 'ready') {
-                    // Got enough info - show enriched query
-                    this.showEnrichedQueryConfirmation(result.enriched_query, originalTranscript);
+                // Save file
+                const filePath = `${folderPath}/${filename}.md`;
+                const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+                if (existingFile instanceof TFile) {
+                    await this.app.vault.modify(existingFile, sessionMarkdown);
                 } else {
-                    // Need more info - show next question
-                    this.showTherapyQuestion(result.question, originalTranscript);
+                    await this.app.vault.create(filePath, sessionMarkdown);
                 }
-            } catch (error: any) {
-                new Notice(`Error: ${error.message}`);
-                answerBtn.disabled = false;
-                answerBtn.setText('Answer');
+
+                createdFiles.push(filename);
             }
-        };
 
-        const skipBtn = btnContainer.createEl('button', { text: 'Skip & Submit' });
-        skipBtn.style.cssText = `
-            padding: 10px 20px;
-            background: var(--background-modifier-border);
-            color: var(--text-normal);
-            border: none;
-            border-radius: 6px;
-            cursor: pointer;
-        `;
-        skipBtn.onclick = () => {
-            // Submit original transcript directly
-            this.showEnrichedQueryConfirmation(originalTranscript, originalTranscript);
-        };
+            // Add backlinks to source file
+            await this.addSkillDevLinks(file, createdFiles);
 
-        // Update record button to allow voice answer
-        this.recordBtn.setText('VOICE ANSWER');
-        this.recordBtn.disabled = false;
-        this.recordBtn.style.background = 'var(--interactive-accent)';
-    }
+            new Notice(`Created ${plan.sessions.length} CLA Skill Dev sessions for ${shortTopic}`, 5000);
 
-    // Show enriched query for final confirmation before submitting
-    showEnrichedQueryConfirmation(enrichedQuery: string, originalTranscript: string) {
-        this.resultEl.empty();
+            // Open the first SkillDev file
+            const firstFile = this.app.vault.getAbstractFileByPath(`${folderPath}/${createdFiles[0]}.md`);
+            if (firstFile instanceof TFile) {
+                await this.app.workspace.getLeaf('split').openFile(firstFile);
+            }
 
-        this.statusEl.setText('Ready to submit to analyst');
-        this.statusEl.style.color = 'var(--text-success)';
+        } catch (error) {
+            console.error('Skill development generation error:', error);
+            new Notice('Failed to generate Skill Development. Check console for details.', 5000);
+        }
+    }
 
-        // Show what will be submitted
-        const labelEl = this.resultEl.createEl('p', { text: 'Your research query:' });
-        labelEl.style.cssText = 'font-weight: 500; margin-bottom: 10px;';
+    // Build CLA-based skill development markdown from Oracle response
+    buildCLASkillDevMarkdown(
+        topic: string,
+        session: any,  // CLA session from Oracle
+        sourceFile: string,
+        siblingFiles: string[]
+    ): string {
+        const dateStr = new Date().toISOString().split('T')[0];
+        const cleanTopic = topic.replace(/"/g, "'");
+        const sessionNum = session.session_number || 1;
 
-        const textarea = this.resultEl.createEl('textarea');
-        textarea.value = enrichedQuery;
-        textarea.style.cssText = `
-            width: 100%;
-            min-height: 80px;
-            padding: 10px;
-            border-radius: 8px;
-            border: 1px solid var(--background-modifier-border);
-            background: var(--background-primary);
-            color: var(--text-normal);
-            font-size: 14px;
-            resize: vertical;
-            margin-bottom: 15px;
-        `;
+        // Build linear navigation
+        const prevFile = sessionNum > 1 ? siblingFiles[sessionNum - 2] : null;
+        const nextFile = sessionNum < 3 ? siblingFiles[sessionNum] : null;
 
-        // Buttons
-        const btnContainer = this.resultEl.createDiv();
-        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+        // Only SkillDev1 links to source
+        const sourceLink = sessionNum === 1 ? `\nsource: "[[${sourceFile}]]"` : '';
+        const sourceLinkBody = sessionNum === 1 ? `- Source: [[${sourceFile}]]\n` : '';
 
-        const submitBtn = btnContainer.createEl('button', { text: 'Submit to Analyst' });
-        submitBtn.style.cssText = `
-            padding: 10px 20px;
-            background: var(--interactive-accent);
-            color: var(--text-on-accent);
-            border: none;
-            border-radius: 6px;
-            cursor: pointer;
-            font-weight: 500;
-        `;
-        submitBtn.onclick = async () => {
-            const finalQuery = textarea.value.trim();
-            if (!finalQuery) {
-                new Notice('Please enter a query');
-                return;
+        // Build rounds as simple bullets - use raw text from LLM
+        let roundsList = '';
+        if (session.rounds_text) {
+            // Use raw rounds text from LLM (preferred - has reasoning)
+            roundsList = session.rounds_text;
+        } else if (session.rounds && session.rounds.length > 0) {
+            for (const round of session.rounds) {
+                const desc = round.description || round.start || 'Positional sparring';
+                const reason = round.reasoning || round.because || '';
+                roundsList += `- **Round ${round.round}:** ${desc}`;
+                if (reason) roundsList += ` — ${reason}`;
+                roundsList += '\n';
             }
+        } else {
+            roundsList = 'See source research for round details.\n';
+        }
 
-            submitBtn.disabled = true;
-            submitBtn.setText('Submitting...');
+        // Build goals
+        const goals = session.goals && session.goals.length > 0
+            ? session.goals.map((g: string) => `- [ ] ${g}`).join('\n')
+            : '- [ ] Complete all 5 rounds\n- [ ] Note what worked';
 
-            try {
-                // Submit enriched query to coach queue
-                await this.plugin.queueClient?.submitQuery(finalQuery, {
-                    original_transcript: originalTranscript,
-                    therapy_session_id: this.remoteTherapySessionId
-                });
-                new Notice('Query submitted to analyst!');
+        return `---
+type: skill-development
+methodology: CLA
+session: ${sessionNum}
+topic: "${cleanTopic}"
+date: ${dateStr}
+resistance: "${session.resistance_level || '50%'}"
+status: pending${sourceLink}
+tags: [bjj, skill-dev, cla, session-${sessionNum}]
+---
 
-                // Save to vault
-                await this.saveRemoteVoiceNote(originalTranscript + '\n\n---\n\n**Research Query:** ' + finalQuery);
+# SkillDev ${sessionNum}: ${session.title || 'Session ' + sessionNum}
 
-                this.statusEl.setText('Submitted! Your analyst will process this.');
-                this.statusEl.style.color = 'var(--text-success)';
+**Resistance:** ${session.resistance_level || '50%'}
+**Focus:** ${session.focus || 'Skill development'}
 
-                this.recordBtn.setText('RECORD ANOTHER');
-                this.recordBtn.disabled = false;
-                this.recordBtn.style.background = 'var(--interactive-accent)';
-                this.remoteTherapySessionId = null;
+${prevFile ? `Previous: [[${prevFile}]]` : ''}${prevFile && nextFile ? ' | ' : ''}${nextFile ? `Next: [[${nextFile}]]` : ''}
 
-            } catch (error: any) {
-                new Notice(`Submit failed: ${error.message}`);
-                submitBtn.disabled = false;
-                submitBtn.setText('Submit to Analyst');
-            }
-        };
+## Positional Sparring Rounds
 
-        const saveOnlyBtn = btnContainer.createEl('button', { text: 'Save Only' });
-        saveOnlyBtn.style.cssText = `
-            padding: 10px 20px;
-            background: var(--background-modifier-border);
-            color: var(--text-normal);
-            border: none;
-            border-radius: 6px;
-            cursor: pointer;
-        `;
-        saveOnlyBtn.onclick = async () => {
-            await this.saveRemoteVoiceNote(originalTranscript + '\n\n---\n\n**Research Query:** ' + textarea.value);
-            new Notice('Voice note saved to vault');
-            this.close();
-        };
-
-        this.recordBtn.setText('RECORD NEW');
-        this.recordBtn.disabled = false;
-        this.recordBtn.style.background = 'var(--interactive-accent)';
-    }
+${roundsList}
 
-    // Fallback: direct submit form (if therapy fails)
-    showDirectSubmitForm(transcript: string, usage: any) {
-        this.resultEl.empty();
+## Goals
 
-        this.statusEl.setText('Review your transcription');
-        this.statusEl.style.color = 'var(--text-accent)';
+${goals}
 
-        const textarea = this.resultEl.createEl('textarea');
-        textarea.value = transcript;
-        textarea.style.cssText = `
-            width: 100%;
-            min-height: 100px;
-            padding: 10px;
-            border-radius: 8px;
-            border: 1px solid var(--background-modifier-border);
-            background: var(--background-primary);
-            color: var(--text-normal);
-            font-size: 14px;
-            resize: vertical;
-            margin-bottom: 15px;
-        `;
+## Post-Session Notes
 
-        const btnContainer = this.resultEl.createDiv();
-        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+**What worked:**
 
-        const submitBtn = btnContainer.createEl('button', { text: 'Submit to Analyst' });
-        submitBtn.style.cssText = `
-            padding: 10px 20px;
-            background: var(--interactive-accent);
-            color: var(--text-on-accent);
-            border: none;
-            border-radius: 6px;
-            cursor: pointer;
-            font-weight: 500;
-        `;
-        submitBtn.onclick = async () => {
-            const finalText = textarea.value.trim();
-            if (!finalText) {
-                new Notice('Please enter some text');
-                return;
-            }
 
-            submitBtn.disabled = true;
-            submitBtn.setText('Submitting...');
+**What to adjust:**
 
-            try {
-                await this.plugin.queueClient?.submitQuery(finalText);
-                new Notice('Query submitted to analyst!');
-                await this.saveRemoteVoiceNote(finalText);
 
-                this.statusEl.setText('Submitted! Your analyst will process this.');
-                this.statusEl.style.color = 'var(--text-success)';
+**Key insight:**
 
-                this.recordBtn.setText('RECORD ANOTHER');
-                this.recordBtn.disabled = false;
-                this.recordBtn.style.background = 'var(--interactive-accent)';
-            } catch (error: any) {
-                new Notice(`Submit failed: ${error.message}`);
-                submitBtn.disabled = false;
-                submitBtn.setText('Submit to Analyst');
-            }
-        };
+---
 
-        this.recordBtn.setText('RECORD MORE');
-        this.recordBtn.disabled = false;
-        this.recordBtn.style.background = 'var(--interactive-accent)';
+${sourceLinkBody}
+`;
     }
 
-    // Save voice note to vault (for remote mode)
-    async saveRemoteVoiceNote(transcript: string) {
-        const date = new Date().toISOString().split('T')[0];
-        const time = new Date().toTimeString().split(' ')[0].replace(/:/g, '-');
-        const folder = this.plugin.settings.syncFolder + '/VoiceNotes';
+    // Add backlink to source file - ONLY links to SkillDev1 for linear chain
+    // Graph structure: TrainingReview → SkillDev1 → SkillDev2 → SkillDev3
+    async addSkillDevLinks(sourceFile: TFile, filenames: string[]) {
+        try {
+            const content = await this.app.vault.read(sourceFile);
+            // Only link to first SkillDev - creates linear chain in graph
+            const firstLink = `[[${filenames[0]}]]`;
 
-        await this.plugin.ensureFoldersExist([folder]);
+            // Check if Skill Development section exists
+            if (content.includes('## Skill Development')) {
+                // Check if this link already exists
+                if (!content.includes(filenames[0])) {
+                    const updatedContent = content.replace(
+                        /## Skill Development\n/,
+                        `## Skill Development\n- ${firstLink}\n`
+                    );
+                    await this.app.vault.modify(sourceFile, updatedContent);
+                }
+            } else {
+                // Add new section at the end
+                const updatedContent = content + `\n## Skill Development\n- ${firstLink}\n`;
+                await this.app.vault.modify(sourceFile, updatedContent);
+            }
+        } catch (error) {
+            console.error('Failed to add skill dev backlinks:', error);
+        }
+    }
 
-        const content = `---
-type: voice-note
-date: ${date}
-tags: [bjj, voice-note]
----
+    // Publish Training Review to athlete
+    async publishTrainingReview(view: MarkdownView) {
+        const file = view.file;
+        if (!file) {
+            new Notice('No file open');
+            return;
+        }
 
-# Voice Note - ${date} ${time}
+        const content = await this.app.vault.read(file);
 
-${transcript}
-`;
+        // Check frontmatter
+        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
+        if (!frontmatterMatch) {
+            new Notice('No frontmatter found');
+            return;
+        }
 
-        const fileName = `${folder}/Voice Note ${date} ${time}.md`;
-        await this.app.vault.create(fileName, content);
-    }
+        const frontmatter = frontmatterMatch[1];
 
-    showTranscriptConfirmation(transcript: string, message: string, sessionIdForContinuation: string | null) {
-        this.resultEl.empty();
+        // Check if this is a training-review file
+        const typeMatch = frontmatter.match(/type:\s*(\S+)/);
+        if (!typeMatch || typeMatch[1] !== 'training-review') {
+            new Notice('This command only works on Training Review files');
+            return;
+        }
 
-        // Track whether this is a continuation or new session
-        const isContinuation = sessionIdForContinuation !== null;
+        // Check if already published
+        const statusMatch = frontmatter.match(/status:\s*(\S+)/);
+        if (statusMatch && statusMatch[1] === 'published') {
+            new Notice('This review is already published');
+            return;
+        }
 
-        this.statusEl.setText('Review your transcription');
-        this.statusEl.style.color = 'var(--text-accent)';
+        // Update status to published
+        let updatedContent = content.replace(/status:\s*draft/, 'status: published');
 
-        // Message explaining what to do
-        const messageEl = this.resultEl.createEl('p', {
-            text: message || 'Is this transcription correct? Edit if needed, then confirm.'
+        // Remove draft tag and add published tag
+        updatedContent = updatedContent.replace(/tags:\s*\[(.*?)\]/, (match, tags) => {
+            const tagList = tags.split(',').map((t: string) => t.trim()).filter((t: string) => t !== 'draft');
+            tagList.push('published');
+            return `tags: [${tagList.join(', ')}]`;
         });
-        messageEl.style.textAlign = 'center';
-        messageEl.style.color = 'var(--text-muted)';
-        messageEl.style.marginBottom = '15px';
 
-        // Editable transcript textarea
-        const textareaContainer = this.resultEl.createDiv({ cls: 'transcript-edit-container' });
-        textareaContainer.style.marginBottom = '20px';
+        // Remove the draft warning callout
+        updatedContent = updatedContent.replace(/> \[!warning\] DRAFT.*\n> Use command.*\n\n?/g, '');
 
-        const textarea = textareaContainer.createEl('textarea', {
-            cls: 'transcript-textarea'
-        });
-        textarea.value = transcript;
-        textarea.style.cssText = `
-            width: 100%;
-            min-height: 120px;
-            padding: 12px;
-            font-size: 14px;
-            line-height: 1.5;
-            border: 1px solid var(--background-modifier-border);
-            border-radius: 8px;
-            background: var(--background-primary);
-            color: var(--text-normal);
-            resize: vertical;
-            font-family: inherit;
-        `;
+        // Remove video links (Harvard citations with URLs) - keep citation text, remove links
+        // Pattern: [Citation Text](http://...) -> Citation Text
+        updatedContent = updatedContent.replace(/\[([^\]]+)\]\(http[^)]+\)/g, '$1');
 
-        // Button container
-        const btnContainer = this.resultEl.createDiv({ cls: 'confirm-btn-container' });
-        btnContainer.style.textAlign = 'center';
-        btnContainer.style.display = 'flex';
-        btnContainer.style.gap = '10px';
-        btnContainer.style.justifyContent = 'center';
+        // Add published notice
+        const publishDate = new Date().toISOString().split('T')[0];
+        updatedContent = updatedContent.replace(
+            /# Training Review:/,
+            `> [!success] Published ${publishDate}\n\n# Training Review:`
+        );
 
-        // Re-record button (secondary)
-        const reRecordBtn = btnContainer.createEl('button', {
-            text: '🎤 Re-record'
-        });
-        reRecordBtn.style.cssText = `
-            font-size: 14px;
-            padding: 12px 24px;
-            border: 1px solid var(--background-modifier-border);
-            border-radius: 8px;
-            background: var(--background-secondary);
-            color: var(--text-normal);
-            cursor: pointer;
-        `;
-        reRecordBtn.onclick = () => {
-            // Reset recording state
-            this.isRecording = false;
-            this.audioChunks = [];
-            if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
-                this.mediaRecorder.stop();
-            }
-            if (this.timerInterval) {
-                clearInterval(this.timerInterval);
-                this.timerInterval = null;
-            }
+        // Save the updated file
+        await this.app.vault.modify(file, updatedContent);
 
-            // Reset UI and allow re-recording (keep session context for continuations)
-            this.resultEl.empty();
-            this.statusEl.setText(isContinuation ? 'Record your answer' : 'Click to start recording');
-            this.statusEl.style.color = 'var(--text-muted)';
-            this.recordBtn.setText(isContinuation ? 'ANSWER' : 'START RECORDING');
-            this.recordBtn.disabled = false;
-            this.recordBtn.style.display = 'inline-block';
-            this.recordBtn.style.background = 'var(--interactive-accent)';
-            this.timerEl.setText('00:00');
-        };
+        new Notice('Training Review published to athlete!', 5000);
+    }
 
-        // Confirm button (primary)
-        const confirmBtn = btnContainer.createEl('button', {
-            text: '✓ Confirm & Process'
-        });
-        confirmBtn.style.cssText = `
-            font-size: 14px;
-            font-weight: 600;
-            padding: 12px 24px;
-            border: none;
-            border-radius: 8px;
-            background: var(--interactive-accent);
-            color: var(--text-on-accent);
-            cursor: pointer;
-        `;
-        confirmBtn.onclick = async () => {
-            const confirmedText = textarea.value.trim();
-            if (!confirmedText) {
-                new Notice('Please enter your training notes');
-                return;
-            }
-
-            // Disable buttons and show processing
-            confirmBtn.disabled = true;
-            reRecordBtn.disabled = true;
-            confirmBtn.setText('Processing...');
-            this.statusEl.setText('Processing your training notes...');
-            this.statusEl.style.color = 'var(--text-accent)';
-
-            try {
-                let session;
-                if (isContinuation) {
-                    // CONTINUATION: Use confirmRespondToSession with the session ID
-                    session = await this.plugin.confirmRespondToSession(sessionIdForContinuation, confirmedText);
-                } else {
-                    // NEW SESSION: Use confirmVoiceSession
-                    session = await this.plugin.confirmVoiceSession(confirmedText);
-                }
-                this.displayResults(session);
-            } catch (error) {
-                console.error('Confirm error:', error);
-                this.statusEl.setText('Error processing. Try again.');
-                this.statusEl.style.color = 'var(--text-error)';
-                confirmBtn.disabled = false;
-                reRecordBtn.disabled = false;
-                confirmBtn.setText('✓ Confirm & Process');
-                new Notice(`Error: ${error.message || 'Could not process'}`);
-            }
-        };
+    // Open Audio Player for Training Review files
+    async openAudioPlayer(view: MarkdownView) {
+        const file = view.file;
+        if (!file) {
+            new Notice('No file open');
+            return;
+        }
 
-        // Hide main record button during confirmation
-        this.recordBtn.style.display = 'none';
-    }
+        const cache = this.app.metadataCache.getFileCache(file);
+        const frontmatter = cache?.frontmatter;
 
-    displayResults(session: any) {
-        this.resultEl.empty();
-        this.currentSessionId = session.session_id;
+        if (!frontmatter) {
+            new Notice('No frontmatter found');
+            return;
+        }
 
-        // Check if we have article/research results - this is the END state
-        if (session.research?.article_sections?.length) {
-            this.showArticlePlayer(session);
+        // Check if this file has audio sections
+        const audioSectionsData = frontmatter.audio_sections_data;
+        if (!audioSectionsData || audioSectionsData.length === 0) {
+            new Notice('No audio sections found in this file');
             return;
         }
 
-        // THERAPY FLOW - clean and simple
-        // Play audio response automatically
-        if (session.response_audio_url) {
-            const audioUrl = `${this.plugin.settings.serverUrl}${session.response_audio_url}`;
-            const audio = new Audio(audioUrl);
-            audio.play().catch(err => console.error('Audio error:', err));
+        // Get topic for the modal title
+        const topic = frontmatter.topic || frontmatter.query || file.basename;
+        const rlmSessionId = frontmatter.rlm_session_id || null;
 
-            this.statusEl.setText('Oracle is speaking...');
-            this.statusEl.style.color = 'var(--text-accent)';
-            audio.onended = () => {
-                this.statusEl.setText('Your turn - record your answer');
-                this.statusEl.style.color = 'var(--text-success)';
-            };
+        // Open the audio player modal
+        const audioModal = new AudioPlayerModal(
+            this.app,
+            this,
+            topic,
+            audioSectionsData,
+            rlmSessionId,
+            '', // No article content needed - just playing audio
+            []  // No sources needed
+        );
+        audioModal.open();
+    }
+
+    // Sync Methods
+    async syncWithFlipmode() {
+        const connected = await this.checkConnection();
+        if (!connected) {
+            new Notice('Cannot connect to Flipmode server');
+            return;
         }
 
-        // Show coach's question prominently
-        const questionContainer = this.resultEl.createDiv({ cls: 'coach-question' });
-        questionContainer.style.background = 'var(--background-secondary)';
-        questionContainer.style.padding = '20px';
-        questionContainer.style.borderRadius = '12px';
-        questionContainer.style.marginBottom = '20px';
-        questionContainer.style.textAlign = 'center';
+        new Notice('Syncing with Flipmode...');
 
-        const questionText = questionContainer.createEl('p', {
-            text: session.response_text
-        });
-        questionText.style.fontSize = '1.2em';
-        questionText.style.margin = '0';
-        questionText.style.lineHeight = '1.5';
-        questionText.style.textAlign = 'center';
+        try {
+            // Get sync manifest
+            const userId = this.settings.apiToken.substring(0, 8) || 'default';
+            const manifest = await this.apiRequest(`/sync/manifest/${userId}`);
 
-        // Check state - if RESEARCHING, show big "Generate Wisdom" button
-        if (session.state === 'RESEARCHING') {
-            const isRemote = this.plugin.isRemoteMode();
-            this.statusEl.setText(isRemote ? 'Ready to send to Oracle!' : 'Ready to generate wisdom!');
-            this.statusEl.style.color = 'var(--text-success)';
+            // Ensure directories exist
+            await this.ensureFoldersExist(manifest.directories);
 
-            const bigBtnContainer = this.resultEl.createDiv();
-            bigBtnContainer.style.textAlign = 'center';
-            bigBtnContainer.style.marginTop = '30px';
+            // Sync each file
+            let syncedCount = 0;
+            for (const file of manifest.files) {
+                const synced = await this.syncFile(file);
+                if (synced) syncedCount++;
+            }
 
-            const generateBtn = bigBtnContainer.createEl('button', {
-                text: isRemote ? '📤 Send to Oracle' : '✨ Generate Wisdom',
-                cls: 'mod-cta'
-            });
-            generateBtn.style.fontSize = '1.4em';
-            generateBtn.style.padding = '20px 40px';
-            generateBtn.style.borderRadius = '12px';
+            new Notice(`Synced ${syncedCount} files from Flipmode`);
+        } catch (error) {
+            console.error('Sync error:', error);
+            new Notice('Sync failed - check console for details');
+        }
+    }
 
-            generateBtn.onclick = async () => {
-                const sessionId = this.currentSessionId!;
-                const plugin = this.plugin;
-                const app = this.app;
+    // Sync shared concept from coach and open it (called from Discord link)
+    async syncAndOpenConcept(conceptName: string) {
+        new Notice(`Syncing "${conceptName}" from coach...`);
 
-                // Get topic from session
-                const topic = session.selected_topic?.name || 'Research';
+        try {
+            // In remote mode, fetch from queue service
+            if (this.settings.mode === 'remote' && this.settings.athleteToken) {
+                const response = await requestUrl({
+                    url: `${this.settings.queueServiceUrl}/api/queue/shared-concepts`,
+                    method: 'GET',
+                    headers: { 'Authorization': `Bearer ${this.settings.athleteToken}` }
+                });
 
-                if (isRemote) {
-                    // REMOTE MODE: Send to coach queue
-                    const therapyContext = {
-                        conversation: session.conversation || [],
-                        selected_topic: session.selected_topic
-                    };
+                const sharedConcepts = response.json.shared_concepts || [];
 
-                    const jobId = await plugin.submitToCoach(topic, therapyContext);
-                    if (jobId) {
-                        new Notice('Query sent to Oracle! Check back later for results.', 5000);
-                    }
-                    this.close();
-                    return;
-                }
+                // Find the specific concept
+                const concept = sharedConcepts.find((c: any) =>
+                    c.name === conceptName || c.name.includes(conceptName)
+                );
 
-                // LOCAL MODE: Generate directly
-                new Notice('Generating wisdom in background...', 3000);
-                this.close();
+                if (concept) {
+                    // Save concept files to vault
+                    const conceptsBase = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}`;
+                    // Ensure base folder exists
+                    await this.ensureFolder(conceptsBase);
 
-                // Run in background
-                try {
-                    const response = await plugin.respondToSession(
-                        sessionId,
-                        'generate',
-                        undefined,
-                        undefined
-                    );
+                    const data = concept.data || {};
 
-                    // Get topic from response - prefer selected_topic, fallback to research.topic
-                    const responseTopic = response.selected_topic?.name || response.research?.topic || session.selected_topic?.name || 'Research';
+                    if (data.type === 'cluster' && data.clusterName) {
+                        // Create cluster folder and files
+                        const clusterFolder = `${conceptsBase}/${data.clusterName}`;
+                        await this.ensureFolder(clusterFolder);
 
-                    // Save to vault
-                    if (response.research?.article_raw) {
-                        const filename = await plugin.saveArticleToVault(responseTopic, response.research.article_raw);
-                        new Notice(`Wisdom ready! Saved to ${filename}`, 3000);
-                    }
+                        // Save index file
+                        const indexPath = `${conceptsBase}/${data.clusterName}.md`;
+                        if (data.indexContent) {
+                            await this.saveNote(indexPath, data.indexContent);
+                        }
 
-                    // Open audio player if we have sections
-                    if (response.research?.article_sections?.length > 0) {
-                        const articleContent = response.research.article || response.research.article_raw || '';
-                        const sources = response.research.sources || [];
-                        const playerModal = new AudioPlayerModal(app, plugin, responseTopic, response.research.article_sections, sessionId, articleContent, sources);
-                        playerModal.open();
+                        // Save concept files
+                        for (const c of data.concepts || []) {
+                            const filePath = `${clusterFolder}/${c.name}.md`;
+                            await this.saveNote(filePath, c.content);
+                        }
+
+                        new Notice(`Synced "${conceptName}" - opening...`);
+                        await this.app.workspace.openLinkText(indexPath, '', true);
+                    } else if (data.type === 'concept' && data.content) {
+                        // Single concept with content
+                        const filePath = `${conceptsBase}/${conceptName}.md`;
+                        await this.saveNote(filePath, data.content);
+                        new Notice(`Synced "${conceptName}" - opening...`);
+                        await this.app.workspace.openLinkText(filePath, '', true);
                     } else {
-                        new Notice('Research complete! Check your Flipmode folder.', 5000);
+                        // No full data - create stub note with summary
+                        const filePath = `${conceptsBase}/${conceptName}.md`;
+                        const stubContent = `---
+type: shared-concept
+from_oracle: true
+shared_at: "${concept.shared_at || new Date().toISOString()}"
+---
+
+# ${conceptName}
+
+${concept.summary || 'Concept shared from Oracle.'}
+
+---
+*Full content pending - sync with Oracle for details.*
+`;
+                        await this.saveNote(filePath, stubContent);
+                        new Notice(`Synced "${conceptName}" - opening...`);
+                        await this.app.workspace.openLinkText(filePath, '', true);
                     }
-                } catch (error) {
-                    console.error('Generate error:', error);
-                    new Notice('Failed to generate wisdom. Try again.', 5000);
+                    return;
                 }
-            };
+            }
 
-            // Hide record button during this state
-            this.recordBtn.style.display = 'none';
-            return;
-        }
+            // Fallback: try to open existing file
+            const filePath = `${this.settings.syncFolder}/${this.settings.conceptsSubfolder}/${conceptName}.md`;
+            const file = this.app.vault.getAbstractFileByPath(filePath);
 
-        // Normal therapy state - show record button for voice answer
+            if (file instanceof TFile) {
+                await this.app.workspace.openLinkText(filePath, '', true);
+                new Notice(`Opened "${conceptName}"`);
+            } else {
+                new Notice(`Concept "${conceptName}" not found. Sync with Oracle first.`);
+            }
+        } catch (error: any) {
+            console.error('Sync and open error:', error);
+            new Notice(`Failed to sync: ${error.message}`);
+        }
+    }
+
+    async ensureFoldersExist(paths: string[]) {
+        for (const path of paths) {
+            const folder = this.app.vault.getAbstractFileByPath(path);
+            if (!folder) {
+                await this.app.vault.createFolder(path);
+            }
+        }
+    }
+
+    async syncFile(file: { path: string; content: string; checksum: string }): Promise<boolean> {
+        try {
+            const existingFile = this.app.vault.getAbstractFileByPath(file.path);
+
+            if (existingFile instanceof TFile) {
+                // Check if content changed
+                const currentContent = await this.app.vault.read(existingFile);
+                if (this.computeChecksum(currentContent) !== file.checksum) {
+                    await this.app.vault.modify(existingFile, file.content);
+                    return true;
+                }
+                return false;
+            } else {
+                // Create new file
+                await this.app.vault.create(file.path, file.content);
+                return true;
+            }
+        } catch (error) {
+            console.error(`Error syncing file ${file.path}:`, error);
+            return false;
+        }
+    }
+
+    computeChecksum(content: string): string {
+        // Simple checksum - in production use proper hash
+        let hash = 0;
+        for (let i = 0; i < content.length; i++) {
+            const char = content.charCodeAt(i);
+            hash = ((hash << 5) - hash) + char;
+            hash = hash & hash;
+        }
+        return hash.toString(16).substring(0, 16);
+    }
+
+    startAutoSync() {
+        if (this.syncIntervalId) {
+            window.clearInterval(this.syncIntervalId);
+        }
+
+        this.syncIntervalId = window.setInterval(
+            () => this.syncWithFlipmode(),
+            this.settings.syncInterval * 60 * 1000
+        );
+    }
+
+    // UI Methods
+    async showFlipmodeMenu() {
+        new FlipmodeMenuModal(this.app, this).open();
+    }
+
+    async showResearchModal() {
+        new ResearchModal(this.app, this).open();
+    }
+
+    async showVoiceNoteModal() {
+        new VoiceNoteModal(this.app, this).open();
+    }
+
+    // Voice session method - Step 1: transcribe audio
+    async startVoiceSession(audioBase64: string): Promise<any> {
+        try {
+            const response = await this.apiRequest('/session', 'POST', {
+                user_id: this.settings.userId,
+                audio_base64: audioBase64,
+                audio_format: 'webm'
+            });
+            return response;
+        } catch (error) {
+            console.error('Voice session error:', error);
+            throw error;
+        }
+    }
+
+    // Voice session method - Step 2: confirm/edit transcript and process
+    async confirmVoiceSession(confirmedText: string): Promise<any> {
+        try {
+            const response = await this.apiRequest('/session', 'POST', {
+                user_id: this.settings.userId,
+                confirmed_text: confirmedText
+            });
+            return response;
+        } catch (error) {
+            console.error('Confirm voice session error:', error);
+            throw error;
+        }
+    }
+
+    // Continue conversation - Step 1: send audio for transcription
+    async respondToSession(sessionId: string, text?: string, audioBase64?: string, selectedOption?: string): Promise<any> {
+        try {
+            const body: any = {
+                session_id: sessionId,
+                user_id: this.settings.userId
+            };
+
+            if (audioBase64) {
+                body.audio_base64 = audioBase64;
+                body.audio_format = 'webm';
+            } else if (text) {
+                body.text = text;
+            } else if (selectedOption) {
+                body.selected_option = selectedOption;
+            }
+
+            const response = await this.apiRequest('/respond', 'POST', body);
+            return response;
+        } catch (error) {
+            console.error('Respond error:', error);
+            throw error;
+        }
+    }
+
+    // Continue conversation - Step 2: confirm transcript and process
+    async confirmRespondToSession(sessionId: string, confirmedText: string): Promise<any> {
+        try {
+            const response = await this.apiRequest('/respond', 'POST', {
+                session_id: sessionId,
+                user_id: this.settings.userId,
+                confirmed_text: confirmedText
+            });
+            return response;
+        } catch (error) {
+            console.error('Confirm respond error:', error);
+            throw error;
+        }
+    }
+
+    async saveSessionToVault(session: any) {
+        try {
+            const date = new Date().toISOString().split('T')[0];
+            const folder = this.settings.syncFolder + '/Sessions';
+            await this.ensureFoldersExist([folder]);
+
+            // Build markdown content
+            let content = `---
+type: training-session
+date: ${date}
+session_id: ${session.session_id}
+tags: [bjj, training, voice-note]
+---
+
+# Training Session - ${date}
+
+## Your Notes (Transcribed)
+
+${session.transcript}
+
+## Topics Identified
+
+`;
+            // Add topics
+            if (session.extracted_topics) {
+                const topics = session.extracted_topics;
+                if (topics.work_on?.length) {
+                    content += `### Work On\n`;
+                    for (const t of topics.work_on) {
+                        content += `- **${t.topic}**: ${t.context || ''}\n`;
+                    }
+                    content += '\n';
+                }
+                if (topics.wins?.length) {
+                    content += `### Wins\n`;
+                    for (const t of topics.wins) {
+                        content += `- **${t.topic}**: ${t.context || ''}\n`;
+                    }
+                    content += '\n';
+                }
+            }
+
+            content += `## Coach Response
+
+${session.response_text}
+
+`;
+            // Add options if present
+            if (session.options?.length) {
+                content += `## Next Steps\n\n`;
+                for (const opt of session.options) {
+                    content += `- [ ] ${opt.label}\n`;
+                }
+            }
+
+            const filename = `${folder}/${date}-${session.session_id.substring(0, 8)}.md`;
+
+            const existingFile = this.app.vault.getAbstractFileByPath(filename);
+            if (existingFile instanceof TFile) {
+                await this.app.vault.modify(existingFile, content);
+            } else {
+                await this.app.vault.create(filename, content);
+            }
+
+            // Open the file
+            const file = this.app.vault.getAbstractFileByPath(filename);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf().openFile(file);
+            }
+
+            return filename;
+        } catch (error) {
+            console.error('Error saving session:', error);
+            throw error;
+        }
+    }
+
+    getRecordingsFolder(): string {
+        return this.settings.recordingsFolder.trim() || `${this.settings.syncFolder}/Sessions`;
+    }
+
+    /**
+     * Save a raw voice recording as a vault attachment, if enabled in settings.
+     * Returns the vault path, or null when recordings aren't kept.
+     */
+    async saveRecording(audioBlob: Blob): Promise<string | null> {
+        if (!this.settings.saveRecordings || audioBlob.size === 0) return null;
+
+        try {
+            const folder = this.getRecordingsFolder();
+            await this.ensureFolder(folder);
+
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', ' ').substring(0, 19);
+            let path = `${folder}/Recording ${stamp}.webm`;
+            for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+                path = `${folder}/Recording ${stamp} ${n}.webm`;
+            }
+
+            await this.app.vault.createBinary(path, await audioBlob.arrayBuffer());
+            return path;
+        } catch (error) {
+            // Never block the voice note on the attachment
+            console.error('[Flipmode] Could not save recording:', error);
+            return null;
+        }
+    }
+
+    // Remove a recording attachment that won't be used
+    async discardRecording(path: string) {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) return;
+        try {
+            await this.app.vault.trash(file, true);
+        } catch (error) {
+            console.error(`[Flipmode] Could not remove recording ${path}:`, error);
+        }
+    }
+
+    // Markdown section embedding recordings (empty when there are none)
+    recordingSection(recordingPaths: string[]): string {
+        if (recordingPaths.length === 0) return '';
+        return `\n## Recording\n\n${recordingPaths.map(p => `![[${p}]]`).join('\n')}\n`;
+    }
+
+    // Audio files embedded in a note, in order
+    getEmbeddedRecordings(file: TFile): TFile[] {
+        const embeds = this.app.metadataCache.getFileCache(file)?.embeds || [];
+        const recordings: TFile[] = [];
+        for (const embed of embeds) {
+            const target = this.app.metadataCache.getFirstLinkpathDest(embed.link, file.path);
+            if (target && ['webm', 'ogg', 'm4a', 'mp3', 'wav'].includes(target.extension) && !recordings.includes(target)) {
+                recordings.push(target);
+            }
+        }
+        return recordings;
+    }
+
+    /**
+     * Send a note's stored recordings back through transcription and write the
+     * result to a "Re-transcribed" section, leaving the original transcript alone.
+     */
+    async retranscribeNote(file: TFile) {
+        const recordings = this.getEmbeddedRecordings(file);
+        if (recordings.length === 0) {
+            new Notice('No recording embedded in this note');
+            return;
+        }
+
+        const texts: string[] = [];
+        for (let i = 0; i < recordings.length; i++) {
+            const recording = recordings[i];
+            new Notice(`Re-transcribing ${recordings.length > 1 ? `${i + 1}/${recordings.length}` : recording.name}...`);
+            try {
+                const data = await this.app.vault.readBinary(recording);
+                const result = await this.transcribeAudio(new Blob([data], { type: `audio/${recording.extension}` }));
+                texts.push(`${recordings.length > 1 ? `**${recording.basename}:** ` : ''}${result.text}\n\n*via ${TRANSCRIPTION_BACKEND_NAMES[result.backend]}*`);
+            } catch (error: any) {
+                console.error('[Flipmode] Re-transcribe failed:', error);
+                new Notice(`Re-transcribe failed: ${error.message || error}`, 8000);
+                return;
+            }
+        }
+
+        const section = `## Re-transcribed\n\n${texts.join('\n\n')}\n`;
+        const content = await this.app.vault.read(file);
+        const updated = /^## Re-transcribed\n/m.test(content)
+            ? content.replace(/^## Re-transcribed\n[\s\S]*?(?=^## |(?![\s\S]))/m, section + '\n')
+            : `${content.trimEnd()}\n\n${section}`;
+        await this.app.vault.modify(file, updated);
+        new Notice('Re-transcription added to note');
+    }
+
+    showTrainingLogModal() {
+        new TrainingLogModal(this.app, this).open();
+    }
+
+    buildTrainingLogNote(log: TrainingLog): string {
+        const typeLabel = TRAINING_SESSION_TYPES[log.sessionType];
+        const details = [typeLabel];
+        if (log.durationMinutes) details.push(`${log.durationMinutes} min`);
+        if (log.rounds) details.push(`${log.rounds} rounds`);
+
+        const list = (items: string[]) => items.length > 0 ? items.map(i => `- ${i}`).join('\n') : '- None';
+
+        return `---
+type: training-session
+date: ${log.date}
+session_type: ${log.sessionType}
+duration_minutes: ${log.durationMinutes ?? ''}
+rounds: ${log.rounds ?? ''}
+partners: ${JSON.stringify(log.partners)}
+positions: ${JSON.stringify(log.positions)}
+submissions_for: ${JSON.stringify(log.submissionsFor)}
+submissions_against: ${JSON.stringify(log.submissionsAgainst)}
+sweeps: ${JSON.stringify(log.sweeps)}
+tags: [bjj, training, ${log.sessionType}]
+---
+
+# Training Log - ${log.date}
+
+**Session:** ${details.join(' · ')}
+**Partners:** ${log.partners.length > 0 ? log.partners.join(', ') : 'None'}
+
+## Positions Reached
+
+${list(log.positions)}
+
+## Submissions
+
+**Hit:**
+${list(log.submissionsFor)}
+
+**Conceded:**
+${list(log.submissionsAgainst)}
+
+## Sweeps
+
+${list(log.sweeps)}
+
+## Notes
+
+${log.notes}
+
+## Questions for Flipmode
+
+`;
+    }
+
+    async saveTrainingLog(log: TrainingLog): Promise<string> {
+        const folder = `${this.settings.syncFolder}/Sessions`;
+        await this.ensureFolder(folder);
+
+        // Several sessions on one day get numbered files
+        let filename = `${folder}/${log.date}-training-log.md`;
+        for (let n = 2; this.app.vault.getAbstractFileByPath(filename); n++) {
+            filename = `${folder}/${log.date}-training-log-${n}.md`;
+        }
+
+        const file = await this.app.vault.create(filename, this.buildTrainingLogNote(log));
+        await this.app.workspace.getLeaf().openFile(file);
+        return filename;
+    }
+
+    // Frontmatter list fields may be YAML lists or comma-separated strings
+    frontmatterList(value: any): string[] {
+        if (Array.isArray(value)) {
+            return value.map(v => String(v).trim()).filter(v => v.length > 0);
+        }
+        if (typeof value === 'string') {
+            return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+        }
+        return [];
+    }
+
+    parseTrainingSession(fm: Record<string, any>): GraphSession {
+        const session: GraphSession = {
+            date: fm.date,
+            tags: fm.tags || []
+        };
+
+        if (fm.session_type && fm.session_type in TRAINING_SESSION_TYPES) {
+            session.session_type = fm.session_type;
+        }
+        const duration = Number(fm.duration_minutes);
+        if (fm.duration_minutes !== undefined && fm.duration_minutes !== null && !isNaN(duration)) {
+            session.duration_minutes = duration;
+        }
+        const rounds = Number(fm.rounds);
+        if (fm.rounds !== undefined && fm.rounds !== null && !isNaN(rounds)) {
+            session.rounds = rounds;
+        }
+
+        if (fm.partners !== undefined) {
+            session.partners = this.frontmatterList(fm.partners);
+        }
+        for (const key of ['positions', 'submissions_for', 'submissions_against', 'sweeps'] as const) {
+            if (fm[key] !== undefined) {
+                session[key] = this.frontmatterList(fm[key]).map(canonicalName);
+            }
+        }
+
+        return session;
+    }
+
+    // Research method
+    async research(topic: string, context: string = ''): Promise<any> {
+        try {
+            const response = await this.apiRequest('/research', 'POST', {
+                topic,
+                context,
+                max_sources: 10
+            });
+
+            return response;
+        } catch (error) {
+            console.error('Research error:', error);
+            throw error;
+        }
+    }
+
+    async saveResearchToVault(topic: string, research: any) {
+        try {
+            // Get markdown from sync endpoint
+            const mdResponse = await this.apiRequest('/sync/research', 'POST', {
+                topic,
+                article: research.article,
+                sources: research.sources,
+                context: research.context
+            });
+
+            // Ensure folder exists
+            const folder = this.settings.syncFolder + '/Research';
+            await this.ensureFoldersExist([folder]);
+
+            // Save file
+            await this.syncFile({
+                path: mdResponse.path,
+                content: mdResponse.content,
+                checksum: mdResponse.checksum
+            });
+
+            // Open the file
+            const file = this.app.vault.getAbstractFileByPath(mdResponse.path);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf().openFile(file);
+            }
+
+            return mdResponse.path;
+        } catch (error) {
+            console.error('Error saving research:', error);
+            throw error;
+        }
+    }
+}
+
+// Flipmode Menu Modal
+class FlipmodeMenuModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-modal');
+
+        contentEl.createEl('h2', { text: 'Flipmode' });
+        renderFlipmodeMenu(this.plugin, contentEl, () => this.close());
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Connection status and main actions; shared by the menu modal and the sidebar
+function renderFlipmodeMenu(plugin: BJJFlipmodePlugin, container: HTMLElement, onAction: () => void = () => {}) {
+    const statusEl = container.createEl('p', {
+        text: 'Checking connection...',
+        cls: 'flipmode-status'
+    });
+
+    plugin.checkConnection().then(connected => {
+        statusEl.setText(connected ? 'Connected to Flipmode' : 'Not connected');
+        statusEl.addClass(connected ? 'connected' : 'disconnected');
+    });
+
+    // Menu buttons
+    const buttonContainer = container.createDiv({ cls: 'flipmode-buttons' });
+
+    new Setting(buttonContainer)
+        .setName('Research Technique')
+        .setDesc('Search the Flipmode for technique information')
+        .addButton(btn => btn
+            .setButtonText('Research')
+            .setCta()
+            .onClick(() => {
+                onAction();
+                plugin.showResearchModal();
+            }));
+
+    new Setting(buttonContainer)
+        .setName('Sync with Flipmode')
+        .setDesc('Download latest sessions and notes')
+        .addButton(btn => btn
+            .setButtonText('Sync')
+            .onClick(() => {
+                onAction();
+                plugin.syncWithFlipmode();
+            }));
+
+    new Setting(buttonContainer)
+        .setName('Settings')
+        .setDesc('Configure Flipmode connection')
+        .addButton(btn => btn
+            .setButtonText('Open Settings')
+            .onClick(() => {
+                onAction();
+                // @ts-ignore
+                plugin.app.setting.open();
+                // @ts-ignore
+                plugin.app.setting.openTabById('flipmode');
+            }));
+}
+
+// Research Modal
+class ResearchModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    topicInput: HTMLInputElement;
+    contextInput: HTMLTextAreaElement;
+    resultEl: HTMLElement;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-research-modal');
+
+        contentEl.createEl('h2', { text: 'Research a Technique' });
+
+        // Topic input
+        new Setting(contentEl)
+            .setName('Technique')
+            .setDesc('What technique do you want to research?')
+            .addText(text => {
+                this.topicInput = text.inputEl;
+                text.setPlaceholder('e.g., knee slice pass, arm drag, berimbolo');
+            });
+
+        // Context input
+        new Setting(contentEl)
+            .setName('Context (optional)')
+            .setDesc('Any specific situation or problem?')
+            .addTextArea(text => {
+                this.contextInput = text.inputEl;
+                text.setPlaceholder('e.g., defending against it, from closed guard, against bigger opponents');
+            });
+
+        // Search button
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Search Flipmode')
+                .setCta()
+                .onClick(() => this.doResearch()));
+
+        // Results area
+        this.resultEl = contentEl.createDiv({ cls: 'flipmode-results' });
+    }
+
+    async doResearch() {
+        const topic = this.topicInput.value.trim();
+        if (!topic) {
+            new Notice('Please enter a technique to research');
+            return;
+        }
+
+        this.resultEl.empty();
+        this.resultEl.createEl('p', { text: 'Searching Flipmode...' });
+
+        try {
+            const research = await this.plugin.research(topic, this.contextInput.value);
+
+            this.resultEl.empty();
+
+            if (research.source_count > 0) {
+                this.resultEl.createEl('h3', {
+                    text: `Found ${research.source_count} sources`
+                });
+
+                // Preview
+                const previewEl = this.resultEl.createEl('div', { cls: 'research-preview' });
+                previewEl.createEl('p', {
+                    text: research.article.substring(0, 300) + '...'
+                });
+
+                // Sources list
+                const sourcesList = this.resultEl.createEl('ul', { cls: 'sources-list' });
+                for (const source of research.sources.slice(0, 5)) {
+                    sourcesList.createEl('li', {
+                        text: `${source.instructor} - ${source.title}`
+                    });
+                }
+
+                // Save button
+                new Setting(this.resultEl)
+                    .addButton(btn => btn
+                        .setButtonText('Save to Vault')
+                        .setCta()
+                        .onClick(async () => {
+                            try {
+                                const path = await this.plugin.saveResearchToVault(topic, research);
+                                new Notice(`Saved to ${path}`);
+                                this.close();
+                            } catch (error) {
+                                new Notice('Failed to save research');
+                            }
+                        }));
+            } else {
+                this.resultEl.createEl('p', {
+                    text: 'No sources found. Try a different search term.'
+                });
+            }
+        } catch (error) {
+            this.resultEl.empty();
+            this.resultEl.createEl('p', {
+                text: 'Research failed. Check your connection settings.',
+                cls: 'error'
+            });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Training Log Modal - structured session entry, usable on mobile
+class TrainingLogModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    log: TrainingLog;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.log = {
+            date: new Date().toISOString().split('T')[0],
+            sessionType: 'gi',
+            durationMinutes: null,
+            rounds: null,
+            partners: [],
+            positions: [],
+            submissionsFor: [],
+            submissionsAgainst: [],
+            sweeps: [],
+            notes: ''
+        };
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-training-log-modal');
+
+        contentEl.createEl('h2', { text: 'Log Training Session' });
+
+        new Setting(contentEl)
+            .setName('Date')
+            .addText(text => {
+                text.inputEl.type = 'date';
+                text.setValue(this.log.date)
+                    .onChange(value => this.log.date = value);
+            });
+
+        new Setting(contentEl)
+            .setName('Session type')
+            .addDropdown(dropdown => {
+                for (const [value, label] of Object.entries(TRAINING_SESSION_TYPES)) {
+                    dropdown.addOption(value, label);
+                }
+                dropdown.setValue(this.log.sessionType)
+                    .onChange(value => this.log.sessionType = value as TrainingSessionType);
+            });
+
+        new Setting(contentEl)
+            .setName('Duration (minutes)')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.inputMode = 'numeric';
+                text.setPlaceholder('90')
+                    .onChange(value => this.log.durationMinutes = this.parseCount(value));
+            });
+
+        new Setting(contentEl)
+            .setName('Rounds')
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.inputMode = 'numeric';
+                text.setPlaceholder('6')
+                    .onChange(value => this.log.rounds = this.parseCount(value));
+            });
+
+        this.addListField(contentEl, 'Partners', 'e.g., Alex, Sam', value => this.log.partners = value);
+        // Technique fields use taxonomy names so "dlr" and "De La Riva" count as one position
+        this.addListField(contentEl, 'Positions reached', 'e.g., closed guard, half guard, mount', value => this.log.positions = value.map(canonicalName));
+        this.addListField(contentEl, 'Submissions hit', 'e.g., armbar, triangle', value => this.log.submissionsFor = value.map(canonicalName));
+        this.addListField(contentEl, 'Submissions conceded', 'e.g., kimura', value => this.log.submissionsAgainst = value.map(canonicalName));
+        this.addListField(contentEl, 'Sweeps', 'e.g., scissor sweep, hip bump', value => this.log.sweeps = value.map(canonicalName));
+
+        new Setting(contentEl)
+            .setName('Notes')
+            .addTextArea(text => {
+                text.setPlaceholder('What worked, what needs work...')
+                    .onChange(value => this.log.notes = value);
+                text.inputEl.rows = 4;
+                text.inputEl.style.width = '100%';
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => this.save()));
+    }
+
+    addListField(container: HTMLElement, name: string, placeholder: string, onChange: (value: string[]) => void) {
+        new Setting(container)
+            .setName(name)
+            .setDesc('Comma-separated')
+            .addText(text => text
+                .setPlaceholder(placeholder)
+                .onChange(value => onChange(this.plugin.frontmatterList(value))));
+    }
+
+    parseCount(value: string): number | null {
+        const parsed = parseInt(value);
+        return isNaN(parsed) || parsed < 0 ? null : parsed;
+    }
+
+    async save() {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(this.log.date)) {
+            new Notice('Please enter a valid date');
+            return;
+        }
+
+        try {
+            const path = await this.plugin.saveTrainingLog(this.log);
+            new Notice(`Saved to ${path}`);
+            this.close();
+        } catch (error) {
+            console.error('Training log save error:', error);
+            new Notice('Failed to save training log');
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Voice Note Modal - Record training notes
+class VoiceNoteModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    mediaRecorder: MediaRecorder | null = null;
+    audioChunks: Blob[] = [];
+    isRecording: boolean = false;
+    recordBtn: HTMLButtonElement;
+    statusEl: HTMLElement;
+    resultEl: HTMLElement;
+    timerEl: HTMLElement;
+    timerInterval: number | null = null;
+    recordingStartTime: number = 0;
+    currentSessionId: string | null = null;  // Track current session for continuations
+    recordingPaths: string[] = [];  // Recordings for the note being built (when enabled)
+    lastRecordingPath: string | null = null;  // Recording of the latest take
+    isPaused: boolean = false;
+    pausedAt: number = 0;
+    pausedTotal: number = 0;  // Milliseconds spent paused this recording
+    pauseBtn: HTMLButtonElement;
+    levelMeterEl: HTMLElement;
+    levelFillEl: HTMLElement;
+    audioContext: AudioContext | null = null;
+    levelFrame: number | null = null;
+    silentSince: number | null = null;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-voice-modal');
+
+        // Header - embedded base64 image (bulletproof)
+        const headerContainer = contentEl.createDiv({ cls: 'flipmode-header' });
+        headerContainer.style.textAlign = 'center';
+        headerContainer.style.margin = '0 0 15px 0';
+
+        const headerImg = headerContainer.createEl('img');
+        headerImg.src = FLIPMODE_HEADER_BASE64;
+        headerImg.alt = 'FLIPMODE';
+        headerImg.style.maxWidth = '100%';
+        headerImg.style.height = 'auto';
+
+        // Timer display
+        this.timerEl = contentEl.createEl('div', {
+            text: '00:00',
+            cls: 'voice-timer'
+        });
+        this.timerEl.style.fontSize = '2em';
+        this.timerEl.style.textAlign = 'center';
+        this.timerEl.style.margin = '20px 0';
+        this.timerEl.style.fontFamily = 'monospace';
+
+        // Input level meter (visible while recording)
+        this.levelMeterEl = contentEl.createDiv({ cls: 'voice-level-meter' });
+        this.levelMeterEl.style.cssText = 'display: none; height: 6px; margin: -10px auto 10px; max-width: 240px; border-radius: 3px; background: var(--background-modifier-border); overflow: hidden;';
+        this.levelFillEl = this.levelMeterEl.createDiv();
+        this.levelFillEl.style.cssText = 'height: 100%; width: 0%; background: var(--interactive-accent); transition: width 0.08s linear;';
+
+        // Status
+        this.statusEl = contentEl.createEl('p', {
+            text: 'Click to start recording',
+            cls: 'voice-status'
+        });
+        this.statusEl.style.textAlign = 'center';
+        this.statusEl.style.color = 'var(--text-muted)';
+
+        // Results area (responses appear here, above the button)
+        this.resultEl = contentEl.createDiv({ cls: 'voice-results' });
+
+        // Record button (at the bottom)
+        const btnContainer = contentEl.createDiv({ cls: 'voice-btn-container' });
+        btnContainer.style.textAlign = 'center';
+        btnContainer.style.marginTop = '20px';
+
+        this.recordBtn = btnContainer.createEl('button', {
+            text: 'START RECORDING'
+        });
+        this.recordBtn.style.cssText = `
+            font-size: 16px;
+            font-weight: 600;
+            padding: 16px 32px;
+            min-width: 200px;
+            border: none;
+            border-radius: 8px;
+            background: var(--interactive-accent);
+            color: var(--text-on-accent);
+            cursor: pointer;
+            transition: background 0.2s;
+            text-align: center;
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+        `;
+        this.recordBtn.onclick = () => this.toggleRecording();
+
+        if (this.plugin.settings.mode === 'remote') {
+            this.plugin.getResumableTherapySession().then(state => {
+                if (state && !this.isRecording) this.offerTherapyResume(state);
+            }).catch(error => {
+                // Nothing to offer; the modal starts a new session as usual
+                console.error('[Flipmode] Could not check for a session to resume:', error);
+            });
+        }
+
+        // Pause/resume (visible while recording)
+        this.pauseBtn = btnContainer.createEl('button', { text: 'PAUSE' });
+        this.pauseBtn.style.cssText = `
+            display: none;
+            margin-left: 10px;
+            font-size: 14px;
+            padding: 16px 20px;
+            border: 1px solid var(--background-modifier-border);
+            border-radius: 8px;
+            background: var(--background-secondary);
+            color: var(--text-normal);
+            cursor: pointer;
+        `;
+        this.pauseBtn.onclick = () => this.togglePause();
+    }
+
+    async toggleRecording() {
+        if (this.isRecording) {
+            await this.stopRecording();
+        } else {
+            await this.startRecording();
+        }
+    }
+
+    togglePause() {
+        if (!this.mediaRecorder || !this.isRecording) return;
+
+        if (this.isPaused) {
+            this.mediaRecorder.resume();
+            this.pausedTotal += Date.now() - this.pausedAt;
+            this.isPaused = false;
+            this.silentSince = null;
+            this.pauseBtn.setText('PAUSE');
+        } else {
+            this.mediaRecorder.pause();
+            this.pausedAt = Date.now();
+            this.isPaused = true;
+            this.pauseBtn.setText('RESUME');
+            this.levelFillEl.style.width = '0%';
+        }
+        this.updateRecordingStatus();
+    }
+
+    // Seconds of audio captured so far, excluding time spent paused
+    getRecordedSeconds(): number {
+        const pausedNow = this.isPaused ? Date.now() - this.pausedAt : 0;
+        return (Date.now() - this.recordingStartTime - this.pausedTotal - pausedNow) / 1000;
+    }
+
+    // Feed the mic stream into an analyser and drive the level meter from its RMS
+    startLevelMeter(stream: MediaStream) {
+        try {
+            this.audioContext = createAudioContext();
+            const analyser = this.audioContext.createAnalyser();
+            analyser.fftSize = 1024;
+            this.audioContext.createMediaStreamSource(stream).connect(analyser);
+            const samples = new Uint8Array(analyser.fftSize);
+
+            const tick = () => {
+                if (!this.isPaused) {
+                    analyser.getByteTimeDomainData(samples);
+                    let sum = 0;
+                    for (let i = 0; i < samples.length; i++) {
+                        const v = (samples[i] - 128) / 128;
+                        sum += v * v;
+                    }
+                    const level = Math.sqrt(sum / samples.length);
+                    this.levelFillEl.style.width = `${Math.min(100, Math.round(level * 400))}%`;
+
+                    if (level < VOICE_SILENCE_LEVEL) {
+                        if (this.silentSince === null) this.silentSince = Date.now();
+                    } else if (this.silentSince !== null) {
+                        this.silentSince = null;
+                        this.updateRecordingStatus();
+                    }
+                }
+                this.levelFrame = window.requestAnimationFrame(tick);
+            };
+            this.levelMeterEl.style.display = 'block';
+            this.levelFrame = window.requestAnimationFrame(tick);
+        } catch (error) {
+            // The meter is a nicety; recording works without it
+            console.error('[Flipmode] Level meter unavailable:', error);
+        }
+    }
+
+    stopLevelMeter() {
+        if (this.levelFrame !== null) {
+            window.cancelAnimationFrame(this.levelFrame);
+            this.levelFrame = null;
+        }
+        if (this.audioContext) {
+            this.audioContext.close().catch(() => { /* already closed */ });
+            this.audioContext = null;
+        }
+        this.silentSince = null;
+        this.levelMeterEl.style.display = 'none';
+        this.levelFillEl.style.width = '0%';
+    }
+
+    // Status line while recording: paused > silence > approaching cap > segmented > normal
+    updateRecordingStatus() {
+        if (!this.isRecording) return;
+        const elapsed = this.getRecordedSeconds();
+        const capApplies = this.plugin.getTranscriptionBackends().some(backend => backend.id === 'remote');
+        let text = 'Recording... speak now';
+        let color = 'var(--text-error)';
+
+        if (this.isPaused) {
+            text = 'Paused - press RESUME to keep going';
+            color = 'var(--text-muted)';
+        } else if (this.silentSince !== null && Date.now() - this.silentSince >= VOICE_SILENCE_WARNING_SECONDS * 1000) {
+            text = 'No sound detected - check your microphone';
+            color = 'var(--text-warning)';
+        } else if (capApplies && elapsed > REMOTE_VOICE_MAX_SECONDS) {
+            text = 'Recording... over 2 min, will be sent in segments';
+        } else if (capApplies && elapsed >= REMOTE_VOICE_MAX_SECONDS - VOICE_CAP_WARNING_SECONDS) {
+            const left = Math.max(0, Math.ceil(REMOTE_VOICE_MAX_SECONDS - elapsed));
+            text = `${left}s until the 2 min cloud limit - longer notes use extra voice notes`;
+            color = 'var(--text-warning)';
+        }
+
+        this.statusEl.setText(text);
+        this.statusEl.style.color = color;
+    }
+
+    async startRecording() {
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+            this.audioChunks = [];
+            this.mediaRecorder = new MediaRecorder(stream, {
+                mimeType: 'audio/webm;codecs=opus'
+            });
+
+            this.mediaRecorder.ondataavailable = (event) => {
+                if (event.data.size > 0) {
+                    this.audioChunks.push(event.data);
+                }
+            };
+
+            this.mediaRecorder.onstop = () => {
+                stream.getTracks().forEach(track => track.stop());
+                this.processRecording();
+            };
+
+            this.mediaRecorder.start(1000); // Collect data every second
+            this.isRecording = true;
+            this.isPaused = false;
+            this.pausedTotal = 0;
+            this.recordingStartTime = Date.now();
+
+            this.recordBtn.setText('STOP');
+            this.recordBtn.style.background = 'var(--text-error)';
+            this.pauseBtn.setText('PAUSE');
+            this.pauseBtn.style.display = 'inline-block';
+            this.updateRecordingStatus();
+            this.startLevelMeter(stream);
+
+            // Start timer
+            this.timerInterval = window.setInterval(() => {
+                const elapsed = Math.floor(this.getRecordedSeconds());
+                const mins = Math.floor(elapsed / 60).toString().padStart(2, '0');
+                const secs = (elapsed % 60).toString().padStart(2, '0');
+                this.timerEl.setText(`${mins}:${secs}`);
+                this.updateRecordingStatus();
+            }, 1000);
+
+        } catch (error) {
+            console.error('Recording error:', error);
+            new Notice('Could not access microphone. Please allow microphone access.');
+            this.statusEl.setText('Microphone access denied');
+        }
+    }
+
+    async stopRecording() {
+        if (this.mediaRecorder && this.isRecording) {
+            this.mediaRecorder.stop();
+            this.isRecording = false;
+            this.isPaused = false;
+            this.pauseBtn.style.display = 'none';
+            this.stopLevelMeter();
+
+            if (this.timerInterval) {
+                window.clearInterval(this.timerInterval);
+                this.timerInterval = null;
+            }
+
+            this.recordBtn.setText('PROCESSING...');
+            this.recordBtn.disabled = true;
+            this.recordBtn.style.background = 'var(--text-muted)';
+            this.statusEl.setText('Processing your voice note...');
+            this.statusEl.style.color = 'var(--text-accent)';
+        }
+    }
+
+    // Drop the latest take's recording from the note and delete its file
+    discardLastTake() {
+        const path = this.lastRecordingPath;
+        if (!path) return;
+        this.recordingPaths = this.recordingPaths.filter(p => p !== path);
+        this.lastRecordingPath = null;
+        this.plugin.discardRecording(path);
+    }
+
+    async processRecording() {
+        try {
+            const audioBlob = new Blob(this.audioChunks, { type: 'audio/webm' });
+            const isRemote = this.plugin.settings.mode === 'remote' && !!this.plugin.settings.athleteToken;
+
+            // Keep the raw audio first, so a failed or bad transcript can be redone
+            const recordingPath = await this.plugin.saveRecording(audioBlob);
+            this.lastRecordingPath = recordingPath;
+            if (recordingPath) this.recordingPaths.push(recordingPath);
+
+            let result: TranscriptionResult;
+            try {
+                result = await this.plugin.transcribeAudio(audioBlob, { sessionId: this.currentSessionId }, backend => {
+                    this.statusEl.setText(backend.id === 'remote'
+                        ? 'Transcribing via cloud (2min max, 5/day)...'
+                        : `Transcribing via ${TRANSCRIPTION_BACKEND_NAMES[backend.id]}...`);
+                }, {
+                    confirm: durationSeconds => this.confirmSegmentedTranscription(durationSeconds),
+                    onProgress: (index, total, backend) => {
+                        this.statusEl.setText(`Transcribing segment ${index} of ${total} via ${TRANSCRIPTION_BACKEND_NAMES[backend.id]}...`);
+                    }
+                });
+            } catch (error: any) {
+                if (error instanceof TranscriptionCancelledError) {
+                    this.discardLastTake();
+                    this.resultEl.empty();
+                    this.statusEl.setText('Transcription cancelled. Record a shorter note or try again.');
+                    this.statusEl.style.color = 'var(--text-muted)';
+                    this.recordBtn.setText('TRY AGAIN');
+                    this.recordBtn.disabled = false;
+                    this.recordBtn.style.background = 'var(--interactive-accent)';
+                    return;
+                }
+                if (error instanceof TranscriptionError && this.showTranscriptionLimit(error)) {
+                    return;
+                }
+                throw error;
+            }
+
+            if (isRemote) {
+                // REMOTE MODE: show transcript for confirmation before submitting to queue
+                const usageInfo = result.usage
+                    ? `(${result.usage.remaining} voice notes remaining today)`
+                    : `via ${TRANSCRIPTION_BACKEND_NAMES[result.backend]}`;
+                const duration = result.duration ? ` ${Math.round(result.duration)}s` : '';
+                this.statusEl.setText(`Transcribed${duration} ${usageInfo}`);
+
+                this.showRemoteTranscriptConfirmation(result.text, result.usage);
+            } else {
+                // LOCAL MODE: the Oracle server may already have processed the session
+                const response = result.sessionResponse;
+                if (response && !response.awaiting_confirmation) {
+                    this.displayResults(response);
+                } else {
+                    this.showTranscriptConfirmation(result.text, response?.message, this.currentSessionId);
+                }
+            }
+
+        } catch (error: any) {
+            console.error('Processing error:', error);
+            this.statusEl.setText('Error processing recording');
+            this.statusEl.style.color = 'var(--text-error)';
+            this.recordBtn.setText('TRY AGAIN');
+            this.recordBtn.disabled = false;
+            this.recordBtn.style.background = 'var(--interactive-accent)';
+
+            this.resultEl.empty();
+            this.resultEl.createEl('p', {
+                text: `Error: ${error.message || 'Could not process recording'}`,
+                cls: 'error'
+            });
+        }
+    }
+
+    /**
+     * Before sending a long recording to the cloud, explain that it goes as
+     * several segments and each one uses a voice note from today's limit.
+     */
+    confirmSegmentedTranscription(durationSeconds: number): Promise<boolean> {
+        const segments = countVoiceSegments(durationSeconds);
+        const mins = Math.floor(durationSeconds / 60);
+        const secs = Math.round(durationSeconds % 60).toString().padStart(2, '0');
+
+        this.resultEl.empty();
+        this.statusEl.setText(`Long voice note (${mins}:${secs})`);
+        this.statusEl.style.color = 'var(--text-accent)';
+
+        const explainEl = this.resultEl.createEl('p', {
+            text: `Cloud transcription takes up to 2 minutes at a time, so this note will be sent as ${segments} overlapping segments and joined back together. Each segment counts as one voice note against your daily limit.`
+        });
+        explainEl.style.cssText = 'line-height: 1.5; margin-bottom: 10px;';
+
+        const usageEl = this.resultEl.createEl('p', { text: "Checking today's usage..." });
+        usageEl.style.cssText = 'color: var(--text-muted); font-size: 0.9em; margin-bottom: 15px;';
+        this.plugin.getVoiceUsage().then(usage => {
+            // Segments fall back only to backends after the cloud one
+            const backends = this.plugin.getTranscriptionBackends();
+            const fallbacks = backends.slice(backends.findIndex(b => b.id === 'remote') + 1);
+            let text = `Voice notes today: ${usage.count}/${usage.limit} (${usage.remaining} remaining). This uses ${segments}.`;
+            if (usage.remaining < segments) {
+                text += fallbacks.length > 0
+                    ? ` The last ${segments - usage.remaining} segment(s) will use ${TRANSCRIPTION_BACKEND_NAMES[fallbacks[0].id]} instead.`
+                    : ' Not enough left today - later segments will fail unless you add a Whisper server in settings.';
+                usageEl.style.color = 'var(--text-warning)';
+            }
+            usageEl.setText(text);
+        }).catch(() => {
+            usageEl.setText(`This uses ${segments} voice notes.`);
+        });
+
+        const btnContainer = this.resultEl.createDiv();
+        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+
+        return new Promise(resolve => {
+            const goBtn = btnContainer.createEl('button', { text: `Transcribe ${segments} segments`, cls: 'mod-cta' });
+            goBtn.onclick = () => {
+                this.resultEl.empty();
+                resolve(true);
+            };
+            const cancelBtn = btnContainer.createEl('button', { text: 'Cancel' });
+            cancelBtn.onclick = () => resolve(false);
+        });
+    }
+
+    // Every backend failed and the cloud hit its limit: explain instead of a generic error
+    showTranscriptionLimit(error: TranscriptionError): boolean {
+        const messages = error.failures.map(f => f.message);
+        const hasFallback = this.plugin.settings.transcriptionBackends.includes('whisper') && !!this.plugin.settings.whisperUrl.trim();
+        const fallbackHint = hasFallback ? '' : ' Add a Whisper server in settings to keep recording.';
+
+        if (messages.some(m => m.includes('Daily limit'))) {
+            this.statusEl.setText('Daily voice note limit reached (5/day)');
+            new Notice(`You have used all 5 voice notes for today.${fallbackHint || ' Try again tomorrow!'}`);
+        } else if (messages.some(m => m.includes('too long'))) {
+            this.statusEl.setText('Recording too long (max 2 minutes)');
+            new Notice(`Voice notes are limited to 2 minutes.${fallbackHint || ' Please record a shorter message.'}`);
+        } else {
+            return false;
+        }
+
+        this.recordBtn.setText('TRY AGAIN');
+        this.recordBtn.disabled = false;
+        this.recordBtn.style.background = 'var(--interactive-accent)';
+        return true;
+    }
+
+    // Track remote therapy session
+    remoteTherapySessionId: string | null = null;
+    therapyTurns: TherapyTurn[] = [];
+    therapySkipped: boolean = false;
+
+    // Save where the therapy loop is, so closing the modal doesn't cost another voice note
+    persistTherapyState(transcript: string, stage: StoredTherapySession['stage'], text: string) {
+        this.plugin.saveTherapyState({
+            sessionId: this.remoteTherapySessionId,
+            transcript,
+            turns: this.therapyTurns,
+            skipped: this.therapySkipped,
+            stage,
+            question: stage === 'question' ? text : undefined,
+            enrichedQuery: stage === 'ready' ? text : undefined,
+            updatedAt: new Date().toISOString()
+        }).catch(error => console.error('[Flipmode] Could not save therapy session:', error));
+    }
+
+    offerTherapyResume(state: StoredTherapySession) {
+        this.resultEl.empty();
+
+        this.statusEl.setText('You have an unfinished voice note');
+        this.statusEl.style.color = 'var(--text-accent)';
+
+        const minutes = Math.round((Date.now() - new Date(state.updatedAt).getTime()) / 60000);
+        const ago = minutes < 60 ? `${minutes} min ago` : `${Math.round(minutes / 60)} h ago`;
+        const progress = state.stage === 'ready'
+            ? 'Your query was ready to submit.'
+            : `${state.turns.length} question(s) answered so far.`;
+
+        const origEl = this.resultEl.createEl('p', {
+            text: `"${state.transcript.substring(0, 100)}${state.transcript.length > 100 ? '...' : ''}"`
+        });
+        origEl.style.cssText = 'font-style: italic; color: var(--text-muted); font-size: 0.9em; margin-bottom: 10px;';
+
+        const infoEl = this.resultEl.createEl('p', { text: `Last worked on ${ago}. ${progress}` });
+        infoEl.style.cssText = 'margin-bottom: 15px;';
+
+        const btnContainer = this.resultEl.createDiv();
+        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+
+        const continueBtn = btnContainer.createEl('button', { text: 'Continue where you left off', cls: 'mod-cta' });
+        continueBtn.onclick = () => {
+            this.remoteTherapySessionId = state.sessionId;
+            this.therapyTurns = state.turns;
+            this.therapySkipped = state.skipped;
+            if (state.stage === 'question' && state.question && state.sessionId) {
+                this.showTherapyQuestion(state.question, state.transcript);
+            } else {
+                this.showEnrichedQueryConfirmation(state.enrichedQuery || state.transcript, state.transcript);
+            }
+        };
+
+        const discardBtn = btnContainer.createEl('button', { text: 'Start over' });
+        discardBtn.onclick = async () => {
+            await this.plugin.saveTherapyState(null);
+            this.resultEl.empty();
+            this.statusEl.setText('Click to start recording');
+            this.statusEl.style.color = 'var(--text-muted)';
+        };
+    }
+
+    // Show transcript confirmation for remote (athlete) mode - starts therapy session
+    async showRemoteTranscriptConfirmation(transcript: string, usage?: VoiceUsage) {
+        this.resultEl.empty();
+
+        this.statusEl.setText('Starting therapy session...');
+        this.statusEl.style.color = 'var(--text-accent)';
+        this.therapyTurns = [];
+        this.therapySkipped = false;
+
+        // Usage info (only the cloud backend counts against the daily limit)
+        if (usage) {
+            const usageEl = this.resultEl.createEl('p', {
+                text: `Voice notes today: ${usage.count}/${usage.limit} (${usage.remaining} remaining)`
+            });
+            usageEl.style.textAlign = 'center';
+            usageEl.style.color = 'var(--text-muted)';
+            usageEl.style.fontSize = '0.85em';
+            usageEl.style.marginBottom = '10px';
+        }
+
+        try {
+            // Start therapy session with transcript
+            const therapyResult = await this.plugin.startRemoteTherapy(transcript);
+
+            if (therapyResult.state === 'ready') {
+                // Already have enough info - show enriched query
+                this.showEnrichedQueryConfirmation(therapyResult.enriched_query, transcript);
+            } else {
+                // Need more info - show question
+                this.remoteTherapySessionId = therapyResult.session_id;
+                this.showTherapyQuestion(therapyResult.question, transcript);
+            }
+        } catch (error: any) {
+            console.error('Therapy start error:', error);
+            // Fall back to direct submit
+            this.showDirectSubmitForm(transcript, usage);
+        }
+    }
+
+    // Show therapy question and let athlete respond
+    showTherapyQuestion(question: string, originalTranscript: string) {
+        this.resultEl.empty();
+
+        this.statusEl.setText('Clarifying your training...');
+        this.statusEl.style.color = 'var(--text-accent)';
+        this.persistTherapyState(originalTranscript, 'question', question);
+
+        // Show original transcript (smaller)
+        const origEl = this.resultEl.createEl('p', {
+            text: `"${originalTranscript.substring(0, 100)}${originalTranscript.length > 100 ? '...' : ''}"`
+        });
+        origEl.style.cssText = 'font-style: italic; color: var(--text-muted); font-size: 0.9em; margin-bottom: 15px;';
+
+        // Show question from therapy
+        const questionEl = this.resultEl.createEl('p', { text: question });
+        questionEl.style.cssText = 'font-weight: 500; margin-bottom: 15px; line-height: 1.5;';
+
+        // Text input for answer
+        const textarea = this.resultEl.createEl('textarea');
+        textarea.placeholder = 'Type your answer...';
+        textarea.style.cssText = `
+            width: 100%;
+            min-height: 80px;
+            padding: 10px;
+            border-radius: 8px;
+            border: 1px solid var(--background-modifier-border);
+            background: var(--background-primary);
+            color: var(--text-normal);
+            font-size: 14px;
+            resize: vertical;
+            margin-bottom: 15px;
+        `;
+
+        // Buttons
+        const btnContainer = this.resultEl.createDiv();
+        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+
+        const answerBtn = btnContainer.createEl('button', { text: 'Answer' });
+        answerBtn.style.cssText = `
+            padding: 10px 20px;
+            background: var(--interactive-accent);
+            color: var(--text-on-accent);
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: 500;
+        `;
+        answerBtn.onclick = async () => {
+            const answer = textarea.value.trim();
+            if (!answer) {
+                new Notice('Please type an answer');
+                return;
+            }
+
+            answerBtn.disabled = true;
+            answerBtn.setText('Processing...');
+
+            try {
+                const result = await this.plugin.respondToRemoteTherapy(
+                    this.remoteTherapySessionId!,
+                    answer
+                );
+                this.therapyTurns.push({ question, answer, answered_at: new Date().toISOString() });
+
+                if (result.state === 'ready') {
+                    // Got enough info - show enriched query
+                    this.showEnrichedQueryConfirmation(result.enriched_query, originalTranscript);
+                } else {
+                    // Need more info - show next question
+                    this.showTherapyQuestion(result.question, originalTranscript);
+                }
+            } catch (error: any) {
+                new Notice(`Error: ${error.message}`);
+                answerBtn.disabled = false;
+                answerBtn.setText('Answer');
+            }
+        };
+
+        const skipBtn = btnContainer.createEl('button', { text: 'Skip & Submit' });
+        skipBtn.style.cssText = `
+            padding: 10px 20px;
+            background: var(--background-modifier-border);
+            color: var(--text-normal);
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+        `;
+        skipBtn.onclick = () => {
+            // Submit original transcript directly
+            this.therapySkipped = true;
+            this.showEnrichedQueryConfirmation(originalTranscript, originalTranscript);
+        };
+
+        // Update record button to allow voice answer
+        this.recordBtn.setText('VOICE ANSWER');
+        this.recordBtn.disabled = false;
+        this.recordBtn.style.background = 'var(--interactive-accent)';
+    }
+
+    // Show enriched query for final confirmation before submitting
+    showEnrichedQueryConfirmation(enrichedQuery: string, originalTranscript: string) {
+        this.resultEl.empty();
+
+        this.statusEl.setText('Ready to submit to analyst');
+        this.statusEl.style.color = 'var(--text-success)';
+        this.persistTherapyState(originalTranscript, 'ready', enrichedQuery);
+
+        // Show what will be submitted
+        const labelEl = this.resultEl.createEl('p', { text: 'Your research query:' });
+        labelEl.style.cssText = 'font-weight: 500; margin-bottom: 10px;';
+
+        const textarea = this.resultEl.createEl('textarea');
+        textarea.value = enrichedQuery;
+        textarea.style.cssText = `
+            width: 100%;
+            min-height: 80px;
+            padding: 10px;
+            border-radius: 8px;
+            border: 1px solid var(--background-modifier-border);
+            background: var(--background-primary);
+            color: var(--text-normal);
+            font-size: 14px;
+            resize: vertical;
+            margin-bottom: 15px;
+        `;
+
+        // Buttons
+        const btnContainer = this.resultEl.createDiv();
+        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+
+        const submitBtn = btnContainer.createEl('button', { text: 'Submit to Analyst' });
+        submitBtn.style.cssText = `
+            padding: 10px 20px;
+            background: var(--interactive-accent);
+            color: var(--text-on-accent);
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: 500;
+        `;
+        submitBtn.onclick = async () => {
+            const finalQuery = textarea.value.trim();
+            if (!finalQuery) {
+                new Notice('Please enter a query');
+                return;
+            }
+
+            submitBtn.disabled = true;
+            submitBtn.setText('Submitting...');
+
+            try {
+                // Submit enriched query to coach queue (queued offline if there's no signal)
+                const therapyContext: TherapyContext = {
+                    original_transcript: originalTranscript,
+                    therapy_session_id: this.remoteTherapySessionId,
+                    turns: this.therapyTurns,
+                    skipped: this.therapySkipped
+                };
+                if (enrichedQuery !== originalTranscript && enrichedQuery !== finalQuery) {
+                    therapyContext.suggested_query = enrichedQuery;
+                }
+                const submitted = await this.plugin.submitToCoach(finalQuery, therapyContext);
+                if (!submitted) {
+                    throw new Error('Could not reach Oracle');
+                }
+
+                // Save to vault
+                await this.saveRemoteVoiceNote(originalTranscript + '\n\n---\n\n**Research Query:** ' + finalQuery);
+
+                this.statusEl.setText(submitted.queued
+                    ? 'Queued offline. It will be sent when you\'re back online.'
+                    : 'Submitted! Your analyst will process this.');
+                this.statusEl.style.color = 'var(--text-success)';
+
+                this.recordBtn.setText('RECORD ANOTHER');
+                this.recordBtn.disabled = false;
+                this.recordBtn.style.background = 'var(--interactive-accent)';
+                this.remoteTherapySessionId = null;
+                this.therapyTurns = [];
+                await this.plugin.saveTherapyState(null);
+
+            } catch (error: any) {
+                new Notice(`Submit failed: ${error.message}`);
+                submitBtn.disabled = false;
+                submitBtn.setText('Submit to Analyst');
+            }
+        };
+
+        const saveOnlyBtn = btnContainer.createEl('button', { text: 'Save Only' });
+        saveOnlyBtn.style.cssText = `
+            padding: 10px 20px;
+            background: var(--background-modifier-border);
+            color: var(--text-normal);
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+        `;
+        saveOnlyBtn.onclick = async () => {
+            await this.saveRemoteVoiceNote(originalTranscript + '\n\n---\n\n**Research Query:** ' + textarea.value);
+            await this.plugin.saveTherapyState(null);
+            new Notice('Voice note saved to vault');
+            this.close();
+        };
+
+        this.recordBtn.setText('RECORD NEW');
+        this.recordBtn.disabled = false;
+        this.recordBtn.style.background = 'var(--interactive-accent)';
+    }
+
+    // Fallback: direct submit form (if therapy fails)
+    showDirectSubmitForm(transcript: string, usage?: VoiceUsage) {
+        this.resultEl.empty();
+
+        this.statusEl.setText('Review your transcription');
+        this.statusEl.style.color = 'var(--text-accent)';
+
+        const textarea = this.resultEl.createEl('textarea');
+        textarea.value = transcript;
+        textarea.style.cssText = `
+            width: 100%;
+            min-height: 100px;
+            padding: 10px;
+            border-radius: 8px;
+            border: 1px solid var(--background-modifier-border);
+            background: var(--background-primary);
+            color: var(--text-normal);
+            font-size: 14px;
+            resize: vertical;
+            margin-bottom: 15px;
+        `;
+
+        const btnContainer = this.resultEl.createDiv();
+        btnContainer.style.cssText = 'display: flex; gap: 10px; justify-content: center;';
+
+        const submitBtn = btnContainer.createEl('button', { text: 'Submit to Analyst' });
+        submitBtn.style.cssText = `
+            padding: 10px 20px;
+            background: var(--interactive-accent);
+            color: var(--text-on-accent);
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: 500;
+        `;
+        submitBtn.onclick = async () => {
+            const finalText = textarea.value.trim();
+            if (!finalText) {
+                new Notice('Please enter some text');
+                return;
+            }
+
+            submitBtn.disabled = true;
+            submitBtn.setText('Submitting...');
+
+            try {
+                const submitted = await this.plugin.submitToCoach(finalText);
+                if (!submitted) {
+                    throw new Error('Could not reach Oracle');
+                }
+                await this.saveRemoteVoiceNote(finalText);
+
+                this.statusEl.setText(submitted.queued
+                    ? 'Queued offline. It will be sent when you\'re back online.'
+                    : 'Submitted! Your analyst will process this.');
+                this.statusEl.style.color = 'var(--text-success)';
+
+                this.recordBtn.setText('RECORD ANOTHER');
+                this.recordBtn.disabled = false;
+                this.recordBtn.style.background = 'var(--interactive-accent)';
+            } catch (error: any) {
+                new Notice(`Submit failed: ${error.message}`);
+                submitBtn.disabled = false;
+                submitBtn.setText('Submit to Analyst');
+            }
+        };
+
+        this.recordBtn.setText('RECORD MORE');
+        this.recordBtn.disabled = false;
+        this.recordBtn.style.background = 'var(--interactive-accent)';
+    }
+
+    // Save voice note to vault (for remote mode)
+    async saveRemoteVoiceNote(transcript: string) {
+        const date = new Date().toISOString().split('T')[0];
+        const time = new Date().toTimeString().split(' ')[0].replace(/:/g, '-');
+        const folder = this.plugin.settings.syncFolder + '/VoiceNotes';
+
+        await this.plugin.ensureFoldersExist([folder]);
+
+        const content = `---
+type: voice-note
+date: ${date}
+tags: [bjj, voice-note]
+---
+
+# Voice Note - ${date} ${time}
+
+${transcript}
+${this.plugin.recordingSection(this.recordingPaths)}`;
+
+        const fileName = `${folder}/Voice Note ${date} ${time}.md`;
+        await this.app.vault.create(fileName, content);
+
+        // The next note starts with its own recordings
+        this.recordingPaths = [];
+        this.lastRecordingPath = null;
+    }
+
+    showTranscriptConfirmation(transcript: string, message: string, sessionIdForContinuation: string | null) {
+        this.resultEl.empty();
+
+        // Track whether this is a continuation or new session
+        const isContinuation = sessionIdForContinuation !== null;
+
+        this.statusEl.setText('Review your transcription');
+        this.statusEl.style.color = 'var(--text-accent)';
+
+        // Message explaining what to do
+        const messageEl = this.resultEl.createEl('p', {
+            text: message || 'Is this transcription correct? Edit if needed, then confirm.'
+        });
+        messageEl.style.textAlign = 'center';
+        messageEl.style.color = 'var(--text-muted)';
+        messageEl.style.marginBottom = '15px';
+
+        // Editable transcript textarea
+        const textareaContainer = this.resultEl.createDiv({ cls: 'transcript-edit-container' });
+        textareaContainer.style.marginBottom = '20px';
+
+        const textarea = textareaContainer.createEl('textarea', {
+            cls: 'transcript-textarea'
+        });
+        textarea.value = transcript;
+        textarea.style.cssText = `
+            width: 100%;
+            min-height: 120px;
+            padding: 12px;
+            font-size: 14px;
+            line-height: 1.5;
+            border: 1px solid var(--background-modifier-border);
+            border-radius: 8px;
+            background: var(--background-primary);
+            color: var(--text-normal);
+            resize: vertical;
+            font-family: inherit;
+        `;
+
+        // Button container
+        const btnContainer = this.resultEl.createDiv({ cls: 'confirm-btn-container' });
+        btnContainer.style.textAlign = 'center';
+        btnContainer.style.display = 'flex';
+        btnContainer.style.gap = '10px';
+        btnContainer.style.justifyContent = 'center';
+
+        // Re-record button (secondary)
+        const reRecordBtn = btnContainer.createEl('button', {
+            text: '🎤 Re-record'
+        });
+        reRecordBtn.style.cssText = `
+            font-size: 14px;
+            padding: 12px 24px;
+            border: 1px solid var(--background-modifier-border);
+            border-radius: 8px;
+            background: var(--background-secondary);
+            color: var(--text-normal);
+            cursor: pointer;
+        `;
+        reRecordBtn.onclick = () => {
+            // The rejected take doesn't belong in the note or the vault
+            this.discardLastTake();
+
+            // Reset recording state
+            this.isRecording = false;
+            this.isPaused = false;
+            this.audioChunks = [];
+            if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+                this.mediaRecorder.stop();
+            }
+            if (this.timerInterval) {
+                clearInterval(this.timerInterval);
+                this.timerInterval = null;
+            }
+            this.pauseBtn.style.display = 'none';
+            this.stopLevelMeter();
+
+            // Reset UI and allow re-recording (keep session context for continuations)
+            this.resultEl.empty();
+            this.statusEl.setText(isContinuation ? 'Record your answer' : 'Click to start recording');
+            this.statusEl.style.color = 'var(--text-muted)';
+            this.recordBtn.setText(isContinuation ? 'ANSWER' : 'START RECORDING');
+            this.recordBtn.disabled = false;
+            this.recordBtn.style.display = 'inline-block';
+            this.recordBtn.style.background = 'var(--interactive-accent)';
+            this.timerEl.setText('00:00');
+        };
+
+        // Confirm button (primary)
+        const confirmBtn = btnContainer.createEl('button', {
+            text: '✓ Confirm & Process'
+        });
+        confirmBtn.style.cssText = `
+            font-size: 14px;
+            font-weight: 600;
+            padding: 12px 24px;
+            border: none;
+            border-radius: 8px;
+            background: var(--interactive-accent);
+            color: var(--text-on-accent);
+            cursor: pointer;
+        `;
+        confirmBtn.onclick = async () => {
+            const confirmedText = textarea.value.trim();
+            if (!confirmedText) {
+                new Notice('Please enter your training notes');
+                return;
+            }
+
+            // Disable buttons and show processing
+            confirmBtn.disabled = true;
+            reRecordBtn.disabled = true;
+            confirmBtn.setText('Processing...');
+            this.statusEl.setText('Processing your training notes...');
+            this.statusEl.style.color = 'var(--text-accent)';
+
+            try {
+                let session;
+                if (isContinuation) {
+                    // CONTINUATION: Use confirmRespondToSession with the session ID
+                    session = await this.plugin.confirmRespondToSession(sessionIdForContinuation, confirmedText);
+                } else {
+                    // NEW SESSION: Use confirmVoiceSession
+                    session = await this.plugin.confirmVoiceSession(confirmedText);
+                }
+                this.displayResults(session);
+            } catch (error) {
+                console.error('Confirm error:', error);
+                this.statusEl.setText('Error processing. Try again.');
+                this.statusEl.style.color = 'var(--text-error)';
+                confirmBtn.disabled = false;
+                reRecordBtn.disabled = false;
+                confirmBtn.setText('✓ Confirm & Process');
+                new Notice(`Error: ${error.message || 'Could not process'}`);
+            }
+        };
+
+        // Hide main record button during confirmation
+        this.recordBtn.style.display = 'none';
+    }
+
+    displayResults(session: any) {
+        this.resultEl.empty();
+        this.currentSessionId = session.session_id;
+
+        // Check if we have article/research results - this is the END state
+        if (session.research?.article_sections?.length) {
+            this.showArticlePlayer(session);
+            return;
+        }
+
+        // THERAPY FLOW - clean and simple
+        // Play audio response automatically
+        if (session.response_audio_url) {
+            const audioUrl = `${this.plugin.settings.serverUrl}${session.response_audio_url}`;
+            const audio = new Audio(audioUrl);
+            audio.play().catch(err => console.error('Audio error:', err));
+
+            this.statusEl.setText('Oracle is speaking...');
+            this.statusEl.style.color = 'var(--text-accent)';
+            audio.onended = () => {
+                this.statusEl.setText('Your turn - record your answer');
+                this.statusEl.style.color = 'var(--text-success)';
+            };
+        }
+
+        // Show coach's question prominently
+        const questionContainer = this.resultEl.createDiv({ cls: 'coach-question' });
+        questionContainer.style.background = 'var(--background-secondary)';
+        questionContainer.style.padding = '20px';
+        questionContainer.style.borderRadius = '12px';
+        questionContainer.style.marginBottom = '20px';
+        questionContainer.style.textAlign = 'center';
+
+        const questionText = questionContainer.createEl('p', {
+            text: session.response_text
+        });
+        questionText.style.fontSize = '1.2em';
+        questionText.style.margin = '0';
+        questionText.style.lineHeight = '1.5';
+        questionText.style.textAlign = 'center';
+
+        // Check state - if RESEARCHING, show big "Generate Wisdom" button
+        if (session.state === 'RESEARCHING') {
+            const isRemote = this.plugin.isRemoteMode();
+            this.statusEl.setText(isRemote ? 'Ready to send to Oracle!' : 'Ready to generate wisdom!');
+            this.statusEl.style.color = 'var(--text-success)';
+
+            const bigBtnContainer = this.resultEl.createDiv();
+            bigBtnContainer.style.textAlign = 'center';
+            bigBtnContainer.style.marginTop = '30px';
+
+            const generateBtn = bigBtnContainer.createEl('button', {
+                text: isRemote ? '📤 Send to Oracle' : '✨ Generate Wisdom',
+                cls: 'mod-cta'
+            });
+            generateBtn.style.fontSize = '1.4em';
+            generateBtn.style.padding = '20px 40px';
+            generateBtn.style.borderRadius = '12px';
+
+            generateBtn.onclick = async () => {
+                const sessionId = this.currentSessionId!;
+                const plugin = this.plugin;
+                const app = this.app;
+
+                // Get topic from session
+                const topic = session.selected_topic?.name || 'Research';
+
+                if (isRemote) {
+                    // REMOTE MODE: Send to coach queue
+                    const therapyContext = {
+                        conversation: session.conversation || [],
+                        selected_topic: session.selected_topic
+                    };
+
+                    const submitted = await plugin.submitToCoach(topic, therapyContext);
+                    if (submitted?.jobId) {
+                        new Notice('Query sent to Oracle! Check back later for results.', 5000);
+                    }
+                    this.close();
+                    return;
+                }
+
+                // LOCAL MODE: Generate directly
+                new Notice('Generating wisdom in background...', 3000);
+                this.close();
+
+                // Run in background
+                try {
+                    const response = await plugin.respondToSession(
+                        sessionId,
+                        'generate',
+                        undefined,
+                        undefined
+                    );
+
+                    // Get topic from response - prefer selected_topic, fallback to research.topic
+                    const responseTopic = response.selected_topic?.name || response.research?.topic || session.selected_topic?.name || 'Research';
+
+                    // Save to vault
+                    if (response.research?.article_raw) {
+                        const filename = await plugin.saveArticleToVault(responseTopic, response.research.article_raw);
+                        new Notice(`Wisdom ready! Saved to ${filename}`, 3000);
+                    }
+
+                    // Open audio player if we have sections
+                    if (response.research?.article_sections?.length > 0) {
+                        const articleContent = response.research.article || response.research.article_raw || '';
+                        const sources = response.research.sources || [];
+                        const playerModal = new AudioPlayerModal(app, plugin, responseTopic, response.research.article_sections, sessionId, articleContent, sources);
+                        playerModal.open();
+                    } else {
+                        new Notice('Research complete! Check your Flipmode folder.', 5000);
+                    }
+                } catch (error) {
+                    console.error('Generate error:', error);
+                    new Notice('Failed to generate wisdom. Try again.', 5000);
+                }
+            };
+
+            // Hide record button during this state
+            this.recordBtn.style.display = 'none';
+            return;
+        }
+
+        // Normal therapy state - show record button for voice answer
         // Create a new button container at the bottom of resultEl (after the question)
         const answerBtnContainer = this.resultEl.createDiv({ cls: 'answer-btn-container' });
         answerBtnContainer.style.textAlign = 'center';
@@ -6793,1052 +10973,1982 @@ ${transcript}
         answerBtnContainer.style.justifyContent = 'center';
         answerBtnContainer.style.gap = '15px';
 
-        // Move the ANSWER button into this container
-        answerBtnContainer.appendChild(this.recordBtn);
+        // Move the ANSWER button into this container
+        answerBtnContainer.appendChild(this.recordBtn);
+
+        this.recordBtn.setText('ANSWER');
+        this.recordBtn.disabled = false;
+        this.recordBtn.style.display = 'inline-flex';
+        this.recordBtn.style.background = 'var(--interactive-accent)';
+
+        // Add "Done" button to end the session (save notes only - athlete side)
+        const doneBtn = answerBtnContainer.createEl('button', {
+            text: 'DONE',
+            cls: 'mod-cta'
+        });
+        doneBtn.style.cssText = `
+            padding: 15px 30px;
+            font-size: 1.1em;
+            font-weight: bold;
+            border-radius: 12px;
+            cursor: pointer;
+            display: inline-flex;
+            align-items: center;
+            justify-content: center;
+            background: var(--interactive-accent);
+            color: var(--text-on-accent);
+        `;
+
+        doneBtn.onclick = async () => {
+            if (!this.currentSessionId) {
+                new Notice('No session to save', 3000);
+                this.close();
+                return;
+            }
+
+            doneBtn.disabled = true;
+            doneBtn.setText('Saving...');
+
+            try {
+                // Fetch session markdown from backend
+                const response = await requestUrl({
+                    url: `${this.plugin.settings.serverUrl}/api/obsidian/sync/session/${this.currentSessionId}`,
+                    method: 'GET',
+                    headers: {
+                        'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                    }
+                });
+
+                const data = response.json;
+                if (data.content) {
+                    const season = this.plugin.settings.currentSeason;
+                    const episode = this.plugin.settings.currentEpisode;
+                    const athleteName = this.plugin.settings.athleteName || 'Athlete';
+                    const dateStr = new Date().toISOString().split('T')[0];
+
+                    // Extract MAIN focus - prefer selected_topic (what they chose to work on)
+                    const frontmatter = data.frontmatter || {};
+                    const topics = frontmatter.topics || [];  // work_on items
+                    const wins = frontmatter.wins || [];
+
+                    // Priority: selected_topic > first work_on topic > first win > general
+                    let focus = frontmatter.selected_topic || topics[0] || wins[0] || 'general';
+                    focus = focus.toLowerCase()
+                        .replace(/[^a-z0-9\s]/g, '')
+                        .replace(/\s+/g, '_')
+                        .substring(0, 30);
+
+                    // New naming: TrainingNotes-date-focus
+                    const baseFilename = `TrainingNotes-${dateStr}-${focus}`;
+                    const reviewFilename = `TrainingReview-${dateStr}-${focus}`;
+
+                    // Per-athlete folder structure: Season X/Session Y
+                    const folderPath = `${this.plugin.settings.syncFolder}/Athletes/${athleteName}/Season ${season}/Session ${episode}`;
+                    const fullPath = `${folderPath}/${baseFilename}.md`;
+
+                    // Ensure folder exists (create nested structure)
+                    const folder = this.app.vault.getAbstractFileByPath(folderPath);
+                    if (!folder) {
+                        await this.app.vault.createFolder(folderPath);
+                    }
+
+                    // Find previous session's TrainingNotes for linear chain
+                    let previousSessionLink = '';
+                    if (episode > 1) {
+                        const prevFolderPath = `${this.plugin.settings.syncFolder}/Athletes/${athleteName}/Season ${season}/Session ${episode - 1}`;
+                        const prevFolder = this.app.vault.getAbstractFileByPath(prevFolderPath);
+                        if (prevFolder instanceof TFolder) {
+                            const prevFiles = prevFolder.children.filter(f => f instanceof TFile && f.name.startsWith('TrainingNotes-'));
+                            if (prevFiles.length > 0) {
+                                previousSessionLink = `\nprevious_session: "[[${(prevFiles[0] as TFile).basename}]]"`;
+                            }
+                        }
+                    }
+
+                    // Add enhanced frontmatter for graph view
+                    // Note: coach_review link is added later when coach publishes review
+                    const enhancedContent = `---
+type: training-notes
+season: ${season}
+episode: ${episode}
+date: ${dateStr}
+focus: "${focus}"
+session_id: "${this.currentSessionId}"${previousSessionLink}
+tags: [bjj, training, season-${season}, ${focus.replace(/_/g, '-')}]
+---
+
+${data.content}
+${this.plugin.recordingSection(this.recordingPaths)}`;
+
+                    // Save file
+                    const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
+                    if (existingFile instanceof TFile) {
+                        await this.app.vault.modify(existingFile, enhancedContent);
+                    } else {
+                        await this.app.vault.create(fullPath, enhancedContent);
+                    }
+                    this.recordingPaths = [];
+                    this.lastRecordingPath = null;
+
+                    // Increment episode for next session
+                    this.plugin.settings.currentEpisode = episode + 1;
+                    await this.plugin.saveSettings();
+
+                    new Notice(`Session saved: ${baseFilename}`, 3000);
+                } else {
+                    new Notice('Session ended', 3000);
+                }
+            } catch (error) {
+                console.error('Error saving session:', error);
+                new Notice('Session ended (save failed)', 3000);
+            }
+
+            this.close();
+        };
+    }
+
+    showArticlePlayer(session: any) {
+        this.statusEl.setText('Here\'s your wisdom');
+        this.statusEl.style.color = 'var(--text-success)';
+
+        // Article title
+        const titleEl = this.resultEl.createEl('h3', {
+            text: session.research.topic || 'Your Research'
+        });
+        titleEl.style.textAlign = 'center';
+        titleEl.style.marginBottom = '20px';
+
+        // Section audio player - clean list
+        const sectionsContainer = this.resultEl.createDiv({ cls: 'article-sections' });
+        sectionsContainer.style.background = 'var(--background-secondary)';
+        sectionsContainer.style.padding = '15px';
+        sectionsContainer.style.borderRadius = '12px';
+        sectionsContainer.style.marginBottom = '20px';
+
+        let currentAudio: HTMLAudioElement | null = null;
+
+        for (const section of session.research.article_sections) {
+            const sectionDiv = sectionsContainer.createDiv({ cls: 'section-item' });
+            sectionDiv.style.display = 'flex';
+            sectionDiv.style.alignItems = 'center';
+            sectionDiv.style.gap = '12px';
+            sectionDiv.style.padding = '10px';
+            sectionDiv.style.cursor = 'pointer';
+            sectionDiv.style.borderRadius = '8px';
+
+            const playBtn = sectionDiv.createEl('span', { text: '▶' });
+            playBtn.style.fontSize = '1.2em';
+            playBtn.style.width = '24px';
+
+            const titleEl = sectionDiv.createEl('span', { text: section.title });
+            titleEl.style.flex = '1';
+            titleEl.style.fontWeight = '500';
+
+            const audioUrl = `${this.plugin.settings.serverUrl}${section.audio_url}`;
+            const audio = new Audio(audioUrl);
+
+            const playSection = () => {
+                if (currentAudio && currentAudio !== audio) {
+                    currentAudio.pause();
+                }
+                currentAudio = audio;
+                audio.play();
+                playBtn.setText('⏸');
+                sectionDiv.style.background = 'var(--background-modifier-active-hover)';
+            };
+
+            sectionDiv.onclick = playSection;
+            audio.onended = () => {
+                playBtn.setText('▶');
+                sectionDiv.style.background = '';
+            };
+            audio.onpause = () => {
+                playBtn.setText('▶');
+                sectionDiv.style.background = '';
+            };
+        }
+
+        // Auto-play first section
+        if (session.research.article_sections.length > 0) {
+            const firstAudioUrl = `${this.plugin.settings.serverUrl}${session.research.article_sections[0].audio_url}`;
+            const firstAudio = new Audio(firstAudioUrl);
+            firstAudio.play().catch(() => {});
+        }
+
+        // Action buttons - Dive Deeper prominently
+        const actionsContainer = this.resultEl.createDiv();
+        actionsContainer.style.display = 'flex';
+        actionsContainer.style.flexDirection = 'column';
+        actionsContainer.style.gap = '12px';
+        actionsContainer.style.marginTop = '20px';
+
+        // Dive Deeper - big button with voice record
+        const diveBtn = actionsContainer.createEl('button', {
+            text: 'DIVE DEEPER',
+            cls: 'mod-cta'
+        });
+        diveBtn.style.fontSize = '1.2em';
+        diveBtn.style.padding = '15px 30px';
+        diveBtn.onclick = () => {
+            this.statusEl.setText('Record a follow-up question...');
+            this.recordBtn.setText('RECORD FOLLOW-UP');
+            this.recordBtn.disabled = false;
+            this.recordBtn.style.display = 'inline-block';
+            // Scroll to record button
+            this.recordBtn.scrollIntoView({ behavior: 'smooth' });
+        };
+
+        // Training Plan - secondary
+        const planBtn = actionsContainer.createEl('button', {
+            text: 'CREATE TRAINING PLAN'
+        });
+        planBtn.style.padding = '12px 24px';
+        planBtn.onclick = async () => {
+            planBtn.disabled = true;
+            planBtn.setText('Creating...');
+            try {
+                const topic = session.research?.topic || session.selected_topic?.name || 'Training';
+                const article = session.research?.article || session.research?.article_raw || '';
+                const response = await this.plugin.apiRequest('/training-plan', 'POST', {
+                    session_id: this.currentSessionId,
+                    user_id: this.plugin.settings.userId,
+                    topic: topic,
+                    article: article  // Pass article for training recommendations extraction
+                });
+
+                if (response.markdown) {
+                    // Save training plan to vault
+                    const cleanTopic = topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 40);
+                    const date = new Date().toISOString().split('T')[0];
+                    const filename = `${this.plugin.settings.syncFolder}/Plans/${date} - ${cleanTopic} Plan.md`;
+
+                    // Ensure folder exists
+                    const planFolder = `${this.plugin.settings.syncFolder}/Plans`;
+                    const folder = this.app.vault.getAbstractFileByPath(planFolder);
+                    if (!folder) {
+                        await this.app.vault.createFolder(planFolder);
+                    }
+
+                    // Create file
+                    const existingFile = this.app.vault.getAbstractFileByPath(filename);
+                    if (existingFile instanceof TFile) {
+                        await this.app.vault.modify(existingFile, response.markdown);
+                    } else {
+                        await this.app.vault.create(filename, response.markdown);
+                    }
+
+                    // Open the file
+                    const file = this.app.vault.getAbstractFileByPath(filename);
+                    if (file instanceof TFile) {
+                        await this.app.workspace.getLeaf().openFile(file);
+                    }
+
+                    new Notice(`Training plan saved to ${filename}`);
+                } else {
+                    new Notice('Plan created but no content returned');
+                }
+            } catch (error) {
+                console.error('Plan error:', error);
+                new Notice('Failed to create plan');
+                planBtn.disabled = false;
+                planBtn.setText('CREATE TRAINING PLAN');
+            }
+        };
+
+        // Hide record button initially
+        this.recordBtn.style.display = 'none';
+    }
+
+    onClose() {
+        // Stop recording if still active
+        if (this.isRecording && this.mediaRecorder) {
+            this.mediaRecorder.stop();
+        }
+        if (this.timerInterval) {
+            window.clearInterval(this.timerInterval);
+        }
+        this.stopLevelMeter();
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Dive Deep Modal - for session-based follow-up research
+class DiveDeepModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    topic: string;
+    sessionContext: string;
+    rlmSessionId: string;
+    mediaRecorder: MediaRecorder | null = null;
+    audioChunks: Blob[] = [];
+    isRecording: boolean = false;
+    recordBtn: HTMLButtonElement;
+    statusEl: HTMLElement;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin, topic: string, sessionContext: string, rlmSessionId: string = '') {
+        super(app);
+        this.plugin = plugin;
+        this.topic = topic;
+        this.sessionContext = sessionContext;
+        this.rlmSessionId = rlmSessionId;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-dive-deep-modal');
+
+        // Title
+        const titleEl = contentEl.createEl('h2', { text: 'Dive Deeper' });
+        titleEl.style.textAlign = 'center';
+
+        // Topic display
+        const topicEl = contentEl.createEl('p', { text: `Topic: ${this.topic}` });
+        topicEl.style.textAlign = 'center';
+        topicEl.style.color = 'var(--text-accent)';
+        topicEl.style.fontWeight = '600';
+
+        // Session context
+        const contextContainer = contentEl.createDiv();
+        contextContainer.style.background = 'var(--background-secondary)';
+        contextContainer.style.padding = '15px';
+        contextContainer.style.borderRadius = '8px';
+        contextContainer.style.marginBottom = '20px';
+        contextContainer.style.maxHeight = '150px';
+        contextContainer.style.overflowY = 'auto';
+
+        const contextLabel = contextContainer.createEl('p', { text: 'Session Notes:' });
+        contextLabel.style.fontWeight = '600';
+        contextLabel.style.marginBottom = '8px';
+
+        const contextText = contextContainer.createEl('p', { text: this.sessionContext });
+        contextText.style.fontSize = '0.9em';
+        contextText.style.whiteSpace = 'pre-wrap';
+
+        // Status
+        this.statusEl = contentEl.createEl('p', { text: 'Record your follow-up question' });
+        this.statusEl.style.textAlign = 'center';
+        this.statusEl.style.color = 'var(--text-muted)';
+
+        // Record button
+        const btnContainer = contentEl.createDiv();
+        btnContainer.style.textAlign = 'center';
+        btnContainer.style.marginTop = '20px';
+
+        this.recordBtn = btnContainer.createEl('button', { text: 'RECORD QUESTION', cls: 'mod-cta' });
+        this.recordBtn.style.padding = '16px 32px';
+        this.recordBtn.style.fontSize = '1.1em';
+        this.recordBtn.onclick = () => this.toggleRecording();
+    }
+
+    async toggleRecording() {
+        if (this.isRecording) {
+            await this.stopRecording();
+        } else {
+            await this.startRecording();
+        }
+    }
+
+    async startRecording() {
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            this.audioChunks = [];
+            this.mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm;codecs=opus' });
+
+            this.mediaRecorder.ondataavailable = (e) => {
+                if (e.data.size > 0) this.audioChunks.push(e.data);
+            };
+
+            this.mediaRecorder.onstop = async () => {
+                stream.getTracks().forEach(t => t.stop());
+                await this.processRecording();
+            };
+
+            this.mediaRecorder.start();
+            this.isRecording = true;
+            this.recordBtn.setText('STOP');
+            this.recordBtn.style.background = 'var(--text-error)';
+            this.statusEl.setText('Recording... speak your question');
+        } catch (error) {
+            new Notice('Could not access microphone');
+        }
+    }
+
+    async stopRecording() {
+        if (this.mediaRecorder && this.isRecording) {
+            this.mediaRecorder.stop();
+            this.isRecording = false;
+        }
+    }
+
+    async processRecording() {
+        this.recordBtn.setText('PROCESSING...');
+        this.recordBtn.disabled = true;
+        this.statusEl.setText('Sending to Flipmode...');
+
+        try {
+            const audioBlob = new Blob(this.audioChunks, { type: 'audio/webm' });
+            const base64Audio = await this.blobToBase64(audioBlob);
+
+            // Start new session with context pre-filled
+            const sessionResponse = await this.plugin.apiRequest('/session', 'POST', {
+                user_id: this.plugin.settings.userId
+            });
+
+            // Send the audio with topic context
+            const response = await this.plugin.apiRequest('/respond', 'POST', {
+                session_id: sessionResponse.session_id,
+                audio_base64: base64Audio,
+                audio_format: 'webm',
+                context: `Follow-up on ${this.topic}. Session notes: ${this.sessionContext}`
+            });
+
+            new Notice('Researching in background...', 3000);
+            this.close();
+
+            // If we got a direct research response, handle it
+            if (response.research?.article_sections?.length > 0) {
+                const articleContent = response.research.article || response.research.article_raw || '';
+                const sources = response.research.sources || [];
+                // Open player - it will save the article with audio
+                const playerModal = new AudioPlayerModal(
+                    this.app,
+                    this.plugin,
+                    this.topic + ' - Follow-up',
+                    response.research.article_sections,
+                    sessionResponse.session_id,
+                    articleContent,
+                    sources
+                );
+                playerModal.open();
+            }
+
+        } catch (error) {
+            console.error('Dive deep error:', error);
+            new Notice('Failed to process - try again');
+            this.recordBtn.setText('RECORD QUESTION');
+            this.recordBtn.disabled = false;
+        }
+    }
+
+    blobToBase64(blob: Blob): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+            reader.onerror = reject;
+            reader.readAsDataURL(blob);
+        });
+    }
+
+    onClose() {
+        if (this.isRecording && this.mediaRecorder) {
+            this.mediaRecorder.stop();
+        }
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Auto-playing Audio Player Modal
+class AudioPlayerModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    topic: string;
+    sections: any[];
+    sessionId: string | null;
+    articleContent: string;
+    sources: any[];  // Video sources with timestamps
+    currentIndex: number = 0;
+    currentAudio: HTMLAudioElement | null = null;
+    isPlaying: boolean = false;
+    volume: number = 0.8;
+    statusEl: HTMLElement;
+    sectionItems: HTMLElement[] = [];
+    savedFilePath: string | null = null;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin, topic: string, sections: any[], sessionId?: string, articleContent?: string, sources?: any[]) {
+        super(app);
+        this.plugin = plugin;
+        this.topic = topic;
+        this.sections = sections;
+        this.sessionId = sessionId || null;
+        this.articleContent = articleContent || '';
+        this.sources = sources || [];
+    }
+
+    async saveResearchToVault(): Promise<string | null> {
+        if (!this.articleContent) {
+            return null;
+        }
+
+        try {
+            const cleanTopic = this.topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
+            const date = new Date().toISOString().split('T')[0];
+            const baseFolder = this.plugin.settings.syncFolder;
+            const researchFolder = `${baseFolder}/Research`;
+            // Audio goes in topic-specific subfolder - keeps graph clean
+            const topicAudioFolder = `${researchFolder}/audio/${cleanTopic}`;
+
+            // Ensure folders exist
+            for (const folder of [baseFolder, researchFolder, `${researchFolder}/audio`, topicAudioFolder]) {
+                const existing = this.app.vault.getAbstractFileByPath(folder);
+                if (!existing) {
+                    await this.app.vault.createFolder(folder);
+                }
+            }
+
+            // Download audio files and build embed links
+            // Files named simply: 01-Core Thesis.mp3 (no topic prefix - folder provides context)
+            const audioEmbeds: string[] = [];
+            for (let i = 0; i < this.sections.length; i++) {
+                const section = this.sections[i];
+                const sectionNum = String(i + 1).padStart(2, '0');
+                const cleanSectionTitle = section.title.replace(/[\\/:*?"<>|]/g, '-').substring(0, 40);
+                const audioFilename = `${sectionNum}-${cleanSectionTitle}.mp3`;
+                const audioPath = `${topicAudioFolder}/${audioFilename}`;
+
+                try {
+                    // Download audio from server
+                    const audioUrl = `${this.plugin.settings.serverUrl}${section.audio_url}`;
+                    const response = await fetch(audioUrl, {
+                        headers: {
+                            'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                        }
+                    });
+
+                    if (response.ok) {
+                        const audioBlob = await response.blob();
+                        const arrayBuffer = await audioBlob.arrayBuffer();
+
+                        // Save to vault
+                        const existingAudio = this.app.vault.getAbstractFileByPath(audioPath);
+                        if (existingAudio instanceof TFile) {
+                            await this.app.vault.modifyBinary(existingAudio, arrayBuffer);
+                        } else {
+                            await this.app.vault.createBinary(audioPath, arrayBuffer);
+                        }
+
+                        // Use full path for embed so Obsidian finds it correctly
+                        audioEmbeds.push(`### ${section.title}\n![[${audioPath}]]`);
+                    }
+                } catch (err) {
+                    console.error(`Failed to download audio for section ${i}:`, err);
+                    audioEmbeds.push(`### ${section.title}\n*Audio not available*`);
+                }
+            }
+
+            // Build markdown content with audio embeds
+            const markdownContent = `---
+topic: "${this.topic}"
+date: ${date}
+type: research
+---
+
+# ${this.topic}
+
+${this.articleContent}
+
+---
+
+## 🎧 Audio Sections
+
+${audioEmbeds.join('\n\n')}
+`;
+
+            // Save markdown file
+            const filename = `${researchFolder}/${date} - ${cleanTopic}.md`;
+            const existingFile = this.app.vault.getAbstractFileByPath(filename);
+            if (existingFile instanceof TFile) {
+                await this.app.vault.modify(existingFile, markdownContent);
+            } else {
+                await this.app.vault.create(filename, markdownContent);
+            }
+
+            this.savedFilePath = filename;
+            return filename;
+        } catch (error) {
+            console.error('Error saving research to vault:', error);
+            return null;
+        }
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-audio-player');
 
-        this.recordBtn.setText('ANSWER');
-        this.recordBtn.disabled = false;
-        this.recordBtn.style.display = 'inline-flex';
-        this.recordBtn.style.background = 'var(--interactive-accent)';
+        // Title - use the actual topic
+        const titleEl = contentEl.createEl('h2', { text: this.topic || 'Research' });
+        titleEl.style.textAlign = 'center';
+        titleEl.style.marginBottom = '10px';
 
-        // Add "Done" button to end the session (save notes only - athlete side)
-        const doneBtn = answerBtnContainer.createEl('button', {
-            text: 'DONE',
-            cls: 'mod-cta'
+        // Status
+        this.statusEl = contentEl.createEl('p', { text: this.articleContent ? 'Saving to vault...' : 'Ready to play' });
+        this.statusEl.style.textAlign = 'center';
+        this.statusEl.style.color = 'var(--text-muted)';
+        this.statusEl.style.marginBottom = '20px';
+
+        // Auto-save research to vault in background (only if we have article content)
+        if (this.articleContent) {
+            this.saveResearchToVault().then(savedPath => {
+                if (savedPath) {
+                    new Notice(`Research saved to ${savedPath}`, 3000);
+                }
+            });
+        }
+
+        // Sections list
+        const sectionsContainer = contentEl.createDiv({ cls: 'audio-sections' });
+        sectionsContainer.style.background = 'var(--background-secondary)';
+        sectionsContainer.style.padding = '15px';
+        sectionsContainer.style.borderRadius = '12px';
+        sectionsContainer.style.marginBottom = '20px';
+        sectionsContainer.style.maxHeight = '300px';
+        sectionsContainer.style.overflowY = 'auto';
+
+        this.sections.forEach((section, index) => {
+            const sectionDiv = sectionsContainer.createDiv({ cls: 'section-item' });
+            sectionDiv.style.display = 'flex';
+            sectionDiv.style.alignItems = 'center';
+            sectionDiv.style.gap = '12px';
+            sectionDiv.style.padding = '10px';
+            sectionDiv.style.borderRadius = '8px';
+            sectionDiv.style.cursor = 'pointer';
+
+            const indicator = sectionDiv.createEl('span', { text: '○' });
+            indicator.style.fontSize = '1em';
+            indicator.style.width = '20px';
+            indicator.addClass('section-indicator');
+
+            const titleSpan = sectionDiv.createEl('span', { text: section.title });
+            titleSpan.style.flex = '1';
+
+            sectionDiv.onclick = () => this.playSection(index);
+            this.sectionItems.push(sectionDiv);
         });
-        doneBtn.style.cssText = `
-            padding: 15px 30px;
-            font-size: 1.1em;
-            font-weight: bold;
-            border-radius: 12px;
-            cursor: pointer;
-            display: inline-flex;
-            align-items: center;
-            justify-content: center;
-            background: var(--interactive-accent);
-            color: var(--text-on-accent);
-        `;
 
-        doneBtn.onclick = async () => {
-            if (!this.currentSessionId) {
-                new Notice('No session to save', 3000);
-                this.close();
-                return;
+        // Controls
+        const controlsContainer = contentEl.createDiv();
+        controlsContainer.style.display = 'flex';
+        controlsContainer.style.justifyContent = 'center';
+        controlsContainer.style.alignItems = 'center';
+        controlsContainer.style.gap = '10px';
+        controlsContainer.style.marginTop = '20px';
+
+        // Transport controls container (prev/pause/next)
+        const transportControls = controlsContainer.createDiv();
+        transportControls.style.display = 'flex';
+        transportControls.style.alignItems = 'center';
+        transportControls.style.gap = '5px';
+        transportControls.style.background = 'var(--background-secondary)';
+        transportControls.style.borderRadius = '25px';
+        transportControls.style.padding = '5px 10px';
+
+        // Previous button
+        const prevBtn = transportControls.createEl('button', { text: '⏮' });
+        prevBtn.style.padding = '10px 15px';
+        prevBtn.style.fontSize = '1.2em';
+        prevBtn.style.border = 'none';
+        prevBtn.style.background = 'transparent';
+        prevBtn.style.cursor = 'pointer';
+        prevBtn.title = 'Previous section';
+        prevBtn.onclick = () => {
+            if (this.currentIndex > 0) {
+                this.playSection(this.currentIndex - 1);
             }
+        };
 
-            doneBtn.disabled = true;
-            doneBtn.setText('Saving...');
+        // Pause/Play button
+        const pauseBtn = transportControls.createEl('button', { text: '⏸' });
+        pauseBtn.style.padding = '10px 20px';
+        pauseBtn.style.fontSize = '1.4em';
+        pauseBtn.style.border = 'none';
+        pauseBtn.style.background = 'var(--interactive-accent)';
+        pauseBtn.style.color = 'var(--text-on-accent)';
+        pauseBtn.style.borderRadius = '50%';
+        pauseBtn.style.width = '50px';
+        pauseBtn.style.height = '50px';
+        pauseBtn.style.cursor = 'pointer';
+        pauseBtn.title = 'Pause/Resume';
+        pauseBtn.onclick = () => {
+            if (this.currentAudio) {
+                if (this.isPlaying) {
+                    this.currentAudio.pause();
+                    pauseBtn.setText('▶');
+                    this.isPlaying = false;
+                } else {
+                    this.currentAudio.play();
+                    pauseBtn.setText('⏸');
+                    this.isPlaying = true;
+                }
+            }
+        };
+
+        // Next button
+        const nextBtn = transportControls.createEl('button', { text: '⏭' });
+        nextBtn.style.padding = '10px 15px';
+        nextBtn.style.fontSize = '1.2em';
+        nextBtn.style.border = 'none';
+        nextBtn.style.background = 'transparent';
+        nextBtn.style.cursor = 'pointer';
+        nextBtn.title = 'Next section';
+        nextBtn.onclick = () => {
+            if (this.currentIndex < this.sections.length - 1) {
+                this.playSection(this.currentIndex + 1);
+            }
+        };
+
+        // Volume control
+        const volumeContainer = controlsContainer.createDiv();
+        volumeContainer.style.display = 'flex';
+        volumeContainer.style.alignItems = 'center';
+        volumeContainer.style.gap = '8px';
+
+        const volumeIcon = volumeContainer.createEl('span', { text: '🔊' });
+        volumeIcon.style.fontSize = '1.2em';
+
+        const volumeSlider = volumeContainer.createEl('input') as HTMLInputElement;
+        volumeSlider.type = 'range';
+        volumeSlider.min = '0';
+        volumeSlider.max = '100';
+        volumeSlider.value = String(this.volume * 100);
+        volumeSlider.style.width = '80px';
+        volumeSlider.style.cursor = 'pointer';
+        volumeSlider.oninput = () => {
+            this.volume = parseInt(volumeSlider.value) / 100;
+            if (this.currentAudio) {
+                this.currentAudio.volume = this.volume;
+            }
+            // Update icon based on volume
+            if (this.volume === 0) {
+                volumeIcon.setText('🔇');
+            } else if (this.volume < 0.5) {
+                volumeIcon.setText('🔉');
+            } else {
+                volumeIcon.setText('🔊');
+            }
+        };
 
+        // Training Plan button - only show if we have article content
+        if (!this.articleContent) {
+            // Skip training plan button when opened from TrainingReview
+        } else {
+        const planBtn = controlsContainer.createEl('button', { text: 'TRAINING PLAN' });
+        planBtn.style.padding = '12px 24px';
+        planBtn.onclick = async () => {
+            planBtn.disabled = true;
+            planBtn.setText('Creating plan...');
             try {
-                // Fetch session markdown from backend
-                const response = await requestUrl({
-                    url: `${this.plugin.settings.serverUrl}/api/obsidian/sync/session/${this.currentSessionId}`,
-                    method: 'GET',
-                    headers: {
-                        'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                    }
+                // Pass sources to extract video clips for drills
+                const response = await this.plugin.apiRequest('/training-plan', 'POST', {
+                    session_id: this.sessionId,
+                    user_id: this.plugin.settings.userId,
+                    topic: this.topic,
+                    article: this.articleContent,
+                    sources: this.sources,  // Pass sources for video clip extraction
+                    include_video_refs: true
                 });
 
-                const data = response.json;
-                if (data.content) {
-                    const season = this.plugin.settings.currentSeason;
-                    const episode = this.plugin.settings.currentEpisode;
-                    const athleteName = this.plugin.settings.athleteName || 'Athlete';
-                    const dateStr = new Date().toISOString().split('T')[0];
+                if (response.markdown) {
+                    // Save training plan to vault
+                    const cleanTopic = this.topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 40);
+                    const date = new Date().toISOString().split('T')[0];
+                    const planFilename = `${this.plugin.settings.syncFolder}/Plans/${date} - ${cleanTopic} Plan.md`;
 
-                    // Extract MAIN focus - prefer selected_topic (what they chose to work on)
-                    const frontmatter = data.frontmatter || {};
-                    const topics = frontmatter.topics || [];  // work_on items
-                    const wins = frontmatter.wins || [];
+                    // Ensure folders exist
+                    const planFolder = `${this.plugin.settings.syncFolder}/Plans`;
+                    const folder = this.app.vault.getAbstractFileByPath(planFolder);
+                    if (!folder) {
+                        await this.app.vault.createFolder(planFolder);
+                    }
 
-                    // Priority: selected_topic > first work_on topic > first win > general
-                    let focus = frontmatter.selected_topic || topics[0] || wins[0] || 'general';
-                    focus = focus.toLowerCase()
-                        .replace(/[^a-z0-9\s]/g, '')
-                        .replace(/\s+/g, '_')
-                        .substring(0, 30);
+                    // Create clips folder hierarchy for this plan
+                    const clipsBaseFolder = `${planFolder}/clips`;
+                    const clipsBaseFolderObj = this.app.vault.getAbstractFileByPath(clipsBaseFolder);
+                    if (!clipsBaseFolderObj) {
+                        await this.app.vault.createFolder(clipsBaseFolder);
+                    }
+                    const clipsFolder = `${clipsBaseFolder}/${cleanTopic}`;
+                    const clipsFolderObj = this.app.vault.getAbstractFileByPath(clipsFolder);
+                    if (!clipsFolderObj) {
+                        await this.app.vault.createFolder(clipsFolder);
+                    }
 
-                    // New naming: TrainingNotes-date-focus
-                    const baseFilename = `TrainingNotes-${dateStr}-${focus}`;
-                    const reviewFilename = `TrainingReview-${dateStr}-${focus}`;
+                    // Download and save video clips if any were extracted
+                    let videoSection = '';
+                    if (response.clips && response.clips.length > 0) {
+                        planBtn.setText(`Downloading ${response.clips.length} clips...`);
+                        const clipEmbeds: string[] = [];
+
+                        for (const clip of response.clips) {
+                            try {
+                                // Download clip from API
+                                const clipResponse = await requestUrl({
+                                    url: `${this.plugin.settings.serverUrl}${clip.clip_url}`,
+                                    method: 'GET',
+                                    headers: {
+                                        'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                                    }
+                                });
 
-                    // Per-athlete folder structure: Season X/Session Y
-                    const folderPath = `${this.plugin.settings.syncFolder}/Athletes/${athleteName}/Season ${season}/Session ${episode}`;
-                    const fullPath = `${folderPath}/${baseFilename}.md`;
+                                // Save clip to vault (skip if already exists)
+                                const clipFilename = `${clip.instructor.replace(/[\\/:*?"<>|]/g, '-')} - ${clip.timestamp.replace(/:/g, '-')}.mp4`;
+                                const clipPath = `${clipsFolder}/${clipFilename}`;
 
-                    // Ensure folder exists (create nested structure)
-                    const folder = this.app.vault.getAbstractFileByPath(folderPath);
-                    if (!folder) {
-                        await this.app.vault.createFolder(folderPath);
-                    }
+                                const existingClip = this.app.vault.getAbstractFileByPath(clipPath);
+                                if (!existingClip) {
+                                    await this.app.vault.createBinary(clipPath, clipResponse.arrayBuffer);
+                                }
 
-                    // Find previous session's TrainingNotes for linear chain
-                    let previousSessionLink = '';
-                    if (episode > 1) {
-                        const prevFolderPath = `${this.plugin.settings.syncFolder}/Athletes/${athleteName}/Season ${season}/Session ${episode - 1}`;
-                        const prevFolder = this.app.vault.getAbstractFileByPath(prevFolderPath);
-                        if (prevFolder instanceof TFolder) {
-                            const prevFiles = prevFolder.children.filter(f => f instanceof TFile && f.name.startsWith('TrainingNotes-'));
-                            if (prevFiles.length > 0) {
-                                previousSessionLink = `\nprevious_session: "[[${(prevFiles[0] as TFile).basename}]]"`;
+                                // Build embed for this clip
+                                clipEmbeds.push(`#### ${clip.instructor} @ ${clip.timestamp}\n![[${clipPath}]]`);
+                            } catch (clipError) {
+                                console.error('Failed to download clip:', clipError);
                             }
                         }
+
+                        if (clipEmbeds.length > 0) {
+                            videoSection = `\n\n## Reference Video Clips\n\nThese clips show the actual techniques from the research sources. Watch them to see how the moves should look:\n\n${clipEmbeds.join('\n\n')}\n`;
+                        }
                     }
 
-                    // Add enhanced frontmatter for graph view
-                    // Note: coach_review link is added later when coach publishes review
-                    const enhancedContent = `---
-type: training-notes
-season: ${season}
-episode: ${episode}
-date: ${dateStr}
-focus: "${focus}"
-session_id: "${this.currentSessionId}"${previousSessionLink}
-tags: [bjj, training, season-${season}, ${focus.replace(/_/g, '-')}]
+                    // Get the research file name for linking
+                    let researchLink = '';
+                    if (this.savedFilePath) {
+                        const researchFileName = this.savedFilePath.split('/').pop()?.replace('.md', '') || '';
+                        researchLink = `> **Based on research:** [[${researchFileName}]]\n\n`;
+                    }
+
+                    // Add frontmatter, research link, content, and video section
+                    const planContent = `---
+topic: "${this.topic}"
+date: ${date}
+type: training-plan
+research: "${this.savedFilePath || ''}"
+clips: ${response.clips?.length || 0}
 ---
 
-${data.content}
-`;
+${researchLink}${response.markdown}${videoSection}`;
 
-                    // Save file
-                    const existingFile = this.app.vault.getAbstractFileByPath(fullPath);
+                    // Create or update file
+                    const existingFile = this.app.vault.getAbstractFileByPath(planFilename);
                     if (existingFile instanceof TFile) {
-                        await this.app.vault.modify(existingFile, enhancedContent);
+                        await this.app.vault.modify(existingFile, planContent);
                     } else {
-                        await this.app.vault.create(fullPath, enhancedContent);
+                        await this.app.vault.create(planFilename, planContent);
                     }
 
-                    // Increment episode for next session
-                    this.plugin.settings.currentEpisode = episode + 1;
-                    await this.plugin.saveSettings();
+                    // Open the file
+                    const file = this.app.vault.getAbstractFileByPath(planFilename);
+                    if (file instanceof TFile) {
+                        await this.app.workspace.getLeaf().openFile(file);
+                    }
 
-                    new Notice(`Session saved: ${baseFilename}`, 3000);
+                    const clipMsg = response.clips?.length ? ` with ${response.clips.length} video clips` : '';
+                    new Notice(`Training plan saved${clipMsg}`);
+                    planBtn.setText('TRAINING PLAN');
+                    planBtn.disabled = false;
                 } else {
-                    new Notice('Session ended', 3000);
+                    new Notice('Plan created but no content returned');
+                    planBtn.setText('TRAINING PLAN');
+                    planBtn.disabled = false;
                 }
             } catch (error) {
-                console.error('Error saving session:', error);
-                new Notice('Session ended (save failed)', 3000);
+                console.error('Plan error:', error);
+                new Notice('Failed to create plan');
+                planBtn.disabled = false;
+                planBtn.setText('TRAINING PLAN');
             }
+        };
 
-            this.close();
+        // View in vault button - only show if we have article content
+        const viewBtn = controlsContainer.createEl('button', { text: 'VIEW IN VAULT' });
+        viewBtn.style.padding = '12px 24px';
+        viewBtn.onclick = async () => {
+            if (this.savedFilePath) {
+                const file = this.app.vault.getAbstractFileByPath(this.savedFilePath);
+                if (file instanceof TFile) {
+                    await this.app.workspace.getLeaf().openFile(file);
+                    this.close();
+                }
+            } else {
+                new Notice('Still saving... please wait');
+            }
         };
+        } // End of articleContent conditional block
+
+        const closeBtn = controlsContainer.createEl('button', { text: 'CLOSE' });
+        closeBtn.style.padding = '12px 24px';
+        closeBtn.onclick = () => this.close();
+
+        // Start playing
+        if (this.sections.length > 0) {
+            this.playSection(0);
+        }
     }
 
-    showArticlePlayer(session: any) {
-        this.statusEl.setText('Here\'s your wisdom');
-        this.statusEl.style.color = 'var(--text-success)';
+    playSection(index: number) {
+        // Stop current audio if playing
+        if (this.currentAudio) {
+            this.currentAudio.pause();
+            this.currentAudio = null;
+        }
 
-        // Article title
-        const titleEl = this.resultEl.createEl('h3', {
-            text: session.research.topic || 'Your Research'
+        // Check if playback complete (all sections played)
+        if (index >= this.sections.length) {
+            this.isPlaying = false;
+            this.statusEl.setText('✓ Playback complete - click any section to replay');
+            // Mark all sections as complete
+            this.sectionItems.forEach((item) => {
+                const indicator = item.querySelector('.section-indicator') as HTMLElement;
+                indicator.setText('✓');
+                item.style.opacity = '1';
+                item.style.background = '';
+            });
+            return;
+        }
+
+        // Update UI
+        this.currentIndex = index;
+        this.sectionItems.forEach((item, i) => {
+            const indicator = item.querySelector('.section-indicator') as HTMLElement;
+            if (i < index) {
+                indicator.setText('✓');
+                item.style.opacity = '0.7';
+                item.style.background = '';
+            } else if (i === index) {
+                indicator.setText('▶');
+                item.style.background = 'var(--background-modifier-active-hover)';
+                item.style.opacity = '1';
+            } else {
+                indicator.setText('○');
+                item.style.background = '';
+                item.style.opacity = '1';
+            }
         });
-        titleEl.style.textAlign = 'center';
-        titleEl.style.marginBottom = '20px';
 
-        // Section audio player - clean list
-        const sectionsContainer = this.resultEl.createDiv({ cls: 'article-sections' });
-        sectionsContainer.style.background = 'var(--background-secondary)';
-        sectionsContainer.style.padding = '15px';
-        sectionsContainer.style.borderRadius = '12px';
-        sectionsContainer.style.marginBottom = '20px';
+        const section = this.sections[index];
+        this.statusEl.setText(`Playing: ${section.title}`);
+
+        // Play audio
+        const audioUrl = `${this.plugin.settings.serverUrl}${section.audio_url}`;
+        this.currentAudio = new Audio(audioUrl);
+        this.currentAudio.volume = this.volume;
+        this.isPlaying = true;
+
+        this.currentAudio.play().catch(err => {
+            console.error('Audio play error:', err);
+            this.statusEl.setText(`Error playing ${section.title} - click to retry`);
+        });
+
+        // Auto-advance to next section
+        this.currentAudio.onended = () => {
+            this.sectionItems[index].style.background = '';
+            this.playSection(index + 1);
+        };
+
+        // Handle audio errors
+        this.currentAudio.onerror = () => {
+            console.error('Audio load error for section:', section.title);
+            this.statusEl.setText(`Error loading audio - click section to retry`);
+        };
+    }
+
+    onClose() {
+        if (this.currentAudio) {
+            this.currentAudio.pause();
+            this.currentAudio = null;
+        }
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Coach Add Athlete Modal
+class CoachAddAthleteModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+
+    constructor(app: App, plugin: BJJFlipmodePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Add Athlete to Roster' });
+
+        let discordId = '';
+        let displayName = '';
+
+        new Setting(contentEl)
+            .setName('Discord ID')
+            .setDesc('The athlete\'s Discord user ID (18-digit number)')
+            .addText(text => text
+                .setPlaceholder('123456789012345678')
+                .onChange(value => discordId = value));
+
+        new Setting(contentEl)
+            .setName('Display Name')
+            .setDesc('Optional friendly name')
+            .addText(text => text
+                .setPlaceholder('John Doe')
+                .onChange(value => displayName = value));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Add Athlete')
+                .setCta()
+                .onClick(async () => {
+                    if (!discordId) {
+                        new Notice('Discord ID is required');
+                        return;
+                    }
+                    try {
+                        await this.plugin.coachClient!.addAthlete(discordId, displayName || undefined);
+                        new Notice('Athlete added to roster!');
+                        this.close();
+                    } catch (error) {
+                        new Notice('Failed to add athlete');
+                    }
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Athlete selection modal for sharing content
+interface AthleteSelectOptions {
+    // When set, the modal picks several athletes (checkboxes, belt/group shortcuts) instead of one
+    onSelectMany?: (athletes: Athlete[]) => void;
+    groups?: AthleteGroup[];
+    // Single-pick mode: groups are listed above athletes and picked as a whole
+    onSelectGroup?: (group: AthleteGroup, members: Athlete[]) => void;
+}
 
-        let currentAudio: HTMLAudioElement | null = null;
+class AthleteSelectModal extends Modal {
+    athletes: Athlete[];
+    onSelect: (athlete: Athlete) => void;
+    onSelectMany: ((athletes: Athlete[]) => void) | null;
+    groups: AthleteGroup[];
+    onSelectGroup: ((group: AthleteGroup, members: Athlete[]) => void) | null;
+    selected = new Set<number>();
+
+    constructor(app: App, athletes: Athlete[], onSelect: (athlete: Athlete) => void, options: AthleteSelectOptions = {}) {
+        super(app);
+        this.athletes = athletes;
+        this.onSelect = onSelect;
+        this.onSelectMany = options.onSelectMany || null;
+        this.groups = options.groups || [];
+        this.onSelectGroup = options.onSelectGroup || null;
+    }
 
-        for (const section of session.research.article_sections) {
-            const sectionDiv = sectionsContainer.createDiv({ cls: 'section-item' });
-            sectionDiv.style.display = 'flex';
-            sectionDiv.style.alignItems = 'center';
-            sectionDiv.style.gap = '12px';
-            sectionDiv.style.padding = '10px';
-            sectionDiv.style.cursor = 'pointer';
-            sectionDiv.style.borderRadius = '8px';
+    private members(group: AthleteGroup): Athlete[] {
+        return this.athletes.filter(a => group.athlete_ids.includes(a.id));
+    }
 
-            const playBtn = sectionDiv.createEl('span', { text: '▶' });
-            playBtn.style.fontSize = '1.2em';
-            playBtn.style.width = '24px';
+    private addRow(listEl: HTMLElement, onClick: () => void): HTMLElement {
+        const rowEl = listEl.createEl('div', { cls: 'athlete-select-item' });
+        rowEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; cursor: pointer; background: var(--background-secondary);';
+        rowEl.addEventListener('click', () => {
+            onClick();
+            this.close();
+        });
+        rowEl.addEventListener('mouseenter', () => {
+            rowEl.style.background = 'var(--background-modifier-hover)';
+        });
+        rowEl.addEventListener('mouseleave', () => {
+            rowEl.style.background = 'var(--background-secondary)';
+        });
+        return rowEl;
+    }
 
-            const titleEl = sectionDiv.createEl('span', { text: section.title });
-            titleEl.style.flex = '1';
-            titleEl.style.fontWeight = '500';
+    onOpen() {
+        if (this.onSelectMany) {
+            this.renderMulti();
+            return;
+        }
 
-            const audioUrl = `${this.plugin.settings.serverUrl}${section.audio_url}`;
-            const audio = new Audio(audioUrl);
+        const { contentEl } = this;
+        const withGroups = this.onSelectGroup && this.groups.length > 0;
+        contentEl.createEl('h2', { text: withGroups ? 'Select Athlete or Group' : 'Select Athlete' });
+        contentEl.createEl('p', { text: `Choose ${withGroups ? 'a group or an athlete' : 'an athlete'} to share this content with:` });
 
-            const playSection = () => {
-                if (currentAudio && currentAudio !== audio) {
-                    currentAudio.pause();
-                }
-                currentAudio = audio;
-                audio.play();
-                playBtn.setText('⏸');
-                sectionDiv.style.background = 'var(--background-modifier-active-hover)';
-            };
+        const listEl = contentEl.createEl('div', { cls: 'athlete-select-list' });
 
-            sectionDiv.onclick = playSection;
-            audio.onended = () => {
-                playBtn.setText('▶');
-                sectionDiv.style.background = '';
-            };
-            audio.onpause = () => {
-                playBtn.setText('▶');
-                sectionDiv.style.background = '';
-            };
+        if (withGroups) {
+            for (const group of this.groups) {
+                const members = this.members(group);
+                const groupEl = this.addRow(listEl, () => this.onSelectGroup!(group, members));
+                groupEl.createEl('strong', { text: group.name });
+                const countEl = groupEl.createEl('span', { text: ` · group of ${members.length}` });
+                countEl.style.color = 'var(--text-muted)';
+            }
         }
 
-        // Auto-play first section
-        if (session.research.article_sections.length > 0) {
-            const firstAudioUrl = `${this.plugin.settings.serverUrl}${session.research.article_sections[0].audio_url}`;
-            const firstAudio = new Audio(firstAudioUrl);
-            firstAudio.play().catch(() => {});
+        for (const athlete of this.athletes) {
+            this.renderName(this.addRow(listEl, () => this.onSelect(athlete)), athlete);
         }
 
-        // Action buttons - Dive Deeper prominently
-        const actionsContainer = this.resultEl.createDiv();
-        actionsContainer.style.display = 'flex';
-        actionsContainer.style.flexDirection = 'column';
-        actionsContainer.style.gap = '12px';
-        actionsContainer.style.marginTop = '20px';
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
 
-        // Dive Deeper - big button with voice record
-        const diveBtn = actionsContainer.createEl('button', {
-            text: 'DIVE DEEPER',
-            cls: 'mod-cta'
-        });
-        diveBtn.style.fontSize = '1.2em';
-        diveBtn.style.padding = '15px 30px';
-        diveBtn.onclick = () => {
-            this.statusEl.setText('Record a follow-up question...');
-            this.recordBtn.setText('RECORD FOLLOW-UP');
-            this.recordBtn.disabled = false;
-            this.recordBtn.style.display = 'inline-block';
-            // Scroll to record button
-            this.recordBtn.scrollIntoView({ behavior: 'smooth' });
+    renderMulti() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Select Athletes' });
+
+        // Shortcuts: everyone, or everyone at a belt
+        const belts = [...new Set(this.athletes.map(a => a.belt).filter((b): b is string => !!b))];
+        const shortcuts = contentEl.createDiv();
+        shortcuts.style.cssText = 'display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 10px;';
+        const addShortcut = (label: string, athletes: Athlete[]) => {
+            const btn = shortcuts.createEl('button', { text: `${label} (${athletes.length})` });
+            btn.onclick = () => {
+                const allSelected = athletes.every(a => this.selected.has(a.id));
+                athletes.forEach(a => allSelected ? this.selected.delete(a.id) : this.selected.add(a.id));
+                this.renderMulti();
+            };
         };
+        addShortcut('All', this.athletes);
+        for (const group of this.groups) {
+            addShortcut(group.name, this.members(group));
+        }
+        for (const belt of belts.sort()) {
+            addShortcut(`${belt.charAt(0).toUpperCase()}${belt.slice(1)} belts`, this.athletes.filter(a => a.belt === belt));
+        }
 
-        // Training Plan - secondary
-        const planBtn = actionsContainer.createEl('button', {
-            text: 'CREATE TRAINING PLAN'
-        });
-        planBtn.style.padding = '12px 24px';
-        planBtn.onclick = async () => {
-            planBtn.disabled = true;
-            planBtn.setText('Creating...');
-            try {
-                const topic = session.research?.topic || session.selected_topic?.name || 'Training';
-                const article = session.research?.article || session.research?.article_raw || '';
-                const response = await this.plugin.apiRequest('/training-plan', 'POST', {
-                    session_id: this.currentSessionId,
-                    user_id: this.plugin.settings.userId,
-                    topic: topic,
-                    article: article  // Pass article for training recommendations extraction
-                });
-
-                if (response.markdown) {
-                    // Save training plan to vault
-                    const cleanTopic = topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 40);
-                    const date = new Date().toISOString().split('T')[0];
-                    const filename = `${this.plugin.settings.syncFolder}/Plans/${date} - ${cleanTopic} Plan.md`;
-
-                    // Ensure folder exists
-                    const planFolder = `${this.plugin.settings.syncFolder}/Plans`;
-                    const folder = this.app.vault.getAbstractFileByPath(planFolder);
-                    if (!folder) {
-                        await this.app.vault.createFolder(planFolder);
-                    }
-
-                    // Create file
-                    const existingFile = this.app.vault.getAbstractFileByPath(filename);
-                    if (existingFile instanceof TFile) {
-                        await this.app.vault.modify(existingFile, response.markdown);
-                    } else {
-                        await this.app.vault.create(filename, response.markdown);
-                    }
-
-                    // Open the file
-                    const file = this.app.vault.getAbstractFileByPath(filename);
-                    if (file instanceof TFile) {
-                        await this.app.workspace.getLeaf().openFile(file);
-                    }
-
-                    new Notice(`Training plan saved to ${filename}`);
+        const listEl = contentEl.createEl('div', { cls: 'athlete-select-list' });
+        listEl.style.cssText = 'max-height: 320px; overflow-y: auto;';
+        for (const athlete of this.athletes) {
+            const row = listEl.createEl('label', { cls: 'athlete-select-item' });
+            row.style.cssText = 'display: flex; align-items: center; gap: 8px; padding: 8px 10px; margin: 4px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer;';
+            const box = row.createEl('input', { type: 'checkbox' });
+            box.checked = this.selected.has(athlete.id);
+            box.onchange = () => {
+                if (box.checked) {
+                    this.selected.add(athlete.id);
                 } else {
-                    new Notice('Plan created but no content returned');
+                    this.selected.delete(athlete.id);
                 }
-            } catch (error) {
-                console.error('Plan error:', error);
-                new Notice('Failed to create plan');
-                planBtn.disabled = false;
-                planBtn.setText('CREATE TRAINING PLAN');
-            }
-        };
+                sendBtn.setButtonText(this.sendLabel());
+            };
+            this.renderName(row.createDiv(), athlete);
+        }
 
-        // Hide record button initially
-        this.recordBtn.style.display = 'none';
+        let sendBtn: ButtonComponent;
+        new Setting(contentEl)
+            .addButton(btn => {
+                sendBtn = btn;
+                btn.setButtonText(this.sendLabel())
+                    .setCta()
+                    .onClick(() => {
+                        const chosen = this.athletes.filter(a => this.selected.has(a.id));
+                        if (chosen.length === 0) {
+                            new Notice('Select at least one athlete');
+                            return;
+                        }
+                        this.onSelectMany!(chosen);
+                        this.close();
+                    });
+            })
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
     }
 
-    blobToBase64(blob: Blob): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64 = (reader.result as string).split(',')[1];
-                resolve(base64);
-            };
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
+    private sendLabel(): string {
+        return `Send to ${this.selected.size} athlete${this.selected.size === 1 ? '' : 's'}`;
     }
 
-    onClose() {
-        // Stop recording if still active
-        if (this.isRecording && this.mediaRecorder) {
-            this.mediaRecorder.stop();
+    private renderName(el: HTMLElement, athlete: Athlete) {
+        const name = athlete.display_name || athlete.discord_username || `Athlete ${athlete.id}`;
+        el.createEl('strong', { text: name });
+
+        if (athlete.discord_username && athlete.discord_username !== name) {
+            el.createEl('span', {
+                text: ` (@${athlete.discord_username})`,
+                cls: 'athlete-discord-name'
+            });
         }
-        if (this.timerInterval) {
-            window.clearInterval(this.timerInterval);
+        if (athlete.belt) {
+            const beltEl = el.createEl('span', { text: ` · ${athlete.belt}` });
+            beltEl.style.color = 'var(--text-muted)';
         }
-        const { contentEl } = this;
-        contentEl.empty();
+    }
+
+    onClose() {
+        this.contentEl.empty();
     }
 }
 
-// Dive Deep Modal - for session-based follow-up research
-class DiveDeepModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    topic: string;
-    sessionContext: string;
-    rlmSessionId: string;
-    mediaRecorder: MediaRecorder | null = null;
-    audioChunks: Blob[] = [];
-    isRecording: boolean = false;
-    recordBtn: HTMLButtonElement;
-    statusEl: HTMLElement;
+// Create or edit an athlete group: name plus members
+class AthleteGroupModal extends Modal {
+    athletes: Athlete[];
+    group: AthleteGroup | null;
+    onSave: (name: string, athleteIds: number[]) => void;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, topic: string, sessionContext: string, rlmSessionId: string = '') {
+    constructor(app: App, athletes: Athlete[], group: AthleteGroup | null, onSave: (name: string, athleteIds: number[]) => void) {
         super(app);
-        this.plugin = plugin;
-        this.topic = topic;
-        this.sessionContext = sessionContext;
-        this.rlmSessionId = rlmSessionId;
+        this.athletes = athletes;
+        this.group = group;
+        this.onSave = onSave;
     }
 
     onOpen() {
         const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('flipmode-dive-deep-modal');
-
-        // Title
-        const titleEl = contentEl.createEl('h2', { text: 'Dive Deeper' });
-        titleEl.style.textAlign = 'center';
-
-        // Topic display
-        const topicEl = contentEl.createEl('p', { text: `Topic: ${this.topic}` });
-        topicEl.style.textAlign = 'center';
-        topicEl.style.color = 'var(--text-accent)';
-        topicEl.style.fontWeight = '600';
-
-        // Session context
-        const contextContainer = contentEl.createDiv();
-        contextContainer.style.background = 'var(--background-secondary)';
-        contextContainer.style.padding = '15px';
-        contextContainer.style.borderRadius = '8px';
-        contextContainer.style.marginBottom = '20px';
-        contextContainer.style.maxHeight = '150px';
-        contextContainer.style.overflowY = 'auto';
-
-        const contextLabel = contextContainer.createEl('p', { text: 'Session Notes:' });
-        contextLabel.style.fontWeight = '600';
-        contextLabel.style.marginBottom = '8px';
+        contentEl.createEl('h2', { text: this.group ? `Edit ${this.group.name}` : 'New Group' });
 
-        const contextText = contextContainer.createEl('p', { text: this.sessionContext });
-        contextText.style.fontSize = '0.9em';
-        contextText.style.whiteSpace = 'pre-wrap';
+        let name = this.group?.name || '';
+        const selected = new Set(this.group?.athlete_ids || []);
 
-        // Status
-        this.statusEl = contentEl.createEl('p', { text: 'Record your follow-up question' });
-        this.statusEl.style.textAlign = 'center';
-        this.statusEl.style.color = 'var(--text-muted)';
+        new Setting(contentEl)
+            .setName('Name')
+            .addText(text => text
+                .setPlaceholder('Comp Team')
+                .setValue(name)
+                .onChange(value => name = value));
 
-        // Record button
-        const btnContainer = contentEl.createDiv();
-        btnContainer.style.textAlign = 'center';
-        btnContainer.style.marginTop = '20px';
+        const listEl = contentEl.createDiv();
+        listEl.style.cssText = 'max-height: 320px; overflow-y: auto;';
+        for (const athlete of this.athletes) {
+            const row = listEl.createEl('label');
+            row.style.cssText = 'display: flex; align-items: center; gap: 8px; padding: 6px 10px; margin: 4px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer;';
+            const box = row.createEl('input', { type: 'checkbox' });
+            box.checked = selected.has(athlete.id);
+            box.onchange = () => {
+                if (box.checked) {
+                    selected.add(athlete.id);
+                } else {
+                    selected.delete(athlete.id);
+                }
+            };
+            row.createSpan({ text: athlete.display_name || athlete.discord_username || `Athlete ${athlete.id}` });
+            if (athlete.belt) row.createSpan({ text: `· ${athlete.belt}` }).style.color = 'var(--text-muted)';
+        }
 
-        this.recordBtn = btnContainer.createEl('button', { text: 'RECORD QUESTION', cls: 'mod-cta' });
-        this.recordBtn.style.padding = '16px 32px';
-        this.recordBtn.style.fontSize = '1.1em';
-        this.recordBtn.onclick = () => this.toggleRecording();
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => {
+                    if (!name.trim()) {
+                        new Notice('Give the group a name');
+                        return;
+                    }
+                    this.onSave(name.trim(), [...selected]);
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
     }
 
-    async toggleRecording() {
-        if (this.isRecording) {
-            await this.stopRecording();
-        } else {
-            await this.startRecording();
-        }
+    onClose() {
+        this.contentEl.empty();
     }
+}
 
-    async startRecording() {
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            this.audioChunks = [];
-            this.mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm;codecs=opus' });
+// Pick pending queries that one article should also answer; similar ones are listed first
+class LinkQueriesModal extends Modal {
+    query: string;
+    jobs: Job[];
+    onConfirm: (jobs: Job[]) => void;
+    selected = new Set<string>();
 
-            this.mediaRecorder.ondataavailable = (e) => {
-                if (e.data.size > 0) this.audioChunks.push(e.data);
-            };
+    constructor(app: App, query: string, jobs: Job[], onConfirm: (jobs: Job[]) => void) {
+        super(app);
+        this.query = query;
+        this.jobs = jobs;
+        this.onConfirm = onConfirm;
+    }
 
-            this.mediaRecorder.onstop = async () => {
-                stream.getTracks().forEach(t => t.stop());
-                await this.processRecording();
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Answer More Queries' });
+        const intro = contentEl.createEl('p', { text: `Same article for: "${this.query.substring(0, 120)}${this.query.length > 120 ? '...' : ''}"` });
+        intro.style.color = 'var(--text-muted)';
+
+        // Jobs grouped with this note's query come first
+        const groups = groupSimilarTexts([this.query, ...this.jobs.map(j => j.query_text)]);
+        const similar = new Set((groups.find(g => g.members.includes(0))?.members || []).filter(i => i > 0).map(i => i - 1));
+        const ordered = [...this.jobs.keys()].sort((a, b) => Number(similar.has(b)) - Number(similar.has(a)));
+
+        const listEl = contentEl.createDiv();
+        listEl.style.cssText = 'max-height: 360px; overflow-y: auto;';
+        for (const i of ordered) {
+            const job = this.jobs[i];
+            const row = listEl.createEl('label');
+            row.style.cssText = 'display: flex; gap: 8px; align-items: flex-start; padding: 8px 10px; margin: 4px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer;';
+            const box = row.createEl('input', { type: 'checkbox' });
+            box.checked = similar.has(i);
+            if (box.checked) this.selected.add(job.job_id);
+            box.onchange = () => {
+                if (box.checked) {
+                    this.selected.add(job.job_id);
+                } else {
+                    this.selected.delete(job.job_id);
+                }
             };
-
-            this.mediaRecorder.start();
-            this.isRecording = true;
-            this.recordBtn.setText('STOP');
-            this.recordBtn.style.background = 'var(--text-error)';
-            this.statusEl.setText('Recording... speak your question');
-        } catch (error) {
-            new Notice('Could not access microphone');
+            const body = row.createDiv();
+            body.createEl('strong', { text: job.athlete_name || 'Unknown' });
+            if (similar.has(i)) body.createSpan({ text: ' · similar' }).style.color = 'var(--text-accent)';
+            body.createDiv({ text: job.query_text.length > 140 ? job.query_text.substring(0, 140) + '...' : job.query_text });
         }
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Link selected')
+                .setCta()
+                .onClick(() => {
+                    const chosen = this.jobs.filter(j => this.selected.has(j.job_id));
+                    if (chosen.length === 0) {
+                        new Notice('Select at least one query');
+                        return;
+                    }
+                    this.onConfirm(chosen);
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
     }
 
-    async stopRecording() {
-        if (this.mediaRecorder && this.isRecording) {
-            this.mediaRecorder.stop();
-            this.isRecording = false;
-        }
+    onClose() {
+        this.contentEl.empty();
     }
+}
 
-    async processRecording() {
-        this.recordBtn.setText('PROCESSING...');
-        this.recordBtn.disabled = true;
-        this.statusEl.setText('Sending to Flipmode...');
+// Coach Select Modal - pick a coach to hand a query to
+class CoachSelectModal extends Modal {
+    coaches: Coach[];
+    onSelect: (coach: Coach) => void;
 
-        try {
-            const audioBlob = new Blob(this.audioChunks, { type: 'audio/webm' });
-            const base64Audio = await this.blobToBase64(audioBlob);
+    constructor(app: App, coaches: Coach[], onSelect: (coach: Coach) => void) {
+        super(app);
+        this.coaches = coaches;
+        this.onSelect = onSelect;
+    }
 
-            // Start new session with context pre-filled
-            const sessionResponse = await this.plugin.apiRequest('/session', 'POST', {
-                user_id: this.plugin.settings.userId
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Reassign Query' });
+        contentEl.createEl('p', { text: 'Choose the coach who should answer this query:' });
+
+        const listEl = contentEl.createEl('div', { cls: 'athlete-select-list' });
+
+        for (const coach of this.coaches) {
+            const coachEl = listEl.createEl('div', { cls: 'athlete-select-item' });
+            coachEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; cursor: pointer; background: var(--background-secondary);';
+            coachEl.createEl('strong', { text: coach.name });
+
+            coachEl.addEventListener('click', () => {
+                this.onSelect(coach);
+                this.close();
             });
 
-            // Send the audio with topic context
-            const response = await this.plugin.apiRequest('/respond', 'POST', {
-                session_id: sessionResponse.session_id,
-                audio_base64: base64Audio,
-                audio_format: 'webm',
-                context: `Follow-up on ${this.topic}. Session notes: ${this.sessionContext}`
+            coachEl.addEventListener('mouseenter', () => {
+                coachEl.style.background = 'var(--background-modifier-hover)';
+            });
+            coachEl.addEventListener('mouseleave', () => {
+                coachEl.style.background = 'var(--background-secondary)';
             });
+        }
 
-            new Notice('Researching in background...', 3000);
-            this.close();
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
 
-            // If we got a direct research response, handle it
-            if (response.research?.article_sections?.length > 0) {
-                const articleContent = response.research.article || response.research.article_raw || '';
-                const sources = response.research.sources || [];
-                // Open player - it will save the article with audio
-                const playerModal = new AudioPlayerModal(
-                    this.app,
-                    this.plugin,
-                    this.topic + ' - Follow-up',
-                    response.research.article_sections,
-                    sessionResponse.session_id,
-                    articleContent,
-                    sources
-                );
-                playerModal.open();
-            }
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-        } catch (error) {
-            console.error('Dive deep error:', error);
-            new Notice('Failed to process - try again');
-            this.recordBtn.setText('RECORD QUESTION');
-            this.recordBtn.disabled = false;
-        }
+// Thread Reply Modal - write a comment on a research discussion
+class ThreadReplyModal extends Modal {
+    title: string;
+    onSubmit: (text: string) => Promise<void>;
+
+    constructor(app: App, title: string, onSubmit: (text: string) => Promise<void>) {
+        super(app);
+        this.title = title;
+        this.onSubmit = onSubmit;
     }
 
-    blobToBase64(blob: Blob): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-        });
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: this.title });
+
+        const textarea = contentEl.createEl('textarea');
+        textarea.placeholder = 'Write your reply...';
+        textarea.style.cssText = `
+            width: 100%;
+            min-height: 120px;
+            padding: 10px;
+            border-radius: 8px;
+            border: 1px solid var(--background-modifier-border);
+            background: var(--background-primary);
+            color: var(--text-normal);
+            font-size: 14px;
+            resize: vertical;
+            margin-bottom: 15px;
+        `;
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Send')
+                .setCta()
+                .onClick(async () => {
+                    const text = textarea.value.trim();
+                    if (!text) {
+                        new Notice('Write a reply first');
+                        return;
+                    }
+                    btn.setDisabled(true);
+                    try {
+                        await this.onSubmit(text);
+                        this.close();
+                    } catch (error: any) {
+                        console.error('Reply error:', error);
+                        new Notice(`Failed to send reply: ${error.message}`);
+                        btn.setDisabled(false);
+                    }
+                }))
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
     }
 
     onClose() {
-        if (this.isRecording && this.mediaRecorder) {
-            this.mediaRecorder.stop();
-        }
-        const { contentEl } = this;
-        contentEl.empty();
+        this.contentEl.empty();
     }
 }
 
-// Auto-playing Audio Player Modal
-class AudioPlayerModal extends Modal {
+// Article Bibliography Modal - Shows ALL videos from an Oracle article
+class ArticleBibliographyModal extends Modal {
     plugin: BJJFlipmodePlugin;
-    topic: string;
-    sections: any[];
-    sessionId: string | null;
-    articleContent: string;
-    sources: any[];  // Video sources with timestamps
-    currentIndex: number = 0;
-    currentAudio: HTMLAudioElement | null = null;
-    isPlaying: boolean = false;
-    volume: number = 0.8;
-    statusEl: HTMLElement;
-    sectionItems: HTMLElement[] = [];
-    savedFilePath: string | null = null;
+    bibliographyData: any;
+    sourceFile: TFile;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, topic: string, sections: any[], sessionId?: string, articleContent?: string, sources?: any[]) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, bibliographyData: any, sourceFile: TFile) {
         super(app);
         this.plugin = plugin;
-        this.topic = topic;
-        this.sections = sections;
-        this.sessionId = sessionId || null;
-        this.articleContent = articleContent || '';
-        this.sources = sources || [];
+        this.bibliographyData = bibliographyData;
+        this.sourceFile = sourceFile;
     }
 
-    async saveResearchToVault(): Promise<string | null> {
-        if (!this.articleContent) {
-            return null;
+    onOpen() {
+        const { contentEl } = this;
+        const { bibliographyData } = this;
+
+        // Header
+        contentEl.createEl('h2', { text: 'Article Source Videos' });
+
+        // Original query
+        const queryEl = contentEl.createEl('div', { cls: 'original-query' });
+        queryEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px; border-left: 3px solid var(--interactive-accent);';
+        queryEl.createEl('p', {
+            text: `Original Question: "${bibliographyData.original_query}"`,
+            cls: 'query-text'
+        });
+
+        // Stats
+        const statsEl = contentEl.createEl('div', { cls: 'bibliography-stats' });
+        statsEl.style.cssText = 'margin-bottom: 15px; display: flex; gap: 15px;';
+        statsEl.createEl('span', { text: `📹 ${bibliographyData.total_videos} videos` });
+        statsEl.createEl('span', { text: `👤 ${bibliographyData.instructors.length} instructors` });
+
+        // Instructions
+        contentEl.createEl('p', {
+            text: 'Click any video to view its full concept cache with timestamps:',
+            cls: 'bibliography-instructions'
+        });
+
+        // Videos list - grouped by instructor
+        const listEl = contentEl.createEl('div', { cls: 'videos-list' });
+        listEl.style.cssText = 'max-height: 450px; overflow-y: auto;';
+
+        // Group videos by instructor
+        const byInstructor: { [key: string]: any[] } = {};
+        for (const video of bibliographyData.videos) {
+            const instructor = video.instructor || 'Unknown';
+            if (!byInstructor[instructor]) {
+                byInstructor[instructor] = [];
+            }
+            byInstructor[instructor].push(video);
         }
 
-        try {
-            const cleanTopic = this.topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
-            const date = new Date().toISOString().split('T')[0];
-            const baseFolder = this.plugin.settings.syncFolder;
-            const researchFolder = `${baseFolder}/Research`;
-            // Audio goes in topic-specific subfolder - keeps graph clean
-            const topicAudioFolder = `${researchFolder}/audio/${cleanTopic}`;
+        // Render each instructor group
+        for (const instructor of Object.keys(byInstructor).sort()) {
+            const groupEl = listEl.createEl('div', { cls: 'instructor-group' });
+            groupEl.style.cssText = 'margin-bottom: 15px;';
+
+            const headerEl = groupEl.createEl('h3', { text: `👤 ${instructor}` });
+            headerEl.style.cssText = 'margin: 10px 0 5px 0; font-size: 1.1em; color: var(--text-accent);';
+
+            for (const video of byInstructor[instructor]) {
+                const videoEl = groupEl.createEl('div', { cls: 'video-item' });
+                videoEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid var(--interactive-accent);';
+
+                // Title row
+                const titleRow = videoEl.createEl('div', { cls: 'title-row' });
+                titleRow.style.cssText = 'display: flex; justify-content: space-between; align-items: center;';
+
+                titleRow.createEl('strong', { text: video.video_title });
 
-            // Ensure folders exist
-            for (const folder of [baseFolder, researchFolder, `${researchFolder}/audio`, topicAudioFolder]) {
-                const existing = this.app.vault.getAbstractFileByPath(folder);
-                if (!existing) {
-                    await this.app.vault.createFolder(folder);
+                // Citations badge
+                const citationsBadge = titleRow.createEl('span', { cls: 'citations-badge' });
+                citationsBadge.style.cssText = 'background: var(--interactive-accent); color: white; padding: 2px 8px; border-radius: 10px; font-size: 0.8em;';
+                citationsBadge.textContent = `${video.citations_count} citation${video.citations_count !== 1 ? 's' : ''}`;
+
+                // Timestamps preview
+                if (video.timestamps && video.timestamps.length > 0) {
+                    const timestampsEl = videoEl.createEl('div', { cls: 'timestamps-preview' });
+                    timestampsEl.style.cssText = 'margin-top: 5px; font-size: 0.85em; color: var(--text-muted);';
+                    timestampsEl.textContent = `Timestamps: ${video.timestamps.slice(0, 5).join(', ')}${video.timestamps.length > 5 ? '...' : ''}`;
                 }
-            }
 
-            // Download audio files and build embed links
-            // Files named simply: 01-Core Thesis.mp3 (no topic prefix - folder provides context)
-            const audioEmbeds: string[] = [];
-            for (let i = 0; i < this.sections.length; i++) {
-                const section = this.sections[i];
-                const sectionNum = String(i + 1).padStart(2, '0');
-                const cleanSectionTitle = section.title.replace(/[\\/:*?"<>|]/g, '-').substring(0, 40);
-                const audioFilename = `${sectionNum}-${cleanSectionTitle}.mp3`;
-                const audioPath = `${topicAudioFolder}/${audioFilename}`;
+                // Click handler - open VideoExplorerModal with this video's concept cache
+                videoEl.addEventListener('click', async () => {
+                    videoEl.style.background = 'var(--background-modifier-hover)';
+                    titleRow.createEl('span', { text: ' Loading...', cls: 'loading-text' });
 
-                try {
-                    // Download audio from server
-                    const audioUrl = `${this.plugin.settings.serverUrl}${section.audio_url}`;
-                    const response = await fetch(audioUrl, {
-                        headers: {
-                            'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                        }
-                    });
+                    try {
+                        // Get the full concept cache for this video
+                        const response = await requestUrl({
+                            url: `${this.plugin.settings.serverUrl}/api/obsidian/explore-video`,
+                            method: 'POST',
+                            headers: {
+                                'Content-Type': 'application/json',
+                                'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                            },
+                            body: JSON.stringify({
+                                video_id: video.video_id,
+                                concept: video.video_title  // Use video title as fallback
+                            })
+                        });
 
-                    if (response.ok) {
-                        const audioBlob = await response.blob();
-                        const arrayBuffer = await audioBlob.arrayBuffer();
+                        const data = response.json;
 
-                        // Save to vault
-                        const existingAudio = this.app.vault.getAbstractFileByPath(audioPath);
-                        if (existingAudio instanceof TFile) {
-                            await this.app.vault.modifyBinary(existingAudio, arrayBuffer);
-                        } else {
-                            await this.app.vault.createBinary(audioPath, arrayBuffer);
+                        if (data.error) {
+                            new Notice(`Could not load concept cache for this video`, 3000);
+                            videoEl.style.background = 'var(--background-secondary)';
+                            const loadingText = videoEl.querySelector('.loading-text');
+                            if (loadingText) loadingText.remove();
+                            return;
                         }
 
-                        // Use full path for embed so Obsidian finds it correctly
-                        audioEmbeds.push(`### ${section.title}\n![[${audioPath}]]`);
-                    }
-                } catch (err) {
-                    console.error(`Failed to download audio for section ${i}:`, err);
-                    audioEmbeds.push(`### ${section.title}\n*Audio not available*`);
-                }
-            }
-
-            // Build markdown content with audio embeds
-            const markdownContent = `---
-topic: "${this.topic}"
-date: ${date}
-type: research
----
+                        // Close bibliography and open video explorer
+                        this.close();
+                        const modal = new VideoExplorerModal(
+                            this.app,
+                            this.plugin,
+                            data,
+                            this.sourceFile
+                        );
+                        modal.open();
 
-# ${this.topic}
+                    } catch (error: any) {
+                        new Notice(`Failed to load: ${error.message}`, 3000);
+                        videoEl.style.background = 'var(--background-secondary)';
+                        const loadingText = videoEl.querySelector('.loading-text');
+                        if (loadingText) loadingText.remove();
+                    }
+                });
 
-${this.articleContent}
+                // Hover effects
+                videoEl.addEventListener('mouseenter', () => {
+                    videoEl.style.background = 'var(--background-modifier-hover)';
+                });
+                videoEl.addEventListener('mouseleave', () => {
+                    videoEl.style.background = 'var(--background-secondary)';
+                });
+            }
+        }
 
----
+        // Footer
+        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+        footerEl.style.cssText = 'margin-top: 20px; display: flex; gap: 10px;';
 
-## 🎧 Audio Sections
+        new Setting(footerEl)
+            .addButton(btn => btn
+                .setButtonText('Close')
+                .onClick(() => this.close()));
+    }
 
-${audioEmbeds.join('\n\n')}
-`;
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-            // Save markdown file
-            const filename = `${researchFolder}/${date} - ${cleanTopic}.md`;
-            const existingFile = this.app.vault.getAbstractFileByPath(filename);
-            if (existingFile instanceof TFile) {
-                await this.app.vault.modify(existingFile, markdownContent);
-            } else {
-                await this.app.vault.create(filename, markdownContent);
-            }
+// Catalog Browser Modal - Browse full video catalog and select for cross-reference
+class CatalogBrowserModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    concept: string;
+    conceptContext: string;
+    sourceFile: TFile;
+    selectedVideos: Set<string> = new Set();
+    catalogData: any = null;
 
-            this.savedFilePath = filename;
-            return filename;
-        } catch (error) {
-            console.error('Error saving research to vault:', error);
-            return null;
-        }
+    constructor(app: App, plugin: BJJFlipmodePlugin, concept: string, conceptContext: string, sourceFile: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.concept = concept;
+        this.conceptContext = conceptContext;
+        this.sourceFile = sourceFile;
     }
 
     async onOpen() {
         const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('flipmode-audio-player');
-
-        // Title - use the actual topic
-        const titleEl = contentEl.createEl('h2', { text: this.topic || 'Research' });
-        titleEl.style.textAlign = 'center';
-        titleEl.style.marginBottom = '10px';
 
-        // Status
-        this.statusEl = contentEl.createEl('p', { text: this.articleContent ? 'Saving to vault...' : 'Ready to play' });
-        this.statusEl.style.textAlign = 'center';
-        this.statusEl.style.color = 'var(--text-muted)';
-        this.statusEl.style.marginBottom = '20px';
+        // Header
+        contentEl.createEl('h2', { text: 'Cross-Reference Research' });
 
-        // Auto-save research to vault in background (only if we have article content)
-        if (this.articleContent) {
-            this.saveResearchToVault().then(savedPath => {
-                if (savedPath) {
-                    new Notice(`Research saved to ${savedPath}`, 3000);
-                }
-            });
+        // Concept info
+        const conceptEl = contentEl.createEl('div', { cls: 'concept-info' });
+        conceptEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px; border-left: 3px solid var(--interactive-accent);';
+        conceptEl.createEl('p', { text: `Concept: "${this.concept}"` });
+        if (this.conceptContext) {
+            conceptEl.createEl('p', { text: `Context: ${this.conceptContext}`, cls: 'context-text' });
         }
 
-        // Sections list
-        const sectionsContainer = contentEl.createDiv({ cls: 'audio-sections' });
-        sectionsContainer.style.background = 'var(--background-secondary)';
-        sectionsContainer.style.padding = '15px';
-        sectionsContainer.style.borderRadius = '12px';
-        sectionsContainer.style.marginBottom = '20px';
-        sectionsContainer.style.maxHeight = '300px';
-        sectionsContainer.style.overflowY = 'auto';
+        // Loading indicator
+        const loadingEl = contentEl.createEl('div', { cls: 'loading', text: 'Loading video catalog...' });
+        loadingEl.style.cssText = 'padding: 20px; text-align: center;';
 
-        this.sections.forEach((section, index) => {
-            const sectionDiv = sectionsContainer.createDiv({ cls: 'section-item' });
-            sectionDiv.style.display = 'flex';
-            sectionDiv.style.alignItems = 'center';
-            sectionDiv.style.gap = '12px';
-            sectionDiv.style.padding = '10px';
-            sectionDiv.style.borderRadius = '8px';
-            sectionDiv.style.cursor = 'pointer';
+        try {
+            // Fetch catalog
+            const response = await requestUrl({
+                url: `${this.plugin.settings.serverUrl}/api/obsidian/catalog`,
+                method: 'GET',
+                headers: {
+                    'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                }
+            });
 
-            const indicator = sectionDiv.createEl('span', { text: '○' });
-            indicator.style.fontSize = '1em';
-            indicator.style.width = '20px';
-            indicator.addClass('section-indicator');
+            this.catalogData = response.json;
+            loadingEl.remove();
 
-            const titleSpan = sectionDiv.createEl('span', { text: section.title });
-            titleSpan.style.flex = '1';
+            // Instructions
+            contentEl.createEl('p', {
+                text: `Select videos to cross-reference (${this.catalogData.total_videos} available):`,
+                cls: 'catalog-instructions'
+            });
 
-            sectionDiv.onclick = () => this.playSection(index);
-            this.sectionItems.push(sectionDiv);
-        });
+            // Selected count display
+            const selectedCountEl = contentEl.createEl('div', { cls: 'selected-count' });
+            selectedCountEl.style.cssText = 'margin-bottom: 10px; font-weight: bold; color: var(--text-accent);';
+            selectedCountEl.textContent = '0 videos selected';
 
-        // Controls
-        const controlsContainer = contentEl.createDiv();
-        controlsContainer.style.display = 'flex';
-        controlsContainer.style.justifyContent = 'center';
-        controlsContainer.style.alignItems = 'center';
-        controlsContainer.style.gap = '10px';
-        controlsContainer.style.marginTop = '20px';
+            // Search filter
+            const searchEl = contentEl.createEl('input', { type: 'text', placeholder: 'Filter instructors/series...' });
+            searchEl.style.cssText = 'width: 100%; padding: 8px; margin-bottom: 10px; border-radius: 5px; border: 1px solid var(--background-modifier-border);';
 
-        // Transport controls container (prev/pause/next)
-        const transportControls = controlsContainer.createDiv();
-        transportControls.style.display = 'flex';
-        transportControls.style.alignItems = 'center';
-        transportControls.style.gap = '5px';
-        transportControls.style.background = 'var(--background-secondary)';
-        transportControls.style.borderRadius = '25px';
-        transportControls.style.padding = '5px 10px';
+            // Catalog list
+            const listEl = contentEl.createEl('div', { cls: 'catalog-list' });
+            listEl.style.cssText = 'max-height: 350px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 5px; padding: 10px;';
 
-        // Previous button
-        const prevBtn = transportControls.createEl('button', { text: '⏮' });
-        prevBtn.style.padding = '10px 15px';
-        prevBtn.style.fontSize = '1.2em';
-        prevBtn.style.border = 'none';
-        prevBtn.style.background = 'transparent';
-        prevBtn.style.cursor = 'pointer';
-        prevBtn.title = 'Previous section';
-        prevBtn.onclick = () => {
-            if (this.currentIndex > 0) {
-                this.playSection(this.currentIndex - 1);
-            }
-        };
+            const updateSelectedCount = () => {
+                selectedCountEl.textContent = `${this.selectedVideos.size} videos selected`;
+            };
 
-        // Pause/Play button
-        const pauseBtn = transportControls.createEl('button', { text: '⏸' });
-        pauseBtn.style.padding = '10px 20px';
-        pauseBtn.style.fontSize = '1.4em';
-        pauseBtn.style.border = 'none';
-        pauseBtn.style.background = 'var(--interactive-accent)';
-        pauseBtn.style.color = 'var(--text-on-accent)';
-        pauseBtn.style.borderRadius = '50%';
-        pauseBtn.style.width = '50px';
-        pauseBtn.style.height = '50px';
-        pauseBtn.style.cursor = 'pointer';
-        pauseBtn.title = 'Pause/Resume';
-        pauseBtn.onclick = () => {
-            if (this.currentAudio) {
-                if (this.isPlaying) {
-                    this.currentAudio.pause();
-                    pauseBtn.setText('▶');
-                    this.isPlaying = false;
-                } else {
-                    this.currentAudio.play();
-                    pauseBtn.setText('⏸');
-                    this.isPlaying = true;
-                }
-            }
-        };
+            const renderCatalog = (filter: string = '') => {
+                listEl.empty();
+                const filterLower = filter.toLowerCase();
 
-        // Next button
-        const nextBtn = transportControls.createEl('button', { text: '⏭' });
-        nextBtn.style.padding = '10px 15px';
-        nextBtn.style.fontSize = '1.2em';
-        nextBtn.style.border = 'none';
-        nextBtn.style.background = 'transparent';
-        nextBtn.style.cursor = 'pointer';
-        nextBtn.title = 'Next section';
-        nextBtn.onclick = () => {
-            if (this.currentIndex < this.sections.length - 1) {
-                this.playSection(this.currentIndex + 1);
-            }
-        };
+                for (const instructor of this.catalogData.instructors) {
+                    // Check if instructor matches filter
+                    const instructorMatches = instructor.name.toLowerCase().includes(filterLower);
+                    const matchingSeries = instructor.series.filter((s: any) =>
+                        instructorMatches || s.name.toLowerCase().includes(filterLower)
+                    );
 
-        // Volume control
-        const volumeContainer = controlsContainer.createDiv();
-        volumeContainer.style.display = 'flex';
-        volumeContainer.style.alignItems = 'center';
-        volumeContainer.style.gap = '8px';
+                    if (matchingSeries.length === 0 && !instructorMatches) continue;
 
-        const volumeIcon = volumeContainer.createEl('span', { text: '🔊' });
-        volumeIcon.style.fontSize = '1.2em';
+                    // Instructor group
+                    const groupEl = listEl.createEl('div', { cls: 'instructor-group' });
+                    groupEl.style.cssText = 'margin-bottom: 10px;';
 
-        const volumeSlider = volumeContainer.createEl('input') as HTMLInputElement;
-        volumeSlider.type = 'range';
-        volumeSlider.min = '0';
-        volumeSlider.max = '100';
-        volumeSlider.value = String(this.volume * 100);
-        volumeSlider.style.width = '80px';
-        volumeSlider.style.cursor = 'pointer';
-        volumeSlider.oninput = () => {
-            this.volume = parseInt(volumeSlider.value) / 100;
-            if (this.currentAudio) {
-                this.currentAudio.volume = this.volume;
-            }
-            // Update icon based on volume
-            if (this.volume === 0) {
-                volumeIcon.setText('🔇');
-            } else if (this.volume < 0.5) {
-                volumeIcon.setText('🔉');
-            } else {
-                volumeIcon.setText('🔊');
-            }
-        };
+                    // Instructor header with expand/collapse
+                    const headerEl = groupEl.createEl('div', { cls: 'instructor-header' });
+                    headerEl.style.cssText = 'display: flex; align-items: center; gap: 8px; cursor: pointer; padding: 5px; background: var(--background-secondary); border-radius: 3px;';
 
-        // Training Plan button - only show if we have article content
-        if (!this.articleContent) {
-            // Skip training plan button when opened from TrainingReview
-        } else {
-        const planBtn = controlsContainer.createEl('button', { text: 'TRAINING PLAN' });
-        planBtn.style.padding = '12px 24px';
-        planBtn.onclick = async () => {
-            planBtn.disabled = true;
-            planBtn.setText('Creating plan...');
-            try {
-                // Pass sources to extract video clips for drills
-                const response = await this.plugin.apiRequest('/training-plan', 'POST', {
-                    session_id: this.sessionId,
-                    user_id: this.plugin.settings.userId,
-                    topic: this.topic,
-                    article: this.articleContent,
-                    sources: this.sources,  // Pass sources for video clip extraction
-                    include_video_refs: true
-                });
+                    const expandIcon = headerEl.createEl('span', { text: '▶' });
+                    expandIcon.style.cssText = 'font-size: 0.8em; transition: transform 0.2s;';
 
-                if (response.markdown) {
-                    // Save training plan to vault
-                    const cleanTopic = this.topic.replace(/[\\/:*?"<>|]/g, '-').substring(0, 40);
-                    const date = new Date().toISOString().split('T')[0];
-                    const planFilename = `${this.plugin.settings.syncFolder}/Plans/${date} - ${cleanTopic} Plan.md`;
+                    // Select all checkbox for instructor
+                    const instructorCheckbox = headerEl.createEl('input', { type: 'checkbox' });
+                    instructorCheckbox.style.cssText = 'margin-right: 5px;';
 
-                    // Ensure folders exist
-                    const planFolder = `${this.plugin.settings.syncFolder}/Plans`;
-                    const folder = this.app.vault.getAbstractFileByPath(planFolder);
-                    if (!folder) {
-                        await this.app.vault.createFolder(planFolder);
-                    }
+                    headerEl.createEl('strong', { text: `${instructor.name} (${instructor.video_count})` });
 
-                    // Create clips folder hierarchy for this plan
-                    const clipsBaseFolder = `${planFolder}/clips`;
-                    const clipsBaseFolderObj = this.app.vault.getAbstractFileByPath(clipsBaseFolder);
-                    if (!clipsBaseFolderObj) {
-                        await this.app.vault.createFolder(clipsBaseFolder);
-                    }
-                    const clipsFolder = `${clipsBaseFolder}/${cleanTopic}`;
-                    const clipsFolderObj = this.app.vault.getAbstractFileByPath(clipsFolder);
-                    if (!clipsFolderObj) {
-                        await this.app.vault.createFolder(clipsFolder);
-                    }
+                    // Series container (collapsible)
+                    const seriesContainer = groupEl.createEl('div', { cls: 'series-container' });
+                    seriesContainer.style.cssText = 'display: none; margin-left: 20px; margin-top: 5px;';
 
-                    // Download and save video clips if any were extracted
-                    let videoSection = '';
-                    if (response.clips && response.clips.length > 0) {
-                        planBtn.setText(`Downloading ${response.clips.length} clips...`);
-                        const clipEmbeds: string[] = [];
+                    // Toggle expand/collapse
+                    headerEl.addEventListener('click', (e) => {
+                        if (e.target === instructorCheckbox) return;
+                        const isExpanded = seriesContainer.style.display !== 'none';
+                        seriesContainer.style.display = isExpanded ? 'none' : 'block';
+                        expandIcon.style.transform = isExpanded ? '' : 'rotate(90deg)';
+                    });
 
-                        for (const clip of response.clips) {
-                            try {
-                                // Download clip from API
-                                const clipResponse = await requestUrl({
-                                    url: `${this.plugin.settings.serverUrl}${clip.clip_url}`,
-                                    method: 'GET',
-                                    headers: {
-                                        'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                                    }
-                                });
+                    // Render series
+                    const seriesToRender = instructorMatches ? instructor.series : matchingSeries;
+                    for (const series of seriesToRender) {
+                        const seriesEl = seriesContainer.createEl('div', { cls: 'series-item' });
+                        seriesEl.style.cssText = 'margin: 5px 0; padding: 5px; border-left: 2px solid var(--background-modifier-border);';
 
-                                // Save clip to vault (skip if already exists)
-                                const clipFilename = `${clip.instructor.replace(/[\\/:*?"<>|]/g, '-')} - ${clip.timestamp.replace(/:/g, '-')}.mp4`;
-                                const clipPath = `${clipsFolder}/${clipFilename}`;
+                        // Series header
+                        const seriesHeader = seriesEl.createEl('div', { cls: 'series-header' });
+                        seriesHeader.style.cssText = 'display: flex; align-items: center; gap: 5px;';
 
-                                const existingClip = this.app.vault.getAbstractFileByPath(clipPath);
-                                if (!existingClip) {
-                                    await this.app.vault.createBinary(clipPath, clipResponse.arrayBuffer);
-                                }
+                        const seriesCheckbox = seriesHeader.createEl('input', { type: 'checkbox' });
+                        seriesHeader.createEl('span', { text: `${series.name} (${series.video_count})` });
 
-                                // Build embed for this clip
-                                clipEmbeds.push(`#### ${clip.instructor} @ ${clip.timestamp}\n![[${clipPath}]]`);
-                            } catch (clipError) {
-                                console.error('Failed to download clip:', clipError);
-                            }
-                        }
+                        // Individual videos
+                        const videosEl = seriesEl.createEl('div', { cls: 'videos-list' });
+                        videosEl.style.cssText = 'margin-left: 20px; font-size: 0.9em;';
 
-                        if (clipEmbeds.length > 0) {
-                            videoSection = `\n\n## Reference Video Clips\n\nThese clips show the actual techniques from the research sources. Watch them to see how the moves should look:\n\n${clipEmbeds.join('\n\n')}\n`;
-                        }
-                    }
+                        const videoCheckboxes: HTMLInputElement[] = [];
 
-                    // Get the research file name for linking
-                    let researchLink = '';
-                    if (this.savedFilePath) {
-                        const researchFileName = this.savedFilePath.split('/').pop()?.replace('.md', '') || '';
-                        researchLink = `> **Based on research:** [[${researchFileName}]]\n\n`;
-                    }
+                        for (const video of series.videos) {
+                            const videoEl = videosEl.createEl('div', { cls: 'video-item' });
+                            videoEl.style.cssText = 'display: flex; align-items: center; gap: 5px; padding: 2px 0;';
 
-                    // Add frontmatter, research link, content, and video section
-                    const planContent = `---
-topic: "${this.topic}"
-date: ${date}
-type: training-plan
-research: "${this.savedFilePath || ''}"
-clips: ${response.clips?.length || 0}
----
+                            const videoCheckbox = videoEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+                            videoCheckbox.dataset.videoId = video.video_id;
+                            videoCheckboxes.push(videoCheckbox);
 
-${researchLink}${response.markdown}${videoSection}`;
+                            if (this.selectedVideos.has(video.video_id)) {
+                                videoCheckbox.checked = true;
+                            }
 
-                    // Create or update file
-                    const existingFile = this.app.vault.getAbstractFileByPath(planFilename);
-                    if (existingFile instanceof TFile) {
-                        await this.app.vault.modify(existingFile, planContent);
-                    } else {
-                        await this.app.vault.create(planFilename, planContent);
-                    }
+                            videoCheckbox.addEventListener('change', () => {
+                                if (videoCheckbox.checked) {
+                                    this.selectedVideos.add(video.video_id);
+                                } else {
+                                    this.selectedVideos.delete(video.video_id);
+                                }
+                                updateSelectedCount();
+                            });
 
-                    // Open the file
-                    const file = this.app.vault.getAbstractFileByPath(planFilename);
-                    if (file instanceof TFile) {
-                        await this.app.workspace.getLeaf().openFile(file);
+                            const volText = video.volume ? ` (Vol ${video.volume})` : '';
+                            videoEl.createEl('span', { text: video.title + volText });
+                        }
+
+                        // Series checkbox selects all videos in series
+                        seriesCheckbox.addEventListener('change', () => {
+                            for (const cb of videoCheckboxes) {
+                                cb.checked = seriesCheckbox.checked;
+                                if (seriesCheckbox.checked) {
+                                    this.selectedVideos.add(cb.dataset.videoId!);
+                                } else {
+                                    this.selectedVideos.delete(cb.dataset.videoId!);
+                                }
+                            }
+                            updateSelectedCount();
+                        });
                     }
 
-                    const clipMsg = response.clips?.length ? ` with ${response.clips.length} video clips` : '';
-                    new Notice(`Training plan saved${clipMsg}`);
-                    planBtn.setText('TRAINING PLAN');
-                    planBtn.disabled = false;
-                } else {
-                    new Notice('Plan created but no content returned');
-                    planBtn.setText('TRAINING PLAN');
-                    planBtn.disabled = false;
+                    // Instructor checkbox selects all series
+                    instructorCheckbox.addEventListener('change', () => {
+                        const allCheckboxes = seriesContainer.querySelectorAll('input[type="checkbox"]') as NodeListOf<HTMLInputElement>;
+                        allCheckboxes.forEach(cb => {
+                            cb.checked = instructorCheckbox.checked;
+                            if (cb.dataset.videoId) {
+                                if (instructorCheckbox.checked) {
+                                    this.selectedVideos.add(cb.dataset.videoId);
+                                } else {
+                                    this.selectedVideos.delete(cb.dataset.videoId);
+                                }
+                            }
+                        });
+                        updateSelectedCount();
+                    });
                 }
-            } catch (error) {
-                console.error('Plan error:', error);
-                new Notice('Failed to create plan');
-                planBtn.disabled = false;
-                planBtn.setText('TRAINING PLAN');
-            }
-        };
+            };
 
-        // View in vault button - only show if we have article content
-        const viewBtn = controlsContainer.createEl('button', { text: 'VIEW IN VAULT' });
-        viewBtn.style.padding = '12px 24px';
-        viewBtn.onclick = async () => {
-            if (this.savedFilePath) {
-                const file = this.app.vault.getAbstractFileByPath(this.savedFilePath);
-                if (file instanceof TFile) {
-                    await this.app.workspace.getLeaf().openFile(file);
-                    this.close();
-                }
-            } else {
-                new Notice('Still saving... please wait');
-            }
-        };
-        } // End of articleContent conditional block
+            renderCatalog();
 
-        const closeBtn = controlsContainer.createEl('button', { text: 'CLOSE' });
-        closeBtn.style.padding = '12px 24px';
-        closeBtn.onclick = () => this.close();
+            // Filter handler
+            searchEl.addEventListener('input', () => {
+                renderCatalog(searchEl.value);
+            });
 
-        // Start playing
-        if (this.sections.length > 0) {
-            this.playSection(0);
-        }
-    }
+            // Footer
+            const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+            footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
 
-    playSection(index: number) {
-        // Stop current audio if playing
-        if (this.currentAudio) {
-            this.currentAudio.pause();
-            this.currentAudio = null;
-        }
+            new Setting(footerEl)
+                .addButton(btn => btn
+                    .setButtonText('Run Cross-Reference')
+                    .setCta()
+                    .onClick(async () => {
+                        if (this.selectedVideos.size === 0) {
+                            new Notice('Select at least one video to cross-reference');
+                            return;
+                        }
 
-        // Check if playback complete (all sections played)
-        if (index >= this.sections.length) {
-            this.isPlaying = false;
-            this.statusEl.setText('✓ Playback complete - click any section to replay');
-            // Mark all sections as complete
-            this.sectionItems.forEach((item) => {
-                const indicator = item.querySelector('.section-indicator') as HTMLElement;
-                indicator.setText('✓');
-                item.style.opacity = '1';
-                item.style.background = '';
-            });
-            return;
-        }
+                        btn.setButtonText('Researching...');
+                        btn.setDisabled(true);
 
-        // Update UI
-        this.currentIndex = index;
-        this.sectionItems.forEach((item, i) => {
-            const indicator = item.querySelector('.section-indicator') as HTMLElement;
-            if (i < index) {
-                indicator.setText('✓');
-                item.style.opacity = '0.7';
-                item.style.background = '';
-            } else if (i === index) {
-                indicator.setText('▶');
-                item.style.background = 'var(--background-modifier-active-hover)';
-                item.style.opacity = '1';
-            } else {
-                indicator.setText('○');
-                item.style.background = '';
-                item.style.opacity = '1';
-            }
-        });
+                        try {
+                            const response = await requestUrl({
+                                url: `${this.plugin.settings.serverUrl}/api/obsidian/cross-reference`,
+                                method: 'POST',
+                                headers: {
+                                    'Content-Type': 'application/json',
+                                    'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                                },
+                                body: JSON.stringify({
+                                    concept: this.concept,
+                                    concept_context: this.conceptContext,
+                                    video_ids: Array.from(this.selectedVideos)
+                                })
+                            });
 
-        const section = this.sections[index];
-        this.statusEl.setText(`Playing: ${section.title}`);
+                            const data = response.json;
 
-        // Play audio
-        const audioUrl = `${this.plugin.settings.serverUrl}${section.audio_url}`;
-        this.currentAudio = new Audio(audioUrl);
-        this.currentAudio.volume = this.volume;
-        this.isPlaying = true;
+                            if (data.error) {
+                                new Notice(`Error: ${data.error}`);
+                                btn.setButtonText('Run Cross-Reference');
+                                btn.setDisabled(false);
+                                return;
+                            }
 
-        this.currentAudio.play().catch(err => {
-            console.error('Audio play error:', err);
-            this.statusEl.setText(`Error playing ${section.title} - click to retry`);
-        });
+                            // Show results in new modal
+                            this.close();
+                            const resultsModal = new CrossReferenceResultsModal(
+                                this.app,
+                                this.plugin,
+                                data,
+                                this.sourceFile
+                            );
+                            resultsModal.open();
 
-        // Auto-advance to next section
-        this.currentAudio.onended = () => {
-            this.sectionItems[index].style.background = '';
-            this.playSection(index + 1);
-        };
+                        } catch (error: any) {
+                            new Notice(`Failed: ${error.message}`);
+                            btn.setButtonText('Run Cross-Reference');
+                            btn.setDisabled(false);
+                        }
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('Cancel')
+                    .onClick(() => this.close()));
 
-        // Handle audio errors
-        this.currentAudio.onerror = () => {
-            console.error('Audio load error for section:', section.title);
-            this.statusEl.setText(`Error loading audio - click section to retry`);
-        };
+        } catch (error: any) {
+            loadingEl.textContent = `Failed to load catalog: ${error.message}`;
+        }
     }
 
     onClose() {
-        if (this.currentAudio) {
-            this.currentAudio.pause();
-            this.currentAudio = null;
-        }
-        const { contentEl } = this;
-        contentEl.empty();
+        this.contentEl.empty();
     }
 }
 
-// Coach Add Athlete Modal
-class CoachAddAthleteModal extends Modal {
+// Cross-Reference Results Modal
+class CrossReferenceResultsModal extends Modal {
     plugin: BJJFlipmodePlugin;
+    resultsData: any;
+    sourceFile: TFile;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, resultsData: any, sourceFile: TFile) {
         super(app);
         this.plugin = plugin;
+        this.resultsData = resultsData;
+        this.sourceFile = sourceFile;
     }
 
     onOpen() {
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Add Athlete to Roster' });
+        const { resultsData } = this;
 
-        let discordId = '';
-        let displayName = '';
+        // Header
+        contentEl.createEl('h2', { text: '📊 Cross-Reference Results' });
 
-        new Setting(contentEl)
-            .setName('Discord ID')
-            .setDesc('The athlete\'s Discord user ID (18-digit number)')
-            .addText(text => text
-                .setPlaceholder('123456789012345678')
-                .onChange(value => discordId = value));
+        // Stats
+        const statsEl = contentEl.createEl('div', { cls: 'results-stats' });
+        statsEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        statsEl.createEl('p', { text: `Concept: "${resultsData.concept}"` });
+        statsEl.createEl('p', { text: `📹 ${resultsData.videos_analyzed} videos analyzed` });
+        statsEl.createEl('p', { text: `🧠 ${resultsData.thinkers_used} thinker perspectives used` });
+
+        // Sources used
+        const sourcesEl = contentEl.createEl('div', { cls: 'sources-used' });
+        sourcesEl.style.cssText = 'margin-bottom: 15px;';
+        sourcesEl.createEl('h4', { text: 'Sources Cross-Referenced:' });
+        const sourcesList = sourcesEl.createEl('ul');
+        for (const src of resultsData.sources) {
+            sourcesList.createEl('li', { text: `${src.instructor} - ${src.video_name}` });
+        }
+
+        // Research content
+        const researchEl = contentEl.createEl('div', { cls: 'research-content' });
+        researchEl.style.cssText = 'max-height: 400px; overflow-y: auto; padding: 15px; background: var(--background-primary); border: 1px solid var(--background-modifier-border); border-radius: 5px; white-space: pre-wrap; font-family: var(--font-text);';
+        researchEl.textContent = resultsData.research;
+
+        // Footer
+        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+        footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px;';
+
+        new Setting(footerEl)
+            .addButton(btn => btn
+                .setButtonText('Save to Note')
+                .setCta()
+                .onClick(async () => {
+                    // Save as a new note
+                    const fileName = `Cross-Reference - ${resultsData.concept.substring(0, 30)}.md`;
+                    const folderPath = this.sourceFile.parent?.path || this.plugin.settings.syncFolder;
+                    const filePath = `${folderPath}/${fileName}`;
+
+                    const content = `---
+type: cross-reference
+concept: "${resultsData.concept}"
+videos_analyzed: ${resultsData.videos_analyzed}
+thinkers_used: ${resultsData.thinkers_used}
+date: ${new Date().toISOString().split('T')[0]}
+---
+
+# Cross-Reference: ${resultsData.concept}
+
+## Sources Analyzed
+${resultsData.sources.map((s: any) => `- ${s.instructor} - ${s.video_name}`).join('\n')}
+
+## Research
 
-        new Setting(contentEl)
-            .setName('Display Name')
-            .setDesc('Optional friendly name')
-            .addText(text => text
-                .setPlaceholder('John Doe')
-                .onChange(value => displayName = value));
+${resultsData.research}
+`;
 
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Add Athlete')
-                .setCta()
-                .onClick(async () => {
-                    if (!discordId) {
-                        new Notice('Discord ID is required');
-                        return;
-                    }
                     try {
-                        await this.plugin.coachClient!.addAthlete(discordId, displayName || undefined);
-                        new Notice('Athlete added to roster!');
+                        await this.app.vault.create(filePath, content);
+                        new Notice(`Saved to ${fileName}`);
                         this.close();
-                    } catch (error) {
-                        new Notice('Failed to add athlete');
+
+                        // Open the new file
+                        const newFile = this.app.vault.getAbstractFileByPath(filePath);
+                        if (newFile instanceof TFile) {
+                            await this.app.workspace.getLeaf().openFile(newFile);
+                        }
+                    } catch (error: any) {
+                        new Notice(`Failed to save: ${error.message}`);
                     }
-                }));
+                }))
+            .addButton(btn => btn
+                .setButtonText('Copy to Clipboard')
+                .onClick(async () => {
+                    await navigator.clipboard.writeText(resultsData.research);
+                    new Notice('Copied to clipboard!');
+                }))
+            .addButton(btn => btn
+                .setButtonText('Close')
+                .onClick(() => this.close()));
     }
 
     onClose() {
@@ -7846,212 +12956,248 @@ class CoachAddAthleteModal extends Modal {
     }
 }
 
-// Athlete selection modal for sharing content
-class AthleteSelectModal extends Modal {
-    athletes: any[];
-    onSelect: (athlete: any) => void;
+// Enrich Checkpoint Modal - RLM feedback loop for knowledge graph refinement
+class EnrichCheckpointModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    checkpointData: {
+        name: string;
+        cluster: string;
+        currentInvariables: string[];
+        currentVariables: string[];
+        goal: string;
+        successTest: string;
+    };
+    sourceFile: TFile;
+    selectedVideos: Set<string> = new Set();
+    catalogData: any = null;
 
-    constructor(app: App, athletes: any[], onSelect: (athlete: any) => void) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, checkpointData: any, sourceFile: TFile) {
         super(app);
-        this.athletes = athletes;
-        this.onSelect = onSelect;
+        this.plugin = plugin;
+        this.checkpointData = checkpointData;
+        this.sourceFile = sourceFile;
     }
 
-    onOpen() {
+    async onOpen() {
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Select Athlete' });
-        contentEl.createEl('p', { text: 'Choose an athlete to share this content with:' });
+        const { checkpointData } = this;
 
-        const listEl = contentEl.createEl('div', { cls: 'athlete-select-list' });
+        // Header
+        contentEl.createEl('h2', { text: 'RLM Checkpoint Enrichment' });
 
-        for (const athlete of this.athletes) {
-            const athleteEl = listEl.createEl('div', { cls: 'athlete-select-item' });
-            athleteEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; cursor: pointer; background: var(--background-secondary);';
+        // Checkpoint info
+        const infoEl = contentEl.createEl('div', { cls: 'checkpoint-info' });
+        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px; border-left: 3px solid var(--text-accent);';
+        infoEl.createEl('h3', { text: checkpointData.name });
+        infoEl.createEl('p', { text: `Cluster: ${checkpointData.cluster}` });
 
-            const name = athlete.display_name || athlete.discord_username || `Athlete ${athlete.id}`;
-            athleteEl.createEl('strong', { text: name });
+        // Current state
+        const currentEl = contentEl.createEl('div', { cls: 'current-state' });
+        currentEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-primary-alt); border-radius: 5px;';
+        currentEl.createEl('h4', { text: 'Current Knowledge:' });
 
-            if (athlete.discord_username && athlete.discord_username !== name) {
-                athleteEl.createEl('span', {
-                    text: ` (@${athlete.discord_username})`,
-                    cls: 'athlete-discord-name'
-                });
-            }
+        const invariablesEl = currentEl.createEl('div');
+        invariablesEl.createEl('strong', { text: 'Invariables: ' });
+        invariablesEl.createEl('span', {
+            text: checkpointData.currentInvariables.length > 0
+                ? checkpointData.currentInvariables.join(', ')
+                : '(none)'
+        });
 
-            athleteEl.addEventListener('click', () => {
-                this.onSelect(athlete);
-                this.close();
-            });
+        const variablesEl = currentEl.createEl('div');
+        variablesEl.createEl('strong', { text: 'Variables: ' });
+        variablesEl.createEl('span', {
+            text: checkpointData.currentVariables.length > 0
+                ? checkpointData.currentVariables.length + ' IF/THEN branches'
+                : '(none)'
+        });
+
+        // Loading catalog
+        const loadingEl = contentEl.createEl('div', { text: 'Loading video catalog...' });
+        loadingEl.style.cssText = 'padding: 20px; text-align: center;';
 
-            athleteEl.addEventListener('mouseenter', () => {
-                athleteEl.style.background = 'var(--background-modifier-hover)';
+        try {
+            const response = await requestUrl({
+                url: `${this.plugin.settings.serverUrl}/api/obsidian/catalog`,
+                method: 'GET',
+                headers: { 'Authorization': `Bearer ${this.plugin.settings.apiToken}` }
             });
-            athleteEl.addEventListener('mouseleave', () => {
-                athleteEl.style.background = 'var(--background-secondary)';
+            this.catalogData = response.json;
+            loadingEl.remove();
+
+            // Instructions
+            contentEl.createEl('p', {
+                text: `Select videos to analyze for enrichment (${this.catalogData.total_videos} available):`,
+                cls: 'enrich-instructions'
             });
-        }
 
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Cancel')
-                .onClick(() => this.close()));
-    }
+            // Selected count
+            const selectedCountEl = contentEl.createEl('div', { cls: 'selected-count' });
+            selectedCountEl.style.cssText = 'margin-bottom: 10px; font-weight: bold; color: var(--text-accent);';
+            selectedCountEl.textContent = '0 videos selected';
 
-    onClose() {
-        this.contentEl.empty();
-    }
-}
+            const updateCount = () => {
+                selectedCountEl.textContent = `${this.selectedVideos.size} videos selected`;
+            };
 
-// Article Bibliography Modal - Shows ALL videos from an Oracle article
-class ArticleBibliographyModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    bibliographyData: any;
-    sourceFile: TFile;
+            // Search filter
+            const searchEl = contentEl.createEl('input', { type: 'text', placeholder: 'Filter instructors/series...' });
+            searchEl.style.cssText = 'width: 100%; padding: 8px; margin-bottom: 10px; border-radius: 5px; border: 1px solid var(--background-modifier-border);';
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, bibliographyData: any, sourceFile: TFile) {
-        super(app);
-        this.plugin = plugin;
-        this.bibliographyData = bibliographyData;
-        this.sourceFile = sourceFile;
-    }
+            // Catalog list (compact version)
+            const listEl = contentEl.createEl('div', { cls: 'catalog-list' });
+            listEl.style.cssText = 'max-height: 250px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 5px; padding: 10px;';
 
-    onOpen() {
-        const { contentEl } = this;
-        const { bibliographyData } = this;
+            const renderCatalog = (filter: string = '') => {
+                listEl.empty();
+                const filterLower = filter.toLowerCase();
 
-        // Header
-        contentEl.createEl('h2', { text: 'Article Source Videos' });
+                for (const instructor of this.catalogData.instructors) {
+                    const instructorMatches = instructor.name.toLowerCase().includes(filterLower);
+                    const matchingSeries = instructor.series.filter((s: any) =>
+                        instructorMatches || s.name.toLowerCase().includes(filterLower)
+                    );
 
-        // Original query
-        const queryEl = contentEl.createEl('div', { cls: 'original-query' });
-        queryEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px; border-left: 3px solid var(--interactive-accent);';
-        queryEl.createEl('p', {
-            text: `Original Question: "${bibliographyData.original_query}"`,
-            cls: 'query-text'
-        });
+                    if (matchingSeries.length === 0 && !instructorMatches) continue;
 
-        // Stats
-        const statsEl = contentEl.createEl('div', { cls: 'bibliography-stats' });
-        statsEl.style.cssText = 'margin-bottom: 15px; display: flex; gap: 15px;';
-        statsEl.createEl('span', { text: `📹 ${bibliographyData.total_videos} videos` });
-        statsEl.createEl('span', { text: `👤 ${bibliographyData.instructors.length} instructors` });
+                    const groupEl = listEl.createEl('div', { cls: 'instructor-group' });
+                    groupEl.style.cssText = 'margin-bottom: 8px;';
 
-        // Instructions
-        contentEl.createEl('p', {
-            text: 'Click any video to view its full concept cache with timestamps:',
-            cls: 'bibliography-instructions'
-        });
+                    const headerEl = groupEl.createEl('div', { cls: 'instructor-header' });
+                    headerEl.style.cssText = 'display: flex; align-items: center; gap: 5px; cursor: pointer; padding: 3px; background: var(--background-secondary); border-radius: 3px;';
 
-        // Videos list - grouped by instructor
-        const listEl = contentEl.createEl('div', { cls: 'videos-list' });
-        listEl.style.cssText = 'max-height: 450px; overflow-y: auto;';
+                    const expandIcon = headerEl.createEl('span', { text: '▶' });
+                    expandIcon.style.cssText = 'font-size: 0.7em;';
 
-        // Group videos by instructor
-        const byInstructor: { [key: string]: any[] } = {};
-        for (const video of bibliographyData.videos) {
-            const instructor = video.instructor || 'Unknown';
-            if (!byInstructor[instructor]) {
-                byInstructor[instructor] = [];
-            }
-            byInstructor[instructor].push(video);
-        }
+                    const instructorCb = headerEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+                    headerEl.createEl('span', { text: `${instructor.name} (${instructor.video_count})` });
 
-        // Render each instructor group
-        for (const instructor of Object.keys(byInstructor).sort()) {
-            const groupEl = listEl.createEl('div', { cls: 'instructor-group' });
-            groupEl.style.cssText = 'margin-bottom: 15px;';
+                    const seriesContainer = groupEl.createEl('div');
+                    seriesContainer.style.cssText = 'display: none; margin-left: 15px; font-size: 0.9em;';
 
-            const headerEl = groupEl.createEl('h3', { text: `👤 ${instructor}` });
-            headerEl.style.cssText = 'margin: 10px 0 5px 0; font-size: 1.1em; color: var(--text-accent);';
+                    headerEl.addEventListener('click', (e) => {
+                        if (e.target === instructorCb) return;
+                        const isExpanded = seriesContainer.style.display !== 'none';
+                        seriesContainer.style.display = isExpanded ? 'none' : 'block';
+                        expandIcon.style.transform = isExpanded ? '' : 'rotate(90deg)';
+                    });
 
-            for (const video of byInstructor[instructor]) {
-                const videoEl = groupEl.createEl('div', { cls: 'video-item' });
-                videoEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid var(--interactive-accent);';
+                    const allVideoIds: string[] = [];
+                    const seriesToRender = instructorMatches ? instructor.series : matchingSeries;
 
-                // Title row
-                const titleRow = videoEl.createEl('div', { cls: 'title-row' });
-                titleRow.style.cssText = 'display: flex; justify-content: space-between; align-items: center;';
+                    for (const series of seriesToRender) {
+                        const seriesEl = seriesContainer.createEl('div');
+                        seriesEl.style.cssText = 'display: flex; align-items: center; gap: 5px; padding: 2px 0;';
 
-                titleRow.createEl('strong', { text: video.video_title });
+                        const seriesCb = seriesEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+                        seriesEl.createEl('span', { text: `${series.name} (${series.video_count})` });
 
-                // Citations badge
-                const citationsBadge = titleRow.createEl('span', { cls: 'citations-badge' });
-                citationsBadge.style.cssText = 'background: var(--interactive-accent); color: white; padding: 2px 8px; border-radius: 10px; font-size: 0.8em;';
-                citationsBadge.textContent = `${video.citations_count} citation${video.citations_count !== 1 ? 's' : ''}`;
+                        const videoIds = series.videos.map((v: any) => v.video_id);
+                        allVideoIds.push(...videoIds);
 
-                // Timestamps preview
-                if (video.timestamps && video.timestamps.length > 0) {
-                    const timestampsEl = videoEl.createEl('div', { cls: 'timestamps-preview' });
-                    timestampsEl.style.cssText = 'margin-top: 5px; font-size: 0.85em; color: var(--text-muted);';
-                    timestampsEl.textContent = `Timestamps: ${video.timestamps.slice(0, 5).join(', ')}${video.timestamps.length > 5 ? '...' : ''}`;
+                        // Check if already selected
+                        const allSelected = videoIds.every((id: string) => this.selectedVideos.has(id));
+                        seriesCb.checked = allSelected;
+
+                        seriesCb.addEventListener('change', () => {
+                            for (const id of videoIds) {
+                                if (seriesCb.checked) {
+                                    this.selectedVideos.add(id);
+                                } else {
+                                    this.selectedVideos.delete(id);
+                                }
+                            }
+                            updateCount();
+                        });
+                    }
+
+                    instructorCb.addEventListener('change', () => {
+                        const checkboxes = seriesContainer.querySelectorAll('input[type="checkbox"]') as NodeListOf<HTMLInputElement>;
+                        checkboxes.forEach(cb => cb.checked = instructorCb.checked);
+                        for (const id of allVideoIds) {
+                            if (instructorCb.checked) {
+                                this.selectedVideos.add(id);
+                            } else {
+                                this.selectedVideos.delete(id);
+                            }
+                        }
+                        updateCount();
+                    });
                 }
+            };
 
-                // Click handler - open VideoExplorerModal with this video's concept cache
-                videoEl.addEventListener('click', async () => {
-                    videoEl.style.background = 'var(--background-modifier-hover)';
-                    titleRow.createEl('span', { text: ' Loading...', cls: 'loading-text' });
-
-                    try {
-                        // Get the full concept cache for this video
-                        const response = await requestUrl({
-                            url: `${this.plugin.settings.serverUrl}/api/obsidian/explore-video`,
-                            method: 'POST',
-                            headers: {
-                                'Content-Type': 'application/json',
-                                'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                            },
-                            body: JSON.stringify({
-                                video_id: video.video_id,
-                                concept: video.video_title  // Use video title as fallback
-                            })
-                        });
+            renderCatalog();
+            searchEl.addEventListener('input', () => renderCatalog(searchEl.value));
 
-                        const data = response.json;
+            // Footer
+            const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+            footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
 
-                        if (data.error) {
-                            new Notice(`Could not load concept cache for this video`, 3000);
-                            videoEl.style.background = 'var(--background-secondary)';
-                            const loadingText = videoEl.querySelector('.loading-text');
-                            if (loadingText) loadingText.remove();
+            new Setting(footerEl)
+                .addButton(btn => btn
+                    .setButtonText('Run Enrichment')
+                    .setCta()
+                    .onClick(async () => {
+                        if (this.selectedVideos.size === 0) {
+                            new Notice('Select at least one video');
                             return;
                         }
 
-                        // Close bibliography and open video explorer
-                        this.close();
-                        const modal = new VideoExplorerModal(
-                            this.app,
-                            this.plugin,
-                            data,
-                            this.sourceFile
-                        );
-                        modal.open();
+                        btn.setButtonText('Analyzing...');
+                        btn.setDisabled(true);
 
-                    } catch (error: any) {
-                        new Notice(`Failed to load: ${error.message}`, 3000);
-                        videoEl.style.background = 'var(--background-secondary)';
-                        const loadingText = videoEl.querySelector('.loading-text');
-                        if (loadingText) loadingText.remove();
-                    }
-                });
+                        try {
+                            const response = await requestUrl({
+                                url: `${this.plugin.settings.serverUrl}/api/obsidian/enrich-checkpoint`,
+                                method: 'POST',
+                                headers: {
+                                    'Content-Type': 'application/json',
+                                    'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                                },
+                                body: JSON.stringify({
+                                    checkpoint_name: checkpointData.name,
+                                    checkpoint_cluster: checkpointData.cluster,
+                                    current_invariables: checkpointData.currentInvariables,
+                                    current_variables: checkpointData.currentVariables,
+                                    goal: checkpointData.goal,
+                                    success_test: checkpointData.successTest,
+                                    video_ids: Array.from(this.selectedVideos)
+                                })
+                            });
 
-                // Hover effects
-                videoEl.addEventListener('mouseenter', () => {
-                    videoEl.style.background = 'var(--background-modifier-hover)';
-                });
-                videoEl.addEventListener('mouseleave', () => {
-                    videoEl.style.background = 'var(--background-secondary)';
-                });
-            }
-        }
+                            const enrichments = response.json;
 
-        // Footer
-        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-        footerEl.style.cssText = 'margin-top: 20px; display: flex; gap: 10px;';
+                            if (enrichments.error) {
+                                new Notice(`Error: ${enrichments.error}`);
+                                btn.setButtonText('Run Enrichment');
+                                btn.setDisabled(false);
+                                return;
+                            }
 
-        new Setting(footerEl)
-            .addButton(btn => btn
-                .setButtonText('Close')
-                .onClick(() => this.close()));
+                            // Show enrichment results
+                            this.close();
+                            const resultsModal = new EnrichmentResultsModal(
+                                this.app,
+                                this.plugin,
+                                enrichments,
+                                this.sourceFile,
+                                checkpointData
+                            );
+                            resultsModal.open();
+
+                        } catch (error: any) {
+                            new Notice(`Failed: ${error.message}`);
+                            btn.setButtonText('Run Enrichment');
+                            btn.setDisabled(false);
+                        }
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('Cancel')
+                    .onClick(() => this.close()));
+
+        } catch (error: any) {
+            loadingEl.textContent = `Failed to load catalog: ${error.message}`;
+        }
     }
 
     onClose() {
@@ -8059,369 +13205,388 @@ class ArticleBibliographyModal extends Modal {
     }
 }
 
-// Catalog Browser Modal - Browse full video catalog and select for cross-reference
-class CatalogBrowserModal extends Modal {
+// Enrichment Results Modal - Shows proposed enrichments with accept/reject
+class EnrichmentResultsModal extends Modal {
     plugin: BJJFlipmodePlugin;
-    concept: string;
-    conceptContext: string;
+    enrichments: any;
     sourceFile: TFile;
-    selectedVideos: Set<string> = new Set();
-    catalogData: any = null;
+    checkpointData: any;
+    acceptedInvariables: Set<number> = new Set();
+    acceptedVariables: Set<number> = new Set();
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, concept: string, conceptContext: string, sourceFile: TFile) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, enrichments: any, sourceFile: TFile, checkpointData: any) {
         super(app);
         this.plugin = plugin;
-        this.concept = concept;
-        this.conceptContext = conceptContext;
+        this.enrichments = enrichments;
         this.sourceFile = sourceFile;
+        this.checkpointData = checkpointData;
     }
 
-    async onOpen() {
+    onOpen() {
         const { contentEl } = this;
+        const { enrichments } = this;
 
         // Header
-        contentEl.createEl('h2', { text: 'Cross-Reference Research' });
+        contentEl.createEl('h2', { text: 'Enrichment Results' });
 
-        // Concept info
-        const conceptEl = contentEl.createEl('div', { cls: 'concept-info' });
-        conceptEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px; border-left: 3px solid var(--interactive-accent);';
-        conceptEl.createEl('p', { text: `Concept: "${this.concept}"` });
-        if (this.conceptContext) {
-            conceptEl.createEl('p', { text: `Context: ${this.conceptContext}`, cls: 'context-text' });
-        }
+        // Stats
+        const statsEl = contentEl.createEl('div', { cls: 'enrichment-stats' });
+        statsEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        statsEl.createEl('p', { text: `Checkpoint: ${enrichments.checkpoint_name}` });
+        statsEl.createEl('p', { text: `📹 ${enrichments.sources_analyzed} videos analyzed` });
 
-        // Loading indicator
-        const loadingEl = contentEl.createEl('div', { cls: 'loading', text: 'Loading video catalog...' });
-        loadingEl.style.cssText = 'padding: 20px; text-align: center;';
+        // Scrollable content
+        const scrollEl = contentEl.createEl('div', { cls: 'enrichment-scroll' });
+        scrollEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
 
-        try {
-            // Fetch catalog
-            const response = await requestUrl({
-                url: `${this.plugin.settings.serverUrl}/api/obsidian/catalog`,
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                }
-            });
+        // New Invariables
+        if (enrichments.new_invariables && enrichments.new_invariables.length > 0) {
+            const invSection = scrollEl.createEl('div', { cls: 'invariables-section' });
+            invSection.createEl('h3', { text: `New Invariables (${enrichments.new_invariables.length})` });
 
-            this.catalogData = response.json;
-            loadingEl.remove();
+            enrichments.new_invariables.forEach((inv: any, idx: number) => {
+                const itemEl = invSection.createEl('div', { cls: 'enrichment-item' });
+                itemEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-primary-alt); border-left: 3px solid var(--text-success);';
 
-            // Instructions
-            contentEl.createEl('p', {
-                text: `Select videos to cross-reference (${this.catalogData.total_videos} available):`,
-                cls: 'catalog-instructions'
-            });
+                const headerRow = itemEl.createEl('div');
+                headerRow.style.cssText = 'display: flex; align-items: center; gap: 10px;';
 
-            // Selected count display
-            const selectedCountEl = contentEl.createEl('div', { cls: 'selected-count' });
-            selectedCountEl.style.cssText = 'margin-bottom: 10px; font-weight: bold; color: var(--text-accent);';
-            selectedCountEl.textContent = '0 videos selected';
+                const checkbox = headerRow.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+                checkbox.checked = true;
+                this.acceptedInvariables.add(idx);
 
-            // Search filter
-            const searchEl = contentEl.createEl('input', { type: 'text', placeholder: 'Filter instructors/series...' });
-            searchEl.style.cssText = 'width: 100%; padding: 8px; margin-bottom: 10px; border-radius: 5px; border: 1px solid var(--background-modifier-border);';
+                checkbox.addEventListener('change', () => {
+                    if (checkbox.checked) {
+                        this.acceptedInvariables.add(idx);
+                    } else {
+                        this.acceptedInvariables.delete(idx);
+                    }
+                });
 
-            // Catalog list
-            const listEl = contentEl.createEl('div', { cls: 'catalog-list' });
-            listEl.style.cssText = 'max-height: 350px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 5px; padding: 10px;';
+                const tierBadge = headerRow.createEl('span', { cls: 'tier-badge' });
+                tierBadge.style.cssText = `padding: 2px 6px; border-radius: 3px; font-size: 0.8em; background: ${inv.tier === 'CRITICAL' ? 'var(--text-error)' : inv.tier === 'IMPORTANT' ? 'var(--text-warning)' : 'var(--text-muted)'}; color: white;`;
+                tierBadge.textContent = inv.tier;
 
-            const updateSelectedCount = () => {
-                selectedCountEl.textContent = `${this.selectedVideos.size} videos selected`;
-            };
+                headerRow.createEl('strong', { text: inv.name });
 
-            const renderCatalog = (filter: string = '') => {
-                listEl.empty();
-                const filterLower = filter.toLowerCase();
+                if (inv.source_instructor) {
+                    const sourceEl = itemEl.createEl('p');
+                    sourceEl.style.cssText = 'margin: 5px 0; font-size: 0.85em; color: var(--text-accent);';
+                    sourceEl.textContent = `Source: ${inv.source_instructor}${inv.timestamp ? ` [${inv.timestamp}]` : ''}`;
+                }
 
-                for (const instructor of this.catalogData.instructors) {
-                    // Check if instructor matches filter
-                    const instructorMatches = instructor.name.toLowerCase().includes(filterLower);
-                    const matchingSeries = instructor.series.filter((s: any) =>
-                        instructorMatches || s.name.toLowerCase().includes(filterLower)
-                    );
+                if (inv.description) {
+                    const descEl = itemEl.createEl('p');
+                    descEl.style.cssText = 'margin: 5px 0; font-size: 0.9em; color: var(--text-muted);';
+                    descEl.textContent = inv.description;
+                }
+            });
+        }
 
-                    if (matchingSeries.length === 0 && !instructorMatches) continue;
+        // New Variables
+        if (enrichments.new_variables && enrichments.new_variables.length > 0) {
+            const varSection = scrollEl.createEl('div', { cls: 'variables-section' });
+            varSection.style.cssText = 'margin-top: 15px;';
+            varSection.createEl('h3', { text: `🔀 New Variables (${enrichments.new_variables.length})` });
+
+            enrichments.new_variables.forEach((v: any, idx: number) => {
+                const itemEl = varSection.createEl('div', { cls: 'enrichment-item' });
+                itemEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-primary-alt); border-left: 3px solid var(--text-warning);';
+
+                const headerRow = itemEl.createEl('div');
+                headerRow.style.cssText = 'display: flex; align-items: center; gap: 10px;';
 
-                    // Instructor group
-                    const groupEl = listEl.createEl('div', { cls: 'instructor-group' });
-                    groupEl.style.cssText = 'margin-bottom: 10px;';
+                const checkbox = headerRow.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
+                checkbox.checked = true;
+                this.acceptedVariables.add(idx);
 
-                    // Instructor header with expand/collapse
-                    const headerEl = groupEl.createEl('div', { cls: 'instructor-header' });
-                    headerEl.style.cssText = 'display: flex; align-items: center; gap: 8px; cursor: pointer; padding: 5px; background: var(--background-secondary); border-radius: 3px;';
+                checkbox.addEventListener('change', () => {
+                    if (checkbox.checked) {
+                        this.acceptedVariables.add(idx);
+                    } else {
+                        this.acceptedVariables.delete(idx);
+                    }
+                });
 
-                    const expandIcon = headerEl.createEl('span', { text: '▶' });
-                    expandIcon.style.cssText = 'font-size: 0.8em; transition: transform 0.2s;';
+                headerRow.createEl('strong', { text: `${v.condition} → ${v.action}` });
 
-                    // Select all checkbox for instructor
-                    const instructorCheckbox = headerEl.createEl('input', { type: 'checkbox' });
-                    instructorCheckbox.style.cssText = 'margin-right: 5px;';
+                if (v.source_instructor) {
+                    const sourceEl = itemEl.createEl('p');
+                    sourceEl.style.cssText = 'margin: 5px 0; font-size: 0.85em; color: var(--text-accent);';
+                    sourceEl.textContent = `Source: ${v.source_instructor}${v.timestamp ? ` [${v.timestamp}]` : ''}`;
+                }
 
-                    headerEl.createEl('strong', { text: `${instructor.name} (${instructor.video_count})` });
+                if (v.description) {
+                    const descEl = itemEl.createEl('p');
+                    descEl.style.cssText = 'margin: 5px 0; font-size: 0.9em; color: var(--text-muted);';
+                    descEl.textContent = v.description;
+                }
+            });
+        }
 
-                    // Series container (collapsible)
-                    const seriesContainer = groupEl.createEl('div', { cls: 'series-container' });
-                    seriesContainer.style.cssText = 'display: none; margin-left: 20px; margin-top: 5px;';
+        // Defensive Inversions
+        if (enrichments.defensive_inversions && enrichments.defensive_inversions.length > 0) {
+            const invSection = scrollEl.createEl('div', { cls: 'inversions-section' });
+            invSection.style.cssText = 'margin-top: 15px;';
+            invSection.createEl('h3', { text: `Defensive Inversions (${enrichments.defensive_inversions.length})` });
 
-                    // Toggle expand/collapse
-                    headerEl.addEventListener('click', (e) => {
-                        if (e.target === instructorCheckbox) return;
-                        const isExpanded = seriesContainer.style.display !== 'none';
-                        seriesContainer.style.display = isExpanded ? 'none' : 'block';
-                        expandIcon.style.transform = isExpanded ? '' : 'rotate(90deg)';
-                    });
+            for (const inv of enrichments.defensive_inversions) {
+                const itemEl = invSection.createEl('div', { cls: 'inversion-item' });
+                itemEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-primary-alt); border-left: 3px solid var(--interactive-accent);';
 
-                    // Render series
-                    const seriesToRender = instructorMatches ? instructor.series : matchingSeries;
-                    for (const series of seriesToRender) {
-                        const seriesEl = seriesContainer.createEl('div', { cls: 'series-item' });
-                        seriesEl.style.cssText = 'margin: 5px 0; padding: 5px; border-left: 2px solid var(--background-modifier-border);';
+                itemEl.createEl('p', { text: `Defender wants: ${inv.defensive_concept}` });
+                itemEl.createEl('p', { text: `→ You should: ${inv.offensive_counter}` });
+                if (inv.source_instructor) {
+                    const srcEl = itemEl.createEl('p');
+                    srcEl.style.cssText = 'font-size: 0.85em; color: var(--text-accent);';
+                    srcEl.textContent = `Source: ${inv.source_instructor}`;
+                }
+            }
+        }
 
-                        // Series header
-                        const seriesHeader = seriesEl.createEl('div', { cls: 'series-header' });
-                        seriesHeader.style.cssText = 'display: flex; align-items: center; gap: 5px;';
+        // Key Insights
+        if (enrichments.key_insights && enrichments.key_insights.length > 0) {
+            const insightsSection = scrollEl.createEl('div', { cls: 'insights-section' });
+            insightsSection.style.cssText = 'margin-top: 15px;';
+            insightsSection.createEl('h3', { text: `Key Insights` });
 
-                        const seriesCheckbox = seriesHeader.createEl('input', { type: 'checkbox' });
-                        seriesHeader.createEl('span', { text: `${series.name} (${series.video_count})` });
+            const ul = insightsSection.createEl('ul');
+            for (const insight of enrichments.key_insights) {
+                ul.createEl('li', { text: insight });
+            }
+        }
 
-                        // Individual videos
-                        const videosEl = seriesEl.createEl('div', { cls: 'videos-list' });
-                        videosEl.style.cssText = 'margin-left: 20px; font-size: 0.9em;';
+        // Footer
+        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+        footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
 
-                        const videoCheckboxes: HTMLInputElement[] = [];
+        new Setting(footerEl)
+            .addButton(btn => btn
+                .setButtonText('Apply Selected Enrichments')
+                .setCta()
+                .onClick(async () => {
+                    await this.applyEnrichments();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Cancel')
+                .onClick(() => this.close()));
+    }
 
-                        for (const video of series.videos) {
-                            const videoEl = videosEl.createEl('div', { cls: 'video-item' });
-                            videoEl.style.cssText = 'display: flex; align-items: center; gap: 5px; padding: 2px 0;';
+    async applyEnrichments() {
+        const { enrichments, sourceFile, checkpointData } = this;
 
-                            const videoCheckbox = videoEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
-                            videoCheckbox.dataset.videoId = video.video_id;
-                            videoCheckboxes.push(videoCheckbox);
+        try {
+            // Read current file
+            const note = await this.plugin.readCheckpointNote(sourceFile);
+            let content = note.content;
+            const links: CheckpointLinks = note.checkpoint;
 
-                            if (this.selectedVideos.has(video.video_id)) {
-                                videoCheckbox.checked = true;
-                            }
+            // Get accepted invariables
+            const newInvariables = enrichments.new_invariables?.filter((_: any, idx: number) =>
+                this.acceptedInvariables.has(idx)
+            ) || [];
 
-                            videoCheckbox.addEventListener('change', () => {
-                                if (videoCheckbox.checked) {
-                                    this.selectedVideos.add(video.video_id);
-                                } else {
-                                    this.selectedVideos.delete(video.video_id);
-                                }
-                                updateSelectedCount();
-                            });
+            // Get accepted variables
+            const newVariables = enrichments.new_variables?.filter((_: any, idx: number) =>
+                this.acceptedVariables.has(idx)
+            ) || [];
 
-                            const volText = video.volume ? ` (Vol ${video.volume})` : '';
-                            videoEl.createEl('span', { text: video.title + volText });
-                        }
+            if (newInvariables.length === 0 && newVariables.length === 0) {
+                new Notice('No enrichments selected');
+                return;
+            }
 
-                        // Series checkbox selects all videos in series
-                        seriesCheckbox.addEventListener('change', () => {
-                            for (const cb of videoCheckboxes) {
-                                cb.checked = seriesCheckbox.checked;
-                                if (seriesCheckbox.checked) {
-                                    this.selectedVideos.add(cb.dataset.videoId!);
-                                } else {
-                                    this.selectedVideos.delete(cb.dataset.videoId!);
-                                }
-                            }
-                            updateSelectedCount();
-                        });
-                    }
+            // Track created files for Canvas
+            const createdFiles: TFile[] = [];
 
-                    // Instructor checkbox selects all series
-                    instructorCheckbox.addEventListener('change', () => {
-                        const allCheckboxes = seriesContainer.querySelectorAll('input[type="checkbox"]') as NodeListOf<HTMLInputElement>;
-                        allCheckboxes.forEach(cb => {
-                            cb.checked = instructorCheckbox.checked;
-                            if (cb.dataset.videoId) {
-                                if (instructorCheckbox.checked) {
-                                    this.selectedVideos.add(cb.dataset.videoId);
-                                } else {
-                                    this.selectedVideos.delete(cb.dataset.videoId);
-                                }
-                            }
-                        });
-                        updateSelectedCount();
-                    });
-                }
-            };
+            // Add new invariables to the table (create method files with timestamps for WebM clips)
+            if (newInvariables.length > 0) {
+                const tableMatch = content.match(/(## INVARIABLES[\s\S]*?\| REFINEMENT \|[^\n]*)/);
+                let newRows = '';
+                for (const inv of newInvariables) {
+                    // Sanitize name for file path
+                    const safeName = inv.name.replace(/[\\/:*?"<>|]/g, '-').substring(0, 60);
+                    const conceptPath = `${sourceFile.parent?.path}/${safeName}.md`;
 
-            renderCatalog();
+                    const conceptContent = `---
+type: method
+method_type: invariable
+checkpoints: ["${sourceFile.basename}"]
+cluster: "${checkpointData.cluster}"
+tier: "${inv.tier}"
+source_instructor: "${inv.source_instructor || 'Unknown'}"
+video_id: "${inv.video_id || ''}"
+timestamp: "${inv.timestamp || ''}"
+clip_duration: 30
+enrichment_source: true
+---
 
-            // Filter handler
-            searchEl.addEventListener('input', () => {
-                renderCatalog(searchEl.value);
-            });
+# ${inv.name}
 
-            // Footer
-            const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-            footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
+${inv.description || ''}
 
-            new Setting(footerEl)
-                .addButton(btn => btn
-                    .setButtonText('Run Cross-Reference')
-                    .setCta()
-                    .onClick(async () => {
-                        if (this.selectedVideos.size === 0) {
-                            new Notice('Select at least one video to cross-reference');
-                            return;
-                        }
+## Clip Info
+- **Instructor:** ${inv.source_instructor || 'Unknown'}
+- **Timestamp:** ${inv.timestamp || 'N/A'}
+- **Video ID:** ${inv.video_id || 'N/A'}
+`;
+                    const existingFile = this.app.vault.getAbstractFileByPath(conceptPath);
+                    if (!existingFile) {
+                        const newFile = await this.app.vault.create(conceptPath, conceptContent);
+                        createdFiles.push(newFile);
+                    } else if (existingFile instanceof TFile) {
+                        await this.plugin.addNoteToCheckpoint(existingFile, sourceFile.basename);
+                    }
 
-                        btn.setButtonText('Researching...');
-                        btn.setDisabled(true);
+                    const linkText = `[[${safeName}]]`;
+                    newRows += `| ${inv.tier} | ${linkText} |\n`;
+                    if (!links.invariables.some(existing => existing.name === safeName)) {
+                        links.invariables.push({ name: safeName, tier: normalizeTier(inv.tier) });
+                    }
+                }
 
-                        try {
-                            const response = await requestUrl({
-                                url: `${this.plugin.settings.serverUrl}/api/obsidian/cross-reference`,
-                                method: 'POST',
-                                headers: {
-                                    'Content-Type': 'application/json',
-                                    'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                                },
-                                body: JSON.stringify({
-                                    concept: this.concept,
-                                    concept_context: this.conceptContext,
-                                    video_ids: Array.from(this.selectedVideos)
-                                })
-                            });
+                const refinementMatch = content.match(/(\| REFINEMENT \|[^\n]*\n)/);
+                if (tableMatch && refinementMatch) {
+                    content = content.replace(refinementMatch[1], newRows + refinementMatch[1]);
+                }
+            }
 
-                            const data = response.json;
+            // Add new variables (also create method files for IF/THEN branches)
+            if (newVariables.length > 0) {
+                const variablesMatch = content.match(/(## VARIABLES \(IF\/THEN\)\n\n)([\s\S]*?)(\n---)/);
+                let newVarText = '';
+                for (const v of newVariables) {
+                    // Create a method file for the variable
+                    const safeName = v.condition.replace(/^IF\s*/i, '').replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
+                    const varPath = `${sourceFile.parent?.path}/VAR - ${safeName}.md`;
 
-                            if (data.error) {
-                                new Notice(`Error: ${data.error}`);
-                                btn.setButtonText('Run Cross-Reference');
-                                btn.setDisabled(false);
-                                return;
-                            }
+                    const varContent = `---
+type: method
+method_type: variable
+checkpoints: ["${sourceFile.basename}"]
+cluster: "${checkpointData.cluster}"
+condition: "${v.condition}"
+action: "${v.action}"
+source_instructor: "${v.source_instructor || 'Unknown'}"
+video_id: "${v.video_id || ''}"
+timestamp: "${v.timestamp || ''}"
+clip_duration: 30
+enrichment_source: true
+---
 
-                            // Show results in new modal
-                            this.close();
-                            const resultsModal = new CrossReferenceResultsModal(
-                                this.app,
-                                this.plugin,
-                                data,
-                                this.sourceFile
-                            );
-                            resultsModal.open();
+# ${v.condition}
 
-                        } catch (error: any) {
-                            new Notice(`Failed: ${error.message}`);
-                            btn.setButtonText('Run Cross-Reference');
-                            btn.setDisabled(false);
-                        }
-                    }))
-                .addButton(btn => btn
-                    .setButtonText('Cancel')
-                    .onClick(() => this.close()));
+**Action:** ${v.action}
 
-        } catch (error: any) {
-            loadingEl.textContent = `Failed to load catalog: ${error.message}`;
-        }
-    }
+${v.description || ''}
 
-    onClose() {
-        this.contentEl.empty();
-    }
-}
+## Clip Info
+- **Instructor:** ${v.source_instructor || 'Unknown'}
+- **Timestamp:** ${v.timestamp || 'N/A'}
+- **Video ID:** ${v.video_id || 'N/A'}
+`;
+                    const existingVarFile = this.app.vault.getAbstractFileByPath(varPath);
+                    if (!existingVarFile) {
+                        const newVarFile = await this.app.vault.create(varPath, varContent);
+                        createdFiles.push(newVarFile);
+                    } else if (existingVarFile instanceof TFile) {
+                        await this.plugin.addNoteToCheckpoint(existingVarFile, sourceFile.basename);
+                    }
 
-// Cross-Reference Results Modal
-class CrossReferenceResultsModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    resultsData: any;
-    sourceFile: TFile;
+                    newVarText += `- **${v.condition}** → ${v.action} → [[VAR - ${safeName}]]\n`;
+                    if (!links.variables.some(existing => existing.name === `VAR - ${safeName}`)) {
+                        links.variables.push({ name: `VAR - ${safeName}`, condition: v.condition, action: v.action });
+                    }
+                }
+                if (variablesMatch) {
+                    content = content.replace(
+                        variablesMatch[0],
+                        variablesMatch[1] + variablesMatch[2] + newVarText + variablesMatch[3]
+                    );
+                }
+            }
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, resultsData: any, sourceFile: TFile) {
-        super(app);
-        this.plugin = plugin;
-        this.resultsData = resultsData;
-        this.sourceFile = sourceFile;
-    }
+            // Structured relationships are what canvases are rebuilt from
+            content = setCheckpointFrontmatter(content, links);
 
-    onOpen() {
-        const { contentEl } = this;
-        const { resultsData } = this;
+            // Add enrichment metadata to frontmatter (remove old entries first to avoid duplicates)
+            const enrichmentDate = new Date().toISOString().split('T')[0];
 
-        // Header
-        contentEl.createEl('h2', { text: '📊 Cross-Reference Results' });
+            if (content.includes('---\n')) {
+                const parts = content.split('---');
+                if (parts.length >= 2) {
+                    // Remove existing enrichment lines
+                    parts[1] = parts[1]
+                        .replace(/\nlast_enriched:.*$/gm, '')
+                        .replace(/\nenrichment_sources:.*$/gm, '')
+                        .trimEnd();
+                    // Add fresh enrichment data
+                    parts[1] += `\nlast_enriched: ${enrichmentDate}\nenrichment_sources: ${enrichments.sources_analyzed} videos\n`;
+                    content = parts.join('---');
+                }
+            }
 
-        // Stats
-        const statsEl = contentEl.createEl('div', { cls: 'results-stats' });
-        statsEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
-        statsEl.createEl('p', { text: `Concept: "${resultsData.concept}"` });
-        statsEl.createEl('p', { text: `📹 ${resultsData.videos_analyzed} videos analyzed` });
-        statsEl.createEl('p', { text: `🧠 ${resultsData.thinkers_used} thinker perspectives used` });
+            // Save the file
+            await this.app.vault.modify(sourceFile, content);
 
-        // Sources used
-        const sourcesEl = contentEl.createEl('div', { cls: 'sources-used' });
-        sourcesEl.style.cssText = 'margin-bottom: 15px;';
-        sourcesEl.createEl('h4', { text: 'Sources Cross-Referenced:' });
-        const sourcesList = sourcesEl.createEl('ul');
-        for (const src of resultsData.sources) {
-            sourcesList.createEl('li', { text: `${src.instructor} - ${src.video_name}` });
-        }
+            // ========== ADD NODES TO CANVAS ==========
+            // Find the active Canvas and add nodes for new concepts
+            const canvasLeaves = this.app.workspace.getLeavesOfType('canvas');
+            if (canvasLeaves.length > 0 && createdFiles.length > 0) {
+                const canvasView = canvasLeaves[0].view as any;
+                const canvas = canvasView?.canvas;
 
-        // Research content
-        const researchEl = contentEl.createEl('div', { cls: 'research-content' });
-        researchEl.style.cssText = 'max-height: 400px; overflow-y: auto; padding: 15px; background: var(--background-primary); border: 1px solid var(--background-modifier-border); border-radius: 5px; white-space: pre-wrap; font-family: var(--font-text);';
-        researchEl.textContent = resultsData.research;
+                if (canvas) {
+                    // Find the checkpoint node in the canvas
+                    let checkpointNode: any = null;
+                    let checkpointX = 0;
+                    let checkpointY = 0;
 
-        // Footer
-        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-        footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px;';
+                    for (const node of canvas.nodes.values()) {
+                        if (node.file?.path === sourceFile.path) {
+                            checkpointNode = node;
+                            checkpointX = node.x;
+                            checkpointY = node.y;
+                            break;
+                        }
+                    }
 
-        new Setting(footerEl)
-            .addButton(btn => btn
-                .setButtonText('Save to Note')
-                .setCta()
-                .onClick(async () => {
-                    // Save as a new note
-                    const fileName = `Cross-Reference - ${resultsData.concept.substring(0, 30)}.md`;
-                    const folderPath = this.sourceFile.parent?.path || this.plugin.settings.syncFolder;
-                    const filePath = `${folderPath}/${fileName}`;
+                    // Add new nodes next to the checkpoint, in free space
+                    const nodeWidth = 250;
+                    const nodeHeight = 100;
+                    const anchor = checkpointNode
+                        ? { x: checkpointX, y: checkpointY, width: checkpointNode.width, height: checkpointNode.height }
+                        : { x: checkpointX, y: checkpointY, width: 0, height: 0 };
+                    const existing = [...canvas.nodes.values()].map((n: any) => ({ x: n.x, y: n.y, width: n.width, height: n.height }));
+                    const spots = placeNear(existing, anchor, createdFiles.map(() => ({ width: nodeWidth, height: nodeHeight })), this.plugin.settings.canvasLayoutDirection);
 
-                    const content = `---
-type: cross-reference
-concept: "${resultsData.concept}"
-videos_analyzed: ${resultsData.videos_analyzed}
-thinkers_used: ${resultsData.thinkers_used}
-date: ${new Date().toISOString().split('T')[0]}
----
+                    createdFiles.forEach((file, i) => {
+                        canvas.createFileNode({
+                            file: file,
+                            pos: { x: spots[i].x, y: spots[i].y },
+                            size: { width: nodeWidth, height: nodeHeight }
+                        });
+                    });
 
-# Cross-Reference: ${resultsData.concept}
+                    // Request canvas save
+                    canvas.requestSave();
 
-## Sources Analyzed
-${resultsData.sources.map((s: any) => `- ${s.instructor} - ${s.video_name}`).join('\n')}
+                    new Notice(`Added ${createdFiles.length} nodes to Canvas`);
+                }
+            }
 
-## Research
+            new Notice(`Applied ${newInvariables.length} invariables and ${newVariables.length} variables`);
 
-${resultsData.research}
-`;
+            this.close();
 
-                    try {
-                        await this.app.vault.create(filePath, content);
-                        new Notice(`Saved to ${fileName}`);
-                        this.close();
+            // Refresh the file
+            const leaf = this.app.workspace.getLeaf();
+            await leaf.openFile(sourceFile);
 
-                        // Open the new file
-                        const newFile = this.app.vault.getAbstractFileByPath(filePath);
-                        if (newFile instanceof TFile) {
-                            await this.app.workspace.getLeaf().openFile(newFile);
-                        }
-                    } catch (error: any) {
-                        new Notice(`Failed to save: ${error.message}`);
-                    }
-                }))
-            .addButton(btn => btn
-                .setButtonText('Copy to Clipboard')
-                .onClick(async () => {
-                    await navigator.clipboard.writeText(resultsData.research);
-                    new Notice('Copied to clipboard!');
-                }))
-            .addButton(btn => btn
-                .setButtonText('Close')
-                .onClick(() => this.close()));
+        } catch (error: any) {
+            new Notice(`Failed to apply enrichments: ${error.message}`);
+            console.error('Apply enrichments error:', error);
+        }
     }
 
     onClose() {
@@ -8429,61 +13594,48 @@ ${resultsData.research}
     }
 }
 
-// Enrich Checkpoint Modal - RLM feedback loop for knowledge graph refinement
-class EnrichCheckpointModal extends Modal {
+// RLM Pipeline Modal - Single button: Backup → Enrich → Rebuild Canvas
+class RLMPipelineModal extends Modal {
     plugin: BJJFlipmodePlugin;
-    checkpointData: {
-        name: string;
-        cluster: string;
-        currentInvariables: string[];
-        currentVariables: string[];
-        goal: string;
-        successTest: string;
-    };
-    sourceFile: TFile;
+    canvasFile: TFile;
+    folder: TFolder;
+    checkpointFiles: TFile[];
     selectedVideos: Set<string> = new Set();
     catalogData: any = null;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, checkpointData: any, sourceFile: TFile) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, canvasFile: TFile, folder: TFolder, checkpointFiles: TFile[]) {
         super(app);
         this.plugin = plugin;
-        this.checkpointData = checkpointData;
-        this.sourceFile = sourceFile;
+        this.canvasFile = canvasFile;
+        this.folder = folder;
+        this.checkpointFiles = checkpointFiles;
     }
 
     async onOpen() {
         const { contentEl } = this;
-        const { checkpointData } = this;
-
-        // Header
-        contentEl.createEl('h2', { text: 'RLM Checkpoint Enrichment' });
-
-        // Checkpoint info
-        const infoEl = contentEl.createEl('div', { cls: 'checkpoint-info' });
-        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px; border-left: 3px solid var(--text-accent);';
-        infoEl.createEl('h3', { text: checkpointData.name });
-        infoEl.createEl('p', { text: `Cluster: ${checkpointData.cluster}` });
 
-        // Current state
-        const currentEl = contentEl.createEl('div', { cls: 'current-state' });
-        currentEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-primary-alt); border-radius: 5px;';
-        currentEl.createEl('h4', { text: 'Current Knowledge:' });
+        contentEl.createEl('h2', { text: 'RLM Pipeline: Enrich & Rebuild' });
 
-        const invariablesEl = currentEl.createEl('div');
-        invariablesEl.createEl('strong', { text: 'Invariables: ' });
-        invariablesEl.createEl('span', {
-            text: checkpointData.currentInvariables.length > 0
-                ? checkpointData.currentInvariables.join(', ')
-                : '(none)'
-        });
+        // Pipeline steps
+        const stepsEl = contentEl.createEl('div', { cls: 'pipeline-steps' });
+        stepsEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        stepsEl.createEl('p', { text: 'This will:', cls: 'steps-header' });
+        const stepsList = stepsEl.createEl('ol');
+        stepsList.style.cssText = 'margin: 5px 0; padding-left: 25px; font-size: 0.9em;';
+        stepsList.createEl('li', { text: 'Backup current canvas (version control)' });
+        stepsList.createEl('li', { text: 'Enrich all checkpoints with selected videos' });
+        stepsList.createEl('li', { text: 'Rebuild canvas with proper layout & connections' });
 
-        const variablesEl = currentEl.createEl('div');
-        variablesEl.createEl('strong', { text: 'Variables: ' });
-        variablesEl.createEl('span', {
-            text: checkpointData.currentVariables.length > 0
-                ? checkpointData.currentVariables.length + ' IF/THEN branches'
-                : '(none)'
-        });
+        // Show checkpoints found
+        const infoEl = contentEl.createEl('div', { cls: 'checkpoint-info' });
+        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-primary-alt); border-radius: 5px;';
+        infoEl.createEl('p', { text: `Found ${this.checkpointFiles.length} checkpoints in ${this.folder.name}:` });
+
+        const checkpointList = infoEl.createEl('ul');
+        checkpointList.style.cssText = 'margin: 5px 0; padding-left: 20px; font-size: 0.9em; max-height: 100px; overflow-y: auto;';
+        for (const file of this.checkpointFiles) {
+            checkpointList.createEl('li', { text: file.basename });
+        }
 
         // Loading catalog
         const loadingEl = contentEl.createEl('div', { text: 'Loading video catalog...' });
@@ -8498,10 +13650,8 @@ class EnrichCheckpointModal extends Modal {
             this.catalogData = response.json;
             loadingEl.remove();
 
-            // Instructions
             contentEl.createEl('p', {
-                text: `Select videos to analyze for enrichment (${this.catalogData.total_videos} available):`,
-                cls: 'enrich-instructions'
+                text: `Select videos to cross-reference ALL checkpoints (${this.catalogData.total_videos} available):`
             });
 
             // Selected count
@@ -8517,9 +13667,9 @@ class EnrichCheckpointModal extends Modal {
             const searchEl = contentEl.createEl('input', { type: 'text', placeholder: 'Filter instructors/series...' });
             searchEl.style.cssText = 'width: 100%; padding: 8px; margin-bottom: 10px; border-radius: 5px; border: 1px solid var(--background-modifier-border);';
 
-            // Catalog list (compact version)
+            // Catalog list
             const listEl = contentEl.createEl('div', { cls: 'catalog-list' });
-            listEl.style.cssText = 'max-height: 250px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 5px; padding: 10px;';
+            listEl.style.cssText = 'max-height: 200px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 5px; padding: 10px;';
 
             const renderCatalog = (filter: string = '') => {
                 listEl.empty();
@@ -8539,20 +13689,20 @@ class EnrichCheckpointModal extends Modal {
                     const headerEl = groupEl.createEl('div', { cls: 'instructor-header' });
                     headerEl.style.cssText = 'display: flex; align-items: center; gap: 5px; cursor: pointer; padding: 3px; background: var(--background-secondary); border-radius: 3px;';
 
-                    const expandIcon = headerEl.createEl('span', { text: '▶' });
-                    expandIcon.style.cssText = 'font-size: 0.7em;';
+                    const expandIcon = headerEl.createEl('span', { text: '>' });
+                    expandIcon.style.cssText = 'font-size: 0.8em; width: 12px;';
 
                     const instructorCb = headerEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
                     headerEl.createEl('span', { text: `${instructor.name} (${instructor.video_count})` });
 
                     const seriesContainer = groupEl.createEl('div');
-                    seriesContainer.style.cssText = 'display: none; margin-left: 15px; font-size: 0.9em;';
+                    seriesContainer.style.cssText = 'display: none; margin-left: 20px; font-size: 0.9em;';
 
                     headerEl.addEventListener('click', (e) => {
                         if (e.target === instructorCb) return;
                         const isExpanded = seriesContainer.style.display !== 'none';
                         seriesContainer.style.display = isExpanded ? 'none' : 'block';
-                        expandIcon.style.transform = isExpanded ? '' : 'rotate(90deg)';
+                        expandIcon.textContent = isExpanded ? '>' : 'v';
                     });
 
                     const allVideoIds: string[] = [];
@@ -8568,7 +13718,6 @@ class EnrichCheckpointModal extends Modal {
                         const videoIds = series.videos.map((v: any) => v.video_id);
                         allVideoIds.push(...videoIds);
 
-                        // Check if already selected
                         const allSelected = videoIds.every((id: string) => this.selectedVideos.has(id));
                         seriesCb.checked = allSelected;
 
@@ -8602,13 +13751,17 @@ class EnrichCheckpointModal extends Modal {
             renderCatalog();
             searchEl.addEventListener('input', () => renderCatalog(searchEl.value));
 
+            // Progress area (hidden initially)
+            const progressEl = contentEl.createEl('div', { cls: 'progress-area' });
+            progressEl.style.cssText = 'display: none; margin-top: 15px; padding: 10px; background: var(--background-primary-alt); border-radius: 5px;';
+
             // Footer
             const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
             footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
 
             new Setting(footerEl)
                 .addButton(btn => btn
-                    .setButtonText('Run Enrichment')
+                    .setButtonText('Run RLM Pipeline')
                     .setCta()
                     .onClick(async () => {
                         if (this.selectedVideos.size === 0) {
@@ -8616,274 +13769,143 @@ class EnrichCheckpointModal extends Modal {
                             return;
                         }
 
-                        btn.setButtonText('Analyzing...');
+                        btn.setButtonText('Running Pipeline...');
                         btn.setDisabled(true);
 
-                        try {
-                            const response = await requestUrl({
-                                url: `${this.plugin.settings.serverUrl}/api/obsidian/enrich-checkpoint`,
-                                method: 'POST',
-                                headers: {
-                                    'Content-Type': 'application/json',
-                                    'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                                },
-                                body: JSON.stringify({
-                                    checkpoint_name: checkpointData.name,
-                                    checkpoint_cluster: checkpointData.cluster,
-                                    current_invariables: checkpointData.currentInvariables,
-                                    current_variables: checkpointData.currentVariables,
-                                    goal: checkpointData.goal,
-                                    success_test: checkpointData.successTest,
-                                    video_ids: Array.from(this.selectedVideos)
-                                })
-                            });
-
-                            const enrichments = response.json;
-
-                            if (enrichments.error) {
-                                new Notice(`Error: ${enrichments.error}`);
-                                btn.setButtonText('Run Enrichment');
-                                btn.setDisabled(false);
-                                return;
-                            }
-
-                            // Show enrichment results
-                            this.close();
-                            const resultsModal = new EnrichmentResultsModal(
-                                this.app,
-                                this.plugin,
-                                enrichments,
-                                this.sourceFile,
-                                checkpointData
-                            );
-                            resultsModal.open();
+                        progressEl.style.display = 'block';
+                        progressEl.empty();
 
-                        } catch (error: any) {
-                            new Notice(`Failed: ${error.message}`);
-                            btn.setButtonText('Run Enrichment');
-                            btn.setDisabled(false);
+                        // STEP 1: Backup Canvas
+                        progressEl.createEl('h4', { text: 'Step 1: Backing up canvas...' });
+                        const backupName = `${this.canvasFile.basename}_backup_${Date.now()}.canvas`;
+                        const backupPath = `${this.folder.path}/${backupName}`;
+                        try {
+                            const canvasContent = await this.app.vault.read(this.canvasFile);
+                            await this.app.vault.create(backupPath, canvasContent);
+                            progressEl.createEl('p', { text: `Backup saved: ${backupName}` });
+                        } catch (e) {
+                            progressEl.createEl('p', { text: 'Backup failed, continuing...' });
                         }
-                    }))
-                .addButton(btn => btn
-                    .setButtonText('Cancel')
-                    .onClick(() => this.close()));
-
-        } catch (error: any) {
-            loadingEl.textContent = `Failed to load catalog: ${error.message}`;
-        }
-    }
-
-    onClose() {
-        this.contentEl.empty();
-    }
-}
-
-// Enrichment Results Modal - Shows proposed enrichments with accept/reject
-class EnrichmentResultsModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    enrichments: any;
-    sourceFile: TFile;
-    checkpointData: any;
-    acceptedInvariables: Set<number> = new Set();
-    acceptedVariables: Set<number> = new Set();
-
-    constructor(app: App, plugin: BJJFlipmodePlugin, enrichments: any, sourceFile: TFile, checkpointData: any) {
-        super(app);
-        this.plugin = plugin;
-        this.enrichments = enrichments;
-        this.sourceFile = sourceFile;
-        this.checkpointData = checkpointData;
-    }
-
-    onOpen() {
-        const { contentEl } = this;
-        const { enrichments } = this;
-
-        // Header
-        contentEl.createEl('h2', { text: 'Enrichment Results' });
-
-        // Stats
-        const statsEl = contentEl.createEl('div', { cls: 'enrichment-stats' });
-        statsEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
-        statsEl.createEl('p', { text: `Checkpoint: ${enrichments.checkpoint_name}` });
-        statsEl.createEl('p', { text: `📹 ${enrichments.sources_analyzed} videos analyzed` });
-
-        // Scrollable content
-        const scrollEl = contentEl.createEl('div', { cls: 'enrichment-scroll' });
-        scrollEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
-
-        // New Invariables
-        if (enrichments.new_invariables && enrichments.new_invariables.length > 0) {
-            const invSection = scrollEl.createEl('div', { cls: 'invariables-section' });
-            invSection.createEl('h3', { text: `New Invariables (${enrichments.new_invariables.length})` });
-
-            enrichments.new_invariables.forEach((inv: any, idx: number) => {
-                const itemEl = invSection.createEl('div', { cls: 'enrichment-item' });
-                itemEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-primary-alt); border-left: 3px solid var(--text-success);';
-
-                const headerRow = itemEl.createEl('div');
-                headerRow.style.cssText = 'display: flex; align-items: center; gap: 10px;';
-
-                const checkbox = headerRow.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
-                checkbox.checked = true;
-                this.acceptedInvariables.add(idx);
-
-                checkbox.addEventListener('change', () => {
-                    if (checkbox.checked) {
-                        this.acceptedInvariables.add(idx);
-                    } else {
-                        this.acceptedInvariables.delete(idx);
-                    }
-                });
-
-                const tierBadge = headerRow.createEl('span', { cls: 'tier-badge' });
-                tierBadge.style.cssText = `padding: 2px 6px; border-radius: 3px; font-size: 0.8em; background: ${inv.tier === 'CRITICAL' ? 'var(--text-error)' : inv.tier === 'IMPORTANT' ? 'var(--text-warning)' : 'var(--text-muted)'}; color: white;`;
-                tierBadge.textContent = inv.tier;
-
-                headerRow.createEl('strong', { text: inv.name });
-
-                if (inv.source_instructor) {
-                    const sourceEl = itemEl.createEl('p');
-                    sourceEl.style.cssText = 'margin: 5px 0; font-size: 0.85em; color: var(--text-accent);';
-                    sourceEl.textContent = `Source: ${inv.source_instructor}${inv.timestamp ? ` [${inv.timestamp}]` : ''}`;
-                }
-
-                if (inv.description) {
-                    const descEl = itemEl.createEl('p');
-                    descEl.style.cssText = 'margin: 5px 0; font-size: 0.9em; color: var(--text-muted);';
-                    descEl.textContent = inv.description;
-                }
-            });
-        }
-
-        // New Variables
-        if (enrichments.new_variables && enrichments.new_variables.length > 0) {
-            const varSection = scrollEl.createEl('div', { cls: 'variables-section' });
-            varSection.style.cssText = 'margin-top: 15px;';
-            varSection.createEl('h3', { text: `🔀 New Variables (${enrichments.new_variables.length})` });
-
-            enrichments.new_variables.forEach((v: any, idx: number) => {
-                const itemEl = varSection.createEl('div', { cls: 'enrichment-item' });
-                itemEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-primary-alt); border-left: 3px solid var(--text-warning);';
-
-                const headerRow = itemEl.createEl('div');
-                headerRow.style.cssText = 'display: flex; align-items: center; gap: 10px;';
-
-                const checkbox = headerRow.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
-                checkbox.checked = true;
-                this.acceptedVariables.add(idx);
-
-                checkbox.addEventListener('change', () => {
-                    if (checkbox.checked) {
-                        this.acceptedVariables.add(idx);
-                    } else {
-                        this.acceptedVariables.delete(idx);
-                    }
-                });
 
-                headerRow.createEl('strong', { text: `${v.condition} → ${v.action}` });
+                        // STEP 2: Enrich all checkpoints
+                        progressEl.createEl('h4', { text: 'Step 2: Enriching checkpoints...' });
 
-                if (v.source_instructor) {
-                    const sourceEl = itemEl.createEl('p');
-                    sourceEl.style.cssText = 'margin: 5px 0; font-size: 0.85em; color: var(--text-accent);';
-                    sourceEl.textContent = `Source: ${v.source_instructor}${v.timestamp ? ` [${v.timestamp}]` : ''}`;
-                }
+                        const videoIds = Array.from(this.selectedVideos);
+                        let successCount = 0;
+                        let totalNewConcepts = 0;
 
-                if (v.description) {
-                    const descEl = itemEl.createEl('p');
-                    descEl.style.cssText = 'margin: 5px 0; font-size: 0.9em; color: var(--text-muted);';
-                    descEl.textContent = v.description;
-                }
-            });
-        }
+                        for (let i = 0; i < this.checkpointFiles.length; i++) {
+                            const file = this.checkpointFiles[i];
+                            const checkpointName = file.basename;
 
-        // Defensive Inversions
-        if (enrichments.defensive_inversions && enrichments.defensive_inversions.length > 0) {
-            const invSection = scrollEl.createEl('div', { cls: 'inversions-section' });
-            invSection.style.cssText = 'margin-top: 15px;';
-            invSection.createEl('h3', { text: `Defensive Inversions (${enrichments.defensive_inversions.length})` });
+                            const statusEl = progressEl.createEl('div');
+                            statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName}...`;
 
-            for (const inv of enrichments.defensive_inversions) {
-                const itemEl = invSection.createEl('div', { cls: 'inversion-item' });
-                itemEl.style.cssText = 'padding: 10px; margin: 5px 0; border-radius: 5px; background: var(--background-primary-alt); border-left: 3px solid var(--interactive-accent);';
+                            try {
+                                // Parse checkpoint data
+                                const { checkpoint } = await this.plugin.readCheckpointNote(file);
 
-                itemEl.createEl('p', { text: `Defender wants: ${inv.defensive_concept}` });
-                itemEl.createEl('p', { text: `→ You should: ${inv.offensive_counter}` });
-                if (inv.source_instructor) {
-                    const srcEl = itemEl.createEl('p');
-                    srcEl.style.cssText = 'font-size: 0.85em; color: var(--text-accent);';
-                    srcEl.textContent = `Source: ${inv.source_instructor}`;
-                }
-            }
-        }
+                                // Call enrichment API
+                                const response = await requestUrl({
+                                    url: `${this.plugin.settings.serverUrl}/api/obsidian/enrich-checkpoint`,
+                                    method: 'POST',
+                                    headers: {
+                                        'Content-Type': 'application/json',
+                                        'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                                    },
+                                    body: JSON.stringify({
+                                        checkpoint_name: checkpointName,
+                                        checkpoint_cluster: checkpoint.cluster,
+                                        current_invariables: checkpoint.invariables.map(inv => inv.name),
+                                        current_variables: checkpoint.variables.map(describeVariable),
+                                        goal: checkpoint.goal,
+                                        success_test: checkpoint.successTest,
+                                        video_ids: videoIds
+                                    }),
+                                    throw: false
+                                });
 
-        // Key Insights
-        if (enrichments.key_insights && enrichments.key_insights.length > 0) {
-            const insightsSection = scrollEl.createEl('div', { cls: 'insights-section' });
-            insightsSection.style.cssText = 'margin-top: 15px;';
-            insightsSection.createEl('h3', { text: `Key Insights` });
+                                if (response.status === 200) {
+                                    const enrichments = response.json;
+                                    const newCount = (enrichments.new_invariables?.length || 0) + (enrichments.new_variables?.length || 0);
+                                    totalNewConcepts += newCount;
 
-            const ul = insightsSection.createEl('ul');
-            for (const insight of enrichments.key_insights) {
-                ul.createEl('li', { text: insight });
-            }
-        }
+                                    // Auto-apply enrichments to markdown files
+                                    if (newCount > 0) {
+                                        await this.applyEnrichmentsToCheckpoint(file, enrichments);
+                                    }
 
-        // Footer
-        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-        footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
+                                    statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName} - ${newCount} new concepts`;
+                                    statusEl.style.color = 'var(--text-success)';
+                                    successCount++;
+                                } else {
+                                    statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName} - Failed`;
+                                    statusEl.style.color = 'var(--text-error)';
+                                }
+                            } catch (error: any) {
+                                statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName} - Error: ${error.message}`;
+                                statusEl.style.color = 'var(--text-error)';
+                            }
+                        }
 
-        new Setting(footerEl)
-            .addButton(btn => btn
-                .setButtonText('Apply Selected Enrichments')
-                .setCta()
-                .onClick(async () => {
-                    await this.applyEnrichments();
-                }))
-            .addButton(btn => btn
-                .setButtonText('Cancel')
-                .onClick(() => this.close()));
-    }
+                        // STEP 3: Rebuild canvas
+                        progressEl.createEl('hr');
+                        progressEl.createEl('h4', { text: 'Step 3: Rebuilding canvas...' });
 
-    async applyEnrichments() {
-        const { enrichments, sourceFile, checkpointData } = this;
+                        const rebuildStatus = progressEl.createEl('div');
+                        rebuildStatus.textContent = 'Scanning checkpoint files and linked concepts...';
 
-        try {
-            // Read current file
-            let content = await this.app.vault.read(sourceFile);
+                        try {
+                            const { path: newCanvasPath, rebuild } = await this.rebuildCanvasForFolder(this.folder, this.canvasFile.basename);
+                            rebuildStatus.textContent = `Canvas rebuilt: ${newCanvasPath} (${this.plugin.describeCanvasRebuild(rebuild)})`;
+                            rebuildStatus.style.color = 'var(--text-success)';
+                        } catch (err: any) {
+                            rebuildStatus.textContent = `Canvas rebuild failed: ${err.message}`;
+                            rebuildStatus.style.color = 'var(--text-error)';
+                        }
 
-            // Get accepted invariables
-            const newInvariables = enrichments.new_invariables?.filter((_: any, idx: number) =>
-                this.acceptedInvariables.has(idx)
-            ) || [];
+                        // Summary
+                        progressEl.createEl('hr');
+                        progressEl.createEl('p', {
+                            text: `Complete: ${successCount}/${this.checkpointFiles.length} checkpoints enriched, ${totalNewConcepts} new concepts added`
+                        });
 
-            // Get accepted variables
-            const newVariables = enrichments.new_variables?.filter((_: any, idx: number) =>
-                this.acceptedVariables.has(idx)
-            ) || [];
+                        btn.setButtonText('Done');
+                        btn.setDisabled(false);
+                        btn.buttonEl.onclick = () => this.close();
+                        new Notice(`RLM Pipeline complete: ${totalNewConcepts} new concepts, canvas rebuilt`);
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('Cancel')
+                    .onClick(() => this.close()));
 
-            if (newInvariables.length === 0 && newVariables.length === 0) {
-                new Notice('No enrichments selected');
-                return;
-            }
+        } catch (error: any) {
+            loadingEl.textContent = `Error loading catalog: ${error.message}`;
+        }
+    }
 
-            // Track created files for Canvas
-            const createdFiles: TFile[] = [];
+    async applyEnrichmentsToCheckpoint(file: TFile, enrichments: any) {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const cluster = cache?.frontmatter?.cluster || '';
 
-            // Add new invariables to the table (create method files with timestamps for WebM clips)
-            if (newInvariables.length > 0) {
-                const tableMatch = content.match(/(## INVARIABLES[\s\S]*?\| REFINEMENT \|[^\n]*)/);
-                if (tableMatch) {
-                    let newRows = '';
-                    for (const inv of newInvariables) {
-                        // Sanitize name for file path
-                        const safeName = inv.name.replace(/[\\/:*?"<>|]/g, '-').substring(0, 60);
-                        const conceptPath = `${sourceFile.parent?.path}/${safeName}.md`;
-
-                        const conceptContent = `---
+        const note = await this.plugin.readCheckpointNote(file);
+        let content = note.content;
+        const links: CheckpointLinks = note.checkpoint;
+
+        // Add new invariables (create concept files with timestamps for WebM clips)
+        if (enrichments.new_invariables?.length > 0) {
+            const tableMatch = content.match(/(## INVARIABLES[\s\S]*?\| REFINEMENT \|[^\n]*)/);
+            let newRows = '';
+            for (const inv of enrichments.new_invariables) {
+                // Sanitize name for file path
+                const safeName = inv.name.replace(/[\\/:*?"<>|]/g, '-').substring(0, 60);
+                const conceptPath = `${file.parent?.path}/${safeName}.md`;
+
+                const conceptContent = `---
 type: method
 method_type: invariable
-cluster: "${checkpointData.cluster}"
+checkpoints: ["${file.basename}"]
+cluster: "${cluster}"
 tier: "${inv.tier}"
 source_instructor: "${inv.source_instructor || 'Unknown'}"
 video_id: "${inv.video_id || ''}"
@@ -8901,37 +13923,40 @@ ${inv.description || ''}
 - **Timestamp:** ${inv.timestamp || 'N/A'}
 - **Video ID:** ${inv.video_id || 'N/A'}
 `;
-                        const existingFile = this.app.vault.getAbstractFileByPath(conceptPath);
-                        if (!existingFile) {
-                            const newFile = await this.app.vault.create(conceptPath, conceptContent);
-                            createdFiles.push(newFile);
-                        }
-
-                        const linkText = `[[${safeName}]]`;
-                        newRows += `| ${inv.tier} | ${linkText} |\n`;
-                    }
+                const existingFile = this.app.vault.getAbstractFileByPath(conceptPath);
+                if (!existingFile) {
+                    await this.app.vault.create(conceptPath, conceptContent);
+                } else if (existingFile instanceof TFile) {
+                    await this.plugin.addNoteToCheckpoint(existingFile, file.basename);
+                }
 
-                    const refinementMatch = content.match(/(\| REFINEMENT \|[^\n]*\n)/);
-                    if (refinementMatch) {
-                        content = content.replace(refinementMatch[1], newRows + refinementMatch[1]);
-                    }
+                const linkText = `[[${safeName}]]`;
+                newRows += `| ${inv.tier} | ${linkText} |\n`;
+                if (!links.invariables.some(existing => existing.name === safeName)) {
+                    links.invariables.push({ name: safeName, tier: normalizeTier(inv.tier) });
                 }
             }
 
-            // Add new variables (also create method files for IF/THEN branches)
-            if (newVariables.length > 0) {
-                const variablesMatch = content.match(/(## VARIABLES \(IF\/THEN\)\n\n)([\s\S]*?)(\n---)/);
-                if (variablesMatch) {
-                    let newVarText = '';
-                    for (const v of newVariables) {
-                        // Create a method file for the variable
-                        const safeName = v.condition.replace(/^IF\s*/i, '').replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
-                        const varPath = `${sourceFile.parent?.path}/VAR - ${safeName}.md`;
+            const refinementMatch = content.match(/(\| REFINEMENT \|[^\n]*\n)/);
+            if (tableMatch && refinementMatch) {
+                content = content.replace(refinementMatch[1], newRows + refinementMatch[1]);
+            }
+        }
+
+        // Add new variables (also create method files for IF/THEN branches)
+        if (enrichments.new_variables?.length > 0) {
+            const variablesMatch = content.match(/(## VARIABLES \(IF\/THEN\)\n\n)([\s\S]*?)(\n---)/);
+            let newVarText = '';
+            for (const v of enrichments.new_variables) {
+                // Create a method file for the variable too
+                const safeName = v.condition.replace(/^IF\s*/i, '').replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
+                const varPath = `${file.parent?.path}/VAR - ${safeName}.md`;
 
-                        const varContent = `---
+                const varContent = `---
 type: method
 method_type: variable
-cluster: "${checkpointData.cluster}"
+checkpoints: ["${file.basename}"]
+cluster: "${cluster}"
 condition: "${v.condition}"
 action: "${v.action}"
 source_instructor: "${v.source_instructor || 'Unknown'}"
@@ -8952,974 +13977,890 @@ ${v.description || ''}
 - **Timestamp:** ${v.timestamp || 'N/A'}
 - **Video ID:** ${v.video_id || 'N/A'}
 `;
-                        const existingVarFile = this.app.vault.getAbstractFileByPath(varPath);
-                        if (!existingVarFile) {
-                            const newVarFile = await this.app.vault.create(varPath, varContent);
-                            createdFiles.push(newVarFile);
-                        }
-
-                        newVarText += `- **${v.condition}** → ${v.action} → [[VAR - ${safeName}]]\n`;
-                    }
-                    content = content.replace(
-                        variablesMatch[0],
-                        variablesMatch[1] + variablesMatch[2] + newVarText + variablesMatch[3]
-                    );
+                const existingVarFile = this.app.vault.getAbstractFileByPath(varPath);
+                if (!existingVarFile) {
+                    await this.app.vault.create(varPath, varContent);
+                } else if (existingVarFile instanceof TFile) {
+                    await this.plugin.addNoteToCheckpoint(existingVarFile, file.basename);
                 }
-            }
-
-            // Add enrichment metadata to frontmatter (remove old entries first to avoid duplicates)
-            const enrichmentDate = new Date().toISOString().split('T')[0];
 
-            if (content.includes('---\n')) {
-                const parts = content.split('---');
-                if (parts.length >= 2) {
-                    // Remove existing enrichment lines
-                    parts[1] = parts[1]
-                        .replace(/\nlast_enriched:.*$/gm, '')
-                        .replace(/\nenrichment_sources:.*$/gm, '')
-                        .trimEnd();
-                    // Add fresh enrichment data
-                    parts[1] += `\nlast_enriched: ${enrichmentDate}\nenrichment_sources: ${enrichments.sources_analyzed} videos\n`;
-                    content = parts.join('---');
+                newVarText += `- **${v.condition}** → ${v.action} → [[VAR - ${safeName}]]\n`;
+                if (!links.variables.some(existing => existing.name === `VAR - ${safeName}`)) {
+                    links.variables.push({ name: `VAR - ${safeName}`, condition: v.condition, action: v.action });
                 }
             }
-
-            // Save the file
-            await this.app.vault.modify(sourceFile, content);
-
-            // ========== ADD NODES TO CANVAS ==========
-            // Find the active Canvas and add nodes for new concepts
-            const canvasLeaves = this.app.workspace.getLeavesOfType('canvas');
-            if (canvasLeaves.length > 0 && createdFiles.length > 0) {
-                const canvasView = canvasLeaves[0].view as any;
-                const canvas = canvasView?.canvas;
-
-                if (canvas) {
-                    // Find the checkpoint node in the canvas
-                    let checkpointNode: any = null;
-                    let checkpointX = 0;
-                    let checkpointY = 0;
-
-                    for (const node of canvas.nodes.values()) {
-                        if (node.file?.path === sourceFile.path) {
-                            checkpointNode = node;
-                            checkpointX = node.x;
-                            checkpointY = node.y;
-                            break;
-                        }
-                    }
-
-                    // Add new nodes arranged around the checkpoint
-                    const nodeWidth = 250;
-                    const nodeHeight = 100;
-                    const spacing = 50;
-                    const startX = checkpointX + 350; // To the right of checkpoint
-                    let currentY = checkpointY - ((createdFiles.length - 1) * (nodeHeight + spacing)) / 2;
-
-                    for (const file of createdFiles) {
-                        // Create a file node on the canvas
-                        const nodeData = {
-                            id: `enrichment-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                            type: 'file',
-                            file: file.path,
-                            x: startX,
-                            y: currentY,
-                            width: nodeWidth,
-                            height: nodeHeight
-                        };
-
-                        canvas.createFileNode({
-                            file: file,
-                            pos: { x: startX, y: currentY },
-                            size: { width: nodeWidth, height: nodeHeight }
-                        });
-
-                        currentY += nodeHeight + spacing;
-                    }
-
-                    // Request canvas save
-                    canvas.requestSave();
-
-                    new Notice(`Added ${createdFiles.length} nodes to Canvas`);
-                }
+            if (variablesMatch) {
+                content = content.replace(
+                    variablesMatch[0],
+                    variablesMatch[1] + variablesMatch[2] + newVarText + variablesMatch[3]
+                );
             }
-
-            new Notice(`Applied ${newInvariables.length} invariables and ${newVariables.length} variables`);
-
-            this.close();
-
-            // Refresh the file
-            const leaf = this.app.workspace.getLeaf();
-            await leaf.openFile(sourceFile);
-
-        } catch (error: any) {
-            new Notice(`Failed to apply enrichments: ${error.message}`);
-            console.error('Apply enrichments error:', error);
         }
-    }
-
-    onClose() {
-        this.contentEl.empty();
-    }
-}
-
-// RLM Pipeline Modal - Single button: Backup → Enrich → Rebuild Canvas
-class RLMPipelineModal extends Modal {
-    plugin: BJJFlipmodePlugin;
-    canvasFile: TFile;
-    folder: TFolder;
-    checkpointFiles: TFile[];
-    selectedVideos: Set<string> = new Set();
-    catalogData: any = null;
-
-    constructor(app: App, plugin: BJJFlipmodePlugin, canvasFile: TFile, folder: TFolder, checkpointFiles: TFile[]) {
-        super(app);
-        this.plugin = plugin;
-        this.canvasFile = canvasFile;
-        this.folder = folder;
-        this.checkpointFiles = checkpointFiles;
-    }
-
-    async onOpen() {
-        const { contentEl } = this;
-
-        contentEl.createEl('h2', { text: 'RLM Pipeline: Enrich & Rebuild' });
 
-        // Pipeline steps
-        const stepsEl = contentEl.createEl('div', { cls: 'pipeline-steps' });
-        stepsEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
-        stepsEl.createEl('p', { text: 'This will:', cls: 'steps-header' });
-        const stepsList = stepsEl.createEl('ol');
-        stepsList.style.cssText = 'margin: 5px 0; padding-left: 25px; font-size: 0.9em;';
-        stepsList.createEl('li', { text: 'Backup current canvas (version control)' });
-        stepsList.createEl('li', { text: 'Enrich all checkpoints with selected videos' });
-        stepsList.createEl('li', { text: 'Rebuild canvas with proper layout & connections' });
+        // Structured relationships are what canvases are rebuilt from
+        content = setCheckpointFrontmatter(content, links);
 
-        // Show checkpoints found
-        const infoEl = contentEl.createEl('div', { cls: 'checkpoint-info' });
-        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-primary-alt); border-radius: 5px;';
-        infoEl.createEl('p', { text: `Found ${this.checkpointFiles.length} checkpoints in ${this.folder.name}:` });
+        // Add metadata (remove old entries first to avoid duplicates)
+        const enrichmentDate = new Date().toISOString().split('T')[0];
 
-        const checkpointList = infoEl.createEl('ul');
-        checkpointList.style.cssText = 'margin: 5px 0; padding-left: 20px; font-size: 0.9em; max-height: 100px; overflow-y: auto;';
-        for (const file of this.checkpointFiles) {
-            checkpointList.createEl('li', { text: file.basename });
+        if (content.includes('---\n')) {
+            const parts = content.split('---');
+            if (parts.length >= 2) {
+                // Remove existing enrichment lines
+                parts[1] = parts[1]
+                    .replace(/\nlast_enriched:.*$/gm, '')
+                    .replace(/\nenrichment_sources:.*$/gm, '')
+                    .trimEnd();
+                // Add fresh enrichment data
+                parts[1] += `\nlast_enriched: ${enrichmentDate}\nenrichment_sources: ${enrichments.sources_analyzed} videos\n`;
+                content = parts.join('---');
+            }
         }
 
-        // Loading catalog
-        const loadingEl = contentEl.createEl('div', { text: 'Loading video catalog...' });
-        loadingEl.style.cssText = 'padding: 20px; text-align: center;';
+        await this.app.vault.modify(file, content);
+    }
 
-        try {
-            const response = await requestUrl({
-                url: `${this.plugin.settings.serverUrl}/api/obsidian/catalog`,
-                method: 'GET',
-                headers: { 'Authorization': `Bearer ${this.plugin.settings.apiToken}` }
-            });
-            this.catalogData = response.json;
-            loadingEl.remove();
+    /**
+     * Rebuild canvas from checkpoints in a folder.
+     * Creates a new canvas with proper layout and connections.
+     */
+    async rebuildCanvasForFolder(folder: TFolder, canvasBasename: string): Promise<{ path: string; rebuild: RebuildResult }> {
+        // Find all checkpoint and method files in the folder
+        const checkpoints: any[] = [];
+        const methods: any[] = [];
 
-            contentEl.createEl('p', {
-                text: `Select videos to cross-reference ALL checkpoints (${this.catalogData.total_videos} available):`
-            });
+        for (const file of this.app.vault.getFiles()) {
+            // Must be markdown in same folder
+            if (file.extension !== 'md') continue;
+            if (file.parent?.path !== folder.path) continue;
 
-            // Selected count
-            const selectedCountEl = contentEl.createEl('div', { cls: 'selected-count' });
-            selectedCountEl.style.cssText = 'margin-bottom: 10px; font-weight: bold; color: var(--text-accent);';
-            selectedCountEl.textContent = '0 videos selected';
+            const cache = this.app.metadataCache.getFileCache(file);
+            const frontmatter = cache?.frontmatter;
 
-            const updateCount = () => {
-                selectedCountEl.textContent = `${this.selectedVideos.size} videos selected`;
-            };
+            if (frontmatter?.type === 'checkpoint') {
+                const { checkpoint } = await this.plugin.readCheckpointNote(file);
+                const order = checkpoint.order ?? parseInt(file.basename.match(/\[(\d+)\]/)?.[1] || '99');
 
-            // Search filter
-            const searchEl = contentEl.createEl('input', { type: 'text', placeholder: 'Filter instructors/series...' });
-            searchEl.style.cssText = 'width: 100%; padding: 8px; margin-bottom: 10px; border-radius: 5px; border: 1px solid var(--background-modifier-border);';
+                checkpoints.push({
+                    file,
+                    order,
+                    cluster: checkpoint.cluster,
+                    invariables: checkpoint.invariables.map(inv => inv.name),
+                    variables: checkpoint.variables.map(v => v.name).filter(Boolean),
+                    navigation: [checkpoint.previous, checkpoint.next].filter(Boolean)
+                });
+            } else if (frontmatter?.type === 'method' || frontmatter?.type === 'concept' || frontmatter?.method_type) {
+                // Method/concept files - used to connect to checkpoints
+                methods.push({
+                    file,
+                    tier: frontmatter?.tier || frontmatter?.method_type || 'REFINEMENT',
+                    cluster: frontmatter?.cluster || ''
+                });
+            }
+        }
 
-            // Catalog list
-            const listEl = contentEl.createEl('div', { cls: 'catalog-list' });
-            listEl.style.cssText = 'max-height: 200px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 5px; padding: 10px;';
+        if (checkpoints.length === 0) {
+            throw new Error('No checkpoint files found');
+        }
 
-            const renderCatalog = (filter: string = '') => {
-                listEl.empty();
-                const filterLower = filter.toLowerCase();
+        // Sort checkpoints by order
+        checkpoints.sort((a, b) => a.order - b.order);
 
-                for (const instructor of this.catalogData.instructors) {
-                    const instructorMatches = instructor.name.toLowerCase().includes(filterLower);
-                    const matchingSeries = instructor.series.filter((s: any) =>
-                        instructorMatches || s.name.toLowerCase().includes(filterLower)
-                    );
+        // Build canvas JSON
+        const canvasData: any = { nodes: [], edges: [] };
 
-                    if (matchingSeries.length === 0 && !instructorMatches) continue;
+        // Node sizes (positions come from layoutCanvas)
+        const checkpointWidth = 300;
+        const checkpointHeight = 150;
+        const methodWidth = 200;
+        const methodHeight = 80;
 
-                    const groupEl = listEl.createEl('div', { cls: 'instructor-group' });
-                    groupEl.style.cssText = 'margin-bottom: 8px;';
+        const nodeIdMap: Map<string, string> = new Map();
 
-                    const headerEl = groupEl.createEl('div', { cls: 'instructor-header' });
-                    headerEl.style.cssText = 'display: flex; align-items: center; gap: 5px; cursor: pointer; padding: 3px; background: var(--background-secondary); border-radius: 3px;';
+        for (let i = 0; i < checkpoints.length; i++) {
+            const cp = checkpoints[i];
+            const nodeId = `checkpoint-${i}`;
+            nodeIdMap.set(cp.file.basename, nodeId);
 
-                    const expandIcon = headerEl.createEl('span', { text: '>' });
-                    expandIcon.style.cssText = 'font-size: 0.8em; width: 12px;';
+            canvasData.nodes.push({
+                id: nodeId,
+                type: 'file',
+                file: cp.file.path,
+                rank: i,
+                width: checkpointWidth,
+                height: checkpointHeight,
+                color: '4'
+            });
 
-                    const instructorCb = headerEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
-                    headerEl.createEl('span', { text: `${instructor.name} (${instructor.video_count})` });
+            // Add method nodes for invariables
+            for (const invName of cp.invariables) {
+                const methodFile = methods.find(m => m.file.basename === invName);
+                if (methodFile) {
+                    const methodId = `method-${nodeIdMap.size}`;
+                    nodeIdMap.set(invName, methodId);
 
-                    const seriesContainer = groupEl.createEl('div');
-                    seriesContainer.style.cssText = 'display: none; margin-left: 20px; font-size: 0.9em;';
+                    // Determine color based on tier
+                    let color = '0';
+                    if (methodFile.tier === 'CRITICAL') color = '1';
+                    else if (methodFile.tier === 'IMPORTANT') color = '6';
+                    else if (methodFile.tier === 'invariable') color = '5';
 
-                    headerEl.addEventListener('click', (e) => {
-                        if (e.target === instructorCb) return;
-                        const isExpanded = seriesContainer.style.display !== 'none';
-                        seriesContainer.style.display = isExpanded ? 'none' : 'block';
-                        expandIcon.textContent = isExpanded ? '>' : 'v';
+                    canvasData.nodes.push({
+                        id: methodId,
+                        type: 'file',
+                        file: methodFile.file.path,
+                        anchor: nodeId,
+                        side: 'before',
+                        tier: methodFile.tier,
+                        width: methodWidth,
+                        height: methodHeight,
+                        color
                     });
 
-                    const allVideoIds: string[] = [];
-                    const seriesToRender = instructorMatches ? instructor.series : matchingSeries;
+                    canvasData.edges.push({
+                        id: `edge-${canvasData.edges.length}`,
+                        fromNode: nodeId,
+                        fromSide: 'right',
+                        toNode: methodId,
+                        toSide: 'left'
+                    });
+                }
+            }
 
-                    for (const series of seriesToRender) {
-                        const seriesEl = seriesContainer.createEl('div');
-                        seriesEl.style.cssText = 'display: flex; align-items: center; gap: 5px; padding: 2px 0;';
+            // Edge to next checkpoint
+            if (i < checkpoints.length - 1) {
+                canvasData.edges.push({
+                    id: `edge-cp-${i}`,
+                    fromNode: nodeId,
+                    fromSide: 'right',
+                    toNode: `checkpoint-${i + 1}`,
+                    toSide: 'left',
+                    color: '5'
+                });
+            }
+        }
 
-                        const seriesCb = seriesEl.createEl('input', { type: 'checkbox' }) as HTMLInputElement;
-                        seriesEl.createEl('span', { text: `${series.name} (${series.video_count})` });
+        // Add navigation edges
+        for (const cp of checkpoints) {
+            const fromId = nodeIdMap.get(cp.file.basename);
+            for (const navTarget of cp.navigation) {
+                const toId = nodeIdMap.get(navTarget);
+                if (fromId && toId && fromId !== toId) {
+                    const exists = canvasData.edges.some((e: any) =>
+                        e.fromNode === fromId && e.toNode === toId
+                    );
+                    if (!exists) {
+                        canvasData.edges.push({
+                            id: `edge-nav-${canvasData.edges.length}`,
+                            fromNode: fromId,
+                            fromSide: 'bottom',
+                            toNode: toId,
+                            toSide: 'top',
+                            color: '3'
+                        });
+                    }
+                }
+            }
+        }
 
-                        const videoIds = series.videos.map((v: any) => v.video_id);
-                        allVideoIds.push(...videoIds);
+        // Write invariables canvas file
+        const canvasPath = `${folder.path}/${canvasBasename} - RLM.canvas`;
+        const rebuild = await this.plugin.writeGeneratedCanvas(canvasPath, canvasData);
 
-                        const allSelected = videoIds.every((id: string) => this.selectedVideos.has(id));
-                        seriesCb.checked = allSelected;
+        // Build VARIABLES canvas (checkpoints with IF/THEN branches below)
+        const varCanvasData: any = { nodes: [], edges: [] };
+        const varNodeIdMap: Map<string, string> = new Map();
 
-                        seriesCb.addEventListener('change', () => {
-                            for (const id of videoIds) {
-                                if (seriesCb.checked) {
-                                    this.selectedVideos.add(id);
-                                } else {
-                                    this.selectedVideos.delete(id);
-                                }
-                            }
-                            updateCount();
-                        });
-                    }
+        for (let i = 0; i < checkpoints.length; i++) {
+            const cp = checkpoints[i];
+            const nodeId = `checkpoint-${i}`;
+            varNodeIdMap.set(cp.file.basename, nodeId);
 
-                    instructorCb.addEventListener('change', () => {
-                        const checkboxes = seriesContainer.querySelectorAll('input[type="checkbox"]') as NodeListOf<HTMLInputElement>;
-                        checkboxes.forEach(cb => cb.checked = instructorCb.checked);
-                        for (const id of allVideoIds) {
-                            if (instructorCb.checked) {
-                                this.selectedVideos.add(id);
-                            } else {
-                                this.selectedVideos.delete(id);
-                            }
-                        }
-                        updateCount();
+            varCanvasData.nodes.push({
+                id: nodeId,
+                type: 'file',
+                file: cp.file.path,
+                rank: i,
+                width: checkpointWidth,
+                height: checkpointHeight,
+                color: '4'
+            });
+
+            // Add variable nodes below checkpoint
+            for (const varName of cp.variables) {
+                const varFile = methods.find(m => m.file.basename === varName);
+                if (varFile) {
+                    const varId = `var-${varNodeIdMap.size}`;
+                    varNodeIdMap.set(varName, varId);
+
+                    varCanvasData.nodes.push({
+                        id: varId,
+                        type: 'file',
+                        file: varFile.file.path,
+                        anchor: nodeId,
+                        side: 'after',
+                        tier: 'variable',
+                        width: methodWidth + 50,
+                        height: methodHeight,
+                        color: '2' // Green for variables
+                    });
+
+                    varCanvasData.edges.push({
+                        id: `edge-${varCanvasData.edges.length}`,
+                        fromNode: nodeId,
+                        fromSide: 'bottom',
+                        toNode: varId,
+                        toSide: 'top'
                     });
                 }
-            };
+            }
+
+            // Edge to next checkpoint
+            if (i < checkpoints.length - 1) {
+                varCanvasData.edges.push({
+                    id: `edge-cp-${i}`,
+                    fromNode: nodeId,
+                    fromSide: 'right',
+                    toNode: `checkpoint-${i + 1}`,
+                    toSide: 'left',
+                    color: '5'
+                });
+            }
+        }
 
-            renderCatalog();
-            searchEl.addEventListener('input', () => renderCatalog(searchEl.value));
+        // Write variables canvas file
+        const varCanvasPath = `${folder.path}/${canvasBasename} - Variables.canvas`;
+        await this.plugin.writeGeneratedCanvas(varCanvasPath, varCanvasData);
 
-            // Progress area (hidden initially)
-            const progressEl = contentEl.createEl('div', { cls: 'progress-area' });
-            progressEl.style.cssText = 'display: none; margin-top: 15px; padding: 10px; background: var(--background-primary-alt); border-radius: 5px;';
+        // Open the invariables canvas (primary)
+        const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
+        if (canvasFile) {
+            await this.app.workspace.getLeaf().openFile(canvasFile as TFile);
+        }
 
-            // Footer
-            const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-            footerEl.style.cssText = 'margin-top: 15px; display: flex; gap: 10px; justify-content: flex-end;';
+        return { path: canvasPath, rebuild };
+    }
 
-            new Setting(footerEl)
-                .addButton(btn => btn
-                    .setButtonText('Run RLM Pipeline')
-                    .setCta()
-                    .onClick(async () => {
-                        if (this.selectedVideos.size === 0) {
-                            new Notice('Select at least one video');
-                            return;
-                        }
+    /**
+     * Generate only the Variables canvas (without running full enrichment).
+     */
+    async generateVariablesCanvasOnly(folder: TFolder, canvasBasename: string): Promise<string> {
+        // Find all checkpoint and method files in the folder
+        const checkpoints: any[] = [];
+        const methods: any[] = [];
 
-                        btn.setButtonText('Running Pipeline...');
-                        btn.setDisabled(true);
+        for (const file of this.app.vault.getFiles()) {
+            if (file.extension !== 'md') continue;
+            if (file.parent?.path !== folder.path) continue;
 
-                        progressEl.style.display = 'block';
-                        progressEl.empty();
+            const cache = this.app.metadataCache.getFileCache(file);
+            const frontmatter = cache?.frontmatter;
 
-                        // STEP 1: Backup Canvas
-                        progressEl.createEl('h4', { text: 'Step 1: Backing up canvas...' });
-                        const backupName = `${this.canvasFile.basename}_backup_${Date.now()}.canvas`;
-                        const backupPath = `${this.folder.path}/${backupName}`;
-                        try {
-                            const canvasContent = await this.app.vault.read(this.canvasFile);
-                            await this.app.vault.create(backupPath, canvasContent);
-                            progressEl.createEl('p', { text: `Backup saved: ${backupName}` });
-                        } catch (e) {
-                            progressEl.createEl('p', { text: 'Backup failed, continuing...' });
-                        }
+            if (frontmatter?.type === 'checkpoint') {
+                const { checkpoint } = await this.plugin.readCheckpointNote(file);
+                const order = checkpoint.order ?? parseInt(file.basename.match(/\[(\d+)\]/)?.[1] || '99');
 
-                        // STEP 2: Enrich all checkpoints
-                        progressEl.createEl('h4', { text: 'Step 2: Enriching checkpoints...' });
+                checkpoints.push({ file, order, variables: checkpoint.variables.map(v => v.name).filter(Boolean) });
+            } else if (frontmatter?.type === 'method' || frontmatter?.method_type) {
+                methods.push({
+                    file,
+                    tier: frontmatter?.tier || frontmatter?.method_type || 'REFINEMENT'
+                });
+            }
+        }
 
-                        const videoIds = Array.from(this.selectedVideos);
-                        let successCount = 0;
-                        let totalNewConcepts = 0;
+        if (checkpoints.length === 0) {
+            throw new Error('No checkpoint files found');
+        }
 
-                        for (let i = 0; i < this.checkpointFiles.length; i++) {
-                            const file = this.checkpointFiles[i];
-                            const checkpointName = file.basename;
+        checkpoints.sort((a, b) => a.order - b.order);
 
-                            const statusEl = progressEl.createEl('div');
-                            statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName}...`;
+        // Build variables canvas
+        const canvasData: any = { nodes: [], edges: [] };
+        // Node sizes (positions come from layoutCanvas)
+        const checkpointWidth = 300;
+        const checkpointHeight = 150;
+        const methodWidth = 250;
+        const methodHeight = 80;
 
-                            try {
-                                // Parse checkpoint data
-                                const content = await this.app.vault.read(file);
-                                const cache = this.app.metadataCache.getFileCache(file);
-
-                                const invariablesMatch = content.match(/## INVARIABLES[\s\S]*?\|[\s\S]*?\|([\s\S]*?)(?=\n---|\n##|$)/);
-                                const currentInvariables: string[] = [];
-                                if (invariablesMatch) {
-                                    const links = invariablesMatch[1].match(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g) || [];
-                                    for (const link of links) {
-                                        const nameMatch = link.match(/\[\[(?:[^\]|]+\|)?([^\]]+)\]\]/);
-                                        if (nameMatch && nameMatch[1] !== 'none') {
-                                            currentInvariables.push(nameMatch[1].trim());
-                                        }
-                                    }
-                                }
+        const nodeIdMap: Map<string, string> = new Map();
 
-                                const variablesMatch = content.match(/## VARIABLES[\s\S]*?((?:- \*\*IF.*\n?)+)/);
-                                const currentVariables: string[] = [];
-                                if (variablesMatch) {
-                                    const lines = variablesMatch[1].match(/- \*\*IF[^*]+\*\*[^\n]+/g) || [];
-                                    currentVariables.push(...lines.map(l => l.replace(/^- /, '').trim()));
-                                }
+        for (let i = 0; i < checkpoints.length; i++) {
+            const cp = checkpoints[i];
+            const nodeId = `checkpoint-${i}`;
+            nodeIdMap.set(cp.file.basename, nodeId);
 
-                                const goalMatch = content.match(/## Goal\n\n([^\n]+)/);
-                                const goal = goalMatch ? goalMatch[1].trim() : '';
+            canvasData.nodes.push({
+                id: nodeId,
+                type: 'file',
+                file: cp.file.path,
+                rank: i,
+                width: checkpointWidth,
+                height: checkpointHeight,
+                color: '4'
+            });
 
-                                const successMatch = content.match(/## Success Test\n\n> ([^\n]+)/);
-                                const successTest = successMatch ? successMatch[1].trim() : '';
+            // Add variable nodes below
+            for (const varName of cp.variables) {
+                const varFile = methods.find(m => m.file.basename === varName);
+                if (varFile) {
+                    const varId = `var-${nodeIdMap.size}`;
+                    nodeIdMap.set(varName, varId);
 
-                                // Call enrichment API
-                                const response = await requestUrl({
-                                    url: `${this.plugin.settings.serverUrl}/api/obsidian/enrich-checkpoint`,
-                                    method: 'POST',
-                                    headers: {
-                                        'Content-Type': 'application/json',
-                                        'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                                    },
-                                    body: JSON.stringify({
-                                        checkpoint_name: checkpointName,
-                                        checkpoint_cluster: cache?.frontmatter?.cluster || '',
-                                        current_invariables: currentInvariables,
-                                        current_variables: currentVariables,
-                                        goal,
-                                        success_test: successTest,
-                                        video_ids: videoIds
-                                    }),
-                                    throw: false
-                                });
+                    canvasData.nodes.push({
+                        id: varId,
+                        type: 'file',
+                        file: varFile.file.path,
+                        anchor: nodeId,
+                        side: 'after',
+                        tier: 'variable',
+                        width: methodWidth,
+                        height: methodHeight,
+                        color: '2'
+                    });
 
-                                if (response.status === 200) {
-                                    const enrichments = response.json;
-                                    const newCount = (enrichments.new_invariables?.length || 0) + (enrichments.new_variables?.length || 0);
-                                    totalNewConcepts += newCount;
+                    canvasData.edges.push({
+                        id: `edge-${canvasData.edges.length}`,
+                        fromNode: nodeId,
+                        fromSide: 'bottom',
+                        toNode: varId,
+                        toSide: 'top'
+                    });
+                }
+            }
 
-                                    // Auto-apply enrichments to markdown files
-                                    if (newCount > 0) {
-                                        await this.applyEnrichmentsToCheckpoint(file, enrichments);
-                                    }
+            if (i < checkpoints.length - 1) {
+                canvasData.edges.push({
+                    id: `edge-cp-${i}`,
+                    fromNode: nodeId,
+                    fromSide: 'right',
+                    toNode: `checkpoint-${i + 1}`,
+                    toSide: 'left',
+                    color: '5'
+                });
+            }
+        }
 
-                                    statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName} - ${newCount} new concepts`;
-                                    statusEl.style.color = 'var(--text-success)';
-                                    successCount++;
-                                } else {
-                                    statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName} - Failed`;
-                                    statusEl.style.color = 'var(--text-error)';
-                                }
-                            } catch (error: any) {
-                                statusEl.textContent = `[${i + 1}/${this.checkpointFiles.length}] ${checkpointName} - Error: ${error.message}`;
-                                statusEl.style.color = 'var(--text-error)';
-                            }
-                        }
+        const canvasPath = `${folder.path}/${canvasBasename} - Variables.canvas`;
+        await this.plugin.writeGeneratedCanvas(canvasPath, canvasData);
 
-                        // STEP 3: Rebuild canvas
-                        progressEl.createEl('hr');
-                        progressEl.createEl('h4', { text: 'Step 3: Rebuilding canvas...' });
+        return canvasPath;
+    }
 
-                        const rebuildStatus = progressEl.createEl('div');
-                        rebuildStatus.textContent = 'Scanning checkpoint files and linked concepts...';
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-                        try {
-                            const newCanvasPath = await this.rebuildCanvasForFolder(this.folder, this.canvasFile.basename);
-                            rebuildStatus.textContent = `Canvas rebuilt: ${newCanvasPath}`;
-                            rebuildStatus.style.color = 'var(--text-success)';
-                        } catch (err: any) {
-                            rebuildStatus.textContent = `Canvas rebuild failed: ${err.message}`;
-                            rebuildStatus.style.color = 'var(--text-error)';
-                        }
+// Clip Browser Modal - Shows clip options with summaries from transcription
+class ClipBrowserModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    sourceFile: TFile;
+    clipData: any;
 
-                        // Summary
-                        progressEl.createEl('hr');
-                        progressEl.createEl('p', {
-                            text: `Complete: ${successCount}/${this.checkpointFiles.length} checkpoints enriched, ${totalNewConcepts} new concepts added`
-                        });
+    constructor(app: App, plugin: BJJFlipmodePlugin, sourceFile: TFile, clipData: any) {
+        super(app);
+        this.plugin = plugin;
+        this.sourceFile = sourceFile;
+        this.clipData = clipData;
+    }
 
-                        btn.setButtonText('Done');
-                        btn.setDisabled(false);
-                        btn.buttonEl.onclick = () => this.close();
-                        new Notice(`RLM Pipeline complete: ${totalNewConcepts} new concepts, canvas rebuilt`);
-                    }))
-                .addButton(btn => btn
-                    .setButtonText('Cancel')
-                    .onClick(() => this.close()));
+    onOpen() {
+        const { contentEl } = this;
+        const { clipData, sourceFile } = this;
 
-        } catch (error: any) {
-            loadingEl.textContent = `Error loading catalog: ${error.message}`;
-        }
-    }
+        contentEl.createEl('h2', { text: `Clip Options: ${sourceFile.basename}` });
 
-    async applyEnrichmentsToCheckpoint(file: TFile, enrichments: any) {
-        const cache = this.app.metadataCache.getFileCache(file);
-        const cluster = cache?.frontmatter?.cluster || '';
+        // Video info
+        const infoEl = contentEl.createEl('div', { cls: 'clip-info' });
+        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        infoEl.createEl('p', { text: `Video: ${clipData.video_name || clipData.video_id}` });
+        infoEl.createEl('p', { text: `Instructor: ${clipData.instructor || 'Unknown'}` });
+        infoEl.createEl('p', { text: `Found ${clipData.clips?.length || 0} relevant sections` });
 
-        let content = await this.app.vault.read(file);
+        if (!clipData.clips || clipData.clips.length === 0) {
+            contentEl.createEl('p', { text: 'No clip options found for this concept.' });
+            return;
+        }
 
-        // Add new invariables (create concept files with timestamps for WebM clips)
-        if (enrichments.new_invariables?.length > 0) {
-            const tableMatch = content.match(/(## INVARIABLES[\s\S]*?\| REFINEMENT \|[^\n]*)/);
-            if (tableMatch) {
-                let newRows = '';
-                for (const inv of enrichments.new_invariables) {
-                    // Sanitize name for file path
-                    const safeName = inv.name.replace(/[\\/:*?"<>|]/g, '-').substring(0, 60);
-                    const conceptPath = `${file.parent?.path}/${safeName}.md`;
+        // Clip list
+        const listEl = contentEl.createEl('div', { cls: 'clip-list' });
+        listEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
 
-                    const conceptContent = `---
-type: method
-method_type: invariable
-cluster: "${cluster}"
-tier: "${inv.tier}"
-source_instructor: "${inv.source_instructor || 'Unknown'}"
-video_id: "${inv.video_id || ''}"
-timestamp: "${inv.timestamp || ''}"
-clip_duration: 30
-enrichment_source: true
----
+        for (const clip of clipData.clips) {
+            const clipEl = listEl.createEl('div', { cls: 'clip-option' });
+            clipEl.style.cssText = 'margin-bottom: 15px; padding: 12px; background: var(--background-primary-alt); border-radius: 5px; border-left: 3px solid var(--text-accent);';
 
-# ${inv.name}
+            // Header with timestamp
+            const headerEl = clipEl.createEl('div', { cls: 'clip-header' });
+            headerEl.style.cssText = 'display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;';
 
-${inv.description || ''}
+            const timestampEl = headerEl.createEl('span', { cls: 'clip-timestamp' });
+            timestampEl.style.cssText = 'font-weight: bold; font-size: 1.1em; color: var(--text-accent);';
+            timestampEl.textContent = clip.timestamp || 'Unknown';
 
-## Clip Info
-- **Instructor:** ${inv.source_instructor || 'Unknown'}
-- **Timestamp:** ${inv.timestamp || 'N/A'}
-- **Video ID:** ${inv.video_id || 'N/A'}
-`;
-                    const existingFile = this.app.vault.getAbstractFileByPath(conceptPath);
-                    if (!existingFile) {
-                        await this.app.vault.create(conceptPath, conceptContent);
-                    }
+            const durationEl = headerEl.createEl('span', { cls: 'clip-duration' });
+            durationEl.style.cssText = 'font-size: 0.9em; color: var(--text-muted);';
+            durationEl.textContent = `${clip.duration || 30}s`;
 
-                    const linkText = `[[${safeName}]]`;
-                    newRows += `| ${inv.tier} | ${linkText} |\n`;
-                }
+            // Summary/description
+            const summaryEl = clipEl.createEl('div', { cls: 'clip-summary' });
+            summaryEl.style.cssText = 'margin-bottom: 10px; font-size: 0.95em;';
+            summaryEl.textContent = clip.summary || clip.description || 'No description';
 
-                const refinementMatch = content.match(/(\| REFINEMENT \|[^\n]*\n)/);
-                if (refinementMatch) {
-                    content = content.replace(refinementMatch[1], newRows + refinementMatch[1]);
-                }
+            // Transcript excerpt if available
+            if (clip.excerpt) {
+                const excerptEl = clipEl.createEl('div', { cls: 'clip-excerpt' });
+                excerptEl.style.cssText = 'font-size: 0.85em; color: var(--text-muted); font-style: italic; margin-bottom: 10px; padding: 8px; background: var(--background-secondary); border-radius: 3px;';
+                excerptEl.textContent = `"${clip.excerpt.substring(0, 200)}${clip.excerpt.length > 200 ? '...' : ''}"`;
             }
-        }
 
-        // Add new variables (also create method files for IF/THEN branches)
-        if (enrichments.new_variables?.length > 0) {
-            const variablesMatch = content.match(/(## VARIABLES \(IF\/THEN\)\n\n)([\s\S]*?)(\n---)/);
-            if (variablesMatch) {
-                let newVarText = '';
-                for (const v of enrichments.new_variables) {
-                    // Create a method file for the variable too
-                    const safeName = v.condition.replace(/^IF\s*/i, '').replace(/[\\/:*?"<>|]/g, '-').substring(0, 50);
-                    const varPath = `${file.parent?.path}/VAR - ${safeName}.md`;
+            // Extract button
+            const btnEl = clipEl.createEl('button', { text: 'Extract This Clip' });
+            btnEl.style.cssText = 'padding: 6px 12px; background: var(--interactive-accent); color: var(--text-on-accent); border: none; border-radius: 4px; cursor: pointer;';
 
-                    const varContent = `---
-type: method
-method_type: variable
-cluster: "${cluster}"
-condition: "${v.condition}"
-action: "${v.action}"
-source_instructor: "${v.source_instructor || 'Unknown'}"
-video_id: "${v.video_id || ''}"
-timestamp: "${v.timestamp || ''}"
-clip_duration: 30
-enrichment_source: true
----
+            btnEl.addEventListener('click', async () => {
+                btnEl.textContent = 'Extracting...';
+                btnEl.disabled = true;
 
-# ${v.condition}
+                // Parse timestamp to seconds
+                const parts = (clip.timestamp || '0:00').split(':').map((p: string) => parseInt(p, 10));
+                let startSeconds = 0;
+                if (parts.length === 3) {
+                    startSeconds = parts[0] * 3600 + parts[1] * 60 + parts[2];
+                } else if (parts.length === 2) {
+                    startSeconds = parts[0] * 60 + parts[1];
+                }
 
-**Action:** ${v.action}
+                const clipPath = await this.plugin.doExtractClip(
+                    clipData.video_id,
+                    startSeconds,
+                    clip.duration || 30,
+                    `${sourceFile.basename}_${clip.timestamp?.replace(/:/g, '-') || 'clip'}`
+                );
 
-${v.description || ''}
+                if (clipPath) {
+                    new Notice(`Clip saved: ${clipPath}`);
+                    btnEl.textContent = 'Extracted!';
+                    btnEl.style.background = 'var(--text-success)';
 
-## Clip Info
-- **Instructor:** ${v.source_instructor || 'Unknown'}
-- **Timestamp:** ${v.timestamp || 'N/A'}
-- **Video ID:** ${v.video_id || 'N/A'}
-`;
-                    const existingVarFile = this.app.vault.getAbstractFileByPath(varPath);
-                    if (!existingVarFile) {
-                        await this.app.vault.create(varPath, varContent);
+                    // Update the method file with clip info
+                    let content = await this.app.vault.read(sourceFile);
+                    if (!content.includes('## Extracted Clips')) {
+                        content += `\n\n## Extracted Clips\n`;
                     }
-
-                    newVarText += `- **${v.condition}** → ${v.action} → [[VAR - ${safeName}]]\n`;
+                    content += `- [${clip.timestamp}] ${clip.summary?.substring(0, 50) || 'Clip'} - \`${clipPath}\`\n`;
+                    await this.app.vault.modify(sourceFile, content);
+                } else {
+                    new Notice('Failed to extract clip');
+                    btnEl.textContent = 'Failed - Try Again';
+                    btnEl.disabled = false;
                 }
-                content = content.replace(
-                    variablesMatch[0],
-                    variablesMatch[1] + variablesMatch[2] + newVarText + variablesMatch[3]
-                );
-            }
+            });
         }
 
-        // Add metadata (remove old entries first to avoid duplicates)
-        const enrichmentDate = new Date().toISOString().split('T')[0];
-
-        if (content.includes('---\n')) {
-            const parts = content.split('---');
-            if (parts.length >= 2) {
-                // Remove existing enrichment lines
-                parts[1] = parts[1]
-                    .replace(/\nlast_enriched:.*$/gm, '')
-                    .replace(/\nenrichment_sources:.*$/gm, '')
-                    .trimEnd();
-                // Add fresh enrichment data
-                parts[1] += `\nlast_enriched: ${enrichmentDate}\nenrichment_sources: ${enrichments.sources_analyzed} videos\n`;
-                content = parts.join('---');
-            }
-        }
+        // Close button
+        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+        footerEl.style.cssText = 'margin-top: 15px; text-align: right;';
 
-        await this.app.vault.modify(file, content);
+        new Setting(footerEl)
+            .addButton(btn => btn
+                .setButtonText('Close')
+                .onClick(() => this.close()));
     }
 
-    /**
-     * Rebuild canvas from checkpoints in a folder.
-     * Creates a new canvas with proper layout and connections.
-     */
-    async rebuildCanvasForFolder(folder: TFolder, canvasBasename: string): Promise<string> {
-        // Find all checkpoint and method files in the folder
-        const checkpoints: any[] = [];
-        const methods: any[] = [];
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-        for (const file of this.app.vault.getFiles()) {
-            // Must be markdown in same folder
-            if (file.extension !== 'md') continue;
-            if (file.parent?.path !== folder.path) continue;
+// Linked Sources Modal - Shows sources from the parent Oracle article
+class LinkedSourcesModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    sourcesData: any;
+    sourceFile: TFile;
 
-            const cache = this.app.metadataCache.getFileCache(file);
-            const frontmatter = cache?.frontmatter;
+    constructor(app: App, plugin: BJJFlipmodePlugin, sourcesData: any, sourceFile: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.sourcesData = sourcesData;
+        this.sourceFile = sourceFile;
+    }
 
-            if (frontmatter?.type === 'checkpoint') {
-                const content = await this.app.vault.read(file);
-                const order = frontmatter?.order || parseInt(file.basename.match(/\[(\d+)\]/)?.[1] || '99');
-
-                // Extract linked invariables
-                const invariables: string[] = [];
-                const invMatch = content.match(/## INVARIABLES[\s\S]*?\|([\s\S]*?)(?=\n##|\n---)/);
-                if (invMatch) {
-                    const links = invMatch[1].match(/\[\[([^\]|]+)/g) || [];
-                    for (const link of links) {
-                        const name = link.replace('[[', '').trim();
-                        if (name && name !== 'none') {
-                            invariables.push(name);
-                        }
-                    }
-                }
+    onOpen() {
+        const { contentEl } = this;
+        const { sourcesData } = this;
 
-                // Extract variables (IF/THEN links)
-                const variables: string[] = [];
-                const varMatch = content.match(/## VARIABLES[\s\S]*?((?:- \*\*IF[\s\S]*?)+)(?=\n---|\n##|$)/);
-                if (varMatch) {
-                    const varLinks = varMatch[1].match(/\[\[([^\]|]+)/g) || [];
-                    for (const link of varLinks) {
-                        const name = link.replace('[[', '').trim();
-                        if (name && name.startsWith('VAR -')) {
-                            variables.push(name);
-                        }
-                    }
-                }
+        // Header
+        contentEl.createEl('h2', { text: `Sources for: ${sourcesData.concept}` });
 
-                // Extract navigation links
-                const navigation: string[] = [];
-                const navMatch = content.match(/## Navigation[\s\S]*?((?:\[\[[^\]]+\]\][^\n]*\n?)+)/);
-                if (navMatch) {
-                    const navLinks = navMatch[1].match(/\[\[([^\]|]+)/g) || [];
-                    for (const link of navLinks) {
-                        navigation.push(link.replace('[[', '').trim());
-                    }
-                }
+        // Meta info
+        const metaEl = contentEl.createEl('div', { cls: 'sources-meta' });
+        metaEl.style.cssText = 'margin-bottom: 20px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
 
-                checkpoints.push({
-                    file,
-                    order,
-                    cluster: frontmatter?.cluster || '',
-                    invariables,
-                    variables,
-                    navigation
-                });
-            } else if (frontmatter?.type === 'method' || frontmatter?.type === 'concept' || frontmatter?.method_type) {
-                // Method/concept files - used to connect to checkpoints
-                methods.push({
-                    file,
-                    tier: frontmatter?.tier || frontmatter?.method_type || 'REFINEMENT',
-                    cluster: frontmatter?.cluster || ''
-                });
-            }
+        if (sourcesData.section_matched) {
+            metaEl.createEl('p', { text: `📍 From section: "${sourcesData.section_matched}"` });
         }
+        metaEl.createEl('p', { text: `Found ${sourcesData.total_sources} source${sourcesData.total_sources !== 1 ? 's' : ''} from your Oracle research` });
 
-        if (checkpoints.length === 0) {
-            throw new Error('No checkpoint files found');
+        // Info callout
+        const infoEl = contentEl.createEl('div', { cls: 'info-callout' });
+        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: rgba(var(--color-green-rgb), 0.1); border-left: 3px solid var(--text-success); border-radius: 3px;';
+        infoEl.createEl('p', {
+            text: '✓ These are the exact videos cited in your Training Review - not a new search.',
+            cls: 'info-text'
+        });
+
+        // Instructions
+        contentEl.createEl('p', {
+            text: 'Click any timestamp to generate a 60-second WebM clip:',
+            cls: 'sources-instructions'
+        });
+
+        // Sources list
+        const listEl = contentEl.createEl('div', { cls: 'sources-list' });
+        listEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
+
+        const sources = sourcesData.sources || [];
+
+        if (sources.length === 0) {
+            listEl.createEl('p', { text: 'No linked sources found for this concept.' });
         }
 
-        // Sort checkpoints by order
-        checkpoints.sort((a, b) => a.order - b.order);
+        for (const source of sources) {
+            const sourceEl = listEl.createEl('div', { cls: 'source-item' });
 
-        // Build canvas JSON
-        const canvasData: any = { nodes: [], edges: [] };
+            // Relevance-based border color
+            const borderColor = source.relevance === 'high' ? 'var(--text-success)' :
+                               source.relevance === 'medium' ? 'var(--text-warning)' :
+                               'var(--text-muted)';
+            sourceEl.style.cssText = `padding: 12px; margin: 8px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid ${borderColor};`;
 
-        const checkpointWidth = 300;
-        const checkpointHeight = 150;
-        const methodWidth = 200;
-        const methodHeight = 80;
-        const horizontalGap = 400;
-        const methodOffsetX = 350;
-        const methodGap = 100;
+            // Header row with timestamp and title
+            const headerRow = sourceEl.createEl('div', { cls: 'source-header' });
+            headerRow.style.cssText = 'display: flex; align-items: center; gap: 10px;';
+
+            // Timestamp badge
+            const timestampBadge = headerRow.createEl('span', { cls: 'timestamp-badge' });
+            timestampBadge.style.cssText = 'display: inline-block; background: var(--interactive-accent); color: white; padding: 2px 8px; border-radius: 3px; font-family: monospace;';
+            timestampBadge.textContent = source.timestamp || '0:00';
+
+            // Title
+            headerRow.createEl('strong', { text: source.video_title || 'Unknown Video' });
+
+            // Instructor line
+            const instructorEl = sourceEl.createEl('p', { cls: 'source-instructor' });
+            instructorEl.style.cssText = 'margin: 5px 0; font-size: 0.9em; color: var(--text-accent);';
+            instructorEl.textContent = `👤 ${source.instructor || 'Unknown'}`;
+
+            // Context preview
+            if (source.context) {
+                const contextEl = sourceEl.createEl('p', { cls: 'source-context' });
+                contextEl.style.cssText = 'margin-top: 5px; font-size: 0.85em; color: var(--text-muted); font-style: italic;';
+                contextEl.textContent = `"${source.context.substring(0, 150)}${source.context.length > 150 ? '...' : ''}"`;
+            }
+
+            // Click handler - generate clip
+            sourceEl.addEventListener('click', async () => {
+                timestampBadge.textContent = 'Generating...';
+                timestampBadge.style.background = 'var(--text-warning)';
 
-        let currentX = 100;
-        const checkpointY = 300;
-        const nodeIdMap: Map<string, string> = new Map();
+                const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${source.video_id}`;
+                const clipPath = await this.plugin.generateClipOnDemand(
+                    source.video_id,
+                    source.timestamp_seconds || 0,
+                    clipsFolder
+                );
 
-        for (let i = 0; i < checkpoints.length; i++) {
-            const cp = checkpoints[i];
-            const nodeId = `checkpoint-${i}`;
-            nodeIdMap.set(cp.file.basename, nodeId);
+                if (clipPath) {
+                    timestampBadge.textContent = 'Done!';
+                    timestampBadge.style.background = 'var(--text-success)';
+                    new Notice(`Clip saved: ${clipPath}`, 3000);
 
-            canvasData.nodes.push({
-                id: nodeId,
-                type: 'file',
-                file: cp.file.path,
-                x: currentX,
-                y: checkpointY,
-                width: checkpointWidth,
-                height: checkpointHeight,
-                color: '4'
+                    // Open the clip
+                    const clipFile = this.app.vault.getAbstractFileByPath(clipPath);
+                    if (clipFile instanceof TFile) {
+                        await this.app.workspace.getLeaf('split').openFile(clipFile);
+                    }
+                } else {
+                    timestampBadge.textContent = 'Failed';
+                    timestampBadge.style.background = 'var(--text-error)';
+                    new Notice('Failed to generate clip', 3000);
+                }
+
+                // Reset after delay
+                setTimeout(() => {
+                    timestampBadge.textContent = source.timestamp || '0:00';
+                    timestampBadge.style.background = 'var(--interactive-accent)';
+                }, 3000);
             });
 
-            // Add method nodes for invariables
-            let methodY = checkpointY - methodGap - methodHeight;
-            for (const invName of cp.invariables) {
-                const methodFile = methods.find(m => m.file.basename === invName);
-                if (methodFile) {
-                    const methodId = `method-${nodeIdMap.size}`;
-                    nodeIdMap.set(invName, methodId);
+            // Hover effects
+            sourceEl.addEventListener('mouseenter', () => {
+                sourceEl.style.background = 'var(--background-modifier-hover)';
+            });
+            sourceEl.addEventListener('mouseleave', () => {
+                sourceEl.style.background = 'var(--background-secondary)';
+            });
+        }
 
-                    // Determine color based on tier
-                    let color = '0';
-                    if (methodFile.tier === 'CRITICAL') color = '1';
-                    else if (methodFile.tier === 'IMPORTANT') color = '6';
-                    else if (methodFile.tier === 'invariable') color = '5';
+        // Footer buttons
+        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+        footerEl.style.cssText = 'margin-top: 20px; display: flex; gap: 10px;';
 
-                    canvasData.nodes.push({
-                        id: methodId,
-                        type: 'file',
-                        file: methodFile.file.path,
-                        x: currentX + methodOffsetX,
-                        y: methodY,
-                        width: methodWidth,
-                        height: methodHeight,
-                        color
-                    });
+        new Setting(footerEl)
+            .addButton(btn => btn
+                .setButtonText('Generate All Clips')
+                .setCta()
+                .onClick(async () => {
+                    btn.setButtonText('Generating...');
+                    btn.setDisabled(true);
 
-                    canvasData.edges.push({
-                        id: `edge-${canvasData.edges.length}`,
-                        fromNode: nodeId,
-                        fromSide: 'right',
-                        toNode: methodId,
-                        toSide: 'left'
-                    });
+                    let generated = 0;
 
-                    methodY -= methodHeight + 30;
-                }
-            }
+                    for (const source of sources) {
+                        const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${source.video_id}`;
+                        const clipPath = await this.plugin.generateClipOnDemand(
+                            source.video_id,
+                            source.timestamp_seconds || 0,
+                            clipsFolder
+                        );
+                        if (clipPath) generated++;
+                    }
 
-            // Edge to next checkpoint
-            if (i < checkpoints.length - 1) {
-                canvasData.edges.push({
-                    id: `edge-cp-${i}`,
-                    fromNode: nodeId,
-                    fromSide: 'right',
-                    toNode: `checkpoint-${i + 1}`,
-                    toSide: 'left',
-                    color: '5'
-                });
-            }
+                    new Notice(`Generated ${generated}/${sources.length} clips!`, 5000);
+                    btn.setButtonText('Done!');
 
-            currentX += horizontalGap;
-        }
+                    setTimeout(() => this.close(), 2000);
+                }))
+            .addButton(btn => btn
+                .setButtonText('Try Semantic Search')
+                .onClick(async () => {
+                    // Fall back to semantic search
+                    this.close();
+                    new Notice('Trying semantic search...', 2000);
 
-        // Add navigation edges
-        for (const cp of checkpoints) {
-            const fromId = nodeIdMap.get(cp.file.basename);
-            for (const navTarget of cp.navigation) {
-                const toId = nodeIdMap.get(navTarget);
-                if (fromId && toId && fromId !== toId) {
-                    const exists = canvasData.edges.some((e: any) =>
-                        e.fromNode === fromId && e.toNode === toId
-                    );
-                    if (!exists) {
-                        canvasData.edges.push({
-                            id: `edge-nav-${canvasData.edges.length}`,
-                            fromNode: fromId,
-                            fromSide: 'bottom',
-                            toNode: toId,
-                            toSide: 'top',
-                            color: '3'
+                    try {
+                        const response = await requestUrl({
+                            url: `${this.plugin.settings.serverUrl}/api/obsidian/explore-video`,
+                            method: 'POST',
+                            headers: {
+                                'Content-Type': 'application/json',
+                                'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                            },
+                            body: JSON.stringify({ concept: sourcesData.concept })
                         });
-                    }
-                }
-            }
-        }
 
-        // Write invariables canvas file
-        const canvasPath = `${folder.path}/${canvasBasename} - RLM.canvas`;
-        const canvasContent = JSON.stringify(canvasData, null, 2);
+                        const data = response.json;
 
-        const existingCanvas = this.app.vault.getAbstractFileByPath(canvasPath);
-        if (existingCanvas) {
-            await this.app.vault.modify(existingCanvas as TFile, canvasContent);
-        } else {
-            await this.app.vault.create(canvasPath, canvasContent);
-        }
+                        if (!data.error) {
+                            const modal = new VideoExplorerModal(
+                                this.app,
+                                this.plugin,
+                                data,
+                                this.sourceFile
+                            );
+                            modal.open();
+                        } else {
+                            new Notice('No videos found via semantic search', 3000);
+                        }
+                    } catch (error: any) {
+                        new Notice(`Search failed: ${error.message}`, 3000);
+                    }
+                }))
+            .addButton(btn => btn
+                .setButtonText('Close')
+                .onClick(() => this.close()));
+    }
 
-        // Build VARIABLES canvas (checkpoints with IF/THEN branches below)
-        const varCanvasData: any = { nodes: [], edges: [] };
-        const varNodeIdMap: Map<string, string> = new Map();
-        let varCurrentX = 100;
-        const varCheckpointY = 100;
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-        for (let i = 0; i < checkpoints.length; i++) {
-            const cp = checkpoints[i];
-            const nodeId = `checkpoint-${i}`;
-            varNodeIdMap.set(cp.file.basename, nodeId);
+// Video Explorer Modal - Browse video with clickable timestamps
+class VideoExplorerModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    videoData: any;
+    sourceFile: TFile;
 
-            varCanvasData.nodes.push({
-                id: nodeId,
-                type: 'file',
-                file: cp.file.path,
-                x: varCurrentX,
-                y: varCheckpointY,
-                width: checkpointWidth,
-                height: checkpointHeight,
-                color: '4'
-            });
+    constructor(app: App, plugin: BJJFlipmodePlugin, videoData: any, sourceFile: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.videoData = videoData;
+        this.sourceFile = sourceFile;
+    }
 
-            // Add variable nodes below checkpoint
-            let varY = varCheckpointY + checkpointHeight + methodGap;
-            for (const varName of cp.variables) {
-                const varFile = methods.find(m => m.file.basename === varName);
-                if (varFile) {
-                    const varId = `var-${varNodeIdMap.size}`;
-                    varNodeIdMap.set(varName, varId);
+    onOpen() {
+        const { contentEl } = this;
+        const { videoData } = this;
 
-                    varCanvasData.nodes.push({
-                        id: varId,
-                        type: 'file',
-                        file: varFile.file.path,
-                        x: varCurrentX + methodOffsetX,
-                        y: varY,
-                        width: methodWidth + 50,
-                        height: methodHeight,
-                        color: '2' // Green for variables
-                    });
+        // Header
+        contentEl.createEl('h2', { text: `Video: ${videoData.title || 'Unknown'}` });
 
-                    varCanvasData.edges.push({
-                        id: `edge-${varCanvasData.edges.length}`,
-                        fromNode: nodeId,
-                        fromSide: 'bottom',
-                        toNode: varId,
-                        toSide: 'top'
-                    });
+        const metaEl = contentEl.createEl('div', { cls: 'video-meta' });
+        metaEl.style.cssText = 'margin-bottom: 20px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        metaEl.createEl('p', { text: `Instructor: ${videoData.instructor || 'Unknown'}` });
+        metaEl.createEl('p', { text: `Video ID: ${videoData.video_id}` });
+        metaEl.createEl('p', { text: `Found ${videoData.total_techniques || 0} techniques with timestamps` });
 
-                    varY += methodHeight + 30;
-                }
-            }
+        // Instructions
+        contentEl.createEl('p', {
+            text: 'Click any timestamp to generate a 60-second WebM clip:',
+            cls: 'video-explorer-instructions'
+        });
 
-            // Edge to next checkpoint
-            if (i < checkpoints.length - 1) {
-                varCanvasData.edges.push({
-                    id: `edge-cp-${i}`,
-                    fromNode: nodeId,
-                    fromSide: 'right',
-                    toNode: `checkpoint-${i + 1}`,
-                    toSide: 'left',
-                    color: '5'
-                });
-            }
+        // Techniques list
+        const listEl = contentEl.createEl('div', { cls: 'techniques-list' });
+        listEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
 
-            varCurrentX += horizontalGap;
+        const techniques = videoData.techniques || [];
+
+        if (techniques.length === 0) {
+            listEl.createEl('p', { text: 'No timestamped techniques found in this video.' });
         }
 
-        // Write variables canvas file
-        const varCanvasPath = `${folder.path}/${canvasBasename} - Variables.canvas`;
-        const varCanvasContent = JSON.stringify(varCanvasData, null, 2);
+        for (const tech of techniques) {
+            const techEl = listEl.createEl('div', { cls: 'technique-item' });
+            techEl.style.cssText = 'padding: 12px; margin: 8px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid var(--interactive-accent);';
 
-        const existingVarCanvas = this.app.vault.getAbstractFileByPath(varCanvasPath);
-        if (existingVarCanvas) {
-            await this.app.vault.modify(existingVarCanvas as TFile, varCanvasContent);
-        } else {
-            await this.app.vault.create(varCanvasPath, varCanvasContent);
-        }
+            // Timestamp badge
+            const timestampBadge = techEl.createEl('span', { cls: 'timestamp-badge' });
+            timestampBadge.style.cssText = 'display: inline-block; background: var(--interactive-accent); color: white; padding: 2px 8px; border-radius: 3px; font-family: monospace; margin-right: 10px;';
+            timestampBadge.textContent = tech.timestamp || '0:00';
 
-        // Open the invariables canvas (primary)
-        const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
-        if (canvasFile) {
-            await this.app.workspace.getLeaf().openFile(canvasFile as TFile);
-        }
+            // Technique name
+            techEl.createEl('strong', { text: tech.name || 'Untitled' });
 
-        return canvasPath;
-    }
+            // Description
+            if (tech.description) {
+                const descEl = techEl.createEl('p', { cls: 'technique-description' });
+                descEl.style.cssText = 'margin-top: 5px; font-size: 0.9em; color: var(--text-muted);';
+                descEl.textContent = tech.description.substring(0, 200) + (tech.description.length > 200 ? '...' : '');
+            }
 
-    /**
-     * Generate only the Variables canvas (without running full enrichment).
-     */
-    async generateVariablesCanvasOnly(folder: TFolder, canvasBasename: string): Promise<string> {
-        // Find all checkpoint and method files in the folder
-        const checkpoints: any[] = [];
-        const methods: any[] = [];
+            // Click handler - generate clip
+            techEl.addEventListener('click', async () => {
+                timestampBadge.textContent = 'Generating...';
+                timestampBadge.style.background = 'var(--text-warning)';
 
-        for (const file of this.app.vault.getFiles()) {
-            if (file.extension !== 'md') continue;
-            if (file.parent?.path !== folder.path) continue;
+                const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${this.videoData.video_id}`;
+                const clipPath = await this.plugin.generateClipOnDemand(
+                    videoData.video_id,
+                    tech.timestamp_seconds || 0,
+                    clipsFolder
+                );
 
-            const cache = this.app.metadataCache.getFileCache(file);
-            const frontmatter = cache?.frontmatter;
+                if (clipPath) {
+                    timestampBadge.textContent = 'Done!';
+                    timestampBadge.style.background = 'var(--text-success)';
+                    new Notice(`Clip saved: ${clipPath}`, 3000);
 
-            if (frontmatter?.type === 'checkpoint') {
-                const content = await this.app.vault.read(file);
-                const order = frontmatter?.order || parseInt(file.basename.match(/\[(\d+)\]/)?.[1] || '99');
-
-                // Extract variables
-                const variables: string[] = [];
-                const varMatch = content.match(/## VARIABLES[\s\S]*?((?:- \*\*IF[\s\S]*?)+)(?=\n---|\n##|$)/);
-                if (varMatch) {
-                    const varLinks = varMatch[1].match(/\[\[([^\]|]+)/g) || [];
-                    for (const link of varLinks) {
-                        const name = link.replace('[[', '').trim();
-                        if (name && name.startsWith('VAR -')) {
-                            variables.push(name);
-                        }
+                    // Open the clip
+                    const clipFile = this.app.vault.getAbstractFileByPath(clipPath);
+                    if (clipFile instanceof TFile) {
+                        await this.app.workspace.getLeaf('split').openFile(clipFile);
                     }
+                } else {
+                    timestampBadge.textContent = 'Failed';
+                    timestampBadge.style.background = 'var(--text-error)';
+                    new Notice('Failed to generate clip', 3000);
                 }
 
-                checkpoints.push({ file, order, variables });
-            } else if (frontmatter?.type === 'method' || frontmatter?.method_type) {
-                methods.push({
-                    file,
-                    tier: frontmatter?.tier || frontmatter?.method_type || 'REFINEMENT'
-                });
-            }
-        }
+                // Reset after delay
+                setTimeout(() => {
+                    timestampBadge.textContent = tech.timestamp || '0:00';
+                    timestampBadge.style.background = 'var(--interactive-accent)';
+                }, 3000);
+            });
 
-        if (checkpoints.length === 0) {
-            throw new Error('No checkpoint files found');
+            // Hover effects
+            techEl.addEventListener('mouseenter', () => {
+                techEl.style.background = 'var(--background-modifier-hover)';
+            });
+            techEl.addEventListener('mouseleave', () => {
+                techEl.style.background = 'var(--background-secondary)';
+            });
         }
 
-        checkpoints.sort((a, b) => a.order - b.order);
-
-        // Build variables canvas
-        const canvasData: any = { nodes: [], edges: [] };
-        const checkpointWidth = 300;
-        const checkpointHeight = 150;
-        const methodWidth = 250;
-        const methodHeight = 80;
-        const horizontalGap = 400;
-        const methodGap = 100;
-        const methodOffsetX = 350;
-
-        let currentX = 100;
-        const checkpointY = 100;
-        const nodeIdMap: Map<string, string> = new Map();
-
-        for (let i = 0; i < checkpoints.length; i++) {
-            const cp = checkpoints[i];
-            const nodeId = `checkpoint-${i}`;
-            nodeIdMap.set(cp.file.basename, nodeId);
+        // Footer buttons
+        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
+        footerEl.style.cssText = 'margin-top: 20px; display: flex; gap: 10px;';
 
-            canvasData.nodes.push({
-                id: nodeId,
-                type: 'file',
-                file: cp.file.path,
-                x: currentX,
-                y: checkpointY,
-                width: checkpointWidth,
-                height: checkpointHeight,
-                color: '4'
-            });
+        new Setting(footerEl)
+            .addButton(btn => btn
+                .setButtonText('Expand to Full Series')
+                .onClick(async () => {
+                    btn.setButtonText('Loading...');
+                    btn.setDisabled(true);
 
-            // Add variable nodes below
-            let varY = checkpointY + checkpointHeight + methodGap;
-            for (const varName of cp.variables) {
-                const varFile = methods.find(m => m.file.basename === varName);
-                if (varFile) {
-                    const varId = `var-${nodeIdMap.size}`;
-                    nodeIdMap.set(varName, varId);
+                    try {
+                        // Get series data
+                        const response = await requestUrl({
+                            url: `${this.plugin.settings.serverUrl}/api/obsidian/explore-series`,
+                            method: 'POST',
+                            headers: {
+                                'Content-Type': 'application/json',
+                                'Authorization': `Bearer ${this.plugin.settings.apiToken}`
+                            },
+                            body: JSON.stringify({
+                                concept: this.videoData.concept_searched || this.videoData.title,
+                                instructor: this.videoData.instructor
+                            })
+                        });
 
-                    canvasData.nodes.push({
-                        id: varId,
-                        type: 'file',
-                        file: varFile.file.path,
-                        x: currentX + methodOffsetX,
-                        y: varY,
-                        width: methodWidth,
-                        height: methodHeight,
-                        color: '2'
-                    });
+                        const seriesData = response.json;
 
-                    canvasData.edges.push({
-                        id: `edge-${canvasData.edges.length}`,
-                        fromNode: nodeId,
-                        fromSide: 'bottom',
-                        toNode: varId,
-                        toSide: 'top'
-                    });
+                        if (seriesData.error) {
+                            new Notice('No series found', 3000);
+                            btn.setButtonText('Expand to Full Series');
+                            btn.setDisabled(false);
+                            return;
+                        }
 
-                    varY += methodHeight + 30;
-                }
-            }
+                        // Close this modal and open Series Explorer
+                        this.close();
+                        const seriesModal = new SeriesExplorerModal(
+                            this.app,
+                            this.plugin,
+                            seriesData,
+                            this.sourceFile
+                        );
+                        seriesModal.open();
 
-            if (i < checkpoints.length - 1) {
-                canvasData.edges.push({
-                    id: `edge-cp-${i}`,
-                    fromNode: nodeId,
-                    fromSide: 'right',
-                    toNode: `checkpoint-${i + 1}`,
-                    toSide: 'left',
-                    color: '5'
-                });
-            }
+                    } catch (error: any) {
+                        new Notice(`Failed to load series: ${error.message}`, 3000);
+                        btn.setButtonText('Expand to Full Series');
+                        btn.setDisabled(false);
+                    }
+                }))
+            .addButton(btn => btn
+                .setButtonText('Generate All Clips')
+                .setCta()
+                .onClick(async () => {
+                    btn.setButtonText('Generating...');
+                    btn.setDisabled(true);
 
-            currentX += horizontalGap;
-        }
+                    const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${this.videoData.video_id}`;
+                    let generated = 0;
 
-        const canvasPath = `${folder.path}/${canvasBasename} - Variables.canvas`;
-        const canvasContent = JSON.stringify(canvasData, null, 2);
+                    for (const tech of techniques) {
+                        const clipPath = await this.plugin.generateClipOnDemand(
+                            videoData.video_id,
+                            tech.timestamp_seconds || 0,
+                            clipsFolder
+                        );
+                        if (clipPath) generated++;
+                    }
 
-        const existingCanvas = this.app.vault.getAbstractFileByPath(canvasPath);
-        if (existingCanvas) {
-            await this.app.vault.modify(existingCanvas as TFile, canvasContent);
-        } else {
-            await this.app.vault.create(canvasPath, canvasContent);
-        }
+                    new Notice(`Generated ${generated}/${techniques.length} clips!`, 5000);
+                    btn.setButtonText('Done!');
 
-        return canvasPath;
+                    setTimeout(() => this.close(), 2000);
+                }))
+            .addButton(btn => btn
+                .setButtonText('Close')
+                .onClick(() => this.close()));
     }
 
     onClose() {
@@ -9927,118 +14868,108 @@ ${v.description || ''}
     }
 }
 
-// Clip Browser Modal - Shows clip options with summaries from transcription
-class ClipBrowserModal extends Modal {
+// Series Explorer Modal - Browse entire video series with all volumes
+class SeriesExplorerModal extends Modal {
     plugin: BJJFlipmodePlugin;
+    seriesData: any;
     sourceFile: TFile;
-    clipData: any;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, sourceFile: TFile, clipData: any) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, seriesData: any, sourceFile: TFile) {
         super(app);
         this.plugin = plugin;
+        this.seriesData = seriesData;
         this.sourceFile = sourceFile;
-        this.clipData = clipData;
     }
 
     onOpen() {
         const { contentEl } = this;
-        const { clipData, sourceFile } = this;
+        const { seriesData } = this;
 
-        contentEl.createEl('h2', { text: `Clip Options: ${sourceFile.basename}` });
+        // Header
+        contentEl.createEl('h2', { text: `Series: ${seriesData.series_name || 'Unknown'}` });
 
-        // Video info
-        const infoEl = contentEl.createEl('div', { cls: 'clip-info' });
-        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
-        infoEl.createEl('p', { text: `Video: ${clipData.video_name || clipData.video_id}` });
-        infoEl.createEl('p', { text: `Instructor: ${clipData.instructor || 'Unknown'}` });
-        infoEl.createEl('p', { text: `Found ${clipData.clips?.length || 0} relevant sections` });
+        const metaEl = contentEl.createEl('div', { cls: 'series-meta' });
+        metaEl.style.cssText = 'margin-bottom: 20px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        metaEl.createEl('p', { text: `Instructor: ${seriesData.instructor || 'Unknown'}` });
+        metaEl.createEl('p', { text: `Total Volumes: ${seriesData.total_volumes || 0}` });
 
-        if (!clipData.clips || clipData.clips.length === 0) {
-            contentEl.createEl('p', { text: 'No clip options found for this concept.' });
-            return;
-        }
+        // Volumes accordion
+        const volumesEl = contentEl.createEl('div', { cls: 'volumes-list' });
+        volumesEl.style.cssText = 'max-height: 500px; overflow-y: auto;';
 
-        // Clip list
-        const listEl = contentEl.createEl('div', { cls: 'clip-list' });
-        listEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
+        const volumes = seriesData.volumes || [];
 
-        for (const clip of clipData.clips) {
-            const clipEl = listEl.createEl('div', { cls: 'clip-option' });
-            clipEl.style.cssText = 'margin-bottom: 15px; padding: 12px; background: var(--background-primary-alt); border-radius: 5px; border-left: 3px solid var(--text-accent);';
+        for (const vol of volumes) {
+            // Volume header (collapsible)
+            const volContainer = volumesEl.createEl('div', { cls: 'volume-container' });
+            volContainer.style.cssText = 'margin-bottom: 10px; border: 1px solid var(--background-modifier-border); border-radius: 5px;';
 
-            // Header with timestamp
-            const headerEl = clipEl.createEl('div', { cls: 'clip-header' });
-            headerEl.style.cssText = 'display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px;';
+            const volHeader = volContainer.createEl('div', { cls: 'volume-header' });
+            volHeader.style.cssText = 'padding: 12px; background: var(--interactive-accent); color: white; cursor: pointer; border-radius: 5px 5px 0 0; display: flex; justify-content: space-between; align-items: center;';
 
-            const timestampEl = headerEl.createEl('span', { cls: 'clip-timestamp' });
-            timestampEl.style.cssText = 'font-weight: bold; font-size: 1.1em; color: var(--text-accent);';
-            timestampEl.textContent = clip.timestamp || 'Unknown';
+            volHeader.createEl('strong', { text: `Volume ${vol.volume}: ${vol.title || ''}` });
 
-            const durationEl = headerEl.createEl('span', { cls: 'clip-duration' });
-            durationEl.style.cssText = 'font-size: 0.9em; color: var(--text-muted);';
-            durationEl.textContent = `${clip.duration || 30}s`;
+            const techCount = volHeader.createEl('span');
+            techCount.textContent = `${vol.total_techniques || 0} techniques`;
+            techCount.style.cssText = 'font-size: 0.85em; opacity: 0.9;';
 
-            // Summary/description
-            const summaryEl = clipEl.createEl('div', { cls: 'clip-summary' });
-            summaryEl.style.cssText = 'margin-bottom: 10px; font-size: 0.95em;';
-            summaryEl.textContent = clip.summary || clip.description || 'No description';
+            // Techniques list (hidden by default)
+            const techList = volContainer.createEl('div', { cls: 'technique-list' });
+            techList.style.cssText = 'display: none; padding: 10px; background: var(--background-primary);';
 
-            // Transcript excerpt if available
-            if (clip.excerpt) {
-                const excerptEl = clipEl.createEl('div', { cls: 'clip-excerpt' });
-                excerptEl.style.cssText = 'font-size: 0.85em; color: var(--text-muted); font-style: italic; margin-bottom: 10px; padding: 8px; background: var(--background-secondary); border-radius: 3px;';
-                excerptEl.textContent = `"${clip.excerpt.substring(0, 200)}${clip.excerpt.length > 200 ? '...' : ''}"`;
-            }
+            // Toggle visibility
+            volHeader.addEventListener('click', () => {
+                const isVisible = techList.style.display !== 'none';
+                techList.style.display = isVisible ? 'none' : 'block';
+                volHeader.style.borderRadius = isVisible ? '5px 5px 0 0' : '5px';
+            });
 
-            // Extract button
-            const btnEl = clipEl.createEl('button', { text: 'Extract This Clip' });
-            btnEl.style.cssText = 'padding: 6px 12px; background: var(--interactive-accent); color: var(--text-on-accent); border: none; border-radius: 4px; cursor: pointer;';
+            // Add techniques
+            for (const tech of (vol.techniques || [])) {
+                const techEl = techList.createEl('div', { cls: 'technique-item' });
+                techEl.style.cssText = 'padding: 8px; margin: 4px 0; border-radius: 3px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid var(--text-accent);';
 
-            btnEl.addEventListener('click', async () => {
-                btnEl.textContent = 'Extracting...';
-                btnEl.disabled = true;
+                const timestampBadge = techEl.createEl('span');
+                timestampBadge.style.cssText = 'display: inline-block; background: var(--text-accent); color: white; padding: 2px 6px; border-radius: 3px; font-family: monospace; font-size: 0.85em; margin-right: 8px;';
+                timestampBadge.textContent = tech.timestamp || '0:00';
 
-                // Parse timestamp to seconds
-                const parts = (clip.timestamp || '0:00').split(':').map((p: string) => parseInt(p, 10));
-                let startSeconds = 0;
-                if (parts.length === 3) {
-                    startSeconds = parts[0] * 3600 + parts[1] * 60 + parts[2];
-                } else if (parts.length === 2) {
-                    startSeconds = parts[0] * 60 + parts[1];
-                }
+                techEl.createEl('span', { text: tech.name || 'Untitled' });
 
-                const clipPath = await this.plugin.doExtractClip(
-                    clipData.video_id,
-                    startSeconds,
-                    clip.duration || 30,
-                    `${sourceFile.basename}_${clip.timestamp?.replace(/:/g, '-') || 'clip'}`
-                );
+                // Click to generate clip
+                techEl.addEventListener('click', async (e) => {
+                    e.stopPropagation();
+                    timestampBadge.textContent = '...';
+                    timestampBadge.style.background = 'var(--text-warning)';
 
-                if (clipPath) {
-                    new Notice(`Clip saved: ${clipPath}`);
-                    btnEl.textContent = 'Extracted!';
-                    btnEl.style.background = 'var(--text-success)';
+                    const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${vol.video_id}`;
+                    const clipPath = await this.plugin.generateClipOnDemand(
+                        vol.video_id,
+                        tech.timestamp_seconds || 0,
+                        clipsFolder
+                    );
 
-                    // Update the method file with clip info
-                    let content = await this.app.vault.read(sourceFile);
-                    if (!content.includes('## Extracted Clips')) {
-                        content += `\n\n## Extracted Clips\n`;
+                    if (clipPath) {
+                        timestampBadge.textContent = 'OK';
+                        timestampBadge.style.background = 'var(--text-success)';
+                        new Notice(`Clip saved!`, 2000);
+                    } else {
+                        timestampBadge.textContent = 'X';
+                        timestampBadge.style.background = 'var(--text-error)';
                     }
-                    content += `- [${clip.timestamp}] ${clip.summary?.substring(0, 50) || 'Clip'} - \`${clipPath}\`\n`;
-                    await this.app.vault.modify(sourceFile, content);
-                } else {
-                    new Notice('Failed to extract clip');
-                    btnEl.textContent = 'Failed - Try Again';
-                    btnEl.disabled = false;
-                }
-            });
-        }
 
-        // Close button
-        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-        footerEl.style.cssText = 'margin-top: 15px; text-align: right;';
+                    setTimeout(() => {
+                        timestampBadge.textContent = tech.timestamp || '0:00';
+                        timestampBadge.style.background = 'var(--text-accent)';
+                    }, 2000);
+                });
 
-        new Setting(footerEl)
+                techEl.addEventListener('mouseenter', () => techEl.style.background = 'var(--background-modifier-hover)');
+                techEl.addEventListener('mouseleave', () => techEl.style.background = 'var(--background-secondary)');
+            }
+        }
+
+        // Footer
+        new Setting(contentEl)
             .addButton(btn => btn
                 .setButtonText('Close')
                 .onClick(() => this.close()));
@@ -10049,699 +14980,1180 @@ class ClipBrowserModal extends Modal {
     }
 }
 
-// Linked Sources Modal - Shows sources from the parent Oracle article
-class LinkedSourcesModal extends Modal {
+// Concept Merge Modal - review and apply duplicate concept merges
+class ConceptMergeModal extends Modal {
     plugin: BJJFlipmodePlugin;
-    sourcesData: any;
-    sourceFile: TFile;
+    suggestions: MergeSuggestion[];
+    files: TFile[];
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, sourcesData: any, sourceFile: TFile) {
+    constructor(app: App, plugin: BJJFlipmodePlugin, suggestions: MergeSuggestion[], files: TFile[]) {
         super(app);
         this.plugin = plugin;
-        this.sourcesData = sourcesData;
-        this.sourceFile = sourceFile;
+        this.suggestions = suggestions;
+        this.files = files;
     }
 
     onOpen() {
         const { contentEl } = this;
-        const { sourcesData } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-concept-merge-modal');
 
-        // Header
-        contentEl.createEl('h2', { text: `Sources for: ${sourcesData.concept}` });
+        contentEl.createEl('h2', { text: 'Duplicate Concepts' });
+        contentEl.createEl('p', {
+            text: `${this.suggestions.length} group${this.suggestions.length === 1 ? '' : 's'} of concepts look like the same thing. Merging keeps one note, appends the others to it and redirects their links.`,
+            cls: 'setting-item-description'
+        });
 
-        // Meta info
-        const metaEl = contentEl.createEl('div', { cls: 'sources-meta' });
-        metaEl.style.cssText = 'margin-bottom: 20px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
+        for (const suggestion of this.suggestions) {
+            const groupFiles = this.files.filter(f => suggestion.names.includes(f.basename));
+            const groupEl = contentEl.createDiv();
+            groupEl.style.cssText = 'background: var(--background-secondary); border-radius: 8px; padding: 10px; margin-bottom: 10px;';
+
+            const list = groupEl.createEl('ul');
+            list.style.margin = '0 0 6px 0';
+            for (const file of groupFiles) {
+                const item = list.createEl('li');
+                const link = item.createEl('a', { text: file.path, href: '#' });
+                link.onclick = async (e) => {
+                    e.preventDefault();
+                    await this.app.workspace.getLeaf('tab').openFile(file);
+                };
+            }
 
-        if (sourcesData.section_matched) {
-            metaEl.createEl('p', { text: `📍 From section: "${sourcesData.section_matched}"` });
+            // Prefer the note already named canonically as the one to keep
+            const target = groupFiles.find(f => f.basename === suggestion.canonical) || groupFiles[0];
+            new Setting(groupEl)
+                .setName(`Merge into "${suggestion.canonical}"`)
+                .setDesc(`Keeps ${target.path}`)
+                .addButton(btn => btn
+                    .setButtonText('Merge')
+                    .setCta()
+                    .onClick(async () => {
+                        btn.setDisabled(true);
+                        try {
+                            const kept = await this.plugin.mergeConceptFiles(target, groupFiles.filter(f => f !== target), suggestion.canonical);
+                            new Notice(`Merged ${groupFiles.length - 1} concept${groupFiles.length === 2 ? '' : 's'} into ${kept.basename}`);
+                            groupEl.remove();
+                        } catch (error) {
+                            console.error('Concept merge error:', error);
+                            new Notice('Failed to merge concepts');
+                            btn.setDisabled(false);
+                        }
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('Skip')
+                    .onClick(() => groupEl.remove()));
         }
-        metaEl.createEl('p', { text: `Found ${sourcesData.total_sources} source${sourcesData.total_sources !== 1 ? 's' : ''} from your Oracle research` });
+    }
 
-        // Info callout
-        const infoEl = contentEl.createEl('div', { cls: 'info-callout' });
-        infoEl.style.cssText = 'margin-bottom: 15px; padding: 10px; background: rgba(var(--color-green-rgb), 0.1); border-left: 3px solid var(--text-success); border-radius: 3px;';
-        infoEl.createEl('p', {
-            text: '✓ These are the exact videos cited in your Training Review - not a new search.',
-            cls: 'info-text'
-        });
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
 
-        // Instructions
-        contentEl.createEl('p', {
-            text: 'Click any timestamp to generate a 60-second WebM clip:',
-            cls: 'sources-instructions'
-        });
+// Coach Push Concepts Modal - Select athlete or group to push concepts to
+class CoachPushConceptsModal extends Modal {
+    plugin: BJJFlipmodePlugin;
+    concepts: Concept[];
 
-        // Sources list
-        const listEl = contentEl.createEl('div', { cls: 'sources-list' });
-        listEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
+    constructor(app: App, plugin: BJJFlipmodePlugin, concepts: Concept[]) {
+        super(app);
+        this.plugin = plugin;
+        this.concepts = concepts;
+    }
 
-        const sources = sourcesData.sources || [];
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: 'Push Concepts to Athlete' });
+        contentEl.createEl('p', { text: `${this.concepts.length} concepts ready to push` });
 
-        if (sources.length === 0) {
-            listEl.createEl('p', { text: 'No linked sources found for this concept.' });
+        // Load athletes
+        let athletes: Athlete[] = [];
+        let groups: AthleteGroup[] = [];
+        try {
+            ({ athletes, groups } = await this.plugin.loadRoster());
+        } catch {
+            contentEl.createEl('p', { text: 'Failed to load athletes' });
+            return;
         }
 
-        for (const source of sources) {
-            const sourceEl = listEl.createEl('div', { cls: 'source-item' });
-
-            // Relevance-based border color
-            const borderColor = source.relevance === 'high' ? 'var(--text-success)' :
-                               source.relevance === 'medium' ? 'var(--text-warning)' :
-                               'var(--text-muted)';
-            sourceEl.style.cssText = `padding: 12px; margin: 8px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid ${borderColor};`;
-
-            // Header row with timestamp and title
-            const headerRow = sourceEl.createEl('div', { cls: 'source-header' });
-            headerRow.style.cssText = 'display: flex; align-items: center; gap: 10px;';
+        if (athletes.length === 0) {
+            contentEl.createEl('p', { text: 'No athletes in roster. Add athletes first.' });
+            return;
+        }
 
-            // Timestamp badge
-            const timestampBadge = headerRow.createEl('span', { cls: 'timestamp-badge' });
-            timestampBadge.style.cssText = 'display: inline-block; background: var(--interactive-accent); color: white; padding: 2px 8px; border-radius: 3px; font-family: monospace;';
-            timestampBadge.textContent = source.timestamp || '0:00';
+        // Dropdown values: athlete ID, or "group:<id>" for a whole group
+        let selectedTarget = '';
 
-            // Title
-            headerRow.createEl('strong', { text: source.video_title || 'Unknown Video' });
+        new Setting(contentEl)
+            .setName('Select Athlete or Group')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Choose athlete...');
+                for (const group of groups) {
+                    dropdown.addOption(`group:${group.id}`, `${group.name} (group of ${this.plugin.groupMembers(group, athletes).length})`);
+                }
+                for (const athlete of athletes) {
+                    dropdown.addOption(
+                        String(athlete.id),
+                        athlete.display_name || athlete.discord_username || `Athlete ${athlete.id}`
+                    );
+                }
+                dropdown.onChange(value => {
+                    selectedTarget = value;
+                });
+            });
 
-            // Instructor line
-            const instructorEl = sourceEl.createEl('p', { cls: 'source-instructor' });
-            instructorEl.style.cssText = 'margin: 5px 0; font-size: 0.9em; color: var(--text-accent);';
-            instructorEl.textContent = `👤 ${source.instructor || 'Unknown'}`;
+        // Concept list preview
+        const listEl = contentEl.createEl('div', { cls: 'concept-list' });
+        listEl.createEl('h4', { text: 'Concepts:' });
+        const ul = listEl.createEl('ul');
+        for (const c of this.concepts.slice(0, 10)) {
+            ul.createEl('li', { text: `${c.name} (${c.category})` });
+        }
+        if (this.concepts.length > 10) {
+            ul.createEl('li', { text: `... and ${this.concepts.length - 10} more` });
+        }
 
-            // Context preview
-            if (source.context) {
-                const contextEl = sourceEl.createEl('p', { cls: 'source-context' });
-                contextEl.style.cssText = 'margin-top: 5px; font-size: 0.85em; color: var(--text-muted); font-style: italic;';
-                contextEl.textContent = `"${source.context.substring(0, 150)}${source.context.length > 150 ? '...' : ''}"`;
-            }
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Push Concepts')
+                .setCta()
+                .onClick(async () => {
+                    if (!selectedTarget) {
+                        new Notice('Select an athlete first');
+                        return;
+                    }
+                    const group = groups.find(g => `group:${g.id}` === selectedTarget);
+                    const athleteIds = group
+                        ? this.plugin.groupMembers(group, athletes).map(a => a.id)
+                        : [parseInt(selectedTarget)];
+                    if (athleteIds.length === 0) {
+                        new Notice(`${group!.name} has no athletes`);
+                        return;
+                    }
+                    try {
+                        new Notice('Pushing concepts...');
+                        let created = 0;
+                        let updated = 0;
+                        for (const athleteId of athleteIds) {
+                            const result = await this.plugin.coachClient!.pushConcepts(athleteId, this.concepts);
+                            created += result.created;
+                            updated += result.updated;
+                        }
+                        new Notice(`Pushed${group ? ` to ${athleteIds.length} athletes` : ''}! ${created} new, ${updated} updated`);
+                        this.close();
+                    } catch (error) {
+                        console.error('Push concepts error:', error);
+                        new Notice('Failed to push concepts');
+                    }
+                }));
+    }
 
-            // Click handler - generate clip
-            sourceEl.addEventListener('click', async () => {
-                timestampBadge.textContent = 'Generating...';
-                timestampBadge.style.background = 'var(--text-warning)';
+    onClose() {
+        this.contentEl.empty();
+    }
+}
 
-                const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${source.video_id}`;
-                const clipPath = await this.plugin.generateClipOnDemand(
-                    source.video_id,
-                    source.timestamp_seconds || 0,
-                    clipsFolder
-                );
+// Outbox entries plus the athlete's jobs on the queue; shared by the modal and the sidebar.
+// With cachedJobs, the last fetched job list is reused instead of calling the server.
+async function renderPendingJobsList(plugin: BJJFlipmodePlugin, container: HTMLElement, cachedJobs: boolean = false) {
+    container.empty();
+
+    // Queries waiting in the offline outbox (not yet on the server)
+    const queued = await plugin.readOutbox();
+    for (const entry of queued) {
+        const jobDiv = container.createDiv({ cls: 'job-item' });
+        jobDiv.style.background = 'var(--background-secondary)';
+        jobDiv.style.padding = '12px';
+        jobDiv.style.borderRadius = '8px';
+        jobDiv.style.marginBottom = '10px';
+
+        const statusEl = jobDiv.createEl('span', { text: 'QUEUED OFFLINE', cls: 'job-status' });
+        statusEl.style.color = 'var(--text-warning)';
+        statusEl.style.fontWeight = '600';
+        statusEl.style.marginRight = '10px';
+
+        jobDiv.createEl('span', {
+            text: entry.query.substring(0, 50) + (entry.query.length > 50 ? '...' : '')
+        });
 
-                if (clipPath) {
-                    timestampBadge.textContent = 'Done!';
-                    timestampBadge.style.background = 'var(--text-success)';
-                    new Notice(`Clip saved: ${clipPath}`, 3000);
+        const timeEl = jobDiv.createEl('div', {
+            text: `Queued: ${new Date(entry.queuedAt).toLocaleString()} · next try ${new Date(entry.nextAttemptAt).toLocaleTimeString()}`,
+            cls: 'job-time'
+        });
+        timeEl.style.fontSize = '0.85em';
+        timeEl.style.color = 'var(--text-muted)';
+        timeEl.style.marginTop = '5px';
+    }
 
-                    // Open the clip
-                    const clipFile = this.app.vault.getAbstractFileByPath(clipPath);
-                    if (clipFile instanceof TFile) {
-                        await this.app.workspace.getLeaf('split').openFile(clipFile);
-                    }
-                } else {
-                    timestampBadge.textContent = 'Failed';
-                    timestampBadge.style.background = 'var(--text-error)';
-                    new Notice('Failed to generate clip', 3000);
-                }
+    try {
+        const cached = cachedJobs ? plugin.cachedQueueJobs() : null;
+        const jobs = cached || await plugin.queueClient!.listJobs();
+        if (!cached) plugin.queueJobsCache = jobs;
 
-                // Reset after delay
-                setTimeout(() => {
-                    timestampBadge.textContent = source.timestamp || '0:00';
-                    timestampBadge.style.background = 'var(--interactive-accent)';
-                }, 3000);
+        if (jobs.length === 0 && queued.length === 0) {
+            container.createEl('p', {
+                text: 'No pending queries',
+                cls: 'no-jobs'
             });
+            return;
+        }
 
-            // Hover effects
-            sourceEl.addEventListener('mouseenter', () => {
-                sourceEl.style.background = 'var(--background-modifier-hover)';
+        for (const job of jobs) {
+            const jobDiv = container.createDiv({ cls: 'job-item' });
+            jobDiv.style.background = 'var(--background-secondary)';
+            jobDiv.style.padding = '12px';
+            jobDiv.style.borderRadius = '8px';
+            jobDiv.style.marginBottom = '10px';
+
+            // Status indicator
+            const statusColors: Record<string, string> = {
+                'pending': 'var(--text-muted)',
+                'processing': 'var(--text-accent)',
+                'complete': 'var(--text-success)',
+                'error': 'var(--text-error)'
+            };
+
+            const statusEl = jobDiv.createEl('span', {
+                text: job.status.toUpperCase(),
+                cls: 'job-status'
             });
-            sourceEl.addEventListener('mouseleave', () => {
-                sourceEl.style.background = 'var(--background-secondary)';
+            statusEl.style.color = statusColors[job.status] || 'var(--text-muted)';
+            statusEl.style.fontWeight = '600';
+            statusEl.style.marginRight = '10px';
+
+            // Query text, linking to the pending note or finished article when it's in the vault
+            const queryText = job.query_text.substring(0, 50) + (job.query_text.length > 50 ? '...' : '');
+            const noteFile = plugin.findFileByJobId(job.job_id);
+            if (noteFile) {
+                const link = jobDiv.createEl('a', { text: queryText, href: '#' });
+                link.onclick = async (e) => {
+                    e.preventDefault();
+                    await plugin.app.workspace.getLeaf('tab').openFile(noteFile);
+                };
+            } else {
+                jobDiv.createEl('span', { text: queryText });
+            }
+
+            // Submitted time
+            const timeEl = jobDiv.createEl('div', {
+                text: `Submitted: ${new Date(job.submitted_at).toLocaleString()}`,
+                cls: 'job-time'
             });
+            timeEl.style.fontSize = '0.85em';
+            timeEl.style.color = 'var(--text-muted)';
+            timeEl.style.marginTop = '5px';
         }
+    } catch (error) {
+        container.createEl('p', {
+            text: 'Failed to load jobs. Check connection.',
+            cls: 'error'
+        });
+    }
+}
 
-        // Footer buttons
-        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-        footerEl.style.cssText = 'margin-top: 20px; display: flex; gap: 10px;';
+// Pending Jobs Modal - View remote queue status
+class PendingJobsModal extends Modal {
+    plugin: BJJFlipmodePlugin;
 
-        new Setting(footerEl)
-            .addButton(btn => btn
-                .setButtonText('Generate All Clips')
-                .setCta()
-                .onClick(async () => {
-                    btn.setButtonText('Generating...');
-                    btn.setDisabled(true);
+    constructor(app: App, plugin: BJJFlipmodePlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
 
-                    let generated = 0;
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-pending-modal');
 
-                    for (const source of sources) {
-                        const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${source.video_id}`;
-                        const clipPath = await this.plugin.generateClipOnDemand(
-                            source.video_id,
-                            source.timestamp_seconds || 0,
-                            clipsFolder
-                        );
-                        if (clipPath) generated++;
-                    }
+        contentEl.createEl('h2', { text: 'Pending Coach Queries' });
 
-                    new Notice(`Generated ${generated}/${sources.length} clips!`, 5000);
-                    btn.setButtonText('Done!');
+        if (!this.plugin.isRemoteMode()) {
+            contentEl.createEl('p', { text: 'Remote mode not configured. Enable in settings.' });
+            return;
+        }
 
-                    setTimeout(() => this.close(), 2000);
-                }))
+        // Refresh button
+        new Setting(contentEl)
             .addButton(btn => btn
-                .setButtonText('Try Semantic Search')
-                .onClick(async () => {
-                    // Fall back to semantic search
-                    this.close();
-                    new Notice('Trying semantic search...', 2000);
+                .setButtonText('Refresh')
+                .onClick(() => this.refresh()));
 
-                    try {
-                        const response = await requestUrl({
-                            url: `${this.plugin.settings.serverUrl}/api/obsidian/explore-video`,
-                            method: 'POST',
-                            headers: {
-                                'Content-Type': 'application/json',
-                                'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                            },
-                            body: JSON.stringify({ concept: sourcesData.concept })
-                        });
+        // Jobs list
+        const jobsContainer = contentEl.createDiv({ cls: 'pending-jobs-list' });
+        jobsContainer.style.marginTop = '15px';
 
-                        const data = response.json;
+        await this.loadJobs(jobsContainer);
+    }
 
-                        if (!data.error) {
-                            const modal = new VideoExplorerModal(
-                                this.app,
-                                this.plugin,
-                                data,
-                                this.sourceFile
-                            );
-                            modal.open();
-                        } else {
-                            new Notice('No videos found via semantic search', 3000);
-                        }
-                    } catch (error: any) {
-                        new Notice(`Search failed: ${error.message}`, 3000);
-                    }
-                }))
-            .addButton(btn => btn
-                .setButtonText('Close')
-                .onClick(() => this.close()));
+    async loadJobs(container: HTMLElement) {
+        await renderPendingJobsList(this.plugin, container);
+    }
+
+    async refresh() {
+        const container = this.contentEl.querySelector('.pending-jobs-list') as HTMLElement;
+        if (container) {
+            await this.loadJobs(container);
+        }
     }
 
     onClose() {
-        this.contentEl.empty();
+        const { contentEl } = this;
+        contentEl.empty();
     }
 }
 
-// Video Explorer Modal - Browse video with clickable timestamps
-class VideoExplorerModal extends Modal {
+const DASHBOARD_WEEKS = 8;
+
+// Coach dashboard: per-athlete activity, open/answered queries and response times
+class CoachDashboardView extends ItemView {
     plugin: BJJFlipmodePlugin;
-    videoData: any;
-    sourceFile: TFile;
+    private loading = false;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, videoData: any, sourceFile: TFile) {
-        super(app);
+    constructor(leaf: WorkspaceLeaf, plugin: BJJFlipmodePlugin) {
+        super(leaf);
         this.plugin = plugin;
-        this.videoData = videoData;
-        this.sourceFile = sourceFile;
     }
 
-    onOpen() {
-        const { contentEl } = this;
-        const { videoData } = this;
+    getViewType(): string {
+        return COACH_DASHBOARD_VIEW;
+    }
 
-        // Header
-        contentEl.createEl('h2', { text: `Video: ${videoData.title || 'Unknown'}` });
+    getDisplayText(): string {
+        return 'Athlete Dashboard';
+    }
 
-        const metaEl = contentEl.createEl('div', { cls: 'video-meta' });
-        metaEl.style.cssText = 'margin-bottom: 20px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
-        metaEl.createEl('p', { text: `Instructor: ${videoData.instructor || 'Unknown'}` });
-        metaEl.createEl('p', { text: `Video ID: ${videoData.video_id}` });
-        metaEl.createEl('p', { text: `Found ${videoData.total_techniques || 0} techniques with timestamps` });
+    getIcon(): string {
+        return 'layout-dashboard';
+    }
 
-        // Instructions
-        contentEl.createEl('p', {
-            text: 'Click any timestamp to generate a 60-second WebM clip:',
-            cls: 'video-explorer-instructions'
-        });
+    async onOpen() {
+        await this.refresh();
+    }
 
-        // Techniques list
-        const listEl = contentEl.createEl('div', { cls: 'techniques-list' });
-        listEl.style.cssText = 'max-height: 400px; overflow-y: auto;';
+    async onClose() {
+        this.contentEl.empty();
+    }
 
-        const techniques = videoData.techniques || [];
+    async refresh() {
+        if (this.loading) return;
+        this.loading = true;
 
-        if (techniques.length === 0) {
-            listEl.createEl('p', { text: 'No timestamped techniques found in this video.' });
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-dashboard');
+        contentEl.style.padding = '16px';
+
+        const header = contentEl.createDiv();
+        header.style.cssText = 'display: flex; align-items: center; justify-content: space-between; margin-bottom: 12px;';
+        header.createEl('h2', { text: 'Athlete Dashboard' }).style.margin = '0';
+        const refreshBtn = header.createEl('button', { text: 'Refresh' });
+        refreshBtn.onclick = () => this.refresh();
+
+        if (!this.plugin.isCoachMode()) {
+            contentEl.createEl('p', { text: 'Coach mode not configured. Enable in settings.' });
+            this.loading = false;
+            return;
         }
 
-        for (const tech of techniques) {
-            const techEl = listEl.createEl('div', { cls: 'technique-item' });
-            techEl.style.cssText = 'padding: 12px; margin: 8px 0; border-radius: 5px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid var(--interactive-accent);';
+        const statusEl = contentEl.createEl('p', { text: 'Loading athletes...' });
+        statusEl.style.color = 'var(--text-muted)';
 
-            // Timestamp badge
-            const timestampBadge = techEl.createEl('span', { cls: 'timestamp-badge' });
-            timestampBadge.style.cssText = 'display: inline-block; background: var(--interactive-accent); color: white; padding: 2px 8px; border-radius: 3px; font-family: monospace; margin-right: 10px;';
-            timestampBadge.textContent = tech.timestamp || '0:00';
+        try {
+            const { entries, stats } = await this.plugin.loadCoachDashboard();
+            statusEl.remove();
 
-            // Technique name
-            techEl.createEl('strong', { text: tech.name || 'Untitled' });
+            if (stats) this.renderStats(contentEl, stats);
 
-            // Description
-            if (tech.description) {
-                const descEl = techEl.createEl('p', { cls: 'technique-description' });
-                descEl.style.cssText = 'margin-top: 5px; font-size: 0.9em; color: var(--text-muted);';
-                descEl.textContent = tech.description.substring(0, 200) + (tech.description.length > 200 ? '...' : '');
+            if (entries.length === 0) {
+                contentEl.createEl('p', { text: 'No athletes on your roster yet.' });
+                return;
             }
 
-            // Click handler - generate clip
-            techEl.addEventListener('click', async () => {
-                timestampBadge.textContent = 'Generating...';
-                timestampBadge.style.background = 'var(--text-warning)';
+            // Athletes with open queries first, then most recently active
+            const lastActivity = (e: AthleteDashboardEntry) => this.latestDate([
+                ...e.graph.sessions.map(s => s.date),
+                ...e.graph.queries.map(q => q.date)
+            ]) || '';
+            entries.sort((a, b) =>
+                (b.openJobs.length > 0 ? 1 : 0) - (a.openJobs.length > 0 ? 1 : 0) ||
+                lastActivity(b).localeCompare(lastActivity(a))
+            );
 
-                const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${this.videoData.video_id}`;
-                const clipPath = await this.plugin.generateClipOnDemand(
-                    videoData.video_id,
-                    tech.timestamp_seconds || 0,
-                    clipsFolder
-                );
+            for (const entry of entries) {
+                this.renderAthlete(contentEl, entry);
+            }
+        } catch (error) {
+            console.error('[Flipmode] Dashboard load failed:', error);
+            statusEl.setText('Failed to load dashboard. Check connection.');
+            statusEl.style.color = 'var(--text-error)';
+        } finally {
+            this.loading = false;
+        }
+    }
 
-                if (clipPath) {
-                    timestampBadge.textContent = 'Done!';
-                    timestampBadge.style.background = 'var(--text-success)';
-                    new Notice(`Clip saved: ${clipPath}`, 3000);
+    private renderStats(container: HTMLElement, stats: Stats) {
+        const row = container.createDiv();
+        row.style.cssText = 'display: flex; gap: 10px; flex-wrap: wrap; margin-bottom: 16px;';
+
+        const cards: [string, number | undefined][] = [
+            ['Athletes', stats.total_athletes],
+            ['Pending', stats.pending_jobs],
+            ['Processing', stats.processing_jobs],
+            ['Completed', stats.completed_jobs]
+        ];
+        for (const [label, value] of cards) {
+            const card = row.createDiv();
+            card.style.cssText = 'flex: 1; min-width: 90px; background: var(--background-secondary); border-radius: 8px; padding: 10px; text-align: center;';
+            const valueEl = card.createDiv({ text: value !== undefined ? String(value) : '–' });
+            valueEl.style.cssText = 'font-size: 1.4em; font-weight: 600;';
+            const labelEl = card.createDiv({ text: label });
+            labelEl.style.cssText = 'font-size: 0.8em; color: var(--text-muted);';
+        }
+    }
 
-                    // Open the clip
-                    const clipFile = this.app.vault.getAbstractFileByPath(clipPath);
-                    if (clipFile instanceof TFile) {
-                        await this.app.workspace.getLeaf('split').openFile(clipFile);
-                    }
-                } else {
-                    timestampBadge.textContent = 'Failed';
-                    timestampBadge.style.background = 'var(--text-error)';
-                    new Notice('Failed to generate clip', 3000);
-                }
+    private renderAthlete(container: HTMLElement, entry: AthleteDashboardEntry) {
+        const { graph } = entry;
+        const card = container.createDiv({ cls: 'flipmode-dashboard-athlete' });
+        card.style.cssText = 'background: var(--background-secondary); border-radius: 8px; padding: 12px; margin-bottom: 12px;';
+
+        // Name links to the synced summary note
+        const title = card.createEl('h3');
+        title.style.margin = '0 0 8px 0';
+        this.createNoteLink(title, entry.name, entry.summaryPath);
+
+        const answeredCount = Math.max(graph.queries.filter(q => !q.pending).length, entry.answered.length);
+        const lastSession = this.plugin.sessionNotePaths(entry.athlete, graph.sessions)[0];
+        const summary = card.createDiv();
+        summary.style.cssText = 'display: flex; gap: 16px; flex-wrap: wrap; font-size: 0.9em; margin-bottom: 8px;';
+        summary.createSpan({ text: `Open: ${entry.openJobs.length}` }).style.color =
+            entry.openJobs.length > 0 ? 'var(--text-warning)' : 'var(--text-muted)';
+        summary.createSpan({ text: `Answered: ${answeredCount}` });
+        summary.createSpan({ text: `Avg time to answer: ${this.averageResponseTime(entry.answered)}` });
+        const sessionEl = summary.createSpan({ text: 'Last session: ' });
+        if (lastSession) {
+            this.createNoteLink(sessionEl, this.formatDate(lastSession.session.date!), lastSession.path);
+            sessionEl.appendText(` (${this.plugin.describeSession(lastSession.session)})`);
+        } else {
+            sessionEl.appendText('none');
+        }
 
-                // Reset after delay
-                setTimeout(() => {
-                    timestampBadge.textContent = tech.timestamp || '0:00';
-                    timestampBadge.style.background = 'var(--interactive-accent)';
-                }, 3000);
-            });
+        this.renderQueryFrequency(card, graph.queries);
+        this.renderTopics(card, graph);
+
+        if (entry.openJobs.length > 0) {
+            card.createEl('h4', { text: 'Open queries' }).style.margin = '10px 0 4px 0';
+            const list = card.createEl('ul');
+            list.style.margin = '0';
+            for (const job of entry.openJobs) {
+                const item = list.createEl('li');
+                const waiting = Date.now() - new Date(job.submitted_at).getTime();
+                this.createNoteLink(item, this.truncate(job.query_text), this.plugin.inboxNotePath(job));
+                item.appendText(` · waiting ${this.formatElapsed(waiting)}`);
+                if (job.claimed_by && this.plugin.isClaimActive(job.claim_expires_at)) {
+                    item.appendText(` · claimed by ${job.claimed_by}`);
+                }
+            }
+        }
 
-            // Hover effects
-            techEl.addEventListener('mouseenter', () => {
-                techEl.style.background = 'var(--background-modifier-hover)';
-            });
-            techEl.addEventListener('mouseleave', () => {
-                techEl.style.background = 'var(--background-secondary)';
-            });
+        if (entry.answered.length > 0) {
+            card.createEl('h4', { text: 'Recently answered' }).style.margin = '10px 0 4px 0';
+            const list = card.createEl('ul');
+            list.style.margin = '0';
+            const recent = [...entry.answered]
+                .sort((a, b) => (b.answeredAt || '').localeCompare(a.answeredAt || ''))
+                .slice(0, 5);
+            for (const answered of recent) {
+                const item = list.createEl('li');
+                this.createNoteLink(item, this.truncate(answered.query), answered.file.path);
+                const elapsed = this.responseTime(answered);
+                if (elapsed !== null) item.appendText(` · answered in ${this.formatElapsed(elapsed)}`);
+            }
         }
+    }
 
-        // Footer buttons
-        const footerEl = contentEl.createEl('div', { cls: 'modal-footer' });
-        footerEl.style.cssText = 'margin-top: 20px; display: flex; gap: 10px;';
+    // Queries per week over the last DASHBOARD_WEEKS weeks, oldest on the left
+    private renderQueryFrequency(container: HTMLElement, queries: GraphQuery[]) {
+        const weekMs = 7 * 24 * 60 * 60 * 1000;
+        const counts: number[] = new Array(DASHBOARD_WEEKS).fill(0);
+        for (const q of queries) {
+            if (!q.date) continue;
+            const weeksAgo = Math.floor((Date.now() - new Date(q.date).getTime()) / weekMs);
+            if (weeksAgo >= 0 && weeksAgo < DASHBOARD_WEEKS) {
+                counts[DASHBOARD_WEEKS - 1 - weeksAgo] += 1;
+            }
+        }
 
-        new Setting(footerEl)
-            .addButton(btn => btn
-                .setButtonText('Expand to Full Series')
-                .onClick(async () => {
-                    btn.setButtonText('Loading...');
-                    btn.setDisabled(true);
+        const row = container.createDiv();
+        row.style.cssText = 'display: flex; align-items: flex-end; gap: 8px; margin: 6px 0;';
+        const label = row.createSpan({ text: `Queries / week (last ${DASHBOARD_WEEKS})` });
+        label.style.cssText = 'font-size: 0.8em; color: var(--text-muted); min-width: 150px;';
+
+        const chart = row.createDiv();
+        chart.style.cssText = 'display: flex; align-items: flex-end; gap: 3px; height: 32px;';
+        const max = Math.max(1, ...counts);
+        counts.forEach((count, i) => {
+            const bar = chart.createDiv();
+            const weeksAgo = DASHBOARD_WEEKS - 1 - i;
+            bar.title = `${count} quer${count === 1 ? 'y' : 'ies'} ${weeksAgo === 0 ? 'this week' : `${weeksAgo} week${weeksAgo === 1 ? '' : 's'} ago`}`;
+            bar.style.cssText = `width: 12px; height: ${Math.max(2, Math.round((count / max) * 32))}px; border-radius: 2px; background: ${count > 0 ? 'var(--interactive-accent)' : 'var(--background-modifier-border)'};`;
+        });
+    }
 
-                    try {
-                        // Get series data
-                        const response = await requestUrl({
-                            url: `${this.plugin.settings.serverUrl}/api/obsidian/explore-series`,
-                            method: 'POST',
-                            headers: {
-                                'Content-Type': 'application/json',
-                                'Authorization': `Bearer ${this.plugin.settings.apiToken}`
-                            },
-                            body: JSON.stringify({
-                                concept: this.videoData.concept_searched || this.videoData.title,
-                                instructor: this.videoData.instructor
-                            })
-                        });
+    private renderTopics(container: HTMLElement, graph: AthleteGraphData) {
+        const topics = new Set<string>(graph.topics);
+        for (const q of graph.queries) {
+            if (q.topic) topics.add(q.topic);
+        }
+        if (topics.size === 0) return;
 
-                        const seriesData = response.json;
+        const groups = new Map<string, string[]>();
+        for (const topic of topics) {
+            const group = taxonomyGroup(topic) || 'Other';
+            if (!groups.has(group)) groups.set(group, []);
+            groups.get(group)!.push(topic);
+        }
 
-                        if (seriesData.error) {
-                            new Notice('No series found', 3000);
-                            btn.setButtonText('Expand to Full Series');
-                            btn.setDisabled(false);
-                            return;
-                        }
+        const details = container.createEl('details');
+        details.createEl('summary', { text: `Topics by position (${topics.size})` }).style.cursor = 'pointer';
+        const order = [...taxonomyRoots(), 'Other'];
+        for (const group of order) {
+            const groupTopics = groups.get(group);
+            if (!groupTopics) continue;
+            const line = details.createDiv({ text: `${group}: ${groupTopics.sort().join(', ')}` });
+            line.style.cssText = 'font-size: 0.9em; margin: 2px 0 2px 12px;';
+        }
+    }
 
-                        // Close this modal and open Series Explorer
-                        this.close();
-                        const seriesModal = new SeriesExplorerModal(
-                            this.app,
-                            this.plugin,
-                            seriesData,
-                            this.sourceFile
-                        );
-                        seriesModal.open();
+    private createNoteLink(parent: HTMLElement, text: string, path: string) {
+        const link = parent.createEl('a', { text, href: '#' });
+        link.onclick = async (e) => {
+            e.preventDefault();
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf('tab').openFile(file);
+            } else {
+                new Notice('Note not in vault yet - run "Coach: Sync all athletes"');
+            }
+        };
+    }
 
-                    } catch (error: any) {
-                        new Notice(`Failed to load series: ${error.message}`, 3000);
-                        btn.setButtonText('Expand to Full Series');
-                        btn.setDisabled(false);
-                    }
-                }))
-            .addButton(btn => btn
-                .setButtonText('Generate All Clips')
-                .setCta()
-                .onClick(async () => {
-                    btn.setButtonText('Generating...');
-                    btn.setDisabled(true);
+    private responseTime(answered: AnsweredQuery): number | null {
+        if (!answered.submittedAt || !answered.answeredAt) return null;
+        const elapsed = new Date(answered.answeredAt).getTime() - new Date(answered.submittedAt).getTime();
+        return isNaN(elapsed) || elapsed < 0 ? null : elapsed;
+    }
 
-                    const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${this.videoData.video_id}`;
-                    let generated = 0;
+    private averageResponseTime(answered: AnsweredQuery[]): string {
+        const times = answered.map(a => this.responseTime(a)).filter((t): t is number => t !== null);
+        if (times.length === 0) return 'n/a';
+        return this.formatElapsed(times.reduce((sum, t) => sum + t, 0) / times.length);
+    }
 
-                    for (const tech of techniques) {
-                        const clipPath = await this.plugin.generateClipOnDemand(
-                            videoData.video_id,
-                            tech.timestamp_seconds || 0,
-                            clipsFolder
-                        );
-                        if (clipPath) generated++;
-                    }
+    private latestDate(dates: (string | undefined)[]): string | null {
+        const valid = dates.filter((d): d is string => !!d).sort();
+        return valid.length > 0 ? valid[valid.length - 1] : null;
+    }
 
-                    new Notice(`Generated ${generated}/${techniques.length} clips!`, 5000);
-                    btn.setButtonText('Done!');
+    private formatDate(date: string): string {
+        const parsed = new Date(date);
+        return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString();
+    }
 
-                    setTimeout(() => this.close(), 2000);
-                }))
-            .addButton(btn => btn
-                .setButtonText('Close')
-                .onClick(() => this.close()));
+    private formatElapsed(ms: number): string {
+        const minutes = Math.round(ms / 60000);
+        if (minutes < 60) return `${minutes}m`;
+        const hours = Math.floor(minutes / 60);
+        if (hours < 24) return `${hours}h ${minutes % 60}m`;
+        return `${Math.floor(hours / 24)}d ${hours % 24}h`;
     }
 
-    onClose() {
-        this.contentEl.empty();
+    private truncate(text: string): string {
+        return text.length > 60 ? text.substring(0, 60) + '...' : text;
     }
 }
 
-// Series Explorer Modal - Browse entire video series with all volumes
-class SeriesExplorerModal extends Modal {
+// Persistent right-sidebar home for queries, inbox, shared canvases, concepts and connection
+class FlipmodeSidebarView extends ItemView {
     plugin: BJJFlipmodePlugin;
-    seriesData: any;
-    sourceFile: TFile;
+    activeTab: SidebarTab;
+    private tabButtons = new Map<SidebarTab, HTMLElement>();
+    private panelEl: HTMLElement;
+    private connectionStatusEl: HTMLElement | null = null;
 
-    constructor(app: App, plugin: BJJFlipmodePlugin, seriesData: any, sourceFile: TFile) {
-        super(app);
+    constructor(leaf: WorkspaceLeaf, plugin: BJJFlipmodePlugin) {
+        super(leaf);
         this.plugin = plugin;
-        this.seriesData = seriesData;
-        this.sourceFile = sourceFile;
+        this.activeTab = plugin.settings.mode === 'coach' ? 'inbox' : 'queries';
     }
 
-    onOpen() {
+    getViewType(): string {
+        return FLIPMODE_SIDEBAR_VIEW;
+    }
+
+    getDisplayText(): string {
+        return 'Flipmode';
+    }
+
+    getIcon(): string {
+        return 'brain-circuit';
+    }
+
+    async onOpen() {
         const { contentEl } = this;
-        const { seriesData } = this;
+        contentEl.empty();
+        contentEl.addClass('flipmode-sidebar');
+        contentEl.style.padding = '8px 12px';
+
+        const tabBar = contentEl.createDiv({ cls: 'flipmode-sidebar-tabs' });
+        tabBar.style.cssText = 'display: flex; flex-wrap: wrap; gap: 4px; margin-bottom: 12px; border-bottom: 1px solid var(--background-modifier-border); padding-bottom: 8px;';
+        for (const tab of SIDEBAR_TABS) {
+            const btn = tabBar.createEl('button', { text: tab.label });
+            btn.style.cssText = 'font-size: 0.8em; padding: 4px 8px;';
+            btn.onclick = () => this.setTab(tab.id);
+            this.tabButtons.set(tab.id, btn);
+        }
 
-        // Header
-        contentEl.createEl('h2', { text: `Series: ${seriesData.series_name || 'Unknown'}` });
+        this.panelEl = contentEl.createDiv({ cls: 'flipmode-sidebar-panel' });
+        this.setTab(this.activeTab);
+    }
 
-        const metaEl = contentEl.createEl('div', { cls: 'series-meta' });
-        metaEl.style.cssText = 'margin-bottom: 20px; padding: 10px; background: var(--background-secondary); border-radius: 5px;';
-        metaEl.createEl('p', { text: `Instructor: ${seriesData.instructor || 'Unknown'}` });
-        metaEl.createEl('p', { text: `Total Volumes: ${seriesData.total_volumes || 0}` });
+    async onClose() {
+        this.contentEl.empty();
+    }
 
-        // Volumes accordion
-        const volumesEl = contentEl.createEl('div', { cls: 'volumes-list' });
-        volumesEl.style.cssText = 'max-height: 500px; overflow-y: auto;';
+    setTab(tab: SidebarTab) {
+        this.activeTab = tab;
+        for (const [id, btn] of this.tabButtons) {
+            btn.toggleClass('mod-cta', id === tab);
+        }
+        this.refresh();
+    }
 
-        const volumes = seriesData.volumes || [];
+    refresh(tab?: SidebarTab, cached: boolean = false) {
+        if (!this.panelEl || (tab && tab !== this.activeTab)) return;
 
-        for (const vol of volumes) {
-            // Volume header (collapsible)
-            const volContainer = volumesEl.createEl('div', { cls: 'volume-container' });
-            volContainer.style.cssText = 'margin-bottom: 10px; border: 1px solid var(--background-modifier-border); border-radius: 5px;';
+        // Each render gets its own container, so a slower earlier render lands in a detached element
+        this.panelEl.empty();
+        this.connectionStatusEl = null;
+        const panel = this.panelEl.createDiv();
 
-            const volHeader = volContainer.createEl('div', { cls: 'volume-header' });
-            volHeader.style.cssText = 'padding: 12px; background: var(--interactive-accent); color: white; cursor: pointer; border-radius: 5px 5px 0 0; display: flex; justify-content: space-between; align-items: center;';
+        const render: Record<SidebarTab, (el: HTMLElement) => Promise<void> | void> = {
+            queries: el => this.renderQueries(el, cached),
+            inbox: el => this.renderInbox(el, cached),
+            canvases: el => this.renderCanvases(el),
+            concepts: el => this.renderConcepts(el),
+            connection: el => this.renderConnection(el)
+        };
+        Promise.resolve(render[this.activeTab](panel)).catch(error => {
+            console.error(`[Flipmode] Sidebar ${this.activeTab} failed:`, error);
+            panel.createEl('p', { text: 'Failed to load. Check connection.', cls: 'error' });
+        });
+    }
 
-            volHeader.createEl('strong', { text: `Volume ${vol.volume}: ${vol.title || ''}` });
+    setConnectionStatus(status: string) {
+        this.connectionStatusEl?.setText(status);
+    }
 
-            const techCount = volHeader.createEl('span');
-            techCount.textContent = `${vol.total_techniques || 0} techniques`;
-            techCount.style.cssText = 'font-size: 0.85em; opacity: 0.9;';
+    private async renderQueries(el: HTMLElement, cachedJobs: boolean) {
+        if (!this.plugin.isRemoteMode()) {
+            el.createEl('p', { text: 'Remote mode not configured. Enable in settings.' });
+            return;
+        }
 
-            // Techniques list (hidden by default)
-            const techList = volContainer.createEl('div', { cls: 'technique-list' });
-            techList.style.cssText = 'display: none; padding: 10px; background: var(--background-primary);';
+        const actions = this.createActions(el);
+        actions.createEl('button', { text: 'Refresh' }).onclick = () => this.refresh();
+        actions.createEl('button', { text: 'Send queued now' }).onclick = () => this.plugin.flushOutbox(true);
+        actions.createEl('button', { text: 'Voice note' }).onclick = () => this.plugin.showVoiceNoteModal();
 
-            // Toggle visibility
-            volHeader.addEventListener('click', () => {
-                const isVisible = techList.style.display !== 'none';
-                techList.style.display = isVisible ? 'none' : 'block';
-                volHeader.style.borderRadius = isVisible ? '5px 5px 0 0' : '5px';
-            });
+        await renderPendingJobsList(this.plugin, el.createDiv({ cls: 'pending-jobs-list' }), cachedJobs);
+    }
 
-            // Add techniques
-            for (const tech of (vol.techniques || [])) {
-                const techEl = techList.createEl('div', { cls: 'technique-item' });
-                techEl.style.cssText = 'padding: 8px; margin: 4px 0; border-radius: 3px; background: var(--background-secondary); cursor: pointer; border-left: 3px solid var(--text-accent);';
+    private async renderInbox(el: HTMLElement, cachedJobs: boolean) {
+        if (!this.plugin.isCoachMode()) {
+            el.createEl('p', { text: 'Coach mode not configured. Enable in settings.' });
+            return;
+        }
 
-                const timestampBadge = techEl.createEl('span');
-                timestampBadge.style.cssText = 'display: inline-block; background: var(--text-accent); color: white; padding: 2px 6px; border-radius: 3px; font-family: monospace; font-size: 0.85em; margin-right: 8px;';
-                timestampBadge.textContent = tech.timestamp || '0:00';
+        const actions = this.createActions(el);
+        actions.createEl('button', { text: 'Refresh' }).onclick = () => this.refresh();
+        actions.createEl('button', { text: 'Sync notes' }).onclick = async () => {
+            // Writes the Inbox notes, which refreshes this tab
+            try {
+                await this.plugin.syncInboxNotes(await this.plugin.coachClient!.getPendingJobs());
+            } catch (error) {
+                console.error('[Flipmode] Inbox sync failed:', error);
+                new Notice('Failed to fetch pending queries');
+            }
+        };
+        actions.createEl('button', { text: 'Triage' }).onclick = () => this.plugin.openCoachTriage();
+        actions.createEl('button', { text: 'Dashboard' }).onclick = () => this.plugin.openCoachDashboard();
 
-                techEl.createEl('span', { text: tech.name || 'Untitled' });
+        const statusEl = el.createEl('p', { text: 'Loading inbox...' });
+        statusEl.style.color = 'var(--text-muted)';
 
-                // Click to generate clip
-                techEl.addEventListener('click', async (e) => {
-                    e.stopPropagation();
-                    timestampBadge.textContent = '...';
-                    timestampBadge.style.background = 'var(--text-warning)';
+        const pending = (cachedJobs && this.plugin.inboxJobsCache) || await this.plugin.coachClient!.getPendingJobs();
+        this.plugin.inboxJobsCache = pending;
+        statusEl.remove();
 
-                    const clipsFolder = `${this.sourceFile.parent?.path || this.plugin.settings.syncFolder}/clips/${vol.video_id}`;
-                    const clipPath = await this.plugin.generateClipOnDemand(
-                        vol.video_id,
-                        tech.timestamp_seconds || 0,
-                        clipsFolder
-                    );
+        if (pending.length === 0) {
+            el.createEl('p', { text: 'No pending queries' });
+            return;
+        }
 
-                    if (clipPath) {
-                        timestampBadge.textContent = 'OK';
-                        timestampBadge.style.background = 'var(--text-success)';
-                        new Notice(`Clip saved!`, 2000);
-                    } else {
-                        timestampBadge.textContent = 'X';
-                        timestampBadge.style.background = 'var(--text-error)';
-                    }
+        for (const job of pending) {
+            const item = this.createItem(el);
+            const header = item.createDiv();
+            header.createEl('strong', { text: job.athlete_name || 'Unknown' });
+            header.appendText(` · ${new Date(job.submitted_at).toLocaleDateString()}`);
 
-                    setTimeout(() => {
-                        timestampBadge.textContent = tech.timestamp || '0:00';
-                        timestampBadge.style.background = 'var(--text-accent)';
-                    }, 2000);
-                });
+            const path = this.plugin.inboxNotePath(job);
+            const query = job.query_text.length > 80 ? job.query_text.substring(0, 80) + '...' : job.query_text;
+            this.createFileLink(item.createDiv(), query, path);
 
-                techEl.addEventListener('mouseenter', () => techEl.style.background = 'var(--background-modifier-hover)');
-                techEl.addEventListener('mouseleave', () => techEl.style.background = 'var(--background-secondary)');
+            const claimed = job.claimed_by && this.plugin.isClaimActive(job.claim_expires_at);
+            const claimEl = item.createDiv({ text: claimed ? `Claimed by ${job.claimed_by}` : 'Unclaimed' });
+            claimEl.style.cssText = `font-size: 0.85em; color: ${claimed ? 'var(--text-warning)' : 'var(--text-muted)'};`;
+        }
+    }
+
+    private async renderCanvases(el: HTMLElement) {
+        if (this.plugin.isCoachMode()) {
+            const { sharedCanvases, sharedCanvasGroups } = this.plugin.settings;
+            const shared = [...new Set([...Object.keys(sharedCanvases), ...Object.keys(sharedCanvasGroups)])]
+                .filter(path => this.plugin.isCanvasShared(path));
+            if (shared.length === 0) {
+                el.createEl('p', { text: 'No shared canvases. Right-click a canvas and choose "Share Canvas with Athletes".' });
+                return;
             }
+
+            for (const path of shared) {
+                const athleteCount = sharedCanvases[path]?.length || 0;
+                const groupNames = (sharedCanvasGroups[path] || [])
+                    .map(id => this.plugin.athleteGroups.find(g => g.id === id)?.name || 'a group');
+                const targets = [
+                    ...groupNames,
+                    ...(athleteCount > 0 ? [`${athleteCount} athlete${athleteCount === 1 ? '' : 's'}`] : [])
+                ];
+
+                const item = this.createItem(el);
+                this.createFileLink(item.createDiv(), path.split('/').pop()!.replace(/\.canvas$/, ''), path);
+                const info = item.createDiv();
+                info.style.cssText = 'display: flex; justify-content: space-between; align-items: center; font-size: 0.85em; color: var(--text-muted);';
+                info.createSpan({ text: `Shared with ${targets.join(', ')}` });
+                info.createEl('button', { text: 'Stop sharing' }).onclick = () => this.plugin.stopSharingCanvas(path);
+            }
+            return;
         }
 
-        // Footer
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Close')
-                .onClick(() => this.close()));
+        if (this.plugin.isRemoteMode()) {
+            const actions = this.createActions(el);
+            actions.createEl('button', { text: 'Check for updates' }).onclick = () => this.plugin.pollCanvasUpdates();
+        }
+
+        const coachFolder = `${this.plugin.settings.syncFolder}/Coach/`;
+        const canvases = this.app.vault.getFiles()
+            .filter(f => f.extension === 'canvas' && f.path.startsWith(coachFolder))
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+
+        if (canvases.length === 0) {
+            el.createEl('p', { text: 'No canvases from your coach yet.' });
+            return;
+        }
+
+        for (const file of canvases) {
+            const item = this.createItem(el);
+            this.createFileLink(item.createDiv(), file.basename, file.path);
+            const updated = item.createDiv({ text: `Updated ${new Date(file.stat.mtime).toLocaleString()}` });
+            updated.style.cssText = 'font-size: 0.85em; color: var(--text-muted);';
+        }
     }
 
-    onClose() {
-        this.contentEl.empty();
+    private renderConcepts(el: HTMLElement) {
+        const actions = this.createActions(el);
+        actions.createEl('button', { text: 'Suggest merges' }).onclick = () => this.plugin.suggestConceptMerges();
+        if (this.plugin.isCoachMode()) {
+            actions.createEl('button', { text: 'Push to athlete' }).onclick = () => this.plugin.coachPushConcepts();
+        }
+
+        const conceptsFolder = `${this.plugin.settings.syncFolder}/${this.plugin.settings.conceptsSubfolder}/`;
+        const concepts = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(conceptsFolder));
+        if (concepts.length === 0) {
+            el.createEl('p', { text: 'No concepts yet.' });
+            return;
+        }
+
+        // Group by taxonomy position, unplaced concepts last
+        const groups = new Map<string, TFile[]>();
+        for (const file of concepts) {
+            const group = taxonomyGroup(file.basename) || 'Other';
+            if (!groups.has(group)) groups.set(group, []);
+            groups.get(group)!.push(file);
+        }
+        const order = [...taxonomyRoots(), 'Other'];
+
+        for (const group of order) {
+            const files = groups.get(group);
+            if (!files) continue;
+
+            const heading = el.createEl('h5', { text: `${group} (${files.length})` });
+            heading.style.margin = '12px 0 4px 0';
+            const list = el.createEl('ul');
+            list.style.cssText = 'margin: 0; padding-left: 18px;';
+            for (const file of files.sort((a, b) => a.basename.localeCompare(b.basename))) {
+                this.createFileLink(list.createEl('li'), file.basename, file.path);
+            }
+        }
+    }
+
+    private renderConnection(el: HTMLElement) {
+        const { settings } = this.plugin;
+        const modeLabels: Record<BJJFlipmodeSettings['mode'], string> = {
+            local: 'Local',
+            remote: 'Remote (athlete)',
+            coach: 'Coach'
+        };
+
+        const rows: [string, string][] = [['Mode', modeLabels[settings.mode]]];
+        if (settings.mode !== 'local') {
+            rows.push(['Queue service', settings.queueServiceUrl || 'Not set']);
+        }
+        if (settings.mode === 'remote') {
+            rows.push(['Updates', this.plugin.eventStream?.isConnected() ? 'Live' : `Polling every ${settings.pollInterval}s`]);
+            rows.push(['Awaiting results', String(this.plugin.pendingJobs.size)]);
+        }
+
+        const table = el.createDiv();
+        table.style.cssText = 'display: grid; grid-template-columns: auto 1fr; gap: 4px 12px; font-size: 0.9em; margin-bottom: 12px;';
+        table.createSpan({ text: 'Status' }).style.color = 'var(--text-muted)';
+        this.connectionStatusEl = table.createSpan({ text: this.plugin.connectionStatus });
+        for (const [label, value] of rows) {
+            table.createSpan({ text: label }).style.color = 'var(--text-muted)';
+            table.createSpan({ text: value }).style.wordBreak = 'break-all';
+        }
+
+        renderFlipmodeMenu(this.plugin, el);
+    }
+
+    private createActions(el: HTMLElement): HTMLElement {
+        const actions = el.createDiv();
+        actions.style.cssText = 'display: flex; flex-wrap: wrap; gap: 6px; margin-bottom: 12px;';
+        return actions;
+    }
+
+    private createItem(el: HTMLElement): HTMLElement {
+        const item = el.createDiv();
+        item.style.cssText = 'background: var(--background-secondary); border-radius: 8px; padding: 8px 10px; margin-bottom: 8px;';
+        return item;
+    }
+
+    private createFileLink(parent: HTMLElement, text: string, path: string) {
+        const link = parent.createEl('a', { text, href: '#' });
+        link.onclick = async (e) => {
+            e.preventDefault();
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                await this.app.workspace.getLeaf('tab').openFile(file);
+            } else {
+                new Notice('Note not in vault yet - try syncing');
+            }
+        };
     }
 }
 
-// Coach Push Concepts Modal - Select athlete to push concepts to
-class CoachPushConceptsModal extends Modal {
+// Bulk inbox triage: select pending queries, generate drafts in batches, answer similar ones together
+class CoachTriageView extends ItemView {
     plugin: BJJFlipmodePlugin;
-    concepts: any[];
-
-    constructor(app: App, plugin: BJJFlipmodePlugin, concepts: any[]) {
-        super(app);
+    private jobs: Job[] = [];
+    private selected = new Set<string>();
+    private rowStatus = new Map<string, { text: string; color: string; path?: string }>();
+    private grouped = true;
+    private running = false;
+    private progressText = '';
+
+    constructor(leaf: WorkspaceLeaf, plugin: BJJFlipmodePlugin) {
+        super(leaf);
         this.plugin = plugin;
-        this.concepts = concepts;
     }
 
-    async onOpen() {
+    getViewType(): string {
+        return COACH_TRIAGE_VIEW;
+    }
+
+    getDisplayText(): string {
+        return 'Inbox Triage';
+    }
+
+    getIcon(): string {
+        return 'list-checks';
+    }
+
+    async onOpen() {
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    async refresh() {
+        // Keep the row statuses of a running batch on screen
+        if (this.running) return;
+
         const { contentEl } = this;
-        contentEl.createEl('h2', { text: 'Push Concepts to Athlete' });
-        contentEl.createEl('p', { text: `${this.concepts.length} concepts ready to push` });
+        contentEl.empty();
+        contentEl.style.padding = '16px';
 
-        // Load athletes
-        let athletes: any[] = [];
-        try {
-            athletes = await this.plugin.coachClient!.getAthletes();
-        } catch {
-            contentEl.createEl('p', { text: 'Failed to load athletes' });
+        if (!this.plugin.isCoachMode()) {
+            contentEl.createEl('p', { text: 'Coach mode not configured. Enable in settings.' });
             return;
         }
 
-        if (athletes.length === 0) {
-            contentEl.createEl('p', { text: 'No athletes in roster. Add athletes first.' });
+        const loadingEl = contentEl.createEl('p', { text: 'Loading pending queries...' });
+        loadingEl.style.color = 'var(--text-muted)';
+
+        try {
+            this.jobs = await this.plugin.coachClient!.getPendingJobs();
+            // Generation works from the Inbox notes, so make sure they exist
+            await this.plugin.syncInboxNotes(this.jobs);
+        } catch (error) {
+            console.error('[Flipmode] Triage load failed:', error);
+            loadingEl.setText('Failed to load pending queries. Check connection.');
+            loadingEl.style.color = 'var(--text-error)';
             return;
         }
 
-        let selectedAthleteId: number | null = null;
+        const pendingIds = new Set(this.jobs.map(j => j.job_id));
+        for (const id of [...this.selected]) {
+            if (!pendingIds.has(id)) this.selected.delete(id);
+        }
+        this.render();
+    }
 
-        new Setting(contentEl)
-            .setName('Select Athlete')
-            .addDropdown(dropdown => {
-                dropdown.addOption('', 'Choose athlete...');
-                for (const athlete of athletes) {
-                    dropdown.addOption(
-                        String(athlete.id),
-                        athlete.display_name || athlete.discord_username || `Athlete ${athlete.id}`
-                    );
-                }
-                dropdown.onChange(value => {
-                    selectedAthleteId = value ? parseInt(value) : null;
-                });
-            });
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
 
-        // Concept list preview
-        const listEl = contentEl.createEl('div', { cls: 'concept-list' });
-        listEl.createEl('h4', { text: 'Concepts:' });
-        const ul = listEl.createEl('ul');
-        for (const c of this.concepts.slice(0, 10)) {
-            ul.createEl('li', { text: `${c.name} (${c.category})` });
-        }
-        if (this.concepts.length > 10) {
-            ul.createEl('li', { text: `... and ${this.concepts.length - 10} more` });
-        }
+        const header = contentEl.createDiv();
+        header.style.cssText = 'display: flex; align-items: center; justify-content: space-between; margin-bottom: 12px;';
+        header.createEl('h2', { text: `Inbox Triage (${this.jobs.length})` }).style.margin = '0';
+        const refreshBtn = header.createEl('button', { text: 'Refresh' });
+        refreshBtn.disabled = this.running;
+        refreshBtn.onclick = () => this.refresh();
 
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Push Concepts')
-                .setCta()
-                .onClick(async () => {
-                    if (!selectedAthleteId) {
-                        new Notice('Select an athlete first');
-                        return;
-                    }
-                    try {
-                        new Notice('Pushing concepts...');
-                        const result = await this.plugin.coachClient!.pushConcepts(selectedAthleteId, this.concepts);
-                        new Notice(`Pushed! ${result.created} new, ${result.updated} updated`);
-                        this.close();
-                    } catch (error) {
-                        console.error('Push concepts error:', error);
-                        new Notice('Failed to push concepts');
-                    }
-                }));
-    }
+        const toolbar = contentEl.createDiv();
+        toolbar.style.cssText = 'display: flex; flex-wrap: wrap; align-items: center; gap: 8px; margin-bottom: 8px;';
 
-    onClose() {
-        this.contentEl.empty();
-    }
-}
+        const allBtn = toolbar.createEl('button', { text: 'Select all' });
+        allBtn.onclick = () => {
+            this.jobs.forEach(j => this.selected.add(j.job_id));
+            this.render();
+        };
+        const noneBtn = toolbar.createEl('button', { text: 'Clear' });
+        noneBtn.onclick = () => {
+            this.selected.clear();
+            this.render();
+        };
 
-// Pending Jobs Modal - View remote queue status
-class PendingJobsModal extends Modal {
-    plugin: BJJFlipmodePlugin;
+        const groupLabel = toolbar.createEl('label');
+        groupLabel.style.cssText = 'display: flex; align-items: center; gap: 4px; font-size: 0.9em;';
+        const groupToggle = groupLabel.createEl('input', { type: 'checkbox' });
+        groupToggle.checked = this.grouped;
+        groupToggle.onchange = () => {
+            this.grouped = groupToggle.checked;
+            this.render();
+        };
+        groupLabel.appendText('Group similar');
 
-    constructor(app: App, plugin: BJJFlipmodePlugin) {
-        super(app);
-        this.plugin = plugin;
-    }
+        const count = this.selected.size;
+        const generateBtn = toolbar.createEl('button', { text: `Generate ${count} article${count === 1 ? '' : 's'}`, cls: 'mod-cta' });
+        generateBtn.disabled = this.running || count === 0;
+        generateBtn.onclick = () => this.generateSelected();
 
-    async onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-        contentEl.addClass('flipmode-pending-modal');
+        const combineBtn = toolbar.createEl('button', { text: `Answer ${count} together` });
+        combineBtn.disabled = this.running || count < 2;
+        combineBtn.onclick = () => this.answerTogether();
 
-        contentEl.createEl('h2', { text: 'Pending Coach Queries' });
+        if (this.progressText) {
+            const progressEl = contentEl.createEl('p', { text: this.progressText });
+            progressEl.style.cssText = 'font-size: 0.9em; color: var(--text-accent); margin: 4px 0 8px 0;';
+        }
 
-        if (!this.plugin.isRemoteMode()) {
-            contentEl.createEl('p', { text: 'Remote mode not configured. Enable in settings.' });
+        if (this.jobs.length === 0) {
+            contentEl.createEl('p', { text: 'No pending queries' });
             return;
         }
 
-        // Refresh button
-        new Setting(contentEl)
-            .addButton(btn => btn
-                .setButtonText('Refresh')
-                .onClick(() => this.refresh()));
+        // Oldest first, so the longest-waiting athletes are answered first
+        const jobs = [...this.jobs].sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
 
-        // Jobs list
-        const jobsContainer = contentEl.createDiv({ cls: 'pending-jobs-list' });
-        jobsContainer.style.marginTop = '15px';
+        if (!this.grouped) {
+            for (const job of jobs) this.renderRow(contentEl, job);
+            return;
+        }
 
-        await this.loadJobs(jobsContainer);
+        for (const group of groupSimilarTexts(jobs.map(j => j.query_text))) {
+            const members = group.members.map(i => jobs[i]);
+            const section = contentEl.createDiv();
+            section.style.cssText = 'margin-bottom: 14px;';
+
+            const groupHeader = section.createDiv();
+            groupHeader.style.cssText = 'display: flex; align-items: center; gap: 6px; margin-bottom: 4px;';
+            if (members.length > 1) {
+                const groupBox = groupHeader.createEl('input', { type: 'checkbox' });
+                groupBox.checked = members.every(j => this.selected.has(j.job_id));
+                groupBox.onchange = () => {
+                    members.forEach(j => groupBox.checked ? this.selected.add(j.job_id) : this.selected.delete(j.job_id));
+                    this.render();
+                };
+            }
+            const label = members.length > 1
+                ? `${group.topic || 'Similar questions'} · ${members.length} queries`
+                : group.topic || 'Other';
+            groupHeader.createEl('strong', { text: label }).style.fontSize = '0.9em';
+
+            for (const job of members) this.renderRow(section, job);
+        }
     }
 
-    async loadJobs(container: HTMLElement) {
-        container.empty();
+    private renderRow(container: HTMLElement, job: Job) {
+        const row = container.createDiv();
+        row.style.cssText = 'display: flex; gap: 8px; align-items: flex-start; background: var(--background-secondary); border-radius: 8px; padding: 8px 10px; margin-bottom: 6px;';
 
-        try {
-            const jobs = await this.plugin.queueClient!.listJobs();
+        const box = row.createEl('input', { type: 'checkbox' });
+        box.checked = this.selected.has(job.job_id);
+        box.disabled = this.running;
+        box.onchange = () => {
+            box.checked ? this.selected.add(job.job_id) : this.selected.delete(job.job_id);
+            this.render();
+        };
 
-            if (jobs.length === 0) {
-                container.createEl('p', {
-                    text: 'No pending queries',
-                    cls: 'no-jobs'
-                });
-                return;
-            }
+        const body = row.createDiv();
+        body.style.flex = '1';
+        const meta = body.createDiv();
+        meta.style.cssText = 'font-size: 0.85em; color: var(--text-muted);';
+        meta.createEl('strong', { text: job.athlete_name || 'Unknown' }).style.color = 'var(--text-normal)';
+        meta.appendText(` · ${this.formatAge(job.submitted_at)}`);
+        if (job.claimed_by && this.plugin.isClaimActive(job.claim_expires_at)) {
+            meta.appendText(` · claimed by ${job.claimed_by}`);
+        }
 
-            for (const job of jobs) {
-                const jobDiv = container.createDiv({ cls: 'job-item' });
-                jobDiv.style.background = 'var(--background-secondary)';
-                jobDiv.style.padding = '12px';
-                jobDiv.style.borderRadius = '8px';
-                jobDiv.style.marginBottom = '10px';
+        const queryText = job.query_text.length > 160 ? job.query_text.substring(0, 160) + '...' : job.query_text;
+        const link = body.createEl('a', { text: queryText, href: '#' });
+        link.onclick = async (e) => {
+            e.preventDefault();
+            const file = this.plugin.findInboxNote(job.job_id);
+            if (file) await this.app.workspace.getLeaf('tab').openFile(file);
+        };
 
-                // Status indicator
-                const statusColors: Record<string, string> = {
-                    'pending': 'var(--text-muted)',
-                    'processing': 'var(--text-accent)',
-                    'complete': 'var(--text-success)',
-                    'error': 'var(--text-error)'
+        const status = this.rowStatus.get(job.job_id);
+        if (status) {
+            const statusEl = body.createDiv();
+            statusEl.style.cssText = `font-size: 0.85em; margin-top: 4px; color: ${status.color};`;
+            if (status.path) {
+                const path = status.path;
+                const draftLink = statusEl.createEl('a', { text: status.text, href: '#' });
+                draftLink.onclick = async (e) => {
+                    e.preventDefault();
+                    const file = this.app.vault.getAbstractFileByPath(path);
+                    if (file instanceof TFile) await this.app.workspace.getLeaf('tab').openFile(file);
                 };
+            } else {
+                statusEl.setText(status.text);
+            }
+        }
+    }
 
-                const statusEl = jobDiv.createEl('span', {
-                    text: job.status.toUpperCase(),
-                    cls: 'job-status'
-                });
-                statusEl.style.color = statusColors[job.status] || 'var(--text-muted)';
-                statusEl.style.fontWeight = '600';
-                statusEl.style.marginRight = '10px';
+    private selectedJobs(): Job[] {
+        return this.jobs
+            .filter(j => this.selected.has(j.job_id))
+            .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+    }
 
-                // Query text
-                const queryEl = jobDiv.createEl('span', {
-                    text: job.query_text.substring(0, 50) + (job.query_text.length > 50 ? '...' : '')
-                });
+    private async generateSelected() {
+        const jobs = this.selectedJobs();
+        if (jobs.length === 0 || this.running) return;
 
-                // Submitted time
-                const timeEl = jobDiv.createEl('div', {
-                    text: `Submitted: ${new Date(job.submitted_at).toLocaleString()}`,
-                    cls: 'job-time'
-                });
-                timeEl.style.fontSize = '0.85em';
-                timeEl.style.color = 'var(--text-muted)';
-                timeEl.style.marginTop = '5px';
+        this.running = true;
+        let done = 0;
+        let failed = 0;
+        const update = () => {
+            this.progressText = `Generated ${done} of ${jobs.length}${failed ? ` (${failed} failed)` : ''}...`;
+            this.render();
+        };
+        jobs.forEach(j => this.rowStatus.set(j.job_id, { text: 'Queued', color: 'var(--text-muted)' }));
+        update();
+
+        await runWithConcurrency(jobs, this.plugin.settings.triageConcurrency, async job => {
+            this.rowStatus.set(job.job_id, { text: 'Generating...', color: 'var(--text-accent)' });
+            this.render();
+            try {
+                const note = this.plugin.findInboxNote(job.job_id);
+                if (!note) throw new Error('No Inbox note');
+                const draftPath = await this.plugin.generateArticleForNote(note);
+                if (draftPath) {
+                    this.rowStatus.set(job.job_id, { text: 'Draft ready - open', color: 'var(--text-success)', path: draftPath });
+                    this.selected.delete(job.job_id);
+                    done++;
+                } else {
+                    this.rowStatus.set(job.job_id, { text: 'Skipped - claimed by another coach', color: 'var(--text-warning)' });
+                    failed++;
+                }
+            } catch (error: any) {
+                console.error(`[Flipmode] Triage generate failed for ${job.job_id}:`, error);
+                this.rowStatus.set(job.job_id, { text: `Failed: ${error.message || 'generation error'}`, color: 'var(--text-error)' });
+                failed++;
             }
-        } catch (error) {
-            container.createEl('p', {
-                text: 'Failed to load jobs. Check connection.',
-                cls: 'error'
-            });
-        }
+            update();
+        });
+
+        this.running = false;
+        this.progressText = `Generated ${done} of ${jobs.length} draft${jobs.length === 1 ? '' : 's'}${failed ? `, ${failed} failed or skipped` : ''}. Review them in Drafts, then push.`;
+        new Notice(this.progressText);
+        this.render();
     }
 
-    async refresh() {
-        const container = this.contentEl.querySelector('.pending-jobs-list') as HTMLElement;
-        if (container) {
-            await this.loadJobs(container);
+    private async answerTogether() {
+        const jobs = this.selectedJobs();
+        if (jobs.length < 2 || this.running) return;
+
+        this.running = true;
+        this.progressText = `Generating one article for ${jobs.length} queries...`;
+        jobs.forEach(j => this.rowStatus.set(j.job_id, { text: 'Answering together...', color: 'var(--text-accent)' }));
+        this.render();
+
+        try {
+            const note = await this.plugin.createCombinedQueryNote(jobs);
+            const draftPath = await this.plugin.generateArticleForNote(note);
+            const status = draftPath
+                ? { text: 'Combined draft ready - open', color: 'var(--text-success)', path: draftPath }
+                : { text: 'Skipped - claimed by another coach', color: 'var(--text-warning)', path: note.path };
+            jobs.forEach(j => this.rowStatus.set(j.job_id, status));
+            if (draftPath) {
+                jobs.forEach(j => this.selected.delete(j.job_id));
+                this.progressText = `Combined draft ready for ${jobs.length} athletes. Pushing it answers all of them.`;
+            } else {
+                this.progressText = 'Could not claim every query - combined note left in the Inbox.';
+            }
+        } catch (error: any) {
+            console.error('[Flipmode] Combined answer failed:', error);
+            jobs.forEach(j => this.rowStatus.set(j.job_id, { text: `Failed: ${error.message || 'generation error'}`, color: 'var(--text-error)' }));
+            this.progressText = 'Combined article failed.';
         }
+
+        this.running = false;
+        this.render();
     }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+    private formatAge(submittedAt: string): string {
+        const ms = Date.now() - new Date(submittedAt).getTime();
+        if (isNaN(ms)) return submittedAt;
+        const minutes = Math.round(ms / 60000);
+        if (minutes < 60) return `${minutes}m ago`;
+        const hours = Math.floor(minutes / 60);
+        if (hours < 24) return `${hours}h ago`;
+        return `${Math.floor(hours / 24)}d ago`;
     }
 }
 
@@ -10926,11 +16338,44 @@ class BJJFlipmodeSettingTab extends PluginSettingTab {
                     .onChange(async (value) => {
                         this.plugin.settings.pollInterval = value;
                         await this.plugin.saveSettings();
-                        if (this.plugin.isRemoteMode()) {
+                        if (this.plugin.isRemoteMode() && !this.plugin.eventStream?.isConnected()) {
+                            this.plugin.startResultPolling();
+                        }
+                    }));
+
+            // Live updates (server-sent events)
+            new Setting(containerEl)
+                .setName('Live Updates')
+                .setDesc('Get job, canvas and concept updates pushed from Oracle instead of polling. Falls back to polling if the connection drops.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.liveUpdates)
+                    .onChange(async (value) => {
+                        this.plugin.settings.liveUpdates = value;
+                        await this.plugin.saveSettings();
+                        if (!this.plugin.isRemoteMode()) return;
+                        if (value) {
+                            this.plugin.startEventStream();
+                        } else {
+                            this.plugin.stopEventStream();
                             this.plugin.startResultPolling();
+                            this.plugin.startCanvasPolling();
+                            this.plugin.updateStatusBar('Remote Mode');
                         }
                     }));
 
+            // Resume window for interrupted therapy sessions
+            new Setting(containerEl)
+                .setName('Resume Window')
+                .setDesc('Hours an unfinished voice note can be continued after the modal closes')
+                .addSlider(slider => slider
+                    .setLimits(1, 72, 1)
+                    .setValue(this.plugin.settings.therapyResumeHours)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.therapyResumeHours = value;
+                        await this.plugin.saveSettings();
+                    }));
+
             // Test Queue Connection
             new Setting(containerEl)
                 .setName('Test Queue Connection')
@@ -11007,6 +16452,42 @@ class BJJFlipmodeSettingTab extends PluginSettingTab {
                         }
                     }));
 
+            // Coach identity for claims
+            new Setting(containerEl)
+                .setName('Coach Name')
+                .setDesc('Shown to other coaches on queries you have claimed, with a short code from your token so coaches with the same name stay apart')
+                .addText(text => text
+                    .setPlaceholder('Your name')
+                    .setValue(this.plugin.settings.coachName)
+                    .onChange(async (value) => {
+                        this.plugin.settings.coachName = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Claim Timeout')
+                .setDesc('Minutes a query stays claimed after you open it before other coaches can take it')
+                .addSlider(slider => slider
+                    .setLimits(5, 120, 5)
+                    .setValue(this.plugin.settings.claimTimeoutMinutes)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.claimTimeoutMinutes = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Triage Batch Size')
+                .setDesc('Articles generated at once when triaging the inbox')
+                .addSlider(slider => slider
+                    .setLimits(1, 5, 1)
+                    .setValue(this.plugin.settings.triageConcurrency)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.triageConcurrency = value;
+                        await this.plugin.saveSettings();
+                    }));
+
             // Local Oracle URL (for generating articles)
             new Setting(containerEl)
                 .setName('Local Oracle URL')
@@ -11066,6 +16547,16 @@ class BJJFlipmodeSettingTab extends PluginSettingTab {
                 .addButton(btn => btn
                     .setButtonText('Add')
                     .onClick(() => this.plugin.coachAddAthlete()));
+
+            // Athlete groups (stored on the queue service)
+            containerEl.createEl('h4', { text: 'Athlete Groups' });
+            const groupsEl = containerEl.createDiv();
+            this.displayAthleteGroups(groupsEl);
+        }
+
+        // VOICE TRANSCRIPTION (athlete modes)
+        if (this.plugin.settings.mode !== 'coach') {
+            this.displayTranscriptionSettings(containerEl);
         }
 
         // COMMON SETTINGS
@@ -11095,6 +16586,19 @@ class BJJFlipmodeSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        // Canvas layout
+        new Setting(containerEl)
+            .setName('Canvas Layout')
+            .setDesc('Direction checkpoints flow in generated RLM, Variables and concept canvases')
+            .addDropdown(dropdown => dropdown
+                .addOption('horizontal', 'Left to right')
+                .addOption('vertical', 'Top to bottom')
+                .setValue(this.plugin.settings.canvasLayoutDirection)
+                .onChange(async (value) => {
+                    this.plugin.settings.canvasLayoutDirection = value as LayoutDirection;
+                    await this.plugin.saveSettings();
+                }));
+
         // Auto Sync
         new Setting(containerEl)
             .setName('Auto Sync')
@@ -11122,6 +16626,176 @@ class BJJFlipmodeSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
     }
+
+    async displayAthleteGroups(el: HTMLElement) {
+        el.empty();
+        if (!this.plugin.coachClient) {
+            el.createEl('p', { text: 'Connect to the queue service to manage groups.' }).style.color = 'var(--text-muted)';
+            return;
+        }
+
+        let athletes: Athlete[];
+        let groups: AthleteGroup[];
+        try {
+            athletes = await this.plugin.coachClient.getAthletes();
+            groups = await this.plugin.refreshAthleteGroups();
+        } catch (error: any) {
+            el.createEl('p', { text: `Failed to load groups: ${error.message}` }).style.color = 'var(--text-error)';
+            return;
+        }
+
+        const edit = (group: AthleteGroup | null) => new AthleteGroupModal(this.app, athletes, group, async (name, athleteIds) => {
+            try {
+                const saved = await this.plugin.coachClient!.saveGroup(name, athleteIds, group?.id);
+                new Notice(`Saved group "${saved.name}"`);
+            } catch (error: any) {
+                new Notice(`Failed to save group: ${error.message}`);
+            }
+            this.displayAthleteGroups(el);
+        }).open();
+
+        for (const group of groups) {
+            new Setting(el)
+                .setName(group.name)
+                .setDesc(`${this.plugin.groupMembers(group, athletes).length} athlete(s)`)
+                .addButton(btn => btn
+                    .setButtonText('Edit')
+                    .onClick(() => edit(group)))
+                .addButton(btn => btn
+                    .setButtonText('Delete')
+                    .setWarning()
+                    .onClick(async () => {
+                        try {
+                            await this.plugin.coachClient!.deleteGroup(group.id);
+                            // Canvases shared with the group stop syncing to it
+                            for (const path of Object.keys(this.plugin.settings.sharedCanvasGroups)) {
+                                this.plugin.settings.sharedCanvasGroups[path] = this.plugin.settings.sharedCanvasGroups[path].filter(id => id !== group.id);
+                            }
+                            await this.plugin.saveSettings();
+                            new Notice(`Deleted group "${group.name}"`);
+                        } catch (error: any) {
+                            new Notice(`Failed to delete group: ${error.message}`);
+                        }
+                        this.displayAthleteGroups(el);
+                    }));
+        }
+
+        new Setting(el)
+            .setName('New Group')
+            .setDesc('e.g. Fundamentals, Advanced, Comp Team')
+            .addButton(btn => btn
+                .setButtonText('Create')
+                .onClick(() => edit(null)));
+    }
+
+    displayTranscriptionSettings(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Voice Transcription' });
+        containerEl.createEl('p', {
+            text: 'Enabled backends are tried in order, skipping any that do not apply to the current mode. If one fails or hits its limit, the next one is used.',
+            cls: 'setting-item-description'
+        });
+
+        const descriptions: Record<TranscriptionBackendId, string> = {
+            'remote': 'Queue service Whisper (remote mode only; 2 min max, 5/day)',
+            'local': `Oracle server at ${this.plugin.settings.serverUrl || '(not set)'} (not used in remote mode)`,
+            'whisper': 'Your own Whisper-compatible endpoint, e.g. a whisper.cpp server at home'
+        };
+
+        const order = this.plugin.settings.transcriptionBackends;
+        const allBackends: TranscriptionBackendId[] = ['remote', 'local', 'whisper'];
+        const listed = [...order, ...allBackends.filter(id => !order.includes(id))];
+
+        const move = async (index: number, delta: number) => {
+            const updated = [...order];
+            [updated[index], updated[index + delta]] = [updated[index + delta], updated[index]];
+            this.plugin.settings.transcriptionBackends = updated;
+            await this.plugin.saveSettings();
+            this.display();
+        };
+
+        for (const id of listed) {
+            const index = order.indexOf(id);
+            const enabled = index !== -1;
+
+            new Setting(containerEl)
+                .setName(enabled ? `${index + 1}. ${TRANSCRIPTION_BACKEND_NAMES[id]}` : TRANSCRIPTION_BACKEND_NAMES[id])
+                .setDesc(descriptions[id])
+                .addExtraButton(btn => btn
+                    .setIcon('arrow-up')
+                    .setTooltip('Try earlier')
+                    .setDisabled(!enabled || index === 0)
+                    .onClick(() => move(index, -1)))
+                .addExtraButton(btn => btn
+                    .setIcon('arrow-down')
+                    .setTooltip('Try later')
+                    .setDisabled(!enabled || index === order.length - 1)
+                    .onClick(() => move(index, 1)))
+                .addToggle(toggle => toggle
+                    .setValue(enabled)
+                    .onChange(async (value) => {
+                        this.plugin.settings.transcriptionBackends = value
+                            ? [...order, id]
+                            : order.filter(b => b !== id);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('Whisper Server URL')
+            .setDesc('Full transcription endpoint, e.g. http://192.168.1.20:8080/inference (whisper.cpp, run with --convert) or https://api.openai.com/v1/audio/transcriptions')
+            .addText(text => text
+                .setPlaceholder('http://localhost:8080/inference')
+                .setValue(this.plugin.settings.whisperUrl)
+                .onChange(async (value) => {
+                    this.plugin.settings.whisperUrl = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Whisper API Key')
+            .setDesc('Optional bearer token (leave empty for servers without auth)')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.setValue(this.plugin.settings.whisperApiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.whisperApiKey = value.trim();
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Whisper Model')
+            .setDesc('Model name sent with each request (ignored by whisper.cpp)')
+            .addText(text => text
+                .setPlaceholder('whisper-1')
+                .setValue(this.plugin.settings.whisperModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.whisperModel = value.trim() || 'whisper-1';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Save Recordings')
+            .setDesc('Keep the raw audio of each voice note in the vault and embed it in the note, so it can be re-transcribed later')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.saveRecordings)
+                .onChange(async (value) => {
+                    this.plugin.settings.saveRecordings = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Recordings Folder')
+            .setDesc(`Where recordings are saved (default: ${this.plugin.settings.syncFolder}/Sessions)`)
+            .addText(text => text
+                .setPlaceholder(`${this.plugin.settings.syncFolder}/Sessions`)
+                .setValue(this.plugin.settings.recordingsFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.recordingsFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+    }
 }
 
 /**
@@ -0,0 +1,353 @@
+// Canonical BJJ position/technique taxonomy.
+//
+// Concept notes, training logs and queries all refer to positions by free text,
+// so "Knee Shield", "Kneeshield" and "knee-shield half guard" would otherwise be
+// separate nodes. Names are resolved against the entries below by alias.
+
+// Which side of the position the athlete is on
+export type Orientation = 'guard' | 'top' | 'bottom' | 'neutral';
+
+export type TaxonomyKind = 'position' | 'technique';
+
+export interface TaxonomyEntry {
+    name: string;
+    kind: TaxonomyKind;
+    parent: string | null;
+    orientation: Orientation;
+    aliases: string[];
+}
+
+export interface MergeSuggestion {
+    canonical: string;
+    names: string[];
+}
+
+// Indices of free-text items (e.g. athlete questions) that are about the same thing
+export interface TextGroup {
+    topic: string | null;
+    members: number[];
+}
+
+// Canonical names must stay filename-safe ([\w\s-]) since they become note names
+export const BJJ_TAXONOMY: TaxonomyEntry[] = [
+    // Standing
+    { name: 'Standing', kind: 'position', parent: null, orientation: 'neutral', aliases: ['stand up', 'standup', 'takedowns', 'wrestling'] },
+    { name: 'Single Leg', kind: 'technique', parent: 'Standing', orientation: 'neutral', aliases: ['single leg takedown'] },
+    { name: 'Double Leg', kind: 'technique', parent: 'Standing', orientation: 'neutral', aliases: ['double leg takedown'] },
+    { name: 'Arm Drag', kind: 'technique', parent: 'Standing', orientation: 'neutral', aliases: ['armdrag'] },
+    { name: 'Guard Pull', kind: 'technique', parent: 'Standing', orientation: 'neutral', aliases: ['pulling guard', 'guard pulling'] },
+    { name: 'Front Headlock', kind: 'position', parent: 'Standing', orientation: 'top', aliases: ['front head lock', 'front headlock position'] },
+
+    // Guard
+    { name: 'Guard', kind: 'position', parent: null, orientation: 'guard', aliases: ['guard position', 'bottom guard'] },
+    { name: 'Closed Guard', kind: 'position', parent: 'Guard', orientation: 'guard', aliases: ['full guard'] },
+    { name: 'Open Guard', kind: 'position', parent: 'Guard', orientation: 'guard', aliases: ['open guard position'] },
+    { name: 'Half Guard', kind: 'position', parent: 'Guard', orientation: 'guard', aliases: ['half', 'halfguard', 'bottom half guard', 'half guard bottom'] },
+    { name: 'Knee Shield', kind: 'position', parent: 'Half Guard', orientation: 'guard', aliases: ['knee shield half guard', 'z guard', 'z-guard', 'knee shield guard'] },
+    { name: 'Deep Half Guard', kind: 'position', parent: 'Half Guard', orientation: 'guard', aliases: ['deep half'] },
+    { name: 'Lockdown', kind: 'position', parent: 'Half Guard', orientation: 'guard', aliases: ['lock down', 'lockdown half guard'] },
+    { name: 'Butterfly Guard', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['butterfly'] },
+    { name: 'De La Riva Guard', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['de la riva', 'dlr', 'dlr guard'] },
+    { name: 'Reverse De La Riva', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['reverse de la riva guard', 'rdlr', 'reverse dlr'] },
+    { name: 'Spider Guard', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['spider'] },
+    { name: 'Lasso Guard', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['lasso'] },
+    { name: 'Collar Sleeve', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['collar sleeve guard', 'collar and sleeve'] },
+    { name: 'X-Guard', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['x guard', 'xguard'] },
+    { name: 'Single Leg X', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['slx', 'single leg x guard', 'single x'] },
+    { name: 'Worm Guard', kind: 'position', parent: 'Open Guard', orientation: 'guard', aliases: ['worm', 'lapel guard'] },
+    { name: 'Rubber Guard', kind: 'position', parent: 'Closed Guard', orientation: 'guard', aliases: ['mission control'] },
+    { name: 'Scissor Sweep', kind: 'technique', parent: 'Closed Guard', orientation: 'guard', aliases: ['scissor'] },
+    { name: 'Hip Bump Sweep', kind: 'technique', parent: 'Closed Guard', orientation: 'guard', aliases: ['hip bump', 'sit up sweep'] },
+    { name: 'Flower Sweep', kind: 'technique', parent: 'Closed Guard', orientation: 'guard', aliases: ['pendulum sweep'] },
+    { name: 'Butterfly Sweep', kind: 'technique', parent: 'Butterfly Guard', orientation: 'guard', aliases: ['hook sweep', 'butterfly hook sweep'] },
+    { name: 'Berimbolo', kind: 'technique', parent: 'De La Riva Guard', orientation: 'guard', aliases: ['bolo'] },
+    { name: 'Old School Sweep', kind: 'technique', parent: 'Half Guard', orientation: 'guard', aliases: ['old school'] },
+
+    // Passing
+    { name: 'Guard Passing', kind: 'technique', parent: null, orientation: 'top', aliases: ['guard pass', 'passing the guard'] },
+    { name: 'Knee Slice', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['knee cut', 'knee slide', 'knee slice pass', 'knee cut pass'] },
+    { name: 'Toreando', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['torreando', 'toreando pass', 'bullfighter pass', 'bullfighter'] },
+    { name: 'Leg Drag', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['leg drag pass'] },
+    { name: 'Over Under Pass', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['over under', 'over-under'] },
+    { name: 'Stack Pass', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['double under', 'double under pass', 'stacking pass'] },
+    { name: 'Body Lock Pass', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['body lock', 'bodylock pass'] },
+    { name: 'Smash Pass', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['half guard smash pass'] },
+    { name: 'Long Step', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['long step pass'] },
+    { name: 'X-Pass', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['x pass'] },
+    { name: 'Knee Shield Pass', kind: 'technique', parent: 'Guard Passing', orientation: 'top', aliases: ['knee shield passing', 'passing the knee shield', 'z guard pass'] },
+
+    // Top pins
+    { name: 'Mount', kind: 'position', parent: null, orientation: 'top', aliases: ['full mount', 'top mount', 'mounted'] },
+    { name: 'S-Mount', kind: 'position', parent: 'Mount', orientation: 'top', aliases: ['s mount'] },
+    { name: 'Technical Mount', kind: 'position', parent: 'Mount', orientation: 'top', aliases: ['technical mount position'] },
+    { name: 'Side Control', kind: 'position', parent: null, orientation: 'top', aliases: ['side mount', 'cross side', 'hundred kilos', '100 kilos', 'side control top'] },
+    { name: 'Kesa Gatame', kind: 'position', parent: 'Side Control', orientation: 'top', aliases: ['scarf hold', 'kesa'] },
+    { name: 'North-South', kind: 'position', parent: 'Side Control', orientation: 'top', aliases: ['north south'] },
+    { name: 'Knee on Belly', kind: 'position', parent: 'Side Control', orientation: 'top', aliases: ['knee on stomach', 'knee ride', 'kob'] },
+    { name: 'Back Control', kind: 'position', parent: null, orientation: 'top', aliases: ['back', 'back mount', 'rear mount', 'the back'] },
+    { name: 'Back Take', kind: 'technique', parent: 'Back Control', orientation: 'top', aliases: ['taking the back', 'back takes'] },
+    { name: 'Seatbelt', kind: 'technique', parent: 'Back Control', orientation: 'top', aliases: ['seat belt', 'seatbelt grip'] },
+    { name: 'Body Triangle', kind: 'technique', parent: 'Back Control', orientation: 'top', aliases: ['body triangle control'] },
+
+    // Bottom (inferior) positions
+    { name: 'Mount Bottom', kind: 'position', parent: 'Mount', orientation: 'bottom', aliases: ['bottom mount', 'under mount'] },
+    { name: 'Side Control Bottom', kind: 'position', parent: 'Side Control', orientation: 'bottom', aliases: ['bottom side control', 'under side control'] },
+    { name: 'Back Defense', kind: 'position', parent: 'Back Control', orientation: 'bottom', aliases: ['back escape', 'back escapes', 'back taken'] },
+    { name: 'Turtle', kind: 'position', parent: null, orientation: 'bottom', aliases: ['turtle position', 'turtle bottom'] },
+    { name: 'Elbow Escape', kind: 'technique', parent: 'Mount Bottom', orientation: 'bottom', aliases: ['elbow knee escape'] },
+    { name: 'Trap and Roll', kind: 'technique', parent: 'Mount Bottom', orientation: 'bottom', aliases: ['upa', 'bridge and roll', 'bridge escape'] },
+
+    // Leg entanglements
+    { name: 'Leg Entanglements', kind: 'position', parent: null, orientation: 'neutral', aliases: ['leg locks', 'leglocks', 'leg lock', 'leg entanglement'] },
+    { name: 'Ashi Garami', kind: 'position', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['straight ashi', 'standard ashi'] },
+    { name: 'Outside Ashi', kind: 'position', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['outside ashi garami'] },
+    { name: 'Inside Sankaku', kind: 'position', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['saddle', 'honey hole', '411', '4 11', 'inside sankaku garami'] },
+    { name: 'Fifty-Fifty', kind: 'position', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['50 50', '5050', 'fifty fifty', '50 50 guard'] },
+    { name: 'Heel Hook', kind: 'technique', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['heelhook', 'inside heel hook', 'outside heel hook'] },
+    { name: 'Straight Ankle Lock', kind: 'technique', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['ankle lock', 'straight foot lock', 'achilles lock'] },
+    { name: 'Kneebar', kind: 'technique', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['knee bar'] },
+    { name: 'Toe Hold', kind: 'technique', parent: 'Leg Entanglements', orientation: 'neutral', aliases: ['toehold'] },
+
+    // Submissions
+    { name: 'Submissions', kind: 'technique', parent: null, orientation: 'neutral', aliases: ['submission', 'finishes'] },
+    { name: 'Armbar', kind: 'technique', parent: 'Submissions', orientation: 'neutral', aliases: ['arm bar', 'juji gatame'] },
+    { name: 'Triangle Choke', kind: 'technique', parent: 'Submissions', orientation: 'guard', aliases: ['triangle', 'sankaku jime'] },
+    { name: 'Kimura', kind: 'technique', parent: 'Submissions', orientation: 'neutral', aliases: ['double wrist lock', 'kimura lock'] },
+    { name: 'Americana', kind: 'technique', parent: 'Submissions', orientation: 'top', aliases: ['keylock', 'key lock', 'paintbrush'] },
+    { name: 'Omoplata', kind: 'technique', parent: 'Submissions', orientation: 'guard', aliases: ['omo plata'] },
+    { name: 'Rear Naked Choke', kind: 'technique', parent: 'Submissions', orientation: 'top', aliases: ['rnc', 'mata leao', 'rear naked'] },
+    { name: 'Guillotine', kind: 'technique', parent: 'Submissions', orientation: 'neutral', aliases: ['guillotine choke'] },
+    { name: 'Darce Choke', kind: 'technique', parent: 'Submissions', orientation: 'top', aliases: ['darce', 'brabo choke', 'brabo'] },
+    { name: 'Anaconda Choke', kind: 'technique', parent: 'Submissions', orientation: 'top', aliases: ['anaconda'] },
+    { name: 'Arm Triangle', kind: 'technique', parent: 'Submissions', orientation: 'top', aliases: ['kata gatame', 'head and arm choke'] },
+    { name: 'Ezekiel Choke', kind: 'technique', parent: 'Submissions', orientation: 'neutral', aliases: ['ezekiel', 'sode guruma jime'] },
+    { name: 'Bow and Arrow Choke', kind: 'technique', parent: 'Submissions', orientation: 'top', aliases: ['bow and arrow'] },
+    { name: 'Cross Collar Choke', kind: 'technique', parent: 'Submissions', orientation: 'neutral', aliases: ['cross choke'] }
+];
+
+const ARTICLES = /^(the|a|an)\s+/;
+
+// Lowercase, punctuation-free, single-spaced form used for matching
+export function taxonomyKey(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .replace(ARTICLES, '');
+}
+
+// Key with spaces removed, so "kneeshield" matches "knee shield"
+function compactKey(name: string): string {
+    return taxonomyKey(name).replace(/\s+/g, '');
+}
+
+let entriesByName: Map<string, TaxonomyEntry> | null = null;
+let entriesByKey: Map<string, TaxonomyEntry> | null = null;
+
+function buildIndex() {
+    entriesByName = new Map();
+    entriesByKey = new Map();
+    for (const entry of BJJ_TAXONOMY) {
+        entriesByName.set(entry.name, entry);
+        for (const label of [entry.name, ...entry.aliases]) {
+            const key = compactKey(label);
+            if (!entriesByKey.has(key)) entriesByKey.set(key, entry);
+        }
+    }
+}
+
+export function getTaxonomyEntry(canonicalName: string): TaxonomyEntry | null {
+    if (!entriesByName) buildIndex();
+    return entriesByName!.get(canonicalName) || null;
+}
+
+// Exact lookup by canonical name or alias, ignoring case, spacing and punctuation
+export function resolveTaxonomy(name: string): TaxonomyEntry | null {
+    if (!name) return null;
+    if (!entriesByKey) buildIndex();
+    return entriesByKey!.get(compactKey(name)) || null;
+}
+
+// Most specific entry mentioned anywhere in a longer name, e.g. "sweeps from knee-shield half guard"
+export function findTaxonomyMention(text: string): TaxonomyEntry | null {
+    const exact = resolveTaxonomy(text);
+    if (exact) return exact;
+
+    const key = ` ${taxonomyKey(text)} `;
+    let best: TaxonomyEntry | null = null;
+    let bestLength = 0;
+    for (const entry of BJJ_TAXONOMY) {
+        for (const label of [entry.name, ...entry.aliases]) {
+            const labelKey = taxonomyKey(label);
+            // Short aliases ("dlr", "back", "half") only count as exact matches
+            if (labelKey.length < 5 || labelKey.length <= bestLength) continue;
+            if (key.includes(` ${labelKey} `)) {
+                best = entry;
+                bestLength = labelKey.length;
+            }
+        }
+    }
+    return best;
+}
+
+// Canonical name for a known position/technique, otherwise the name tidied up
+export function canonicalName(name: string): string {
+    const entry = resolveTaxonomy(name);
+    return entry ? entry.name : name.replace(/\s+/g, ' ').trim();
+}
+
+// Filename-safe concept note name, canonicalized where the taxonomy knows it
+export function normalizeConceptName(name: string): string {
+    if (!name) return '';
+    const entry = resolveTaxonomy(name);
+    if (entry) return entry.name;
+
+    let clean = name.replace(/[^\w\s-]/g, '').replace(/\s+/g, ' ').trim();
+    clean = clean.replace(/^(The|A|An)\s+/i, '');
+    return clean;
+}
+
+// Canonical names from the entry up to its root, e.g. Knee Shield → Half Guard → Guard
+export function taxonomyPath(entry: TaxonomyEntry): string[] {
+    const path = [entry.name];
+    let current = entry;
+    while (current.parent) {
+        const parent = getTaxonomyEntry(current.parent);
+        if (!parent || path.includes(parent.name)) break;
+        path.push(parent.name);
+        current = parent;
+    }
+    return path;
+}
+
+// Top-level group for a free-text topic ("Guard", "Mount", "Submissions"...), or null if unknown
+export function taxonomyGroup(text: string): string | null {
+    const entry = findTaxonomyMention(text);
+    if (!entry) return null;
+    const path = taxonomyPath(entry);
+    return path[path.length - 1];
+}
+
+// Root entries in taxonomy order, for stable group ordering
+export function taxonomyRoots(): string[] {
+    return BJJ_TAXONOMY.filter(e => !e.parent).map(e => e.name);
+}
+
+function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(
+                prev[j] + 1,
+                curr[j - 1] + 1,
+                prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        prev = curr;
+    }
+    return 1 - prev[b.length] / longest;
+}
+
+/**
+ * Group names that refer to the same thing: same taxonomy entry, same compact
+ * spelling, or near-identical spelling. Identical names are not reported.
+ */
+export function suggestMerges(names: string[], threshold: number = 0.8): MergeSuggestion[] {
+    const unique = [...new Set(names)];
+    const groups: string[][] = [];
+
+    const sameThing = (a: string, b: string): boolean => {
+        const entryA = resolveTaxonomy(a);
+        const entryB = resolveTaxonomy(b);
+        if (entryA && entryB) return entryA === entryB;
+
+        const keyA = compactKey(a);
+        const keyB = compactKey(b);
+        if (keyA === keyB) return true;
+        return Math.min(keyA.length, keyB.length) >= 5 && similarity(keyA, keyB) >= threshold;
+    };
+
+    for (const name of unique) {
+        const match = groups.find(group => group.some(other => sameThing(name, other)));
+        if (match) {
+            match.push(name);
+        } else {
+            groups.push([name]);
+        }
+    }
+
+    return groups
+        .filter(group => group.length > 1)
+        .map(group => {
+            const entry = group.map(resolveTaxonomy).find(e => e !== null);
+            return {
+                canonical: entry ? entry.name : group.find(n => n === normalizeConceptName(n)) || group[0],
+                names: group
+            };
+        });
+}
+
+const GROUPING_STOPWORDS = new Set([
+    'about', 'after', 'against', 'always', 'because', 'before', 'being', 'could', 'does', 'doing',
+    'from', 'getting', 'have', 'into', 'keep', 'know', 'like', 'more', 'should', 'some', 'than',
+    'that', 'their', 'them', 'then', 'there', 'they', 'this', 'when', 'where', 'which', 'while',
+    'with', 'would', 'your', 'what', 'just', 'still', 'really'
+]);
+
+// Lowercased content words with common suffixes trimmed ("escaping" ~ "escape")
+function contentWords(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z]+/)
+        .filter(w => w.length >= 4 && !GROUPING_STOPWORDS.has(w))
+        .map(w => w.replace(/(ing|ed|es|s|e)$/, ''))
+        .filter(w => w.length >= 3));
+}
+
+/**
+ * Cluster texts that mention related taxonomy entries or share enough content
+ * words (Jaccard overlap). Groups are returned largest first; singletons included.
+ */
+export function groupSimilarTexts(texts: string[], threshold: number = 0.3): TextGroup[] {
+    const entries = texts.map(t => findTaxonomyMention(t));
+    const topics = entries.map(e => e?.name || null);
+    const paths = entries.map(e => e ? taxonomyPath(e) : []);
+    const words = texts.map(contentWords);
+    const parent = texts.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+    for (let i = 0; i < texts.length; i++) {
+        for (let j = i + 1; j < texts.length; j++) {
+            // Same entry, or one is filed under the other (Knee Shield under Half Guard)
+            let related = topics[i] !== null && topics[j] !== null
+                && (paths[i].includes(topics[j]!) || paths[j].includes(topics[i]!));
+            if (!related && words[i].size > 0 && words[j].size > 0) {
+                const shared = [...words[i]].filter(w => words[j].has(w)).length;
+                related = shared / (words[i].size + words[j].size - shared) >= threshold;
+            }
+            if (related) parent[find(j)] = find(i);
+        }
+    }
+
+    const byRoot = new Map<number, number[]>();
+    texts.forEach((_, i) => {
+        const root = find(i);
+        if (!byRoot.has(root)) byRoot.set(root, []);
+        byRoot.get(root)!.push(i);
+    });
+
+    return [...byRoot.values()]
+        .map(members => {
+            const counts = new Map<string, number>();
+            for (const i of members) {
+                if (topics[i]) counts.set(topics[i]!, (counts.get(topics[i]!) || 0) + 1);
+            }
+            const topic = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || null;
+            return { topic, members };
+        })
+        .sort((a, b) => b.members.length - a.members.length || a.members[0] - b.members[0]);
+}